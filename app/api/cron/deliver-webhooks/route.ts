@@ -0,0 +1,45 @@
+import { NextResponse, connection } from "next/server";
+import { headers } from "next/headers";
+
+import { deliverDueWebhooks } from "@/server/webhooks/deliver";
+
+export async function GET() {
+  // Wait for incoming request before continuing (prevents prerendering)
+  await connection();
+
+  try {
+    // 1. Security check: Verify the request is from Vercel Cron
+    const authHeader = (await headers()).get("authorization");
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return new Response("Unauthorized", {
+        status: 401,
+      });
+    }
+
+    // 2. Log start
+    console.log("Starting webhook retries cron job...");
+
+    // 3. Retry deliveries whose backoff has elapsed
+    const stats = await deliverDueWebhooks();
+
+    // 4. Log and return stats
+    console.log(
+      `Webhook retries completed: ${stats.succeeded} succeeded, ${stats.failed} failed.`,
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: "Webhook retries completed",
+      stats,
+    });
+  } catch (error) {
+    console.error("Webhook retries cron job failed:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
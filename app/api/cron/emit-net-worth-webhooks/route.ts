@@ -0,0 +1,45 @@
+import { NextResponse, connection } from "next/server";
+import { headers } from "next/headers";
+
+import { emitNetWorthWebhooks } from "@/server/webhooks/net-worth";
+
+export async function GET() {
+  // Wait for incoming request before continuing (prevents prerendering)
+  await connection();
+
+  try {
+    // 1. Security check: Verify the request is from Vercel Cron
+    const authHeader = (await headers()).get("authorization");
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return new Response("Unauthorized", {
+        status: 401,
+      });
+    }
+
+    // 2. Log start
+    console.log("Starting daily net worth webhooks cron job...");
+
+    // 3. Compute net worth for subscribed users (runs after fetch-quotes)
+    const stats = await emitNetWorthWebhooks();
+
+    // 4. Log and return stats
+    console.log(
+      `Net worth webhooks completed: ${stats.emitted} emitted, ${stats.failed} failed.`,
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: "Daily net worth webhooks completed",
+      stats,
+    });
+  } catch (error) {
+    console.error("Net worth webhooks cron job failed:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse, connection } from "next/server";
+import { headers } from "next/headers";
+
+import { fetchActiveAlertRules } from "@/server/alerts/fetch";
+import { evaluateUserAlerts } from "@/server/alerts/evaluate";
+
+import type { AlertRule } from "@/types/global.types";
+
+export async function GET() {
+  // Wait for incoming request before continuing (prevents prerendering)
+  await connection();
+
+  try {
+    // 1. Security check: Verify the request is from Vercel Cron
+    const authHeader = (await headers()).get("authorization");
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return new Response("Unauthorized", {
+        status: 401,
+      });
+    }
+
+    // 2. Log start
+    console.log("Starting daily alerts cron job...");
+
+    // 3. Fetch all active rules, grouped by user (runs after fetch-quotes)
+    const rules = await fetchActiveAlertRules();
+    const rulesByUser = new Map<string, AlertRule[]>();
+    rules.forEach((rule) => {
+      const userRules = rulesByUser.get(rule.user_id) ?? [];
+      userRules.push(rule);
+      rulesByUser.set(rule.user_id, userRules);
+    });
+
+    // 4. Evaluate rules one user at a time
+    let evaluatedRules = 0;
+    let triggeredRules = 0;
+    let failedRules = 0;
+    for (const [userId, userRules] of rulesByUser) {
+      try {
+        const result = await evaluateUserAlerts(userId, userRules);
+        evaluatedRules += result.evaluated;
+        triggeredRules += result.triggered;
+        failedRules += result.failed;
+      } catch (error) {
+        console.error(`Alerts for user ${userId} failed:`, error);
+        failedRules += userRules.length;
+      }
+    }
+
+    // 5. Log and return stats
+    console.log(
+      `Alerts completed: ${triggeredRules} triggered, ${failedRules} rules failed.`,
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: "Daily alerts completed",
+      stats: {
+        totalRules: rules.length,
+        totalUsers: rulesByUser.size,
+        evaluatedRules,
+        triggeredRules,
+        failedRules,
+      },
+    });
+  } catch (error) {
+    console.error("Alerts cron job failed:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse, connection } from "next/server";
+import { headers } from "next/headers";
+
+import { fetchActiveRecurringTransactionIds } from "@/server/recurring-transactions/fetch";
+import { syncRecurringOccurrences } from "@/server/recurring-transactions/schedule";
+
+export async function GET() {
+  // Wait for incoming request before continuing (prevents prerendering)
+  await connection();
+
+  try {
+    // 1. Security check: Verify the request is from Vercel Cron
+    const authHeader = (await headers()).get("authorization");
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return new Response("Unauthorized", {
+        status: 401,
+      });
+    }
+
+    // 2. Log start
+    console.log("Starting daily recurring transactions cron job...");
+
+    // 3. Fetch all active schedules
+    const scheduleIds = await fetchActiveRecurringTransactionIds();
+
+    // 4. Generate due occurrences, one schedule at a time
+    let successfulSyncs = 0;
+    let generatedOccurrences = 0;
+    for (const scheduleId of scheduleIds) {
+      try {
+        const result = await syncRecurringOccurrences(scheduleId);
+        if (result.success) {
+          successfulSyncs += 1;
+          generatedOccurrences += result.generated ?? 0;
+        } else {
+          console.error(
+            `Recurring transaction ${scheduleId} failed: ${result.message}`,
+          );
+        }
+      } catch (error) {
+        // Quote lookups throw for unresolvable symbols
+        console.error(`Recurring transaction ${scheduleId} failed:`, error);
+      }
+    }
+
+    const failedSyncs = scheduleIds.length - successfulSyncs;
+
+    // 5. Log and return stats
+    console.log(
+      `Recurring transactions completed: ${generatedOccurrences} occurrences generated, ${failedSyncs} schedules failed.`,
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: "Daily recurring transactions completed",
+      stats: {
+        totalSchedules: scheduleIds.length,
+        successfulSyncs,
+        failedSyncs,
+        generatedOccurrences,
+      },
+    });
+  } catch (error) {
+    console.error("Recurring transactions cron job failed:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
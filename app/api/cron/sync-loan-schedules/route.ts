@@ -0,0 +1,65 @@
+import { NextResponse, connection } from "next/server";
+import { headers } from "next/headers";
+
+import { fetchLoanPositionIds } from "@/server/loans/fetch";
+import { syncLoanSnapshots } from "@/server/loans/schedule";
+
+export async function GET() {
+  // Wait for incoming request before continuing (prevents prerendering)
+  await connection();
+
+  try {
+    // 1. Security check: Verify the request is from Vercel Cron
+    const authHeader = (await headers()).get("authorization");
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return new Response("Unauthorized", {
+        status: 401,
+      });
+    }
+
+    // 2. Log start
+    console.log("Starting daily loan schedule sync cron job...");
+
+    // 3. Fetch all loan-backed positions
+    const positionIds = await fetchLoanPositionIds();
+
+    // 4. Regenerate schedule snapshots up to today, one loan at a time
+    let successfulSyncs = 0;
+    for (const positionId of positionIds) {
+      const result = await syncLoanSnapshots(positionId);
+      if (result.success) {
+        successfulSyncs += 1;
+      } else {
+        console.error(
+          `Loan schedule sync failed for position ${positionId}: ${result.message}`,
+        );
+      }
+    }
+
+    const failedSyncs = positionIds.length - successfulSyncs;
+
+    // 5. Log and return stats
+    console.log(
+      `Loan schedule sync completed: ${successfulSyncs} successful, ${failedSyncs} failed.`,
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: "Daily loan schedule sync completed",
+      stats: {
+        totalLoans: positionIds.length,
+        successfulSyncs,
+        failedSyncs,
+      },
+    });
+  } catch (error) {
+    console.error("Loan schedule cron job failed:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { format, parseISO } from "date-fns";
+
+import { calculateAssetAllocation } from "@/server/analysis/asset-allocation";
+import { parseApiInput, withApiAuth } from "@/server/api-tokens/authenticate";
+
+import { valuationQuerySchema } from "@/lib/api-schemas";
+
+export const GET = withApiAuth(
+  "read",
+  async (request, { context, currency: displayCurrency }) => {
+    const query = parseApiInput(
+      valuationQuerySchema,
+      Object.fromEntries(new URL(request.url).searchParams),
+    );
+    if (!query.success) return query.response;
+
+    const {
+      currency = displayCurrency,
+      date = format(new Date(), "yyyy-MM-dd"),
+      account_id,
+    } = query.data;
+    const allocation = await calculateAssetAllocation(
+      currency,
+      parseISO(date),
+      context,
+      account_id,
+    );
+
+    return NextResponse.json({
+      data: { currency, date, categories: allocation },
+    });
+  },
+);
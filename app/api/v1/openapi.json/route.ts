@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+
+import { buildOpenApiDocument } from "@/lib/openapi";
+
+export async function GET(request: Request) {
+  return NextResponse.json(buildOpenApiDocument(new URL(request.url).origin));
+}
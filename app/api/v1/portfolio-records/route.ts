@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+
+import { fetchPortfolioRecords } from "@/server/portfolio-records/fetch";
+import { createPortfolioRecord } from "@/server/portfolio-records/create";
+import {
+  apiError,
+  parseApiInput,
+  withApiAuth,
+} from "@/server/api-tokens/authenticate";
+
+import {
+  createPortfolioRecordSchema,
+  portfolioRecordsQuerySchema,
+  toPortfolioRecordFormData,
+} from "@/lib/api-schemas";
+
+export const GET = withApiAuth("read", async (request, { context }) => {
+  const query = parseApiInput(
+    portfolioRecordsQuerySchema,
+    Object.fromEntries(new URL(request.url).searchParams),
+  );
+  if (!query.success) return query.response;
+
+  const { position_id, start_date, end_date, page, page_size } = query.data;
+  const { records, ...pagination } = await fetchPortfolioRecords(
+    {
+      positionId: position_id,
+      startDate: start_date ? new Date(start_date) : undefined,
+      endDate: end_date ? new Date(end_date) : undefined,
+      page,
+      pageSize: page_size,
+    },
+    context,
+  );
+
+  return NextResponse.json({ data: records, pagination });
+});
+
+export const POST = withApiAuth("read_write", async (request, { context }) => {
+  const body = await request.json().catch(() => null);
+
+  const input = parseApiInput(createPortfolioRecordSchema, body);
+  if (!input.success) return input.response;
+
+  const result = await createPortfolioRecord(
+    toPortfolioRecordFormData(input.data),
+    context,
+  );
+
+  if (!result.success) {
+    return apiError(
+      result.code === "POSITION_NOT_FOUND" ? 404 : 400,
+      result.code,
+      result.message,
+    );
+  }
+
+  return NextResponse.json({ data: { success: true } }, { status: 201 });
+});
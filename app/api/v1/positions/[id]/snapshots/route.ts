@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+
+import { fetchPositionSnapshots } from "@/server/position-snapshots/fetch";
+import {
+  apiError,
+  parseApiInput,
+  withApiAuth,
+} from "@/server/api-tokens/authenticate";
+
+import { positionIdSchema, snapshotsQuerySchema } from "@/lib/api-schemas";
+
+export const GET = withApiAuth(
+  "read",
+  async (
+    request,
+    { context },
+    { params }: { params: Promise<{ id: string }> },
+  ) => {
+    const positionId = parseApiInput(positionIdSchema, (await params).id);
+    if (!positionId.success) return positionId.response;
+    const id = positionId.data;
+
+    const query = parseApiInput(
+      snapshotsQuerySchema,
+      Object.fromEntries(new URL(request.url).searchParams),
+    );
+    if (!query.success) return query.response;
+
+    const { start_date, end_date } = query.data;
+    const snapshots = await fetchPositionSnapshots(
+      {
+        positionId: id,
+        startDate: start_date ? new Date(start_date) : undefined,
+        endDate: end_date ? new Date(end_date) : undefined,
+      },
+      context,
+    );
+
+    // Snapshots are scoped to the owner, so other positions come back empty
+    if (!snapshots.length) {
+      const { data: position } = await context.supabaseClient
+        .from("positions")
+        .select("id")
+        .eq("id", id)
+        .eq("user_id", context.userId)
+        .maybeSingle();
+      if (!position) {
+        return apiError(404, "POSITION_NOT_FOUND", "Position not found");
+      }
+    }
+
+    return NextResponse.json({ data: snapshots });
+  },
+);
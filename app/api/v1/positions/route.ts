@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+
+import { fetchPositions } from "@/server/positions/fetch";
+import { parseApiInput, withApiAuth } from "@/server/api-tokens/authenticate";
+
+import { positionsQuerySchema } from "@/lib/api-schemas";
+
+export const GET = withApiAuth("read", async (request, { context }) => {
+  const query = parseApiInput(
+    positionsQuerySchema,
+    Object.fromEntries(new URL(request.url).searchParams),
+  );
+  if (!query.success) return query.response;
+
+  const { type, account_id, include_archived } = query.data;
+  const positions = await fetchPositions(
+    {
+      positionType: type,
+      accountId: account_id,
+      includeArchived: include_archived === "true",
+    },
+    context,
+  );
+
+  return NextResponse.json({ data: positions });
+});
@@ -0,0 +1,97 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+
+import { Logo } from "@/components/ui/logos/logo";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { AcceptInvitationForm } from "@/components/features/auth/accept-invitation-form";
+
+import { getOptionalUser } from "@/server/auth/actions";
+import { fetchInvitation } from "@/server/portfolio-members/fetch";
+
+export const metadata: Metadata = {
+  title: "Invitation",
+  description: "Join a shared portfolio on Foliofox.",
+};
+
+export default async function InvitationPage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+  const [invitation, { user }] = await Promise.all([
+    fetchInvitation(token),
+    getOptionalUser(),
+  ]);
+
+  const invitePath = `/auth/invite/${token}`;
+  const inviter = invitation?.owner.username ?? "Someone";
+
+  return (
+    <div className="bg-muted flex min-h-svh flex-col items-center justify-center p-4">
+      <div className="flex w-full max-w-sm flex-col gap-6">
+        <Link href="/" className="self-center">
+          <Logo />
+        </Link>
+        {!invitation ? (
+          <Card>
+            <CardHeader className="text-center">
+              <CardTitle className="text-xl">Invitation not found</CardTitle>
+              <CardDescription>
+                This invitation doesn&apos;t exist or was revoked. Ask for a new
+                link.
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader className="text-center">
+              <CardTitle className="text-xl">
+                Join {inviter}&apos;s portfolio
+              </CardTitle>
+              <CardDescription>
+                {inviter} invited {invitation.email} as{" "}
+                {invitation.role === "editor" ? "an editor" : "a viewer"}.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {user ? (
+                <AcceptInvitationForm
+                  token={token}
+                  isAccepted={invitation.member_id === user.id}
+                />
+              ) : (
+                <div className="grid gap-2">
+                  <Button asChild>
+                    <Link
+                      href={`/auth/login?next=${encodeURIComponent(invitePath)}`}
+                    >
+                      Log in to accept
+                    </Link>
+                  </Button>
+                  <p className="text-muted-foreground text-center text-sm">
+                    New to Foliofox?{" "}
+                    <Link
+                      href="/auth/signup"
+                      className="underline underline-offset-4"
+                    >
+                      Sign up
+                    </Link>{" "}
+                    with {invitation.email}, then open this link again.
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
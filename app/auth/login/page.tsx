@@ -13,13 +13,22 @@ export const metadata: Metadata = {
   description: "Sign in to your Foliofox account.",
 };
 
-export default async function LoginPage() {
-  // Check if user is already logged in and redirect to dashboard
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string }>;
+}) {
+  // Only same-site paths, e.g. an invitation link
+  const { next } = await searchParams;
+  const redirectTo =
+    next?.startsWith("/") && !next.startsWith("//") ? next : "/dashboard";
+
+  // Check if user is already logged in and redirect
   const supabase = await createClient();
 
   const { data } = await supabase.auth.getClaims();
   if (data?.claims) {
-    redirect("/dashboard");
+    redirect(redirectTo);
   }
 
   return (
@@ -29,7 +38,7 @@ export default async function LoginPage() {
         <Link href="/" className="self-center">
           <Logo />
         </Link>
-        <LoginForm />
+        <LoginForm redirectTo={redirectTo} />
       </div>
     </div>
   );
@@ -0,0 +1,44 @@
+import { Suspense } from "react";
+
+import { Skeleton } from "@/components/ui/custom/skeleton";
+import { Accounts } from "@/components/dashboard/accounts";
+
+import { fetchProfile } from "@/server/profile/actions";
+import { fetchAccounts, fetchSelectedAccountId } from "@/server/accounts/fetch";
+import { calculateAccountBreakdown } from "@/server/analysis/account-breakdown";
+
+async function AccountsWrapper() {
+  "use cache: private";
+  const { profile } = await fetchProfile();
+  const [accounts, selectedAccountId, breakdown] = await Promise.all([
+    fetchAccounts(),
+    fetchSelectedAccountId(),
+    calculateAccountBreakdown(profile.display_currency),
+  ]);
+
+  return (
+    <Accounts
+      accounts={accounts}
+      breakdown={breakdown}
+      selectedAccountId={selectedAccountId}
+      currency={profile.display_currency}
+    />
+  );
+}
+
+export default function AccountsPage() {
+  return (
+    <div className="flex flex-col gap-4">
+      <div>
+        <h1 className="text-2xl font-semibold">Accounts</h1>
+        <p className="text-muted-foreground">
+          Group your positions by brokerage, pension or joint account and filter
+          the dashboard by one of them
+        </p>
+      </div>
+      <Suspense fallback={<Skeleton className="h-48" />}>
+        <AccountsWrapper />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { Suspense } from "react";
+
+import { Skeleton } from "@/components/ui/custom/skeleton";
+import { AlertRules } from "@/components/dashboard/alerts";
+
+import { fetchProfile } from "@/server/profile/actions";
+import { fetchAlertRules } from "@/server/alerts/fetch";
+import { fetchPositions } from "@/server/positions/fetch";
+
+async function AlertRulesWrapper() {
+  "use cache: private";
+  const { profile } = await fetchProfile();
+  const [rules, positions] = await Promise.all([
+    fetchAlertRules(),
+    fetchPositions({ positionType: "asset" }),
+  ]);
+
+  // One entry per symbol, named after the position holding it
+  const symbols = new Map<string, string>();
+  positions.forEach((position) => {
+    if (position.symbol_id && !symbols.has(position.symbol_id)) {
+      symbols.set(position.symbol_id, position.name);
+    }
+  });
+
+  return (
+    <AlertRules
+      rules={rules}
+      defaultCurrency={profile.display_currency}
+      symbols={Array.from(symbols, ([id, name]) => ({ id, name }))}
+      positions={positions.map(({ id, name }) => ({ id, name }))}
+    />
+  );
+}
+
+export default function AlertsPage() {
+  return (
+    <div className="flex flex-col gap-4">
+      <div>
+        <h1 className="text-2xl font-semibold">Alerts</h1>
+        <p className="text-muted-foreground">
+          Get notified about price levels, big moves, net worth milestones,
+          allocation drift and upcoming ex-dividend dates
+        </p>
+      </div>
+      <Suspense fallback={<Skeleton className="h-48" />}>
+        <AlertRulesWrapper />
+      </Suspense>
+    </div>
+  );
+}
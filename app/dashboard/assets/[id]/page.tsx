@@ -1,5 +1,6 @@
 import { Suspense } from "react";
 import { redirect } from "next/navigation";
+import { parseISO } from "date-fns";
 
 import { Skeleton } from "@/components/ui/custom/skeleton";
 import { Separator } from "@/components/ui/separator";
@@ -7,13 +8,19 @@ import { AssetHeader } from "@/components/dashboard/positions/asset/header";
 import { PortfolioRecordsTable } from "@/components/dashboard/portfolio-records/table/portfolio-records-table";
 import { AssetNews } from "@/components/dashboard/positions/asset/news";
 import { AssetProjectedIncome } from "@/components/dashboard/positions/asset/projected-income";
+import { RecurringTransactions } from "@/components/dashboard/positions/asset/recurring";
+import { AssetBenchmark } from "@/components/dashboard/positions/asset/benchmark";
 
 import { fetchSinglePosition } from "@/server/positions/fetch";
 import { fetchPortfolioRecords } from "@/server/portfolio-records/fetch";
+import { fetchRealizedGains } from "@/server/realized-gains/fetch";
+import { fetchRecurringTransactions } from "@/server/recurring-transactions/fetch";
 import { fetchSymbol } from "@/server/symbols/fetch";
 import { fetchSymbolNews } from "@/server/news/fetch";
 import { calculateSymbolProjectedIncome } from "@/server/analysis/projected-income";
 import { calculateSymbolDividendYield } from "@/server/analysis/dividend-yield";
+import { calculateReturns } from "@/server/analysis/returns";
+import { fetchAccounts } from "@/server/accounts/fetch";
 
 import { calculateProfitLoss } from "@/lib/profit-loss";
 import { formatPercentage, formatCurrency } from "@/lib/number-format";
@@ -79,6 +86,11 @@ async function AssetContent({
     throw error;
   }
 
+  // Liabilities live under their own route
+  if (position.type === "liability") {
+    redirect(`/dashboard/liabilities/${positionId}`);
+  }
+
   // Calculate profit/loss data
   const snapshotsMap = new Map([[position.id, snapshots]]);
   const [positionWithProfitLoss] = calculateProfitLoss(
@@ -86,19 +98,48 @@ async function AssetContent({
     snapshotsMap,
   );
 
+  // Returns are measured from the first snapshot (inception)
+  const inceptionDate = snapshots.reduce<string | null>(
+    (min, snapshot) => (!min || snapshot.date < min ? snapshot.date : min),
+    null,
+  );
+
   // Batch remaining requests
-  const [portfolioRecordsPage, symbol, newsResult] = await Promise.all([
+  const [
+    portfolioRecordsPage,
+    realizedGains,
+    recurringTransactions,
+    returns,
+    symbol,
+    newsResult,
+    accounts,
+  ] = await Promise.all([
     fetchPortfolioRecords({ positionId, page, pageSize: 50 }),
+    fetchRealizedGains({ positionId }),
+    fetchRecurringTransactions(positionId),
+    inceptionDate
+      ? calculateReturns({
+          targetCurrency: position.currency,
+          startDate: parseISO(inceptionDate),
+          positionIds: [positionId],
+        })
+      : Promise.resolve(null),
     position.symbol_id
       ? fetchSymbol(position.symbol_id)
       : Promise.resolve(null),
     position.symbol_id
       ? fetchSymbolNews(position.symbol_id)
       : Promise.resolve({ success: false, data: [] }),
+    fetchAccounts(),
   ]);
 
   const hasSymbol = Boolean(symbol);
 
+  // Total realized P/L across all sales (null when nothing was sold)
+  const totalRealizedGain = realizedGains.length
+    ? realizedGains.reduce((sum, gain) => sum + Number(gain.realized_gain), 0)
+    : null;
+
   // Calculate both projected income and dividend yield for symbols
   const [projectedIncome, dividendYield] = hasSymbol
     ? await Promise.all([
@@ -129,8 +170,14 @@ async function AssetContent({
       <div className="col-span-6">
         <AssetHeader
           position={position}
+          account={
+            accounts.find((account) => account.id === position.account_id) ??
+            null
+          }
           symbol={symbol}
           positionWithProfitLoss={positionWithProfitLoss}
+          realizedGain={totalRealizedGain}
+          returns={returns?.positions[positionId] ?? null}
         />
       </div>
 
@@ -175,24 +222,39 @@ async function AssetContent({
 
       <Separator className="col-span-6 lg:hidden" />
 
-      {/* Portfolio Records */}
+      {/* Recurring transactions and portfolio records */}
       <div
-        className={`col-span-6 space-y-2 ${hasSymbol ? "lg:col-span-4" : "lg:col-span-6"}`}
+        className={`col-span-6 space-y-4 ${hasSymbol ? "lg:col-span-4" : "lg:col-span-6"}`}
       >
-        <h3 className="font-semibold">Records history</h3>
-        <PortfolioRecordsTable
-          data={records}
-          position={position}
-          pagination={{
-            page: currentPage,
-            pageSize,
-            pageCount,
-            total,
-            hasNextPage,
-            hasPreviousPage,
-            baseHref: `/dashboard/assets/${positionId}`,
-          }}
-        />
+        {!position.is_archived && (
+          <RecurringTransactions
+            position={position}
+            schedules={recurringTransactions}
+          />
+        )}
+        {inceptionDate && (
+          <AssetBenchmark
+            positionId={positionId}
+            currency={position.currency}
+            inceptionDate={inceptionDate}
+          />
+        )}
+        <div className="space-y-2">
+          <h3 className="font-semibold">Records history</h3>
+          <PortfolioRecordsTable
+            data={records}
+            position={position}
+            pagination={{
+              page: currentPage,
+              pageSize,
+              pageCount,
+              total,
+              hasNextPage,
+              hasPreviousPage,
+              baseHref: `/dashboard/assets/${positionId}`,
+            }}
+          />
+        </div>
       </div>
     </div>
   );
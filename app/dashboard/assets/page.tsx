@@ -4,14 +4,17 @@ import { Skeleton } from "@/components/ui/custom/skeleton";
 import { AssetsTable } from "@/components/dashboard/positions/asset/table/assets-table";
 
 import { fetchPositions } from "@/server/positions/fetch";
+import { fetchSelectedAccountId } from "@/server/accounts/fetch";
 import { calculateProfitLoss } from "@/lib/profit-loss";
 
 async function AssetsTableWrapper() {
   "use cache: private";
+  const accountId = await fetchSelectedAccountId();
   const { positions, snapshots } = await fetchPositions({
     positionType: "asset",
     includeSnapshots: true,
     asOfDate: new Date(),
+    accountId,
   });
   const positionsWithProfitLoss = calculateProfitLoss(positions, snapshots);
 
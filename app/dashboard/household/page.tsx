@@ -0,0 +1,50 @@
+import { Suspense } from "react";
+
+import { Skeleton } from "@/components/ui/custom/skeleton";
+import { Household } from "@/components/dashboard/household";
+
+import { fetchProfile } from "@/server/profile/actions";
+import {
+  fetchPortfolioMembers,
+  fetchSharedPortfolios,
+} from "@/server/portfolio-members/fetch";
+import { calculateHouseholdNetWorth } from "@/server/analysis/household-net-worth";
+import { resolveSiteUrl } from "@/server/public-portfolios/fetch";
+
+async function HouseholdWrapper() {
+  "use cache: private";
+  const { profile } = await fetchProfile();
+  const [householdNetWorth, members, sharedPortfolios, siteUrl] =
+    await Promise.all([
+      calculateHouseholdNetWorth(profile.display_currency),
+      fetchPortfolioMembers(),
+      fetchSharedPortfolios(),
+      resolveSiteUrl(),
+    ]);
+
+  return (
+    <Household
+      householdNetWorth={householdNetWorth}
+      members={members}
+      sharedPortfolios={sharedPortfolios}
+      currency={profile.display_currency}
+      siteUrl={siteUrl}
+    />
+  );
+}
+
+export default function HouseholdPage() {
+  return (
+    <div className="flex flex-col gap-4">
+      <div>
+        <h1 className="text-2xl font-semibold">Household</h1>
+        <p className="text-muted-foreground">
+          Share your portfolio with a partner and see your combined net worth
+        </p>
+      </div>
+      <Suspense fallback={<Skeleton className="h-48" />}>
+        <HouseholdWrapper />
+      </Suspense>
+    </div>
+  );
+}
@@ -8,12 +8,18 @@ import { Header } from "@/components/dashboard/layout/header";
 import { PrivacyModeProvider } from "@/components/dashboard/privacy-mode-provider";
 import { ImportPositionsDialogProvider } from "@/components/dashboard/positions/import";
 import { NewAssetDialogProvider } from "@/components/dashboard/new-asset";
+import { NewLiabilityDialogProvider } from "@/components/dashboard/new-liability";
 import { NewPortfolioRecordDialogProvider } from "@/components/dashboard/new-portfolio-record";
 import { DashboardDataProvider } from "@/components/dashboard/dashboard-data-provider";
 
 import { fetchProfile } from "@/server/profile/actions";
 import { fetchFinancialProfile } from "@/server/financial-profiles/actions";
 import { calculateNetWorth } from "@/server/analysis/net-worth";
+import { fetchAccounts, fetchSelectedAccountId } from "@/server/accounts/fetch";
+import {
+  fetchSharedPortfolios,
+  getActivePortfolio,
+} from "@/server/portfolio-members/fetch";
 
 export default async function Layout({
   children,
@@ -37,6 +43,13 @@ export default async function Layout({
   const { profile, email } = await fetchProfile();
   const financialProfile = await fetchFinancialProfile();
   const netWorth = await calculateNetWorth(profile.display_currency);
+  const [accounts, selectedAccountId, sharedPortfolios, { ownerId, access }] =
+    await Promise.all([
+      fetchAccounts(),
+      fetchSelectedAccountId(),
+      fetchSharedPortfolios(),
+      getActivePortfolio(),
+    ]);
 
   return (
     <DashboardDataProvider
@@ -45,6 +58,10 @@ export default async function Layout({
         email,
         financialProfile,
         netWorth,
+        accounts,
+        selectedAccountId,
+        sharedPortfolios,
+        activePortfolio: { ownerId, access },
       }}
     >
       <SidebarProvider
@@ -65,21 +82,23 @@ export default async function Layout({
         <PrivacyModeProvider>
           <ImportPositionsDialogProvider>
             <NewAssetDialogProvider>
-              <NewPortfolioRecordDialogProvider>
-                {/* Left sidebar */}
-                <LeftSidebar />
+              <NewLiabilityDialogProvider>
+                <NewPortfolioRecordDialogProvider>
+                  {/* Left sidebar */}
+                  <LeftSidebar />
 
-                {/* Main content */}
-                <SidebarInset className="min-w-0">
-                  <Header />
-                  <div className="mx-auto w-full max-w-7xl p-4 pt-2">
-                    {children}
-                  </div>
-                </SidebarInset>
+                  {/* Main content */}
+                  <SidebarInset className="min-w-0">
+                    <Header />
+                    <div className="mx-auto w-full max-w-7xl p-4 pt-2">
+                      {children}
+                    </div>
+                  </SidebarInset>
 
-                {/* Right sidebar */}
-                <RightSidebar />
-              </NewPortfolioRecordDialogProvider>
+                  {/* Right sidebar */}
+                  <RightSidebar />
+                </NewPortfolioRecordDialogProvider>
+              </NewLiabilityDialogProvider>
             </NewAssetDialogProvider>
           </ImportPositionsDialogProvider>
         </PrivacyModeProvider>
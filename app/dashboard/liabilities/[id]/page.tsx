@@ -0,0 +1,157 @@
+import { Suspense } from "react";
+import { redirect } from "next/navigation";
+
+import { Skeleton } from "@/components/ui/custom/skeleton";
+import { LiabilityHeader } from "@/components/dashboard/positions/liability/header";
+import { PortfolioRecordsTable } from "@/components/dashboard/portfolio-records/table/portfolio-records-table";
+import { LoanScheduleButton } from "@/components/dashboard/positions/liability/loan";
+import { LoanSummary } from "@/components/dashboard/positions/liability/loan/summary";
+
+import { fetchSinglePosition } from "@/server/positions/fetch";
+import { fetchPortfolioRecords } from "@/server/portfolio-records/fetch";
+import { fetchLoan } from "@/server/loans/fetch";
+
+import type { TransformedPosition } from "@/types/global.types";
+
+// Only needed for dynamic routes
+interface LiabilityPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// Skeleton shell for the whole page
+function PageSkeleton() {
+  return (
+    <div className="grid grid-cols-6 gap-4">
+      <div className="col-span-6">
+        <Skeleton className="h-24" />
+      </div>
+      <div className="col-span-6">
+        <Skeleton className="h-96" />
+      </div>
+    </div>
+  );
+}
+
+async function LiabilityContent({
+  positionId,
+  page,
+}: {
+  positionId: string;
+  page: number;
+}) {
+  "use cache: private";
+
+  let position: TransformedPosition;
+
+  try {
+    position = await fetchSinglePosition(positionId, {
+      includeArchived: true,
+      asOfDate: new Date(),
+    });
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message.startsWith("Position not found")
+    ) {
+      redirect("/dashboard/liabilities");
+    }
+    throw error;
+  }
+
+  // Assets live under their own route
+  if (position.type !== "liability") {
+    redirect(`/dashboard/assets/${positionId}`);
+  }
+
+  const [
+    {
+      records,
+      total,
+      page: currentPage,
+      pageSize,
+      pageCount,
+      hasNextPage,
+      hasPreviousPage,
+    },
+    loanData,
+  ] = await Promise.all([
+    fetchPortfolioRecords({ positionId, page, pageSize: 50 }),
+    fetchLoan(positionId),
+  ]);
+
+  return (
+    <div className="grid grid-cols-6 gap-4">
+      {/* Header */}
+      <div className="col-span-6">
+        <LiabilityHeader position={position} />
+      </div>
+
+      {/* Loan schedule */}
+      <div className="col-span-6 space-y-2">
+        <div className="flex items-center gap-2">
+          <h3 className="font-semibold">Loan schedule</h3>
+          <LoanScheduleButton
+            positionId={positionId}
+            loan={loanData?.loan}
+            extraPayments={loanData?.extraPayments}
+          />
+        </div>
+        {loanData ? (
+          <LoanSummary
+            schedule={loanData.schedule}
+            currency={position.currency}
+          />
+        ) : (
+          <p className="text-muted-foreground text-sm">
+            Add the loan terms to generate the balance history and project the
+            payoff date.
+          </p>
+        )}
+      </div>
+
+      {/* Portfolio Records */}
+      <div className="col-span-6 space-y-2">
+        <h3 className="font-semibold">Balance history</h3>
+        <PortfolioRecordsTable
+          data={records}
+          position={position}
+          pagination={{
+            page: currentPage,
+            pageSize,
+            pageCount,
+            total,
+            hasNextPage,
+            hasPreviousPage,
+            baseHref: `/dashboard/liabilities/${positionId}`,
+          }}
+        />
+      </div>
+    </div>
+  );
+}
+
+// Main page component
+export default async function LiabilityPage(
+  props: LiabilityPageProps & {
+    searchParams?: Promise<Record<string, string | string[] | undefined>>;
+  },
+) {
+  const searchParams = await props.searchParams;
+  const { id: positionId } = await props.params;
+
+  const pageParam = Array.isArray(searchParams?.page)
+    ? searchParams.page[0]
+    : searchParams?.page;
+
+  const parsedPage = Number(pageParam);
+  const page =
+    Number.isFinite(parsedPage) && parsedPage > 0 ? Math.floor(parsedPage) : 1;
+
+  return (
+    <Suspense fallback={<PageSkeleton />}>
+      <LiabilityContent positionId={positionId} page={page} />
+    </Suspense>
+  );
+}
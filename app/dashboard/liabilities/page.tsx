@@ -0,0 +1,35 @@
+import { Suspense } from "react";
+
+import { Skeleton } from "@/components/ui/custom/skeleton";
+import { LiabilitiesTable } from "@/components/dashboard/positions/liability/table/liabilities-table";
+
+import { fetchPositions } from "@/server/positions/fetch";
+import { fetchSelectedAccountId } from "@/server/accounts/fetch";
+
+async function LiabilitiesTableWrapper() {
+  "use cache: private";
+  const accountId = await fetchSelectedAccountId();
+  const positions = await fetchPositions({
+    positionType: "liability",
+    asOfDate: new Date(),
+    accountId,
+  });
+
+  return <LiabilitiesTable data={positions} />;
+}
+
+export default function LiabilitiesPage() {
+  return (
+    <div className="flex flex-col gap-4">
+      <div>
+        <h1 className="text-2xl font-semibold">Liabilities</h1>
+        <p className="text-muted-foreground">
+          Here&apos;s a list of all your mortgages, loans, and other debts
+        </p>
+      </div>
+      <Suspense fallback={<Skeleton className="h-96" />}>
+        <LiabilitiesTableWrapper />
+      </Suspense>
+    </div>
+  );
+}
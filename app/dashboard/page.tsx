@@ -9,17 +9,30 @@ import { AssetAllocationDonut } from "@/components/dashboard/charts/asset-alloca
 import { NetWorthAreaChart } from "@/components/dashboard/charts/net-worth-area";
 import { NewsWidget } from "@/components/dashboard/news/widget";
 import { ProjectedIncomeWidget } from "@/components/dashboard/charts/projected-income/widget";
+import { RebalancingWidget } from "@/components/dashboard/charts/rebalancing/widget";
+import { GoalsWidget } from "@/components/dashboard/goals/widget";
 import { PortfolioRecordsWidget } from "@/components/dashboard/portfolio-records/widget";
+import { PendingOccurrences } from "@/components/dashboard/recurring/pending-occurrences";
 
 import { getCurrentUser } from "@/server/auth/actions";
 import { fetchProfile } from "@/server/profile/actions";
-import { calculateNetWorth } from "@/server/analysis/net-worth";
+import { valueNetWorth } from "@/server/analysis/net-worth";
 import { fetchNetWorthHistory } from "@/server/analysis/net-worth-history";
 import { fetchNetWorthChange } from "@/server/analysis/net-worth-change";
-import { calculateAssetAllocation } from "@/server/analysis/asset-allocation";
+import { valueAssetAllocation } from "@/server/analysis/asset-allocation";
+import { fetchRebalancingData } from "@/server/analysis/rebalancing";
 import { fetchPortfolioNews } from "@/server/news/fetch";
 import { calculateProjectedIncome } from "@/server/analysis/projected-income";
 import { fetchPortfolioRecords } from "@/server/portfolio-records/fetch";
+import { calculateGoalProgress } from "@/server/analysis/goal-progress";
+import { fetchPositions } from "@/server/positions/fetch";
+import { fetchPositionCategories } from "@/server/position-categories/fetch";
+import { fetchPendingOccurrences } from "@/server/recurring-transactions/fetch";
+import { fetchSelectedAccountId } from "@/server/accounts/fetch";
+import { fetchOfflineDataStatus } from "@/server/offline/status";
+import { fetchExchangeRateIssues } from "@/server/exchange-rates/issues";
+
+import { mergeRateIssues } from "@/lib/currency-conversion";
 
 // Separate components for data fetching with suspense
 async function GreetingsWrapper() {
@@ -29,30 +42,63 @@ async function GreetingsWrapper() {
   return <Greetings username={profile.username} />;
 }
 
-async function NetWorthChartWrapper() {
+async function MarketDataDisclaimerWrapper() {
   "use cache: private";
+  cacheLife("minutes");
   const { profile } = await fetchProfile();
+  const [offlineStatus, rateIssues] = await Promise.all([
+    fetchOfflineDataStatus(),
+    fetchExchangeRateIssues(profile.display_currency),
+  ]);
+
+  return (
+    <MarketDataDisclaimer
+      offlineStatus={offlineStatus}
+      rateIssues={rateIssues}
+    />
+  );
+}
+
+async function PendingOccurrencesWrapper() {
+  "use cache: private";
+  const occurrences = await fetchPendingOccurrences();
+
+  return <PendingOccurrences occurrences={occurrences} />;
+}
+
+async function NetWorthChartWrapper() {
+  "use cache: private";
+  const [{ profile }, accountId] = await Promise.all([
+    fetchProfile(),
+    fetchSelectedAccountId(),
+  ]);
 
   const today = new Date();
   const defaultDaysBack =
     differenceInCalendarDays(today, subMonths(today, 6)) + 1;
   // Fetch both history and change for default period (6 calendar months)
   const [netWorth, netWorthHistory, netWorthChange] = await Promise.all([
-    calculateNetWorth(profile.display_currency),
+    valueNetWorth(profile.display_currency, undefined, undefined, accountId),
     fetchNetWorthHistory({
       targetCurrency: profile.display_currency,
       daysBack: defaultDaysBack,
+      accountId,
     }),
     fetchNetWorthChange({
       targetCurrency: profile.display_currency,
       daysBack: defaultDaysBack,
+      accountId,
     }),
   ]);
 
   return (
     <NetWorthAreaChart
+      // Reset range and benchmark state when switching accounts
+      key={accountId ?? "all"}
       currency={profile.display_currency}
-      netWorth={netWorth}
+      accountId={accountId}
+      netWorth={netWorth.netWorth}
+      rateIssues={netWorth.rateIssues}
       history={netWorthHistory}
       change={netWorthChange}
     />
@@ -61,17 +107,48 @@ async function NetWorthChartWrapper() {
 
 async function AssetAllocationChartWrapper() {
   "use cache: private";
-  const { profile } = await fetchProfile();
+  const [{ profile }, accountId] = await Promise.all([
+    fetchProfile(),
+    fetchSelectedAccountId(),
+  ]);
   const [netWorth, assetAllocation] = await Promise.all([
-    calculateNetWorth(profile.display_currency),
-    calculateAssetAllocation(profile.display_currency),
+    valueNetWorth(profile.display_currency, undefined, undefined, accountId),
+    valueAssetAllocation(
+      profile.display_currency,
+      undefined,
+      undefined,
+      accountId,
+    ),
   ]);
 
   return (
     <AssetAllocationDonut
       currency={profile.display_currency}
-      netWorth={netWorth}
-      assetAllocation={assetAllocation}
+      netWorth={netWorth.netWorth}
+      assetAllocation={assetAllocation.allocation}
+      rateIssues={mergeRateIssues(
+        netWorth.rateIssues,
+        assetAllocation.rateIssues,
+      )}
+    />
+  );
+}
+
+async function RebalancingWidgetWrapper() {
+  "use cache: private";
+  const [{ profile }, accountId] = await Promise.all([
+    fetchProfile(),
+    fetchSelectedAccountId(),
+  ]);
+  const rebalancingData = await fetchRebalancingData(
+    profile.display_currency,
+    accountId,
+  );
+
+  return (
+    <RebalancingWidget
+      data={rebalancingData}
+      currency={profile.display_currency}
     />
   );
 }
@@ -87,9 +164,15 @@ async function NewsWidgetWrapper() {
 
 async function ProjectedIncomeWidgetWrapper() {
   "use cache: private";
-  const { profile } = await fetchProfile();
+  const [{ profile }, accountId] = await Promise.all([
+    fetchProfile(),
+    fetchSelectedAccountId(),
+  ]);
   const projectedData = await calculateProjectedIncome(
     profile.display_currency,
+    undefined,
+    undefined,
+    accountId,
   );
 
   return (
@@ -100,6 +183,25 @@ async function ProjectedIncomeWidgetWrapper() {
   );
 }
 
+async function GoalsWidgetWrapper() {
+  "use cache: private";
+  const { profile } = await fetchProfile();
+  const [goals, categories, positions] = await Promise.all([
+    calculateGoalProgress(),
+    fetchPositionCategories("asset"),
+    fetchPositions({ positionType: "asset" }),
+  ]);
+
+  return (
+    <GoalsWidget
+      goals={goals}
+      currency={profile.display_currency}
+      categories={categories}
+      positions={positions.map(({ id, name }) => ({ id, name }))}
+    />
+  );
+}
+
 async function PortfolioRecordsWidgetWrapper() {
   "use cache: private";
   const { records } = await fetchPortfolioRecords({ pageSize: 15 });
@@ -119,8 +221,13 @@ export default function DashboardPage() {
           </Suspense>
           <p className="text-muted-foreground">Here&apos;s your summary</p>
         </div>
-        <MarketDataDisclaimer />
+        <Suspense fallback={<Skeleton className="h-4 w-40" />}>
+          <MarketDataDisclaimerWrapper />
+        </Suspense>
       </div>
+      <Suspense fallback={null}>
+        <PendingOccurrencesWrapper />
+      </Suspense>
       <div className="grid grid-cols-6 gap-4">
         <div className="col-span-6 xl:col-span-4">
           <Suspense fallback={<Skeleton className="h-80" />}>
@@ -132,6 +239,11 @@ export default function DashboardPage() {
             <AssetAllocationChartWrapper />
           </Suspense>
         </div>
+        <div className="col-span-6 lg:col-span-3">
+          <Suspense fallback={<Skeleton className="h-80" />}>
+            <RebalancingWidgetWrapper />
+          </Suspense>
+        </div>
         <div className="col-span-6 lg:col-span-3">
           <Suspense fallback={<Skeleton className="h-80" />}>
             <NewsWidgetWrapper />
@@ -142,6 +254,11 @@ export default function DashboardPage() {
             <ProjectedIncomeWidgetWrapper />
           </Suspense>
         </div>
+        <div className="col-span-6 xl:col-span-3">
+          <Suspense fallback={<Skeleton className="h-80" />}>
+            <GoalsWidgetWrapper />
+          </Suspense>
+        </div>
         <div className="col-span-6">
           <Suspense fallback={<Skeleton className="h-80" />}>
             <PortfolioRecordsWidgetWrapper />
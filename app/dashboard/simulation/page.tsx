@@ -0,0 +1,32 @@
+import { Suspense } from "react";
+
+import { Skeleton } from "@/components/ui/custom/skeleton";
+import { RetirementSimulator } from "@/components/dashboard/simulation/simulator";
+
+import { fetchProfile } from "@/server/profile/actions";
+import { fetchSimulationDefaults } from "@/server/analysis/simulation";
+
+async function RetirementSimulatorWrapper() {
+  "use cache: private";
+  const { profile } = await fetchProfile();
+  const defaults = await fetchSimulationDefaults(profile.display_currency);
+
+  return <RetirementSimulator defaults={defaults} />;
+}
+
+export default function SimulationPage() {
+  return (
+    <div className="flex flex-col gap-4">
+      <div>
+        <h1 className="text-2xl font-semibold">Retirement Simulation</h1>
+        <p className="text-muted-foreground">
+          Thousands of market scenarios for your current portfolio, from today
+          until retirement and beyond
+        </p>
+      </div>
+      <Suspense fallback={<Skeleton className="h-[28rem]" />}>
+        <RetirementSimulatorWrapper />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { Suspense } from "react";
+
+import { Skeleton } from "@/components/ui/custom/skeleton";
+import { Webhooks } from "@/components/dashboard/webhooks";
+
+import {
+  fetchWebhookDeliveries,
+  fetchWebhookEndpoints,
+} from "@/server/webhooks/fetch";
+
+async function WebhooksWrapper() {
+  "use cache: private";
+  const [endpoints, deliveries] = await Promise.all([
+    fetchWebhookEndpoints(),
+    fetchWebhookDeliveries(),
+  ]);
+
+  return <Webhooks endpoints={endpoints} deliveries={deliveries} />;
+}
+
+export default function WebhooksPage() {
+  return (
+    <div className="flex flex-col gap-4">
+      <div>
+        <h1 className="text-2xl font-semibold">Webhooks</h1>
+        <p className="text-muted-foreground">
+          Send position, record, import and daily net worth events to your own
+          HTTPS endpoints
+        </p>
+      </div>
+      <Suspense fallback={<Skeleton className="h-48" />}>
+        <WebhooksWrapper />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import { ImageResponse } from "next/og";
+
+import { calculateAssetAllocation } from "@/server/analysis/asset-allocation";
+import { fetchEmbeddablePortfolio } from "@/server/public-portfolios/fetch";
+import { fetchPublicPerformance } from "@/server/public-portfolios/performance";
+import { toPublicQueryContext } from "@/server/public-portfolios/positions";
+
+import {
+  DEFAULT_PERFORMANCE_RANGE,
+  redactPublicAllocation,
+  toPublicPortfolioSettings,
+} from "@/lib/public-portfolio";
+import { formatNumber } from "@/lib/number-format";
+
+export const alt = "Public portfolio on Foliofox";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+// Chart colors of the light theme; CSS variables aren't available here
+const COLORS = ["#e8590c", "#1c7ed6", "#37b24d", "#ae3ec9", "#f59f00"];
+const MAX_CATEGORIES = COLORS.length;
+
+type Slice = { name: string; share: number };
+
+async function fetchPreviewData(slug: string) {
+  const embed = await fetchEmbeddablePortfolio(slug);
+  if (!embed) return null;
+
+  const { publicPortfolio, profile, unavailable } = embed;
+  const base = { username: profile.username ?? "Anonymous", unavailable };
+  if (unavailable) return { ...base, slices: [], totalReturn: null };
+
+  const settings = toPublicPortfolioSettings(publicPortfolio);
+  const context = toPublicQueryContext(profile.user_id, settings);
+  const currency = profile.display_currency;
+
+  const [allocation, performance] = await Promise.all([
+    calculateAssetAllocation(currency, new Date(), context),
+    // Returns are profit/loss, so they follow that setting
+    settings.showProfitLoss
+      ? fetchPublicPerformance(currency, DEFAULT_PERFORMANCE_RANGE, context)
+      : null,
+  ]);
+
+  // Always shares, whatever the values setting
+  const shares = redactPublicAllocation(allocation, {
+    ...settings,
+    showValues: false,
+  });
+
+  // Fold the smallest categories into one slice
+  const hasOther = shares.length > MAX_CATEGORIES;
+  const slices: Slice[] = shares
+    .slice(0, hasOther ? MAX_CATEGORIES - 1 : MAX_CATEGORIES)
+    .map(({ name, total_value }) => ({ name, share: total_value }));
+  if (hasOther) {
+    slices.push({
+      name: "Other",
+      share: shares
+        .slice(MAX_CATEGORIES - 1)
+        .reduce((sum, { total_value }) => sum + total_value, 0),
+    });
+  }
+
+  return {
+    ...base,
+    slices: slices.filter(({ share }) => share > 0),
+    totalReturn: performance?.totalReturn ?? null,
+  };
+}
+
+const formatShare = (share: number) => `${formatNumber(share * 100, 1)}%`;
+
+export default async function Image({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}) {
+  const { slug } = await params;
+
+  let data: Awaited<ReturnType<typeof fetchPreviewData>> = null;
+  try {
+    data = await fetchPreviewData(slug);
+  } catch (error) {
+    // Still render the branded card
+    console.error("Failed to build portfolio preview image:", error);
+  }
+
+  const title = data ? `${data.username}'s portfolio` : "Public portfolio";
+
+  return new ImageResponse(
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        justifyContent: "space-between",
+        width: "100%",
+        height: "100%",
+        padding: 72,
+        background: "#ffffff",
+        color: "#0a0a0a",
+        fontFamily: "sans-serif",
+      }}
+    >
+      <div style={{ display: "flex", flexDirection: "column", gap: 16 }}>
+        <div style={{ display: "flex", fontSize: 32, color: "#e8590c" }}>
+          Foliofox
+        </div>
+        <div style={{ display: "flex", fontSize: 72, fontWeight: 700 }}>
+          {title}
+        </div>
+        {data?.unavailable && (
+          <div style={{ display: "flex", fontSize: 32, color: "#737373" }}>
+            {data.unavailable}
+          </div>
+        )}
+      </div>
+
+      {data && data.totalReturn !== null && (
+        <div style={{ display: "flex", alignItems: "baseline", gap: 16 }}>
+          <div
+            style={{
+              display: "flex",
+              fontSize: 88,
+              fontWeight: 700,
+              color: data.totalReturn >= 0 ? "#2f9e44" : "#e03131",
+            }}
+          >
+            {`${data.totalReturn >= 0 ? "+" : ""}${formatShare(data.totalReturn)}`}
+          </div>
+          <div style={{ display: "flex", fontSize: 32, color: "#737373" }}>
+            return over 1 year
+          </div>
+        </div>
+      )}
+
+      {data && data.slices.length > 0 && (
+        <div style={{ display: "flex", flexDirection: "column", gap: 24 }}>
+          <div
+            style={{
+              display: "flex",
+              width: "100%",
+              height: 28,
+              borderRadius: 14,
+              overflow: "hidden",
+            }}
+          >
+            {data.slices.map(({ name, share }, index) => (
+              <div
+                key={name}
+                style={{
+                  display: "flex",
+                  width: `${share * 100}%`,
+                  height: "100%",
+                  background: COLORS[index % COLORS.length],
+                }}
+              />
+            ))}
+          </div>
+          <div style={{ display: "flex", flexWrap: "wrap", gap: 32 }}>
+            {data.slices.map(({ name, share }, index) => (
+              <div
+                key={name}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 12,
+                  fontSize: 28,
+                }}
+              >
+                <div
+                  style={{
+                    display: "flex",
+                    width: 16,
+                    height: 16,
+                    borderRadius: 4,
+                    background: COLORS[index % COLORS.length],
+                  }}
+                />
+                {`${name} ${formatShare(share)}`}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>,
+    size,
+  );
+}
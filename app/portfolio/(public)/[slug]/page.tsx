@@ -1,5 +1,7 @@
 import type { Metadata } from "next";
 import { Suspense } from "react";
+import { cookies } from "next/headers";
+import { after } from "next/server";
 import { notFound } from "next/navigation";
 import Link from "next/link";
 
@@ -7,18 +9,26 @@ import { Logomark } from "@/components/ui/logos/logomark";
 import { Skeleton } from "@/components/ui/skeleton";
 import { PublicPortfolioHeader } from "@/components/public-portfolio/header";
 import { PublicPortfolioAssetsTable } from "@/components/public-portfolio/assets-table";
-import { AssetAllocationDonutPublic } from "@/components/dashboard/charts/asset-allocation-donut";
+import { PublicPortfolioPasswordGate } from "@/components/public-portfolio/password-gate";
+import { PublicAssetAllocation } from "@/components/public-portfolio/widgets";
 import { ProjectedIncomeWidget } from "@/components/dashboard/charts/projected-income/widget";
 
 import { fetchPublicPortfolioBySlug } from "@/server/public-portfolios/fetch";
-import { createServiceClient } from "@/supabase/service";
-import { calculateNetWorth } from "@/server/analysis/net-worth";
-import { calculateAssetAllocation } from "@/server/analysis/asset-allocation";
 import { calculateProjectedIncome } from "@/server/analysis/projected-income";
-import { fetchPositions } from "@/server/positions/fetch";
-import { calculateProfitLoss } from "@/lib/profit-loss";
-
-import type { PositionsQueryContext } from "@/server/positions/fetch";
+import {
+  fetchPublicPortfolioPositions,
+  toPublicQueryContext,
+} from "@/server/public-portfolios/positions";
+import { recordPublicPortfolioView } from "@/server/public-portfolios/views";
+import {
+  ACCESS_COOKIE_PREFIX,
+  hasValidAccessToken,
+  parseCurrencyParam,
+  redactPublicPositions,
+  toPublicPortfolioSettings,
+} from "@/lib/public-portfolio";
+
+import type { PublicPortfolioSettings } from "@/types/global.types";
 
 // --- Metadata Generation ---
 
@@ -41,53 +51,32 @@ export async function generateMetadata({
   const { profile } = resolved;
   const username = profile.username;
 
+  const title = `${username}'s Portfolio`;
+  const description = `View ${username}'s public portfolio on Foliofox. Track positions, asset allocation, and performance insights.`;
+
+  // The image itself comes from opengraph-image.tsx
   return {
-    title: `${username}'s Portfolio`,
-    description: `View ${username}'s public portfolio on Foliofox. Track positions, asset allocation, and performance insights.`,
+    title,
+    description,
+    openGraph: { title, description },
+    twitter: { card: "summary_large_image", title, description },
   };
 }
 
 // --- Wrapper Components ---
 
-async function AssetAllocationWrapper({
-  userId,
-  currency,
-}: {
-  userId: string;
-  currency: string;
-}) {
-  "use cache";
-
-  const supabaseClient = createServiceClient();
-  const context: PositionsQueryContext = { supabaseClient, userId };
-  const asOfDate = new Date();
-
-  const [netWorth, assetAllocation] = await Promise.all([
-    calculateNetWorth(currency, asOfDate, context),
-    calculateAssetAllocation(currency, asOfDate, context),
-  ]);
-
-  return (
-    <AssetAllocationDonutPublic
-      netWorth={netWorth}
-      currency={currency}
-      assetAllocation={assetAllocation}
-      className="h-72!"
-    />
-  );
-}
-
 async function ProjectedIncomeWrapper({
   userId,
   currency,
+  settings,
 }: {
   userId: string;
   currency: string;
+  settings: PublicPortfolioSettings;
 }) {
   "use cache";
 
-  const supabaseClient = createServiceClient();
-  const context: PositionsQueryContext = { supabaseClient, userId };
+  const context = toPublicQueryContext(userId, settings);
 
   const projectedIncomeResult = await calculateProjectedIncome(
     currency,
@@ -109,28 +98,29 @@ async function ProjectedIncomeWrapper({
   );
 }
 
-async function PositionsWrapper({ userId }: { userId: string }) {
+async function PositionsWrapper({
+  userId,
+  currency,
+  settings,
+}: {
+  userId: string;
+  currency: string;
+  settings: PublicPortfolioSettings;
+}) {
   "use cache";
 
-  const supabaseClient = createServiceClient();
-  const context: PositionsQueryContext = { supabaseClient, userId };
-  const asOfDate = new Date();
-
-  const positionsResult = await fetchPositions(
-    {
-      positionType: "asset",
-      asOfDate: asOfDate,
-      includeSnapshots: true,
-    },
-    context,
+  const positions = await fetchPublicPortfolioPositions(
+    currency,
+    toPublicQueryContext(userId, settings),
   );
 
-  const positionsWithProfitLoss = calculateProfitLoss(
-    positionsResult.positions,
-    positionsResult.snapshots,
+  return (
+    <PublicPortfolioAssetsTable
+      positions={redactPublicPositions(positions, settings)}
+      showValues={settings.showValues}
+      showProfitLoss={settings.showProfitLoss}
+    />
   );
-
-  return <PublicPortfolioAssetsTable positions={positionsWithProfitLoss} />;
 }
 
 // --- Main Page Component ---
@@ -150,7 +140,7 @@ export default async function PublicPortfolioPage(props: {
     notFound();
   }
 
-  const { profile } = resolved;
+  const { publicPortfolio, profile } = resolved;
 
   // 2. Handle expired state
   if (!resolved.isActive) {
@@ -173,19 +163,35 @@ export default async function PublicPortfolioPage(props: {
     );
   }
 
-  // 3. Determine currency
-  function normalizeCurrency(code: string | undefined | string[]) {
-    if (!code) return undefined;
-    const singleCode = Array.isArray(code) ? code[0] : code;
-    const trimmed = singleCode.trim();
-    return /^[A-Z]{3}$/.test(trimmed) ? trimmed : undefined;
+  // 3. Ask for the password of protected links
+  const passwordHash = publicPortfolio.password_hash;
+  if (passwordHash) {
+    const cookieStore = await cookies();
+    const token = cookieStore.get(
+      `${ACCESS_COOKIE_PREFIX}${publicPortfolio.id}`,
+    )?.value;
+
+    if (!hasValidAccessToken(passwordHash, token)) {
+      return (
+        <PublicPortfolioPasswordGate
+          slug={publicPortfolio.slug}
+          username={profile.username}
+        />
+      );
+    }
   }
 
-  const fallbackCurrency = profile.display_currency ?? "USD";
+  after(() => recordPublicPortfolioView(publicPortfolio.id));
+
+  // 4. Determine currency
   const targetCurrency =
-    normalizeCurrency(search?.currency) ?? fallbackCurrency;
+    parseCurrencyParam(search?.currency) ?? profile.display_currency ?? "USD";
+
+  // Income is an absolute amount, so it follows the values setting too
+  const settings = toPublicPortfolioSettings(publicPortfolio);
+  const showIncome = settings.showIncome && settings.showValues;
 
-  // 4. Render page with Suspense boundaries
+  // 5. Render page with Suspense boundaries
   return (
     <div className="mt-4 grid w-full grid-cols-6 gap-4 md:mt-8">
       <div className="col-span-6">
@@ -196,27 +202,36 @@ export default async function PublicPortfolioPage(props: {
           defaultCurrency={profile.display_currency}
         />
       </div>
-      <div className="col-span-6 md:col-span-3">
+      <div className={showIncome ? "col-span-6 md:col-span-3" : "col-span-6"}>
         <Suspense fallback={<Skeleton className="h-72" />}>
-          <AssetAllocationWrapper
+          <PublicAssetAllocation
             userId={profile.user_id}
             currency={targetCurrency}
+            settings={settings}
+            className="h-72!"
           />
         </Suspense>
       </div>
-      <div className="col-span-6 md:col-span-3">
-        <Suspense fallback={<Skeleton className="h-72" />}>
-          <ProjectedIncomeWrapper
+      {showIncome && (
+        <div className="col-span-6 md:col-span-3">
+          <Suspense fallback={<Skeleton className="h-72" />}>
+            <ProjectedIncomeWrapper
+              userId={profile.user_id}
+              currency={targetCurrency}
+              settings={settings}
+            />
+          </Suspense>
+        </div>
+      )}
+      <div className="col-span-6">
+        <Suspense fallback={<Skeleton className="h-96" />}>
+          <PositionsWrapper
             userId={profile.user_id}
             currency={targetCurrency}
+            settings={settings}
           />
         </Suspense>
       </div>
-      <div className="col-span-6">
-        <Suspense fallback={<Skeleton className="h-96" />}>
-          <PositionsWrapper userId={profile.user_id} />
-        </Suspense>
-      </div>
     </div>
   );
 }
@@ -0,0 +1,60 @@
+import type { Metadata } from "next";
+import { Suspense } from "react";
+import { notFound } from "next/navigation";
+
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  EmbedFrame,
+  EmbedMessage,
+} from "@/components/public-portfolio/embed-frame";
+import { PublicAssetAllocation } from "@/components/public-portfolio/widgets";
+
+import { fetchEmbeddablePortfolio } from "@/server/public-portfolios/fetch";
+import {
+  parseCurrencyParam,
+  parseEmbedTheme,
+  toPublicPortfolioSettings,
+} from "@/lib/public-portfolio";
+
+export const metadata: Metadata = {
+  title: "Asset Allocation",
+  robots: { index: false },
+};
+
+export default async function AllocationEmbedPage(props: {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<{
+    currency?: string | string[];
+    theme?: string | string[];
+  }>;
+}) {
+  const [{ slug }, search] = await Promise.all([
+    props.params,
+    props.searchParams,
+  ]);
+
+  const embed = await fetchEmbeddablePortfolio(slug);
+  if (!embed) notFound();
+
+  const { publicPortfolio, profile, unavailable } = embed;
+  const theme = parseEmbedTheme(search.theme);
+
+  return (
+    <EmbedFrame slug={publicPortfolio.slug} theme={theme}>
+      {unavailable ? (
+        <EmbedMessage message={unavailable} />
+      ) : (
+        <Suspense fallback={<Skeleton className="h-full" />}>
+          <PublicAssetAllocation
+            userId={profile.user_id}
+            currency={
+              parseCurrencyParam(search.currency) ?? profile.display_currency
+            }
+            settings={toPublicPortfolioSettings(publicPortfolio)}
+            className="h-full!"
+          />
+        </Suspense>
+      )}
+    </EmbedFrame>
+  );
+}
@@ -0,0 +1,71 @@
+import type { Metadata } from "next";
+import { Suspense } from "react";
+import { notFound } from "next/navigation";
+
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  EmbedFrame,
+  EmbedMessage,
+} from "@/components/public-portfolio/embed-frame";
+import { PublicPerformance } from "@/components/public-portfolio/widgets";
+
+import { fetchEmbeddablePortfolio } from "@/server/public-portfolios/fetch";
+import {
+  parseCurrencyParam,
+  parseEmbedTheme,
+  parsePerformanceRange,
+  toPublicPortfolioSettings,
+} from "@/lib/public-portfolio";
+
+export const metadata: Metadata = {
+  title: "Performance",
+  robots: { index: false },
+};
+
+export default async function PerformanceEmbedPage(props: {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<{
+    currency?: string | string[];
+    theme?: string | string[];
+    range?: string | string[];
+  }>;
+}) {
+  const [{ slug }, search] = await Promise.all([
+    props.params,
+    props.searchParams,
+  ]);
+
+  const embed = await fetchEmbeddablePortfolio(slug);
+  if (!embed) notFound();
+
+  const { publicPortfolio, profile } = embed;
+  const settings = toPublicPortfolioSettings(publicPortfolio);
+
+  // Returns are profit/loss, so they follow that setting
+  const unavailable =
+    embed.unavailable ??
+    (settings.showProfitLoss ? null : "The owner keeps performance private.");
+
+  return (
+    <EmbedFrame
+      slug={publicPortfolio.slug}
+      theme={parseEmbedTheme(search.theme)}
+    >
+      {unavailable ? (
+        <EmbedMessage message={unavailable} />
+      ) : (
+        <Suspense fallback={<Skeleton className="h-full" />}>
+          <PublicPerformance
+            userId={profile.user_id}
+            currency={
+              parseCurrencyParam(search.currency) ?? profile.display_currency
+            }
+            settings={settings}
+            range={parsePerformanceRange(search.range)}
+            className="h-full!"
+          />
+        </Suspense>
+      )}
+    </EmbedFrame>
+  );
+}
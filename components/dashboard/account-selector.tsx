@@ -0,0 +1,54 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+import type { Account } from "@/types/global.types";
+
+// Radix selects can't hold an empty value
+const NO_ACCOUNT = "none";
+
+// Props interface for react-hook-form integration (empty string = no account)
+interface AccountSelectorProps {
+  field: {
+    value: string | undefined;
+    onChange: (value: string) => void;
+  };
+  accounts: Pick<Account, "id" | "name">[];
+  id?: string;
+  disabled?: boolean;
+}
+
+export function AccountSelector({
+  field,
+  accounts,
+  id,
+  disabled = false,
+}: AccountSelectorProps) {
+  return (
+    <Select
+      value={field.value || NO_ACCOUNT}
+      onValueChange={(value) =>
+        field.onChange(value === NO_ACCOUNT ? "" : value)
+      }
+      disabled={disabled}
+    >
+      <SelectTrigger id={id} className="w-full">
+        <SelectValue placeholder="No account" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+        {accounts.map((account) => (
+          <SelectItem key={account.id} value={account.id}>
+            {account.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
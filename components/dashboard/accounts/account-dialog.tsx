@@ -0,0 +1,252 @@
+"use client";
+
+import { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { toast } from "sonner";
+
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+import { CurrencySelector } from "@/components/dashboard/currency-selector";
+
+import { createAccount } from "@/server/accounts/create";
+import { updateAccount } from "@/server/accounts/update";
+
+import { ACCOUNT_TAX_WRAPPERS } from "@/types/enums";
+import type { Account, AccountTaxWrapper } from "@/types/global.types";
+
+export const TAX_WRAPPER_LABELS: Record<AccountTaxWrapper, string> = {
+  taxable: "Taxable",
+  tax_deferred: "Tax-deferred",
+  tax_free: "Tax-free",
+  pension: "Pension",
+  other: "Other",
+};
+
+const formSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, { error: "Name is required." })
+    .max(64, { error: "Name must not exceed 64 characters." }),
+  institution: z
+    .string()
+    .max(64, { error: "Institution must not exceed 64 characters." }),
+  tax_wrapper: z.enum(ACCOUNT_TAX_WRAPPERS),
+  currency: z.string().length(3),
+  description: z
+    .string()
+    .max(256, { error: "Description must not exceed 256 characters." }),
+});
+
+interface AccountDialogProps {
+  account?: Account;
+  defaultCurrency: string;
+  children: React.ReactNode;
+}
+
+export function AccountDialog({
+  account,
+  defaultCurrency,
+  children,
+}: AccountDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: account?.name ?? "",
+      institution: account?.institution ?? "",
+      tax_wrapper: account?.tax_wrapper ?? "taxable",
+      currency: account?.currency ?? defaultCurrency,
+      description: account?.description ?? "",
+    },
+  });
+
+  // Submit handler
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    setIsLoading(true);
+    try {
+      const formData = new FormData();
+      formData.append("name", values.name);
+      formData.append("institution", values.institution);
+      formData.append("tax_wrapper", values.tax_wrapper);
+      formData.append("currency", values.currency);
+      formData.append("description", values.description);
+
+      const result = account
+        ? await updateAccount(formData, account.id)
+        : await createAccount(formData);
+
+      // Handle error response from server action
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      toast.success(account ? "Account updated" : "Account created");
+      if (!account) form.reset();
+      setOpen(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save account",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{account ? "Edit account" : "New account"}</DialogTitle>
+          <DialogDescription>
+            Group positions by brokerage, pension or joint account.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="E.g., Brokerage, Pension, Joint"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid items-start gap-x-2 gap-y-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="institution"
+                render={({ field }) => (
+                  <FormItem className="sm:col-span-2">
+                    <FormLabel>Institution (optional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="E.g., Interactive Brokers"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="tax_wrapper"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tax wrapper</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {ACCOUNT_TAX_WRAPPERS.map((taxWrapper) => (
+                          <SelectItem key={taxWrapper} value={taxWrapper}>
+                            {TAX_WRAPPER_LABELS[taxWrapper]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Base currency</FormLabel>
+                    <FormControl>
+                      <CurrencySelector field={field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description (optional)</FormLabel>
+                  <FormControl>
+                    <Input placeholder="E.g., account number" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Footer - Action buttons */}
+            <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+              <Button
+                onClick={() => setOpen(false)}
+                disabled={isLoading}
+                type="button"
+                variant="secondary"
+              >
+                Cancel
+              </Button>
+              <Button disabled={isLoading} type="submit">
+                {isLoading ? (
+                  <>
+                    <Spinner />
+                    Saving...
+                  </>
+                ) : account ? (
+                  "Save changes"
+                ) : (
+                  "Add account"
+                )}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Eye, Pencil, Plus, Trash2, WalletCards } from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AccountDialog, TAX_WRAPPER_LABELS } from "./account-dialog";
+
+import { formatCurrency } from "@/lib/number-format";
+
+import { deleteAccount } from "@/server/accounts/delete";
+import { setSelectedAccount } from "@/server/accounts/update";
+
+import type { Account } from "@/types/global.types";
+import type { AccountBreakdown } from "@/server/analysis/account-breakdown";
+
+interface AccountsProps {
+  accounts: Account[];
+  breakdown: AccountBreakdown[];
+  selectedAccountId: string | null;
+  currency: string;
+}
+
+export function Accounts({
+  accounts,
+  breakdown,
+  selectedAccountId,
+  currency,
+}: AccountsProps) {
+  const router = useRouter();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const breakdownById = new Map(
+    breakdown.map((entry) => [entry.accountId, entry]),
+  );
+  const unassigned = breakdownById.get(null);
+
+  async function handleView(account: Account) {
+    setBusyId(account.id);
+    try {
+      await setSelectedAccount(account.id);
+      router.push("/dashboard");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleDelete(account: Account) {
+    setBusyId(account.id);
+    try {
+      const result = await deleteAccount(account.id);
+      if (!result.success) throw new Error(result.message);
+      toast.success("Account deleted");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete account",
+      );
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-end">
+        <AccountDialog defaultCurrency={currency}>
+          <Button size="sm">
+            <Plus /> New account
+          </Button>
+        </AccountDialog>
+      </div>
+
+      {!accounts.length ? (
+        <div className="text-muted-foreground flex flex-col items-center gap-2 rounded-lg border border-dashed p-8 text-center text-sm">
+          <div className="bg-accent rounded-lg p-2">
+            <WalletCards className="text-muted-foreground size-4" />
+          </div>
+          No accounts yet, e.g. a brokerage, a pension or a joint account
+        </div>
+      ) : (
+        <div className="divide-y rounded-md border">
+          {accounts.map((account) => {
+            const entry = breakdownById.get(account.id);
+
+            return (
+              <div
+                key={account.id}
+                className="flex items-center justify-between gap-4 p-3 text-sm"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="truncate font-medium">{account.name}</span>
+                    <Badge variant="secondary">
+                      {TAX_WRAPPER_LABELS[account.tax_wrapper]}
+                    </Badge>
+                    {account.id === selectedAccountId && (
+                      <Badge variant="outline">Viewing</Badge>
+                    )}
+                  </div>
+                  <p className="text-muted-foreground truncate">
+                    {[
+                      account.institution,
+                      account.currency,
+                      `${entry?.positionsCount ?? 0} positions`,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                </div>
+                <div className="flex flex-none items-center gap-1">
+                  <span className="mr-2 font-medium tabular-nums">
+                    {formatCurrency(entry?.netWorth ?? 0, currency)}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-8"
+                    aria-label="View on dashboard"
+                    disabled={busyId === account.id}
+                    onClick={() => handleView(account)}
+                  >
+                    <Eye />
+                  </Button>
+                  <AccountDialog account={account} defaultCurrency={currency}>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-8"
+                      aria-label="Edit"
+                    >
+                      <Pencil />
+                    </Button>
+                  </AccountDialog>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive size-8"
+                    aria-label="Delete"
+                    disabled={busyId === account.id}
+                    onClick={() => handleDelete(account)}
+                  >
+                    <Trash2 />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {accounts.length > 0 && unassigned && (
+        <p className="text-muted-foreground text-sm">
+          {unassigned.positionsCount} positions without an account (
+          {formatCurrency(unassigned.netWorth, currency)}) only show in the
+          consolidated view. Assign them from the position&apos;s edit dialog.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { useState } from "react";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import {
+  BellRing,
+  Mail,
+  Pause,
+  Pencil,
+  Play,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertRuleDialog, ALERT_TYPE_LABELS } from "./rule-dialog";
+
+import { formatCurrency, formatNumber } from "@/lib/number-format";
+
+import { setAlertRuleActive } from "@/server/alerts/update";
+import { deleteAlertRule } from "@/server/alerts/delete";
+
+import type { AlertRuleChoice } from "./rule-dialog";
+import type { fetchAlertRules } from "@/server/alerts/fetch";
+
+type AlertRuleWithNames = Awaited<ReturnType<typeof fetchAlertRules>>[number];
+
+interface AlertRulesProps {
+  rules: AlertRuleWithNames[];
+  defaultCurrency: string;
+  symbols: AlertRuleChoice[];
+  positions: AlertRuleChoice[];
+}
+
+// One-line summary of what a rule watches
+function describeRule(rule: AlertRuleWithNames) {
+  const direction = rule.direction === "below" ? "falls below" : "rises above";
+
+  switch (rule.type) {
+    case "price_cross":
+      return `${rule.symbol?.ticker ?? "Symbol"} ${direction} ${formatCurrency(rule.threshold ?? 0, rule.symbol?.currency ?? "USD")}`;
+    case "daily_move":
+      return `${rule.position?.name ?? "Position"} moves ${formatNumber(rule.threshold ?? 0)}% or more in a day`;
+    case "net_worth_cross":
+      return `Net worth ${direction} ${formatCurrency(rule.threshold ?? 0, rule.currency ?? "USD")}`;
+    case "allocation_drift":
+      return rule.threshold !== null
+        ? `A target drifts more than ${formatNumber(rule.threshold)} points`
+        : "A target drifts outside its tolerance";
+    case "ex_dividend":
+      return `${rule.symbol?.ticker ?? "A holding"} goes ex-dividend within ${rule.days_before} days`;
+  }
+}
+
+export function AlertRules({
+  rules,
+  defaultCurrency,
+  symbols,
+  positions,
+}: AlertRulesProps) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  async function handleToggle(rule: AlertRuleWithNames) {
+    setBusyId(rule.id);
+    try {
+      const result = await setAlertRuleActive(rule.id, !rule.is_active);
+      if (!result.success) throw new Error(result.message);
+      toast.success(rule.is_active ? "Alert paused" : "Alert resumed");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update alert",
+      );
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleDelete(rule: AlertRuleWithNames) {
+    setBusyId(rule.id);
+    try {
+      const result = await deleteAlertRule(rule.id);
+      if (!result.success) throw new Error(result.message);
+      toast.success("Alert deleted");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete alert",
+      );
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  const dialogProps = { defaultCurrency, symbols, positions };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-end">
+        <AlertRuleDialog {...dialogProps}>
+          <Button size="sm">
+            <Plus /> New alert
+          </Button>
+        </AlertRuleDialog>
+      </div>
+
+      {!rules.length ? (
+        <div className="text-muted-foreground flex flex-col items-center gap-2 rounded-lg border border-dashed p-8 text-center text-sm">
+          <div className="bg-accent rounded-lg p-2">
+            <BellRing className="text-muted-foreground size-4" />
+          </div>
+          No alerts yet, e.g. when a stock crosses a price or your net worth
+          hits a milestone
+        </div>
+      ) : (
+        <div className="divide-y rounded-md border">
+          {rules.map((rule) => (
+            <div
+              key={rule.id}
+              className="flex items-center justify-between gap-4 p-3 text-sm"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="truncate font-medium">
+                    {describeRule(rule)}
+                  </span>
+                  {!rule.is_active && <Badge variant="secondary">Paused</Badge>}
+                  {rule.email_enabled && (
+                    <Mail
+                      className="text-muted-foreground size-4 flex-none"
+                      aria-label="Emails enabled"
+                    />
+                  )}
+                </div>
+                <p className="text-muted-foreground truncate">
+                  {ALERT_TYPE_LABELS[rule.type]}
+                  {rule.last_triggered_at &&
+                    ` · last triggered ${formatDistanceToNow(
+                      parseISO(rule.last_triggered_at),
+                      { addSuffix: true },
+                    )}`}
+                </p>
+              </div>
+              <div className="flex flex-none items-center gap-1">
+                <AlertRuleDialog rule={rule} {...dialogProps}>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-8"
+                    aria-label="Edit"
+                  >
+                    <Pencil />
+                  </Button>
+                </AlertRuleDialog>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-8"
+                  aria-label={rule.is_active ? "Pause" : "Resume"}
+                  disabled={busyId === rule.id}
+                  onClick={() => handleToggle(rule)}
+                >
+                  {rule.is_active ? <Pause /> : <Play />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-destructive size-8"
+                  aria-label="Delete"
+                  disabled={busyId === rule.id}
+                  onClick={() => handleDelete(rule)}
+                >
+                  <Trash2 />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
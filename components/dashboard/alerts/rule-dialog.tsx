@@ -0,0 +1,483 @@
+"use client";
+
+import { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { toast } from "sonner";
+
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Spinner } from "@/components/ui/spinner";
+import { CurrencySelector } from "@/components/dashboard/currency-selector";
+
+import { createAlertRule } from "@/server/alerts/create";
+import { updateAlertRule } from "@/server/alerts/update";
+
+import { ALERT_RULE_TYPES } from "@/types/enums";
+import type { AlertRule, AlertRuleType } from "@/types/global.types";
+
+export type AlertRuleChoice = { id: string; name: string };
+
+export const ALERT_TYPE_LABELS: Record<AlertRuleType, string> = {
+  price_cross: "Price crosses a level",
+  daily_move: "Position moves in a day",
+  net_worth_cross: "Net worth crosses a level",
+  allocation_drift: "Allocation drifts from target",
+  ex_dividend: "Upcoming ex-dividend date",
+};
+
+// Ex-dividend rules without a symbol watch every held symbol
+const ALL_SYMBOLS = "all";
+
+// Optional number input (empty = not set)
+const optionalNumber = z.preprocess(
+  (value) =>
+    value === "" || value === null || value === undefined
+      ? null
+      : Number(value),
+  z.number({ error: "Enter a number." }).nullable(),
+);
+
+const formSchema = z
+  .object({
+    type: z.enum(ALERT_RULE_TYPES),
+    symbol_id: z.string(),
+    position_id: z.string(),
+    direction: z.enum(["above", "below"]),
+    threshold: optionalNumber,
+    currency: z.string().length(3),
+    days_before: optionalNumber,
+    email_enabled: z.boolean(),
+  })
+  .superRefine((values, ctx) => {
+    const needsSymbol = values.type === "price_cross";
+    const needsPosition = values.type === "daily_move";
+    const needsThreshold =
+      values.type !== "ex_dividend" && values.type !== "allocation_drift";
+
+    if (needsSymbol && !values.symbol_id) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["symbol_id"],
+        message: "Pick a symbol.",
+      });
+    }
+    if (needsPosition && !values.position_id) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["position_id"],
+        message: "Pick a position.",
+      });
+    }
+    if (
+      (needsThreshold && values.threshold === null) ||
+      (values.threshold !== null && values.threshold <= 0)
+    ) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["threshold"],
+        message: "Must be greater than 0.",
+      });
+    }
+    if (
+      values.type === "ex_dividend" &&
+      (values.days_before === null ||
+        !Number.isInteger(values.days_before) ||
+        values.days_before < 0 ||
+        values.days_before > 60)
+    ) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["days_before"],
+        message: "Between 0 and 60 days.",
+      });
+    }
+  });
+
+interface AlertRuleDialogProps {
+  rule?: AlertRule;
+  defaultCurrency: string;
+  /** Symbols of held positions */
+  symbols: AlertRuleChoice[];
+  positions: AlertRuleChoice[];
+  children: React.ReactNode;
+}
+
+export function AlertRuleDialog({
+  rule,
+  defaultCurrency,
+  symbols,
+  positions,
+  children,
+}: AlertRuleDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      type: rule?.type ?? "price_cross",
+      symbol_id:
+        rule?.symbol_id ?? (rule?.type === "ex_dividend" ? ALL_SYMBOLS : ""),
+      position_id: rule?.position_id ?? "",
+      direction: (rule?.direction ?? "above") as "above" | "below",
+      threshold: rule?.threshold ?? "",
+      currency: rule?.currency ?? defaultCurrency,
+      days_before: rule?.days_before ?? 7,
+      email_enabled: rule?.email_enabled ?? true,
+    },
+  });
+
+  const type = form.watch("type");
+
+  // Submit handler
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    setIsLoading(true);
+    try {
+      const formData = new FormData();
+      formData.append("type", values.type);
+      formData.append("email_enabled", String(values.email_enabled));
+
+      // Only append the fields the rule type uses
+      if (values.type === "price_cross" || values.type === "net_worth_cross") {
+        formData.append("direction", values.direction);
+      }
+      if (values.type === "net_worth_cross") {
+        formData.append("currency", values.currency);
+      }
+      if (
+        values.type === "price_cross" ||
+        (values.type === "ex_dividend" && values.symbol_id !== ALL_SYMBOLS)
+      ) {
+        formData.append("symbol_id", values.symbol_id);
+      }
+      if (values.type === "daily_move") {
+        formData.append("position_id", values.position_id);
+      }
+      if (values.type === "ex_dividend" && values.days_before !== null) {
+        formData.append("days_before", values.days_before.toString());
+      }
+      if (values.type !== "ex_dividend" && values.threshold !== null) {
+        formData.append("threshold", values.threshold.toString());
+      }
+
+      const result = rule
+        ? await updateAlertRule(formData, rule.id)
+        : await createAlertRule(formData);
+
+      // Handle error response from server action
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      toast.success(rule ? "Alert updated" : "Alert created");
+      if (!rule) form.reset();
+      setOpen(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save alert",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{rule ? "Edit alert" : "New alert"}</DialogTitle>
+          <DialogDescription>
+            Alerts are checked daily after market close and land in your
+            notifications.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-4">
+            {/* Type */}
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Alert when</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {ALERT_RULE_TYPES.map((ruleType) => (
+                        <SelectItem key={ruleType} value={ruleType}>
+                          {ALERT_TYPE_LABELS[ruleType]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid items-start gap-x-2 gap-y-4 sm:grid-cols-2">
+              {/* Symbol */}
+              {(type === "price_cross" || type === "ex_dividend") && (
+                <FormField
+                  control={form.control}
+                  name="symbol_id"
+                  render={({ field }) => (
+                    <FormItem className="sm:col-span-2">
+                      <FormLabel>Symbol</FormLabel>
+                      <Select
+                        value={field.value}
+                        onValueChange={field.onChange}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue placeholder="Select a symbol" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {type === "ex_dividend" && (
+                            <SelectItem value={ALL_SYMBOLS}>
+                              All holdings
+                            </SelectItem>
+                          )}
+                          {symbols.map((symbol) => (
+                            <SelectItem key={symbol.id} value={symbol.id}>
+                              {symbol.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {/* Position */}
+              {type === "daily_move" && (
+                <FormField
+                  control={form.control}
+                  name="position_id"
+                  render={({ field }) => (
+                    <FormItem className="sm:col-span-2">
+                      <FormLabel>Position</FormLabel>
+                      <Select
+                        value={field.value}
+                        onValueChange={field.onChange}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue placeholder="Select a position" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {positions.map((position) => (
+                            <SelectItem key={position.id} value={position.id}>
+                              {position.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {/* Direction */}
+              {(type === "price_cross" || type === "net_worth_cross") && (
+                <FormField
+                  control={form.control}
+                  name="direction"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Direction</FormLabel>
+                      <Select
+                        value={field.value}
+                        onValueChange={field.onChange}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="above">Rises above</SelectItem>
+                          <SelectItem value="below">Falls below</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {/* Threshold */}
+              {type !== "ex_dividend" && (
+                <FormField
+                  control={form.control}
+                  name="threshold"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        {type === "price_cross" && "Price"}
+                        {type === "net_worth_cross" && "Net worth"}
+                        {type === "daily_move" && "Move (%)"}
+                        {type === "allocation_drift" &&
+                          "Tolerance (pp, optional)"}
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder={
+                            type === "allocation_drift"
+                              ? "Target's own"
+                              : type === "daily_move"
+                                ? "E.g., 5"
+                                : "E.g., 100000"
+                          }
+                          type="number"
+                          inputMode="decimal"
+                          min={0}
+                          step="any"
+                          {...field}
+                          value={field.value as number}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {/* Currency */}
+              {type === "net_worth_cross" && (
+                <FormField
+                  control={form.control}
+                  name="currency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Currency</FormLabel>
+                      <FormControl>
+                        <CurrencySelector field={field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {/* Days before */}
+              {type === "ex_dividend" && (
+                <FormField
+                  control={form.control}
+                  name="days_before"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Days ahead</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          inputMode="numeric"
+                          min={0}
+                          max={60}
+                          step={1}
+                          {...field}
+                          value={field.value as number}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            {type === "price_cross" && (
+              <p className="text-muted-foreground text-sm">
+                Prices are in the symbol&apos;s trading currency.
+              </p>
+            )}
+
+            {/* Email */}
+            <FormField
+              control={form.control}
+              name="email_enabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <FormLabel>Email me</FormLabel>
+                    <FormDescription>
+                      Also send triggered alerts to your account email.
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {/* Footer - Action buttons */}
+            <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+              <Button
+                onClick={() => setOpen(false)}
+                disabled={isLoading}
+                type="button"
+                variant="secondary"
+              >
+                Cancel
+              </Button>
+              <Button disabled={isLoading} type="submit">
+                {isLoading ? (
+                  <>
+                    <Spinner />
+                    Saving...
+                  </>
+                ) : rule ? (
+                  "Save changes"
+                ) : (
+                  "Add alert"
+                )}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
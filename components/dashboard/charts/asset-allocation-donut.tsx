@@ -13,6 +13,7 @@ import { ChartPie } from "lucide-react";
 
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { usePrivacyMode } from "@/components/dashboard/privacy-mode-provider";
+import { RateIssuesBadge } from "@/components/dashboard/rate-issues-badge";
 
 import {
   formatCompactCurrency,
@@ -21,6 +22,8 @@ import {
 } from "@/lib/number-format";
 import { cn } from "@/lib/utils";
 
+import type { ConversionIssue } from "@/lib/currency-conversion";
+
 const COLORS = [
   "var(--chart-0)",
   "var(--chart-1)",
@@ -40,6 +43,8 @@ type AssetAllocationDonutProps = {
   netWorth: number;
   currency: string;
   assetAllocation: AssetAllocationDatum[];
+  /** Stale or missing exchange rates of the values */
+  rateIssues?: ConversionIssue[];
   className?: string;
 };
 
@@ -51,6 +56,7 @@ function AssetAllocationDonutBase({
   netWorth,
   currency,
   assetAllocation,
+  rateIssues = [],
   className,
   maskValues = false,
 }: AssetAllocationDonutBaseProps) {
@@ -78,7 +84,10 @@ function AssetAllocationDonutBase({
       ) : (
         <>
           <CardHeader className="flex-none">
-            <CardTitle>Asset Allocation</CardTitle>
+            <div className="flex items-center gap-2">
+              <CardTitle>Asset Allocation</CardTitle>
+              <RateIssuesBadge rateIssues={rateIssues} />
+            </div>
           </CardHeader>
           <CardContent className="flex flex-1 gap-2">
             <div className="w-1/2 min-w-24 shrink-0">
@@ -141,7 +150,13 @@ function AssetAllocationDonutBase({
                             {data.payload.name}
                           </span>
                           <span className="text-foreground text-xs font-semibold">
-                            {formatCurrency(Number(data.value), currency)}
+                            {maskValues
+                              ? formatPercentage(
+                                  totalAssetsValue === 0
+                                    ? 0
+                                    : Number(data.value) / totalAssetsValue,
+                                )
+                              : formatCurrency(Number(data.value), currency)}
                           </span>
                         </div>
                       );
@@ -191,6 +206,9 @@ export function AssetAllocationDonut(props: AssetAllocationDonutProps) {
   return <AssetAllocationDonutBase {...props} maskValues={isPrivacyMode} />;
 }
 
-export function AssetAllocationDonutPublic(props: AssetAllocationDonutProps) {
-  return <AssetAllocationDonutBase {...props} maskValues={false} />;
+export function AssetAllocationDonutPublic({
+  showValues = true,
+  ...props
+}: AssetAllocationDonutProps & { showValues?: boolean }) {
+  return <AssetAllocationDonutBase {...props} maskValues={!showValues} />;
 }
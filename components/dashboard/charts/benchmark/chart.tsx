@@ -0,0 +1,203 @@
+"use client";
+
+import { format, parseISO } from "date-fns";
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+} from "recharts";
+
+import { RateIssuesBadge } from "@/components/dashboard/rate-issues-badge";
+
+import {
+  formatCompactNumber,
+  formatCurrency,
+  formatNumber,
+} from "@/lib/number-format";
+import { cn } from "@/lib/utils";
+
+import type { BenchmarkComparison } from "@/server/analysis/benchmark";
+
+const PORTFOLIO_COLOR = "var(--foreground)";
+const BENCHMARK_COLORS = [
+  "oklch(0.62 0.17 250)",
+  "oklch(0.7 0.16 60)",
+  "oklch(0.62 0.2 300)",
+];
+
+// Signed percentage from a fraction, e.g. 0.0512 -> "+5.12%"
+function formatSignedPercent(value: number | null) {
+  if (value === null) return "N/A";
+  return `${value >= 0 ? "+" : ""}${formatNumber(value * 100, 2)}%`;
+}
+
+export function BenchmarkLineChart({
+  comparison,
+  isPrivacyMode,
+}: {
+  comparison: BenchmarkComparison;
+  isPrivacyMode?: boolean;
+}) {
+  const data = comparison.dates.map((date, index) => ({
+    date,
+    portfolio: comparison.portfolio[index],
+    ...Object.fromEntries(
+      comparison.benchmarks.map((benchmark) => [
+        benchmark.symbolId,
+        benchmark.values[index],
+      ]),
+    ),
+  }));
+
+  const labels = new Map<string, string>([
+    ["portfolio", "Portfolio"],
+    ...comparison.benchmarks.map(
+      (benchmark) => [benchmark.symbolId, benchmark.ticker] as const,
+    ),
+  ]);
+
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <LineChart data={data}>
+        <CartesianGrid stroke="var(--border)" vertical={false} />
+        <YAxis
+          tickFormatter={(value: number) => formatCompactNumber(value)}
+          axisLine={false}
+          tickLine={false}
+          tick={{
+            fontSize: 12,
+            fill: "var(--muted-foreground)",
+            opacity: isPrivacyMode ? 0 : 1,
+          }}
+          domain={["auto", "auto"]}
+          width={40}
+        />
+        <XAxis
+          dataKey="date"
+          tickFormatter={(date: string) => format(parseISO(date), "MMM d")}
+          axisLine={false}
+          tickLine={false}
+          tick={{ fontSize: 12, fill: "var(--muted-foreground)" }}
+          dy={5}
+        />
+        <Tooltip
+          content={({ active, payload }) => {
+            if (!active || !payload?.length) return null;
+
+            return (
+              <div className="bg-background border-border flex flex-col gap-1 rounded-md border px-2.5 py-1.5">
+                <span className="text-muted-foreground text-xs">
+                  {format(parseISO(payload[0].payload.date), "PPP")}
+                </span>
+                {payload.map((item) => (
+                  <span
+                    key={String(item.dataKey)}
+                    className="flex items-center gap-1.5 text-sm"
+                  >
+                    <span
+                      className="size-2 rounded-full"
+                      style={{ backgroundColor: item.color }}
+                    />
+                    {labels.get(String(item.dataKey))}{" "}
+                    {isPrivacyMode
+                      ? "* * *"
+                      : formatCurrency(Number(item.value), comparison.currency)}
+                  </span>
+                ))}
+              </div>
+            );
+          }}
+          cursor={{ stroke: "var(--border)", strokeWidth: 1 }}
+        />
+        <Line
+          dataKey="portfolio"
+          stroke={PORTFOLIO_COLOR}
+          strokeWidth={1.5}
+          dot={false}
+        />
+        {comparison.benchmarks.map((benchmark, index) => (
+          <Line
+            key={benchmark.symbolId}
+            dataKey={benchmark.symbolId}
+            stroke={BENCHMARK_COLORS[index % BENCHMARK_COLORS.length]}
+            strokeWidth={1.5}
+            strokeDasharray="4 3"
+            dot={false}
+            connectNulls
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
+
+/** Per-benchmark return, tracking difference and beta. */
+export function BenchmarkStatsList({
+  comparison,
+  className,
+}: {
+  comparison: BenchmarkComparison;
+  className?: string;
+}) {
+  return (
+    <div
+      className={cn(
+        "flex flex-wrap items-center gap-x-4 gap-y-1 text-xs",
+        className,
+      )}
+    >
+      <span className="flex items-center gap-1.5">
+        <span
+          className="size-2 rounded-full"
+          style={{ backgroundColor: PORTFOLIO_COLOR }}
+        />
+        Portfolio {formatSignedPercent(comparison.portfolioReturn)}
+      </span>
+      {comparison.benchmarks.map((benchmark, index) => (
+        <span
+          key={benchmark.symbolId}
+          className="flex items-center gap-1.5"
+          title={benchmark.name ?? undefined}
+        >
+          <span
+            className="size-2 rounded-full"
+            style={{
+              backgroundColor:
+                BENCHMARK_COLORS[index % BENCHMARK_COLORS.length],
+            }}
+          />
+          {benchmark.ticker} {formatSignedPercent(benchmark.benchmarkReturn)}
+          <span className="text-muted-foreground">
+            TD{" "}
+            <span
+              className={cn(
+                benchmark.trackingDifference !== null &&
+                  (benchmark.trackingDifference >= 0
+                    ? "text-green-600"
+                    : "text-red-600"),
+              )}
+            >
+              {formatSignedPercent(benchmark.trackingDifference)}
+            </span>{" "}
+            · β{" "}
+            {benchmark.beta === null
+              ? "N/A"
+              : formatNumber(benchmark.beta, undefined, {
+                  maximumFractionDigits: 2,
+                })}
+          </span>
+        </span>
+      ))}
+      {comparison.unresolved.length > 0 && (
+        <span className="text-muted-foreground">
+          Not found: {comparison.unresolved.join(", ")}
+        </span>
+      )}
+      <RateIssuesBadge rateIssues={comparison.rateIssues} />
+    </div>
+  );
+}
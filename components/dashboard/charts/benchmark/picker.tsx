@@ -0,0 +1,122 @@
+"use client";
+
+import { useState } from "react";
+import { ChartLine, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+
+import { MAX_BENCHMARKS } from "@/lib/benchmark";
+
+interface BenchmarkPickerProps {
+  value: string[];
+  onChange: (symbols: string[]) => void;
+  disabled?: boolean;
+}
+
+const SUGGESTIONS = ["SPY", "VWCE.DE", "QQQ"];
+
+export function BenchmarkPicker({
+  value,
+  onChange,
+  disabled,
+}: BenchmarkPickerProps) {
+  const [input, setInput] = useState("");
+
+  const isFull = value.length >= MAX_BENCHMARKS;
+
+  const add = (symbol: string) => {
+    const ticker = symbol.trim().toUpperCase();
+    if (!ticker || isFull || value.includes(ticker)) return;
+    onChange([...value, ticker]);
+    setInput("");
+  };
+
+  const remove = (symbol: string) => {
+    onChange(value.filter((item) => item !== symbol));
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" disabled={disabled}>
+          <ChartLine />
+          <span className="hidden sm:inline">Compare</span>
+          {value.length > 0 && (
+            <span className="text-muted-foreground">({value.length})</span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-3">
+        <div>
+          <p className="text-sm font-medium">Compare to benchmarks</p>
+          <p className="text-muted-foreground text-xs">
+            Up to {MAX_BENCHMARKS} tickers, returns exclude deposits and
+            withdrawals
+          </p>
+        </div>
+        <form
+          className="flex gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            add(input);
+          }}
+        >
+          <Input
+            value={input}
+            onChange={(event) => setInput(event.target.value)}
+            placeholder="e.g. VWCE.DE"
+            disabled={disabled || isFull}
+          />
+          <Button
+            type="submit"
+            variant="secondary"
+            disabled={disabled || isFull || !input.trim()}
+          >
+            Add
+          </Button>
+        </form>
+        {value.length > 0 ? (
+          <div className="flex flex-wrap gap-1">
+            {value.map((symbol) => (
+              <span
+                key={symbol}
+                className="bg-secondary inline-flex items-center gap-1 rounded-full py-0.5 pr-1 pl-2 text-xs font-medium"
+              >
+                {symbol}
+                <button
+                  type="button"
+                  aria-label={`Remove ${symbol}`}
+                  className="hover:bg-background rounded-full p-0.5"
+                  disabled={disabled}
+                  onClick={() => remove(symbol)}
+                >
+                  <X className="size-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        ) : (
+          <div className="flex flex-wrap gap-1">
+            {SUGGESTIONS.map((symbol) => (
+              <button
+                key={symbol}
+                type="button"
+                className="text-muted-foreground hover:text-foreground rounded-full border px-2 py-0.5 text-xs"
+                disabled={disabled}
+                onClick={() => add(symbol)}
+              >
+                + {symbol}
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
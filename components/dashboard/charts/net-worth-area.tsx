@@ -4,6 +4,7 @@ import { useState } from "react";
 import {
   differenceInCalendarDays,
   startOfYear,
+  subDays,
   subMonths,
   format,
 } from "date-fns";
@@ -11,12 +12,16 @@ import { TrendingUp, TrendingDown } from "lucide-react";
 
 import {
   fetchNetWorthHistory,
-  NetWorthHistoryData,
+  NetWorthHistory,
 } from "@/server/analysis/net-worth-history";
 import {
   fetchNetWorthChange,
   NetWorthChangeData,
 } from "@/server/analysis/net-worth-change";
+import {
+  fetchBenchmarkComparison,
+  type BenchmarkComparison,
+} from "@/server/analysis/benchmark";
 
 import {
   ResponsiveContainer,
@@ -40,6 +45,12 @@ import {
   SelectContent,
   SelectItem,
 } from "@/components/ui/select";
+import { BenchmarkPicker } from "@/components/dashboard/charts/benchmark/picker";
+import {
+  BenchmarkLineChart,
+  BenchmarkStatsList,
+} from "@/components/dashboard/charts/benchmark/chart";
+import { RateIssuesBadge } from "@/components/dashboard/rate-issues-badge";
 import { NewAssetButton } from "@/components/dashboard/new-asset";
 import { ImportPositionsButton } from "@/components/dashboard/positions/import";
 import {
@@ -52,21 +63,47 @@ import {
   formatCurrency,
   formatNumber,
 } from "@/lib/number-format";
+import { mergeRateIssues } from "@/lib/currency-conversion";
 import { cn } from "@/lib/utils";
 
+import type { ConversionIssue } from "@/lib/currency-conversion";
+
+// Days covered by a range option, today included
+function getRangeDaysBack(value: string) {
+  const today = new Date();
+
+  switch (value) {
+    case "1m":
+      return differenceInCalendarDays(today, subMonths(today, 1)) + 1;
+    case "3m":
+      return differenceInCalendarDays(today, subMonths(today, 3)) + 1;
+    case "ytd":
+      return differenceInCalendarDays(today, startOfYear(today)) + 1;
+    case "6m":
+    default:
+      return differenceInCalendarDays(today, subMonths(today, 6)) + 1;
+  }
+}
+
 export function NetWorthAreaChart({
   currency,
+  accountId,
   netWorth,
+  rateIssues: netWorthRateIssues,
   history: initialHistory,
   change: initialChange,
 }: {
   currency: string;
+  /** Account the dashboard is filtered by (null = all accounts) */
+  accountId: string | null;
   netWorth: number;
-  history: NetWorthHistoryData[];
+  /** Stale or missing exchange rates of the net worth */
+  rateIssues: ConversionIssue[];
+  history: NetWorthHistory;
   change: NetWorthChangeData;
 }) {
   const [customTimeRange, setCustomTimeRange] = useState<{
-    history: NetWorthHistoryData[];
+    history: NetWorthHistory;
     change: NetWorthChangeData;
   } | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -74,55 +111,71 @@ export function NetWorthAreaChart({
   const { isPrivacyMode } = usePrivacyMode();
 
   // Display custom time range data or fall back to default initial data (6 months)
-  const history = customTimeRange?.history ?? initialHistory;
+  const { history, rateIssues: historyRateIssues } =
+    customTimeRange?.history ?? initialHistory;
   const change = customTimeRange?.change ?? initialChange;
+  const rateIssues = mergeRateIssues(
+    netWorthRateIssues,
+    historyRateIssues,
+    change.rateIssues,
+  );
+
+  const [range, setRange] = useState("6m");
+  const [benchmarks, setBenchmarks] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<BenchmarkComparison | null>(
+    null,
+  );
+
+  // Benchmarks are compared over the same range as the history
+  const loadComparison = async (symbols: string[], daysBack: number) => {
+    if (!symbols.length) return null;
+
+    return fetchBenchmarkComparison({
+      symbols,
+      targetCurrency: currency,
+      startDate: subDays(new Date(), daysBack - 1),
+      accountId,
+    });
+  };
 
   const handleRangeChange = async (value: string) => {
+    setRange(value);
     setIsLoading(true);
 
     try {
-      const today = new Date();
-      let daysBack: number;
-
-      switch (value) {
-        case "1m": {
-          daysBack = differenceInCalendarDays(today, subMonths(today, 1)) + 1;
-          break;
-        }
-        case "3m": {
-          daysBack = differenceInCalendarDays(today, subMonths(today, 3)) + 1;
-          break;
-        }
-        case "6m": {
-          daysBack = differenceInCalendarDays(today, subMonths(today, 6)) + 1;
-          break;
-        }
-        case "ytd": {
-          daysBack = differenceInCalendarDays(today, startOfYear(today)) + 1;
-          break;
-        }
-        default: {
-          daysBack = differenceInCalendarDays(today, subMonths(today, 6)) + 1;
-          break;
-        }
-      }
+      const daysBack = getRangeDaysBack(value);
 
-      // Fetch both history and change in parallel
-      const [newHistory, newChange] = await Promise.all([
+      // Fetch history, change and comparison in parallel
+      const [newHistory, newChange, newComparison] = await Promise.all([
         fetchNetWorthHistory({
           targetCurrency: currency,
           daysBack,
+          accountId,
         }),
         fetchNetWorthChange({
           targetCurrency: currency,
           daysBack,
+          accountId,
         }),
+        loadComparison(benchmarks, daysBack),
       ]);
 
       setCustomTimeRange({
         history: newHistory,
         change: newChange,
       });
+      setComparison(newComparison);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleBenchmarksChange = async (symbols: string[]) => {
+    setBenchmarks(symbols);
+    setIsLoading(true);
+
+    try {
+      setComparison(await loadComparison(symbols, getRangeDaysBack(range)));
     } finally {
       setIsLoading(false);
     }
@@ -138,11 +191,13 @@ export function NetWorthAreaChart({
     return formatCompactNumber(value);
   };
 
-  // Define area chart color based on percentage change
-  const chartColor =
-    change.percentageChange >= 0
-      ? "oklch(0.72 0.19 150)"
-      : "oklch(0.64 0.21 25)";
+  // Performance excludes buys/sells so deposits don't read as gains
+  const isPositive = change.investmentGain >= 0;
+
+  // Define area chart color based on investment performance
+  const chartColor = isPositive
+    ? "oklch(0.72 0.19 150)"
+    : "oklch(0.64 0.21 25)";
 
   return (
     <Card className="flex h-80 flex-col rounded-lg shadow-xs">
@@ -165,7 +220,10 @@ export function NetWorthAreaChart({
           <CardHeader className="flex-none">
             <div className="flex justify-between gap-4">
               <div>
-                <CardDescription>Net Worth</CardDescription>
+                <div className="flex items-center gap-2">
+                  <CardDescription>Net Worth</CardDescription>
+                  <RateIssuesBadge rateIssues={rateIssues} />
+                </div>
                 <div className="flex flex-col md:flex-row md:items-baseline-last md:gap-3">
                   <div className="flex items-center gap-1">
                     <h2 className="text-xl font-semibold">
@@ -179,58 +237,68 @@ export function NetWorthAreaChart({
                     <div
                       className={cn(
                         "flex items-center gap-1",
-                        change.absoluteChange >= 0
-                          ? "text-green-600"
-                          : "text-red-600",
+                        isPositive ? "text-green-600" : "text-red-600",
                       )}
+                      title={
+                        change.moneyWeightedReturn !== null
+                          ? `Money-weighted: ${change.moneyWeightedReturn.toFixed(2)}% p.a.`
+                          : undefined
+                      }
                     >
-                      {change.absoluteChange >= 0 ? (
+                      {isPositive ? (
                         <TrendingUp className="size-4" />
                       ) : (
                         <TrendingDown className="size-4" />
                       )}
                       <span>
-                        {change.absoluteChange >= 0 ? "+" : ""}
-                        {formatNumber(change.absoluteChange, undefined, {
+                        {isPositive ? "+" : ""}
+                        {formatNumber(change.investmentGain, undefined, {
                           maximumFractionDigits: 2,
                         })}{" "}
-                        ({change.percentageChange >= 0 ? "+" : ""}
-                        {change.previousValue === 0
+                        (
+                        {change.timeWeightedReturn === null
                           ? "N/A"
-                          : change.percentageChange.toFixed(2)}
+                          : `${change.timeWeightedReturn >= 0 ? "+" : ""}${change.timeWeightedReturn.toFixed(2)}`}
                         %)
                       </span>
                     </div>
                     <span className="text-muted-foreground hidden md:block">
-                      vs last period
+                      return this period
                     </span>
                   </div>
                 </div>
               </div>
-              <Select
-                defaultValue="6m"
-                onValueChange={handleRangeChange}
-                disabled={isLoading}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="6 Months" />
-                </SelectTrigger>
-                <SelectContent align="end">
-                  <SelectItem value="1m">
-                    <span className="sm:hidden">1mo</span>
-                    <span className="hidden sm:inline">1 Month</span>
-                  </SelectItem>
-                  <SelectItem value="3m">
-                    <span className="sm:hidden">3mo</span>
-                    <span className="hidden sm:inline">3 Months</span>
-                  </SelectItem>
-                  <SelectItem value="6m">
-                    <span className="sm:hidden">6mo</span>
-                    <span className="hidden sm:inline">6 Months</span>
-                  </SelectItem>
-                  <SelectItem value="ytd">YTD</SelectItem>
-                </SelectContent>
-              </Select>
+              <div className="flex items-start gap-2">
+                <BenchmarkPicker
+                  value={benchmarks}
+                  onChange={handleBenchmarksChange}
+                  disabled={isLoading}
+                />
+                <Select
+                  value={range}
+                  onValueChange={handleRangeChange}
+                  disabled={isLoading}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="6 Months" />
+                  </SelectTrigger>
+                  <SelectContent align="end">
+                    <SelectItem value="1m">
+                      <span className="sm:hidden">1mo</span>
+                      <span className="hidden sm:inline">1 Month</span>
+                    </SelectItem>
+                    <SelectItem value="3m">
+                      <span className="sm:hidden">3mo</span>
+                      <span className="hidden sm:inline">3 Months</span>
+                    </SelectItem>
+                    <SelectItem value="6m">
+                      <span className="sm:hidden">6mo</span>
+                      <span className="hidden sm:inline">6 Months</span>
+                    </SelectItem>
+                    <SelectItem value="ytd">YTD</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
           </CardHeader>
           <CardContent
@@ -239,77 +307,96 @@ export function NetWorthAreaChart({
               isLoading && "opacity-50",
             )}
           >
-            <ResponsiveContainer width="100%" height="100%">
-              <AreaChart data={history}>
-                <defs>
-                  <linearGradient id="areaGradient" x1="0" y1="0" x2="0" y2="1">
-                    <stop
-                      offset="0%"
-                      stopColor={chartColor}
-                      stopOpacity={0.2}
-                    />
-                    <stop
-                      offset="100%"
-                      stopColor={chartColor}
-                      stopOpacity={0}
-                    />
-                  </linearGradient>
-                </defs>
-                <CartesianGrid stroke="var(--border)" vertical={false} />
-                <YAxis
-                  dataKey="value"
-                  tickFormatter={formatYAxisValue}
-                  axisLine={false}
-                  tickLine={false}
-                  tick={{
-                    fontSize: 12,
-                    fill: "var(--muted-foreground)",
-                    opacity: isPrivacyMode ? 0 : 1,
-                  }}
-                  domain={["auto", "auto"]}
-                  width={40}
-                />
-                <XAxis
-                  dataKey="date"
-                  tickFormatter={formatXAxisDate}
-                  axisLine={false}
-                  tickLine={false}
-                  tick={{ fontSize: 12, fill: "var(--muted-foreground)" }}
-                  dy={5}
-                />
-                <Tooltip
-                  content={({ active, payload }) => {
-                    if (!active || !payload?.length) return null;
+            {/* Benchmarks replace the area with cash-flow adjusted lines */}
+            {comparison?.dates.length ? (
+              <div className="flex h-full flex-col gap-2">
+                <div className="min-h-0 flex-1">
+                  <BenchmarkLineChart
+                    comparison={comparison}
+                    isPrivacyMode={isPrivacyMode}
+                  />
+                </div>
+                <BenchmarkStatsList comparison={comparison} />
+              </div>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={history}>
+                  <defs>
+                    <linearGradient
+                      id="areaGradient"
+                      x1="0"
+                      y1="0"
+                      x2="0"
+                      y2="1"
+                    >
+                      <stop
+                        offset="0%"
+                        stopColor={chartColor}
+                        stopOpacity={0.2}
+                      />
+                      <stop
+                        offset="100%"
+                        stopColor={chartColor}
+                        stopOpacity={0}
+                      />
+                    </linearGradient>
+                  </defs>
+                  <CartesianGrid stroke="var(--border)" vertical={false} />
+                  <YAxis
+                    dataKey="value"
+                    tickFormatter={formatYAxisValue}
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{
+                      fontSize: 12,
+                      fill: "var(--muted-foreground)",
+                      opacity: isPrivacyMode ? 0 : 1,
+                    }}
+                    domain={["auto", "auto"]}
+                    width={40}
+                  />
+                  <XAxis
+                    dataKey="date"
+                    tickFormatter={formatXAxisDate}
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fontSize: 12, fill: "var(--muted-foreground)" }}
+                    dy={5}
+                  />
+                  <Tooltip
+                    content={({ active, payload }) => {
+                      if (!active || !payload?.length) return null;
 
-                    const data = payload[0];
-                    return (
-                      <div className="bg-background border-border flex flex-col gap-1 rounded-md border px-2.5 py-1.5">
-                        <span className="text-muted-foreground text-xs">
-                          {format(data.payload.date, "PPP")}
-                        </span>
-                        <span className="text-sm">
-                          {formatCurrency(Number(data.value), currency)}
-                        </span>
-                      </div>
-                    );
-                  }}
-                  cursor={{ stroke: "var(--border)", strokeWidth: 1 }}
-                />
-                <Area
-                  dataKey="value"
-                  stroke={chartColor}
-                  strokeWidth={1.5}
-                  fill="url(#areaGradient)"
-                  fillOpacity={1}
-                  dot={false}
-                  activeDot={{
-                    r: 4.5,
-                    strokeWidth: 2.5,
-                    filter: "drop-shadow(0px 1px 3px rgba(0, 0, 0, 0.3))",
-                  }}
-                />
-              </AreaChart>
-            </ResponsiveContainer>
+                      const data = payload[0];
+                      return (
+                        <div className="bg-background border-border flex flex-col gap-1 rounded-md border px-2.5 py-1.5">
+                          <span className="text-muted-foreground text-xs">
+                            {format(data.payload.date, "PPP")}
+                          </span>
+                          <span className="text-sm">
+                            {formatCurrency(Number(data.value), currency)}
+                          </span>
+                        </div>
+                      );
+                    }}
+                    cursor={{ stroke: "var(--border)", strokeWidth: 1 }}
+                  />
+                  <Area
+                    dataKey="value"
+                    stroke={chartColor}
+                    strokeWidth={1.5}
+                    fill="url(#areaGradient)"
+                    fillOpacity={1}
+                    dot={false}
+                    activeDot={{
+                      r: 4.5,
+                      strokeWidth: 2.5,
+                      filter: "drop-shadow(0px 1px 3px rgba(0, 0, 0, 0.3))",
+                    }}
+                  />
+                </AreaChart>
+              </ResponsiveContainer>
+            )}
           </CardContent>
         </>
       )}
@@ -0,0 +1,316 @@
+"use client";
+
+import { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useFieldArray, useForm, useWatch } from "react-hook-form";
+import { z } from "zod";
+import { Plus, Target, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+import { formatNumber } from "@/lib/number-format";
+import { DEFAULT_REBALANCING_TOLERANCE } from "@/lib/rebalancing";
+import { requiredNumberWithConstraints } from "@/lib/zod-helpers";
+
+import { updateAllocationTargets } from "@/server/allocation-targets/update";
+
+import type { RebalancingTarget } from "@/lib/rebalancing";
+import type { AllocationTargetChoice } from "@/server/analysis/rebalancing";
+import type { AllocationTargetScope } from "@/types/global.types";
+
+export const SCOPE_LABELS: Record<AllocationTargetScope, string> = {
+  category: "Category",
+  position: "Position",
+  sector: "Sector",
+};
+
+const formSchema = z.object({
+  targets: z
+    .array(
+      z.object({
+        target_key: z.string().min(1, { error: "Pick a target." }),
+        weight: requiredNumberWithConstraints("Weight is required.", {
+          gt: { value: 0, error: "Weight must be greater than 0." },
+          lte: { value: 100, error: "Weight must not exceed 100." },
+        }),
+        // Empty means the default band
+        tolerance: z.preprocess(
+          (value) =>
+            value === "" || value === null || value === undefined
+              ? null
+              : Number(value),
+          z
+            .number({ error: "Band must be a number." })
+            .gte(0, { error: "Band must be 0 or greater." })
+            .lte(100, { error: "Band must not exceed 100." })
+            .nullable(),
+        ),
+      }),
+    )
+    .refine(
+      (targets) =>
+        !targets.length ||
+        Math.abs(targets.reduce((sum, t) => sum + t.weight, 0) - 100) <= 0.01,
+      { error: "Weights must add up to 100%." },
+    ),
+});
+
+interface AllocationTargetsDialogProps {
+  scope: AllocationTargetScope;
+  targets: RebalancingTarget[];
+  choices: AllocationTargetChoice[];
+}
+
+export function AllocationTargetsDialog({
+  scope,
+  targets,
+  choices,
+}: AllocationTargetsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Keep saved targets selectable even when no longer held
+  const options = [
+    ...choices,
+    ...targets
+      .filter((t) => !choices.some((choice) => choice.key === t.key))
+      .map((t) => ({ key: t.key, name: t.name })),
+  ];
+
+  const form = useForm({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      targets: targets.map((target) => ({
+        target_key: target.key,
+        weight: target.weight,
+        tolerance: target.tolerance ?? "",
+      })),
+    },
+  });
+
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "targets",
+  });
+
+  const watchedTargets = useWatch({ control: form.control, name: "targets" });
+  const weightTotal = (watchedTargets ?? []).reduce(
+    (sum, target) => sum + (Number(target.weight) || 0),
+    0,
+  );
+
+  // Submit handler
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    setIsLoading(true);
+    try {
+      const result = await updateAllocationTargets(
+        scope,
+        values.targets.map((target) => ({
+          target_key: target.target_key,
+          weight: target.weight,
+          tolerance: target.tolerance,
+        })),
+      );
+
+      // Handle error response from server action
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      toast.success("Targets saved");
+      form.reset(values);
+      setOpen(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save targets",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm">
+          <Target className="size-4" />
+          Targets
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            Target allocation by {SCOPE_LABELS[scope].toLowerCase()}
+          </DialogTitle>
+          <DialogDescription>
+            Weights must add up to 100%. The band is how far a target may drift
+            (in percentage points) before the plan sells to restore it; leave it
+            empty for {DEFAULT_REBALANCING_TOLERANCE}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-4">
+            <div className="space-y-2">
+              {fields.map((item, index) => (
+                <div key={item.id} className="flex items-start gap-2">
+                  <FormField
+                    control={form.control}
+                    name={`targets.${index}.target_key`}
+                    render={({ field }) => (
+                      <FormItem className="min-w-0 flex-1">
+                        <Select
+                          onValueChange={field.onChange}
+                          value={field.value}
+                        >
+                          <FormControl>
+                            <SelectTrigger className="w-full">
+                              <SelectValue placeholder="Select" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {options.map((option) => (
+                              <SelectItem key={option.key} value={option.key}>
+                                {option.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`targets.${index}.weight`}
+                    render={({ field }) => (
+                      <FormItem className="w-20">
+                        <FormControl>
+                          <Input
+                            aria-label="Weight (%)"
+                            placeholder="%"
+                            type="number"
+                            inputMode="decimal"
+                            min={0}
+                            max={100}
+                            step="any"
+                            {...field}
+                            value={field.value as number}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`targets.${index}.tolerance`}
+                    render={({ field }) => (
+                      <FormItem className="w-20">
+                        <FormControl>
+                          <Input
+                            aria-label="Tolerance band (percentage points)"
+                            placeholder="± band"
+                            type="number"
+                            inputMode="decimal"
+                            min={0}
+                            max={100}
+                            step="any"
+                            {...field}
+                            value={field.value as number}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove target"
+                    onClick={() => remove(index)}
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </div>
+              ))}
+
+              <div className="flex items-center justify-between">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={fields.length >= options.length}
+                  onClick={() =>
+                    append({ target_key: "", weight: "", tolerance: "" })
+                  }
+                >
+                  <Plus className="size-4" /> Add target
+                </Button>
+                <span className="text-muted-foreground text-sm">
+                  Total{" "}
+                  {formatNumber(weightTotal, undefined, {
+                    maximumFractionDigits: 2,
+                  })}
+                  %
+                </span>
+              </div>
+
+              {form.formState.errors.targets?.message && (
+                <p className="text-destructive text-sm">
+                  {form.formState.errors.targets.message}
+                </p>
+              )}
+            </div>
+
+            {/* Footer - Action buttons */}
+            <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+              <DialogClose asChild>
+                <Button type="button" variant="secondary" disabled={isLoading}>
+                  Cancel
+                </Button>
+              </DialogClose>
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? (
+                  <>
+                    <Spinner />
+                    Saving...
+                  </>
+                ) : (
+                  "Save targets"
+                )}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
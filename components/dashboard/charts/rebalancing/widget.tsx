@@ -0,0 +1,204 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Scale } from "lucide-react";
+
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { usePrivacyMode } from "@/components/dashboard/privacy-mode-provider";
+import { AllocationTargetsDialog, SCOPE_LABELS } from "./targets-dialog";
+
+import {
+  formatCurrency,
+  formatNumber,
+  formatPercentage,
+} from "@/lib/number-format";
+import { planRebalance } from "@/lib/rebalancing";
+import { cn } from "@/lib/utils";
+
+import { ALLOCATION_TARGET_SCOPES } from "@/types/enums";
+import type { RebalancingData } from "@/server/analysis/rebalancing";
+import type { AllocationTargetScope } from "@/types/global.types";
+
+interface RebalancingWidgetProps {
+  data: RebalancingData;
+  currency: string;
+  className?: string;
+}
+
+export function RebalancingWidget({
+  data,
+  currency,
+  className,
+}: RebalancingWidgetProps) {
+  const { isPrivacyMode } = usePrivacyMode();
+
+  // Plan inputs (the plan itself is computed client-side)
+  const [scope, setScope] = useState<AllocationTargetScope>(
+    () =>
+      ALLOCATION_TARGET_SCOPES.find((s) => data.targets[s].length) ??
+      "category",
+  );
+  const [cash, setCash] = useState("");
+  const [noSell, setNoSell] = useState(false);
+
+  const plan = useMemo(
+    () =>
+      planRebalance(data.holdings, data.targets[scope], {
+        scope,
+        cash: Number(cash) || 0,
+        noSell,
+      }),
+    [data, scope, cash, noSell],
+  );
+
+  const formatAmount = (value: number) =>
+    isPrivacyMode ? "* * * *" : formatCurrency(value, currency);
+
+  return (
+    <Card
+      className={cn("flex h-80 flex-col gap-4 rounded-lg shadow-xs", className)}
+    >
+      <CardHeader className="flex flex-none items-center justify-between gap-2">
+        <CardTitle>Rebalancing</CardTitle>
+        <div className="flex items-center gap-2">
+          <Select
+            value={scope}
+            onValueChange={(value) => setScope(value as AllocationTargetScope)}
+          >
+            <SelectTrigger size="sm" aria-label="Target scope">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ALLOCATION_TARGET_SCOPES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {SCOPE_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <AllocationTargetsDialog
+            key={scope}
+            scope={scope}
+            targets={data.targets[scope]}
+            choices={data.choices[scope]}
+          />
+        </div>
+      </CardHeader>
+
+      {!plan.groups.length ? (
+        <CardContent className="flex flex-1 flex-col items-center justify-center text-center">
+          <div className="bg-accent rounded-lg p-2">
+            <Scale className="text-muted-foreground size-4" />
+          </div>
+          <p className="mt-3 font-medium">No targets yet</p>
+          <p className="text-muted-foreground mt-1 text-sm">
+            Set target weights by {SCOPE_LABELS[scope].toLowerCase()} to get a
+            rebalancing plan
+          </p>
+        </CardContent>
+      ) : (
+        <CardContent className="flex min-h-0 flex-1 flex-col gap-3">
+          <div className="flex items-center gap-4">
+            <Input
+              aria-label="New cash to invest"
+              placeholder={`New cash (${currency})`}
+              type="number"
+              inputMode="decimal"
+              min={0}
+              step="any"
+              value={cash}
+              onChange={(e) => setCash(e.target.value)}
+              className="h-8 max-w-40"
+            />
+            <div className="flex items-center gap-2">
+              <Switch
+                id="rebalancing-no-sell"
+                checked={noSell}
+                onCheckedChange={setNoSell}
+              />
+              <Label htmlFor="rebalancing-no-sell" className="text-xs">
+                No selling
+              </Label>
+            </div>
+          </div>
+
+          <div className="min-h-0 flex-1 space-y-3 overflow-y-auto text-xs">
+            {/* Current vs target */}
+            <ul className="space-y-1">
+              {plan.groups.map((group) => (
+                <li key={group.key} className="flex items-center gap-2">
+                  <span className="min-w-0 flex-1 truncate">{group.name}</span>
+                  <span
+                    className={cn(
+                      "tabular-nums",
+                      !group.withinBand && "text-amber-600",
+                    )}
+                  >
+                    {formatPercentage(group.currentPct / 100, 1)}
+                  </span>
+                  <span className="text-muted-foreground tabular-nums">
+                    / {formatPercentage(group.targetPct / 100, 1)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            {/* Trades */}
+            {plan.trades.length === 0 && plan.unallocatedCash === 0 ? (
+              <p className="text-muted-foreground">
+                Your allocation is within its tolerance bands. Nothing to trade.
+              </p>
+            ) : (
+              <ul className="space-y-1 border-t pt-3">
+                {plan.trades.map((trade) => (
+                  <li
+                    key={trade.positionId}
+                    className="flex items-center gap-2"
+                  >
+                    <span
+                      className={cn(
+                        "w-8 font-medium",
+                        trade.side === "buy"
+                          ? "text-green-600"
+                          : "text-red-600",
+                      )}
+                    >
+                      {trade.side === "buy" ? "Buy" : "Sell"}
+                    </span>
+                    <span className="min-w-0 flex-1 truncate">
+                      {isPrivacyMode
+                        ? "* * *"
+                        : formatNumber(trade.quantity, undefined, {
+                            maximumFractionDigits: 4,
+                          })}{" "}
+                      {trade.name}
+                    </span>
+                    <span className="text-muted-foreground tabular-nums">
+                      {formatAmount(trade.amount)}
+                    </span>
+                  </li>
+                ))}
+                {plan.unallocatedCash > 0 && (
+                  <li className="text-muted-foreground">
+                    {formatAmount(plan.unallocatedCash)} for targets you
+                    don&apos;t hold yet
+                  </li>
+                )}
+              </ul>
+            )}
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
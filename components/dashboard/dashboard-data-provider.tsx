@@ -2,13 +2,26 @@
 
 import { createContext, useContext, type ReactNode } from "react";
 
-import type { FinancialProfile, Profile } from "@/types/global.types";
+import type {
+  Account,
+  FinancialProfile,
+  PortfolioAccess,
+  Profile,
+  SharedPortfolio,
+} from "@/types/global.types";
 
 type DashboardData = {
   profile: Profile;
   email: string;
   financialProfile: FinancialProfile | null;
   netWorth: number;
+  accounts: Account[];
+  /** Account the dashboard is filtered by (null = all accounts). */
+  selectedAccountId: string | null;
+  /** Portfolios other users shared with the user. */
+  sharedPortfolios: SharedPortfolio[];
+  /** Owner of the portfolio being viewed and the user's access to it. */
+  activePortfolio: { ownerId: string; access: PortfolioAccess };
 };
 
 const DashboardDataContext = createContext<DashboardData | undefined>(
@@ -0,0 +1,477 @@
+"use client";
+
+import { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { format } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Spinner } from "@/components/ui/spinner";
+import { CurrencySelector } from "@/components/dashboard/currency-selector";
+
+import { cn } from "@/lib/utils";
+import { requiredNumberWithConstraints } from "@/lib/zod-helpers";
+
+import { createGoal } from "@/server/goals/create";
+import { updateGoal } from "@/server/goals/update";
+import { deleteGoal } from "@/server/goals/delete";
+
+import type { Goal } from "@/types/global.types";
+
+export type GoalLinkChoice = { id: string; name: string };
+
+// Optional number input (empty = derived from history)
+const optionalNumber = (min: number, max: number, error: string) =>
+  z.preprocess(
+    (value) =>
+      value === "" || value === null || value === undefined
+        ? null
+        : Number(value),
+    z.number({ error }).gte(min, { error }).lte(max, { error }).nullable(),
+  );
+
+const formSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, { error: "Name is required." })
+    .max(64, { error: "Name must not exceed 64 characters." }),
+  target_amount: requiredNumberWithConstraints("Target amount is required.", {
+    gt: { value: 0, error: "Target amount must be greater than 0." },
+  }),
+  currency: z.string().length(3),
+  deadline: z.date({ error: "A deadline is required." }),
+  position_ids: z.array(z.string()),
+  category_ids: z.array(z.string()),
+  expected_return: optionalNumber(
+    -100,
+    100,
+    "Expected return must be between -100 and 100.",
+  ),
+  monthly_contribution: optionalNumber(
+    0,
+    Number.MAX_SAFE_INTEGER,
+    "Monthly contribution must be 0 or greater.",
+  ),
+});
+
+interface GoalDialogProps {
+  goal?: Goal;
+  defaultCurrency: string;
+  categories: GoalLinkChoice[];
+  positions: GoalLinkChoice[];
+  children: React.ReactNode;
+}
+
+export function GoalDialog({
+  goal,
+  defaultCurrency,
+  categories,
+  positions,
+  children,
+}: GoalDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const form = useForm({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: goal?.name ?? "",
+      target_amount: goal?.target_amount ?? "",
+      currency: goal?.currency ?? defaultCurrency,
+      deadline: goal ? new Date(`${goal.deadline}T00:00:00`) : undefined,
+      position_ids: goal?.position_ids ?? [],
+      category_ids: goal?.category_ids ?? [],
+      expected_return: goal?.expected_return ?? "",
+      monthly_contribution: goal?.monthly_contribution ?? "",
+    },
+  });
+
+  const isBusy = isLoading || isDeleting;
+
+  // Submit handler
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    setIsLoading(true);
+    try {
+      const formData = new FormData();
+      formData.append("name", values.name);
+      formData.append("target_amount", values.target_amount.toString());
+      formData.append("currency", values.currency);
+      formData.append("deadline", format(values.deadline, "yyyy-MM-dd"));
+      formData.append("position_ids", JSON.stringify(values.position_ids));
+      formData.append("category_ids", JSON.stringify(values.category_ids));
+
+      // Only append overrides if they are set
+      if (values.expected_return !== null) {
+        formData.append("expected_return", values.expected_return.toString());
+      }
+      if (values.monthly_contribution !== null) {
+        formData.append(
+          "monthly_contribution",
+          values.monthly_contribution.toString(),
+        );
+      }
+
+      const result = goal
+        ? await updateGoal(formData, goal.id)
+        : await createGoal(formData);
+
+      // Handle error response from server action
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      toast.success(goal ? "Goal updated" : "Goal created");
+      if (!goal) form.reset();
+      setOpen(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save goal",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!goal) return;
+
+    setIsDeleting(true);
+    try {
+      const result = await deleteGoal(goal.id);
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      toast.success("Goal deleted");
+      setOpen(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete goal",
+      );
+    } finally {
+      setIsDeleting(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{goal ? "Edit goal" : "New goal"}</DialogTitle>
+          <DialogDescription>
+            Track net worth, or link positions and categories to track just
+            those.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-4">
+            {/* Name */}
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="E.g., House deposit" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid items-start gap-x-2 gap-y-4 sm:grid-cols-2">
+              {/* Target amount */}
+              <FormField
+                control={form.control}
+                name="target_amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Target amount</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="E.g., 50000"
+                        type="number"
+                        inputMode="decimal"
+                        min={0}
+                        step="any"
+                        {...field}
+                        value={field.value as number}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* Currency */}
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <FormControl>
+                      <CurrencySelector field={field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* Deadline */}
+            <FormField
+              control={form.control}
+              name="deadline"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Deadline</FormLabel>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <FormControl>
+                        <Button
+                          variant="outline"
+                          className={cn(
+                            "text-left font-normal",
+                            !field.value && "text-muted-foreground",
+                          )}
+                        >
+                          {field.value ? (
+                            format(field.value, "PPP")
+                          ) : (
+                            <span>Pick a date</span>
+                          )}
+                          <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                        </Button>
+                      </FormControl>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={field.value}
+                        onSelect={field.onChange}
+                        captionLayout="dropdown"
+                        endMonth={new Date(2100, 11)}
+                        autoFocus
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Linked categories */}
+            <FormField
+              control={form.control}
+              name="category_ids"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Categories (optional)</FormLabel>
+                  <LinkChecklist
+                    name="goal-category"
+                    choices={categories}
+                    value={field.value}
+                    onChange={field.onChange}
+                  />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Linked positions */}
+            <FormField
+              control={form.control}
+              name="position_ids"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Positions (optional)</FormLabel>
+                  <LinkChecklist
+                    name="goal-position"
+                    choices={positions}
+                    value={field.value}
+                    onChange={field.onChange}
+                  />
+                  <FormDescription>
+                    Leave categories and positions empty to track your net
+                    worth.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid items-start gap-x-2 gap-y-4 sm:grid-cols-2">
+              {/* Expected return */}
+              <FormField
+                control={form.control}
+                name="expected_return"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Expected return (%/yr)</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="From history"
+                        type="number"
+                        inputMode="decimal"
+                        step="any"
+                        {...field}
+                        value={field.value as number}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* Monthly contribution */}
+              <FormField
+                control={form.control}
+                name="monthly_contribution"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Monthly contribution</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="From history"
+                        type="number"
+                        inputMode="decimal"
+                        min={0}
+                        step="any"
+                        {...field}
+                        value={field.value as number}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <p className="text-muted-foreground -mt-2 text-sm">
+              Leave empty to use your contributions and return over the last 12
+              months.
+            </p>
+
+            {/* Footer - Action buttons */}
+            <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+              {goal && (
+                <Button
+                  onClick={handleDelete}
+                  disabled={isBusy}
+                  type="button"
+                  variant="destructive"
+                  className="sm:mr-auto"
+                >
+                  {isDeleting ? (
+                    <>
+                      <Spinner />
+                      Deleting...
+                    </>
+                  ) : (
+                    "Delete"
+                  )}
+                </Button>
+              )}
+              <Button
+                onClick={() => setOpen(false)}
+                disabled={isBusy}
+                type="button"
+                variant="secondary"
+              >
+                Cancel
+              </Button>
+              <Button disabled={isBusy} type="submit">
+                {isLoading ? (
+                  <>
+                    <Spinner />
+                    Saving...
+                  </>
+                ) : goal ? (
+                  "Save changes"
+                ) : (
+                  "Add goal"
+                )}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function LinkChecklist({
+  name,
+  choices,
+  value,
+  onChange,
+}: {
+  name: string;
+  choices: GoalLinkChoice[];
+  value: string[];
+  onChange: (value: string[]) => void;
+}) {
+  if (!choices.length) {
+    return <p className="text-muted-foreground text-sm">Nothing to link yet</p>;
+  }
+
+  return (
+    <div className="max-h-32 space-y-2 overflow-y-auto rounded-md border p-2">
+      {choices.map((choice) => {
+        const id = `${name}-${choice.id}`;
+        return (
+          <div key={choice.id} className="flex items-center gap-2">
+            <Checkbox
+              id={id}
+              checked={value.includes(choice.id)}
+              onCheckedChange={(checked) =>
+                onChange(
+                  checked
+                    ? [...value, choice.id]
+                    : value.filter((selected) => selected !== choice.id),
+                )
+              }
+            />
+            <Label htmlFor={id} className="font-normal">
+              {choice.name}
+            </Label>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+"use client";
+
+import { format, parseISO } from "date-fns";
+import { Flag, Pencil, Plus } from "lucide-react";
+
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { usePrivacyMode } from "@/components/dashboard/privacy-mode-provider";
+import { GoalDialog } from "./goal-dialog";
+
+import { formatCurrency, formatPercentage } from "@/lib/number-format";
+import { cn } from "@/lib/utils";
+
+import type { GoalLinkChoice } from "./goal-dialog";
+import type { GoalStatus } from "@/lib/goal-projection";
+import type { GoalProgress } from "@/server/analysis/goal-progress";
+
+const STATUS_LABELS: Record<GoalStatus, string> = {
+  achieved: "Achieved",
+  on_track: "On track",
+  off_track: "Off track",
+  overdue: "Overdue",
+};
+
+const STATUS_CLASSES: Record<GoalStatus, string> = {
+  achieved: "bg-green-600/10 text-green-600",
+  on_track: "bg-green-600/10 text-green-600",
+  off_track: "bg-amber-600/10 text-amber-600",
+  overdue: "bg-red-600/10 text-red-600",
+};
+
+interface GoalsWidgetProps {
+  goals: GoalProgress[];
+  currency: string;
+  categories: GoalLinkChoice[];
+  positions: GoalLinkChoice[];
+  className?: string;
+}
+
+export function GoalsWidget({
+  goals,
+  currency,
+  categories,
+  positions,
+  className,
+}: GoalsWidgetProps) {
+  const { isPrivacyMode } = usePrivacyMode();
+
+  const formatAmount = (value: number, goalCurrency: string) =>
+    isPrivacyMode ? "* * * *" : formatCurrency(value, goalCurrency);
+
+  const newGoalButton = (
+    <GoalDialog
+      defaultCurrency={currency}
+      categories={categories}
+      positions={positions}
+    >
+      <Button type="button" variant="outline" size="sm">
+        <Plus className="size-4" />
+        New goal
+      </Button>
+    </GoalDialog>
+  );
+
+  if (!goals.length) {
+    return (
+      <Card
+        className={cn(
+          "flex h-80 flex-col gap-4 rounded-lg shadow-xs",
+          className,
+        )}
+      >
+        <CardContent className="flex flex-1 flex-col items-center justify-center text-center">
+          <div className="bg-accent rounded-lg p-2">
+            <Flag className="text-muted-foreground size-4" />
+          </div>
+          <p className="mt-3 font-medium">Goals</p>
+          <p className="text-muted-foreground mt-1 mb-3 text-sm">
+            Set a target, like an emergency fund or a house deposit, and see if
+            you are on track
+          </p>
+          {newGoalButton}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card
+      className={cn("flex h-80 flex-col gap-4 rounded-lg shadow-xs", className)}
+    >
+      <CardHeader className="flex flex-none items-center justify-between">
+        <CardTitle>Goals</CardTitle>
+        {newGoalButton}
+      </CardHeader>
+      <CardContent className="min-h-0 flex-1 overflow-y-auto">
+        <ul className="space-y-4">
+          {goals.map((progress) => (
+            <li key={progress.goal.id} className="space-y-1.5">
+              <div className="flex items-center gap-2">
+                <span className="min-w-0 flex-1 truncate text-sm font-medium">
+                  {progress.goal.name}
+                </span>
+                <Badge
+                  variant="secondary"
+                  className={STATUS_CLASSES[progress.status]}
+                >
+                  {STATUS_LABELS[progress.status]}
+                </Badge>
+                <GoalDialog
+                  goal={progress.goal}
+                  defaultCurrency={currency}
+                  categories={categories}
+                  positions={positions}
+                >
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="size-7"
+                    aria-label={`Edit ${progress.goal.name}`}
+                  >
+                    <Pencil className="size-3.5" />
+                  </Button>
+                </GoalDialog>
+              </div>
+
+              <div className="bg-accent h-1.5 overflow-hidden rounded-full">
+                <div
+                  className="bg-primary h-full rounded-full"
+                  style={{ width: `${progress.progress * 100}%` }}
+                />
+              </div>
+
+              <div className="text-muted-foreground flex justify-between gap-2 text-xs">
+                <span>
+                  {formatAmount(progress.currentValue, progress.goal.currency)}{" "}
+                  of{" "}
+                  {formatAmount(
+                    progress.goal.target_amount,
+                    progress.goal.currency,
+                  )}{" "}
+                  ({formatPercentage(progress.progress, 0)})
+                </span>
+                <span>by {format(parseISO(progress.goal.deadline), "PP")}</span>
+              </div>
+
+              <p className="text-muted-foreground text-xs">
+                {describeProjection(progress, formatAmount)}
+              </p>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
+
+function describeProjection(
+  progress: GoalProgress,
+  formatAmount: (value: number, currency: string) => string,
+) {
+  const { goal } = progress;
+
+  switch (progress.status) {
+    case "achieved":
+      return "Target reached.";
+    case "overdue":
+      return progress.projectedDate
+        ? `Deadline passed. At this pace you get there by ${format(parseISO(progress.projectedDate), "MMM yyyy")}.`
+        : "Deadline passed.";
+    case "on_track":
+      return `Projected ${formatAmount(progress.projectedValue, goal.currency)} by the deadline.`;
+    case "off_track":
+      return `Projected ${formatAmount(progress.projectedValue, goal.currency)}. Save ${formatAmount(progress.requiredMonthlyContribution, goal.currency)}/month to get there.`;
+  }
+}
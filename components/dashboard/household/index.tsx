@@ -0,0 +1,288 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Check, Eye, Link2, LogOut, Plus, Trash2, Users } from "lucide-react";
+import { toast } from "sonner";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { usePrivacyMode } from "@/components/dashboard/privacy-mode-provider";
+import { InviteDialog, ROLE_LABELS } from "./invite-dialog";
+
+import { formatCurrency } from "@/lib/number-format";
+import { useCopyToClipboard } from "@/hooks/use-copy-to-clipboard";
+
+import { deletePortfolioMember } from "@/server/portfolio-members/delete";
+import {
+  setActivePortfolio,
+  updatePortfolioMemberRole,
+} from "@/server/portfolio-members/update";
+import { buildInvitationUrl } from "@/server/portfolio-members/utils";
+
+import { PORTFOLIO_MEMBER_ROLES } from "@/types/enums";
+import type {
+  HouseholdProfile,
+  PortfolioMemberRole,
+  PortfolioMemberWithProfile,
+  SharedPortfolio,
+} from "@/types/global.types";
+import type { HouseholdNetWorth } from "@/server/analysis/household-net-worth";
+
+interface HouseholdProps {
+  householdNetWorth: HouseholdNetWorth;
+  members: PortfolioMemberWithProfile[];
+  sharedPortfolios: SharedPortfolio[];
+  currency: string;
+  siteUrl: string;
+}
+
+function ProfileAvatar({ profile }: { profile: HouseholdProfile | null }) {
+  const name = profile?.username ?? "?";
+
+  return (
+    <Avatar className="size-8">
+      <AvatarImage src={profile?.avatar_url ?? undefined} alt={name} />
+      <AvatarFallback className="uppercase">{name.slice(0, 1)}</AvatarFallback>
+    </Avatar>
+  );
+}
+
+export function Household({
+  householdNetWorth,
+  members,
+  sharedPortfolios,
+  currency,
+  siteUrl,
+}: HouseholdProps) {
+  const router = useRouter();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const { isPrivacyMode } = usePrivacyMode();
+  const { copyToClipboard } = useCopyToClipboard({
+    onCopy: () => toast.success("Invite link copied"),
+  });
+
+  const formatValue = (value: number) =>
+    isPrivacyMode ? "* * *" : formatCurrency(value, currency);
+
+  async function run(
+    id: string,
+    action: () => Promise<{ success: boolean; message?: string }>,
+  ) {
+    setBusyId(id);
+    try {
+      const result = await action();
+      if (!result.success) throw new Error(result.message);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Action failed");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  function handleCopy(member: PortfolioMemberWithProfile) {
+    copyToClipboard(buildInvitationUrl(siteUrl, member.token));
+    setCopiedId(member.id);
+  }
+
+  async function handleView(ownerId: string | null) {
+    await run(ownerId ?? "own", () => setActivePortfolio(ownerId));
+    router.push("/dashboard");
+  }
+
+  return (
+    <div className="grid gap-6">
+      {/* Combined net worth */}
+      <div className="rounded-lg border p-4 shadow-xs">
+        <p className="text-muted-foreground text-sm">Household net worth</p>
+        <p className="text-2xl font-semibold tabular-nums">
+          {formatValue(householdNetWorth.total)}
+        </p>
+        <div className="mt-4 divide-y">
+          {householdNetWorth.members.map(({ owner, access, netWorth }) => (
+            <div
+              key={owner.user_id}
+              className="flex items-center justify-between gap-4 py-2 text-sm"
+            >
+              <div className="flex min-w-0 items-center gap-2">
+                <ProfileAvatar profile={owner} />
+                <span className="truncate font-medium">
+                  {access === "owner" ? "You" : (owner.username ?? "Member")}
+                </span>
+                {access !== "owner" && (
+                  <Badge variant="secondary">{ROLE_LABELS[access]}</Badge>
+                )}
+              </div>
+              <div className="flex flex-none items-center gap-1">
+                <span className="mr-2 font-medium tabular-nums">
+                  {formatValue(netWorth)}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-8"
+                  aria-label="View on dashboard"
+                  disabled={busyId !== null}
+                  onClick={() =>
+                    handleView(access === "owner" ? null : owner.user_id)
+                  }
+                >
+                  <Eye />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Members of the own portfolio */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h2 className="font-semibold">Shared with</h2>
+            <p className="text-muted-foreground text-sm">
+              People who can access your portfolio
+            </p>
+          </div>
+          <InviteDialog>
+            <Button size="sm">
+              <Plus /> Invite
+            </Button>
+          </InviteDialog>
+        </div>
+
+        {!members.length ? (
+          <div className="text-muted-foreground flex flex-col items-center gap-2 rounded-lg border border-dashed p-8 text-center text-sm">
+            <div className="bg-accent rounded-lg p-2">
+              <Users className="text-muted-foreground size-4" />
+            </div>
+            Invite a partner to view or manage your portfolio together
+          </div>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {members.map((member) => (
+              <div
+                key={member.id}
+                className="flex items-center justify-between gap-4 p-3 text-sm"
+              >
+                <div className="flex min-w-0 items-center gap-2">
+                  <ProfileAvatar profile={member.member} />
+                  <div className="min-w-0">
+                    <p className="truncate font-medium">
+                      {member.member?.username ?? member.email}
+                    </p>
+                    <p className="text-muted-foreground truncate">
+                      {member.email}
+                    </p>
+                  </div>
+                  {!member.accepted_at && (
+                    <Badge variant="outline">Pending</Badge>
+                  )}
+                </div>
+                <div className="flex flex-none items-center gap-1">
+                  <Select
+                    value={member.role}
+                    onValueChange={(role) =>
+                      run(member.id, () =>
+                        updatePortfolioMemberRole(
+                          member.id,
+                          role as PortfolioMemberRole,
+                        ),
+                      )
+                    }
+                    disabled={busyId === member.id}
+                  >
+                    <SelectTrigger size="sm" aria-label="Role">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent align="end">
+                      {PORTFOLIO_MEMBER_ROLES.map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {ROLE_LABELS[role]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {!member.accepted_at && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-8"
+                      aria-label="Copy invite link"
+                      onClick={() => handleCopy(member)}
+                    >
+                      {copiedId === member.id ? <Check /> : <Link2 />}
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive size-8"
+                    aria-label={member.accepted_at ? "Remove" : "Revoke"}
+                    disabled={busyId === member.id}
+                    onClick={() =>
+                      run(member.id, () => deletePortfolioMember(member.id))
+                    }
+                  >
+                    <Trash2 />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Portfolios shared with the user */}
+      {sharedPortfolios.length > 0 && (
+        <div className="space-y-2">
+          <div>
+            <h2 className="font-semibold">Shared with you</h2>
+            <p className="text-muted-foreground text-sm">
+              Switch to these portfolios from the sidebar
+            </p>
+          </div>
+          <div className="divide-y rounded-md border">
+            {sharedPortfolios.map((portfolio) => (
+              <div
+                key={portfolio.id}
+                className="flex items-center justify-between gap-4 p-3 text-sm"
+              >
+                <div className="flex min-w-0 items-center gap-2">
+                  <ProfileAvatar profile={portfolio.owner} />
+                  <span className="truncate font-medium">
+                    {portfolio.owner.username ?? "Member"}&apos;s portfolio
+                  </span>
+                  <Badge variant="secondary">
+                    {ROLE_LABELS[portfolio.role]}
+                  </Badge>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive"
+                  disabled={busyId === portfolio.id}
+                  onClick={() =>
+                    run(portfolio.id, () => deletePortfolioMember(portfolio.id))
+                  }
+                >
+                  <LogOut /> Leave
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
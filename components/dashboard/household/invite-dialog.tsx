@@ -0,0 +1,223 @@
+"use client";
+
+import { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { toast } from "sonner";
+import { Check, Copy } from "lucide-react";
+
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupButton,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+
+import { invitePortfolioMember } from "@/server/portfolio-members/create";
+
+import { useCopyToClipboard } from "@/hooks/use-copy-to-clipboard";
+
+import { PORTFOLIO_MEMBER_ROLES } from "@/types/enums";
+import type { PortfolioMemberRole } from "@/types/global.types";
+
+export const ROLE_LABELS: Record<PortfolioMemberRole, string> = {
+  viewer: "Viewer",
+  editor: "Editor",
+};
+
+export const ROLE_DESCRIPTIONS: Record<PortfolioMemberRole, string> = {
+  viewer: "Can see your positions, records and analysis",
+  editor: "Can also add and change positions and records",
+};
+
+const formSchema = z.object({
+  email: z.email({ error: "Please enter a valid email address." }).trim(),
+  role: z.enum(PORTFOLIO_MEMBER_ROLES),
+});
+
+export function InviteDialog({ children }: { children: React.ReactNode }) {
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+
+  const { copyToClipboard, isCopied } = useCopyToClipboard();
+
+  const form = useForm({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      email: "",
+      role: "viewer" as PortfolioMemberRole,
+    },
+  });
+
+  function handleOpenChange(nextOpen: boolean) {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      form.reset();
+      setInviteUrl(null);
+    }
+  }
+
+  // Submit handler
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    setIsLoading(true);
+    try {
+      const formData = new FormData();
+      formData.append("email", values.email.toLowerCase());
+      formData.append("role", values.role);
+
+      const result = await invitePortfolioMember(formData);
+
+      // Handle error response from server action
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      toast.success(`Invitation sent to ${values.email}`);
+      setInviteUrl(result.inviteUrl);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to send invitation",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Invite to your portfolio</DialogTitle>
+          <DialogDescription>
+            Share your portfolio with a partner or family member who has a
+            Foliofox account.
+          </DialogDescription>
+        </DialogHeader>
+
+        {inviteUrl ? (
+          <div className="space-y-4">
+            <p className="text-sm">
+              We emailed the invitation. You can also send them this link:
+            </p>
+            <InputGroup>
+              <InputGroupInput value={inviteUrl} readOnly />
+              <InputGroupAddon align="inline-end">
+                <InputGroupButton
+                  variant="secondary"
+                  onClick={() => copyToClipboard(inviteUrl)}
+                >
+                  {isCopied ? (
+                    <Check className="size-4" />
+                  ) : (
+                    <Copy className="size-4" />
+                  )}
+                  Copy
+                </InputGroupButton>
+              </InputGroupAddon>
+            </InputGroup>
+            <div className="flex justify-end">
+              <Button onClick={() => handleOpenChange(false)}>Done</Button>
+            </div>
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-4">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input placeholder="partner@example.com" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Role</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {PORTFOLIO_MEMBER_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {ROLE_LABELS[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      {ROLE_DESCRIPTIONS[field.value]}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* Footer - Action buttons */}
+              <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+                <Button
+                  onClick={() => handleOpenChange(false)}
+                  disabled={isLoading}
+                  type="button"
+                  variant="secondary"
+                >
+                  Cancel
+                </Button>
+                <Button disabled={isLoading} type="submit">
+                  {isLoading ? (
+                    <>
+                      <Spinner />
+                      Sending...
+                    </>
+                  ) : (
+                    "Send invitation"
+                  )}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+import { useDashboardData } from "@/components/dashboard/dashboard-data-provider";
+import { setSelectedAccount } from "@/server/accounts/update";
+
+// Select values that aren't account IDs
+const ALL_ACCOUNTS = "all";
+const MANAGE_ACCOUNTS = "manage";
+
+/**
+ * Filter the dashboard by account. Hidden until the user has accounts;
+ * the consolidated view is the default.
+ */
+export function AccountSwitcher() {
+  const router = useRouter();
+  const { accounts, selectedAccountId } = useDashboardData();
+  const [isLoading, setIsLoading] = useState(false);
+
+  if (!accounts.length) return null;
+
+  async function handleChange(value: string) {
+    if (value === MANAGE_ACCOUNTS) {
+      router.push("/dashboard/accounts");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await setSelectedAccount(value === ALL_ACCOUNTS ? null : value);
+    } catch {
+      toast.error("Failed to switch account");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Select
+      value={selectedAccountId ?? ALL_ACCOUNTS}
+      onValueChange={handleChange}
+      disabled={isLoading}
+    >
+      <SelectTrigger className="max-w-48" aria-label="Account">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent align="end">
+        <SelectItem value={ALL_ACCOUNTS}>All accounts</SelectItem>
+        {accounts.map((account) => (
+          <SelectItem key={account.id} value={account.id}>
+            {account.name}
+          </SelectItem>
+        ))}
+        <SelectSeparator />
+        <SelectItem value={MANAGE_ACCOUNTS}>Manage accounts</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
@@ -1,6 +1,6 @@
 import { Suspense } from "react";
 
-import { Loader2 } from "lucide-react";
+import { Bell, Loader2 } from "lucide-react";
 
 import { SidebarTrigger } from "@/components/ui/custom/sidebar";
 import { Button } from "@/components/ui/button";
@@ -12,9 +12,11 @@ import {
 
 import { Breadcrumb } from "./breadcrumb";
 import { NewActionButton } from "./new-action-button";
+import { AccountSwitcher } from "./account-switcher";
 import { FeedbackButton } from "@/components/dashboard/layout/header/feedback";
 import { ThemeToggle } from "@/components/features/theme/theme-toggle";
 import { SharePortfolioButton } from "@/components/dashboard/share-portfolio";
+import { NotificationsButton } from "@/components/dashboard/notifications";
 
 export function Header() {
   return (
@@ -33,6 +35,7 @@ export function Header() {
         </div>
       </div>
       <div className="flex items-center gap-2">
+        <AccountSwitcher />
         <NewActionButton />
         <Suspense
           fallback={
@@ -44,6 +47,15 @@ export function Header() {
         >
           <SharePortfolioButton />
         </Suspense>
+        <Suspense
+          fallback={
+            <Button variant="outline" size="icon" disabled>
+              <Bell />
+            </Button>
+          }
+        >
+          <NotificationsButton />
+        </Suspense>
         <FeedbackButton />
         <ThemeToggle />
         <Tooltip delayDuration={500}>
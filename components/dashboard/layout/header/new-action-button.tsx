@@ -12,10 +12,17 @@ import { Button } from "@/components/ui/button";
 
 import { useNewPortfolioRecordDialog } from "@/components/dashboard/new-portfolio-record";
 import { useNewAssetDialog } from "@/components/dashboard/new-asset";
+import { useNewLiabilityDialog } from "@/components/dashboard/new-liability";
+import { useDashboardData } from "@/components/dashboard/dashboard-data-provider";
 
 export function NewActionButton() {
   const { setOpen: setOpenNewPortfolioRecord } = useNewPortfolioRecordDialog();
   const { setOpenSelectionDialog: setOpenNewAsset } = useNewAssetDialog();
+  const { setOpen: setOpenNewLiability } = useNewLiabilityDialog();
+  const { activePortfolio } = useDashboardData();
+
+  // Viewers of a shared portfolio can't add to it
+  if (activePortfolio.access === "viewer") return null;
 
   return (
     <DropdownMenu>
@@ -25,13 +32,16 @@ export function NewActionButton() {
           New
         </Button>
       </DropdownMenuTrigger>
-      <DropdownMenuContent align="end" className="w-32">
+      <DropdownMenuContent align="end" className="w-36">
         <DropdownMenuItem onSelect={() => setOpenNewPortfolioRecord(true)}>
           New Record
         </DropdownMenuItem>
         <DropdownMenuItem onSelect={() => setOpenNewAsset(true)}>
           New Asset
         </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => setOpenNewLiability(true)}>
+          New Liability
+        </DropdownMenuItem>
       </DropdownMenuContent>
     </DropdownMenu>
   );
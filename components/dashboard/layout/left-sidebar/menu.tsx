@@ -2,7 +2,16 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { Home, TrendingUp } from "lucide-react";
+import {
+  Bell,
+  Dices,
+  Home,
+  Landmark,
+  TrendingUp,
+  Users,
+  WalletCards,
+  Webhook,
+} from "lucide-react";
 
 import {
   SidebarMenu as UISidebarMenu,
@@ -23,6 +32,36 @@ const items = [
     url: "/dashboard/assets",
     icon: TrendingUp,
   },
+  {
+    title: "Liabilities",
+    url: "/dashboard/liabilities",
+    icon: Landmark,
+  },
+  {
+    title: "Accounts",
+    url: "/dashboard/accounts",
+    icon: WalletCards,
+  },
+  {
+    title: "Household",
+    url: "/dashboard/household",
+    icon: Users,
+  },
+  {
+    title: "Retirement",
+    url: "/dashboard/simulation",
+    icon: Dices,
+  },
+  {
+    title: "Alerts",
+    url: "/dashboard/alerts",
+    icon: Bell,
+  },
+  {
+    title: "Webhooks",
+    url: "/dashboard/webhooks",
+    icon: Webhook,
+  },
 ];
 
 export function Menu() {
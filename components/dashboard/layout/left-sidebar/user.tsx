@@ -1,15 +1,94 @@
 "use client";
 
+import { useState } from "react";
+import { useRouter } from "next/navigation";
 import { MoreVertical } from "lucide-react";
+import { toast } from "sonner";
 
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { SidebarMenuButton, useSidebar } from "@/components/ui/custom/sidebar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { UserMenu } from "@/components/features/user/user-menu";
 import { usePrivacyMode } from "@/components/dashboard/privacy-mode-provider";
 import { useDashboardData } from "@/components/dashboard/dashboard-data-provider";
 
+import { setActivePortfolio } from "@/server/portfolio-members/update";
+
 import { formatCurrency } from "@/lib/number-format";
 
+// Select values that aren't portfolio owner IDs
+const OWN_PORTFOLIO = "own";
+const MANAGE_HOUSEHOLD = "manage";
+
+/**
+ * Switch between the own portfolio and the ones shared with the user.
+ * Hidden until someone shares a portfolio with them.
+ */
+function PortfolioSwitcher() {
+  const router = useRouter();
+  const { profile, sharedPortfolios, activePortfolio } = useDashboardData();
+  const [isLoading, setIsLoading] = useState(false);
+
+  if (!sharedPortfolios.length) return null;
+
+  async function handleChange(value: string) {
+    if (value === MANAGE_HOUSEHOLD) {
+      router.push("/dashboard/household");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await setActivePortfolio(value === OWN_PORTFOLIO ? null : value);
+      router.push("/dashboard");
+    } catch {
+      toast.error("Failed to switch portfolio");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Select
+      value={
+        activePortfolio.access === "owner"
+          ? OWN_PORTFOLIO
+          : activePortfolio.ownerId
+      }
+      onValueChange={handleChange}
+      disabled={isLoading}
+    >
+      <SelectTrigger
+        size="sm"
+        className="w-full group-data-[state=collapsed]:hidden"
+        aria-label="Portfolio"
+      >
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={OWN_PORTFOLIO}>
+          My portfolio ({profile.username ?? "you"})
+        </SelectItem>
+        {sharedPortfolios.map(({ owner, role }) => (
+          <SelectItem key={owner.user_id} value={owner.user_id}>
+            {owner.username ?? "Shared"}&apos;s portfolio
+            <span className="text-muted-foreground capitalize">{role}</span>
+          </SelectItem>
+        ))}
+        <SelectSeparator />
+        <SelectItem value={MANAGE_HOUSEHOLD}>Manage household</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
+
 export function User() {
   const { profile, netWorth } = useDashboardData();
   const { isMobile } = useSidebar();
@@ -20,25 +99,28 @@ export function User() {
   const initial = username.slice(0, 1);
 
   return (
-    <UserMenu menuSide={isMobile ? "bottom" : "right"} menuAlign="start">
-      <SidebarMenuButton
-        size="lg"
-        className="data-[state=open]:bg-sidebar-accent data-[state=open]:text-sidebar-accent-foreground flex items-center gap-2"
-      >
-        <Avatar className="size-10 group-data-[state=collapsed]:size-8">
-          <AvatarImage src={avatarUrl} alt={username} />
-          <AvatarFallback className="uppercase">{initial}</AvatarFallback>
-        </Avatar>
-        <div className="flex flex-col">
-          <p className="text truncate font-semibold">{username}</p>
-          <span className="text-muted-foreground truncate text-xs tabular-nums">
-            {isPrivacyMode
-              ? "* * * * * * * *"
-              : formatCurrency(netWorth, profile.display_currency)}
-          </span>
-        </div>
-        <MoreVertical className="ml-auto size-4" />
-      </SidebarMenuButton>
-    </UserMenu>
+    <div className="flex flex-col gap-2">
+      <UserMenu menuSide={isMobile ? "bottom" : "right"} menuAlign="start">
+        <SidebarMenuButton
+          size="lg"
+          className="data-[state=open]:bg-sidebar-accent data-[state=open]:text-sidebar-accent-foreground flex items-center gap-2"
+        >
+          <Avatar className="size-10 group-data-[state=collapsed]:size-8">
+            <AvatarImage src={avatarUrl} alt={username} />
+            <AvatarFallback className="uppercase">{initial}</AvatarFallback>
+          </Avatar>
+          <div className="flex flex-col">
+            <p className="text truncate font-semibold">{username}</p>
+            <span className="text-muted-foreground truncate text-xs tabular-nums">
+              {isPrivacyMode
+                ? "* * * * * * * *"
+                : formatCurrency(netWorth, profile.display_currency)}
+            </span>
+          </div>
+          <MoreVertical className="ml-auto size-4" />
+        </SidebarMenuButton>
+      </UserMenu>
+      <PortfolioSwitcher />
+    </div>
   );
 }
@@ -1,25 +1,83 @@
-import { Info } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { Info, WifiOff } from "lucide-react";
 
+import { Badge } from "@/components/ui/badge";
+import { formatRateIssue } from "@/components/dashboard/rate-issues-badge";
 import {
   Tooltip,
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 
-export function MarketDataDisclaimer() {
+import type { ConversionIssue } from "@/lib/currency-conversion";
+import type { OfflineDataStatus } from "@/server/offline/status";
+
+function formatDataDate(dateKey: string | null) {
+  return dateKey ? format(parseISO(dateKey), "MMM d, yyyy") : "none";
+}
+
+export function MarketDataDisclaimer({
+  offlineStatus = null,
+  rateIssues = [],
+}: {
+  offlineStatus?: OfflineDataStatus | null;
+  rateIssues?: ConversionIssue[];
+}) {
+  const staleNotes = [
+    ...(offlineStatus?.staleTickers.length
+      ? [`No recent prices for ${offlineStatus.staleTickers.join(", ")}.`]
+      : []),
+    ...(offlineStatus?.exchangeRatesStale
+      ? ["The exchange rate files are out of date."]
+      : []),
+    ...rateIssues.map(formatRateIssue),
+  ];
+
   return (
     <div className="text-muted-foreground flex items-center gap-1.5">
       <Tooltip>
         <TooltipTrigger asChild>
-          <Info className="size-3.5" />
+          {offlineStatus ? (
+            <WifiOff className="size-3.5" />
+          ) : (
+            <Info className="size-3.5" />
+          )}
         </TooltipTrigger>
         <TooltipContent side="bottom">
-          Market prices and exchange rates are updated daily at 10:00 PM UTC.
-          <br />
-          Data shown is from the previous trading day.
+          {offlineStatus ? (
+            <>
+              Offline mode: market data comes from local files.
+              <br />
+              Prices up to {formatDataDate(offlineStatus.pricesDate)}, exchange
+              rates up to {formatDataDate(offlineStatus.exchangeRatesDate)}.
+            </>
+          ) : (
+            <>
+              Market prices and exchange rates are updated daily at 10:00 PM
+              UTC.
+              <br />
+              Data shown is from the previous trading day.
+            </>
+          )}
         </TooltipContent>
       </Tooltip>
-      <p className="text-xs">10:00 PM UTC · One day behind</p>
+      <p className="text-xs">
+        {offlineStatus
+          ? `Offline · Prices ${formatDataDate(offlineStatus.pricesDate)}`
+          : "10:00 PM UTC · One day behind"}
+      </p>
+      {staleNotes.length > 0 && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Badge className="bg-amber-600/10 text-amber-600">Stale data</Badge>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            {staleNotes.map((note) => (
+              <p key={note}>{note}</p>
+            ))}
+          </TooltipContent>
+        </Tooltip>
+      )}
     </div>
   );
 }
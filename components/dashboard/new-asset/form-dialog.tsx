@@ -7,6 +7,8 @@ import {
 } from "@/components/ui/dialog";
 import { SymbolSearchForm } from "./forms/symbol-search-form";
 import { DomainForm } from "./forms/domain-form";
+import { WalletForm } from "./forms/wallet-form";
+import { PropertyForm } from "./forms/property-form";
 import { ManualEntryForm } from "./forms/manual-entry-form";
 
 import { useNewAssetDialog } from "./index";
@@ -26,6 +28,8 @@ export function FormDialog() {
         </DialogHeader>
         {selectedType === "symbol" && <SymbolSearchForm />}
         {selectedType === "domain" && <DomainForm />}
+        {selectedType === "wallet" && <WalletForm />}
+        {selectedType === "property" && <PropertyForm />}
         {selectedType === "custom" && <ManualEntryForm />}
       </DialogContent>
     </Dialog>
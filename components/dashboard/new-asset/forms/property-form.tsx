@@ -0,0 +1,284 @@
+"use client";
+
+import { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { format } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+  FormDescription,
+} from "@/components/ui/form";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Spinner } from "@/components/ui/spinner";
+import { CurrencySelector } from "@/components/dashboard/currency-selector";
+
+import { useNewAssetDialog } from "../index";
+
+import { cn } from "@/lib/utils";
+import { requiredNumberWithConstraints } from "@/lib/zod-helpers";
+
+import { createProperty } from "@/server/properties/create";
+
+const formSchema = z.object({
+  name: z
+    .string()
+    .min(3, { error: "Name must be at least 3 characters." })
+    .max(64, { error: "Name must not exceed 64 characters." }),
+  address: z
+    .string()
+    .max(256, { error: "Address must not exceed 256 characters." })
+    .optional(),
+  currency: z.string().length(3),
+  date: z.date({ error: "A date is required." }),
+  value: requiredNumberWithConstraints("Value is required.", {
+    gte: { value: 0, error: "Value must be 0 or greater." },
+  }),
+  description: z
+    .string()
+    .max(256, {
+      error: "Description must not exceed 256 characters.",
+    })
+    .optional(),
+});
+
+export function PropertyForm() {
+  // Props destructuring and context hooks
+  const { setOpenFormDialog, setOpenSelectionDialog, profile } =
+    useNewAssetDialog();
+
+  // State declarations
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Form setup
+  const form = useForm({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: "",
+      address: "",
+      currency: profile.display_currency,
+      date: new Date(),
+      value: "",
+      description: "",
+    },
+  });
+
+  // Submit handler
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    setIsLoading(true);
+    try {
+      const formData = new FormData();
+      formData.append("name", values.name);
+      formData.append("currency", values.currency);
+      formData.append("date", format(values.date, "yyyy-MM-dd"));
+      formData.append("value", values.value.toString());
+
+      // Only append optional fields if they exist
+      if (values.address) {
+        formData.append("address", values.address);
+      }
+      if (values.description) {
+        formData.append("description", values.description);
+      }
+
+      const result = await createProperty(formData);
+
+      // Handle error response from server action
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      toast.success("Asset created successfully");
+      form.reset();
+      setOpenFormDialog(false);
+      setOpenSelectionDialog(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to create a new asset",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-4">
+        {/* Name */}
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="E.g., Family home" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Address */}
+        <FormField
+          control={form.control}
+          name="address"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Address (optional)</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="E.g., 221B Baker Street, London"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid items-start gap-x-2 gap-y-4 sm:grid-cols-2">
+          {/* Appraisal date */}
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Appraisal date</FormLabel>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <FormControl>
+                      <Button
+                        variant="outline"
+                        className={cn(
+                          "text-left font-normal",
+                          !field.value && "text-muted-foreground",
+                        )}
+                      >
+                        {field.value ? (
+                          format(field.value, "PPP")
+                        ) : (
+                          <span>Pick a date</span>
+                        )}
+                        <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                      </Button>
+                    </FormControl>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="single"
+                      selected={field.value}
+                      onSelect={field.onChange}
+                      disabled={(date) =>
+                        date > new Date() || date < new Date("1900-01-01")
+                      }
+                      autoFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {/* Currency */}
+          <FormField
+            control={form.control}
+            name="currency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Currency</FormLabel>
+                <FormControl>
+                  <CurrencySelector field={field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* Appraised value */}
+        <FormField
+          control={form.control}
+          name="value"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Appraised value</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="E.g., 350000"
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  step="any"
+                  {...field}
+                  value={field.value as number}
+                />
+              </FormControl>
+              <FormDescription>
+                Your purchase price or latest valuation. Add later appraisals or
+                a regional price index to keep the value up to date.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Description */}
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description (optional)</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="Add a description of this asset"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Footer - Action buttons */}
+        <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+          <Button
+            onClick={() => setOpenFormDialog(false)}
+            disabled={isLoading}
+            type="button"
+            variant="secondary"
+          >
+            Cancel
+          </Button>
+          <Button disabled={isLoading} type="submit">
+            {isLoading ? (
+              <>
+                <Spinner />
+                Saving...
+              </>
+            ) : (
+              "Add Asset"
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,344 @@
+"use client";
+
+import { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Search } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+  FormDescription,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import {
+  InputGroup,
+  InputGroupInput,
+  InputGroupAddon,
+  InputGroupButton,
+} from "@/components/ui/input-group";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+import { CurrencySelector } from "@/components/dashboard/currency-selector";
+
+import { useNewAssetDialog } from "../index";
+
+import {
+  WALLET_CHAINS,
+  WALLET_CHAIN_IDS,
+  isValidWalletAddress,
+  normalizeWalletAddress,
+} from "@/lib/crypto-wallets";
+import { formatCurrency } from "@/lib/number-format";
+
+import { fetchSingleWalletValuation } from "@/server/crypto-wallets/fetch";
+import { createPosition } from "@/server/positions/create";
+
+const formSchema = z
+  .object({
+    chain: z.enum(WALLET_CHAIN_IDS, { error: "A chain is required." }),
+    address: z.string().trim().min(1, { error: "Address is required." }),
+    name: z
+      .string()
+      .min(3, { error: "Name must be at least 3 characters." })
+      .max(64, { error: "Name must not exceed 64 characters." }),
+    currency: z.string().length(3),
+    description: z
+      .string()
+      .max(256, {
+        error: "Description must not exceed 256 characters.",
+      })
+      .optional(),
+  })
+  .refine((values) => isValidWalletAddress(values.chain, values.address), {
+    path: ["address"],
+    error: "Invalid address for this chain.",
+  });
+
+export function WalletForm() {
+  // Props destructuring and context hooks
+  const { setOpenFormDialog, setOpenSelectionDialog, profile } =
+    useNewAssetDialog();
+
+  // State declarations
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCheckingValuation, setIsCheckingValuation] = useState(false);
+  const [valuation, setValuation] = useState<number | null>(null);
+
+  // Form setup and derived state
+  const form = useForm({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      chain: "bitcoin",
+      address: "",
+      name: "",
+      currency: profile.display_currency,
+      description: "",
+    },
+  });
+
+  // Watch form values
+  const chain = form.watch("chain");
+  const address = form.watch("address");
+  const currency = form.watch("currency");
+
+  // Check if address is valid for the balance lookup
+  const isAddressValid = Boolean(
+    address && isValidWalletAddress(chain, address),
+  );
+
+  // Check wallet valuation
+  async function checkWalletValuation() {
+    if (!isAddressValid) return null;
+
+    setIsCheckingValuation(true);
+    try {
+      const value = await fetchSingleWalletValuation(
+        {
+          chain,
+          address: normalizeWalletAddress(chain, address),
+          currency,
+        },
+        { upsert: false },
+      );
+      setValuation(value);
+      return value;
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch wallet balance. Please try again.",
+      );
+      return null;
+    } finally {
+      setIsCheckingValuation(false);
+    }
+  }
+
+  // Submit handler
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    setIsLoading(true);
+    try {
+      const currentValuation = await checkWalletValuation();
+
+      const formData = new FormData();
+      formData.append("name", values.name);
+      formData.append("wallet_chain", values.chain);
+      formData.append("wallet_address", values.address);
+      formData.append("category_id", "cryptocurrency");
+      formData.append("currency", values.currency);
+      formData.append("quantity", "1");
+      formData.append("unit_value", String(currentValuation ?? 0));
+
+      // Only append description if it exists
+      if (values.description) {
+        formData.append("description", values.description);
+      }
+
+      const result = await createPosition(formData);
+
+      // Handle error response from server action
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      toast.success("Asset created successfully");
+      form.reset();
+      setOpenFormDialog(false);
+      setOpenSelectionDialog(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to create a new asset",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-4">
+        <div className="grid items-start gap-x-2 gap-y-4 sm:grid-cols-2">
+          {/* Chain */}
+          <FormField
+            control={form.control}
+            name="chain"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Chain</FormLabel>
+                <Select
+                  onValueChange={(value) => {
+                    field.onChange(value);
+                    setValuation(null);
+                  }}
+                  value={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select chain" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {WALLET_CHAIN_IDS.map((id) => (
+                      <SelectItem key={id} value={id}>
+                        {WALLET_CHAINS[id].name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {/* Currency */}
+          <FormField
+            control={form.control}
+            name="currency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Currency</FormLabel>
+                <FormControl>
+                  <CurrencySelector
+                    field={{
+                      ...field,
+                      onChange: (value: string) => {
+                        field.onChange(value);
+                        setValuation(null);
+                      },
+                    }}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* Address */}
+        <FormField
+          control={form.control}
+          name="address"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor={field.name}>Address</FormLabel>
+              <FormControl>
+                <InputGroup>
+                  <InputGroupInput
+                    id={field.name}
+                    disabled={isCheckingValuation}
+                    placeholder={
+                      chain === "ethereum" ? "E.g., 0x71C7…976F" : "E.g., bc1q…"
+                    }
+                    {...field}
+                    onChange={(e) => {
+                      field.onChange(e.target.value.trim());
+                      setValuation(null);
+                    }}
+                  />
+                  <InputGroupAddon align="inline-end">
+                    <InputGroupButton
+                      variant="secondary"
+                      onClick={checkWalletValuation}
+                      disabled={!isAddressValid || isCheckingValuation}
+                    >
+                      {isCheckingValuation ? <Spinner /> : <Search />}
+                      Check balance
+                    </InputGroupButton>
+                  </InputGroupAddon>
+                </InputGroup>
+              </FormControl>
+              <FormDescription>
+                Public address only. The balance is read from the chain, never
+                share your private keys or seed phrase.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Valuation display */}
+        {valuation !== null && (
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Current value</p>
+            <p className="font-semibold text-green-600">
+              {formatCurrency(valuation, currency)}
+            </p>
+            <p className="text-muted-foreground text-sm">
+              The wallet value follows its on-chain balance and the{" "}
+              {WALLET_CHAINS[chain].name} price.
+            </p>
+          </div>
+        )}
+
+        {/* Name */}
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="E.g., Cold storage" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Description */}
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description (optional)</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="Add a description of this asset"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Footer - Action buttons */}
+        <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+          <Button
+            onClick={() => setOpenFormDialog(false)}
+            disabled={isLoading}
+            type="button"
+            variant="secondary"
+          >
+            Cancel
+          </Button>
+          <Button disabled={isLoading || !isAddressValid} type="submit">
+            {isLoading ? (
+              <>
+                <Spinner />
+                Saving...
+              </>
+            ) : (
+              "Add Asset"
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -17,7 +17,12 @@ import { useDashboardData } from "@/components/dashboard/dashboard-data-provider
 import type { Profile } from "@/types/global.types";
 import type { VariantProps } from "class-variance-authority";
 
-export type SelectionType = "symbol" | "domain" | "custom";
+export type SelectionType =
+  | "symbol"
+  | "domain"
+  | "wallet"
+  | "property"
+  | "custom";
 
 type NewAssetDialogContextType = {
   openSelectionDialog: boolean;
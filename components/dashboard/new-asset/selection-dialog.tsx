@@ -1,4 +1,11 @@
-import { ChartLine, Globe, PencilLine, Sparkles } from "lucide-react";
+import {
+  ChartLine,
+  Globe,
+  House,
+  PencilLine,
+  Sparkles,
+  Wallet,
+} from "lucide-react";
 
 import { FormDialog } from "./form-dialog";
 import { useNewAssetDialog } from "./index";
@@ -36,7 +43,8 @@ function SelectionCard({
 
 export function SelectionDialog() {
   const { setOpenFormDialog, setSelectedType } = useNewAssetDialog();
-  const { setOpen: setOpenImportDialog } = useImportPositionsDialog();
+  const { setOpen: setOpenImportDialog, setPositionType } =
+    useImportPositionsDialog();
 
   const handleSelect = (type: SelectionType) => {
     setSelectedType(type);
@@ -58,6 +66,18 @@ export function SelectionDialog() {
           icon={Globe}
           onClick={() => handleSelect("domain")}
         />
+        <SelectionCard
+          title="Crypto Wallet"
+          description="Track a Bitcoin or Ethereum wallet by its public address"
+          icon={Wallet}
+          onClick={() => handleSelect("wallet")}
+        />
+        <SelectionCard
+          title="Real Estate"
+          description="Track a property from its appraisals and a regional price index"
+          icon={House}
+          onClick={() => handleSelect("property")}
+        />
         <SelectionCard
           title="Custom"
           description="Enter quantity and value to add a custom asset to your portfolio"
@@ -68,7 +88,10 @@ export function SelectionDialog() {
           title="Import CSV/AI"
           description="Import your assets from files or screenshots"
           icon={Sparkles}
-          onClick={() => setOpenImportDialog(true)}
+          onClick={() => {
+            setPositionType("asset");
+            setOpenImportDialog(true);
+          }}
         />
       </div>
 
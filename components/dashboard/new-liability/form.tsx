@@ -0,0 +1,238 @@
+"use client";
+
+import { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { toast } from "sonner";
+
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+  InputGroupText,
+} from "@/components/ui/input-group";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+import { PositionCategorySelector } from "@/components/dashboard/position-category-selector";
+import { CurrencySelector } from "@/components/dashboard/currency-selector";
+
+import { useNewLiabilityDialog } from "./index";
+
+import { requiredNumberWithConstraints } from "@/lib/zod-helpers";
+
+import { createPosition } from "@/server/positions/create";
+
+const formSchema = z.object({
+  name: z
+    .string()
+    .min(3, { error: "Name must be at least 3 characters." })
+    .max(64, { error: "Name must not exceed 64 characters." }),
+  category_id: z.string().min(1, { error: "Category is required." }),
+  currency: z.string().length(3),
+  balance: requiredNumberWithConstraints("Outstanding balance is required.", {
+    gte: { value: 0, error: "Balance must be 0 or greater." },
+  }),
+  description: z
+    .string()
+    .max(256, {
+      error: "Description must not exceed 256 characters.",
+    })
+    .optional(),
+});
+
+export function NewLiabilityForm() {
+  const { setOpen, profile } = useNewLiabilityDialog();
+
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: "",
+      category_id: "",
+      currency: profile.display_currency,
+      balance: "",
+      description: "",
+    },
+  });
+
+  // Get isDirty state from formState
+  const { isDirty } = form.formState;
+
+  // Submit handler
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    setIsLoading(true);
+    try {
+      // Liabilities are tracked as a single unit valued at the outstanding balance
+      const formData = new FormData();
+      formData.append("type", "liability");
+      formData.append("name", values.name);
+      formData.append("category_id", values.category_id);
+      formData.append("currency", values.currency);
+      formData.append("quantity", "1");
+      formData.append("unit_value", values.balance.toString());
+
+      // Only append description if it exists
+      if (values.description) {
+        formData.append("description", values.description);
+      }
+
+      const result = await createPosition(formData);
+
+      // Handle error response from server action
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      toast.success("Liability created successfully");
+      form.reset();
+      setOpen(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to create a new liability",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-4">
+        {/* Name */}
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="E.g., Home Mortgage, Car Loan, Amex Gold"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Category */}
+        <FormField
+          control={form.control}
+          name="category_id"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Category</FormLabel>
+              <FormControl>
+                <PositionCategorySelector
+                  field={field}
+                  positionType="liability"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid items-start gap-x-2 gap-y-4 sm:grid-cols-2">
+          {/* Currency */}
+          <FormField
+            control={form.control}
+            name="currency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Currency</FormLabel>
+                <FormControl>
+                  <CurrencySelector field={field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {/* Outstanding balance */}
+          <FormField
+            control={form.control}
+            name="balance"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel htmlFor={field.name}>Outstanding balance</FormLabel>
+                <FormControl>
+                  <InputGroup>
+                    <InputGroupInput
+                      id={field.name}
+                      placeholder="E.g., 250000"
+                      type="number"
+                      inputMode="decimal"
+                      min={0}
+                      step="any"
+                      {...field}
+                      value={field.value as number}
+                    />
+                    <InputGroupAddon align="inline-end">
+                      <InputGroupText>{form.watch("currency")}</InputGroupText>
+                    </InputGroupAddon>
+                  </InputGroup>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* Description */}
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description (optional)</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="Add a description of this liability"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Footer - Action buttons */}
+        <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+          <Button
+            onClick={() => setOpen(false)}
+            disabled={isLoading}
+            type="button"
+            variant="secondary"
+          >
+            Cancel
+          </Button>
+          <Button disabled={isLoading || !isDirty} type="submit">
+            {isLoading ? (
+              <>
+                <Spinner />
+                Saving...
+              </>
+            ) : (
+              "Add Liability"
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { createContext, useContext, useState } from "react";
+import { Plus } from "lucide-react";
+
+import { Button, buttonVariants } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { NewLiabilityForm } from "./form";
+
+import { useDashboardData } from "@/components/dashboard/dashboard-data-provider";
+import type { Profile } from "@/types/global.types";
+import type { VariantProps } from "class-variance-authority";
+
+type NewLiabilityDialogContextType = {
+  open: boolean;
+  setOpen: (open: boolean) => void;
+  profile: Profile;
+};
+
+const NewLiabilityDialogContext = createContext<
+  NewLiabilityDialogContextType | undefined
+>(undefined);
+
+export function NewLiabilityDialogProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const { profile } = useDashboardData();
+  const [open, setOpen] = useState(false);
+
+  return (
+    <NewLiabilityDialogContext.Provider value={{ open, setOpen, profile }}>
+      {children}
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-h-[calc(100dvh-1rem)] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Liability</DialogTitle>
+            <DialogDescription>
+              Add a mortgage, loan, credit card, or other debt
+            </DialogDescription>
+          </DialogHeader>
+          {open && <NewLiabilityForm />}
+        </DialogContent>
+      </Dialog>
+    </NewLiabilityDialogContext.Provider>
+  );
+}
+
+export function useNewLiabilityDialog() {
+  const context = useContext(NewLiabilityDialogContext);
+  if (!context) {
+    throw new Error(
+      "useNewLiabilityDialog must be used within a NewLiabilityDialogProvider",
+    );
+  }
+  return context;
+}
+
+export function NewLiabilityButton({
+  variant = "default",
+}: {
+  variant?: VariantProps<typeof buttonVariants>["variant"];
+}) {
+  const { setOpen } = useNewLiabilityDialog();
+
+  return (
+    <Button variant={variant} onClick={() => setOpen(true)}>
+      <Plus />
+      New Liability
+    </Button>
+  );
+}
@@ -0,0 +1,321 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { format, parseISO } from "date-fns";
+import { CalendarIcon, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Calendar } from "@/components/ui/calendar";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+  InputGroupText,
+} from "@/components/ui/input-group";
+
+import { useNewPortfolioRecordDialog } from "../index";
+
+import { cn } from "@/lib/utils";
+import { formatCurrency } from "@/lib/number-format";
+import { requiredNumberWithConstraints } from "@/lib/zod-helpers";
+
+import { createPropertyAppraisal } from "@/server/properties/create";
+import { deletePropertyAppraisal } from "@/server/properties/delete";
+import { fetchProperty } from "@/server/properties/fetch";
+
+type Appraisal = NonNullable<
+  Awaited<ReturnType<typeof fetchProperty>>
+>["appraisals"][number];
+
+// Form validation schema using Zod
+const formSchema = z.object({
+  date: z.date({ error: "A date is required." }),
+  value: requiredNumberWithConstraints("Value is required.", {
+    gte: { value: 0, error: "Value must be 0 or greater." },
+  }),
+  description: z
+    .string()
+    .max(256, {
+      error: "Description must not exceed 256 characters.",
+    })
+    .optional(),
+});
+
+/**
+ * Record an appraisal of a property position. Values between appraisals are
+ * interpolated by the property market data handler.
+ */
+export function AppraisalForm() {
+  // Get dialog context (preselected position and close function)
+  const { setOpen, preselectedPosition } = useNewPortfolioRecordDialog();
+  const propertyId = preselectedPosition?.property_id ?? null;
+
+  // Local state
+  const [isLoading, setIsLoading] = useState(false);
+  const [appraisals, setAppraisals] = useState<Appraisal[]>([]);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  // Initialize form with React Hook Form
+  const form = useForm({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      date: new Date(),
+      value: preselectedPosition?.current_unit_value || "",
+      description: "",
+    },
+  });
+
+  // Load existing appraisals of the property
+  const loadAppraisals = useCallback(async () => {
+    if (!propertyId) return;
+    try {
+      const property = await fetchProperty(propertyId);
+      setAppraisals(property?.appraisals ?? []);
+    } catch {
+      setAppraisals([]);
+    }
+  }, [propertyId]);
+
+  useEffect(() => {
+    loadAppraisals();
+  }, [loadAppraisals]);
+
+  // Delete an appraisal
+  async function handleDelete(appraisalId: string) {
+    setDeletingId(appraisalId);
+    try {
+      const result = await deletePropertyAppraisal(appraisalId);
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+      toast.success("Appraisal deleted");
+      await loadAppraisals();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete appraisal",
+      );
+    } finally {
+      setDeletingId(null);
+    }
+  }
+
+  // Submit handler
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    if (!propertyId) {
+      toast.error("No property selected!");
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const formData = new FormData();
+      formData.append("property_id", propertyId);
+      formData.append("date", format(values.date, "yyyy-MM-dd"));
+      formData.append("value", values.value.toString());
+
+      // Only add description if provided
+      if (values.description) {
+        formData.append("description", values.description);
+      }
+
+      const result = await createPropertyAppraisal(formData);
+
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      toast.success("Appraisal saved successfully");
+      form.reset();
+      setOpen(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to save appraisal. Please try again.",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        className="grid gap-x-2 gap-y-4"
+      >
+        <div className="grid items-start gap-x-2 gap-y-4 sm:grid-cols-2">
+          {/* Date picker field */}
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Appraisal date</FormLabel>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <FormControl>
+                      <Button
+                        variant="outline"
+                        className={cn(
+                          "text-left font-normal",
+                          !field.value && "text-muted-foreground",
+                        )}
+                      >
+                        {field.value ? (
+                          format(field.value, "PPP")
+                        ) : (
+                          <span>Pick a date</span>
+                        )}
+                        <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                      </Button>
+                    </FormControl>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="single"
+                      selected={field.value}
+                      onSelect={field.onChange}
+                      disabled={(date) =>
+                        date > new Date() || date < new Date("1900-01-01")
+                      }
+                      autoFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {/* Value field */}
+          <FormField
+            control={form.control}
+            name="value"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel htmlFor={field.name}>Appraised value</FormLabel>
+                <FormControl>
+                  <InputGroup>
+                    <InputGroupInput
+                      id={field.name}
+                      placeholder="E.g., 350000"
+                      type="number"
+                      inputMode="decimal"
+                      min={0}
+                      step="any"
+                      {...field}
+                      value={field.value as number}
+                    />
+                    <InputGroupAddon align="inline-end">
+                      <InputGroupText>
+                        {preselectedPosition?.currency || "N/A"}
+                      </InputGroupText>
+                    </InputGroupAddon>
+                  </InputGroup>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* Optional description field */}
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description (optional)</FormLabel>
+              <FormControl>
+                <Input placeholder="E.g., Bank valuation" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Existing appraisals */}
+        {appraisals.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Appraisals</p>
+            <ul className="divide-y rounded-md border text-sm">
+              {appraisals.map((appraisal) => (
+                <li
+                  key={appraisal.id}
+                  className="flex items-center justify-between gap-2 px-3 py-1.5"
+                >
+                  <span className="text-muted-foreground">
+                    {format(parseISO(appraisal.date), "PP")}
+                  </span>
+                  <span className="ml-auto tabular-nums">
+                    {formatCurrency(
+                      appraisal.value,
+                      preselectedPosition?.currency ?? "USD",
+                    )}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    className="size-7 p-0"
+                    onClick={() => handleDelete(appraisal.id)}
+                    disabled={appraisals.length === 1 || deletingId !== null}
+                  >
+                    {deletingId === appraisal.id ? (
+                      <Spinner />
+                    ) : (
+                      <Trash2 className="size-4" />
+                    )}
+                    <span className="sr-only">Delete appraisal</span>
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Action buttons */}
+        <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+          <Button
+            onClick={() => setOpen(false)}
+            disabled={isLoading}
+            type="button"
+            variant="secondary"
+          >
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? (
+              <>
+                <Spinner />
+                Saving...
+              </>
+            ) : (
+              "Save appraisal"
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -27,26 +27,15 @@ import { Calendar } from "@/components/ui/calendar";
 import { Spinner } from "@/components/ui/spinner";
 
 import { useNewPortfolioRecordDialog } from "../index";
+import { NO_SETTLEMENT, SettlementSelector } from "./settlement-selector";
 
 import { cn } from "@/lib/utils";
-import { requiredNumberWithConstraints } from "@/lib/zod-helpers";
+import { tradeRecordSchema } from "@/lib/portfolio-record-schemas";
 
 import { createPortfolioRecord } from "@/server/portfolio-records/create";
 
-const formSchema = z.object({
-  date: z.date({ error: "A date is required." }),
-  quantity: requiredNumberWithConstraints("Quantity is required.", {
-    gt: { value: 0, error: "Quantity must be greater than 0." },
-  }),
-  unit_value: requiredNumberWithConstraints("Unit value is required.", {
-    gt: { value: 0, error: "Value must be greater than 0." },
-  }),
-  description: z
-    .string()
-    .max(256, {
-      error: "Description must not exceed 256 characters.",
-    })
-    .optional(),
+const formSchema = tradeRecordSchema.extend({
+  settlement_position_id: z.string(),
 });
 
 export function BuyForm() {
@@ -64,6 +53,7 @@ export function BuyForm() {
       quantity: "",
       unit_value: "",
       description: "",
+      settlement_position_id: NO_SETTLEMENT,
     },
   });
 
@@ -93,6 +83,14 @@ export function BuyForm() {
         formData.append("description", values.description);
       }
 
+      // Settle against a cash position when one is chosen
+      if (values.settlement_position_id !== NO_SETTLEMENT) {
+        formData.append(
+          "settlement_position_id",
+          values.settlement_position_id,
+        );
+      }
+
       // Create portfolio record using server action
       const result = await createPortfolioRecord(formData);
 
@@ -212,6 +210,24 @@ export function BuyForm() {
           />
         </div>
 
+        {/* Cash settlement */}
+        <FormField
+          control={form.control}
+          name="settlement_position_id"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Pay from cash (optional)</FormLabel>
+              <FormControl>
+                <SettlementSelector
+                  value={field.value}
+                  onChange={field.onChange}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         {/* Description */}
         <FormField
           control={form.control}
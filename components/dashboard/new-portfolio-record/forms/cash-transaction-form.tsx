@@ -0,0 +1,261 @@
+"use client";
+
+import { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { format } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Calendar } from "@/components/ui/calendar";
+import { Spinner } from "@/components/ui/spinner";
+
+import { useNewPortfolioRecordDialog } from "../index";
+
+import { cn } from "@/lib/utils";
+import { cashRecordSchema } from "@/lib/portfolio-record-schemas";
+
+import { createPortfolioRecord } from "@/server/portfolio-records/create";
+
+import { CASH_RECORD_TYPES } from "@/types/enums";
+
+const formSchema = cashRecordSchema;
+
+export function CashTransactionForm() {
+  // Get dialog context (preselected position and close function)
+  const { setOpen, preselectedPosition } = useNewPortfolioRecordDialog();
+
+  // Local state
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Initialize form with React Hook Form
+  const form = useForm({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      type: "deposit",
+      date: new Date(),
+      amount: "",
+      description: "",
+    },
+  });
+
+  // Get form state for validation
+  const { isDirty } = form.formState;
+
+  // Handle form submission
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    if (!preselectedPosition) {
+      toast.error("No position selected!");
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      // Cash is held at a unit value of 1, so the amount is the quantity
+      const formData = new FormData();
+      formData.append("type", values.type);
+      formData.append("position_id", preselectedPosition.id);
+      formData.append("date", format(values.date, "yyyy-MM-dd"));
+      formData.append("quantity", values.amount.toString());
+      formData.append("unit_value", "1");
+
+      // Only add description if provided
+      if (values.description) {
+        formData.append("description", values.description);
+      }
+
+      // Create portfolio record using server action
+      const result = await createPortfolioRecord(formData);
+
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      toast.success("Transaction created successfully");
+      form.reset();
+      setOpen(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to create cash transaction. Please try again.",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        className="grid gap-x-2 gap-y-4"
+      >
+        <div className="grid items-start gap-x-2 gap-y-4 sm:grid-cols-2">
+          {/* Transaction type */}
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Transaction type</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="w-full capitalize">
+                      <SelectValue placeholder="Select transaction type" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {CASH_RECORD_TYPES.map((type) => (
+                      <SelectItem
+                        key={type}
+                        value={type}
+                        className="capitalize"
+                      >
+                        {type}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {/* Date */}
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Date</FormLabel>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <FormControl>
+                      <Button
+                        variant="outline"
+                        className={cn(
+                          "text-left font-normal",
+                          !field.value && "text-muted-foreground",
+                        )}
+                      >
+                        {field.value ? (
+                          format(field.value, "PPP")
+                        ) : (
+                          <span>Pick a date</span>
+                        )}
+                        <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                      </Button>
+                    </FormControl>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="single"
+                      selected={field.value}
+                      onSelect={field.onChange}
+                      disabled={(date) =>
+                        date > new Date() || date < new Date("1900-01-01")
+                      }
+                      autoFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* Amount */}
+        <FormField
+          control={form.control}
+          name="amount"
+          render={({ field }) => (
+            <FormItem className="sm:w-1/2 sm:pr-1">
+              <FormLabel>
+                Amount{" "}
+                {preselectedPosition && `(${preselectedPosition.currency})`}
+              </FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="E.g., 1000"
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  step="any"
+                  {...field}
+                  value={field.value as number}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Description */}
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description (optional)</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="Add any notes about this transaction"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Actions */}
+        <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+          <Button
+            onClick={() => setOpen(false)}
+            disabled={isLoading}
+            type="button"
+            variant="secondary"
+          >
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading || !isDirty}>
+            {isLoading ? (
+              <>
+                <Spinner />
+                Creating...
+              </>
+            ) : (
+              "Create record"
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+
+import { Input } from "@/components/ui/input";
+import { Spinner } from "@/components/ui/spinner";
+
+import { formatNumber } from "@/lib/number-format";
+import type { OpenLot } from "@/lib/lot-matching";
+
+import { fetchOpenLots } from "@/server/realized-gains/fetch";
+
+// Opening balance has no record id
+const OPENING_LOT_KEY = "opening";
+
+export type LotSelectionValue = {
+  lot_record_id: string | null;
+  quantity: number;
+};
+
+interface LotSelectorProps {
+  positionId: string;
+  date: Date;
+  onChange: (selections: LotSelectionValue[]) => void;
+}
+
+/**
+ * Lets the user pick which open lots a sale closes (specific lot method).
+ * Any quantity not allocated here is matched first in, first out.
+ */
+export function LotSelector({ positionId, date, onChange }: LotSelectorProps) {
+  const [lots, setLots] = useState<OpenLot[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  const dateKey = format(date, "yyyy-MM-dd");
+
+  // Load lots open on the sale date
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetchOpenLots(positionId, dateKey)
+      .then((openLots) => {
+        if (cancelled) return;
+        setLots(openLots);
+        setQuantities({});
+        onChange([]);
+      })
+      .catch(() => {
+        if (!cancelled) setLots([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // onChange is intentionally excluded to avoid refetching on every render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [positionId, dateKey]);
+
+  const handleQuantityChange = (key: string, value: string) => {
+    const next = { ...quantities, [key]: value };
+    setQuantities(next);
+    onChange(
+      Object.entries(next)
+        .map(([lotKey, quantity]) => ({
+          lot_record_id: lotKey === OPENING_LOT_KEY ? null : lotKey,
+          quantity: Number(quantity),
+        }))
+        .filter((selection) => selection.quantity > 0),
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-muted-foreground flex items-center gap-2 text-sm">
+        <Spinner /> Loading lots...
+      </div>
+    );
+  }
+
+  if (!lots.length) return null;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">Lots to sell (optional)</p>
+      {lots.map((lot) => {
+        const key = lot.id ?? OPENING_LOT_KEY;
+        return (
+          <div key={key} className="flex items-center gap-2 text-sm">
+            <div className="flex-1">
+              <p>{format(new Date(lot.date), "PPP")}</p>
+              <p className="text-muted-foreground">
+                {formatNumber(lot.quantity, undefined, {
+                  maximumFractionDigits: 6,
+                })}{" "}
+                @{" "}
+                {formatNumber(lot.costBasisPerUnit, undefined, {
+                  maximumFractionDigits: 2,
+                })}
+              </p>
+            </div>
+            <Input
+              className="w-32"
+              placeholder="0"
+              type="number"
+              inputMode="decimal"
+              min={0}
+              max={lot.quantity}
+              step="any"
+              value={quantities[key] ?? ""}
+              onChange={(e) => handleQuantityChange(key, e.target.value)}
+              aria-label={`Quantity from lot of ${lot.date}`}
+            />
+          </div>
+        );
+      })}
+      <p className="text-muted-foreground text-xs">
+        Unallocated quantity is matched to the oldest lots first.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Upload } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Spinner } from "@/components/ui/spinner";
+import { FileUploadDropzone } from "@/components/ui/custom/file-upload-dropzone";
+
+import { useNewPortfolioRecordDialog } from "../index";
+
+import { parsePropertyIndexCSV } from "@/lib/import/sources/property-index";
+
+import { fetchProperty } from "@/server/properties/fetch";
+import { importPropertyIndexFromCSV } from "@/server/properties/import";
+
+import type { PropertyIndexImportResult } from "@/lib/import/types";
+
+/**
+ * Import a regional price index for a property position. Between and after
+ * appraisals, its value then follows the index.
+ */
+export function PropertyIndexForm() {
+  const { setOpen, preselectedPosition } = useNewPortfolioRecordDialog();
+  const propertyId = preselectedPosition?.property_id ?? null;
+
+  // State for the import flow
+  const [region, setRegion] = useState("");
+  const [currentIndex, setCurrentIndex] = useState<{
+    region: string;
+    count: number;
+  } | null>(null);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [csvContent, setCsvContent] = useState("");
+  const [parseResult, setParseResult] =
+    useState<PropertyIndexImportResult | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Load the index currently applied to the property
+  useEffect(() => {
+    if (!propertyId) return;
+    let cancelled = false;
+
+    fetchProperty(propertyId)
+      .then((property) => {
+        if (cancelled || !property?.property.region) return;
+        setRegion(property.property.region);
+        setCurrentIndex({
+          region: property.property.region,
+          count: property.indexCount,
+        });
+      })
+      .catch(() => {
+        if (!cancelled) setCurrentIndex(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [propertyId]);
+
+  // Handle file drop/selection and immediate parsing
+  const handleFileSelect = useCallback(async (file: File, content: string) => {
+    setSelectedFile(file);
+    setCsvContent(content);
+    setParseResult(parsePropertyIndexCSV(content));
+  }, []);
+
+  const handleReset = () => {
+    setSelectedFile(null);
+    setCsvContent("");
+    setParseResult(null);
+  };
+
+  // Handle final import
+  const handleImport = async () => {
+    if (!propertyId || !csvContent) return;
+
+    setIsImporting(true);
+    try {
+      const result = await importPropertyIndexFromCSV(
+        propertyId,
+        region,
+        csvContent,
+      );
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      toast.success(`Imported ${result.importedCount} index value(s)`);
+      setOpen(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to import index",
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-muted-foreground text-sm">
+        Upload a regional house price index as a CSV with a date and a value per
+        row (monthly dates like 2024-01 work too). Importing again for the same
+        region adds new dates and replaces existing ones.
+      </p>
+
+      {currentIndex && (
+        <p className="text-muted-foreground text-sm">
+          Currently following{" "}
+          <span className="text-foreground font-medium">
+            {currentIndex.region}
+          </span>{" "}
+          ({currentIndex.count} value(s)).
+        </p>
+      )}
+
+      <div className="grid gap-2">
+        <Label htmlFor="property-index-region">Region</Label>
+        <Input
+          id="property-index-region"
+          placeholder="E.g., Greater London"
+          value={region}
+          onChange={(e) => setRegion(e.target.value)}
+          disabled={isImporting}
+        />
+      </div>
+
+      <FileUploadDropzone
+        accept={{
+          "text/csv": [".csv"],
+          "text/plain": [".csv"],
+          "application/vnd.ms-excel": [".csv"],
+        }}
+        maxSize={5 * 1024 * 1024} // 5MB for CSV files
+        onFileSelect={handleFileSelect}
+        selectedFile={selectedFile}
+        isProcessing={false}
+        onReset={handleReset}
+        disabled={isImporting}
+        title="Drop your index file here"
+      />
+
+      {/* Parse results */}
+      {parseResult &&
+        (parseResult.success ? (
+          <p className="text-muted-foreground text-sm">
+            Found {parseResult.values.length} index value(s) from{" "}
+            {parseResult.values[0].date} to{" "}
+            {parseResult.values[parseResult.values.length - 1].date}.
+          </p>
+        ) : (
+          <ul className="text-destructive list-disc space-y-1 pl-4 text-sm">
+            {parseResult.errors?.map((error, index) => (
+              <li key={index}>{error}</li>
+            ))}
+          </ul>
+        ))}
+
+      {/* Footer - Action buttons */}
+      <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+        <Button
+          variant="secondary"
+          onClick={() => setOpen(false)}
+          disabled={isImporting}
+        >
+          Cancel
+        </Button>
+        <Button
+          onClick={handleImport}
+          disabled={isImporting || !parseResult?.success || !region.trim()}
+        >
+          {isImporting ? (
+            <>
+              <Spinner />
+              Importing...
+            </>
+          ) : (
+            <>
+              <Upload className="size-4" />
+              Import index
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
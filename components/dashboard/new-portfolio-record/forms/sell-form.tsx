@@ -27,9 +27,13 @@ import { Calendar } from "@/components/ui/calendar";
 import { Spinner } from "@/components/ui/spinner";
 
 import { useNewPortfolioRecordDialog } from "../index";
+import { LotSelector, type LotSelectionValue } from "./lot-selector";
+import { NO_SETTLEMENT, SettlementSelector } from "./settlement-selector";
+import { useOptionalDashboardData } from "@/components/dashboard/dashboard-data-provider";
 
 import { cn } from "@/lib/utils";
 import { requiredNumberWithConstraints } from "@/lib/zod-helpers";
+import { tradeRecordSchema } from "@/lib/portfolio-record-schemas";
 
 import { createPortfolioRecord } from "@/server/portfolio-records/create";
 
@@ -37,15 +41,20 @@ export function SellForm() {
   // Get dialog context (preselected position and close function)
   const { setOpen, preselectedPosition } = useNewPortfolioRecordDialog();
 
+  // Specific lot picking depends on the user's cost basis method
+  const dashboardData = useOptionalDashboardData();
+  const isSpecificLot =
+    dashboardData?.profile.cost_basis_method === "specific_lot";
+
   // Local state
   const [isLoading, setIsLoading] = useState(false);
+  const [lotSelections, setLotSelections] = useState<LotSelectionValue[]>([]);
 
   // Get current position quantity for validation
   const currentQuantity = preselectedPosition?.current_quantity || 0;
 
   // Create dynamic form schema based on current quantity
-  const formSchema = z.object({
-    date: z.date({ error: "A date is required." }),
+  const formSchema = tradeRecordSchema.extend({
     quantity: requiredNumberWithConstraints("Quantity is required.", {
       gt: { value: 0, error: "Quantity must be greater than 0." },
       lte: {
@@ -53,15 +62,7 @@ export function SellForm() {
         error: `You currently have ${currentQuantity} units.`,
       },
     }),
-    unit_value: requiredNumberWithConstraints("Unit value is required.", {
-      gt: { value: 0, error: "Value must be greater than 0." },
-    }),
-    description: z
-      .string()
-      .max(256, {
-        error: "Description must not exceed 256 characters.",
-      })
-      .optional(),
+    settlement_position_id: z.string(),
   });
 
   // Initialize form with React Hook Form
@@ -72,6 +73,7 @@ export function SellForm() {
       quantity: "",
       unit_value: "",
       description: "",
+      settlement_position_id: NO_SETTLEMENT,
     },
   });
 
@@ -107,6 +109,18 @@ export function SellForm() {
         formData.append("description", values.description);
       }
 
+      // Settle against a cash position when one is chosen
+      if (values.settlement_position_id !== NO_SETTLEMENT) {
+        formData.append(
+          "settlement_position_id",
+          values.settlement_position_id,
+        );
+      }
+
+      if (isSpecificLot && lotSelections.length) {
+        formData.append("lot_selections", JSON.stringify(lotSelections));
+      }
+
       // Create portfolio record using server action
       const result = await createPortfolioRecord(formData);
 
@@ -226,6 +240,33 @@ export function SellForm() {
           />
         </div>
 
+        {/* Specific lots */}
+        {isSpecificLot && preselectedPosition && (
+          <LotSelector
+            positionId={preselectedPosition.id}
+            date={form.watch("date")}
+            onChange={setLotSelections}
+          />
+        )}
+
+        {/* Cash settlement */}
+        <FormField
+          control={form.control}
+          name="settlement_position_id"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Deposit proceeds to cash (optional)</FormLabel>
+              <FormControl>
+                <SettlementSelector
+                  value={field.value}
+                  onChange={field.onChange}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         {/* Description */}
         <FormField
           control={form.control}
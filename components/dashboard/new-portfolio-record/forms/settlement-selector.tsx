@@ -0,0 +1,79 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+import { isCashPosition } from "@/lib/cash-ledger";
+import { formatCurrency } from "@/lib/number-format";
+
+import { fetchPositions } from "@/server/positions/fetch";
+
+import type { TransformedPosition } from "@/types/global.types";
+
+// Select value for "don't settle"
+export const NO_SETTLEMENT = "none";
+
+interface SettlementSelectorProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/**
+ * Pick the cash position a buy/sell settles against, so its balance moves
+ * with the trade.
+ */
+export function SettlementSelector({
+  id,
+  value,
+  onChange,
+}: SettlementSelectorProps) {
+  const [cashPositions, setCashPositions] = useState<TransformedPosition[]>([]);
+
+  // Load the user's cash positions once
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchPositions({ positionType: "asset", asOfDate: new Date() })
+      .then((positions) => {
+        if (!cancelled) setCashPositions(positions.filter(isCashPosition));
+      })
+      .catch(() => {
+        if (!cancelled) setCashPositions([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <Select
+      value={value}
+      onValueChange={onChange}
+      disabled={!cashPositions.length}
+    >
+      <SelectTrigger id={id} className="w-full">
+        <SelectValue placeholder="Don't settle" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_SETTLEMENT}>Don&apos;t settle</SelectItem>
+        {cashPositions.map((position) => (
+          <SelectItem key={position.id} value={position.id}>
+            {position.name}
+            <span className="text-muted-foreground">
+              {formatCurrency(position.total_value, position.currency)}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
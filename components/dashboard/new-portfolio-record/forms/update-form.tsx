@@ -40,7 +40,7 @@ import {
 import { useNewPortfolioRecordDialog } from "../index";
 
 import { cn } from "@/lib/utils";
-import { requiredNumberWithConstraints } from "@/lib/zod-helpers";
+import { updateRecordSchema } from "@/lib/portfolio-record-schemas";
 
 import { createPortfolioRecord } from "@/server/portfolio-records/create";
 import { fetchSingleQuote } from "@/server/quotes/fetch";
@@ -48,36 +48,7 @@ import { fetchSingleQuote } from "@/server/quotes/fetch";
 import type { TransformedPosition } from "@/types/global.types";
 
 // Form validation schema using Zod
-const formSchema = z.object({
-  date: z.date({ error: "A date is required." }),
-  quantity: requiredNumberWithConstraints("Quantity is required.", {
-    gte: { value: 0, error: "Quantity must be 0 or greater." },
-  }),
-  unit_value: requiredNumberWithConstraints("Unit value is required.", {
-    gte: { value: 0, error: "Value must be 0 or greater." },
-  }),
-  cost_basis_per_unit: z
-    .string()
-    .optional()
-    .refine(
-      (value) =>
-        value === undefined ||
-        value.trim() === "" ||
-        !Number.isNaN(Number(value)),
-      { error: "Cost basis per unit must be a number" },
-    )
-    .refine(
-      (value) =>
-        value === undefined || value.trim() === "" || Number(value) > 0,
-      { error: "Cost basis per unit must be greater than 0" },
-    ),
-  description: z
-    .string()
-    .max(256, {
-      error: "Description must not exceed 256 characters.",
-    })
-    .optional(),
-});
+const formSchema = updateRecordSchema;
 
 export function UpdateForm() {
   // Get dialog context (preselected position and close function)
@@ -3,11 +3,14 @@
 import Link from "next/link";
 import { createContext, useContext, useState } from "react";
 import {
+  ChartLine,
   CircleArrowDown,
   CircleArrowUp,
+  House,
   PencilLine,
   Plus,
   Info,
+  Wallet,
 } from "lucide-react";
 
 import { Button, buttonVariants } from "@/components/ui/button";
@@ -24,17 +27,24 @@ import { PositionSelector } from "./position-selector";
 import { BuyForm } from "./forms/buy-form";
 import { SellForm } from "./forms/sell-form";
 import { UpdateForm } from "./forms/update-form";
+import { CashTransactionForm } from "./forms/cash-transaction-form";
+import { AppraisalForm } from "./forms/appraisal-form";
+import { PropertyIndexForm } from "./forms/property-index-form";
 
+import { isCashPosition } from "@/lib/cash-ledger";
 import { cn } from "@/lib/utils";
 
 import type { TransformedPosition } from "@/types/global.types";
 import type { VariantProps } from "class-variance-authority";
-import { PORTFOLIO_RECORD_TYPES } from "@/types/enums";
+import { TRADE_RECORD_TYPES } from "@/types/enums";
 
 const RECORD_TYPE_ICONS: Record<string, React.ElementType> = {
   buy: CircleArrowUp,
   sell: CircleArrowDown,
   update: PencilLine,
+  transaction: Wallet,
+  appraisal: House,
+  index: ChartLine,
 };
 
 type NewPortfolioRecordDialogContextType = {
@@ -71,10 +81,15 @@ export function NewPortfolioRecordDialogProvider({
   };
 
   // Get available record types based on position source
-  const getAvailableRecordTypes = () => {
+  const getAvailableRecordTypes = (): readonly string[] => {
     if (!preselectedPosition) return [];
-    if (preselectedPosition.symbol_id) return PORTFOLIO_RECORD_TYPES;
-    if (preselectedPosition.domain_id) return [];
+    if (preselectedPosition.symbol_id) return TRADE_RECORD_TYPES;
+    if (preselectedPosition.domain_id || preselectedPosition.wallet_address)
+      return [];
+    // Property: appraisals and the regional index drive its value
+    if (preselectedPosition.property_id) return ["appraisal", "index"];
+    // Cash ledger: transactions and balance updates
+    if (isCashPosition(preselectedPosition)) return ["transaction", "update"];
     // Custom (no source): only update
     return ["update"];
   };
@@ -187,6 +202,21 @@ export function NewPortfolioRecordDialogProvider({
                     <UpdateForm />
                   </TabsContent>
                 )}
+                {availableTypes.includes("transaction") && (
+                  <TabsContent value="transaction-form">
+                    <CashTransactionForm />
+                  </TabsContent>
+                )}
+                {availableTypes.includes("appraisal") && (
+                  <TabsContent value="appraisal-form">
+                    <AppraisalForm />
+                  </TabsContent>
+                )}
+                {availableTypes.includes("index") && (
+                  <TabsContent value="index-form">
+                    <PropertyIndexForm />
+                  </TabsContent>
+                )}
               </Tabs>
             ) : null}
           </div>
@@ -0,0 +1,12 @@
+import { NotificationsButtonClient } from "./notifications-button-client";
+import { fetchNotifications } from "@/server/notifications/fetch";
+
+export async function NotificationsButton() {
+  const { notifications, unreadCount } = await fetchNotifications();
+  return (
+    <NotificationsButtonClient
+      notifications={notifications}
+      unreadCount={unreadCount}
+    />
+  );
+}
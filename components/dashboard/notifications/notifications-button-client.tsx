@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import { Bell, BellOff, CheckCheck } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverTrigger,
+  PopoverContent,
+} from "@/components/ui/popover";
+
+import { cn } from "@/lib/utils";
+
+import { markNotificationsRead } from "@/server/notifications/update";
+
+import type { Notification } from "@/types/global.types";
+
+interface NotificationsButtonClientProps {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+/**
+ * Header bell with the notification inbox. Opening a notification marks it
+ * as read.
+ */
+export function NotificationsButtonClient({
+  notifications,
+  unreadCount,
+}: NotificationsButtonClientProps) {
+  const [open, setOpen] = useState(false);
+  const [isMarking, setIsMarking] = useState(false);
+
+  async function handleMarkRead(notificationId?: string) {
+    setIsMarking(true);
+    try {
+      const result = await markNotificationsRead(notificationId);
+      if (!result.success) throw new Error(result.message);
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to update notifications",
+      );
+    } finally {
+      setIsMarking(false);
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon" className="relative">
+          <Bell />
+          {unreadCount > 0 && (
+            <span className="bg-primary text-primary-foreground absolute -top-1 -right-1 flex h-4 min-w-4 items-center justify-center rounded-full px-1 text-[10px] font-medium">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between gap-2 border-b px-4 py-2">
+          <span className="text-sm font-semibold">Notifications</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={isMarking || unreadCount === 0}
+            onClick={() => handleMarkRead()}
+          >
+            <CheckCheck /> Mark all read
+          </Button>
+        </div>
+
+        {!notifications.length ? (
+          <div className="text-muted-foreground flex flex-col items-center gap-2 p-6 text-center text-sm">
+            <div className="bg-accent rounded-lg p-2">
+              <BellOff className="text-muted-foreground size-4" />
+            </div>
+            No notifications yet
+          </div>
+        ) : (
+          <div className="max-h-96 divide-y overflow-y-auto">
+            {notifications.map((notification) => {
+              const content = (
+                <div className="flex items-start gap-2">
+                  <span
+                    className={cn(
+                      "mt-1.5 size-2 flex-none rounded-full",
+                      notification.read_at ? "bg-transparent" : "bg-primary",
+                    )}
+                  />
+                  <div className="min-w-0">
+                    <p className="font-medium">{notification.title}</p>
+                    <p className="text-muted-foreground whitespace-pre-line">
+                      {notification.body}
+                    </p>
+                    <p className="text-muted-foreground mt-1 text-xs">
+                      {formatDistanceToNow(parseISO(notification.created_at), {
+                        addSuffix: true,
+                      })}
+                    </p>
+                  </div>
+                </div>
+              );
+
+              const handleOpen = () => {
+                if (!notification.read_at) handleMarkRead(notification.id);
+                setOpen(false);
+              };
+
+              return notification.link ? (
+                <Link
+                  key={notification.id}
+                  href={notification.link}
+                  onClick={handleOpen}
+                  className="hover:bg-accent block px-4 py-3 text-sm"
+                >
+                  {content}
+                </Link>
+              ) : (
+                <button
+                  key={notification.id}
+                  type="button"
+                  onClick={handleOpen}
+                  className="hover:bg-accent block w-full px-4 py-3 text-left text-sm"
+                >
+                  {content}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="border-t px-4 py-2">
+          <Link
+            href="/dashboard/alerts"
+            onClick={() => setOpen(false)}
+            className="text-muted-foreground hover:text-foreground text-sm"
+          >
+            Manage alerts
+          </Link>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -7,6 +7,7 @@ import { format } from "date-fns";
 import { ActionsCell } from "./row-actions/actions-cell";
 
 import { formatNumber } from "@/lib/number-format";
+import { cn } from "@/lib/utils";
 
 import {
   Tooltip,
@@ -155,6 +156,32 @@ export function getPortfolioRecordColumns({
         );
       },
     },
+    {
+      id: "realized_gain",
+      header: "Realized P/L",
+      cell: ({ row }) => {
+        const realizedGains = row.original.realized_gains;
+        const realizedGain = Array.isArray(realizedGains)
+          ? realizedGains[0]
+          : realizedGains;
+
+        if (row.original.type !== "sell" || !realizedGain) {
+          return <span className="text-muted-foreground">-</span>;
+        }
+
+        const value = Number(realizedGain.realized_gain);
+        return (
+          <div
+            className={cn(
+              "tabular-nums",
+              value >= 0 ? "text-green-600" : "text-red-600",
+            )}
+          >
+            {formatNumber(value, undefined, { maximumFractionDigits: 2 })}
+          </div>
+        );
+      },
+    },
     {
       accessorKey: "description",
       header: "Description",
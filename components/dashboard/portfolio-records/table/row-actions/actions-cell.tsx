@@ -25,6 +25,9 @@ export function ActionsCell({
   const [showUpdateDialog, setShowUpdateDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
 
+  // Settlements follow their buy/sell and can't be changed on their own
+  if (portfolioRecord.type === "settlement") return null;
+
   return (
     <>
       <DropdownMenu>
@@ -51,7 +51,11 @@ import { updatePortfolioRecord } from "@/server/portfolio-records/update";
 
 import type { PortfolioRecordWithPosition } from "@/types/global.types";
 
-import { PORTFOLIO_RECORD_TYPES } from "@/types/enums";
+import {
+  CASH_RECORD_TYPES,
+  PORTFOLIO_RECORD_TYPES,
+  TRADE_RECORD_TYPES,
+} from "@/types/enums";
 
 interface UpdatePortfolioRecordFormProps {
   portfolioRecord: PortfolioRecordWithPosition;
@@ -128,6 +132,13 @@ export function UpdatePortfolioRecordForm({
 
   const recordType = form.watch("type");
 
+  // Cash ledger records switch between cash kinds, trades between trade kinds
+  const typeOptions: readonly string[] = (
+    CASH_RECORD_TYPES as readonly string[]
+  ).includes(portfolioRecord.type)
+    ? CASH_RECORD_TYPES
+    : TRADE_RECORD_TYPES;
+
   useEffect(() => {
     if (recordType !== "update") {
       form.setValue("cost_basis_per_unit", "");
@@ -235,7 +246,7 @@ export function UpdatePortfolioRecordForm({
                   </SelectTrigger>
                 </FormControl>
                 <SelectContent>
-                  {PORTFOLIO_RECORD_TYPES.map((type) => (
+                  {typeOptions.map((type) => (
                     <SelectItem key={type} value={type} className="capitalize">
                       {type}
                     </SelectItem>
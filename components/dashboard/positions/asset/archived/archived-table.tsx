@@ -33,7 +33,9 @@ export function ArchivedAssetsTable({ data }: ArchivedTableProps) {
   // Handle row click to navigate to asset page
   const handleRowClick = useCallback(
     (position: TransformedPosition) => {
-      router.push(`/dashboard/assets/${position.id}`);
+      router.push(
+        `/dashboard/${position.type === "liability" ? "liabilities" : "assets"}/${position.id}`,
+      );
     },
     [router],
   );
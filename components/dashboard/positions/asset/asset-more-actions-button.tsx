@@ -69,7 +69,7 @@ export function AssetMoreActionsButton({
             }}
           >
             <Trash2 />
-            Delete asset
+            Delete {position.type}
           </DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
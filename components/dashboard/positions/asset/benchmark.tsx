@@ -0,0 +1,99 @@
+"use client";
+
+import { useState } from "react";
+import { parseISO } from "date-fns";
+import { ChartLine } from "lucide-react";
+
+import { BenchmarkPicker } from "@/components/dashboard/charts/benchmark/picker";
+import {
+  BenchmarkLineChart,
+  BenchmarkStatsList,
+} from "@/components/dashboard/charts/benchmark/chart";
+import { usePrivacyMode } from "@/components/dashboard/privacy-mode-provider";
+
+import { fetchBenchmarkComparison } from "@/server/analysis/benchmark";
+import { cn } from "@/lib/utils";
+
+import type { BenchmarkComparison } from "@/server/analysis/benchmark";
+
+interface AssetBenchmarkProps {
+  positionId: string;
+  currency: string;
+  /** YYYY-MM-DD, the asset's first snapshot */
+  inceptionDate: string;
+}
+
+export function AssetBenchmark({
+  positionId,
+  currency,
+  inceptionDate,
+}: AssetBenchmarkProps) {
+  const [benchmarks, setBenchmarks] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<BenchmarkComparison | null>(
+    null,
+  );
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { isPrivacyMode } = usePrivacyMode();
+
+  // Compared since inception, in the asset's own currency
+  const handleBenchmarksChange = async (symbols: string[]) => {
+    setBenchmarks(symbols);
+    setIsLoading(true);
+
+    try {
+      setComparison(
+        symbols.length
+          ? await fetchBenchmarkComparison({
+              symbols,
+              targetCurrency: currency,
+              startDate: parseISO(inceptionDate),
+              positionIds: [positionId],
+            })
+          : null,
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="font-semibold">Benchmark</h3>
+        <BenchmarkPicker
+          value={benchmarks}
+          onChange={handleBenchmarksChange}
+          disabled={isLoading}
+        />
+      </div>
+      {comparison?.dates.length ? (
+        <div
+          className={cn(
+            "space-y-2 transition-opacity",
+            isLoading && "opacity-50",
+          )}
+        >
+          <div className="h-64">
+            <BenchmarkLineChart
+              comparison={comparison}
+              isPrivacyMode={isPrivacyMode}
+            />
+          </div>
+          <BenchmarkStatsList comparison={comparison} />
+        </div>
+      ) : (
+        <div className="text-muted-foreground flex flex-col items-center gap-2 rounded-lg border border-dashed p-6 text-center text-sm">
+          <div className="bg-accent rounded-lg p-2">
+            <ChartLine className="text-muted-foreground size-4" />
+          </div>
+          {isLoading
+            ? "Loading comparison..."
+            : comparison?.unresolved.length
+              ? `Couldn't find ${comparison.unresolved.join(", ")}`
+              : "Compare this asset with an index or ETF, excluding buys and sells"}
+        </div>
+      )}
+    </div>
+  );
+}
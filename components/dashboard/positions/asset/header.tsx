@@ -13,19 +13,30 @@ import { formatCurrency, formatPercentage } from "@/lib/number-format";
 import { cn } from "@/lib/utils";
 
 import type {
+  Account,
   TransformedPosition,
   Symbol,
   PositionWithProfitLoss,
 } from "@/types/global.types";
+import type { ReturnsSummary } from "@/server/analysis/returns";
 
 export async function AssetHeader({
   position,
+  account = null,
   symbol,
   positionWithProfitLoss,
+  realizedGain = null,
+  returns = null,
 }: {
   position: TransformedPosition;
+  account?: Pick<Account, "name" | "institution"> | null;
   symbol: Symbol | null;
   positionWithProfitLoss: PositionWithProfitLoss;
+  realizedGain?: number | null;
+  returns?: Pick<
+    ReturnsSummary,
+    "timeWeightedReturn" | "moneyWeightedReturn"
+  > | null;
 }) {
   return (
     <div className="space-y-2">
@@ -34,6 +45,11 @@ export async function AssetHeader({
         <h1 className="text-2xl font-semibold">{position.name}</h1>
         <div className="flex flex-wrap items-center gap-2">
           <Badge variant="secondary">{position.category_name}</Badge>
+          {account && (
+            <Badge variant="outline" title={account.institution ?? undefined}>
+              {account.name}
+            </Badge>
+          )}
           {position.is_archived && (
             <Badge variant="secondary">
               <Archive className="size-4" /> Archived
@@ -159,6 +175,56 @@ export async function AssetHeader({
             </div>
           </>
         )}
+
+        {/* Realized P/L from closed lots */}
+        {realizedGain != null && (
+          <div>
+            <p className="text-muted-foreground">Realized P/L</p>
+            <p
+              className={cn(
+                "font-semibold",
+                realizedGain >= 0 ? "text-green-600" : "text-red-600",
+              )}
+            >
+              {formatCurrency(realizedGain, position.currency)}
+            </p>
+          </div>
+        )}
+
+        {/* Returns since inception, excluding buys/sells */}
+        {returns?.timeWeightedReturn != null && (
+          <div>
+            <p className="text-muted-foreground">Time-Weighted Return</p>
+            <p
+              className={cn(
+                "font-semibold",
+                returns.timeWeightedReturn >= 0
+                  ? "text-green-600"
+                  : "text-red-600",
+              )}
+            >
+              {formatPercentage(returns.timeWeightedReturn)}
+            </p>
+          </div>
+        )}
+        {returns?.moneyWeightedReturn != null && (
+          <div>
+            <p className="text-muted-foreground">Money-Weighted Return</p>
+            <p
+              className={cn(
+                "font-semibold",
+                returns.moneyWeightedReturn >= 0
+                  ? "text-green-600"
+                  : "text-red-600",
+              )}
+            >
+              {formatPercentage(returns.moneyWeightedReturn)}
+              <span className="text-muted-foreground ml-1 font-normal">
+                p.a.
+              </span>
+            </p>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,173 @@
+"use client";
+
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Pause, Pencil, Play, Plus, Repeat, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  FREQUENCY_LABELS,
+  RECURRING_TYPE_LABELS,
+  RecurringTransactionDialog,
+} from "./recurring-dialog";
+
+import { getNextDueDate } from "@/lib/recurring-transactions";
+import { formatCurrency, formatNumber } from "@/lib/number-format";
+
+import { setRecurringTransactionActive } from "@/server/recurring-transactions/update";
+import { deleteRecurringTransaction } from "@/server/recurring-transactions/delete";
+
+import type { Position, RecurringTransaction } from "@/types/global.types";
+
+interface RecurringTransactionsProps {
+  position: Pick<
+    Position,
+    "id" | "currency" | "category_id" | "symbol_id" | "domain_id"
+  >;
+  schedules: RecurringTransaction[];
+}
+
+export function RecurringTransactions({
+  position,
+  schedules,
+}: RecurringTransactionsProps) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  async function handleToggle(schedule: RecurringTransaction) {
+    setBusyId(schedule.id);
+    try {
+      const result = await setRecurringTransactionActive(
+        schedule.id,
+        !schedule.is_active,
+      );
+      if (!result.success) throw new Error(result.message);
+      toast.success(
+        schedule.is_active
+          ? "Recurring transaction paused"
+          : "Recurring transaction resumed",
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to update recurring transaction",
+      );
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleDelete(schedule: RecurringTransaction) {
+    setBusyId(schedule.id);
+    try {
+      const result = await deleteRecurringTransaction(schedule.id);
+      if (!result.success) throw new Error(result.message);
+      toast.success("Recurring transaction deleted");
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to delete recurring transaction",
+      );
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold">Recurring</h3>
+        <RecurringTransactionDialog position={position}>
+          <Button variant="outline" size="sm">
+            <Plus /> Add
+          </Button>
+        </RecurringTransactionDialog>
+      </div>
+
+      {!schedules.length ? (
+        <div className="text-muted-foreground flex items-center gap-2 rounded-md border border-dashed p-3 text-sm">
+          <Repeat className="size-4" />
+          No recurring transactions, e.g. a monthly savings plan
+        </div>
+      ) : (
+        <div className="divide-y rounded-md border">
+          {schedules.map((schedule) => {
+            const nextDueDate = schedule.is_active
+              ? getNextDueDate(schedule)
+              : null;
+            const type = schedule.type as keyof typeof RECURRING_TYPE_LABELS;
+
+            return (
+              <div
+                key={schedule.id}
+                className="flex items-center justify-between gap-4 p-3 text-sm"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">
+                      {RECURRING_TYPE_LABELS[type]}{" "}
+                      {schedule.amount !== null
+                        ? formatCurrency(schedule.amount, position.currency)
+                        : `${formatNumber(schedule.quantity ?? 0)} units`}
+                    </span>
+                    {!schedule.is_active && (
+                      <Badge variant="secondary">Paused</Badge>
+                    )}
+                    {schedule.auto_confirm && (
+                      <Badge variant="outline">Automatic</Badge>
+                    )}
+                  </div>
+                  <p className="text-muted-foreground truncate">
+                    {FREQUENCY_LABELS[schedule.frequency]}
+                    {nextDueDate &&
+                      ` · next ${format(parseISO(nextDueDate), "PP")}`}
+                    {schedule.is_active && !nextDueDate && " · ended"}
+                    {schedule.description && ` · ${schedule.description}`}
+                  </p>
+                </div>
+                <div className="flex flex-none items-center gap-1">
+                  <RecurringTransactionDialog
+                    position={position}
+                    schedule={schedule}
+                  >
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-8"
+                      aria-label="Edit"
+                    >
+                      <Pencil />
+                    </Button>
+                  </RecurringTransactionDialog>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-8"
+                    aria-label={schedule.is_active ? "Pause" : "Resume"}
+                    disabled={busyId === schedule.id}
+                    onClick={() => handleToggle(schedule)}
+                  >
+                    {schedule.is_active ? <Pause /> : <Play />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive size-8"
+                    aria-label="Delete"
+                    disabled={busyId === schedule.id}
+                    onClick={() => handleDelete(schedule)}
+                  >
+                    <Trash2 />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
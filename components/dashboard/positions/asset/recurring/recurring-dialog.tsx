@@ -0,0 +1,519 @@
+"use client";
+
+import { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { format } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Switch } from "@/components/ui/switch";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  NO_SETTLEMENT,
+  SettlementSelector,
+} from "@/components/dashboard/new-portfolio-record/forms/settlement-selector";
+
+import { isCashPosition } from "@/lib/cash-ledger";
+import { cn } from "@/lib/utils";
+import { requiredNumberWithConstraints } from "@/lib/zod-helpers";
+
+import { createRecurringTransaction } from "@/server/recurring-transactions/create";
+import { updateRecurringTransaction } from "@/server/recurring-transactions/update";
+
+import { RECURRING_FREQUENCIES, RECURRING_RECORD_TYPES } from "@/types/enums";
+import type { Position, RecurringTransaction } from "@/types/global.types";
+
+export const RECURRING_TYPE_LABELS: Record<
+  (typeof RECURRING_RECORD_TYPES)[number],
+  string
+> = {
+  buy: "Buy",
+  sell: "Sell",
+  deposit: "Deposit",
+  withdrawal: "Withdrawal",
+  fee: "Fee",
+  interest: "Interest",
+};
+
+export const FREQUENCY_LABELS: Record<
+  RecurringTransaction["frequency"],
+  string
+> = {
+  weekly: "Weekly",
+  biweekly: "Every 2 weeks",
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  annually: "Yearly",
+};
+
+const TRADE_TYPES = ["buy", "sell"] as const;
+const CASH_TYPES = ["deposit", "withdrawal", "fee", "interest"] as const;
+
+// Optional positive number input (empty = not set)
+const optionalPositiveNumber = (error: string) =>
+  z.preprocess(
+    (value) =>
+      value === "" || value === null || value === undefined
+        ? null
+        : Number(value),
+    z.number({ error }).gt(0, { error }).nullable(),
+  );
+
+const formSchema = z.object({
+  type: z.enum([...TRADE_TYPES, ...CASH_TYPES]),
+  frequency: z.enum(RECURRING_FREQUENCIES),
+  start_date: z.date({ error: "A start date is required." }),
+  end_date: z.date().nullable(),
+  size: z.enum(["amount", "quantity"]),
+  value: requiredNumberWithConstraints("A value is required.", {
+    gt: { value: 0, error: "Value must be greater than 0." },
+  }),
+  unit_value: optionalPositiveNumber("Unit value must be greater than 0."),
+  settlement_position_id: z.string(),
+  description: z
+    .string()
+    .max(256, { error: "Description must not exceed 256 characters." }),
+  auto_confirm: z.boolean(),
+});
+
+interface RecurringTransactionDialogProps {
+  position: Pick<
+    Position,
+    "id" | "currency" | "category_id" | "symbol_id" | "domain_id"
+  >;
+  schedule?: RecurringTransaction;
+  children: React.ReactNode;
+}
+
+export function RecurringTransactionDialog({
+  position,
+  schedule,
+  children,
+}: RecurringTransactionDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const isCash = isCashPosition(position);
+  const types = isCash ? CASH_TYPES : TRADE_TYPES;
+
+  const form = useForm({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      type: (schedule?.type ?? types[0]) as (typeof types)[number],
+      frequency: schedule?.frequency ?? "monthly",
+      start_date: schedule
+        ? new Date(`${schedule.start_date}T00:00:00`)
+        : new Date(),
+      end_date: schedule?.end_date
+        ? new Date(`${schedule.end_date}T00:00:00`)
+        : null,
+      // Cash is held at a unit value of 1, so only amounts make sense
+      size: schedule?.quantity != null && !isCash ? "quantity" : "amount",
+      value: schedule?.quantity ?? schedule?.amount ?? "",
+      unit_value: schedule?.unit_value ?? "",
+      settlement_position_id: schedule?.settlement_position_id ?? NO_SETTLEMENT,
+      description: schedule?.description ?? "",
+      auto_confirm: schedule?.auto_confirm ?? false,
+    },
+  });
+
+  const size = form.watch("size");
+
+  // Submit handler
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    setIsLoading(true);
+    try {
+      const formData = new FormData();
+      formData.append("type", values.type);
+      formData.append("frequency", values.frequency);
+      formData.append("start_date", format(values.start_date, "yyyy-MM-dd"));
+      formData.append(values.size, values.value.toString());
+      formData.append("description", values.description);
+      formData.append("auto_confirm", String(values.auto_confirm));
+
+      // Only append optional fields if they are set
+      if (values.end_date) {
+        formData.append("end_date", format(values.end_date, "yyyy-MM-dd"));
+      }
+      if (values.unit_value !== null && !position.symbol_id) {
+        formData.append("unit_value", values.unit_value.toString());
+      }
+      if (values.settlement_position_id !== NO_SETTLEMENT) {
+        formData.append(
+          "settlement_position_id",
+          values.settlement_position_id,
+        );
+      }
+
+      const result = schedule
+        ? await updateRecurringTransaction(formData, schedule.id)
+        : await createRecurringTransaction(formData, position.id);
+
+      // Handle error response from server action
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      toast.success(
+        schedule
+          ? "Recurring transaction updated"
+          : "Recurring transaction created",
+      );
+      if (!schedule) form.reset();
+      setOpen(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to save recurring transaction",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {schedule
+              ? "Edit recurring transaction"
+              : "New recurring transaction"}
+          </DialogTitle>
+          <DialogDescription>
+            Records are prepared on every due date, priced from market data
+            where available.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-4">
+            <div className="grid items-start gap-x-2 gap-y-4 sm:grid-cols-2">
+              {/* Type */}
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {types.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {RECURRING_TYPE_LABELS[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* Frequency */}
+              <FormField
+                control={form.control}
+                name="frequency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Frequency</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {RECURRING_FREQUENCIES.map((frequency) => (
+                          <SelectItem key={frequency} value={frequency}>
+                            {FREQUENCY_LABELS[frequency]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* Start date */}
+              <FormField
+                control={form.control}
+                name="start_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>First date</FormLabel>
+                    <DatePicker value={field.value} onChange={field.onChange} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* End date */}
+              <FormField
+                control={form.control}
+                name="end_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>End date (optional)</FormLabel>
+                    <DatePicker
+                      value={field.value ?? undefined}
+                      onChange={(date) => field.onChange(date ?? null)}
+                    />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* Size */}
+              {!isCash && (
+                <FormField
+                  control={form.control}
+                  name="size"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Each time</FormLabel>
+                      <Select
+                        value={field.value}
+                        onValueChange={field.onChange}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="amount">Fixed amount</SelectItem>
+                          <SelectItem value="quantity">
+                            Fixed quantity
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {/* Value */}
+              <FormField
+                control={form.control}
+                name="value"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      {size === "amount"
+                        ? `Amount (${position.currency})`
+                        : "Quantity"}
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder={
+                          size === "amount" ? "E.g., 500" : "E.g., 2"
+                        }
+                        type="number"
+                        inputMode="decimal"
+                        min={0}
+                        step="any"
+                        {...field}
+                        value={field.value as number}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* Unit value (positions without market data) */}
+              {!isCash && !position.symbol_id && (
+                <FormField
+                  control={form.control}
+                  name="unit_value"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Unit value</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="Enter on confirmation"
+                          type="number"
+                          inputMode="decimal"
+                          min={0}
+                          step="any"
+                          {...field}
+                          value={field.value as number}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            {/* Cash settlement */}
+            {!isCash && (
+              <FormField
+                control={form.control}
+                name="settlement_position_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Settle against cash (optional)</FormLabel>
+                    <FormControl>
+                      <SettlementSelector
+                        value={field.value}
+                        onChange={field.onChange}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {/* Description */}
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description (optional)</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="E.g., Monthly savings plan"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Auto confirm */}
+            <FormField
+              control={form.control}
+              name="auto_confirm"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <FormLabel>Record automatically</FormLabel>
+                    <FormDescription>
+                      Skip confirmation when a price is available.
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {/* Footer - Action buttons */}
+            <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+              <Button
+                onClick={() => setOpen(false)}
+                disabled={isLoading}
+                type="button"
+                variant="secondary"
+              >
+                Cancel
+              </Button>
+              <Button disabled={isLoading} type="submit">
+                {isLoading ? (
+                  <>
+                    <Spinner />
+                    Saving...
+                  </>
+                ) : schedule ? (
+                  "Save changes"
+                ) : (
+                  "Add schedule"
+                )}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DatePicker({
+  value,
+  onChange,
+}: {
+  value: Date | undefined;
+  onChange: (date: Date | undefined) => void;
+}) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <FormControl>
+          <Button
+            variant="outline"
+            className={cn(
+              "text-left font-normal",
+              !value && "text-muted-foreground",
+            )}
+          >
+            {value ? format(value, "PPP") : <span>Pick a date</span>}
+            <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+          </Button>
+        </FormControl>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="single"
+          selected={value}
+          onSelect={onChange}
+          captionLayout="dropdown"
+          endMonth={new Date(2100, 11)}
+          autoFocus
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
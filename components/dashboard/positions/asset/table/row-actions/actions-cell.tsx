@@ -9,6 +9,8 @@ import {
   SquarePen,
   CircleMinus,
   CirclePlus,
+  House,
+  Wallet,
 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
@@ -27,8 +29,10 @@ import { DeletePositionDialog } from "@/components/dashboard/positions/shared/de
 
 import { useRestorePosition } from "@/hooks/use-restore-positions";
 
+import { isCashPosition } from "@/lib/cash-ledger";
+
 import type { TransformedPosition } from "@/types/global.types";
-import { PORTFOLIO_RECORD_TYPES } from "@/types/enums";
+import { TRADE_RECORD_TYPES } from "@/types/enums";
 
 export function ActionsCell({ position }: { position: TransformedPosition }) {
   const { setOpen, setPreselectedPosition, setInitialTab } =
@@ -39,9 +43,13 @@ export function ActionsCell({ position }: { position: TransformedPosition }) {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
 
   // Get available record types based on position source
-  const getAvailableRecordTypes = () => {
-    if (position.symbol_id) return PORTFOLIO_RECORD_TYPES;
-    if (position.domain_id) return [];
+  const getAvailableRecordTypes = (): readonly string[] => {
+    if (position.symbol_id) return TRADE_RECORD_TYPES;
+    if (position.domain_id || position.wallet_address) return [];
+    // Property: appraisals and the regional index drive its value
+    if (position.property_id) return ["appraisal", "index"];
+    // Cash ledger: transactions and balance updates
+    if (isCashPosition(position)) return ["transaction", "update"];
     // Custom (no source): only update
     return ["update"];
   };
@@ -69,6 +77,20 @@ export function ActionsCell({ position }: { position: TransformedPosition }) {
     setOpen(true);
   };
 
+  // New cash transaction
+  const handleNewTransaction = () => {
+    setPreselectedPosition(position);
+    setInitialTab("transaction-form");
+    setOpen(true);
+  };
+
+  // New property appraisal
+  const handleNewAppraisal = () => {
+    setPreselectedPosition(position);
+    setInitialTab("appraisal-form");
+    setOpen(true);
+  };
+
   return (
     <div onClick={(e) => e.stopPropagation()}>
       <DropdownMenu>
@@ -107,6 +129,26 @@ export function ActionsCell({ position }: { position: TransformedPosition }) {
             </DropdownMenuItem>
           )}
 
+          {/* New cash transaction */}
+          {availableTypes.includes("transaction") && (
+            <DropdownMenuItem
+              onSelect={handleNewTransaction}
+              disabled={position.is_archived}
+            >
+              <Wallet className="size-4" /> Cash transaction
+            </DropdownMenuItem>
+          )}
+
+          {/* New property appraisal */}
+          {availableTypes.includes("appraisal") && (
+            <DropdownMenuItem
+              onSelect={handleNewAppraisal}
+              disabled={position.is_archived}
+            >
+              <House className="size-4" /> New appraisal
+            </DropdownMenuItem>
+          )}
+
           {/* Archive/restore position */}
           {position.is_archived ? (
             <DropdownMenuItem
@@ -18,6 +18,8 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Spinner } from "@/components/ui/spinner";
 import { PositionCategorySelector } from "@/components/dashboard/position-category-selector";
+import { AccountSelector } from "@/components/dashboard/account-selector";
+import { useOptionalDashboardData } from "@/components/dashboard/dashboard-data-provider";
 
 import { updatePosition } from "@/server/positions/update";
 
@@ -34,6 +36,7 @@ const formSchema = z.object({
     .min(3, { error: "Name must be at least 3 characters." })
     .max(64, { error: "Name must not exceed 64 characters." }),
   category_id: z.string().min(1, { error: "Category is required." }),
+  account_id: z.string(),
   description: z
     .string()
     .max(256, {
@@ -47,12 +50,14 @@ export function UpdatePositionForm({
   onSuccess,
 }: UpdatePositionFormProps) {
   const [isLoading, setIsLoading] = useState(false);
+  const accounts = useOptionalDashboardData()?.accounts ?? [];
 
   const form = useForm({
     resolver: zodResolver(formSchema),
     defaultValues: {
       name: position.name,
       category_id: position.category_id,
+      account_id: position.account_id ?? "",
       description: position.description ?? undefined,
     },
   });
@@ -67,6 +72,7 @@ export function UpdatePositionForm({
       const formData = new FormData();
       formData.append("name", values.name);
       formData.append("category_id", values.category_id);
+      formData.append("account_id", values.account_id);
       formData.append("description", values.description || "");
 
       const result = await updatePosition(formData, position.id);
@@ -115,12 +121,30 @@ export function UpdatePositionForm({
             <FormItem>
               <FormLabel>Category</FormLabel>
               <FormControl>
-                <PositionCategorySelector field={field} />
+                <PositionCategorySelector
+                  field={field}
+                  positionType={position.type}
+                />
               </FormControl>
               <FormMessage />
             </FormItem>
           )}
         />
+        {accounts.length > 0 && (
+          <FormField
+            control={form.control}
+            name="account_id"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Account</FormLabel>
+                <FormControl>
+                  <AccountSelector field={field} accounts={accounts} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
         <FormField
           control={form.control}
           name="description"
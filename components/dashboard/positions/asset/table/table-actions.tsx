@@ -22,7 +22,14 @@ export function TableActionsDropdown({
 }) {
   const [showExportDialog, setShowExportDialog] = useState(false);
 
-  const { setOpen: setOpenImportPositionsDialog } = useImportPositionsDialog();
+  const { setOpen: setOpenImportPositionsDialog, setPositionType } =
+    useImportPositionsDialog();
+
+  // Open the shared import dialog in asset mode
+  const handleImport = () => {
+    setPositionType("asset");
+    setOpenImportPositionsDialog(true);
+  };
 
   return (
     <>
@@ -34,7 +41,7 @@ export function TableActionsDropdown({
           </Button>
         </DropdownMenuTrigger>
         <DropdownMenuContent align="end">
-          <DropdownMenuItem onSelect={() => setOpenImportPositionsDialog(true)}>
+          <DropdownMenuItem onSelect={handleImport}>
             <Upload className="size-4" /> Import
           </DropdownMenuItem>
           <DropdownMenuItem
@@ -23,6 +23,7 @@ export function AIImportForm() {
     setReviewPositions,
     setReviewSymbolValidation,
     setReviewSupportedCurrencies,
+    positionType,
   } = useImportPositionsDialog();
 
   // State for the entire import flow
@@ -87,14 +88,16 @@ export function AIImportForm() {
     try {
       // Convert positions to CSV format and import
       const csvContent = positionsToCSV(extractionResult.positions);
-      const result = await importPositionsFromCSV(csvContent, "asset");
+      const result = await importPositionsFromCSV(csvContent, positionType);
 
       if (!result.success) {
         throw new Error(result.error);
       }
 
       toast.success(
-        `Successfully imported ${result.importedCount} position(s)!`,
+        result.skippedCount
+          ? `Successfully imported ${result.importedCount} change(s), ${result.skippedCount} position(s) unchanged.`
+          : `Successfully imported ${result.importedCount} position(s)!`,
       );
       setOpen(false);
     } catch (error) {
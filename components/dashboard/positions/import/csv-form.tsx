@@ -29,8 +29,9 @@ export function CSVImportForm() {
     setReviewPositions,
     setReviewSymbolValidation,
     setReviewSupportedCurrencies,
+    positionType,
   } = useImportPositionsDialog();
-  const { categories } = usePositionCategories();
+  const { categories } = usePositionCategories(positionType);
 
   // State for the entire import flow
   const [isProcessing, setIsProcessing] = useState(false);
@@ -42,26 +43,29 @@ export function CSVImportForm() {
   const [csvContent, setCsvContent] = useState<string>("");
 
   // Handle file drop/selection and immediate parsing
-  const handleFileSelect = useCallback(async (file: File, content: string) => {
-    setSelectedFile(file);
-    setParseResult(null);
-    setIsProcessing(true);
-    setCsvContent(content);
-
-    try {
-      const result = await parsePositionsCSV(content);
-      setParseResult(result);
-    } catch (error) {
-      console.error("Error parsing CSV:", error);
-      setParseResult({
-        success: false,
-        positions: [],
-        errors: ["Failed to parse CSV. Please try again."],
-      });
-    } finally {
-      setIsProcessing(false);
-    }
-  }, []);
+  const handleFileSelect = useCallback(
+    async (file: File, content: string) => {
+      setSelectedFile(file);
+      setParseResult(null);
+      setIsProcessing(true);
+      setCsvContent(content);
+
+      try {
+        const result = await parsePositionsCSV(content, positionType);
+        setParseResult(result);
+      } catch (error) {
+        console.error("Error parsing CSV:", error);
+        setParseResult({
+          success: false,
+          positions: [],
+          errors: ["Failed to parse CSV. Please try again."],
+        });
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    [positionType],
+  );
 
   // Handle final import
   const handleImport = async () => {
@@ -69,14 +73,16 @@ export function CSVImportForm() {
 
     setIsImporting(true);
     try {
-      const result = await importPositionsFromCSV(csvContent, "asset");
+      const result = await importPositionsFromCSV(csvContent, positionType);
 
       if (!result.success) {
         throw new Error(result.error);
       }
 
       toast.success(
-        `Successfully imported ${result.importedCount} position(s)!`,
+        result.skippedCount
+          ? `Successfully imported ${result.importedCount} change(s), ${result.skippedCount} position(s) unchanged.`
+          : `Successfully imported ${result.importedCount} position(s)!`,
       );
       setOpen(false);
     } catch (error) {
@@ -0,0 +1,208 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import { Upload } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+import { FileUploadDropzone } from "@/components/ui/custom/file-upload-dropzone";
+import { ImportResults } from "./import-results";
+import { useImportPositionsDialog } from "./index";
+
+import { BROKER_FORMATS } from "@/lib/import/brokers";
+import { parseTransactionsCSV } from "@/lib/import/sources/transactions";
+import {
+  importTransactionsFromCSV,
+  previewTransactionsImport,
+} from "@/server/portfolio-records/import";
+
+import type {
+  TransactionImportPreviewResult,
+  TransactionImportResult,
+} from "@/lib/import/types";
+
+export function HistoryImportForm() {
+  const { setOpen, open } = useImportPositionsDialog();
+
+  // State for the entire import flow
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [parseResult, setParseResult] =
+    useState<TransactionImportResult | null>(null);
+  const [preview, setPreview] = useState<Extract<
+    TransactionImportPreviewResult,
+    { success: true }
+  > | null>(null);
+  const [csvContent, setCsvContent] = useState<string>("");
+
+  const brokerName = BROKER_FORMATS.find(
+    (format) => format.id === parseResult?.broker,
+  )?.name;
+
+  // Handle file drop/selection and immediate parsing
+  const handleFileSelect = useCallback(async (file: File, content: string) => {
+    setSelectedFile(file);
+    setParseResult(null);
+    setPreview(null);
+    setIsProcessing(true);
+    setCsvContent(content);
+
+    try {
+      const result = await parseTransactionsCSV(content);
+
+      // Detect trades recorded by an earlier import
+      if (result.success) {
+        const previewResult = await previewTransactionsImport(content);
+        if (!previewResult.success) {
+          setParseResult({
+            ...result,
+            success: false,
+            errors: [previewResult.error],
+          });
+          return;
+        }
+        setPreview(previewResult);
+      }
+
+      setParseResult(result);
+    } catch (error) {
+      console.error("Error parsing CSV:", error);
+      setParseResult({
+        success: false,
+        broker: null,
+        transactions: [],
+        errors: ["Failed to parse CSV. Please try again."],
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  }, []);
+
+  // Handle final import
+  const handleImport = async () => {
+    if (!csvContent) return;
+
+    setIsImporting(true);
+    try {
+      const result = await importTransactionsFromCSV(csvContent);
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      toast.success(
+        result.skippedCount
+          ? `Successfully imported ${result.importedCount} trade(s), skipped ${result.skippedCount} already imported.`
+          : `Successfully imported ${result.importedCount} trade(s)!`,
+      );
+      setOpen(false);
+    } catch (error) {
+      console.error("Import error:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to import trades",
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  // Handler for resetting the form
+  const handleReset = () => {
+    setSelectedFile(null);
+    setParseResult(null);
+    setPreview(null);
+    setCsvContent("");
+  };
+
+  // Reset when dialog closes
+  useEffect(() => {
+    if (!open) {
+      handleReset();
+    }
+  }, [open]);
+
+  return (
+    <div className="space-y-4">
+      <div className="text-muted-foreground space-y-2 text-sm">
+        <p>
+          Upload the transaction history exported from your broker. Each buy and
+          sell becomes a dated record, so quantities, cost basis and history are
+          rebuilt from your actual trades.
+        </p>
+        <p>
+          <span className="text-foreground font-medium">
+            Supported brokers:
+          </span>{" "}
+          {BROKER_FORMATS.map((format) => format.name).join(", ")}.
+        </p>
+      </div>
+
+      {/* Dropzone Section */}
+      <FileUploadDropzone
+        accept={{
+          "text/csv": [".csv"],
+          "text/plain": [".csv"],
+          "application/vnd.ms-excel": [".csv"],
+        }}
+        maxSize={5 * 1024 * 1024} // 5MB for CSV files
+        onFileSelect={handleFileSelect}
+        selectedFile={selectedFile}
+        isProcessing={isProcessing}
+        onReset={handleReset}
+        disabled={isImporting}
+        title="Drop your broker export here"
+      />
+
+      {/* Parse results */}
+      {parseResult && !isProcessing && (
+        <>
+          {brokerName && (
+            <p className="text-muted-foreground text-sm">
+              Detected export from{" "}
+              <span className="text-foreground font-medium">{brokerName}</span>.
+            </p>
+          )}
+          <ImportResults result={parseResult} />
+          {!!preview?.duplicateCount && (
+            <p className="text-muted-foreground text-sm">
+              {preview.duplicateCount} trade(s) were already imported and will
+              be skipped.
+            </p>
+          )}
+        </>
+      )}
+
+      {/* Footer - Action buttons */}
+      <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+        <Button
+          variant="outline"
+          onClick={() => setOpen(false)}
+          disabled={isProcessing || isImporting}
+        >
+          Cancel
+        </Button>
+
+        {parseResult?.success && preview && !isProcessing && (
+          <Button
+            onClick={handleImport}
+            disabled={isImporting || preview.newCount === 0}
+          >
+            {isImporting ? (
+              <>
+                <Spinner />
+                Importing...
+              </>
+            ) : (
+              <>
+                <Upload className="size-4" />
+                Import {preview.newCount} trade(s)
+              </>
+            )}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
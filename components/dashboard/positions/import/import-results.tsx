@@ -1,15 +1,21 @@
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { AlertCircle, CheckCircle } from "lucide-react";
 
-import type { PositionImportResult } from "@/lib/import/types";
+import type {
+  PositionImportResult,
+  TransactionImportResult,
+} from "@/lib/import/types";
 
 interface ImportResultsProps {
-  result: PositionImportResult;
+  result: PositionImportResult | TransactionImportResult;
 }
 
 export function ImportResults({ result }: ImportResultsProps) {
-  const { success, positions, warnings = [], errors = [] } = result;
-  const positionsCount = positions.length;
+  const { success, warnings = [], errors = [] } = result;
+  const summary =
+    "positions" in result
+      ? `${result.positions.length} position(s)`
+      : `${result.transactions.length} trade(s)`;
 
   const hasWarnings = warnings.length > 0;
   const hasErrors = errors.length > 0;
@@ -25,7 +31,7 @@ export function ImportResults({ result }: ImportResultsProps) {
             <CheckCircle className="size-4" />
             <AlertTitle>File validated successfully!</AlertTitle>
             <AlertDescription className="text-green-600">
-              Found {positionsCount} position(s) ready to import.
+              Found {summary} ready to import.
             </AlertDescription>
           </Alert>
 
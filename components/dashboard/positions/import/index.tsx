@@ -1,7 +1,7 @@
 "use client";
 
 import { createContext, useContext, useState } from "react";
-import { FileText, Sparkles, Upload } from "lucide-react";
+import { FileText, History, Sparkles, Upload } from "lucide-react";
 
 import { Button, buttonVariants } from "@/components/ui/button";
 import {
@@ -15,15 +15,20 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 import { CSVImportForm } from "./csv-form";
 import { AIImportForm } from "./ai-form";
+import { HistoryImportForm } from "./history-form";
 import { ImportReviewDialog } from "./review";
 
 import type { VariantProps } from "class-variance-authority";
 import type { PositionImportRow } from "@/lib/import/types";
 import type { SymbolValidationResult } from "@/server/symbols/validate";
 
+type ImportPositionType = "asset" | "liability";
+
 type ImportDialogContextType = {
   open: boolean;
   setOpen: (open: boolean) => void;
+  positionType: ImportPositionType;
+  setPositionType: (positionType: ImportPositionType) => void;
   reviewOpen: boolean;
   setReviewOpen: (open: boolean) => void;
   reviewPositions: PositionImportRow[] | null;
@@ -46,6 +51,7 @@ export function ImportPositionsDialogProvider({
   children: React.ReactNode;
 }) {
   const [open, setOpen] = useState(false);
+  const [positionType, setPositionType] = useState<ImportPositionType>("asset");
   const [reviewOpen, setReviewOpen] = useState(false);
   const [reviewPositions, setReviewPositions] = useState<
     PositionImportRow[] | null
@@ -65,6 +71,8 @@ export function ImportPositionsDialogProvider({
       value={{
         open,
         setOpen,
+        positionType,
+        setPositionType,
         reviewOpen,
         setReviewOpen,
         reviewPositions,
@@ -84,10 +92,14 @@ export function ImportPositionsDialogProvider({
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <Upload className="size-5" />
-              Import Assets
+              {positionType === "liability"
+                ? "Import Liabilities"
+                : "Import Assets"}
             </DialogTitle>
             <DialogDescription className="sr-only">
-              Import your assets from a CSV file or AI.
+              Import your{" "}
+              {positionType === "liability" ? "liabilities" : "assets"} from a
+              CSV file or AI.
             </DialogDescription>
           </DialogHeader>
           <Tabs defaultValue="csv-import" className="gap-4">
@@ -98,6 +110,11 @@ export function ImportPositionsDialogProvider({
               <TabsTrigger value="ai-import">
                 <Sparkles className="size-4" /> AI Import
               </TabsTrigger>
+              {positionType === "asset" && (
+                <TabsTrigger value="history-import">
+                  <History className="size-4" /> History
+                </TabsTrigger>
+              )}
             </TabsList>
             <TabsContent value="csv-import">
               <CSVImportForm />
@@ -105,6 +122,11 @@ export function ImportPositionsDialogProvider({
             <TabsContent value="ai-import">
               <AIImportForm />
             </TabsContent>
+            {positionType === "asset" && (
+              <TabsContent value="history-import">
+                <HistoryImportForm />
+              </TabsContent>
+            )}
           </Tabs>
         </DialogContent>
       </Dialog>
@@ -125,13 +147,20 @@ export function useImportPositionsDialog() {
 
 export function ImportPositionsButton({
   variant = "default",
+  positionType = "asset",
 }: {
   variant?: VariantProps<typeof buttonVariants>["variant"];
+  positionType?: ImportPositionType;
 }) {
-  const { setOpen } = useImportPositionsDialog();
+  const { setOpen, setPositionType } = useImportPositionsDialog();
+
+  const handleClick = () => {
+    setPositionType(positionType);
+    setOpen(true);
+  };
 
   return (
-    <Button variant={variant} onClick={() => setOpen(true)}>
+    <Button variant={variant} onClick={handleClick}>
       <Upload className="size-4" />
       Import
     </Button>
@@ -0,0 +1,106 @@
+import { ArrowRight } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+import { formatNumber } from "@/lib/number-format";
+
+import type {
+  PositionImportDiffRow,
+  PositionImportDiffStatus,
+} from "@/lib/import/types";
+
+const STATUS_LABELS: Record<PositionImportDiffStatus, string> = {
+  new: "New",
+  update: "Update",
+  unchanged: "Unchanged",
+};
+
+const STATUS_VARIANTS: Record<
+  PositionImportDiffStatus,
+  "default" | "secondary" | "outline"
+> = {
+  new: "default",
+  update: "secondary",
+  unchanged: "outline",
+};
+
+interface ImportDiffTableProps {
+  diff: PositionImportDiffRow[];
+}
+
+/**
+ * What applying an import changes: new positions, quantity updates on
+ * matched positions and rows that already match.
+ */
+export function ImportDiffTable({ diff }: ImportDiffTableProps) {
+  const counts = diff.reduce(
+    (acc, entry) => ({ ...acc, [entry.status]: acc[entry.status] + 1 }),
+    { new: 0, update: 0, unchanged: 0 },
+  );
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col gap-4">
+      <p className="text-muted-foreground text-sm">
+        {counts.new} new position(s), {counts.update} quantity update(s) and{" "}
+        {counts.unchanged} unchanged row(s).
+      </p>
+      <div className="min-h-0 flex-1 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Status</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>Symbol</TableHead>
+              <TableHead className="text-right">Quantity</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {diff.map((entry, index) => (
+              <TableRow
+                key={index}
+                className={
+                  entry.status === "unchanged"
+                    ? "text-muted-foreground"
+                    : undefined
+                }
+              >
+                <TableCell>
+                  <Badge variant={STATUS_VARIANTS[entry.status]}>
+                    {STATUS_LABELS[entry.status]}
+                  </Badge>
+                </TableCell>
+                <TableCell>{entry.row.name}</TableCell>
+                <TableCell>{entry.row.symbolLookup ?? "-"}</TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {entry.status === "update" ? (
+                    <span className="inline-flex items-center gap-1">
+                      {formatNumber(entry.currentQuantity ?? 0, undefined, {
+                        maximumFractionDigits: 6,
+                      })}
+                      <ArrowRight className="size-3" />
+                      {formatNumber(entry.row.quantity, undefined, {
+                        maximumFractionDigits: 6,
+                      })}
+                    </span>
+                  ) : (
+                    formatNumber(entry.row.quantity, undefined, {
+                      maximumFractionDigits: 6,
+                    })
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
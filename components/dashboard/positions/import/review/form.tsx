@@ -5,7 +5,7 @@ import { useForm, useFieldArray } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { toast } from "sonner";
-import { Upload, Info, Trash2, Plus } from "lucide-react";
+import { Upload, Info, Trash2, Plus, GitCompare } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Spinner } from "@/components/ui/spinner";
@@ -34,17 +34,29 @@ import {
 import { PositionCategorySelector } from "@/components/dashboard/position-category-selector";
 import { CurrencySelector } from "@/components/dashboard/currency-selector";
 import { SymbolSearch } from "@/components/dashboard/symbol-search";
+import { ImportDiffTable } from "./diff";
+
+import { cn } from "@/lib/utils";
 
 import type { PositionCategory } from "@/types/global.types";
 import type { CurrencyValidationResult } from "@/server/currencies/validate";
 import type { SymbolValidationResult } from "@/server/symbols/validate";
-import type { PositionImportRow, ImportActionResult } from "@/lib/import/types";
+import type {
+  PositionImportRow,
+  ImportActionResult,
+  PositionImportDiffRow,
+  PositionImportPreviewResult,
+} from "@/lib/import/types";
 
 interface ReviewFormProps {
   initialPositions: PositionImportRow[];
   onCancel: () => void;
+  onPreview: (
+    positions: PositionImportRow[],
+  ) => Promise<PositionImportPreviewResult>;
   onImport: (positions: PositionImportRow[]) => Promise<ImportActionResult>;
   onSuccess: () => void;
+  positionType: "asset" | "liability";
   categories: PositionCategory[];
   currencyValidation: Record<string, CurrencyValidationResult>;
   symbolValidation: Record<string, SymbolValidationResult>;
@@ -53,8 +65,10 @@ interface ReviewFormProps {
 export function ReviewForm({
   initialPositions,
   onCancel,
+  onPreview,
   onImport,
   onSuccess,
+  positionType,
   categories,
   currencyValidation,
   symbolValidation,
@@ -63,6 +77,11 @@ export function ReviewForm({
     null,
   );
   const [isImporting, setIsImporting] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  // Changes against existing positions, shown before applying
+  const [diff, setDiff] = useState<PositionImportDiffRow[] | null>(null);
+  const changesCount =
+    diff?.filter((entry) => entry.status !== "unchanged").length ?? 0;
 
   // Create validation schema with dynamic categories
   const categoryIds = categories.map((cat) => cat.id) as [string, ...string[]];
@@ -202,9 +221,9 @@ export function ReviewForm({
     };
   }, [form, initialPositions]);
 
-  // Handle import
-  const handleImport = async () => {
-    setIsImporting(true);
+  // Handle preview of the changes against existing positions
+  const handlePreview = async () => {
+    setIsPreviewing(true);
 
     try {
       // Explicitly trigger validation
@@ -216,15 +235,35 @@ export function ReviewForm({
       }
 
       const positions = form.getValues().positions as PositionImportRow[];
-      const result = await onImport(positions);
+      const result = await onPreview(positions);
 
       if (!result.success) {
         throw new Error(result.error);
       }
 
-      toast.success(
-        `Successfully imported ${result.importedCount} position(s)!`,
+      setDiff(result.diff);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to preview import",
       );
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  // Handle import (applies the previewed diff)
+  const handleImport = async () => {
+    setIsImporting(true);
+
+    try {
+      const positions = form.getValues().positions as PositionImportRow[];
+      const result = await onImport(positions);
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      toast.success(`Successfully imported ${result.importedCount} change(s)!`);
       onSuccess();
     } catch (error) {
       toast.error(
@@ -238,7 +277,9 @@ export function ReviewForm({
   return (
     <div className="flex min-h-0 flex-1 flex-col gap-4">
       <Form {...form}>
-        <div className="min-h-0 flex-1 overflow-y-auto">
+        {diff && <ImportDiffTable diff={diff} />}
+
+        <div className={cn("min-h-0 flex-1 overflow-y-auto", diff && "hidden")}>
           <Table>
             <TableHeader>
               <TableRow>
@@ -328,6 +369,7 @@ export function ReviewForm({
                           <FormControl>
                             <PositionCategorySelector
                               field={field}
+                              positionType={positionType}
                               popoverWidth="w-64"
                             />
                           </FormControl>
@@ -530,25 +572,52 @@ export function ReviewForm({
         </div>
 
         <div className="flex justify-end gap-2">
-          <Button variant="outline" onClick={onCancel} disabled={isImporting}>
-            Back
-          </Button>
           <Button
-            onClick={handleImport}
-            disabled={isImporting || (hasInitialErrors === true && !isDirty)}
+            variant="outline"
+            onClick={diff ? () => setDiff(null) : onCancel}
+            disabled={isImporting || isPreviewing}
           >
-            {isImporting ? (
-              <>
-                <Spinner />
-                Importing...
-              </>
-            ) : (
-              <>
-                <Upload className="size-4" />
-                Import {fields.length} position(s)
-              </>
-            )}
+            Back
           </Button>
+          {diff ? (
+            <Button
+              onClick={handleImport}
+              disabled={isImporting || changesCount === 0}
+            >
+              {isImporting ? (
+                <>
+                  <Spinner />
+                  Importing...
+                </>
+              ) : (
+                <>
+                  <Upload className="size-4" />
+                  Apply {changesCount} change(s)
+                </>
+              )}
+            </Button>
+          ) : (
+            <Button
+              onClick={handlePreview}
+              disabled={
+                isPreviewing ||
+                fields.length === 0 ||
+                (hasInitialErrors === true && !isDirty)
+              }
+            >
+              {isPreviewing ? (
+                <>
+                  <Spinner />
+                  Comparing...
+                </>
+              ) : (
+                <>
+                  <GitCompare className="size-4" />
+                  Review {fields.length} position(s)
+                </>
+              )}
+            </Button>
+          )}
         </div>
       </Form>
     </div>
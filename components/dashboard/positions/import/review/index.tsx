@@ -9,7 +9,10 @@ import {
 import { PositionsImportReviewTable } from "./table";
 import { useImportPositionsDialog } from "../index";
 
-import { importPositionsFromCSV } from "@/server/positions/import";
+import {
+  importPositionsFromCSV,
+  previewPositionsImport,
+} from "@/server/positions/import";
 import { positionsToCSV } from "@/lib/import/serialize";
 
 import type { PositionImportRow } from "@/lib/import/types";
@@ -25,6 +28,7 @@ export function ImportReviewDialog() {
     reviewSupportedCurrencies,
     setReviewSymbolValidation,
     setReviewSupportedCurrencies,
+    positionType,
   } = useImportPositionsDialog();
 
   const handleCancel = () => {
@@ -34,9 +38,14 @@ export function ImportReviewDialog() {
     setReviewSupportedCurrencies(null);
   };
 
+  const handlePreview = async (rows: PositionImportRow[]) => {
+    const csv = positionsToCSV(rows);
+    return await previewPositionsImport(csv, positionType);
+  };
+
   const handleImport = async (rows: PositionImportRow[]) => {
     const csv = positionsToCSV(rows);
-    return await importPositionsFromCSV(csv, "asset");
+    return await importPositionsFromCSV(csv, positionType);
   };
 
   const handleSuccess = () => {
@@ -58,14 +67,17 @@ export function ImportReviewDialog() {
         <DialogHeader className="flex-none">
           <DialogTitle>Review Import</DialogTitle>
           <DialogDescription>
-            Review and edit your positions before importing.
+            Review and edit your positions, then check how they change your
+            existing positions before importing.
           </DialogDescription>
         </DialogHeader>
         <PositionsImportReviewTable
           initialPositions={reviewPositions}
           onCancel={handleCancel}
+          onPreview={handlePreview}
           onImport={handleImport}
           onSuccess={handleSuccess}
+          positionType={positionType}
           precomputedSymbolValidation={reviewSymbolValidation ?? undefined}
           supportedCurrencies={reviewSupportedCurrencies ?? undefined}
         />
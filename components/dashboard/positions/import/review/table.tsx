@@ -8,13 +8,21 @@ import { ReviewForm } from "./form";
 
 import type { CurrencyValidationResult } from "@/server/currencies/validate";
 import type { SymbolValidationResult } from "@/server/symbols/validate";
-import type { PositionImportRow, ImportActionResult } from "@/lib/import/types";
+import type {
+  PositionImportRow,
+  ImportActionResult,
+  PositionImportPreviewResult,
+} from "@/lib/import/types";
 
 interface PositionsImportReviewTableProps {
   initialPositions: PositionImportRow[];
   onCancel: () => void;
+  onPreview: (
+    positions: PositionImportRow[],
+  ) => Promise<PositionImportPreviewResult>;
   onImport: (positions: PositionImportRow[]) => Promise<ImportActionResult>;
   onSuccess: () => void;
+  positionType?: "asset" | "liability";
   // Optional server-computed validations to avoid re-validating on mount
   precomputedSymbolValidation?: Record<string, SymbolValidationResult>;
   supportedCurrencies?: string[];
@@ -24,13 +32,15 @@ interface PositionsImportReviewTableProps {
 export function PositionsImportReviewTable({
   initialPositions,
   onCancel,
+  onPreview,
   onImport,
   onSuccess,
+  positionType = "asset",
   precomputedSymbolValidation,
   supportedCurrencies,
 }: PositionsImportReviewTableProps) {
   const { categories, isLoading: isLoadingCategories } =
-    usePositionCategories();
+    usePositionCategories(positionType);
 
   // Build validation maps from precomputed props (no network calls)
   const usedSymbols = useMemo(
@@ -91,8 +101,10 @@ export function PositionsImportReviewTable({
     <ReviewForm
       initialPositions={initialPositions}
       onCancel={onCancel}
+      onPreview={onPreview}
       onImport={onImport}
       onSuccess={onSuccess}
+      positionType={positionType}
       categories={categories}
       currencyValidation={currencyValidation}
       symbolValidation={symbolValidation}
@@ -0,0 +1,52 @@
+import { Archive } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { EditLiabilityButton } from "./edit-liability-button";
+import { AssetMoreActionsButton } from "@/components/dashboard/positions/asset/asset-more-actions-button";
+
+import { formatCurrency } from "@/lib/number-format";
+
+import type { TransformedPosition } from "@/types/global.types";
+
+export function LiabilityHeader({
+  position,
+}: {
+  position: TransformedPosition;
+}) {
+  return (
+    <div className="space-y-2">
+      {/* Liability name and category */}
+      <div className="flex flex-col flex-wrap items-start gap-2 md:flex-row md:items-center">
+        <h1 className="text-2xl font-semibold">{position.name}</h1>
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="secondary">{position.category_name}</Badge>
+          {position.is_archived && (
+            <Badge variant="secondary">
+              <Archive className="size-4" /> Archived
+            </Badge>
+          )}
+          <EditLiabilityButton position={position} />
+          <AssetMoreActionsButton position={position} />
+        </div>
+      </div>
+
+      {/* Position description */}
+      {position.description && (
+        <p className="text-muted-foreground">{position.description}</p>
+      )}
+
+      <div className="bg-card mt-3 grid grid-cols-2 gap-4 rounded-lg border px-4 py-2 text-sm md:grid-cols-4">
+        <div>
+          <p className="text-muted-foreground">Outstanding balance</p>
+          <p className="font-semibold text-red-600">
+            {formatCurrency(position.total_value, position.currency)}
+          </p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Currency</p>
+          <p className="font-semibold">{position.currency}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
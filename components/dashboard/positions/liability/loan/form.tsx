@@ -0,0 +1,496 @@
+"use client";
+
+import { toast } from "sonner";
+import { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useFieldArray, useForm } from "react-hook-form";
+import { z } from "zod";
+import { format } from "date-fns";
+import { CalendarIcon, Plus, Trash2 } from "lucide-react";
+
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Spinner } from "@/components/ui/spinner";
+
+import { cn } from "@/lib/utils";
+import { requiredNumberWithConstraints } from "@/lib/zod-helpers";
+
+import { createLoan } from "@/server/loans/create";
+import { updateLoan } from "@/server/loans/update";
+import { deleteLoan } from "@/server/loans/delete";
+
+import { LOAN_PAYMENT_FREQUENCIES } from "@/types/enums";
+import type { Loan, LoanExtraPayment } from "@/types/global.types";
+
+const FREQUENCY_LABELS: Record<Loan["payment_frequency"], string> = {
+  weekly: "Weekly",
+  biweekly: "Every two weeks",
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  annually: "Annually",
+};
+
+const formSchema = z.object({
+  principal: requiredNumberWithConstraints("Principal is required.", {
+    gt: { value: 0, error: "Principal must be greater than 0." },
+  }),
+  annual_interest_rate: requiredNumberWithConstraints(
+    "Interest rate is required.",
+    {
+      gte: { value: 0, error: "Interest rate must be 0 or greater." },
+      lte: { value: 100, error: "Interest rate must not exceed 100." },
+    },
+  ),
+  term_months: requiredNumberWithConstraints("Term is required.", {
+    gt: { value: 0, error: "Term must be at least 1 month." },
+    lte: { value: 600, error: "Term must not exceed 600 months." },
+  }).pipe(z.number().int({ error: "Term must be a whole number of months." })),
+  payment_frequency: z.enum(LOAN_PAYMENT_FREQUENCIES),
+  start_date: z.date({ error: "A start date is required." }),
+  recurring_extra_payment: requiredNumberWithConstraints(
+    "Extra payment is required.",
+    {
+      gte: { value: 0, error: "Extra payment must be 0 or greater." },
+    },
+  ),
+  extra_payments: z.array(
+    z.object({
+      date: z.date({ error: "A date is required." }),
+      amount: requiredNumberWithConstraints("Amount is required.", {
+        gt: { value: 0, error: "Amount must be greater than 0." },
+      }),
+    }),
+  ),
+});
+
+const parseDateKey = (dateKey: string) => new Date(`${dateKey}T00:00:00`);
+
+interface LoanFormProps {
+  positionId: string;
+  loan?: Loan;
+  extraPayments?: LoanExtraPayment[];
+  onSuccess?: () => void;
+}
+
+export function LoanForm({
+  positionId,
+  loan,
+  extraPayments = [],
+  onSuccess,
+}: LoanFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const form = useForm({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      principal: loan?.principal ?? "",
+      annual_interest_rate: loan?.annual_interest_rate ?? "",
+      term_months: loan?.term_months ?? "",
+      payment_frequency: loan?.payment_frequency ?? "monthly",
+      start_date: loan ? parseDateKey(loan.start_date) : new Date(),
+      recurring_extra_payment: loan?.recurring_extra_payment ?? 0,
+      extra_payments: extraPayments.map((payment) => ({
+        date: parseDateKey(payment.date),
+        amount: payment.amount,
+      })),
+    },
+  });
+
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "extra_payments",
+  });
+
+  // Get isDirty state from formState
+  const { isDirty } = form.formState;
+
+  // Submit handler
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    setIsLoading(true);
+    try {
+      const formData = new FormData();
+      formData.append("position_id", positionId);
+      formData.append("principal", values.principal.toString());
+      formData.append(
+        "annual_interest_rate",
+        values.annual_interest_rate.toString(),
+      );
+      formData.append("term_months", values.term_months.toString());
+      formData.append("payment_frequency", values.payment_frequency);
+      formData.append("start_date", format(values.start_date, "yyyy-MM-dd"));
+      formData.append(
+        "recurring_extra_payment",
+        values.recurring_extra_payment.toString(),
+      );
+      formData.append(
+        "extra_payments",
+        JSON.stringify(
+          values.extra_payments.map((payment) => ({
+            date: format(payment.date, "yyyy-MM-dd"),
+            amount: payment.amount,
+          })),
+        ),
+      );
+
+      const result = loan
+        ? await updateLoan(formData, loan.id)
+        : await createLoan(formData);
+
+      // Handle error response from server action
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      toast.success(loan ? "Loan schedule updated" : "Loan schedule created");
+
+      // Close the dialog
+      onSuccess?.();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save loan schedule",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // Remove the loan model (manual balance records are kept)
+  async function handleDelete() {
+    if (!loan) return;
+
+    setIsDeleting(true);
+    try {
+      const result = await deleteLoan(loan.id);
+
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      toast.success("Loan schedule removed");
+      onSuccess?.();
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to remove loan schedule",
+      );
+    } finally {
+      setIsDeleting(false);
+    }
+  }
+
+  const isBusy = isLoading || isDeleting;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-4">
+        <div className="grid items-start gap-x-2 gap-y-4 sm:grid-cols-2">
+          {/* Principal */}
+          <FormField
+            control={form.control}
+            name="principal"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Principal</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="E.g., 250000"
+                    type="number"
+                    inputMode="decimal"
+                    min={0}
+                    step="any"
+                    {...field}
+                    value={field.value as number}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {/* Interest rate */}
+          <FormField
+            control={form.control}
+            name="annual_interest_rate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Annual interest rate (%)</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="E.g., 4.5"
+                    type="number"
+                    inputMode="decimal"
+                    min={0}
+                    max={100}
+                    step="any"
+                    {...field}
+                    value={field.value as number}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {/* Term */}
+          <FormField
+            control={form.control}
+            name="term_months"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Term (months)</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="E.g., 360"
+                    type="number"
+                    inputMode="numeric"
+                    min={1}
+                    max={600}
+                    step={1}
+                    {...field}
+                    value={field.value as number}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {/* Payment frequency */}
+          <FormField
+            control={form.control}
+            name="payment_frequency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Payment frequency</FormLabel>
+                <FormControl>
+                  <Select
+                    onValueChange={(value) => field.onChange(value)}
+                    value={field.value}
+                  >
+                    <SelectTrigger className="w-full" id={field.name}>
+                      <SelectValue placeholder="Select frequency" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LOAN_PAYMENT_FREQUENCIES.map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {FREQUENCY_LABELS[value]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {/* Start date */}
+          <FormField
+            control={form.control}
+            name="start_date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Start date</FormLabel>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <FormControl>
+                      <Button
+                        variant="outline"
+                        className={cn(
+                          "text-left font-normal",
+                          !field.value && "text-muted-foreground",
+                        )}
+                      >
+                        {field.value ? (
+                          format(field.value, "PPP")
+                        ) : (
+                          <span>Pick a date</span>
+                        )}
+                        <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                      </Button>
+                    </FormControl>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="single"
+                      selected={field.value}
+                      onSelect={field.onChange}
+                      disabled={(date) => date < new Date("1900-01-01")}
+                      autoFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {/* Recurring extra payment */}
+          <FormField
+            control={form.control}
+            name="recurring_extra_payment"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Extra per payment</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="E.g., 100"
+                    type="number"
+                    inputMode="decimal"
+                    min={0}
+                    step="any"
+                    {...field}
+                    value={field.value as number}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* One-off extra payments */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">One-off extra payments</p>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => append({ date: new Date(), amount: "" })}
+            >
+              <Plus className="size-4" /> Add
+            </Button>
+          </div>
+          {fields.map((item, index) => (
+            <div key={item.id} className="flex items-start gap-2">
+              <FormField
+                control={form.control}
+                name={`extra_payments.${index}.date`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <Button
+                            variant="outline"
+                            className="w-full text-left font-normal"
+                          >
+                            {format(field.value, "PPP")}
+                            <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                          </Button>
+                        </FormControl>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-0" align="start">
+                        <Calendar
+                          mode="single"
+                          selected={field.value}
+                          onSelect={field.onChange}
+                          disabled={(date) => date < new Date("1900-01-01")}
+                          autoFocus
+                        />
+                      </PopoverContent>
+                    </Popover>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`extra_payments.${index}.amount`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input
+                        placeholder="Amount"
+                        type="number"
+                        inputMode="decimal"
+                        min={0}
+                        step="any"
+                        {...field}
+                        value={field.value as number}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label="Remove extra payment"
+                onClick={() => remove(index)}
+              >
+                <Trash2 className="size-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+          {loan && (
+            <Button
+              onClick={handleDelete}
+              disabled={isBusy}
+              type="button"
+              variant="destructive"
+              className="sm:mr-auto"
+            >
+              {isDeleting ? (
+                <>
+                  <Spinner />
+                  Removing...
+                </>
+              ) : (
+                "Remove schedule"
+              )}
+            </Button>
+          )}
+          <Button
+            onClick={onSuccess}
+            disabled={isBusy}
+            type="button"
+            variant="secondary"
+          >
+            Cancel
+          </Button>
+          <Button disabled={isBusy || !isDirty} type="submit">
+            {isLoading ? (
+              <>
+                <Spinner />
+                Saving...
+              </>
+            ) : (
+              "Save schedule"
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { useState } from "react";
+import { CalendarClock } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+
+import { LoanForm } from "./form";
+
+import type { Loan, LoanExtraPayment } from "@/types/global.types";
+
+interface LoanScheduleButtonProps {
+  positionId: string;
+  loan?: Loan;
+  extraPayments?: LoanExtraPayment[];
+}
+
+export function LoanScheduleButton({
+  positionId,
+  loan,
+  extraPayments,
+}: LoanScheduleButtonProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-auto gap-1 rounded-md px-2 py-0.5 text-xs"
+        onClick={() => setOpen(true)}
+      >
+        <CalendarClock className="size-3" />
+        {loan ? "Edit Schedule" : "Add Loan Schedule"}
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-h-[calc(100dvh-1rem)] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Loan Schedule</DialogTitle>
+            <DialogDescription>
+              The balance history is generated from these terms. Balance updates
+              you record manually take precedence over the schedule.
+            </DialogDescription>
+          </DialogHeader>
+          <LoanForm
+            positionId={positionId}
+            loan={loan}
+            extraPayments={extraPayments}
+            onSuccess={() => setOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
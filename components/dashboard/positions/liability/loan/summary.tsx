@@ -0,0 +1,104 @@
+import { format } from "date-fns";
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+import { formatCurrency } from "@/lib/number-format";
+import type { LoanSchedule } from "@/lib/loan-schedule";
+
+// Number of upcoming payments listed below the summary
+const UPCOMING_PAYMENTS = 6;
+
+interface LoanSummaryProps {
+  schedule: LoanSchedule;
+  currency: string;
+  asOfDate?: Date;
+}
+
+export function LoanSummary({
+  schedule,
+  currency,
+  asOfDate = new Date(),
+}: LoanSummaryProps) {
+  const upcoming = schedule.periods.filter((period) => period.date > asOfDate);
+  const remainingInterest = upcoming.reduce(
+    (sum, period) => sum + period.interest,
+    0,
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="bg-card grid grid-cols-2 gap-4 rounded-lg border px-4 py-2 text-sm md:grid-cols-4">
+        <div>
+          <p className="text-muted-foreground">Scheduled payment</p>
+          <p className="font-semibold">
+            {formatCurrency(schedule.scheduledPayment, currency)}
+          </p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Projected payoff</p>
+          <p className="font-semibold">
+            {schedule.payoffDate ? format(schedule.payoffDate, "PPP") : "Never"}
+          </p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Remaining payments</p>
+          <p className="font-semibold">{upcoming.length}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Remaining interest</p>
+          <p className="font-semibold">
+            {formatCurrency(remainingInterest, currency)}
+          </p>
+        </div>
+      </div>
+
+      {upcoming.length > 0 && (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead className="text-right">Payment</TableHead>
+                <TableHead className="text-right">Interest</TableHead>
+                <TableHead className="text-right">Principal</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {upcoming.slice(0, UPCOMING_PAYMENTS).map((period) => (
+                <TableRow key={period.date.toISOString()}>
+                  <TableCell>{format(period.date, "PPP")}</TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatCurrency(
+                      period.payment + period.extraPayment,
+                      currency,
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatCurrency(period.interest, currency)}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatCurrency(
+                      period.principal + period.extraPayment,
+                      currency,
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatCurrency(period.balance, currency)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
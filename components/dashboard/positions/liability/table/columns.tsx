@@ -0,0 +1,146 @@
+"use client";
+
+import { ArrowUpDown } from "lucide-react";
+import type { ColumnDef } from "@tanstack/react-table";
+
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ActionsCell } from "@/components/dashboard/positions/asset/table/row-actions/actions-cell";
+
+import { formatNumber } from "@/lib/number-format";
+
+import type { TransformedPosition } from "@/types/global.types";
+
+export const columns: ColumnDef<TransformedPosition>[] = [
+  {
+    id: "select",
+    header: ({ table }) => (
+      <Checkbox
+        checked={
+          table.getIsAllPageRowsSelected() ||
+          (table.getIsSomePageRowsSelected() && "indeterminate")
+        }
+        onCheckedChange={(value) => table.toggleAllPageRowsSelected(!!value)}
+        onClick={(e) => e.stopPropagation()}
+        aria-label="Select all"
+      />
+    ),
+    cell: ({ row }) => (
+      <Checkbox
+        checked={row.getIsSelected()}
+        onCheckedChange={(value) => row.toggleSelected(!!value)}
+        onClick={(e) => e.stopPropagation()}
+        aria-label="Select row"
+      />
+    ),
+    enableSorting: false,
+    enableHiding: false,
+    size: 32,
+  },
+  // Category header - hidden
+  {
+    accessorKey: "category_id",
+    header: () => null,
+    cell: () => null,
+    enableSorting: false,
+    enableHiding: false,
+    size: 0,
+    minSize: 0,
+    maxSize: 0,
+  },
+  {
+    accessorKey: "name",
+    header: ({ column }) => {
+      return (
+        <div
+          className="hover:text-primary flex cursor-pointer items-center gap-2 transition-colors"
+          onClick={() => column.toggleSorting(column.getIsSorted() === "asc")}
+        >
+          Name
+          <ArrowUpDown className="size-4" />
+        </div>
+      );
+    },
+    cell: ({ row }) => {
+      if (row.getIsGrouped()) {
+        // group row → show category name and number of positions aligned under Name column
+        const firstLeaf = row.getLeafRows()[0];
+        const categoryName = firstLeaf?.original.category_name;
+        return (
+          <div className="flex items-center gap-2 font-semibold">
+            {categoryName}
+            <Badge variant="secondary" className="font-semibold">
+              {row.getLeafRows().length}
+            </Badge>
+          </div>
+        );
+      }
+
+      const name = row.getValue<string>("name");
+      return (
+        <div className="flex w-40 sm:w-64 lg:w-80">
+          <Tooltip delayDuration={500}>
+            <TooltipTrigger asChild>
+              <div className="truncate underline-offset-4 hover:underline">
+                {name}
+              </div>
+            </TooltipTrigger>
+            <TooltipContent>{name}</TooltipContent>
+          </Tooltip>
+        </div>
+      );
+    },
+  },
+  {
+    accessorKey: "currency",
+    header: "Currency",
+    cell: ({ row }) => {
+      const currency = row.getValue<string>("currency");
+      return <Badge variant="secondary">{currency}</Badge>;
+    },
+  },
+  {
+    accessorKey: "total_value",
+    meta: {
+      headerClassName: "text-right",
+      cellClassName: "text-right",
+    },
+    header: ({ column }) => {
+      return (
+        <div
+          className="hover:text-primary flex cursor-pointer items-center justify-end gap-2 transition-colors"
+          onClick={() => column.toggleSorting(column.getIsSorted() === "asc")}
+        >
+          Outstanding balance
+          <ArrowUpDown className="size-4" />
+        </div>
+      );
+    },
+    cell: ({ row }) => {
+      const total_value = row.getValue<number>("total_value");
+      return (
+        <div className="tabular-nums">
+          {formatNumber(total_value, undefined, {
+            maximumFractionDigits: 2,
+          })}
+        </div>
+      );
+    },
+  },
+  {
+    id: "actions",
+    meta: {
+      headerClassName: "text-right",
+      cellClassName: "text-right",
+    },
+    cell: ({ row }) => {
+      const position = row.original;
+      return <ActionsCell position={position} />;
+    },
+  },
+];
@@ -0,0 +1,46 @@
+"use client";
+
+import Link from "next/link";
+import { MoreHorizontal, Upload, Archive } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+import { useImportPositionsDialog } from "@/components/dashboard/positions/import";
+
+export function TableActionsDropdown() {
+  const { setOpen: setOpenImportPositionsDialog, setPositionType } =
+    useImportPositionsDialog();
+
+  // Open the shared import dialog in liability mode
+  const handleImport = () => {
+    setPositionType("liability");
+    setOpenImportPositionsDialog(true);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon">
+          <span className="sr-only">Open menu</span>
+          <MoreHorizontal className="size-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={handleImport}>
+          <Upload className="size-4" /> Import
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <Link href="/dashboard/liabilities/archived">
+            <Archive className="size-4" /> View archived
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
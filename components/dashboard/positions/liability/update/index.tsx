@@ -0,0 +1,43 @@
+"use client";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+import { UpdateLiabilityForm } from "./form";
+
+import type { Position } from "@/types/global.types";
+
+interface UpdateLiabilityDialogProps {
+  position: Position;
+  open: boolean;
+  onOpenChangeAction: (open: boolean) => void;
+}
+
+export function UpdateLiabilityDialog({
+  position,
+  open,
+  onOpenChangeAction,
+}: UpdateLiabilityDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChangeAction}>
+      <DialogContent className="max-h-[calc(100dvh-1rem)] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Liability</DialogTitle>
+          <DialogDescription>
+            Edit the name, category, currency, and description for this
+            liability.
+          </DialogDescription>
+        </DialogHeader>
+        <UpdateLiabilityForm
+          position={position}
+          onSuccess={() => onOpenChangeAction(false)}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
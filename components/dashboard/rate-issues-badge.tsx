@@ -0,0 +1,40 @@
+import { format, parseISO } from "date-fns";
+
+import { Badge } from "@/components/ui/badge";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+
+import type { ConversionIssue } from "@/lib/currency-conversion";
+
+export function formatRateIssue({ currency, rateDate }: ConversionIssue) {
+  return rateDate
+    ? `${currency} is converted with the rate from ${format(parseISO(rateDate), "MMM d, yyyy")}.`
+    : `No ${currency} exchange rate: ${currency} amounts aren't converted.`;
+}
+
+/**
+ * Marks a figure converted with stale or missing exchange rates.
+ */
+export function RateIssuesBadge({
+  rateIssues,
+}: {
+  rateIssues: ConversionIssue[];
+}) {
+  if (!rateIssues.length) return null;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge className="bg-amber-600/10 text-amber-600">Stale rates</Badge>
+      </TooltipTrigger>
+      <TooltipContent side="bottom">
+        {rateIssues.map((issue) => (
+          <p key={issue.currency}>{formatRateIssue(issue)}</p>
+        ))}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
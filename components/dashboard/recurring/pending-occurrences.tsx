@@ -0,0 +1,155 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { format, parseISO } from "date-fns";
+import { Check, X } from "lucide-react";
+import { toast } from "sonner";
+
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Spinner } from "@/components/ui/spinner";
+import { RECURRING_TYPE_LABELS } from "@/components/dashboard/positions/asset/recurring/recurring-dialog";
+
+import { formatCurrency, formatNumber } from "@/lib/number-format";
+
+import {
+  confirmOccurrence,
+  skipOccurrence,
+} from "@/server/recurring-transactions/occurrences";
+
+import type { fetchPendingOccurrences } from "@/server/recurring-transactions/fetch";
+
+type PendingOccurrence = Awaited<
+  ReturnType<typeof fetchPendingOccurrences>
+>[number];
+
+/**
+ * Recurring transactions that fell due and wait to be confirmed or skipped.
+ * Renders nothing when there is nothing to review.
+ */
+export function PendingOccurrences({
+  occurrences,
+}: {
+  occurrences: PendingOccurrence[];
+}) {
+  if (!occurrences.length) return null;
+
+  return (
+    <Card className="flex flex-col gap-4 rounded-lg shadow-xs">
+      <CardHeader className="flex-none">
+        <CardTitle>Recurring transactions to review</CardTitle>
+      </CardHeader>
+      <CardContent className="divide-y">
+        {occurrences.map((occurrence) => (
+          <PendingOccurrenceRow key={occurrence.id} occurrence={occurrence} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function PendingOccurrenceRow({
+  occurrence,
+}: {
+  occurrence: PendingOccurrence;
+}) {
+  const [unitValue, setUnitValue] = useState("");
+  const [action, setAction] = useState<"confirm" | "skip" | null>(null);
+
+  const currency = occurrence.position?.currency ?? "USD";
+  const needsPrice =
+    occurrence.unit_value === null || occurrence.quantity === null;
+
+  async function handleConfirm() {
+    const price = Number(unitValue);
+    if (needsPrice && !(price > 0)) {
+      toast.error("Enter the unit value to confirm");
+      return;
+    }
+
+    setAction("confirm");
+    try {
+      const result = await confirmOccurrence(
+        occurrence.id,
+        needsPrice ? { unitValue: price } : undefined,
+      );
+      if (!result.success) throw new Error(result.message);
+      toast.success("Transaction recorded");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to record transaction",
+      );
+    } finally {
+      setAction(null);
+    }
+  }
+
+  async function handleSkip() {
+    setAction("skip");
+    try {
+      const result = await skipOccurrence(occurrence.id);
+      if (!result.success) throw new Error(result.message);
+      toast.success("Transaction skipped");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to skip transaction",
+      );
+    } finally {
+      setAction(null);
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-2 py-2 text-sm first:pt-0 last:pb-0 sm:flex-row sm:items-center sm:justify-between">
+      <div className="min-w-0">
+        <div className="truncate font-medium">
+          {RECURRING_TYPE_LABELS[
+            occurrence.type as keyof typeof RECURRING_TYPE_LABELS
+          ] ?? occurrence.type}{" "}
+          {occurrence.position && (
+            <Link
+              href={`/dashboard/assets/${occurrence.position.id}`}
+              className="hover:underline"
+            >
+              {occurrence.position.name}
+            </Link>
+          )}
+        </div>
+        <p className="text-muted-foreground">
+          {format(parseISO(occurrence.due_date), "PP")}
+          {!needsPrice &&
+            ` · ${formatNumber(occurrence.quantity!, undefined, {
+              maximumFractionDigits: 6,
+            })} × ${formatCurrency(occurrence.unit_value!, currency)}`}
+        </p>
+      </div>
+      <div className="flex flex-none items-center gap-2">
+        {needsPrice && (
+          <Input
+            className="h-8 w-32"
+            placeholder={`Unit value (${currency})`}
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step="any"
+            value={unitValue}
+            onChange={(event) => setUnitValue(event.target.value)}
+          />
+        )}
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={action !== null}
+          onClick={handleSkip}
+        >
+          {action === "skip" ? <Spinner /> : <X />} Skip
+        </Button>
+        <Button size="sm" disabled={action !== null} onClick={handleConfirm}>
+          {action === "confirm" ? <Spinner /> : <Check />} Confirm
+        </Button>
+      </div>
+    </div>
+  );
+}
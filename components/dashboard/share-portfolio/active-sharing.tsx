@@ -1,6 +1,6 @@
 "use client";
 
-import { Check, Copy } from "lucide-react";
+import { Check, Copy, Eye, Lock } from "lucide-react";
 
 import {
   InputGroup,
@@ -9,20 +9,26 @@ import {
   InputGroupInput,
 } from "@/components/ui/input-group";
 import { EditSharing, type EditSharingFormValues } from "./edit-sharing";
+import { EmbedCode } from "./embed-code";
 
 import { useCopyToClipboard } from "@/hooks/use-copy-to-clipboard";
 import { cn } from "@/lib/utils";
 
-import type { PublicPortfolioMetadata } from "@/types/global.types";
+import type {
+  PublicPortfolioMetadata,
+  PublicPortfolioViews,
+} from "@/types/global.types";
 
 type ActiveSharingProps = {
   shareMetadata: PublicPortfolioMetadata;
+  views: PublicPortfolioViews | null;
   onUpdate: (values: EditSharingFormValues) => Promise<void> | void;
   isUpdating?: boolean;
 };
 
 export function ActiveSharing({
   shareMetadata,
+  views,
   onUpdate,
   isUpdating = false,
 }: ActiveSharingProps) {
@@ -70,10 +76,29 @@ export function ActiveSharing({
                   shareMetadata.expiresAt,
                 ).toLocaleString()}`
               : "No expiration date set"}
+          {shareMetadata.isPasswordProtected && (
+            <>
+              {" · "}
+              <Lock className="inline size-3" /> Password protected
+            </>
+          )}
         </p>
       </div>
 
-      <div className="flex items-center justify-end gap-2">
+      {!shareMetadata.isPasswordProtected && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Embed</p>
+          <EmbedCode shareUrl={shareMetadata.shareUrl} disabled={isUpdating} />
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-muted-foreground flex items-center gap-1.5 text-sm">
+          <Eye className="size-4" />
+          {views?.total
+            ? `${views.total} ${views.total === 1 ? "view" : "views"} · ${views.last30Days} in the last 30 days`
+            : "No views yet"}
+        </p>
         <EditSharing
           shareMetadata={shareMetadata}
           onSubmit={onUpdate}
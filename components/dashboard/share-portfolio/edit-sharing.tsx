@@ -1,9 +1,9 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Pencil, Link2 } from "lucide-react";
 import { z } from "zod";
-import { useForm } from "react-hook-form";
+import { useForm, useWatch } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { toast } from "sonner";
 
@@ -11,6 +11,9 @@ import { Button } from "@/components/ui/button";
 import { ButtonGroup, ButtonGroupText } from "@/components/ui/button-group";
 import { Spinner } from "@/components/ui/spinner";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   InputGroup,
   InputGroupInput,
@@ -41,13 +44,18 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { SharingPreview } from "./sharing-preview";
 
 import {
   PUBLIC_PORTFOLIO_EXPIRATIONS,
   SLUG_PATTERN,
   MAX_SLUG_LENGTH,
+  MAX_PASSWORD_LENGTH,
+  MIN_PASSWORD_LENGTH,
 } from "@/lib/public-portfolio";
 
+import { fetchShareablePositions } from "@/server/public-portfolios/fetch";
+
 import type {
   PublicPortfolioMetadata,
   PublicPortfolioExpirationOption,
@@ -69,8 +77,42 @@ const formSchema = z.object({
     })
     .transform((value) => value.toLowerCase()),
   expiration: z.enum(PUBLIC_PORTFOLIO_EXPIRATIONS),
+  showValues: z.boolean(),
+  showProfitLoss: z.boolean(),
+  showIncome: z.boolean(),
+  hiddenPositionIds: z.array(z.string()),
+  hiddenCategoryIds: z.array(z.string()),
+  passwordProtected: z.boolean(),
+  // Empty keeps the current password
+  password: z
+    .string()
+    .max(MAX_PASSWORD_LENGTH, {
+      error: `Password must not exceed ${MAX_PASSWORD_LENGTH} characters.`,
+    })
+    .refine((value) => !value || value.length >= MIN_PASSWORD_LENGTH, {
+      error: `Password must contain at least ${MIN_PASSWORD_LENGTH} characters.`,
+    }),
 });
 
+// Visibility toggles, in form order
+const VISIBILITY_FIELDS = [
+  {
+    name: "showValues",
+    label: "Show values",
+    description: "Off shows percentages only.",
+  },
+  {
+    name: "showProfitLoss",
+    label: "Show profit/loss",
+    description: "Cost basis and P/L of each position.",
+  },
+  {
+    name: "showIncome",
+    label: "Show projected income",
+    description: "Only shown together with values.",
+  },
+] as const;
+
 type EditSharingProps = {
   shareMetadata: PublicPortfolioMetadata;
   onSubmit: (values: EditSharingFormValues) => void;
@@ -99,14 +141,45 @@ export function EditSharing({
     defaultValues: {
       slug: shareMetadata.slug,
       expiration: PUBLIC_PORTFOLIO_EXPIRATIONS[0],
+      ...shareMetadata.settings,
+      passwordProtected: shareMetadata.isPasswordProtected,
+      password: "",
     },
   });
 
+  const [
+    showValues,
+    showProfitLoss,
+    showIncome,
+    hiddenPositionIds,
+    hiddenCategoryIds,
+    passwordProtected,
+  ] = useWatch({
+    control: form.control,
+    name: [
+      "showValues",
+      "showProfitLoss",
+      "showIncome",
+      "hiddenPositionIds",
+      "hiddenCategoryIds",
+      "passwordProtected",
+    ],
+  });
+
   // Submit handler
   async function handleSubmit(values: EditSharingFormValues) {
+    if (
+      values.passwordProtected &&
+      !shareMetadata.isPasswordProtected &&
+      !values.password
+    ) {
+      form.setError("password", { message: "Enter a password." });
+      return;
+    }
+
     try {
       await onSubmit(values);
-      form.reset(values);
+      form.reset({ ...values, password: "" });
       setOpen(false);
     } catch (error) {
       toast.error(
@@ -127,113 +200,328 @@ export function EditSharing({
           Edit
         </Button>
       </DialogTrigger>
-      <DialogContent className="sm:max-w-lg">
+      <DialogContent className="max-h-[90svh] overflow-y-auto sm:max-w-5xl">
         <DialogHeader>
           <DialogTitle>Edit public link</DialogTitle>
           <DialogDescription>
-            Update the slug or extend the link lifetime. Saving applies the
-            changes immediately.
+            Update the slug, lifetime and what visitors can see. Saving applies
+            the changes immediately.
           </DialogDescription>
         </DialogHeader>
 
-        <Form {...form}>
-          <form
-            onSubmit={form.handleSubmit(handleSubmit)}
-            className="grid gap-4"
-          >
-            {/* Slug */}
-            <FormField
-              control={form.control}
-              name="slug"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel htmlFor={field.name}>Slug</FormLabel>
-                  <FormControl>
-                    <ButtonGroup className="w-full">
-                      <ButtonGroupText asChild>
-                        <Label>
-                          <span className="sm:hidden">/portfolio/</span>
-                          <span className="hidden sm:inline">
-                            {siteUrl}/portfolio/
-                          </span>
-                        </Label>
-                      </ButtonGroupText>
-                      <InputGroup>
-                        <InputGroupInput
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Form {...form}>
+            <form
+              onSubmit={form.handleSubmit(handleSubmit)}
+              className="grid content-start gap-4"
+            >
+              {/* Slug */}
+              <FormField
+                control={form.control}
+                name="slug"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel htmlFor={field.name}>Slug</FormLabel>
+                    <FormControl>
+                      <ButtonGroup className="w-full">
+                        <ButtonGroupText asChild>
+                          <Label>
+                            <span className="sm:hidden">/portfolio/</span>
+                            <span className="hidden sm:inline">
+                              {siteUrl}/portfolio/
+                            </span>
+                          </Label>
+                        </ButtonGroupText>
+                        <InputGroup>
+                          <InputGroupInput
+                            id={field.name}
+                            placeholder="myportfolio"
+                            {...field}
+                          />
+                          <InputGroupAddon align="inline-end">
+                            <Link2 />
+                          </InputGroupAddon>
+                        </InputGroup>
+                      </ButtonGroup>
+                    </FormControl>
+                    <FormMessage />
+                    <FormDescription>
+                      Lowercase letters and numbers only. Saving updates your
+                      portfolio&apos;s public URL and invalidates any previous
+                      link.
+                    </FormDescription>
+                  </FormItem>
+                )}
+              />
+
+              {/* Expiration */}
+              <FormField
+                control={form.control}
+                name="expiration"
+                render={({ field }) => (
+                  <FormItem className="sm:w-1/2 sm:pr-1">
+                    <FormLabel htmlFor={field.name}>Expire after</FormLabel>
+                    <FormControl>
+                      <Select
+                        onValueChange={(value) => field.onChange(value)}
+                        value={field.value}
+                      >
+                        <SelectTrigger className="w-full" id={field.name}>
+                          <SelectValue placeholder="Select expiration" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {PUBLIC_PORTFOLIO_EXPIRATIONS.map((value) => (
+                            <SelectItem key={value} value={value}>
+                              {labelForExpiration(value)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* Visibility */}
+              <div className="divide-y rounded-lg border">
+                {VISIBILITY_FIELDS.map(({ name, label, description }) => (
+                  <FormField
+                    key={name}
+                    control={form.control}
+                    name={name}
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-4 px-4 py-3">
+                        <div className="grid gap-1">
+                          <FormLabel htmlFor={field.name}>{label}</FormLabel>
+                          <FormDescription>{description}</FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch
+                            id={field.name}
+                            checked={field.value}
+                            onCheckedChange={field.onChange}
+                            disabled={name === "showIncome" && !showValues}
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+
+              {/* Hidden positions and categories */}
+              <HiddenItemsField
+                hiddenPositionIds={hiddenPositionIds}
+                hiddenCategoryIds={hiddenCategoryIds}
+                onChange={(field, ids) =>
+                  form.setValue(field, ids, { shouldDirty: true })
+                }
+              />
+
+              {/* Password */}
+              <div className="grid gap-3 rounded-lg border px-4 py-3">
+                <FormField
+                  control={form.control}
+                  name="passwordProtected"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between gap-4">
+                      <div className="grid gap-1">
+                        <FormLabel htmlFor={field.name}>
+                          Require a password
+                        </FormLabel>
+                        <FormDescription>
+                          Visitors enter it once per device.
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
                           id={field.name}
-                          placeholder="myportfolio"
-                          {...field}
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
                         />
-                        <InputGroupAddon align="inline-end">
-                          <Link2 />
-                        </InputGroupAddon>
-                      </InputGroup>
-                    </ButtonGroup>
-                  </FormControl>
-                  <FormMessage />
-                  <FormDescription>
-                    Lowercase letters and numbers only. Saving updates your
-                    portfolio&apos;s public URL and invalidates any previous
-                    link.
-                  </FormDescription>
-                </FormItem>
-              )}
-            />
-
-            {/* Expiration */}
-            <FormField
-              control={form.control}
-              name="expiration"
-              render={({ field }) => (
-                <FormItem className="sm:w-1/2 sm:pr-1">
-                  <FormLabel htmlFor={field.name}>Expire after</FormLabel>
-                  <FormControl>
-                    <Select
-                      onValueChange={(value) => field.onChange(value)}
-                      value={field.value}
-                    >
-                      <SelectTrigger className="w-full" id={field.name}>
-                        <SelectValue placeholder="Select expiration" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {PUBLIC_PORTFOLIO_EXPIRATIONS.map((value) => (
-                          <SelectItem key={value} value={value}>
-                            {labelForExpiration(value)}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            {/* Footer - Action buttons */}
-            <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
-              <DialogClose asChild>
-                <Button type="button" variant="secondary" disabled={isUpdating}>
-                  Cancel
-                </Button>
-              </DialogClose>
-              <Button type="submit" disabled={isUpdating || !isDirty}>
-                {isUpdating ? (
-                  <>
-                    <Spinner />
-                    Saving...
-                  </>
-                ) : (
-                  "Save changes"
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                {passwordProtected && (
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Input
+                            type="password"
+                            autoComplete="new-password"
+                            placeholder={
+                              shareMetadata.isPasswordProtected
+                                ? "Leave empty to keep the current password"
+                                : "Password"
+                            }
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 )}
-              </Button>
+              </div>
+
+              {/* Footer - Action buttons */}
+              <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+                <DialogClose asChild>
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    disabled={isUpdating}
+                  >
+                    Cancel
+                  </Button>
+                </DialogClose>
+                <Button type="submit" disabled={isUpdating || !isDirty}>
+                  {isUpdating ? (
+                    <>
+                      <Spinner />
+                      Saving...
+                    </>
+                  ) : (
+                    "Save changes"
+                  )}
+                </Button>
+              </div>
+            </form>
+          </Form>
+
+          {/* Live preview */}
+          <div className="grid content-start gap-2">
+            <p className="text-sm font-medium">Preview</p>
+            <div className="bg-muted/50 rounded-lg border p-3">
+              <SharingPreview
+                settings={{
+                  showValues,
+                  showProfitLoss,
+                  showIncome,
+                  hiddenPositionIds,
+                  hiddenCategoryIds,
+                }}
+              />
             </div>
-          </form>
-        </Form>
+          </div>
+        </div>
       </DialogContent>
     </Dialog>
   );
 }
 
+type ShareablePosition = Awaited<
+  ReturnType<typeof fetchShareablePositions>
+>[number];
+
+/**
+ * Checklist of categories and their positions. Checked means visible;
+ * hiding a category hides all of its positions.
+ */
+function HiddenItemsField({
+  hiddenPositionIds,
+  hiddenCategoryIds,
+  onChange,
+}: {
+  hiddenPositionIds: string[];
+  hiddenCategoryIds: string[];
+  onChange: (
+    field: "hiddenPositionIds" | "hiddenCategoryIds",
+    ids: string[],
+  ) => void;
+}) {
+  const [positions, setPositions] = useState<ShareablePosition[] | null>(null);
+
+  useEffect(() => {
+    fetchShareablePositions()
+      .then(setPositions)
+      .catch(() => setPositions([]));
+  }, []);
+
+  const categories = new Map<string, ShareablePosition[]>();
+  positions?.forEach((position) => {
+    categories.set(position.category_id, [
+      ...(categories.get(position.category_id) ?? []),
+      position,
+    ]);
+  });
+
+  const toggle = (ids: string[], id: string, visible: boolean) =>
+    visible ? ids.filter((hiddenId) => hiddenId !== id) : [...ids, id];
+
+  return (
+    <div className="grid gap-2">
+      <Label>Visible positions</Label>
+      <div className="max-h-48 overflow-y-auto rounded-lg border px-4 py-3">
+        {!positions ? (
+          <Spinner />
+        ) : !positions.length ? (
+          <p className="text-muted-foreground text-sm">No positions yet</p>
+        ) : (
+          <div className="grid gap-3">
+            {Array.from(categories.entries()).map(
+              ([categoryId, categoryPositions]) => {
+                const categoryVisible = !hiddenCategoryIds.includes(categoryId);
+
+                return (
+                  <div key={categoryId} className="grid gap-2">
+                    <label className="flex items-center gap-2 text-sm font-medium">
+                      <Checkbox
+                        checked={categoryVisible}
+                        onCheckedChange={(checked) =>
+                          onChange(
+                            "hiddenCategoryIds",
+                            toggle(
+                              hiddenCategoryIds,
+                              categoryId,
+                              checked === true,
+                            ),
+                          )
+                        }
+                      />
+                      {categoryPositions[0].category_name}
+                    </label>
+                    {categoryPositions.map((position) => (
+                      <label
+                        key={position.id}
+                        className="flex items-center gap-2 pl-6 text-sm"
+                      >
+                        <Checkbox
+                          checked={
+                            categoryVisible &&
+                            !hiddenPositionIds.includes(position.id)
+                          }
+                          disabled={!categoryVisible}
+                          onCheckedChange={(checked) =>
+                            onChange(
+                              "hiddenPositionIds",
+                              toggle(
+                                hiddenPositionIds,
+                                position.id,
+                                checked === true,
+                              ),
+                            )
+                          }
+                        />
+                        <span className="truncate">{position.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                );
+              },
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 function labelForExpiration(expiration: PublicPortfolioExpirationOption) {
   switch (expiration) {
     case "24h":
@@ -0,0 +1,68 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Code } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+import { useCopyToClipboard } from "@/hooks/use-copy-to-clipboard";
+import { buildEmbedCode, EMBED_WIDGETS } from "@/lib/public-portfolio";
+
+import type { EmbedWidget } from "@/lib/public-portfolio";
+
+const WIDGET_LABELS: Record<EmbedWidget, string> = {
+  allocation: "Asset allocation",
+  performance: "Performance",
+};
+
+/**
+ * Copy an iframe snippet for one of the public portfolio widgets.
+ */
+export function EmbedCode({
+  shareUrl,
+  disabled = false,
+}: {
+  shareUrl: string;
+  disabled?: boolean;
+}) {
+  const [widget, setWidget] = useState<EmbedWidget>(EMBED_WIDGETS[0]);
+  const { copyToClipboard, isCopied } = useCopyToClipboard();
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={widget}
+        onValueChange={(value) => setWidget(value as EmbedWidget)}
+        disabled={disabled}
+      >
+        <SelectTrigger size="sm" className="flex-1" aria-label="Widget">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {EMBED_WIDGETS.map((option) => (
+            <SelectItem key={option} value={option}>
+              {WIDGET_LABELS[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        type="button"
+        variant="secondary"
+        size="sm"
+        disabled={disabled}
+        onClick={() => copyToClipboard(buildEmbedCode(shareUrl, widget))}
+      >
+        {isCopied ? <Check /> : <Code />}
+        Copy embed code
+      </Button>
+    </div>
+  );
+}
@@ -1,7 +1,17 @@
 import { SharePortfolioButtonClient } from "./share-portfolio-button-client";
 import { fetchCurrentPublicPortfolio } from "@/server/public-portfolios/fetch";
+import { fetchPublicPortfolioViews } from "@/server/public-portfolios/views";
 
 export async function SharePortfolioButton() {
   const shareMetadata = await fetchCurrentPublicPortfolio();
-  return <SharePortfolioButtonClient initialShareMetadata={shareMetadata} />;
+  const views = shareMetadata
+    ? await fetchPublicPortfolioViews(shareMetadata.id)
+    : null;
+
+  return (
+    <SharePortfolioButtonClient
+      initialShareMetadata={shareMetadata}
+      views={views}
+    />
+  );
 }
@@ -24,6 +24,7 @@ import { cn } from "@/lib/utils";
 import type {
   PublicPortfolioMetadata,
   PublicPortfolioExpirationOption,
+  PublicPortfolioViews,
 } from "@/types/global.types";
 import type { EditSharingFormValues } from "./edit-sharing";
 
@@ -32,8 +33,10 @@ const DEFAULT_EXPIRATION: PublicPortfolioExpirationOption =
 
 export function SharePortfolioButtonClient({
   initialShareMetadata,
+  views,
 }: {
   initialShareMetadata: PublicPortfolioMetadata | null;
+  views: PublicPortfolioViews | null;
 }) {
   const [isEnabling, setIsEnabling] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
@@ -85,9 +88,14 @@ export function SharePortfolioButtonClient({
   const handleUpdate = async (values: EditSharingFormValues) => {
     setIsUpdating(true);
     try {
+      const { slug, expiration, passwordProtected, password, ...settings } =
+        values;
       const result = await updatePublicPortfolioSettings(
-        values.slug,
-        values.expiration,
+        slug,
+        expiration,
+        settings,
+        // Keep the current password unless a new one was entered
+        passwordProtected ? password || undefined : null,
       );
       if (!result.success) {
         throw new Error(result.error ?? "Failed to update public link.");
@@ -127,6 +135,7 @@ export function SharePortfolioButtonClient({
           <div className={cn(isDisabling && "pointer-events-none opacity-50")}>
             <ActiveSharing
               shareMetadata={shareMetadata}
+              views={views}
               onUpdate={handleUpdate}
               isUpdating={isUpdating}
             />
@@ -0,0 +1,109 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { Skeleton } from "@/components/ui/skeleton";
+import { Spinner } from "@/components/ui/spinner";
+import { PublicPortfolioAssetsTable } from "@/components/public-portfolio/assets-table";
+import { AssetAllocationDonutPublic } from "@/components/dashboard/charts/asset-allocation-donut";
+import { ProjectedIncomeWidget } from "@/components/dashboard/charts/projected-income/widget";
+
+import { cn } from "@/lib/utils";
+
+import { fetchPublicPortfolioPreview } from "@/server/public-portfolios/fetch";
+
+import type { PublicPortfolioSettings } from "@/types/global.types";
+
+type Preview = Awaited<ReturnType<typeof fetchPublicPortfolioPreview>>;
+
+// Wait for toggling to settle before recomputing
+const PREVIEW_DELAY_MS = 300;
+
+/**
+ * Live preview of the public page with unsaved settings, built from the
+ * same data visitors get.
+ */
+export function SharingPreview({
+  settings,
+}: {
+  settings: PublicPortfolioSettings;
+}) {
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Settings is a fresh object on every render
+  const settingsKey = JSON.stringify(settings);
+  const isLoading = loadedKey !== settingsKey;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const timeout = setTimeout(() => {
+      fetchPublicPortfolioPreview(JSON.parse(settingsKey))
+        .then((result) => {
+          if (cancelled) return;
+          setPreview(result);
+          setError(null);
+        })
+        .catch(() => {
+          if (!cancelled) setError("Couldn't load the preview.");
+        })
+        .finally(() => {
+          if (!cancelled) setLoadedKey(settingsKey);
+        });
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [settingsKey]);
+
+  if (!preview) {
+    return error ? (
+      <p className="text-muted-foreground p-4 text-center text-sm">{error}</p>
+    ) : (
+      <div className="grid gap-3">
+        <Skeleton className="h-56" />
+        <Skeleton className="h-40" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      {isLoading && (
+        <div className="absolute inset-x-0 top-2 z-10 flex justify-center">
+          <Spinner />
+        </div>
+      )}
+      <div className={cn("grid gap-3", isLoading && "opacity-50")}>
+        <AssetAllocationDonutPublic
+          netWorth={preview.netWorth}
+          currency={preview.currency}
+          assetAllocation={preview.assetAllocation}
+          showValues={settings.showValues}
+          className="h-56!"
+        />
+        {preview.projectedIncome && (
+          <ProjectedIncomeWidget
+            projectedIncome={{
+              success: preview.projectedIncome.success,
+              data: preview.projectedIncome.data ?? [],
+              message: preview.projectedIncome.message,
+              currency: preview.projectedIncome.currency ?? preview.currency,
+            }}
+            currency={preview.projectedIncome.currency ?? preview.currency}
+            className="h-56!"
+          />
+        )}
+        <PublicPortfolioAssetsTable
+          positions={preview.positions}
+          showValues={settings.showValues}
+          showProfitLoss={settings.showProfitLoss}
+        />
+      </div>
+    </div>
+  );
+}
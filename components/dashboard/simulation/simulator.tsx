@@ -0,0 +1,416 @@
+"use client";
+
+import { useDeferredValue, useMemo, useState } from "react";
+import { Dices, RotateCcw } from "lucide-react";
+import {
+  ResponsiveContainer,
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+} from "recharts";
+
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { usePrivacyMode } from "@/components/dashboard/privacy-mode-provider";
+
+import {
+  formatCompactNumber,
+  formatCurrency,
+  formatPercentage,
+} from "@/lib/number-format";
+import { runMonteCarlo, toSimulationInput } from "@/lib/monte-carlo";
+import { cn } from "@/lib/utils";
+
+import type { SimulationDefaults } from "@/server/analysis/simulation";
+
+// Inputs are kept as text so fields can be cleared while typing
+type Inputs = {
+  currentAge: string;
+  retirementAge: string;
+  lifeExpectancy: string;
+  annualContribution: string;
+  withdrawalRate: string; // percentage
+  inflation: string; // percentage
+  seed: string;
+  categories: Record<string, { expectedReturn: string; volatility: string }>;
+};
+
+const toPercentInput = (value: number) => String(Math.round(value * 1000) / 10);
+
+function getDefaultInputs(defaults: SimulationDefaults): Inputs {
+  const { assumptions } = defaults;
+  return {
+    currentAge: String(assumptions.currentAge),
+    retirementAge: String(assumptions.retirementAge),
+    lifeExpectancy: String(assumptions.lifeExpectancy),
+    annualContribution: String(Math.round(assumptions.annualContribution)),
+    withdrawalRate: toPercentInput(assumptions.withdrawalRate),
+    inflation: toPercentInput(assumptions.inflation),
+    seed: String(assumptions.seed),
+    categories: Object.fromEntries(
+      defaults.assets.map((asset) => [
+        asset.key,
+        {
+          expectedReturn: toPercentInput(asset.expectedReturn),
+          volatility: toPercentInput(asset.volatility),
+        },
+      ]),
+    ),
+  };
+}
+
+// Parse a text input, falling back when it is empty or invalid
+function parseInput(value: string, fallback: number) {
+  if (value.trim() === "") return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+export function RetirementSimulator({
+  defaults,
+}: {
+  defaults: SimulationDefaults;
+}) {
+  const { isPrivacyMode } = usePrivacyMode();
+  const [inputs, setInputs] = useState(() => getDefaultInputs(defaults));
+
+  // Keep typing responsive while thousands of paths are recomputed
+  const deferredInputs = useDeferredValue(inputs);
+
+  const simulation = useMemo(() => {
+    const base = defaults.assumptions;
+    const assumptions = {
+      ...base,
+      currentAge: parseInput(deferredInputs.currentAge, base.currentAge),
+      retirementAge: parseInput(
+        deferredInputs.retirementAge,
+        base.retirementAge,
+      ),
+      lifeExpectancy: parseInput(
+        deferredInputs.lifeExpectancy,
+        base.lifeExpectancy,
+      ),
+      annualContribution: parseInput(
+        deferredInputs.annualContribution,
+        base.annualContribution,
+      ),
+      withdrawalRate:
+        parseInput(deferredInputs.withdrawalRate, base.withdrawalRate * 100) /
+        100,
+      inflation:
+        parseInput(deferredInputs.inflation, base.inflation * 100) / 100,
+      seed: parseInput(deferredInputs.seed, base.seed),
+    };
+
+    const assets = defaults.assets.map((asset) => {
+      const category = deferredInputs.categories[asset.key];
+      return {
+        ...asset,
+        expectedReturn:
+          parseInput(category.expectedReturn, asset.expectedReturn * 100) / 100,
+        volatility:
+          parseInput(category.volatility, asset.volatility * 100) / 100,
+      };
+    });
+
+    const result = runMonteCarlo(toSimulationInput(assets, assumptions));
+
+    return {
+      assumptions,
+      result,
+      chartData: result.years.map((year) => ({
+        age: assumptions.currentAge + year.year,
+        outer: [year.p10, year.p90],
+        inner: [year.p25, year.p75],
+        median: year.p50,
+      })),
+    };
+  }, [defaults, deferredInputs]);
+
+  const { assumptions, result, chartData } = simulation;
+  const isStale = inputs !== deferredInputs;
+
+  const setField = (field: Exclude<keyof Inputs, "categories">) => {
+    return (event: React.ChangeEvent<HTMLInputElement>) =>
+      setInputs((prev) => ({ ...prev, [field]: event.target.value }));
+  };
+
+  const setCategoryField = (
+    key: string,
+    field: "expectedReturn" | "volatility",
+    value: string,
+  ) =>
+    setInputs((prev) => ({
+      ...prev,
+      categories: {
+        ...prev.categories,
+        [key]: { ...prev.categories[key], [field]: value },
+      },
+    }));
+
+  const formatAmount = (value: number) =>
+    isPrivacyMode ? "* * * *" : formatCurrency(value, defaults.currency);
+
+  if (!defaults.assets.length) {
+    return (
+      <Card className="flex h-80 flex-col items-center justify-center rounded-lg text-center shadow-xs">
+        <div className="bg-accent rounded-lg p-2">
+          <Dices className="text-muted-foreground size-4" />
+        </div>
+        <p className="mt-3 font-medium">Retirement Simulation</p>
+        <p className="text-muted-foreground mt-1 text-sm">
+          Add your assets to simulate your retirement
+        </p>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-6 gap-4">
+      {/* Chart */}
+      <Card className="col-span-6 flex h-[28rem] flex-col gap-4 rounded-lg shadow-xs xl:col-span-4">
+        <CardHeader className="flex-none">
+          <CardDescription>Chance the money lasts</CardDescription>
+          <h2 className="text-xl font-semibold">
+            {formatPercentage(result.successProbability, 0)}
+          </h2>
+          <p className="text-muted-foreground text-sm">
+            Median {formatAmount(result.medianAtRetirement)} at{" "}
+            {assumptions.retirementAge}, withdrawing{" "}
+            {formatAmount(result.medianWithdrawal)} a year until{" "}
+            {assumptions.lifeExpectancy}. In today&apos;s money.
+          </p>
+        </CardHeader>
+        <CardContent
+          className={cn("flex-1 transition-opacity", isStale && "opacity-50")}
+        >
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData}>
+              <CartesianGrid stroke="var(--border)" vertical={false} />
+              <YAxis
+                tickFormatter={(value: number) => formatCompactNumber(value)}
+                axisLine={false}
+                tickLine={false}
+                tick={{
+                  fontSize: 12,
+                  fill: "var(--muted-foreground)",
+                  opacity: isPrivacyMode ? 0 : 1,
+                }}
+                width={40}
+              />
+              <XAxis
+                dataKey="age"
+                axisLine={false}
+                tickLine={false}
+                tick={{ fontSize: 12, fill: "var(--muted-foreground)" }}
+                dy={5}
+              />
+              <ReferenceLine
+                x={assumptions.retirementAge}
+                stroke="var(--muted-foreground)"
+                strokeDasharray="4 4"
+              />
+              <Tooltip
+                content={({ active, payload }) => {
+                  if (!active || !payload?.length) return null;
+
+                  const data = payload[0].payload as (typeof chartData)[0];
+                  return (
+                    <div className="bg-background border-border flex flex-col gap-1 rounded-md border px-2.5 py-1.5 text-sm">
+                      <span className="text-muted-foreground text-xs">
+                        Age {data.age}
+                      </span>
+                      <span>90th: {formatAmount(data.outer[1])}</span>
+                      <span>75th: {formatAmount(data.inner[1])}</span>
+                      <span className="font-medium">
+                        Median: {formatAmount(data.median)}
+                      </span>
+                      <span>25th: {formatAmount(data.inner[0])}</span>
+                      <span>10th: {formatAmount(data.outer[0])}</span>
+                    </div>
+                  );
+                }}
+                cursor={{ stroke: "var(--border)", strokeWidth: 1 }}
+              />
+              <Area
+                dataKey="outer"
+                stroke="none"
+                fill="var(--chart-1)"
+                fillOpacity={0.15}
+                isAnimationActive={false}
+              />
+              <Area
+                dataKey="inner"
+                stroke="none"
+                fill="var(--chart-1)"
+                fillOpacity={0.3}
+                isAnimationActive={false}
+              />
+              <Line
+                dataKey="median"
+                stroke="var(--chart-1)"
+                strokeWidth={1.5}
+                dot={false}
+                isAnimationActive={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      {/* Assumptions */}
+      <Card className="col-span-6 flex flex-col gap-4 rounded-lg shadow-xs xl:col-span-2">
+        <CardHeader className="flex flex-none items-center justify-between gap-2">
+          <CardTitle>Assumptions</CardTitle>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setInputs(getDefaultInputs(defaults))}
+          >
+            <RotateCcw /> Reset
+          </Button>
+        </CardHeader>
+        <CardContent className="grid grid-cols-2 gap-3">
+          <NumberField
+            id="current-age"
+            label="Current age"
+            value={inputs.currentAge}
+            onChange={setField("currentAge")}
+          />
+          <NumberField
+            id="retirement-age"
+            label="Retirement age"
+            value={inputs.retirementAge}
+            onChange={setField("retirementAge")}
+          />
+          <NumberField
+            id="life-expectancy"
+            label="Plan until age"
+            value={inputs.lifeExpectancy}
+            onChange={setField("lifeExpectancy")}
+          />
+          <NumberField
+            id="annual-contribution"
+            label="Yearly contribution"
+            value={inputs.annualContribution}
+            onChange={setField("annualContribution")}
+          />
+          <NumberField
+            id="withdrawal-rate"
+            label="Withdrawal rate (%)"
+            value={inputs.withdrawalRate}
+            onChange={setField("withdrawalRate")}
+          />
+          <NumberField
+            id="inflation"
+            label="Inflation (%/yr)"
+            value={inputs.inflation}
+            onChange={setField("inflation")}
+          />
+          <NumberField
+            id="seed"
+            label="Seed"
+            value={inputs.seed}
+            onChange={setField("seed")}
+          />
+          {defaults.ageAssumed && (
+            <p className="text-muted-foreground col-span-2 text-sm">
+              Add your age band to your financial profile for a better starting
+              age.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Per-category returns */}
+      <Card className="col-span-6 flex flex-col gap-4 rounded-lg shadow-xs">
+        <CardHeader className="flex-none">
+          <CardTitle>Returns by category</CardTitle>
+          <CardDescription>
+            Nominal yearly return and volatility. Defaults are long-run class
+            averages.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-3 sm:grid-cols-2 xl:grid-cols-4">
+          {defaults.assets.map((asset) => (
+            <div key={asset.key} className="flex flex-col gap-2">
+              <div className="flex justify-between gap-2 text-sm">
+                <span className="font-medium">{asset.name}</span>
+                <span className="text-muted-foreground">
+                  {formatAmount(asset.value)}
+                </span>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <NumberField
+                  id={`${asset.key}-return`}
+                  label="Return (%)"
+                  value={inputs.categories[asset.key].expectedReturn}
+                  onChange={(event) =>
+                    setCategoryField(
+                      asset.key,
+                      "expectedReturn",
+                      event.target.value,
+                    )
+                  }
+                />
+                <NumberField
+                  id={`${asset.key}-volatility`}
+                  label="Volatility (%)"
+                  value={inputs.categories[asset.key].volatility}
+                  onChange={(event) =>
+                    setCategoryField(
+                      asset.key,
+                      "volatility",
+                      event.target.value,
+                    )
+                  }
+                />
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function NumberField({
+  id,
+  label,
+  value,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
+}) {
+  return (
+    <div className="flex flex-col gap-1.5">
+      <Label htmlFor={id} className="text-muted-foreground text-xs">
+        {label}
+      </Label>
+      <Input
+        id={id}
+        type="number"
+        inputMode="decimal"
+        step="any"
+        value={value}
+        onChange={onChange}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+"use client";
+
+import { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { toast } from "sonner";
+import { Check, Copy } from "lucide-react";
+
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupButton,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Spinner } from "@/components/ui/spinner";
+
+import { createWebhookEndpoint } from "@/server/webhooks/create";
+import { updateWebhookEndpoint } from "@/server/webhooks/update";
+
+import {
+  isAllowedWebhookUrl,
+  MAX_WEBHOOK_DESCRIPTION_LENGTH,
+} from "@/lib/webhooks";
+import { useCopyToClipboard } from "@/hooks/use-copy-to-clipboard";
+
+import { WEBHOOK_EVENTS } from "@/types/enums";
+import type { WebhookEndpoint, WebhookEvent } from "@/types/global.types";
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  "position.created": "Position created",
+  "position.archived": "Position archived",
+  "portfolio_record.created": "Record created",
+  "portfolio_record.updated": "Record updated",
+  "portfolio_record.deleted": "Record deleted",
+  "net_worth.computed": "Daily net worth computed",
+  "import.completed": "Import completed",
+};
+
+const formSchema = z.object({
+  url: z.string().trim().refine(isAllowedWebhookUrl, {
+    error: "Enter a public HTTPS URL.",
+  }),
+  description: z
+    .string()
+    .trim()
+    .max(MAX_WEBHOOK_DESCRIPTION_LENGTH, {
+      error: `Description must not exceed ${MAX_WEBHOOK_DESCRIPTION_LENGTH} characters.`,
+    }),
+  events: z
+    .array(z.enum(WEBHOOK_EVENTS))
+    .min(1, { error: "Pick at least one event." }),
+});
+
+interface WebhookEndpointDialogProps {
+  endpoint?: WebhookEndpoint;
+  children: React.ReactNode;
+}
+
+export function WebhookEndpointDialog({
+  endpoint,
+  children,
+}: WebhookEndpointDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [secret, setSecret] = useState<string | null>(null);
+
+  const { copyToClipboard, isCopied } = useCopyToClipboard();
+
+  const form = useForm({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      url: endpoint?.url ?? "",
+      description: endpoint?.description ?? "",
+      events: endpoint?.events ?? [...WEBHOOK_EVENTS],
+    },
+  });
+
+  function handleOpenChange(nextOpen: boolean) {
+    setOpen(nextOpen);
+    if (!nextOpen) setSecret(null);
+  }
+
+  // Submit handler
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    setIsLoading(true);
+    try {
+      const formData = new FormData();
+      formData.append("url", values.url);
+      formData.append("description", values.description);
+      values.events.forEach((event) => formData.append("events", event));
+
+      if (endpoint) {
+        const result = await updateWebhookEndpoint(formData, endpoint.id);
+        if (!result.success) throw new Error(result.message);
+
+        toast.success("Webhook updated");
+        setOpen(false);
+        return;
+      }
+
+      const result = await createWebhookEndpoint(formData);
+
+      // Handle error response from server action
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      setSecret(result.secret);
+      form.reset();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save webhook",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{endpoint ? "Edit webhook" : "New webhook"}</DialogTitle>
+          <DialogDescription>
+            Events are sent as signed JSON POST requests and retried with
+            backoff when the endpoint doesn&apos;t answer with a 2xx.
+          </DialogDescription>
+        </DialogHeader>
+
+        {secret ? (
+          <div className="space-y-3">
+            <p className="text-sm">
+              Use this signing secret to verify the{" "}
+              <code className="font-mono">Foliofox-Signature</code> header of
+              each delivery.
+            </p>
+            <InputGroup>
+              <InputGroupInput value={secret} readOnly className="font-mono" />
+              <InputGroupAddon align="inline-end">
+                <InputGroupButton
+                  variant="secondary"
+                  onClick={() => copyToClipboard(secret)}
+                >
+                  {isCopied ? (
+                    <Check className="size-4" />
+                  ) : (
+                    <Copy className="size-4" />
+                  )}
+                  Copy
+                </InputGroupButton>
+              </InputGroupAddon>
+            </InputGroup>
+            <div className="flex justify-end">
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Done
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-4">
+              {/* URL */}
+              <FormField
+                control={form.control}
+                name="url"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Endpoint URL</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="https://example.com/webhooks/foliofox"
+                        type="url"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* Description */}
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description (optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Budget spreadsheet" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* Events */}
+              <FormField
+                control={form.control}
+                name="events"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Events</FormLabel>
+                    <div className="space-y-2 rounded-md border p-2">
+                      {WEBHOOK_EVENTS.map((event) => {
+                        const id = `webhook-event-${event}`;
+                        return (
+                          <div key={event} className="flex items-center gap-2">
+                            <Checkbox
+                              id={id}
+                              checked={field.value.includes(event)}
+                              onCheckedChange={(checked) =>
+                                field.onChange(
+                                  checked
+                                    ? [...field.value, event]
+                                    : field.value.filter(
+                                        (selected) => selected !== event,
+                                      ),
+                                )
+                              }
+                            />
+                            <Label htmlFor={id} className="font-normal">
+                              {WEBHOOK_EVENT_LABELS[event]}
+                            </Label>
+                            <code className="text-muted-foreground ml-auto font-mono text-xs">
+                              {event}
+                            </code>
+                          </div>
+                        );
+                      })}
+                    </div>
+                    <FormDescription>
+                      Net worth is sent once a day in your display currency.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* Footer - Action buttons */}
+              <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+                <Button
+                  onClick={() => setOpen(false)}
+                  disabled={isLoading}
+                  type="button"
+                  variant="secondary"
+                >
+                  Cancel
+                </Button>
+                <Button disabled={isLoading} type="submit">
+                  {isLoading ? (
+                    <>
+                      <Spinner />
+                      Saving...
+                    </>
+                  ) : endpoint ? (
+                    "Save changes"
+                  ) : (
+                    "Add webhook"
+                  )}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
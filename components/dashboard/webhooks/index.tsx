@@ -0,0 +1,270 @@
+"use client";
+
+import { useState } from "react";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import {
+  Check,
+  Copy,
+  Pause,
+  Pencil,
+  Play,
+  Plus,
+  RotateCw,
+  Trash2,
+  Webhook,
+} from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { WebhookEndpointDialog, WEBHOOK_EVENT_LABELS } from "./endpoint-dialog";
+
+import { useCopyToClipboard } from "@/hooks/use-copy-to-clipboard";
+
+import { setWebhookEndpointActive } from "@/server/webhooks/update";
+import { deleteWebhookEndpoint } from "@/server/webhooks/delete";
+import { replayWebhookDelivery } from "@/server/webhooks/replay";
+
+import type { fetchWebhookDeliveries } from "@/server/webhooks/fetch";
+import type {
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+} from "@/types/global.types";
+
+type WebhookDeliveryWithUrl = Awaited<
+  ReturnType<typeof fetchWebhookDeliveries>
+>[number];
+
+interface WebhooksProps {
+  endpoints: WebhookEndpoint[];
+  deliveries: WebhookDeliveryWithUrl[];
+}
+
+const STATUS_BADGES: Record<
+  WebhookDeliveryStatus,
+  { label: string; variant: "default" | "secondary" | "destructive" }
+> = {
+  succeeded: { label: "Succeeded", variant: "default" },
+  pending: { label: "Retrying", variant: "secondary" },
+  failed: { label: "Failed", variant: "destructive" },
+};
+
+// Status code or error of the last attempt
+function describeAttempt(delivery: WebhookDeliveryWithUrl) {
+  if (!delivery.attempts) return "Not sent yet";
+
+  const result = delivery.response_status
+    ? `HTTP ${delivery.response_status}`
+    : (delivery.error ?? "No response");
+  const attempts = `${delivery.attempts} attempt${delivery.attempts === 1 ? "" : "s"}`;
+  const nextAttempt =
+    delivery.status === "pending" && delivery.next_attempt_at
+      ? ` · next ${formatDistanceToNow(parseISO(delivery.next_attempt_at), {
+          addSuffix: true,
+        })}`
+      : "";
+
+  return `${result} · ${attempts}${nextAttempt}`;
+}
+
+export function Webhooks({ endpoints, deliveries }: WebhooksProps) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { copyToClipboard, isCopied } = useCopyToClipboard();
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  function handleCopySecret(endpoint: WebhookEndpoint) {
+    copyToClipboard(endpoint.secret);
+    setCopiedId(endpoint.id);
+  }
+
+  async function handleToggle(endpoint: WebhookEndpoint) {
+    setBusyId(endpoint.id);
+    try {
+      const result = await setWebhookEndpointActive(
+        endpoint.id,
+        !endpoint.is_active,
+      );
+      if (!result.success) throw new Error(result.message);
+      toast.success(endpoint.is_active ? "Webhook paused" : "Webhook resumed");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update webhook",
+      );
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleDelete(endpoint: WebhookEndpoint) {
+    setBusyId(endpoint.id);
+    try {
+      const result = await deleteWebhookEndpoint(endpoint.id);
+      if (!result.success) throw new Error(result.message);
+      toast.success("Webhook deleted");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete webhook",
+      );
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleReplay(delivery: WebhookDeliveryWithUrl) {
+    setBusyId(delivery.id);
+    try {
+      const result = await replayWebhookDelivery(delivery.id);
+      if (!result.success) throw new Error(result.message);
+      if (result.delivered) toast.success("Delivery replayed");
+      else toast.warning("Replay failed, it will be retried");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to replay delivery",
+      );
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <div className="flex items-center justify-end">
+          <WebhookEndpointDialog>
+            <Button size="sm">
+              <Plus /> New webhook
+            </Button>
+          </WebhookEndpointDialog>
+        </div>
+
+        {!endpoints.length ? (
+          <div className="text-muted-foreground flex flex-col items-center gap-2 rounded-lg border border-dashed p-8 text-center text-sm">
+            <div className="bg-accent rounded-lg p-2">
+              <Webhook className="text-muted-foreground size-4" />
+            </div>
+            No webhooks yet, e.g. to send new records to a spreadsheet or your
+            own tooling
+          </div>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {endpoints.map((endpoint) => (
+              <div
+                key={endpoint.id}
+                className="flex items-center justify-between gap-4 p-3 text-sm"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="truncate font-mono font-medium">
+                      {endpoint.url}
+                    </span>
+                    {!endpoint.is_active && (
+                      <Badge variant="secondary">Paused</Badge>
+                    )}
+                  </div>
+                  <p className="text-muted-foreground truncate">
+                    {endpoint.description && `${endpoint.description} · `}
+                    {endpoint.events
+                      .map((event) => WEBHOOK_EVENT_LABELS[event])
+                      .join(", ")}
+                  </p>
+                </div>
+                <div className="flex flex-none items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-8"
+                    aria-label="Copy signing secret"
+                    onClick={() => handleCopySecret(endpoint)}
+                  >
+                    {isCopied && copiedId === endpoint.id ? (
+                      <Check />
+                    ) : (
+                      <Copy />
+                    )}
+                  </Button>
+                  <WebhookEndpointDialog endpoint={endpoint}>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-8"
+                      aria-label="Edit"
+                    >
+                      <Pencil />
+                    </Button>
+                  </WebhookEndpointDialog>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-8"
+                    aria-label={endpoint.is_active ? "Pause" : "Resume"}
+                    disabled={busyId === endpoint.id}
+                    onClick={() => handleToggle(endpoint)}
+                  >
+                    {endpoint.is_active ? <Pause /> : <Play />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive size-8"
+                    aria-label="Delete"
+                    disabled={busyId === endpoint.id}
+                    onClick={() => handleDelete(endpoint)}
+                  >
+                    <Trash2 />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {endpoints.length > 0 && (
+        <div className="space-y-2">
+          <h2 className="font-semibold">Recent deliveries</h2>
+          {!deliveries.length ? (
+            <p className="text-muted-foreground text-sm">
+              Deliveries show up here once an event happens
+            </p>
+          ) : (
+            <div className="divide-y rounded-md border">
+              {deliveries.map((delivery) => (
+                <div
+                  key={delivery.id}
+                  className="flex items-center justify-between gap-4 p-3 text-sm"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono font-medium">
+                        {delivery.event}
+                      </span>
+                      <Badge variant={STATUS_BADGES[delivery.status].variant}>
+                        {STATUS_BADGES[delivery.status].label}
+                      </Badge>
+                    </div>
+                    <p className="text-muted-foreground truncate">
+                      {formatDistanceToNow(parseISO(delivery.created_at), {
+                        addSuffix: true,
+                      })}
+                      {delivery.endpoint_url && ` · ${delivery.endpoint_url}`}
+                      {` · ${describeAttempt(delivery)}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="flex-none"
+                    disabled={busyId === delivery.id}
+                    onClick={() => handleReplay(delivery)}
+                  >
+                    <RotateCw /> Replay
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { Download, FileJson, Upload } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { Spinner } from "@/components/ui/spinner";
+import { FileUploadDropzone } from "@/components/ui/custom/file-upload-dropzone";
+
+import { exportAccountArchive } from "@/server/account-archive/export";
+import { restoreAccountArchive } from "@/server/account-archive/restore";
+
+import {
+  parseAccountArchive,
+  type AccountArchive,
+} from "@/lib/account-archive";
+
+// Matches the server action body limit
+const MAX_ARCHIVE_SIZE = 25 * 1024 * 1024;
+
+interface AccountArchiveDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Download a JSON backup of the account, or restore one into an account
+ * without positions.
+ */
+export function AccountArchiveDialog({
+  open,
+  onOpenChange,
+}: AccountArchiveDialogProps) {
+  const [isExporting, setIsExporting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [content, setContent] = useState("");
+  const [archive, setArchive] = useState<AccountArchive | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  function handleReset() {
+    setSelectedFile(null);
+    setContent("");
+    setArchive(null);
+    setParseError(null);
+  }
+
+  function handleOpenChange(nextOpen: boolean) {
+    onOpenChange(nextOpen);
+    if (!nextOpen) handleReset();
+  }
+
+  async function handleExport() {
+    setIsExporting(true);
+    try {
+      const result = await exportAccountArchive();
+      if (!result.success) throw new Error(result.message);
+
+      const blob = new Blob([result.data], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+
+      // Create temporary link and trigger download
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `foliofox-backup-${format(new Date(), "yyyy-MM-dd")}.json`;
+      link.style.display = "none";
+      document.body.appendChild(link);
+      link.click();
+
+      // Cleanup temporary link
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      toast.success("Backup downloaded");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to export account",
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  }
+
+  async function handleFileSelect(file: File, fileContent: string) {
+    setSelectedFile(file);
+    setContent(fileContent);
+
+    const parsed = parseAccountArchive(fileContent);
+    setArchive(parsed.ok ? parsed.archive : null);
+    setParseError(parsed.ok ? null : parsed.message);
+  }
+
+  async function handleRestore() {
+    if (!content) return;
+
+    setIsRestoring(true);
+    try {
+      const result = await restoreAccountArchive(content);
+      if (!result.success) throw new Error(result.message);
+
+      toast.success(
+        `Restored ${result.positionCount} position(s) and ${result.recordCount} record(s)`,
+      );
+      handleOpenChange(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to restore backup",
+      );
+    } finally {
+      setIsRestoring(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent onOpenAutoFocus={(e) => e.preventDefault()}>
+        <DialogHeader>
+          <DialogTitle>Backup & restore</DialogTitle>
+          <DialogDescription>
+            Keep a full copy of your account, or move it to another Foliofox
+            instance.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <p className="text-muted-foreground text-sm">
+            Includes your profile, positions (archived too), all records,
+            accounts, the symbols you hold, loans, properties, recurring
+            transactions, public portfolio settings and AI conversations.
+          </p>
+          <Button
+            onClick={handleExport}
+            disabled={isExporting || isRestoring}
+            className="w-full"
+          >
+            {isExporting ? (
+              <>
+                <Spinner />
+                Exporting...
+              </>
+            ) : (
+              <>
+                <Download className="size-4" />
+                Download backup
+              </>
+            )}
+          </Button>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <p className="text-muted-foreground text-sm">
+            Restoring only works in an account without positions. Position
+            history is rebuilt from the records.
+          </p>
+          <FileUploadDropzone
+            accept={{ "application/json": [".json"] }}
+            maxSize={MAX_ARCHIVE_SIZE}
+            onFileSelect={handleFileSelect}
+            selectedFile={selectedFile}
+            onReset={handleReset}
+            disabled={isRestoring}
+            icon={<FileJson className="size-5" />}
+            title="Drop your backup here"
+            description="A .json file downloaded from Foliofox"
+          />
+          {parseError && (
+            <Alert variant="destructive">
+              <AlertDescription>{parseError}</AlertDescription>
+            </Alert>
+          )}
+          {archive && (
+            <p className="text-sm">
+              Backup from {format(new Date(archive.exported_at), "MMM d, yyyy")}
+              : {archive.positions.length} position(s),{" "}
+              {archive.portfolio_records.length} record(s),{" "}
+              {archive.conversations.length} conversation(s)
+            </p>
+          )}
+          <Button
+            variant="outline"
+            onClick={handleRestore}
+            disabled={!archive || isRestoring || isExporting}
+            className="w-full"
+          >
+            {isRestoring ? (
+              <>
+                <Spinner />
+                Restoring...
+              </>
+            ) : (
+              <>
+                <Upload className="size-4" />
+                Restore backup
+              </>
+            )}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
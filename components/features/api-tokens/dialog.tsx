@@ -0,0 +1,162 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { KeyRound, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ApiTokenForm, SCOPE_LABELS } from "./form";
+
+import { fetchApiTokens } from "@/server/api-tokens/fetch";
+import { revokeApiToken } from "@/server/api-tokens/revoke";
+
+import { isApiTokenActive } from "@/lib/api-tokens";
+
+import type { ApiToken } from "@/types/global.types";
+
+interface ApiTokensDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function describeUsage(token: ApiToken) {
+  if (token.revoked_at) return "Revoked";
+  if (!isApiTokenActive(token)) return "Expired";
+
+  const lastUsed = token.last_used_at
+    ? `Last used ${formatDistanceToNow(new Date(token.last_used_at), { addSuffix: true })}`
+    : "Never used";
+  const expires = token.expires_at
+    ? `expires ${formatDistanceToNow(new Date(token.expires_at), { addSuffix: true })}`
+    : "never expires";
+  return `${lastUsed}, ${expires}`;
+}
+
+export function ApiTokensDialog({ open, onOpenChange }: ApiTokensDialogProps) {
+  const [tokens, setTokens] = useState<ApiToken[] | null>(null);
+  const [version, setVersion] = useState(0);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Reload on open and after creating or revoking a token
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    fetchApiTokens()
+      .then((result) => {
+        if (!cancelled) setTokens(result);
+      })
+      .catch(() => {
+        if (!cancelled) toast.error("Failed to load API tokens");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, version]);
+
+  async function handleRevoke(token: ApiToken) {
+    setBusyId(token.id);
+    try {
+      const result = await revokeApiToken(token.id);
+      if (!result.success) throw new Error(result.message);
+      toast.success(`Revoked "${token.name}"`);
+      setVersion((current) => current + 1);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to revoke token",
+      );
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="sm:max-w-lg"
+        onOpenAutoFocus={(e) => e.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle>API access</DialogTitle>
+          <DialogDescription>
+            Personal access tokens let scripts use your portfolio through the{" "}
+            <a
+              href="/api/v1/openapi.json"
+              target="_blank"
+              rel="noreferrer"
+              className="underline underline-offset-4"
+            >
+              REST API
+            </a>
+            .
+          </DialogDescription>
+        </DialogHeader>
+
+        <ApiTokenForm onCreated={() => setVersion((current) => current + 1)} />
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">Your tokens</h3>
+          {!tokens ? (
+            <Skeleton className="h-16" />
+          ) : !tokens.length ? (
+            <div className="text-muted-foreground flex flex-col items-center gap-2 rounded-lg border border-dashed p-6 text-center text-sm">
+              <div className="bg-accent rounded-lg p-2">
+                <KeyRound className="text-muted-foreground size-4" />
+              </div>
+              No tokens yet
+            </div>
+          ) : (
+            <div className="max-h-64 divide-y overflow-y-auto rounded-md border">
+              {tokens.map((token) => {
+                const isActive = isApiTokenActive(token);
+
+                return (
+                  <div
+                    key={token.id}
+                    className="flex items-center justify-between gap-4 p-3 text-sm"
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="truncate font-medium">{token.name}</p>
+                        <Badge variant={isActive ? "secondary" : "outline"}>
+                          {SCOPE_LABELS[token.scope]}
+                        </Badge>
+                      </div>
+                      <p className="text-muted-foreground truncate">
+                        <span className="font-mono">{token.token_prefix}…</span>{" "}
+                        · {describeUsage(token)}
+                      </p>
+                    </div>
+                    {isActive && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive size-8 flex-none"
+                        aria-label="Revoke"
+                        disabled={busyId === token.id}
+                        onClick={() => handleRevoke(token)}
+                      >
+                        <Trash2 />
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,240 @@
+"use client";
+
+import { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { toast } from "sonner";
+import { Check, Copy } from "lucide-react";
+
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupButton,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+
+import { createApiToken } from "@/server/api-tokens/create";
+
+import {
+  API_TOKEN_EXPIRATIONS,
+  MAX_API_TOKEN_NAME_LENGTH,
+  type ApiTokenExpiration,
+} from "@/lib/api-tokens";
+import { useCopyToClipboard } from "@/hooks/use-copy-to-clipboard";
+
+import { API_TOKEN_SCOPES } from "@/types/enums";
+import type { ApiTokenScope } from "@/types/global.types";
+
+export const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  read: "Read",
+  read_write: "Read and write",
+};
+
+const SCOPE_DESCRIPTIONS: Record<ApiTokenScope, string> = {
+  read: "Can read positions, records, snapshots, net worth and allocation",
+  read_write: "Can also create portfolio records",
+};
+
+const EXPIRATION_LABELS: Record<ApiTokenExpiration, string> = {
+  "30d": "30 days",
+  "90d": "90 days",
+  "365d": "1 year",
+  never: "Never",
+};
+
+const formSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, { error: "Name is required." })
+    .max(MAX_API_TOKEN_NAME_LENGTH, {
+      error: `Name must not exceed ${MAX_API_TOKEN_NAME_LENGTH} characters.`,
+    }),
+  scope: z.enum(API_TOKEN_SCOPES),
+  expiration: z.enum(API_TOKEN_EXPIRATIONS),
+});
+
+interface ApiTokenFormProps {
+  onCreated?: () => void;
+}
+
+/**
+ * Create a personal access token, then show it once to copy.
+ */
+export function ApiTokenForm({ onCreated }: ApiTokenFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [token, setToken] = useState<string | null>(null);
+
+  const { copyToClipboard, isCopied } = useCopyToClipboard();
+
+  const form = useForm({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: "",
+      scope: "read" as ApiTokenScope,
+      expiration: "90d" as ApiTokenExpiration,
+    },
+  });
+
+  // Submit handler
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    setIsLoading(true);
+    try {
+      const formData = new FormData();
+      formData.append("name", values.name);
+      formData.append("scope", values.scope);
+      formData.append("expiration", values.expiration);
+
+      const result = await createApiToken(formData);
+
+      // Handle error response from server action
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      setToken(result.token);
+      form.reset();
+      onCreated?.();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to create token",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  if (token) {
+    return (
+      <div className="space-y-3">
+        <p className="text-sm">
+          Copy your token now. You won&apos;t be able to see it again.
+        </p>
+        <InputGroup>
+          <InputGroupInput value={token} readOnly className="font-mono" />
+          <InputGroupAddon align="inline-end">
+            <InputGroupButton
+              variant="secondary"
+              onClick={() => copyToClipboard(token)}
+            >
+              {isCopied ? (
+                <Check className="size-4" />
+              ) : (
+                <Copy className="size-4" />
+              )}
+              Copy
+            </InputGroupButton>
+          </InputGroupAddon>
+        </InputGroup>
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={() => setToken(null)}>
+            Done
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Rebalancing script" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="scope"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Access</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {API_TOKEN_SCOPES.map((scope) => (
+                    <SelectItem key={scope} value={scope}>
+                      {SCOPE_LABELS[scope]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                {SCOPE_DESCRIPTIONS[field.value]}
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="expiration"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Expires in</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {API_TOKEN_EXPIRATIONS.map((expiration) => (
+                    <SelectItem key={expiration} value={expiration}>
+                      {EXPIRATION_LABELS[expiration]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? (
+              <>
+                <Spinner />
+                Creating...
+              </>
+            ) : (
+              "Create token"
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
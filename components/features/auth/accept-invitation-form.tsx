@@ -0,0 +1,54 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+
+import { acceptInvitation } from "@/server/portfolio-members/update";
+
+export function AcceptInvitationForm({
+  token,
+  isAccepted,
+}: {
+  token: string;
+  isAccepted: boolean;
+}) {
+  const [isLoading, setIsLoading] = useState(false);
+
+  const router = useRouter();
+
+  async function handleAccept() {
+    setIsLoading(true);
+
+    const result = await acceptInvitation(token);
+
+    if (!result.success) {
+      toast.error("Couldn't accept invitation", {
+        description: result.message,
+      });
+      setIsLoading(false);
+      return;
+    }
+
+    toast.success("Invitation accepted");
+    router.push("/dashboard");
+  }
+
+  return (
+    <Button className="w-full" disabled={isLoading} onClick={handleAccept}>
+      {isLoading ? (
+        <>
+          <Spinner />
+          Accepting...
+        </>
+      ) : isAccepted ? (
+        "Open portfolio"
+      ) : (
+        "Accept invitation"
+      )}
+    </Button>
+  );
+}
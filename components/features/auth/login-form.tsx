@@ -41,7 +41,11 @@ const formSchema = z.object({
   password: z.string().min(1, { error: "Password is required." }),
 });
 
-export function LoginForm() {
+export function LoginForm({
+  redirectTo = "/dashboard",
+}: {
+  redirectTo?: string;
+}) {
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
 
@@ -83,7 +87,7 @@ export function LoginForm() {
       setIsLoading(false);
       return;
     }
-    router.push("/dashboard");
+    router.push(redirectTo);
   }
 
   return (
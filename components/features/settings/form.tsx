@@ -15,6 +15,13 @@ import {
   FormMessage,
   FormDescription,
 } from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { DialogClose } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
@@ -27,10 +34,20 @@ import {
 } from "@/server/profile/actions";
 import { useOptionalDashboardData } from "@/components/dashboard/dashboard-data-provider";
 
+import { COST_BASIS_METHODS } from "@/types/enums";
+import type { CostBasisMethod } from "@/lib/lot-matching";
+
 interface SettingsFormProps {
   onSuccess?: () => void;
 }
 
+const COST_BASIS_METHOD_LABELS: Record<CostBasisMethod, string> = {
+  fifo: "First in, first out (FIFO)",
+  lifo: "Last in, first out (LIFO)",
+  average_cost: "Average cost",
+  specific_lot: "Specific lot",
+};
+
 const formSchema = z.object({
   username: z
     .string()
@@ -43,6 +60,7 @@ const formSchema = z.object({
   display_currency: z.string({
     error: "Please select a currency.",
   }),
+  cost_basis_method: z.enum(COST_BASIS_METHODS),
 });
 
 export function SettingsForm({ onSuccess }: SettingsFormProps) {
@@ -61,6 +79,7 @@ export function SettingsForm({ onSuccess }: SettingsFormProps) {
     defaultValues: {
       username: profile.username,
       display_currency: profile.display_currency,
+      cost_basis_method: profile.cost_basis_method,
     },
   });
 
@@ -101,6 +120,7 @@ export function SettingsForm({ onSuccess }: SettingsFormProps) {
         "display_currency",
         values.display_currency.trim().toUpperCase(),
       );
+      formData.append("cost_basis_method", values.cost_basis_method);
 
       const result = await updateProfile(formData);
 
@@ -153,6 +173,38 @@ export function SettingsForm({ onSuccess }: SettingsFormProps) {
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="cost_basis_method"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Cost basis method</FormLabel>
+              <FormControl>
+                <Select
+                  onValueChange={(value) => field.onChange(value)}
+                  value={field.value}
+                >
+                  <SelectTrigger className="w-full sm:w-1/2" id={field.name}>
+                    <SelectValue placeholder="Select method" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COST_BASIS_METHODS.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {COST_BASIS_METHOD_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormControl>
+              <FormDescription>
+                How sales are matched to purchases when calculating realized
+                gains.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         {/* Read-only email field */}
         <FormItem>
           <FormLabel>Email</FormLabel>
@@ -1,7 +1,13 @@
 "use client";
 
 import { useState, type ReactNode } from "react";
-import { CircleUser, LogOut, Settings } from "lucide-react";
+import {
+  CircleUser,
+  DatabaseBackup,
+  KeyRound,
+  LogOut,
+  Settings,
+} from "lucide-react";
 import { toast } from "sonner";
 
 import {
@@ -16,6 +22,8 @@ import { Badge } from "@/components/ui/badge";
 
 import { SettingsDialog } from "@/components/features/settings/dialog";
 import { FinancialProfileDialog } from "@/components/features/financial-profile/dialog";
+import { ApiTokensDialog } from "@/components/features/api-tokens/dialog";
+import { AccountArchiveDialog } from "@/components/features/account-archive/dialog";
 import { signOut } from "@/server/auth/sign-out";
 import { useOptionalDashboardData } from "@/components/dashboard/dashboard-data-provider";
 
@@ -50,6 +58,9 @@ export function UserMenu({
   const [settingsDialogOpen, setSettingsDialogOpen] = useState(false);
   const [financialProfileDialogOpen, setFinancialProfileDialogOpen] =
     useState(false);
+  const [apiTokensDialogOpen, setApiTokensDialogOpen] = useState(false);
+  const [accountArchiveDialogOpen, setAccountArchiveDialogOpen] =
+    useState(false);
 
   async function handleSignOut() {
     setIsLoading(true);
@@ -96,6 +107,22 @@ export function UserMenu({
             <Settings className="size-4" />
             Settings
           </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={() => {
+              setApiTokensDialogOpen(true);
+            }}
+          >
+            <KeyRound className="size-4" />
+            API access
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={() => {
+              setAccountArchiveDialogOpen(true);
+            }}
+          >
+            <DatabaseBackup className="size-4" />
+            Backup & restore
+          </DropdownMenuItem>
           <DropdownMenuItem
             onSelect={(event) => {
               event.preventDefault();
@@ -129,6 +156,14 @@ export function UserMenu({
         profile={profile}
         email={emailValue}
       />
+      <ApiTokensDialog
+        open={apiTokensDialogOpen}
+        onOpenChange={setApiTokensDialogOpen}
+      />
+      <AccountArchiveDialog
+        open={accountArchiveDialogOpen}
+        onOpenChange={setAccountArchiveDialogOpen}
+      />
     </>
   );
 }
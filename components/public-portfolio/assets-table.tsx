@@ -19,17 +19,23 @@ import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { formatNumber, formatPercentage } from "@/lib/number-format";
 
-import type { PositionWithProfitLoss } from "@/types/global.types";
+import type { PublicPortfolioPosition } from "@/types/global.types";
 
 type PublicPortfolioAssetsTableProps = {
-  positions: PositionWithProfitLoss[];
+  positions: PublicPortfolioPosition[];
+  /** Off = weights instead of quantities and values */
+  showValues?: boolean;
+  /** Off also hides the cost basis, which would give P/L away */
+  showProfitLoss?: boolean;
 };
 
-const hasMarketData = (position: PositionWithProfitLoss) =>
+const hasMarketData = (position: PublicPortfolioPosition) =>
   position.has_market_data === true;
 
 export function PublicPortfolioAssetsTable({
   positions,
+  showValues = true,
+  showProfitLoss = true,
 }: PublicPortfolioAssetsTableProps) {
   if (positions.length === 0) {
     return (
@@ -47,6 +53,8 @@ export function PublicPortfolioAssetsTable({
     );
   }
 
+  const totalValue = positions.reduce((sum, { value }) => sum + value, 0);
+
   return (
     <div className="overflow-hidden rounded-lg border shadow-xs">
       <Table className="[&_td:first-child]:pl-4 [&_td:last-child]:pr-4 [&_th:first-child]:pl-4 [&_th:last-child]:pr-4">
@@ -54,11 +62,23 @@ export function PublicPortfolioAssetsTable({
           <TableRow>
             <TableHead>Name</TableHead>
             <TableHead>Currency</TableHead>
-            <TableHead className="text-right">Quantity</TableHead>
-            <TableHead className="text-right">Unit value</TableHead>
-            <TableHead className="text-right">Cost basis</TableHead>
-            <TableHead className="text-right">P/L</TableHead>
-            <TableHead className="text-right">P/L %</TableHead>
+            {showValues ? (
+              <>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead className="text-right">Unit value</TableHead>
+              </>
+            ) : (
+              <TableHead className="text-right">Weight</TableHead>
+            )}
+            {showValues && showProfitLoss && (
+              <>
+                <TableHead className="text-right">Cost basis</TableHead>
+                <TableHead className="text-right">P/L</TableHead>
+              </>
+            )}
+            {showProfitLoss && (
+              <TableHead className="text-right">P/L %</TableHead>
+            )}
           </TableRow>
         </TableHeader>
         <TableBody>
@@ -87,55 +107,73 @@ export function PublicPortfolioAssetsTable({
                 <TableCell>
                   <Badge variant="secondary">{position.currency}</Badge>
                 </TableCell>
-                <TableCell className="text-right tabular-nums">
-                  {formatNumber(position.current_quantity ?? 0, undefined, {
-                    maximumFractionDigits: 6,
-                  })}
-                </TableCell>
-                <TableCell className="text-right tabular-nums">
-                  {formatNumber(position.current_unit_value ?? 0, undefined, {
-                    maximumFractionDigits: 2,
-                  })}
-                </TableCell>
-                <TableCell className="text-right tabular-nums">
-                  {marketDataAvailable
-                    ? formatNumber(
-                        position.cost_basis_per_unit ?? 0,
+                {showValues ? (
+                  <>
+                    <TableCell className="text-right tabular-nums">
+                      {formatNumber(position.current_quantity ?? 0, undefined, {
+                        maximumFractionDigits: 6,
+                      })}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatNumber(
+                        position.current_unit_value ?? 0,
                         undefined,
                         { maximumFractionDigits: 2 },
-                      )
-                    : "-"}
-                </TableCell>
-                <TableCell
-                  className={cn(
-                    "text-right tabular-nums",
-                    !marketDataAvailable
-                      ? "text-muted-foreground"
-                      : profitLoss >= 0
-                        ? "text-green-600"
-                        : "text-red-600",
-                  )}
-                >
-                  {marketDataAvailable
-                    ? formatNumber(profitLoss, undefined, {
-                        maximumFractionDigits: 2,
-                      })
-                    : "-"}
-                </TableCell>
-                <TableCell
-                  className={cn(
-                    "text-right tabular-nums",
-                    !marketDataAvailable
-                      ? "text-muted-foreground"
-                      : profitLossPercent >= 0
-                        ? "text-green-600"
-                        : "text-red-600",
-                  )}
-                >
-                  {marketDataAvailable
-                    ? formatPercentage(profitLossPercent)
-                    : "-"}
-                </TableCell>
+                      )}
+                    </TableCell>
+                  </>
+                ) : (
+                  <TableCell className="text-right tabular-nums">
+                    {formatPercentage(
+                      totalValue === 0 ? 0 : position.value / totalValue,
+                    )}
+                  </TableCell>
+                )}
+                {showValues && showProfitLoss && (
+                  <>
+                    <TableCell className="text-right tabular-nums">
+                      {marketDataAvailable
+                        ? formatNumber(
+                            position.cost_basis_per_unit ?? 0,
+                            undefined,
+                            { maximumFractionDigits: 2 },
+                          )
+                        : "-"}
+                    </TableCell>
+                    <TableCell
+                      className={cn(
+                        "text-right tabular-nums",
+                        !marketDataAvailable
+                          ? "text-muted-foreground"
+                          : profitLoss >= 0
+                            ? "text-green-600"
+                            : "text-red-600",
+                      )}
+                    >
+                      {marketDataAvailable
+                        ? formatNumber(profitLoss, undefined, {
+                            maximumFractionDigits: 2,
+                          })
+                        : "-"}
+                    </TableCell>
+                  </>
+                )}
+                {showProfitLoss && (
+                  <TableCell
+                    className={cn(
+                      "text-right tabular-nums",
+                      !marketDataAvailable
+                        ? "text-muted-foreground"
+                        : profitLossPercent >= 0
+                          ? "text-green-600"
+                          : "text-red-600",
+                    )}
+                  >
+                    {marketDataAvailable
+                      ? formatPercentage(profitLossPercent)
+                      : "-"}
+                  </TableCell>
+                )}
               </TableRow>
             );
           })}
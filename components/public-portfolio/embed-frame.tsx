@@ -0,0 +1,57 @@
+"use client";
+
+import { useEffect } from "react";
+import { Lock } from "lucide-react";
+
+import { EMBED_THEMES } from "@/lib/public-portfolio";
+
+import type { EmbedTheme } from "@/lib/public-portfolio";
+
+/**
+ * Chrome-less wrapper for iframe widgets. Follows the visitor's color
+ * scheme unless the embedding site picks a theme.
+ */
+export function EmbedFrame({
+  slug,
+  theme,
+  children,
+}: {
+  slug: string;
+  theme?: EmbedTheme;
+  children: React.ReactNode;
+}) {
+  // Applied to the document only, so the choice isn't saved for the site
+  useEffect(() => {
+    if (!theme) return;
+
+    const root = document.documentElement;
+    root.classList.remove(...EMBED_THEMES);
+    root.classList.add(theme);
+    root.style.colorScheme = theme;
+  }, [theme]);
+
+  return (
+    <div className="bg-background flex h-svh flex-col gap-1 p-1">
+      <div className="flex min-h-0 flex-1 flex-col *:flex-1">{children}</div>
+      <a
+        href={`/portfolio/${slug}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-muted-foreground hover:text-foreground self-end px-1 text-xs transition-colors"
+      >
+        View on Foliofox
+      </a>
+    </div>
+  );
+}
+
+export function EmbedMessage({ message }: { message: string }) {
+  return (
+    <div className="flex flex-col items-center justify-center gap-2 rounded-lg border border-dashed p-4 text-center text-sm">
+      <div className="bg-accent rounded-lg p-2">
+        <Lock className="text-muted-foreground size-4" />
+      </div>
+      <p className="text-muted-foreground">{message}</p>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Lock } from "lucide-react";
+
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+
+import { unlockPublicPortfolio } from "@/server/public-portfolios/unlock";
+
+const formSchema = z.object({
+  password: z.string().min(1, { error: "Enter the password." }),
+});
+
+export function PublicPortfolioPasswordGate({
+  slug,
+  username,
+}: {
+  slug: string;
+  username: string | null;
+}) {
+  const [isLoading, setIsLoading] = useState(false);
+
+  const router = useRouter();
+
+  const form = useForm({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      password: "",
+    },
+  });
+
+  // Submit handler
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    setIsLoading(true);
+
+    const result = await unlockPublicPortfolio(slug, values.password);
+
+    if (!result.success) {
+      form.setError("password", { message: result.error });
+      setIsLoading(false);
+      return;
+    }
+
+    router.refresh();
+  }
+
+  return (
+    <div className="flex flex-1 flex-col items-center justify-center">
+      <div className="w-full max-w-sm text-center">
+        <div className="bg-accent mx-auto w-fit rounded-lg p-2">
+          <Lock className="text-muted-foreground size-4" />
+        </div>
+        <h1 className="mt-4 text-2xl font-semibold">Password required</h1>
+        <p className="text-muted-foreground mt-2">
+          {username ?? "The owner"} protected this portfolio with a password.
+        </p>
+        <Form {...form}>
+          <form
+            className="mt-6 grid gap-4 text-left"
+            onSubmit={form.handleSubmit(onSubmit)}
+          >
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Password</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="password" autoFocus />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button disabled={isLoading} type="submit">
+              {isLoading ? (
+                <>
+                  <Spinner />
+                  Unlocking...
+                </>
+              ) : (
+                "View portfolio"
+              )}
+            </Button>
+          </form>
+        </Form>
+      </div>
+    </div>
+  );
+}
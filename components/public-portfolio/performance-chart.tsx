@@ -0,0 +1,157 @@
+"use client";
+
+import { format, parseISO } from "date-fns";
+import {
+  ResponsiveContainer,
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+} from "recharts";
+import { ChartLine } from "lucide-react";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+import { formatNumber } from "@/lib/number-format";
+import { cn } from "@/lib/utils";
+
+import type { PerformanceRange } from "@/lib/public-portfolio";
+import type { PublicPerformance } from "@/server/public-portfolios/performance";
+
+const RANGE_LABELS: Record<PerformanceRange, string> = {
+  "1m": "1 month",
+  "3m": "3 months",
+  "6m": "6 months",
+  "1y": "1 year",
+};
+
+// Signed percentage from a fraction, e.g. 0.0512 -> "+5.12%"
+function formatSignedPercent(value: number) {
+  return `${value >= 0 ? "+" : ""}${formatNumber(value * 100, 2)}%`;
+}
+
+/**
+ * Cumulative time-weighted return of a public portfolio.
+ */
+export function PublicPerformanceChart({
+  performance,
+  range,
+  className,
+}: {
+  performance: PublicPerformance;
+  range: PerformanceRange;
+  className?: string;
+}) {
+  const data = performance.dates.map((date, index) => ({
+    date,
+    value: performance.returns[index],
+  }));
+  const totalReturn = performance.totalReturn ?? 0;
+  const color =
+    totalReturn >= 0 ? "oklch(0.72 0.19 150)" : "oklch(0.64 0.21 25)";
+
+  return (
+    <Card
+      className={cn(
+        "flex h-64 flex-col gap-0 rounded-lg shadow-xs md:h-80",
+        className,
+      )}
+    >
+      {data.length < 2 ? (
+        <CardContent className="flex flex-1 flex-col items-center justify-center text-center">
+          <div className="bg-accent rounded-lg p-2">
+            <ChartLine className="text-muted-foreground size-4" />
+          </div>
+          <p className="mt-3 font-medium">Performance</p>
+          <p className="text-muted-foreground mt-1 text-sm">
+            Not enough history for this period yet
+          </p>
+        </CardContent>
+      ) : (
+        <>
+          <CardHeader className="flex flex-none items-baseline justify-between gap-2">
+            <CardTitle>Performance</CardTitle>
+            <p className="text-sm">
+              <span
+                className={cn(
+                  "font-semibold tabular-nums",
+                  totalReturn >= 0 ? "text-green-600" : "text-red-600",
+                )}
+              >
+                {formatSignedPercent(totalReturn)}
+              </span>{" "}
+              <span className="text-muted-foreground">
+                {RANGE_LABELS[range]}
+              </span>
+            </p>
+          </CardHeader>
+          <CardContent className="flex-1 pt-2">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={data}>
+                <defs>
+                  <linearGradient
+                    id="publicPerformanceFill"
+                    x1="0"
+                    y1="0"
+                    x2="0"
+                    y2="1"
+                  >
+                    <stop offset="0%" stopColor={color} stopOpacity={0.2} />
+                    <stop offset="100%" stopColor={color} stopOpacity={0} />
+                  </linearGradient>
+                </defs>
+                <CartesianGrid stroke="var(--border)" vertical={false} />
+                <YAxis
+                  tickFormatter={(value: number) =>
+                    `${formatNumber(value * 100, 0)}%`
+                  }
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fontSize: 12, fill: "var(--muted-foreground)" }}
+                  domain={["auto", "auto"]}
+                  width={40}
+                />
+                <XAxis
+                  dataKey="date"
+                  tickFormatter={(date: string) =>
+                    format(parseISO(date), "MMM d")
+                  }
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fontSize: 12, fill: "var(--muted-foreground)" }}
+                  dy={5}
+                />
+                <Tooltip
+                  content={({ active, payload }) => {
+                    if (!active || !payload?.length) return null;
+
+                    return (
+                      <div className="bg-background border-border flex flex-col gap-1 rounded-md border px-2.5 py-1.5">
+                        <span className="text-muted-foreground text-xs">
+                          {format(parseISO(payload[0].payload.date), "PPP")}
+                        </span>
+                        <span className="text-sm font-semibold tabular-nums">
+                          {formatSignedPercent(Number(payload[0].value))}
+                        </span>
+                      </div>
+                    );
+                  }}
+                  cursor={{ stroke: "var(--border)", strokeWidth: 1 }}
+                />
+                <Area
+                  dataKey="value"
+                  stroke={color}
+                  strokeWidth={1.5}
+                  fill="url(#publicPerformanceFill)"
+                  dot={false}
+                />
+              </AreaChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </>
+      )}
+    </Card>
+  );
+}
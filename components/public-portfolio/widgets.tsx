@@ -0,0 +1,71 @@
+import { AssetAllocationDonutPublic } from "@/components/dashboard/charts/asset-allocation-donut";
+import { PublicPerformanceChart } from "@/components/public-portfolio/performance-chart";
+
+import { calculateNetWorth } from "@/server/analysis/net-worth";
+import { calculateAssetAllocation } from "@/server/analysis/asset-allocation";
+import { toPublicQueryContext } from "@/server/public-portfolios/positions";
+import { fetchPublicPerformance } from "@/server/public-portfolios/performance";
+
+import { redactPublicAllocation } from "@/lib/public-portfolio";
+
+import type { PerformanceRange } from "@/lib/public-portfolio";
+import type { PublicPortfolioSettings } from "@/types/global.types";
+
+type PublicWidgetProps = {
+  userId: string;
+  currency: string;
+  settings: PublicPortfolioSettings;
+  className?: string;
+};
+
+export async function PublicAssetAllocation({
+  userId,
+  currency,
+  settings,
+  className,
+}: PublicWidgetProps) {
+  "use cache";
+
+  const context = toPublicQueryContext(userId, settings);
+  const asOfDate = new Date();
+
+  const [netWorth, assetAllocation] = await Promise.all([
+    calculateNetWorth(currency, asOfDate, context),
+    calculateAssetAllocation(currency, asOfDate, context),
+  ]);
+
+  // Percentages only: absolute values never reach the browser
+  return (
+    <AssetAllocationDonutPublic
+      netWorth={settings.showValues ? netWorth : 0}
+      currency={currency}
+      assetAllocation={redactPublicAllocation(assetAllocation, settings)}
+      showValues={settings.showValues}
+      className={className}
+    />
+  );
+}
+
+export async function PublicPerformance({
+  userId,
+  currency,
+  settings,
+  range,
+  className,
+}: PublicWidgetProps & { range: PerformanceRange }) {
+  "use cache";
+
+  const performance = await fetchPublicPerformance(
+    currency,
+    range,
+    toPublicQueryContext(userId, settings),
+  );
+
+  return (
+    <PublicPerformanceChart
+      performance={performance}
+      range={range}
+      className={className}
+    />
+  );
+}
@@ -0,0 +1,299 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  ACCOUNT_ARCHIVE_FORMAT,
+  ACCOUNT_ARCHIVE_VERSION,
+  getRecalculationDates,
+  parseAccountArchive,
+} from "./account-archive";
+
+const emptyArchive = {
+  format: ACCOUNT_ARCHIVE_FORMAT,
+  version: ACCOUNT_ARCHIVE_VERSION,
+  exported_at: "2025-06-01T12:00:00.000Z",
+  profile: {
+    username: "fox",
+    display_currency: "EUR",
+    cost_basis_method: "fifo",
+    data_sharing_consent: false,
+  },
+  financial_profile: null,
+  accounts: [],
+  symbols: [],
+  positions: [],
+  opening_snapshots: [],
+  portfolio_records: [],
+  lot_selections: [],
+  properties: [],
+  property_index_values: [],
+  loans: [],
+  recurring_transactions: [],
+  public_portfolio: null,
+  conversations: [],
+};
+
+const fullArchive = {
+  ...emptyArchive,
+  accounts: [
+    {
+      id: "account-1",
+      name: "Brokerage",
+      currency: "EUR",
+      institution: null,
+      tax_wrapper: "taxable",
+      description: null,
+      created_at: "2025-01-01T00:00:00.000Z",
+    },
+  ],
+  symbols: [
+    {
+      id: "symbol-1",
+      ticker: "VWCE.DE",
+      currency: "EUR",
+      quote_type: "ETF",
+      exchange: "GER",
+      short_name: "Vanguard FTSE All-World",
+      long_name: null,
+      sector: null,
+      industry: null,
+      aliases: [
+        {
+          type: "ticker",
+          value: "VWCE.DE",
+          source: "yahoo",
+          is_primary: true,
+          effective_from: "2025-01-01T00:00:00.000Z",
+          effective_to: null,
+        },
+        {
+          type: "isin",
+          value: "IE00BK5BQT80",
+          source: "manual",
+          is_primary: false,
+          effective_from: "2025-01-01T00:00:00.000Z",
+          effective_to: null,
+        },
+      ],
+    },
+  ],
+  positions: [
+    {
+      id: "etf",
+      type: "asset",
+      name: "All-World",
+      currency: "EUR",
+      category_id: "equity",
+      description: null,
+      symbol_id: "symbol-1",
+      domain_id: null,
+      account_id: "account-1",
+      wallet_chain: null,
+      wallet_address: null,
+      property_id: null,
+      archived_at: null,
+      created_at: "2025-01-01T00:00:00.000Z",
+    },
+    {
+      id: "cash",
+      type: "asset",
+      name: "Cash",
+      currency: "EUR",
+      category_id: "cash",
+      description: null,
+      symbol_id: null,
+      domain_id: null,
+      account_id: "account-1",
+      wallet_chain: null,
+      wallet_address: null,
+      property_id: null,
+      archived_at: null,
+      created_at: "2025-01-01T00:00:00.000Z",
+    },
+    {
+      id: "home",
+      type: "asset",
+      name: "Home",
+      currency: "EUR",
+      category_id: "real_estate",
+      description: null,
+      symbol_id: null,
+      domain_id: null,
+      account_id: null,
+      wallet_chain: null,
+      wallet_address: null,
+      property_id: "property-1",
+      archived_at: null,
+      created_at: "2025-01-01T00:00:00.000Z",
+    },
+    {
+      id: "mortgage",
+      type: "liability",
+      name: "Mortgage",
+      currency: "EUR",
+      category_id: "mortgage",
+      description: null,
+      symbol_id: null,
+      domain_id: null,
+      account_id: null,
+      wallet_chain: null,
+      wallet_address: null,
+      property_id: null,
+      archived_at: null,
+      created_at: "2025-01-01T00:00:00.000Z",
+    },
+  ],
+  opening_snapshots: [
+    {
+      position_id: "mortgage",
+      date: "2025-01-01",
+      quantity: 1,
+      unit_value: 200000,
+      cost_basis_per_unit: 200000,
+    },
+  ],
+  portfolio_records: [
+    {
+      id: "buy-1",
+      position_id: "etf",
+      type: "buy",
+      date: "2025-02-03",
+      quantity: 10,
+      unit_value: 120,
+      description: null,
+      trade_record_id: null,
+      import_fingerprint: null,
+      cost_basis_per_unit: null,
+      created_at: "2025-02-03T00:00:00.000Z",
+    },
+    {
+      id: "settlement-1",
+      position_id: "cash",
+      type: "settlement",
+      date: "2025-02-03",
+      quantity: -1200,
+      unit_value: 1,
+      description: null,
+      trade_record_id: "buy-1",
+      import_fingerprint: null,
+      cost_basis_per_unit: null,
+      created_at: "2025-02-03T00:00:00.000Z",
+    },
+  ],
+  properties: [
+    {
+      id: "property-1",
+      address: "1 Main Street",
+      region: "Lisbon",
+      created_at: "2025-01-01T00:00:00.000Z",
+      appraisals: [
+        { date: "2025-01-01", value: 350000, description: "Purchase" },
+      ],
+    },
+  ],
+  property_index_values: [
+    { region: "Lisbon", date: "2025-01-01", value: 100 },
+    { region: "Lisbon", date: "2025-04-01", value: 102.5 },
+  ],
+  loans: [
+    {
+      position_id: "mortgage",
+      principal: 200000,
+      annual_interest_rate: 3.5,
+      term_months: 360,
+      payment_frequency: "monthly",
+      start_date: "2025-01-01",
+      recurring_extra_payment: 0,
+      created_at: "2025-01-01T00:00:00.000Z",
+      extra_payments: [{ date: "2025-06-01", amount: 5000 }],
+    },
+  ],
+  recurring_transactions: [
+    {
+      position_id: "etf",
+      type: "buy",
+      frequency: "monthly",
+      start_date: "2025-02-03",
+      end_date: null,
+      quantity: null,
+      amount: 500,
+      unit_value: null,
+      settlement_position_id: "cash",
+      description: "Savings plan",
+      auto_confirm: false,
+      is_active: true,
+      last_occurrence_date: "2025-03-03",
+      created_at: "2025-02-01T00:00:00.000Z",
+      pending_occurrences: [
+        { due_date: "2025-03-03", quantity: 4.1, unit_value: 122 },
+      ],
+    },
+  ],
+};
+
+describe("parseAccountArchive", () => {
+  it("accepts an archive of the current version", () => {
+    const result = parseAccountArchive(JSON.stringify(emptyArchive));
+
+    expect(result.ok).toBe(true);
+  });
+
+  it("round-trips every section of an archive", () => {
+    const result = parseAccountArchive(JSON.stringify(fullArchive));
+
+    expect(result).toEqual({ ok: true, archive: fullArchive });
+  });
+
+  it("reads version 1 archives without the later sections", () => {
+    // Missing keys, like in archives exported before these sections
+    const result = parseAccountArchive(
+      JSON.stringify({
+        ...fullArchive,
+        version: 1,
+        positions: fullArchive.positions.map((position) => ({
+          ...position,
+          property_id: undefined,
+        })),
+        properties: undefined,
+        property_index_values: undefined,
+        loans: undefined,
+        recurring_transactions: undefined,
+      }),
+    );
+
+    expect(result.ok && result.archive.properties).toEqual([]);
+    expect(result.ok && result.archive.property_index_values).toEqual([]);
+    expect(result.ok && result.archive.loans).toEqual([]);
+    expect(result.ok && result.archive.recurring_transactions).toEqual([]);
+    expect(
+      result.ok && result.archive.positions.map((p) => p.property_id),
+    ).toEqual([null, null, null, null]);
+  });
+
+  it("rejects other versions and files that aren't archives", () => {
+    const newer = parseAccountArchive(
+      JSON.stringify({ ...emptyArchive, version: ACCOUNT_ARCHIVE_VERSION + 1 }),
+    );
+    expect(newer).toEqual({
+      ok: false,
+      message: `Not a valid Foliofox archive: Only archives up to version ${ACCOUNT_ARCHIVE_VERSION} can be restored. (at version)`,
+    });
+
+    expect(parseAccountArchive("name,currency\n").ok).toBe(false);
+  });
+});
+
+describe("getRecalculationDates", () => {
+  it("starts at the first record and at every UPDATE record", () => {
+    expect(
+      getRecalculationDates([
+        { type: "buy", date: "2025-03-10" },
+        { type: "update", date: "2025-04-01" },
+        { type: "buy", date: "2025-01-15" },
+        { type: "sell", date: "2025-05-02" },
+        { type: "update", date: "2025-01-15" },
+      ]),
+    ).toEqual(["2025-01-15", "2025-04-01"]);
+
+    expect(getRecalculationDates([])).toEqual([]);
+  });
+});
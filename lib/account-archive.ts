@@ -0,0 +1,287 @@
+import { z } from "zod";
+
+import {
+  ACCOUNT_TAX_WRAPPERS,
+  AGE_BANDS,
+  CONVERSATION_ROLES,
+  COST_BASIS_METHODS,
+  LOAN_PAYMENT_FREQUENCIES,
+  PORTFOLIO_RECORD_TYPES,
+  POSITION_TYPES,
+  RECURRING_FREQUENCIES,
+  RISK_PREFERENCES,
+} from "@/types/enums";
+import type { Json } from "@/types/database.types";
+
+// Versioned JSON backup of one account. Rows keep their exported ids so
+// references between sections can be followed; restore gives every row a
+// new id. Position snapshots aren't exported: they're rebuilt from the
+// records, except the opening snapshots positions start from. Sections
+// added after version 1 default to empty, so older archives still restore.
+
+export const ACCOUNT_ARCHIVE_FORMAT = "foliofox-account-archive";
+export const ACCOUNT_ARCHIVE_VERSION = 2;
+
+const date = z.iso.date();
+const timestamp = z.string();
+
+const symbolSchema = z.object({
+  id: z.string(),
+  ticker: z.string(),
+  currency: z.string(),
+  quote_type: z.string(),
+  exchange: z.string().nullable(),
+  short_name: z.string().nullable(),
+  long_name: z.string().nullable(),
+  sector: z.string().nullable(),
+  industry: z.string().nullable(),
+  aliases: z.array(
+    z.object({
+      type: z.string(),
+      value: z.string(),
+      source: z.string(),
+      is_primary: z.boolean(),
+      effective_from: timestamp,
+      effective_to: timestamp.nullable(),
+    }),
+  ),
+});
+
+export const accountArchiveSchema = z.object({
+  format: z.literal(ACCOUNT_ARCHIVE_FORMAT),
+  version: z
+    .number()
+    .int()
+    .min(1)
+    .max(ACCOUNT_ARCHIVE_VERSION, {
+      error: `Only archives up to version ${ACCOUNT_ARCHIVE_VERSION} can be restored.`,
+    }),
+  exported_at: timestamp,
+  profile: z.object({
+    username: z.string(),
+    display_currency: z.string(),
+    cost_basis_method: z.enum(COST_BASIS_METHODS),
+    data_sharing_consent: z.boolean(),
+  }),
+  financial_profile: z
+    .object({
+      age_band: z.enum(AGE_BANDS).nullable(),
+      income_amount: z.number().nullable(),
+      income_currency: z.string().nullable(),
+      risk_preference: z.enum(RISK_PREFERENCES).nullable(),
+      about: z.string().nullable(),
+    })
+    .nullable(),
+  accounts: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      currency: z.string(),
+      institution: z.string().nullable(),
+      tax_wrapper: z.enum(ACCOUNT_TAX_WRAPPERS),
+      description: z.string().nullable(),
+      created_at: timestamp,
+    }),
+  ),
+  symbols: z.array(symbolSchema),
+  positions: z.array(
+    z.object({
+      id: z.string(),
+      type: z.enum(POSITION_TYPES),
+      name: z.string(),
+      currency: z.string(),
+      category_id: z.string(),
+      description: z.string().nullable(),
+      symbol_id: z.string().nullable(),
+      domain_id: z.string().nullable(),
+      account_id: z.string().nullable(),
+      wallet_chain: z.string().nullable(),
+      wallet_address: z.string().nullable(),
+      property_id: z.string().nullable().default(null),
+      archived_at: timestamp.nullable(),
+      created_at: timestamp,
+    }),
+  ),
+  /** Properties behind real estate positions, with their appraisals */
+  properties: z
+    .array(
+      z.object({
+        id: z.string(),
+        address: z.string().nullable(),
+        region: z.string().nullable(),
+        created_at: timestamp,
+        appraisals: z.array(
+          z.object({
+            date,
+            value: z.number(),
+            description: z.string().nullable(),
+          }),
+        ),
+      }),
+    )
+    .default([]),
+  /** Regional price index series properties are valued with */
+  property_index_values: z
+    .array(z.object({ region: z.string(), date, value: z.number() }))
+    .default([]),
+  loans: z
+    .array(
+      z.object({
+        position_id: z.string(),
+        principal: z.number(),
+        annual_interest_rate: z.number(),
+        term_months: z.number().int(),
+        payment_frequency: z.enum(LOAN_PAYMENT_FREQUENCIES),
+        start_date: date,
+        recurring_extra_payment: z.number(),
+        created_at: timestamp,
+        extra_payments: z.array(z.object({ date, amount: z.number() })),
+      }),
+    )
+    .default([]),
+  /** Snapshots not tied to a record, e.g. the quantity a position started with */
+  opening_snapshots: z.array(
+    z.object({
+      position_id: z.string(),
+      date,
+      quantity: z.number(),
+      unit_value: z.number(),
+      cost_basis_per_unit: z.number().nullable(),
+    }),
+  ),
+  portfolio_records: z.array(
+    z.object({
+      id: z.string(),
+      position_id: z.string(),
+      type: z.enum(PORTFOLIO_RECORD_TYPES),
+      date,
+      quantity: z.number(),
+      unit_value: z.number(),
+      description: z.string().nullable(),
+      trade_record_id: z.string().nullable(),
+      import_fingerprint: z.string().nullable(),
+      /** Cost basis set on an UPDATE record */
+      cost_basis_per_unit: z.number().nullable(),
+      created_at: timestamp,
+    }),
+  ),
+  lot_selections: z.array(
+    z.object({
+      portfolio_record_id: z.string(),
+      lot_record_id: z.string().nullable(),
+      quantity: z.number(),
+    }),
+  ),
+  recurring_transactions: z
+    .array(
+      z.object({
+        position_id: z.string(),
+        type: z.enum(PORTFOLIO_RECORD_TYPES),
+        frequency: z.enum(RECURRING_FREQUENCIES),
+        start_date: date,
+        end_date: date.nullable(),
+        quantity: z.number().nullable(),
+        amount: z.number().nullable(),
+        unit_value: z.number().nullable(),
+        settlement_position_id: z.string().nullable(),
+        description: z.string().nullable(),
+        auto_confirm: z.boolean(),
+        is_active: z.boolean(),
+        last_occurrence_date: date.nullable(),
+        created_at: timestamp,
+        /** Occurrences still waiting for confirmation */
+        pending_occurrences: z.array(
+          z.object({
+            due_date: date,
+            quantity: z.number().nullable(),
+            unit_value: z.number().nullable(),
+          }),
+        ),
+      }),
+    )
+    .default([]),
+  public_portfolio: z
+    .object({
+      slug: z.string(),
+      expires_at: timestamp.nullable(),
+      password_hash: z.string().nullable(),
+      show_values: z.boolean(),
+      show_profit_loss: z.boolean(),
+      show_income: z.boolean(),
+      hidden_position_ids: z.array(z.string()),
+      hidden_category_ids: z.array(z.string()),
+    })
+    .nullable(),
+  conversations: z.array(
+    z.object({
+      id: z.string(),
+      title: z.string(),
+      created_at: timestamp,
+      updated_at: timestamp,
+      messages: z.array(
+        z.object({
+          role: z.enum(CONVERSATION_ROLES),
+          content: z.string(),
+          parts: z.custom<Json>((value) => value !== undefined),
+          model: z.string().nullable(),
+          order: z.number().int(),
+          usage_tokens: z.number().nullable(),
+          created_at: timestamp,
+        }),
+      ),
+    }),
+  ),
+});
+
+export type AccountArchive = z.infer<typeof accountArchiveSchema>;
+
+/**
+ * Parse an archive file, with the first problem as message when it isn't a
+ * valid archive.
+ */
+export function parseAccountArchive(
+  content: string,
+): { ok: true; archive: AccountArchive } | { ok: false; message: string } {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    return { ok: false, message: "The file isn't valid JSON." };
+  }
+
+  const parsed = accountArchiveSchema.safeParse(json);
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues;
+    return {
+      ok: false,
+      message: `Not a valid Foliofox archive: ${issue.message}${
+        issue.path.length ? ` (at ${issue.path.join(".")})` : ""
+      }`,
+    };
+  }
+
+  return { ok: true, archive: parsed.data };
+}
+
+/**
+ * Dates to recalculate a position's snapshots from, in order. Each
+ * recalculation stops at the next UPDATE record, so the history is covered
+ * by its first record plus every UPDATE record.
+ */
+export function getRecalculationDates(
+  records: Pick<AccountArchive["portfolio_records"][number], "type" | "date">[],
+) {
+  if (!records.length) return [];
+
+  const dates = new Set<string>([
+    records.reduce(
+      (earliest, record) => (record.date < earliest ? record.date : earliest),
+      records[0].date,
+    ),
+  ]);
+  records
+    .filter((record) => record.type === "update")
+    .forEach((record) => dates.add(record.date));
+
+  return Array.from(dates).sort();
+}
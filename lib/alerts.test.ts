@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  evaluateAllocationDrift,
+  evaluateDailyMove,
+  evaluateExDividend,
+  evaluatePriceCross,
+  shouldNotify,
+} from "./alerts";
+
+describe("evaluatePriceCross", () => {
+  const rule = { direction: "above", threshold: 100 };
+  const quote = { ticker: "AAPL", currency: "USD" };
+
+  it("notifies once per crossing", () => {
+    const crossed = evaluatePriceCross(rule, { ...quote, price: 105 });
+    expect(shouldNotify(null, crossed)).toBe(true);
+
+    // Still above on the next run: already notified
+    const stillAbove = evaluatePriceCross(rule, { ...quote, price: 110 });
+    expect(shouldNotify(crossed!.key, stillAbove)).toBe(false);
+
+    // Back below clears the key, the next crossing notifies again
+    expect(evaluatePriceCross(rule, { ...quote, price: 95 })).toBeNull();
+    expect(
+      shouldNotify(null, evaluatePriceCross(rule, { ...quote, price: 101 })),
+    ).toBe(true);
+  });
+
+  it("supports crossing below", () => {
+    const below = { direction: "below", threshold: 100 };
+    expect(evaluatePriceCross(below, { ...quote, price: 99 })).not.toBeNull();
+    expect(evaluatePriceCross(below, { ...quote, price: 101 })).toBeNull();
+  });
+});
+
+describe("evaluateDailyMove", () => {
+  const move = {
+    positionName: "Bitcoin",
+    previousUnitValue: 100,
+    currency: "USD",
+    date: "2025-06-02",
+  };
+
+  it("triggers on moves of at least the threshold either way", () => {
+    expect(
+      evaluateDailyMove({ threshold: 5 }, { ...move, currentUnitValue: 94 }),
+    ).toMatchObject({ key: "2025-06-02" });
+    expect(
+      evaluateDailyMove({ threshold: 5 }, { ...move, currentUnitValue: 104 }),
+    ).toBeNull();
+  });
+});
+
+describe("evaluateAllocationDrift", () => {
+  it("uses the rule threshold over target tolerances", () => {
+    const groups = [
+      { key: "equity", name: "Equity", driftPct: 4, tolerance: 5 },
+      { key: "cash", name: "Cash", driftPct: -4, tolerance: 5 },
+    ];
+
+    expect(evaluateAllocationDrift({ threshold: null }, groups)).toBeNull();
+    expect(evaluateAllocationDrift({ threshold: 3 }, groups)).toMatchObject({
+      key: "cash,equity",
+    });
+  });
+});
+
+describe("evaluateExDividend", () => {
+  const dividends = [
+    { ticker: "KO", exDividendDate: "2025-06-05" },
+    { ticker: "PEP", exDividendDate: "2025-06-20" },
+    { ticker: "T", exDividendDate: "2025-05-30" },
+  ];
+
+  it("keeps ex-dates inside the window", () => {
+    const trigger = evaluateExDividend(
+      { days_before: 7 },
+      dividends,
+      new Date(2025, 5, 1),
+    );
+    expect(trigger).toMatchObject({ key: "KO:2025-06-05" });
+  });
+});
@@ -0,0 +1,173 @@
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+
+import { formatCurrency, formatPercentage } from "@/lib/number-format";
+
+import type { RebalancingGroup } from "@/lib/rebalancing";
+import type { AlertRule } from "@/types/global.types";
+
+/**
+ * A rule whose condition holds. The key identifies the event: a rule only
+ * notifies when its key differs from the one that fired last.
+ */
+export type AlertTrigger = {
+  key: string;
+  title: string;
+  body: string;
+};
+
+export type UpcomingExDividend = {
+  ticker: string;
+  /** YYYY-MM-DD */
+  exDividendDate: string;
+};
+
+type CrossingRule = Pick<AlertRule, "direction" | "threshold">;
+
+// Crossings stay triggered for as long as the value is past the threshold
+const CROSSED_KEY = "crossed";
+
+function isPastThreshold(rule: CrossingRule, value: number) {
+  if (rule.threshold === null) return false;
+  return rule.direction === "below"
+    ? value < rule.threshold
+    : value > rule.threshold;
+}
+
+/**
+ * Whether a rule should notify: its condition holds for an event it has not
+ * notified about yet.
+ */
+export function shouldNotify(
+  lastTriggerKey: string | null,
+  trigger: AlertTrigger | null,
+): trigger is AlertTrigger {
+  return trigger !== null && trigger.key !== lastTriggerKey;
+}
+
+/** Symbol price above/below the threshold (in the symbol's currency). */
+export function evaluatePriceCross(
+  rule: CrossingRule,
+  quote: { ticker: string; price: number; currency: string },
+): AlertTrigger | null {
+  if (!isPastThreshold(rule, quote.price)) return null;
+
+  return {
+    key: CROSSED_KEY,
+    title: `${quote.ticker} is ${rule.direction} ${formatCurrency(rule.threshold!, quote.currency)}`,
+    body: `${quote.ticker} trades at ${formatCurrency(quote.price, quote.currency)}.`,
+  };
+}
+
+/**
+ * Position unit value moving by at least the threshold (in percent) since
+ * the previous day, either way. Keyed by date, so every big day notifies.
+ */
+export function evaluateDailyMove(
+  rule: Pick<AlertRule, "threshold">,
+  move: {
+    positionName: string;
+    previousUnitValue: number;
+    currentUnitValue: number;
+    currency: string;
+    /** YYYY-MM-DD */
+    date: string;
+  },
+): AlertTrigger | null {
+  if (rule.threshold === null || move.previousUnitValue <= 0) return null;
+
+  const change = move.currentUnitValue / move.previousUnitValue - 1;
+  if (Math.abs(change) * 100 < rule.threshold) return null;
+
+  return {
+    key: move.date,
+    title: `${move.positionName} ${change > 0 ? "rose" : "fell"} ${formatPercentage(Math.abs(change), 1)} today`,
+    body: `${move.positionName} moved from ${formatCurrency(move.previousUnitValue, move.currency)} to ${formatCurrency(move.currentUnitValue, move.currency)}.`,
+  };
+}
+
+/** Net worth above/below the threshold (in the rule's currency). */
+export function evaluateNetWorthCross(
+  rule: CrossingRule & Pick<AlertRule, "currency">,
+  netWorth: number,
+): AlertTrigger | null {
+  if (!rule.currency || !isPastThreshold(rule, netWorth)) return null;
+
+  return {
+    key: CROSSED_KEY,
+    title: `Net worth is ${rule.direction} ${formatCurrency(rule.threshold!, rule.currency)}`,
+    body: `Your net worth is ${formatCurrency(netWorth, rule.currency)}.`,
+  };
+}
+
+/**
+ * Allocation targets drifting outside their band. The rule's threshold (in
+ * percentage points) overrides the targets' own tolerance. Keyed by the
+ * drifting targets, so a new target drifting notifies again.
+ */
+export function evaluateAllocationDrift(
+  rule: Pick<AlertRule, "threshold">,
+  groups: Pick<RebalancingGroup, "key" | "name" | "driftPct" | "tolerance">[],
+): AlertTrigger | null {
+  const drifting = groups
+    .filter(
+      (group) => Math.abs(group.driftPct) > (rule.threshold ?? group.tolerance),
+    )
+    .sort((a, b) => a.key.localeCompare(b.key));
+
+  if (!drifting.length) return null;
+
+  return {
+    key: drifting.map((group) => group.key).join(","),
+    title: `${drifting.length === 1 ? "An allocation target has" : `${drifting.length} allocation targets have`} drifted`,
+    body: drifting
+      .map(
+        (group) =>
+          `${group.name}: ${group.driftPct > 0 ? "+" : ""}${group.driftPct.toFixed(1)} pp from target`,
+      )
+      .join("\n"),
+  };
+}
+
+/**
+ * Ex-dividend dates within the rule's window, today included. Keyed by the
+ * dates, so each upcoming ex-date notifies once.
+ */
+export function evaluateExDividend(
+  rule: Pick<AlertRule, "days_before">,
+  dividends: UpcomingExDividend[],
+  asOfDate: Date = new Date(),
+): AlertTrigger | null {
+  const window = rule.days_before ?? 0;
+
+  const upcoming = dividends
+    .filter((dividend) => {
+      const days = differenceInCalendarDays(
+        parseISO(dividend.exDividendDate),
+        asOfDate,
+      );
+      return days >= 0 && days <= window;
+    })
+    .sort(
+      (a, b) =>
+        a.exDividendDate.localeCompare(b.exDividendDate) ||
+        a.ticker.localeCompare(b.ticker),
+    );
+
+  if (!upcoming.length) return null;
+
+  return {
+    key: upcoming
+      .map((dividend) => `${dividend.ticker}:${dividend.exDividendDate}`)
+      .join(","),
+    title:
+      upcoming.length === 1
+        ? `${upcoming[0].ticker} goes ex-dividend soon`
+        : `${upcoming.length} holdings go ex-dividend soon`,
+    body: upcoming
+      .map(
+        (dividend) =>
+          `${dividend.ticker}: ex-dividend on ${format(parseISO(dividend.exDividendDate), "PP")}`,
+      )
+      .join("\n"),
+  };
+}
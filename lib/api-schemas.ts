@@ -0,0 +1,110 @@
+import { z } from "zod";
+
+import {
+  cashRecordSchema,
+  tradeRecordSchema,
+  updateRecordSchema,
+} from "@/lib/portfolio-record-schemas";
+
+// Request schemas of the REST API (v1). Record bodies reuse the form
+// schemas, with dates as ISO strings instead of Date objects.
+
+const dateParam = z.iso.date({ error: "Dates must be YYYY-MM-DD." });
+const booleanParam = z.enum(["true", "false"]);
+
+export const positionIdSchema = z.uuid({ error: "Position IDs are UUIDs." });
+
+export const positionsQuerySchema = z.object({
+  type: z.enum(["asset", "liability"]).optional(),
+  account_id: z.uuid().optional(),
+  include_archived: booleanParam.optional(),
+});
+
+export const snapshotsQuerySchema = z.object({
+  start_date: dateParam.optional(),
+  end_date: dateParam.optional(),
+});
+
+export const portfolioRecordsQuerySchema = z.object({
+  position_id: z.uuid().optional(),
+  start_date: dateParam.optional(),
+  end_date: dateParam.optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  page_size: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+/** Net worth and allocation; currency defaults to the display currency. */
+export const valuationQuerySchema = z.object({
+  currency: z
+    .string()
+    .regex(/^[A-Z]{3}$/, { error: "Currency must be an ISO 4217 code." })
+    .optional(),
+  date: dateParam.optional(),
+  account_id: z.uuid().optional(),
+});
+
+const recordTarget = {
+  position_id: z.uuid({ error: "A position ID is required." }),
+  date: dateParam,
+};
+
+export const createPortfolioRecordSchema = z.discriminatedUnion("type", [
+  tradeRecordSchema.extend({
+    ...recordTarget,
+    type: z.enum(["buy", "sell"]),
+    /** Cash position the trade settles against */
+    settlement_position_id: z.uuid().optional(),
+  }),
+  updateRecordSchema.extend({
+    ...recordTarget,
+    type: z.literal("update"),
+    cost_basis_per_unit: z
+      .number()
+      .gt(0, { error: "Cost basis per unit must be greater than 0" })
+      .optional(),
+  }),
+  cashRecordSchema.extend(recordTarget),
+]);
+
+export const apiErrorSchema = z.object({
+  error: z.object({
+    code: z.string(),
+    message: z.string(),
+  }),
+});
+
+export type CreatePortfolioRecordInput = z.infer<
+  typeof createPortfolioRecordSchema
+>;
+
+/**
+ * Form data for createPortfolioRecord, as the record forms submit it.
+ */
+export function toPortfolioRecordFormData(input: CreatePortfolioRecordInput) {
+  const formData = new FormData();
+  formData.append("type", input.type);
+  formData.append("position_id", input.position_id);
+  formData.append("date", input.date);
+
+  if ("amount" in input) {
+    // Cash is held at a unit value of 1, so the amount is the quantity
+    formData.append("quantity", input.amount.toString());
+    formData.append("unit_value", "1");
+  } else {
+    formData.append("quantity", input.quantity.toString());
+    formData.append("unit_value", input.unit_value.toString());
+  }
+
+  if (input.description) formData.append("description", input.description);
+  if ("cost_basis_per_unit" in input && input.cost_basis_per_unit) {
+    formData.append(
+      "cost_basis_per_unit",
+      input.cost_basis_per_unit.toString(),
+    );
+  }
+  if ("settlement_position_id" in input && input.settlement_position_id) {
+    formData.append("settlement_position_id", input.settlement_position_id);
+  }
+
+  return formData;
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  computeApiTokenExpiration,
+  generateApiToken,
+  getRateLimitWindow,
+  hasApiScope,
+  hashApiToken,
+  isApiTokenActive,
+  parseBearerToken,
+} from "./api-tokens";
+
+describe("generateApiToken", () => {
+  it("stores only the hash and a short prefix", () => {
+    const { token, tokenHash, tokenPrefix } = generateApiToken();
+
+    expect(token.startsWith("ffpat_")).toBe(true);
+    expect(tokenHash).toBe(hashApiToken(token));
+    expect(tokenHash).not.toContain(token);
+    expect(token.startsWith(tokenPrefix)).toBe(true);
+    expect(tokenPrefix.length).toBeLessThan(token.length);
+  });
+});
+
+describe("parseBearerToken", () => {
+  it("only accepts personal access tokens", () => {
+    expect(parseBearerToken("Bearer ffpat_abc")).toBe("ffpat_abc");
+    expect(parseBearerToken("bearer  ffpat_abc")).toBe("ffpat_abc");
+    expect(parseBearerToken("Bearer eyJhbGciOi")).toBeNull();
+    expect(parseBearerToken("Basic ffpat_abc")).toBeNull();
+    expect(parseBearerToken(null)).toBeNull();
+  });
+});
+
+describe("isApiTokenActive", () => {
+  const now = new Date("2025-06-01T12:00:00Z");
+
+  it("rejects revoked and expired tokens", () => {
+    expect(isApiTokenActive({ revoked_at: null, expires_at: null }, now)).toBe(
+      true,
+    );
+    expect(
+      isApiTokenActive(
+        { revoked_at: "2025-05-01T00:00:00Z", expires_at: null },
+        now,
+      ),
+    ).toBe(false);
+    expect(
+      isApiTokenActive(
+        {
+          revoked_at: null,
+          expires_at: computeApiTokenExpiration("30d", new Date("2025-04-01")),
+        },
+        now,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("hasApiScope", () => {
+  it("lets read-write tokens read", () => {
+    expect(hasApiScope("read_write", "read")).toBe(true);
+    expect(hasApiScope("read", "read")).toBe(true);
+    expect(hasApiScope("read", "read_write")).toBe(false);
+  });
+});
+
+describe("getRateLimitWindow", () => {
+  it("groups requests into whole minutes", () => {
+    const { windowStart, resetAt } = getRateLimitWindow(
+      new Date("2025-06-01T12:00:42.500Z"),
+    );
+
+    expect(windowStart.toISOString()).toBe("2025-06-01T12:00:00.000Z");
+    expect(resetAt.toISOString()).toBe("2025-06-01T12:01:00.000Z");
+  });
+});
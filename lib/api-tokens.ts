@@ -0,0 +1,78 @@
+import { createHash, randomBytes } from "crypto";
+import { addDays } from "date-fns";
+
+import type { ApiTokenScope } from "@/types/global.types";
+
+export const API_TOKEN_PREFIX = "ffpat_";
+// Characters shown in the UI to tell tokens apart
+export const API_TOKEN_DISPLAY_LENGTH = API_TOKEN_PREFIX.length + 6;
+export const MAX_API_TOKEN_NAME_LENGTH = 64;
+
+export const API_TOKEN_EXPIRATIONS = ["30d", "90d", "365d", "never"] as const;
+export type ApiTokenExpiration = (typeof API_TOKEN_EXPIRATIONS)[number];
+
+// Fixed window per token
+export const API_RATE_LIMIT_REQUESTS = 60;
+export const API_RATE_LIMIT_WINDOW_SECONDS = 60;
+
+const EXPIRATION_DAYS: Record<ApiTokenExpiration, number | null> = {
+  "30d": 30,
+  "90d": 90,
+  "365d": 365,
+  never: null,
+};
+
+export function hashApiToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * New token with the hash and display prefix to store. The token itself
+ * is only ever shown once.
+ */
+export function generateApiToken() {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return {
+    token,
+    tokenHash: hashApiToken(token),
+    tokenPrefix: token.slice(0, API_TOKEN_DISPLAY_LENGTH),
+  };
+}
+
+export function computeApiTokenExpiration(
+  expiration: ApiTokenExpiration,
+  now = new Date(),
+) {
+  const days = EXPIRATION_DAYS[expiration];
+  return days === null ? null : addDays(now, days).toISOString();
+}
+
+export function parseBearerToken(header: string | null) {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1].startsWith(API_TOKEN_PREFIX) ? match[1] : null;
+}
+
+export function isApiTokenActive(
+  token: { revoked_at: string | null; expires_at: string | null },
+  now = new Date(),
+) {
+  if (token.revoked_at) return false;
+  return !token.expires_at || new Date(token.expires_at) > now;
+}
+
+/** Read-write tokens can do everything read tokens can. */
+export function hasApiScope(scope: ApiTokenScope, required: ApiTokenScope) {
+  return required === "read" || scope === "read_write";
+}
+
+/**
+ * Rate limit window the request falls in and when the next one starts.
+ */
+export function getRateLimitWindow(now = new Date()) {
+  const windowMs = API_RATE_LIMIT_WINDOW_SECONDS * 1000;
+  const start = Math.floor(now.getTime() / windowMs) * windowMs;
+  return {
+    windowStart: new Date(start),
+    resetAt: new Date(start + windowMs),
+  };
+}
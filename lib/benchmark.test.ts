@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  calculateBeta,
+  compareToBenchmarkSeries,
+  rebaseSeries,
+} from "./benchmark";
+
+describe("rebaseSeries", () => {
+  it("scales from the first known point", () => {
+    expect(rebaseSeries([null, 50, 55], 1000)).toEqual([null, 1000, 1100]);
+  });
+});
+
+describe("calculateBeta", () => {
+  it("measures how strongly the portfolio follows the benchmark", () => {
+    const benchmark = [0.01, -0.02, 0.03, 0.005];
+    const leveraged = benchmark.map((r) => r * 2);
+
+    expect(calculateBeta(leveraged, benchmark)).toBeCloseTo(2, 10);
+    expect(calculateBeta([0.01, null], [0.01, 0.02])).toBeNull();
+  });
+});
+
+describe("compareToBenchmarkSeries", () => {
+  it("reports the return gap against the benchmark", () => {
+    const stats = compareToBenchmarkSeries(
+      [1, 1.05, 1.1, 1.2],
+      [100, 102, 104, 110],
+    );
+
+    expect(stats.benchmarkReturn).toBeCloseTo(0.1, 10);
+    expect(stats.trackingDifference).toBeCloseTo(0.1, 10);
+    expect(stats.beta).not.toBeNull();
+  });
+});
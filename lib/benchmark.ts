@@ -0,0 +1,101 @@
+/** How a portfolio series compares to one benchmark over the same dates. */
+export type BenchmarkStats = {
+  /** Cumulative benchmark return as a fraction (null without prices). */
+  benchmarkReturn: number | null;
+  /** Portfolio return minus benchmark return, as a fraction. */
+  trackingDifference: number | null;
+  /** Slope of portfolio period returns on benchmark period returns. */
+  beta: number | null;
+};
+
+// Benchmarks compared at once, keeps charts readable and quote lookups small
+export const MAX_BENCHMARKS = 3;
+
+// Fewer periods than this don't say anything about beta
+const MIN_BETA_PERIODS = 3;
+
+/**
+ * Scale a series so its first known point equals `base`.
+ * Missing points (null) stay missing.
+ */
+export function rebaseSeries(series: (number | null)[], base: number) {
+  const first = series.find((value) => value !== null && value > 0);
+  if (!first) return series.map(() => null);
+  return series.map((value) =>
+    value === null ? null : (value / first) * base,
+  );
+}
+
+/**
+ * Return of each period between consecutive points (null when either end is
+ * missing), one shorter than the series.
+ */
+export function calculatePeriodReturns(series: (number | null)[]) {
+  return series.slice(1).map((value, i) => {
+    const previous = series[i];
+    if (value === null || previous === null || previous <= 0) return null;
+    return value / previous - 1;
+  });
+}
+
+/**
+ * Beta of the portfolio against a benchmark: covariance of period returns
+ * over the benchmark's variance. Only periods both series priced count.
+ */
+export function calculateBeta(
+  portfolioReturns: (number | null)[],
+  benchmarkReturns: (number | null)[],
+): number | null {
+  const pairs = portfolioReturns.flatMap((portfolio, i) => {
+    const benchmark = benchmarkReturns[i];
+    return portfolio === null || benchmark === null || benchmark === undefined
+      ? []
+      : [[portfolio, benchmark] as const];
+  });
+  if (pairs.length < MIN_BETA_PERIODS) return null;
+
+  const mean = (values: number[]) =>
+    values.reduce((sum, value) => sum + value, 0) / values.length;
+  const portfolioMean = mean(pairs.map(([p]) => p));
+  const benchmarkMean = mean(pairs.map(([, b]) => b));
+
+  let covariance = 0;
+  let variance = 0;
+  pairs.forEach(([p, b]) => {
+    covariance += (p - portfolioMean) * (b - benchmarkMean);
+    variance += (b - benchmarkMean) ** 2;
+  });
+
+  return variance > 0 ? covariance / variance : null;
+}
+
+/**
+ * Compare a cash-flow adjusted portfolio series (e.g. time-weighted growth)
+ * with benchmark prices on the same dates.
+ */
+export function compareToBenchmarkSeries(
+  portfolio: (number | null)[],
+  benchmark: (number | null)[],
+): BenchmarkStats {
+  const totalReturn = (series: (number | null)[]) => {
+    const known = series.filter(
+      (value): value is number => value !== null && value > 0,
+    );
+    return known.length >= 2 ? known[known.length - 1] / known[0] - 1 : null;
+  };
+
+  const portfolioReturn = totalReturn(portfolio);
+  const benchmarkReturn = totalReturn(benchmark);
+
+  return {
+    benchmarkReturn,
+    trackingDifference:
+      portfolioReturn !== null && benchmarkReturn !== null
+        ? portfolioReturn - benchmarkReturn
+        : null,
+    beta: calculateBeta(
+      calculatePeriodReturns(portfolio),
+      calculatePeriodReturns(benchmark),
+    ),
+  };
+}
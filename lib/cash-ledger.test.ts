@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyCashBalanceChange,
+  getCashBalanceChange,
+  getSettlementQuantity,
+} from "./cash-ledger";
+
+describe("getCashBalanceChange", () => {
+  it("should add inflows and subtract outflows", () => {
+    expect(getCashBalanceChange({ type: "deposit", quantity: 100 })).toBe(100);
+    expect(getCashBalanceChange({ type: "interest", quantity: 5 })).toBe(5);
+    expect(getCashBalanceChange({ type: "withdrawal", quantity: 40 })).toBe(
+      -40,
+    );
+    expect(getCashBalanceChange({ type: "fee", quantity: 2 })).toBe(-2);
+  });
+
+  it("should ignore non-ledger records", () => {
+    expect(getCashBalanceChange({ type: "buy", quantity: 10 })).toBeNull();
+  });
+});
+
+describe("getSettlementQuantity", () => {
+  it("should take cash for buys and return it for sells", () => {
+    expect(
+      getSettlementQuantity({ type: "buy", quantity: 10, unit_value: 25 }),
+    ).toBe(-250);
+    expect(
+      getSettlementQuantity({ type: "sell", quantity: 4, unit_value: 25 }),
+    ).toBe(100);
+  });
+});
+
+describe("applyCashBalanceChange", () => {
+  it("should add changes to ledger balances held at a unit value of 1", () => {
+    expect(applyCashBalanceChange(5000, 1, 100)).toBe(5100);
+  });
+
+  it("should convert legacy balances held as quantity 1 × amount", () => {
+    expect(applyCashBalanceChange(1, 5000, 100)).toBe(5100);
+    expect(applyCashBalanceChange(1, 5000, -500)).toBe(4500);
+  });
+});
@@ -0,0 +1,68 @@
+import type { Position, PortfolioRecord } from "@/types/global.types";
+
+// Position category holding cash balances
+export const CASH_CATEGORY_ID = "cash";
+
+/**
+ * Whether a position is a cash ledger (cash category, no market data source).
+ */
+export function isCashPosition(
+  position: Pick<Position, "category_id" | "symbol_id" | "domain_id">,
+) {
+  return (
+    position.category_id === CASH_CATEGORY_ID &&
+    !position.symbol_id &&
+    !position.domain_id
+  );
+}
+
+/**
+ * Signed change in a cash balance caused by a ledger record.
+ * Settlement quantities are already signed (negative for buys).
+ *
+ * @returns The balance change, or null for non-ledger records (buy/sell/update)
+ */
+export function getCashBalanceChange(
+  record: Pick<PortfolioRecord, "type" | "quantity">,
+): number | null {
+  const amount = Number(record.quantity);
+
+  switch (record.type) {
+    case "deposit":
+    case "interest":
+    case "dividend":
+    case "settlement":
+      return amount;
+    case "withdrawal":
+    case "fee":
+      return -amount;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Apply a ledger change to a cash balance held as quantity × unit value.
+ * Ledger balances are kept at a unit value of 1, but cash positions created
+ * before the ledger hold their balance as quantity 1 with the amount in the
+ * unit value; those are converted to quantity = balance first.
+ *
+ * @returns The new quantity, at a unit value of 1
+ */
+export function applyCashBalanceChange(
+  quantity: number,
+  unitValue: number,
+  change: number,
+) {
+  return quantity * unitValue + change;
+}
+
+/**
+ * Signed settlement amount for a trade: buys take cash out, sells bring it in.
+ */
+export function getSettlementQuantity(
+  trade: Pick<PortfolioRecord, "type" | "quantity" | "unit_value">,
+) {
+  const gross = Number(trade.quantity) * Number(trade.unit_value);
+  return trade.type === "sell" ? gross : -gross;
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  getBalancesOnDates,
+  isValidWalletAddress,
+  normalizeWalletAddress,
+} from "./crypto-wallets";
+
+describe("getBalancesOnDates", () => {
+  it("accumulates balance changes up to the end of each date", () => {
+    const balances = getBalancesOnDates(
+      [
+        { date: "2024-03-01", amount: -0.4 },
+        { date: "2024-01-10", amount: 1 },
+        { date: "2024-01-10", amount: 0.5 },
+      ],
+      ["2024-02-01", "2024-01-01", "2024-01-10", "2024-03-01"],
+    );
+
+    expect(balances.get("2024-01-01")).toBe(0);
+    expect(balances.get("2024-01-10")).toBe(1.5);
+    expect(balances.get("2024-02-01")).toBe(1.5);
+    expect(balances.get("2024-03-01")).toBeCloseTo(1.1);
+  });
+});
+
+describe("wallet addresses", () => {
+  it("validates addresses per chain", () => {
+    expect(
+      isValidWalletAddress(
+        "bitcoin",
+        "bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq",
+      ),
+    ).toBe(true);
+    expect(
+      isValidWalletAddress(
+        "ethereum",
+        "0x71C7656EC7ab88b098defB751B7401B5f6d8976F",
+      ),
+    ).toBe(true);
+    expect(
+      isValidWalletAddress(
+        "bitcoin",
+        "0x71C7656EC7ab88b098defB751B7401B5f6d8976F",
+      ),
+    ).toBe(false);
+  });
+
+  it("lowercases EVM addresses only", () => {
+    expect(normalizeWalletAddress("ethereum", " 0xABC ")).toBe("0xabc");
+    expect(normalizeWalletAddress("bitcoin", " 1BvBM ")).toBe("1BvBM");
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Chains whose wallets can be tracked by address. Wallets are valued in the
+ * chain's native asset, priced through its market symbol.
+ */
+export const WALLET_CHAINS = {
+  bitcoin: {
+    name: "Bitcoin",
+    nativeSymbol: "BTC-USD",
+    addressPattern: /^(bc1[a-z0-9]{25,87}|[13][a-km-zA-HJ-NP-Z1-9]{25,34})$/,
+  },
+  ethereum: {
+    name: "Ethereum",
+    nativeSymbol: "ETH-USD",
+    addressPattern: /^0x[a-f0-9]{40}$/,
+  },
+} as const;
+
+export type WalletChain = keyof typeof WALLET_CHAINS;
+
+export const WALLET_CHAIN_IDS = Object.keys(WALLET_CHAINS) as WalletChain[];
+
+export function isWalletChain(value: unknown): value is WalletChain {
+  return typeof value === "string" && value in WALLET_CHAINS;
+}
+
+/**
+ * Normalize an address so the same wallet always maps to the same key
+ * (EVM addresses are case-insensitive).
+ */
+export function normalizeWalletAddress(chain: WalletChain, address: string) {
+  const trimmed = address.trim();
+  return chain === "ethereum" ? trimmed.toLowerCase() : trimmed;
+}
+
+export function isValidWalletAddress(chain: WalletChain, address: string) {
+  return WALLET_CHAINS[chain].addressPattern.test(
+    normalizeWalletAddress(chain, address),
+  );
+}
+
+/**
+ * Stable identifier of a wallet across the market data hub and caches.
+ */
+export function getWalletKey(chain: string, address: string) {
+  return `${chain}:${address}`;
+}
+
+/**
+ * Lookup key of a wallet's value in a currency on a date (yyyy-MM-dd).
+ */
+export function getWalletValuationKey(
+  chain: string,
+  address: string,
+  currency: string,
+  dateKey: string,
+) {
+  return `${getWalletKey(chain, address)}:${currency}|${dateKey}`;
+}
+
+/**
+ * Balance at the end of each requested date, given dated balance changes.
+ *
+ * @param changes - Signed balance changes (yyyy-MM-dd dates, any order)
+ * @param dateKeys - Dates to report (yyyy-MM-dd)
+ * @returns Map of date key to balance
+ */
+export function getBalancesOnDates(
+  changes: Array<{ date: string; amount: number }>,
+  dateKeys: string[],
+) {
+  const sortedChanges = [...changes].sort((a, b) =>
+    a.date.localeCompare(b.date),
+  );
+  const balances = new Map<string, number>();
+
+  let balance = 0;
+  let changeIndex = 0;
+
+  for (const dateKey of [...dateKeys].sort()) {
+    while (
+      changeIndex < sortedChanges.length &&
+      sortedChanges[changeIndex].date <= dateKey
+    ) {
+      balance += sortedChanges[changeIndex].amount;
+      changeIndex++;
+    }
+    balances.set(dateKey, balance);
+  }
+
+  return balances;
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  convertCurrency,
+  ExchangeRateMap,
+  mergeRateIssues,
+  toUsdRates,
+  type ConversionIssue,
+} from "./currency-conversion";
+
+describe("toUsdRates", () => {
+  it("triangulates rates quoted against another base through USD", () => {
+    const rates = toUsdRates("EUR", { USD: 1.25, GBP: 0.85 }, [
+      "EUR",
+      "GBP",
+      "JPY",
+    ]);
+
+    expect(rates.EUR).toBeCloseTo(0.8, 10);
+    expect(rates.GBP).toBeCloseTo(0.68, 10);
+    expect(rates).not.toHaveProperty("JPY");
+    expect(toUsdRates("EUR", { GBP: 0.85 }, ["GBP"])).toEqual({});
+  });
+});
+
+describe("convertCurrency", () => {
+  const rates = new ExchangeRateMap()
+    .setRate("USD", "2025-06-09", 1, "2025-06-09")
+    .setRate("EUR", "2025-06-09", 0.8, "2025-06-06")
+    .setRate("GBP", "2025-06-09", 0.7, "2025-05-30");
+
+  it("flags stale and missing rates", () => {
+    const issues: ConversionIssue[] = [];
+
+    // Carried over a weekend: not stale
+    expect(
+      convertCurrency(100, "EUR", "USD", rates, "2025-06-09", issues),
+    ).toBe(125);
+    expect(issues).toEqual([]);
+
+    convertCurrency(100, "GBP", "USD", rates, "2025-06-09", issues);
+    expect(
+      convertCurrency(100, "JPY", "USD", rates, "2025-06-09", issues),
+    ).toBe(100);
+
+    expect(issues).toEqual([
+      { currency: "GBP", dateKey: "2025-06-09", rateDate: "2025-05-30" },
+      { currency: "JPY", dateKey: "2025-06-09", rateDate: null },
+    ]);
+  });
+
+  it("records one issue per currency on the rate map", () => {
+    const map = new ExchangeRateMap()
+      .setRate("USD", "2025-06-09", 1, "2025-06-09")
+      .setRate("GBP", "2025-06-09", 0.7, "2025-05-30")
+      .setRate("USD", "2025-06-10", 1, "2025-06-10")
+      .setRate("GBP", "2025-06-10", 0.7, "2025-05-30");
+
+    convertCurrency(100, "GBP", "USD", map, "2025-06-09");
+    convertCurrency(100, "GBP", "USD", map, "2025-06-10");
+    convertCurrency(100, "JPY", "USD", map, "2025-06-09");
+
+    expect(map.rateIssues).toEqual([
+      { currency: "GBP", dateKey: "2025-06-10", rateDate: "2025-05-30" },
+      { currency: "JPY", dateKey: "2025-06-09", rateDate: null },
+    ]);
+    expect(
+      mergeRateIssues(map.rateIssues, [
+        { currency: "GBP", dateKey: "2025-06-01", rateDate: null },
+      ]),
+    ).toEqual([
+      { currency: "GBP", dateKey: "2025-06-01", rateDate: null },
+      { currency: "JPY", dateKey: "2025-06-09", rateDate: null },
+    ]);
+  });
+});
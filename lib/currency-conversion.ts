@@ -1,4 +1,102 @@
-import { format } from "date-fns";
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+
+// Rates published more than this many days before the day they're used for
+// are stale. Weekends and most holidays stay within it.
+export const STALE_RATE_AFTER_DAYS = 4;
+
+/**
+ * A conversion that used a stale rate (`rateDate` is when it was published)
+ * or had no rate at all (`rateDate` null, the amount was left unconverted).
+ */
+export type ConversionIssue = {
+  currency: string;
+  dateKey: string;
+  rateDate: string | null;
+};
+
+// One issue per currency: a missing rate outweighs a stale one, otherwise the
+// latest conversion is kept
+function addRateIssue(
+  issues: Map<string, ConversionIssue>,
+  issue: ConversionIssue,
+) {
+  const current = issues.get(issue.currency);
+  if (
+    !current ||
+    (current.rateDate !== null &&
+      (issue.rateDate === null || issue.dateKey > current.dateKey))
+  ) {
+    issues.set(issue.currency, issue);
+  }
+}
+
+/**
+ * Exchange rates keyed "CURRENCY|DATE" as units per USD. Rates carried
+ * forward from an earlier day (weekends, holidays, provider outages) keep
+ * the day they were published, so conversions can tell when they're stale.
+ */
+export class ExchangeRateMap extends Map<string, number> {
+  /** Publication day of rates that weren't published on their key's day */
+  readonly rateDates = new Map<string, string>();
+  private readonly issuesByCurrency = new Map<string, ConversionIssue>();
+
+  setRate(currency: string, dateKey: string, rate: number, rateDate: string) {
+    const key = `${currency}|${dateKey}`;
+    this.set(key, rate);
+    if (rateDate !== dateKey) this.rateDates.set(key, rateDate);
+    return this;
+  }
+
+  recordIssue(issue: ConversionIssue) {
+    addRateIssue(this.issuesByCurrency, issue);
+  }
+
+  /** Stale or missing rates of the conversions made with this map */
+  get rateIssues() {
+    return Array.from(this.issuesByCurrency.values());
+  }
+}
+
+/**
+ * Combine the rate issues of several figures, one per currency.
+ */
+export function mergeRateIssues(...lists: ConversionIssue[][]) {
+  const issues = new Map<string, ConversionIssue>();
+  lists.flat().forEach((issue) => addRateIssue(issues, issue));
+  return Array.from(issues.values());
+}
+
+export function isStaleRate(rateDate: string, dateKey: string) {
+  return (
+    differenceInCalendarDays(parseISO(dateKey), parseISO(rateDate)) >
+    STALE_RATE_AFTER_DAYS
+  );
+}
+
+/**
+ * Triangulate rates quoted against any base to units per USD. The base
+ * counts as 1; nothing converts when the quote has no USD rate.
+ *
+ * @param base - Currency the rates are quoted against
+ * @param rates - Units of each currency per unit of base
+ */
+export function toUsdRates(
+  base: string,
+  rates: Record<string, number>,
+  currencies: string[],
+) {
+  const perBase: Record<string, number> = { ...rates, [base]: 1 };
+  const usdPerBase = perBase.USD;
+
+  const usdRates: Record<string, number> = {};
+  if (!usdPerBase) return usdRates;
+
+  currencies.forEach((currency) => {
+    if (perBase[currency]) usdRates[currency] = perBase[currency] / usdPerBase;
+  });
+
+  return usdRates;
+}
 
 /**
  * Convert amount between currencies using USD as base currency
@@ -7,6 +105,8 @@ import { format } from "date-fns";
  * @param targetCurrency - Target currency code
  * @param exchangeRatesMap - Map of exchange rates ("CURRENCY|DATE" -> rate)
  * @param date - Date for exchange rate lookup
+ * @param issues - Collects rates that were missing or stale (an
+ * `ExchangeRateMap` also records them itself)
  * @returns Converted amount or original amount if conversion fails
  */
 export function convertCurrency(
@@ -15,6 +115,7 @@ export function convertCurrency(
   targetCurrency: string,
   exchangeRatesMap: Map<string, number>,
   date: Date | string,
+  issues?: ConversionIssue[],
 ): number {
   if (!Number.isFinite(amount) || amount === 0) return amount;
 
@@ -28,13 +129,35 @@ export function convertCurrency(
   const toUsdRate = exchangeRatesMap.get(toUsdKey);
   const fromUsdRate = exchangeRatesMap.get(fromUsdKey);
 
+  // Rate maps keep their own issues, so figures can report what they used
+  const rateMap =
+    exchangeRatesMap instanceof ExchangeRateMap ? exchangeRatesMap : null;
+  const reportIssue = (issue: ConversionIssue) => {
+    issues?.push(issue);
+    rateMap?.recordIssue(issue);
+  };
+
   if (!toUsdRate || !fromUsdRate) {
     console.warn(
       `Missing exchange rates for ${sourceCurrency} or ${targetCurrency} on ${dateKey}`,
     );
+    reportIssue({
+      currency: toUsdRate ? targetCurrency : sourceCurrency,
+      dateKey,
+      rateDate: null,
+    });
     return amount; // Fallback to original amount
   }
 
+  if (rateMap) {
+    [sourceCurrency, targetCurrency].forEach((currency) => {
+      const rateDate = rateMap.rateDates.get(`${currency}|${dateKey}`);
+      if (rateDate && isStaleRate(rateDate, dateKey)) {
+        reportIssue({ currency, dateKey, rateDate });
+      }
+    });
+  }
+
   // Convert: source -> USD -> target
   return (amount / toUsdRate) * fromUsdRate;
 }
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+
+import { getEcbRates, parseEcbRates } from "./ecb-rates";
+
+const ecbFile = `<?xml version="1.0" encoding="UTF-8"?>
+<gesmes:Envelope xmlns:gesmes="http://www.gesmes.org/xml/2002-08-01" xmlns="http://www.ecb.int/vocabulary/2002-08-01/eurofxref">
+  <gesmes:subject>Reference rates</gesmes:subject>
+  <Cube>
+    <Cube time="2025-06-02">
+      <Cube currency="USD" rate="1.1444"/>
+      <Cube currency="GBP" rate="0.84390"/>
+    </Cube>
+    <Cube time="2025-05-30">
+      <Cube currency="USD" rate="1.1347"/>
+      <Cube currency="GBP" rate="0.84255"/>
+    </Cube>
+  </Cube>
+</gesmes:Envelope>`;
+
+describe("getEcbRates", () => {
+  const ecbRates = parseEcbRates(ecbFile);
+
+  it("reads the rates published on a date", () => {
+    expect(getEcbRates(ecbRates, "2025-06-02")).toEqual({
+      rateDate: "2025-06-02",
+      rates: { USD: 1.1444, GBP: 0.8439 },
+    });
+  });
+
+  it("carries the last published rates over weekends", () => {
+    expect(getEcbRates(ecbRates, "2025-06-01")?.rateDate).toBe("2025-05-30");
+    expect(getEcbRates(ecbRates, "2025-05-01")).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+// Exchange rates from ECB reference rate files (eurofxref-daily.xml,
+// eurofxref-hist.xml). The ECB quotes units of each currency per EUR.
+
+/** Units of each currency per EUR, by date (yyyy-MM-dd) */
+export type EcbRates = Map<string, Record<string, number>>;
+
+const CUBE_TAG = /<Cube\b([^>]*)>/g;
+const ATTRIBUTE = /(\w+)\s*=\s*["']([^"']*)["']/g;
+
+/**
+ * Parse an ECB reference rate file. Several files can be merged by passing
+ * the previous result, later files winning on the same date.
+ */
+export function parseEcbRates(xml: string, into: EcbRates = new Map()) {
+  let rates: Record<string, number> | null = null;
+
+  for (const [, attributeText] of xml.matchAll(CUBE_TAG)) {
+    const attributes = Object.fromEntries(
+      Array.from(attributeText.matchAll(ATTRIBUTE), ([, name, value]) => [
+        name,
+        value,
+      ]),
+    );
+
+    if (attributes.time && /^\d{4}-\d{2}-\d{2}$/.test(attributes.time)) {
+      rates = into.get(attributes.time) ?? {};
+      into.set(attributes.time, rates);
+      continue;
+    }
+
+    const rate = Number(attributes.rate);
+    if (rates && attributes.currency && Number.isFinite(rate) && rate > 0) {
+      rates[attributes.currency.toUpperCase()] = rate;
+    }
+  }
+
+  return into;
+}
+
+/**
+ * Rates published on a date, or the last ones published before it (weekends
+ * and holidays). Null when the files have nothing on or before the date.
+ */
+export function getEcbRates(ecbRates: EcbRates, dateKey: string) {
+  const rateDate = Array.from(ecbRates.keys())
+    .filter((date) => date <= dateKey)
+    .sort()
+    .at(-1);
+  if (!rateDate) return null;
+
+  return { rateDate, rates: ecbRates.get(rateDate) ?? {} };
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+
+import { projectGoal } from "./goal-projection";
+
+const asOfDate = new Date(2025, 0, 15);
+
+describe("projectGoal", () => {
+  it("is on track when contributions reach the target by the deadline", () => {
+    const projection = projectGoal({
+      currentValue: 4000,
+      targetAmount: 10000,
+      deadline: "2026-01-15",
+      monthlyContribution: 500,
+      annualReturn: 0,
+      asOfDate,
+    });
+
+    expect(projection.status).toBe("on_track");
+    expect(projection.monthsLeft).toBe(12);
+    expect(projection.projectedValue).toBe(10000);
+    expect(projection.requiredMonthlyContribution).toBe(500);
+    expect(projection.projectedDate).toBe("2026-01-15");
+    expect(projection.progress).toBe(0.4);
+  });
+
+  it("reports the contribution needed when off track", () => {
+    const projection = projectGoal({
+      currentValue: 10000,
+      targetAmount: 50000,
+      deadline: "2027-01-01",
+      monthlyContribution: 100,
+      annualReturn: 0.05,
+      asOfDate,
+    });
+
+    expect(projection.status).toBe("off_track");
+    expect(projection.projectedValue).toBeLessThan(50000);
+    // Two years of 5% growth on 10k leaves ~39k to save over 24 months
+    expect(projection.requiredMonthlyContribution).toBeCloseTo(1549.16, 1);
+  });
+
+  it("flags missed deadlines", () => {
+    const projection = projectGoal({
+      currentValue: 900,
+      targetAmount: 1000,
+      deadline: "2024-12-31",
+      monthlyContribution: 0,
+      annualReturn: 0,
+      asOfDate,
+    });
+
+    expect(projection.status).toBe("overdue");
+    expect(projection.projectedDate).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  addMonths,
+  differenceInCalendarMonths,
+  format,
+  parseISO,
+} from "date-fns";
+
+export type GoalStatus = "achieved" | "on_track" | "off_track" | "overdue";
+
+export type GoalProjectionInput = {
+  currentValue: number;
+  targetAmount: number;
+  /** Deadline as YYYY-MM-DD. */
+  deadline: string;
+  monthlyContribution: number;
+  /** Expected annual return as a fraction (0.05 = 5%). */
+  annualReturn: number;
+  asOfDate?: Date;
+};
+
+export type GoalProjection = {
+  /** Share of the target reached, between 0 and 1. */
+  progress: number;
+  monthsLeft: number;
+  /** Value expected on the deadline at the current pace. */
+  projectedValue: number;
+  /** Monthly contribution that reaches the target on the deadline. */
+  requiredMonthlyContribution: number;
+  /** Month the target is expected to be reached (null = not within 100 years). */
+  projectedDate: string | null;
+  status: GoalStatus;
+};
+
+// Stop looking for the date a goal is reached after 100 years
+const MAX_PROJECTION_MONTHS = 1200;
+
+/**
+ * Future value after a number of months with compounding monthly returns and
+ * a contribution at the end of every month.
+ */
+export function projectValue(
+  currentValue: number,
+  monthlyContribution: number,
+  monthlyRate: number,
+  months: number,
+) {
+  if (monthlyRate === 0) return currentValue + monthlyContribution * months;
+
+  const growth = Math.pow(1 + monthlyRate, months);
+  return (
+    currentValue * growth + (monthlyContribution * (growth - 1)) / monthlyRate
+  );
+}
+
+/**
+ * Project a goal to its deadline and tell whether it is on track at the
+ * current contribution rate and expected return.
+ */
+export function projectGoal({
+  currentValue,
+  targetAmount,
+  deadline,
+  monthlyContribution,
+  annualReturn,
+  asOfDate = new Date(),
+}: GoalProjectionInput): GoalProjection {
+  const monthlyRate = Math.pow(1 + annualReturn, 1 / 12) - 1;
+  const monthsLeft = Math.max(
+    0,
+    differenceInCalendarMonths(parseISO(deadline), asOfDate),
+  );
+
+  const projectedValue = projectValue(
+    currentValue,
+    monthlyContribution,
+    monthlyRate,
+    monthsLeft,
+  );
+
+  // Solve the future value for the contribution
+  const grownValue = projectValue(currentValue, 0, monthlyRate, monthsLeft);
+  const annuityFactor = projectValue(0, 1, monthlyRate, monthsLeft);
+  const requiredMonthlyContribution =
+    annuityFactor > 0
+      ? Math.max(0, (targetAmount - grownValue) / annuityFactor)
+      : Math.max(0, targetAmount - currentValue);
+
+  // First month the projected value reaches the target
+  let projectedDate: string | null = null;
+  for (let month = 0; month <= MAX_PROJECTION_MONTHS; month++) {
+    const value = projectValue(
+      currentValue,
+      monthlyContribution,
+      monthlyRate,
+      month,
+    );
+    if (value >= targetAmount) {
+      projectedDate = format(addMonths(asOfDate, month), "yyyy-MM-dd");
+      break;
+    }
+  }
+
+  let status: GoalStatus;
+  if (currentValue >= targetAmount) status = "achieved";
+  else if (format(asOfDate, "yyyy-MM-dd") > deadline) status = "overdue";
+  else if (projectedValue >= targetAmount) status = "on_track";
+  else status = "off_track";
+
+  return {
+    progress:
+      targetAmount > 0
+        ? Math.min(1, Math.max(0, currentValue / targetAmount))
+        : 0,
+    monthsLeft,
+    projectedValue,
+    requiredMonthlyContribution,
+    projectedDate,
+    status,
+  };
+}
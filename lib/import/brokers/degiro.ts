@@ -0,0 +1,43 @@
+import { parseDateStrict } from "../parser/date-parser";
+import { parseNumberStrict } from "../parser/number-parser";
+import { findHeaderTable } from "./utils";
+
+import type { BrokerFormat } from "./types";
+
+/**
+ * DEGIRO "Transactions" export.
+ * Quantity is negative for sells; the currency sits in the unnamed column
+ * right after "Price". Dates are DD-MM-YYYY.
+ */
+export const degiro: BrokerFormat = {
+  id: "degiro",
+  name: "DEGIRO",
+  findTable: (rows) =>
+    findHeaderTable(rows, [
+      "date",
+      "product",
+      "isin",
+      "reference exchange",
+      "quantity",
+      "price",
+    ]),
+  parseRow: (cell) => {
+    const quantity = parseNumberStrict(cell("quantity"));
+    if (!quantity) return null;
+
+    const date = parseDateStrict(cell("date"), "dmy");
+    if (!date) throw new Error(`Invalid date "${cell("date")}"`);
+
+    return {
+      date,
+      type: quantity > 0 ? "buy" : "sell",
+      name: cell("product"),
+      category: null,
+      currency: cell("price", 1).toUpperCase(),
+      quantity: Math.abs(quantity),
+      unit_value: parseNumberStrict(cell("price")),
+      symbolLookup: cell("isin") || null,
+      description: cell("order id") ? `DEGIRO order ${cell("order id")}` : null,
+    };
+  },
+};
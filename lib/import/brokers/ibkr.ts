@@ -0,0 +1,72 @@
+import { parseDateStrict } from "../parser/date-parser";
+import { findHeaderTable, normalizeBrokerHeader, parseUSNumber } from "./utils";
+
+import type { BrokerFormat } from "./types";
+
+// Asset categories we import; options, futures and forex need extra modelling
+const IMPORTED_CATEGORIES = new Set(["stocks", "stk", "bonds", "bond"]);
+
+/**
+ * Interactive Brokers exports, either:
+ * - the Activity Statement CSV, whose "Trades" section rows are prefixed
+ *   with "Trades,Header" / "Trades,Data", or
+ * - a Flex Query trades CSV (TradeDate, Buy/Sell, TradePrice...).
+ * Quantity is negative for sells in both.
+ */
+export const ibkr: BrokerFormat = {
+  id: "ibkr",
+  name: "Interactive Brokers",
+  findTable: (rows) => {
+    // Activity Statement: pick the Trades section
+    const headerRow = rows.find(
+      (row) => row[0] === "Trades" && row[1] === "Header",
+    );
+    if (headerRow) {
+      return {
+        headers: headerRow.slice(2).map(normalizeBrokerHeader),
+        rows: rows
+          .filter(
+            (row) =>
+              row[0] === "Trades" && row[1] === "Data" && row[2] === "Order",
+          )
+          .map((row) => row.slice(2)),
+      };
+    }
+
+    // Flex Query
+    return findHeaderTable(rows, [
+      "symbol",
+      "currency",
+      "tradedate",
+      "quantity",
+      "tradeprice",
+    ]);
+  },
+  parseRow: (cell) => {
+    const category = cell("asset category") || cell("assetclass");
+    if (category && !IMPORTED_CATEGORIES.has(category.toLowerCase())) {
+      return null;
+    }
+
+    const quantity = parseUSNumber(cell("quantity"));
+    if (!quantity) return null;
+
+    const rawDate = cell("date/time") || cell("tradedate");
+    const date = parseDateStrict(rawDate);
+    if (!date) throw new Error(`Invalid date "${rawDate}"`);
+
+    const symbol = cell("symbol");
+
+    return {
+      date,
+      type: quantity > 0 ? "buy" : "sell",
+      name: cell("description") || symbol,
+      category: category || null,
+      currency: cell("currency").toUpperCase(),
+      quantity: Math.abs(quantity),
+      unit_value: parseUSNumber(cell("t. price") || cell("tradeprice")),
+      symbolLookup: symbol || cell("isin") || null,
+      description: null,
+    };
+  },
+};
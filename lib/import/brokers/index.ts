@@ -0,0 +1,28 @@
+import { degiro } from "./degiro";
+import { ibkr } from "./ibkr";
+import { trading212 } from "./trading212";
+import { schwab } from "./schwab";
+
+import type { BrokerFormat } from "./types";
+
+// Detection order matters: more specific layouts first
+export const BROKER_FORMATS: BrokerFormat[] = [
+  ibkr,
+  degiro,
+  trading212,
+  schwab,
+];
+
+/**
+ * Detect which broker produced a parsed export.
+ * @returns The matching format and its trades table, or null if unknown
+ */
+export function detectBrokerFormat(rows: string[][]) {
+  for (const format of BROKER_FORMATS) {
+    const table = format.findTable(rows);
+    if (table) return { format, table };
+  }
+  return null;
+}
+
+export type { BrokerFormat, BrokerTrade } from "./types";
@@ -0,0 +1,51 @@
+import { parseDateStrict } from "../parser/date-parser";
+import { findHeaderTable, parseUSNumber } from "./utils";
+
+import type { BrokerFormat } from "./types";
+
+// Actions that change the share count
+const BUY_ACTIONS = new Set(["buy", "reinvest shares"]);
+const SELL_ACTIONS = new Set(["sell"]);
+
+/**
+ * Charles Schwab transaction history export (USD accounts).
+ * Dates are MM/DD/YYYY, sometimes suffixed with "as of MM/DD/YYYY";
+ * prices carry a "$" sign.
+ */
+export const schwab: BrokerFormat = {
+  id: "schwab",
+  name: "Charles Schwab",
+  findTable: (rows) =>
+    findHeaderTable(rows, [
+      "date",
+      "action",
+      "symbol",
+      "description",
+      "quantity",
+      "price",
+    ]),
+  parseRow: (cell) => {
+    const action = cell("action").toLowerCase();
+    const type = BUY_ACTIONS.has(action)
+      ? "buy"
+      : SELL_ACTIONS.has(action)
+        ? "sell"
+        : null;
+    if (!type) return null;
+
+    const date = parseDateStrict(cell("date"), "mdy");
+    if (!date) throw new Error(`Invalid date "${cell("date")}"`);
+
+    return {
+      date,
+      type,
+      name: cell("description") || cell("symbol"),
+      category: null,
+      currency: "USD",
+      quantity: Math.abs(parseUSNumber(cell("quantity"))),
+      unit_value: parseUSNumber(cell("price")),
+      symbolLookup: cell("symbol") || null,
+      description: null,
+    };
+  },
+};
@@ -0,0 +1,47 @@
+import { parseDateStrict } from "../parser/date-parser";
+import { parseNumberStrict } from "../parser/number-parser";
+import { findHeaderTable } from "./utils";
+
+import type { BrokerFormat } from "./types";
+
+/**
+ * Trading 212 history export.
+ * Actions look like "Market buy" / "Limit sell"; deposits, dividends and
+ * interest share the same file and are skipped.
+ */
+export const trading212: BrokerFormat = {
+  id: "trading212",
+  name: "Trading 212",
+  findTable: (rows) =>
+    findHeaderTable(rows, [
+      "action",
+      "time",
+      "isin",
+      "no. of shares",
+      "price / share",
+    ]),
+  parseRow: (cell) => {
+    const action = cell("action").toLowerCase();
+    const type = action.endsWith(" buy")
+      ? "buy"
+      : action.endsWith(" sell")
+        ? "sell"
+        : null;
+    if (!type) return null;
+
+    const date = parseDateStrict(cell("time"));
+    if (!date) throw new Error(`Invalid date "${cell("time")}"`);
+
+    return {
+      date,
+      type,
+      name: cell("name") || cell("ticker"),
+      category: null,
+      currency: cell("currency (price / share)").toUpperCase(),
+      quantity: Math.abs(parseNumberStrict(cell("no. of shares"))),
+      unit_value: parseNumberStrict(cell("price / share")),
+      symbolLookup: cell("isin") || cell("ticker") || null,
+      description: cell("notes") || null,
+    };
+  },
+};
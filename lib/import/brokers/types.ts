@@ -0,0 +1,26 @@
+import type { CellReader } from "./utils";
+import type { BrokerId, TransactionImportRow } from "../types";
+
+/** A trade parsed from a broker row, before currency/symbol normalization. */
+export type BrokerTrade = Omit<TransactionImportRow, "category_id"> & {
+  /** Raw broker category, mapped to our categories by the importer */
+  category: string | null;
+};
+
+export interface BrokerFormat {
+  id: BrokerId;
+  name: string;
+  /**
+   * Locate the trades table in the parsed file.
+   * Returns null when the file is not this broker's export.
+   */
+  findTable: (
+    rows: string[][],
+  ) => { headers: string[]; rows: string[][] } | null;
+  /**
+   * Map a data row to a trade. Returns null for rows that are not trades
+   * (deposits, dividends, fees, FX conversions, totals...).
+   * Throws with a readable message when a trade row is malformed.
+   */
+  parseRow: (cell: CellReader) => BrokerTrade | null;
+}
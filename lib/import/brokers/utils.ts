@@ -0,0 +1,57 @@
+import { parseNumberStrict } from "../parser/number-parser";
+
+// Lowercase and collapse whitespace so header lookups are forgiving
+export function normalizeBrokerHeader(raw: string): string {
+  return raw
+    .toLowerCase()
+    .replace(/"/g, "")
+    .replace(/\u00A0/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Find the header row among the first rows of a file (some exports start
+ * with a title line) and return it with the data rows that follow.
+ */
+export function findHeaderTable(
+  rows: string[][],
+  requiredHeaders: string[],
+  searchDepth = 5,
+): { headers: string[]; rows: string[][] } | null {
+  const limit = Math.min(rows.length, searchDepth);
+
+  for (let index = 0; index < limit; index++) {
+    const headers = rows[index].map(normalizeBrokerHeader);
+    if (requiredHeaders.every((header) => headers.includes(header))) {
+      return { headers, rows: rows.slice(index + 1) };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read cells by (normalized) header name. The offset reaches unnamed
+ * neighbouring columns, e.g. DEGIRO's currency column right after "Price".
+ */
+export function createCellReader(headers: string[], row: string[]) {
+  return (header: string, offset = 0) => {
+    const index = headers.indexOf(header);
+    if (index === -1) return "";
+    return (row[index + offset] ?? "").trim();
+  };
+}
+
+export type CellReader = ReturnType<typeof createCellReader>;
+
+/**
+ * Parse US-formatted numbers ("1,000", "$1,255.00", "(12.50)").
+ * Commas are always thousands separators here, unlike parseNumberStrict.
+ */
+export function parseUSNumber(raw: string): number {
+  const input = (raw ?? "").trim();
+  const isParenthesized = /^\(.*\)$/.test(input);
+  const value = parseNumberStrict(input.replace(/[(),]/g, ""));
+  return isParenthesized ? -value : value;
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { getTransactionFingerprints } from "./fingerprint";
+
+import type { TransactionImportRow } from "./types";
+
+const trade: TransactionImportRow = {
+  date: "2024-01-03",
+  type: "buy",
+  name: "Apple",
+  category_id: "equity",
+  currency: "USD",
+  quantity: 1,
+  unit_value: 184.2,
+  symbolLookup: "AAPL",
+  description: null,
+};
+
+describe("getTransactionFingerprints", () => {
+  it("yields the same fingerprints for overlapping exports", () => {
+    const later = { ...trade, date: "2024-02-01" };
+
+    const first = getTransactionFingerprints("trading212", [trade, trade]);
+    const second = getTransactionFingerprints("trading212", [
+      trade,
+      trade,
+      later,
+    ]);
+
+    expect(second.slice(0, 2)).toEqual(first);
+    expect(new Set(second).size).toBe(3);
+  });
+
+  it("depends on the broker", () => {
+    expect(getTransactionFingerprints("degiro", [trade])).not.toEqual(
+      getTransactionFingerprints("trading212", [trade]),
+    );
+  });
+});
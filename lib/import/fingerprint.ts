@@ -0,0 +1,36 @@
+import { createHash } from "crypto";
+
+import type { BrokerId, TransactionImportRow } from "./types";
+
+/**
+ * Stable fingerprints for imported trades, used to skip trades seen in an
+ * earlier import. Identical trades within one export (same day, size and
+ * price) are told apart by their occurrence, so overlapping exports of the
+ * same account yield the same fingerprints.
+ */
+export function getTransactionFingerprints(
+  broker: BrokerId,
+  transactions: TransactionImportRow[],
+) {
+  const occurrences = new Map<string, number>();
+
+  return transactions.map((transaction) => {
+    const key = [
+      broker,
+      transaction.date,
+      transaction.type,
+      transaction.symbolLookup ?? transaction.name,
+      transaction.quantity,
+      transaction.unit_value,
+      transaction.description ?? "",
+    ].join("|");
+
+    const occurrence = occurrences.get(key) ?? 0;
+    occurrences.set(key, occurrence + 1);
+
+    return createHash("sha256")
+      .update(`${key}#${occurrence}`)
+      .digest("hex")
+      .slice(0, 32);
+  });
+}
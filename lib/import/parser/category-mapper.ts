@@ -16,6 +16,12 @@
  *   - commodities
  *   - domain
  *   - other
+ *
+ * Canonical liability category IDs:
+ *   - mortgage
+ *   - loan
+ *   - credit_card
+ *   - other_liability
  */
 
 export type CategoryId =
@@ -39,6 +45,19 @@ export const CATEGORY_IDS: CategoryId[] = [
   "other",
 ];
 
+export type LiabilityCategoryId =
+  | "mortgage"
+  | "loan"
+  | "credit_card"
+  | "other_liability";
+
+export const LIABILITY_CATEGORY_IDS: LiabilityCategoryId[] = [
+  "mortgage",
+  "loan",
+  "credit_card",
+  "other_liability",
+];
+
 /**
  * Normalize a free-form category token for robust matching
  */
@@ -205,21 +224,78 @@ const CATEGORY_ALIASES: Record<CategoryId, string[]> = {
   ],
 };
 
+const LIABILITY_CATEGORY_ALIASES: Record<LiabilityCategoryId, string[]> = {
+  mortgage: [
+    "mortgage",
+    "mortgages",
+    "home loan",
+    "housing loan",
+    "heloc",
+    "home equity loan",
+    "home equity line of credit",
+  ],
+
+  loan: [
+    "loan",
+    "loans",
+    "personal loan",
+    "student loan",
+    "student loans",
+    "car loan",
+    "auto loan",
+    "vehicle loan",
+    "business loan",
+    "installment loan",
+  ],
+
+  credit_card: [
+    "credit card",
+    "credit cards",
+    "card",
+    "cc",
+    "visa",
+    "mastercard",
+    "amex",
+    "american express",
+    "store card",
+    "charge card",
+  ],
+
+  other_liability: [
+    "other",
+    "other liability",
+    "other liabilities",
+    "debt",
+    "line of credit",
+    "overdraft",
+    "bnpl",
+    "buy now pay later",
+    "tax",
+    "taxes owed",
+    "family loan",
+  ],
+};
+
 // Build a flat lookup map once
-const FLAT_CATEGORY_MAP: Record<string, CategoryId> = {};
-Object.entries(CATEGORY_ALIASES).forEach(([id, aliases]) => {
-  aliases.forEach((alias) => {
-    const key = normalizeToken(alias);
-    if (
-      key in FLAT_CATEGORY_MAP &&
-      FLAT_CATEGORY_MAP[key] !== (id as CategoryId)
-    ) {
-      // Soft overwrite with first come, first served; no console.warn to keep it quiet in production
-      return;
-    }
-    FLAT_CATEGORY_MAP[key] = id as CategoryId;
+function buildFlatMap<T extends string>(
+  aliasesById: Record<T, string[]>,
+): Record<string, T> {
+  const flat: Record<string, T> = {};
+  (Object.entries(aliasesById) as [T, string[]][]).forEach(([id, aliases]) => {
+    aliases.forEach((alias) => {
+      const key = normalizeToken(alias);
+      if (key in flat && flat[key] !== id) {
+        // Soft overwrite with first come, first served; no console.warn to keep it quiet in production
+        return;
+      }
+      flat[key] = id;
+    });
   });
-});
+  return flat;
+}
+
+const FLAT_CATEGORY_MAP = buildFlatMap(CATEGORY_ALIASES);
+const FLAT_LIABILITY_CATEGORY_MAP = buildFlatMap(LIABILITY_CATEGORY_ALIASES);
 
 /**
  * Is the provided string already a valid canonical category id?
@@ -245,3 +321,28 @@ export function mapCategory(
   const key = normalizeToken(raw);
   return FLAT_CATEGORY_MAP[key] || "other";
 }
+
+/**
+ * Is the provided string already a valid canonical liability category id?
+ */
+export function isLiabilityCategoryId(
+  input: string,
+): input is LiabilityCategoryId {
+  return LIABILITY_CATEGORY_IDS.includes(input as LiabilityCategoryId);
+}
+
+/**
+ * Map a user-provided category to our canonical liability category id.
+ * Same rules as mapCategory, with "other_liability" as the fallback.
+ */
+export function mapLiabilityCategory(
+  userCategory: string | null | undefined,
+): LiabilityCategoryId {
+  if (!userCategory || !userCategory.trim()) return "other_liability";
+
+  const raw = userCategory.trim();
+  if (isLiabilityCategoryId(raw)) return raw;
+
+  const key = normalizeToken(raw);
+  return FLAT_LIABILITY_CATEGORY_MAP[key] || "other_liability";
+}
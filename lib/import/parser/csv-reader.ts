@@ -0,0 +1,78 @@
+/**
+ * Detect the delimiter used in the file by scoring the first line.
+ * @param content - Raw CSV/TSV text
+ * @returns the detected delimiter: "," | "\t" | ";" (defaulting to ",")
+ */
+export function detectDelimiter(content: string): string {
+  const firstLine = content.split("\n")[0];
+
+  const counts = {
+    comma: (firstLine.match(/,/g) || []).length,
+    tab: (firstLine.match(/\t/g) || []).length,
+    semicolon: (firstLine.match(/;/g) || []).length,
+  };
+
+  // Determine the highest count
+  const maxCount = Math.max(counts.comma, counts.tab, counts.semicolon);
+
+  if (maxCount === 0) return ","; // Default fallback
+
+  if (counts.tab === maxCount) return "\t";
+  if (counts.semicolon === maxCount) return ";";
+  return ",";
+}
+
+/**
+ * Parse a single CSV row, handling quoted values and embedded delimiters.
+ * @param row - A single CSV line
+ * @param delimiter - The delimiter to split by
+ * @returns Clean string values preserving quoted content
+ */
+export function parseCSVRow(row: string, delimiter: string): string[] {
+  const values: string[] = [];
+  let currentValue = "";
+  let insideQuotes = false;
+
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+
+    if (char === '"') {
+      if (insideQuotes && row[i + 1] === '"') {
+        // Handle escaped quotes ("" becomes ")
+        currentValue += '"';
+        i++; // Skip the next quote
+      } else {
+        // Toggle quote state (entering or leaving quotes)
+        insideQuotes = !insideQuotes;
+      }
+    } else if (char === delimiter && !insideQuotes) {
+      // End of value (delimiter outside quotes)
+      values.push(currentValue.trim());
+      currentValue = "";
+    } else {
+      // Regular character, add to current value
+      currentValue += char;
+    }
+  }
+
+  // Don't forget the last value
+  values.push(currentValue.trim());
+
+  return values;
+}
+
+/**
+ * Split CSV/TSV text into parsed rows, dropping empty lines and a leading BOM.
+ * @param content - Raw CSV/TSV text
+ * @returns One array of cell values per non-empty line
+ */
+export function parseCSVRows(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(text);
+
+  return text
+    .split("\n")
+    .map((line) => line.replace(/\r$/, ""))
+    .filter((line) => line.trim().length > 0)
+    .map((line) => parseCSVRow(line, delimiter));
+}
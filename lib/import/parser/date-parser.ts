@@ -0,0 +1,60 @@
+import { format, isValid } from "date-fns";
+
+/**
+ * Day/month order for numeric dates like 05/01/2023
+ * (ISO-style dates are always year-first).
+ */
+export type DateOrder = "dmy" | "mdy";
+
+/**
+ * Parse a broker date/time cell into a yyyy-MM-dd key; returns null on invalid input.
+ * Accepts ISO dates with optional time ("2023-01-05, 10:30:00"), compact dates
+ * ("20230105") and day/month dates separated by - / or . ("05-01-2023").
+ * Trailing text such as times or "as of ..." suffixes is ignored.
+ */
+export function parseDateStrict(
+  raw: string,
+  order: DateOrder = "dmy",
+): string | null {
+  const input = (raw ?? "").toString().trim().replace(/"/g, "");
+  if (!input) return null;
+
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = input.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?!\d)/);
+  const compact = input.match(/^(\d{4})(\d{2})(\d{2})(?!\d)/);
+  const numeric = input.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})(?!\d)/);
+
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (compact) {
+    [year, month, day] = [
+      Number(compact[1]),
+      Number(compact[2]),
+      Number(compact[3]),
+    ];
+  } else if (numeric) {
+    const first = Number(numeric[1]);
+    const second = Number(numeric[2]);
+    year = Number(numeric[3]);
+    [day, month] = order === "dmy" ? [first, second] : [second, first];
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day);
+
+  // Reject rollovers like 31-02-2023
+  if (
+    !isValid(date) ||
+    date.getFullYear() !== year ||
+    date.getMonth() !== month - 1 ||
+    date.getDate() !== day
+  ) {
+    return null;
+  }
+
+  return format(date, "yyyy-MM-dd");
+}
@@ -124,6 +124,21 @@ Microsoft,5,EUR`;
     expect(result.supportedCurrencies).toContain("GBP");
   });
 
+  it("should map liability categories when importing liabilities", async () => {
+    const csv = `name,category,quantity,unit_value,currency
+Home Mortgage,home loan,1,250000,USD
+Amex Gold,credit card,1,1200,USD
+Tax bill,,1,800,USD`;
+
+    const result = await parsePositionsCSV(csv, "liability");
+
+    expect(result.positions.map((p) => p.category_id)).toEqual([
+      "mortgage",
+      "credit_card",
+      "other_liability",
+    ]);
+  });
+
   it("should handle errors gracefully when currencies fetch fails", async () => {
     const { fetchCurrencies } = await import("@/server/currencies/fetch");
 
@@ -2,8 +2,9 @@ import {
   buildCanonicalColumnMap,
   hasRequiredHeaders,
 } from "../parser/header-mapper";
-import { mapCategory } from "../parser/category-mapper";
+import { mapCategory, mapLiabilityCategory } from "../parser/category-mapper";
 import { parseNumberStrict } from "../parser/number-parser";
+import { detectDelimiter, parseCSVRow } from "../parser/csv-reader";
 import {
   normalizePositionsArray,
   validatePositionsArray,
@@ -13,69 +14,6 @@ import { fetchCurrencies } from "@/server/currencies/fetch";
 
 import type { PositionImportRow, PositionImportResult } from "../types";
 
-/**
- * Detect the delimiter used in the file by scoring the first line.
- * @param content - Raw CSV/TSV text
- * @returns the detected delimiter: "," | "\t" | ";" (defaulting to ",")
- */
-function detectDelimiter(content: string): string {
-  const firstLine = content.split("\n")[0];
-
-  const counts = {
-    comma: (firstLine.match(/,/g) || []).length,
-    tab: (firstLine.match(/\t/g) || []).length,
-    semicolon: (firstLine.match(/;/g) || []).length,
-  };
-
-  // Determine the highest count
-  const maxCount = Math.max(counts.comma, counts.tab, counts.semicolon);
-
-  if (maxCount === 0) return ","; // Default fallback
-
-  if (counts.tab === maxCount) return "\t";
-  if (counts.semicolon === maxCount) return ";";
-  return ",";
-}
-
-/**
- * Parse a single CSV row, handling quoted values and embedded delimiters.
- * @param row - A single CSV line
- * @param delimiter - The delimiter to split by
- * @returns Clean string values preserving quoted content
- */
-function parseCSVRow(row: string, delimiter: string): string[] {
-  const values: string[] = [];
-  let currentValue = "";
-  let insideQuotes = false;
-
-  for (let i = 0; i < row.length; i++) {
-    const char = row[i];
-
-    if (char === '"') {
-      if (insideQuotes && row[i + 1] === '"') {
-        // Handle escaped quotes ("" becomes ")
-        currentValue += '"';
-        i++; // Skip the next quote
-      } else {
-        // Toggle quote state (entering or leaving quotes)
-        insideQuotes = !insideQuotes;
-      }
-    } else if (char === delimiter && !insideQuotes) {
-      // End of value (delimiter outside quotes)
-      values.push(currentValue.trim());
-      currentValue = "";
-    } else {
-      // Regular character, add to current value
-      currentValue += char;
-    }
-  }
-
-  // Don't forget the last value
-  values.push(currentValue.trim());
-
-  return values;
-}
-
 /**
  * Infer category only when mapping returned "other".
  * @param currentCategory - Current canonical category id
@@ -144,11 +82,15 @@ function inferCurrencyColumnIndex(
 /**
  * Parse CSV text into structured data
  * @param csvContent - Raw CSV text from uploaded file
+ * @param positionType - Maps categories against asset or liability categories
  * @returns Parsed positions data or error details
  */
 export async function parsePositionsCSV(
   csvContent: string,
+  positionType: "asset" | "liability" = "asset",
 ): Promise<PositionImportResult> {
+  const isLiability = positionType === "liability";
+
   try {
     // Get supported currencies and extract just the codes
     const currencies = await fetchCurrencies();
@@ -244,21 +186,26 @@ export async function parsePositionsCSV(
       // Build position
       const position: PositionImportRow = {
         name: nameValue,
-        category_id: mapCategory(categoryRaw),
+        category_id: isLiability
+          ? mapLiabilityCategory(categoryRaw)
+          : mapCategory(categoryRaw),
         currency: (currencyRaw || "").trim().toUpperCase(),
         quantity: parseNumberStrict(values[columnMap.get("quantity")!]),
         unit_value: isNaN(parsedUnitValue) ? null : parsedUnitValue,
         cost_basis_per_unit: isNaN(parsedCostBasis) ? null : parsedCostBasis,
-        symbolLookup: symbolRaw || null,
+        // Liabilities have no market data source
+        symbolLookup: isLiability ? null : symbolRaw || null,
         description: descriptionRaw || null,
       };
 
       // Infer category if missing from name or symbol
-      position.category_id = inferCategoryIfMissing(
-        position.category_id,
-        position.name,
-        position.symbolLookup,
-      );
+      if (!isLiability) {
+        position.category_id = inferCategoryIfMissing(
+          position.category_id,
+          position.name,
+          position.symbolLookup,
+        );
+      }
 
       // Add position to results
       parsedPositions.push(position);
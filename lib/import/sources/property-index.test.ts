@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { parsePropertyIndexCSV } from "./property-index";
+
+describe("parsePropertyIndexCSV", () => {
+  it("reads monthly series with headers in any column order", () => {
+    const csv = `Index value;Period
+"101,5";2024-02
+100;2024-01`;
+
+    const result = parsePropertyIndexCSV(csv);
+
+    expect(result.success).toBe(true);
+    expect(result.values).toEqual([
+      { date: "2024-01-01", value: 100 },
+      { date: "2024-02-01", value: 101.5 },
+    ]);
+  });
+
+  it("reads headerless files and reports invalid rows", () => {
+    const result = parsePropertyIndexCSV(
+      "2024-01-31,100\n2024-02-29,0\nlater,102",
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([
+      "Row 2: Index value must be a positive number",
+      'Row 3: Invalid date "later"',
+    ]);
+  });
+});
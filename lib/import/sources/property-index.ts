@@ -0,0 +1,82 @@
+import { parseCSVRows } from "../parser/csv-reader";
+import { parseDateStrict } from "../parser/date-parser";
+import { parseNumberStrict } from "../parser/number-parser";
+
+import type { PropertyIndexImportResult } from "../types";
+
+const DATE_HEADER = /date|period|month/i;
+const VALUE_HEADER = /value|index|level|price/i;
+
+// Index series are often monthly ("2024-01"); those map to the first day
+function parseIndexDate(raw: string) {
+  const monthly = raw.trim().match(/^(\d{4})[-/](\d{1,2})$/);
+  return monthly
+    ? parseDateStrict(`${monthly[1]}-${monthly[2]}-01`)
+    : parseDateStrict(raw);
+}
+
+/**
+ * Parse a regional property price index series (one date and one level per row).
+ * A header row is optional; without recognizable headers the first two
+ * columns are read as date and value.
+ * @param csvContent - Raw CSV text from uploaded file
+ * @returns Index levels (oldest first) or error details
+ */
+export function parsePropertyIndexCSV(
+  csvContent: string,
+): PropertyIndexImportResult {
+  const rows = parseCSVRows(csvContent);
+  if (rows.length === 0) {
+    return { success: false, values: [], errors: ["CSV file is empty"] };
+  }
+
+  // Detect an optional header row
+  const hasHeader = parseIndexDate(rows[0][0] ?? "") === null;
+  const headers = hasHeader ? rows[0] : [];
+  const dateColumn = Math.max(
+    headers.findIndex((header) => DATE_HEADER.test(header)),
+    0,
+  );
+  const headerValueColumn = headers.findIndex(
+    (header, column) => column !== dateColumn && VALUE_HEADER.test(header),
+  );
+  const valueColumn =
+    headerValueColumn >= 0 ? headerValueColumn : dateColumn === 0 ? 1 : 0;
+
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  const values = new Map<string, number>();
+  const errors: string[] = [];
+
+  dataRows.forEach((cells, index) => {
+    // Row numbers are 1-based within the data rows
+    const rowLabel = `Row ${index + 1}`;
+    const rawDate = cells[dateColumn] ?? "";
+    const rawValue = cells[valueColumn] ?? "";
+
+    const date = parseIndexDate(rawDate);
+    const value = parseNumberStrict(rawValue);
+
+    if (!date) {
+      errors.push(`${rowLabel}: Invalid date "${rawDate}"`);
+      return;
+    }
+    if (!Number.isFinite(value) || value <= 0) {
+      errors.push(`${rowLabel}: Index value must be a positive number`);
+      return;
+    }
+
+    values.set(date, value);
+  });
+
+  if (errors.length === 0 && values.size === 0) {
+    errors.push("CSV file must have at least one data row");
+  }
+
+  return {
+    success: errors.length === 0,
+    values: [...values.entries()]
+      .map(([date, value]) => ({ date, value }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    errors: errors.length > 0 ? errors : undefined,
+  };
+}
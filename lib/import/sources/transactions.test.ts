@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from "vitest";
+import { parseTransactionsCSV } from "./transactions";
+
+// Mock only the currencies fetch function
+vi.mock("@/server/currencies/fetch", () => ({
+  fetchCurrencies: vi.fn(async () => [
+    { alphabetic_code: "USD" },
+    { alphabetic_code: "EUR" },
+    { alphabetic_code: "GBP" },
+  ]),
+}));
+
+describe("parseTransactionsCSV", () => {
+  it("parses a DEGIRO export with sells as negative quantities", async () => {
+    const csv = `Date,Time,Product,ISIN,Reference exchange,Venue,Quantity,Price,,Local value,,Order ID
+15-03-2024,10:02,VANGUARD FTSE AW,IE00BK5BQT80,XET,XETA,-2,"112,50",EUR,"225,00",EUR,abc-2
+02-01-2024,09:15,VANGUARD FTSE AW,IE00BK5BQT80,XET,XETA,10,"105,20",EUR,"-1052,00",EUR,abc-1`;
+
+    const result = await parseTransactionsCSV(csv);
+
+    expect(result.success).toBe(true);
+    expect(result.broker).toBe("degiro");
+    expect(result.transactions).toEqual([
+      {
+        date: "2024-01-02",
+        type: "buy",
+        name: "VANGUARD FTSE AW",
+        category_id: "equity",
+        currency: "EUR",
+        quantity: 10,
+        unit_value: 105.2,
+        symbolLookup: "IE00BK5BQT80",
+        description: "DEGIRO order abc-1",
+      },
+      {
+        date: "2024-03-15",
+        type: "sell",
+        name: "VANGUARD FTSE AW",
+        category_id: "equity",
+        currency: "EUR",
+        quantity: 2,
+        unit_value: 112.5,
+        symbolLookup: "IE00BK5BQT80",
+        description: "DEGIRO order abc-2",
+      },
+    ]);
+  });
+
+  it("parses the Trades section of an IBKR activity statement", async () => {
+    const csv = `Statement,Header,Field Name,Field Value
+Statement,Data,Period,"January 1, 2024 - December 31, 2024"
+Trades,Header,DataDiscriminator,Asset Category,Currency,Symbol,Date/Time,Quantity,T. Price,Proceeds
+Trades,Data,Order,Stocks,USD,AAPL,"2024-02-05, 10:30:00","1,000",185.5,-185500
+Trades,SubTotal,,Stocks,USD,AAPL,,"1,000",,-185500
+Trades,Data,Order,Equity and Index Options,USD,AAPL 240315C00190000,"2024-02-06, 11:00:00",1,2.1,-210`;
+
+    const result = await parseTransactionsCSV(csv);
+
+    expect(result.success).toBe(true);
+    expect(result.broker).toBe("ibkr");
+    expect(result.transactions).toHaveLength(1);
+    expect(result.transactions[0]).toMatchObject({
+      date: "2024-02-05",
+      type: "buy",
+      name: "AAPL",
+      currency: "USD",
+      quantity: 1000,
+      unit_value: 185.5,
+      symbolLookup: "AAPL",
+    });
+    expect(result.warnings).toHaveLength(1);
+  });
+
+  it("parses Trading 212 history and skips non-trade actions", async () => {
+    const csv = `Action,Time,ISIN,Ticker,Name,No. of shares,Price / share,Currency (Price / share),Total,Currency (Total)
+Deposit,2024-01-01 08:00:00,,,,,,,500,GBP
+Market buy,2024-01-03 14:21:09,US0378331005,AAPL,Apple,0.5,184.2,USD,72.71,GBP
+Limit sell,2024-04-10 15:00:00,US0378331005,AAPL,Apple,0.25,170,USD,33.40,GBP
+Dividend (Dividend),2024-05-16 09:00:00,US0378331005,AAPL,Apple,0.25,0.24,USD,0.05,GBP`;
+
+    const result = await parseTransactionsCSV(csv);
+
+    expect(result.success).toBe(true);
+    expect(result.broker).toBe("trading212");
+    expect(result.transactions.map((t) => [t.type, t.quantity])).toEqual([
+      ["buy", 0.5],
+      ["sell", 0.25],
+    ]);
+    expect(result.warnings?.[0]).toContain("Skipped 2");
+  });
+
+  it("parses Schwab history with US dates and dollar prices", async () => {
+    const csv = `"Date","Action","Symbol","Description","Quantity","Price","Fees & Comm","Amount"
+"04/12/2024 as of 04/11/2024","Reinvest Shares","SCHD","SCHWAB US DIVIDEND EQUITY ETF","0.4512","$77.12","","-$34.80"
+"03/01/2024","Buy","SCHD","SCHWAB US DIVIDEND EQUITY ETF","1,200","$76.50","","-$91,800.00"
+"03/28/2024","Qualified Dividend","SCHD","SCHWAB US DIVIDEND EQUITY ETF","","","","$34.80"`;
+
+    const result = await parseTransactionsCSV(csv);
+
+    expect(result.success).toBe(true);
+    expect(result.broker).toBe("schwab");
+    expect(result.transactions.map((t) => [t.date, t.quantity])).toEqual([
+      ["2024-03-01", 1200],
+      ["2024-04-12", 0.4512],
+    ]);
+    expect(result.transactions[0].unit_value).toBe(76.5);
+  });
+
+  it("reports row errors for invalid trades", async () => {
+    const csv = `Action,Time,ISIN,Ticker,Name,No. of shares,Price / share,Currency (Price / share)
+Market buy,not a date,US0378331005,AAPL,Apple,1,184.2,USD
+Market buy,2024-01-03 14:21:09,US0378331005,AAPL,Apple,1,184.2,JPY`;
+
+    const result = await parseTransactionsCSV(csv);
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([
+      'Row 1: Invalid date "not a date"',
+      'Row 2: Unsupported currency "JPY"',
+    ]);
+  });
+
+  it("rejects unrecognized exports", async () => {
+    const result = await parseTransactionsCSV("name,quantity\nApple,1");
+
+    expect(result.success).toBe(false);
+    expect(result.broker).toBeNull();
+    expect(result.errors?.[0]).toContain("Unrecognized export");
+  });
+});
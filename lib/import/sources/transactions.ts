@@ -0,0 +1,124 @@
+import { parseCSVRows } from "../parser/csv-reader";
+import { mapCategory } from "../parser/category-mapper";
+import { BROKER_FORMATS, detectBrokerFormat } from "../brokers";
+import { createCellReader } from "../brokers/utils";
+
+import { fetchCurrencies } from "@/server/currencies/fetch";
+
+import type { TransactionImportResult, TransactionImportRow } from "../types";
+
+/**
+ * Parse a broker transaction-history export into dated buy/sell trades.
+ * The broker is detected from the file layout; rows that are not trades
+ * (cash movements, dividends, fees...) are skipped with a warning.
+ * @param csvContent - Raw CSV text from uploaded file
+ * @returns Parsed trades (oldest first) or error details
+ */
+export async function parseTransactionsCSV(
+  csvContent: string,
+): Promise<TransactionImportResult> {
+  try {
+    const currencies = await fetchCurrencies();
+    const supportedCurrencies = currencies.map((c) => c.alphabetic_code);
+
+    const rows = parseCSVRows(csvContent);
+    if (rows.length < 2) {
+      return {
+        success: false,
+        broker: null,
+        transactions: [],
+        errors: ["CSV file must have at least a header row and one data row"],
+      };
+    }
+
+    const detected = detectBrokerFormat(rows);
+    if (!detected) {
+      return {
+        success: false,
+        broker: null,
+        transactions: [],
+        errors: [
+          `Unrecognized export. Supported brokers: ${BROKER_FORMATS.map((format) => format.name).join(", ")}.`,
+        ],
+      };
+    }
+
+    const { format, table } = detected;
+    const transactions: TransactionImportRow[] = [];
+    const errors: string[] = [];
+    let skippedCount = 0;
+
+    table.rows.forEach((values, index) => {
+      // Row numbers are 1-based within the data rows
+      const rowLabel = `Row ${index + 1}`;
+
+      let trade;
+      try {
+        trade = format.parseRow(createCellReader(table.headers, values));
+      } catch (error) {
+        errors.push(
+          `${rowLabel}: ${error instanceof Error ? error.message : "Invalid row"}`,
+        );
+        return;
+      }
+
+      if (!trade) {
+        skippedCount++;
+        return;
+      }
+
+      if (!trade.name) errors.push(`${rowLabel}: Missing product name`);
+      if (!supportedCurrencies.includes(trade.currency)) {
+        errors.push(
+          `${rowLabel}: Unsupported currency "${trade.currency || "(empty)"}"`,
+        );
+      }
+      if (!Number.isFinite(trade.quantity) || trade.quantity <= 0) {
+        errors.push(`${rowLabel}: Quantity must be a positive number`);
+      }
+      if (!Number.isFinite(trade.unit_value) || trade.unit_value < 0) {
+        errors.push(`${rowLabel}: Price must be 0 or greater`);
+      }
+
+      const { category, ...rest } = trade;
+      const mappedCategory = mapCategory(category);
+
+      transactions.push({
+        ...rest,
+        // Broker trades are securities unless the export says otherwise
+        category_id: mappedCategory === "other" ? "equity" : mappedCategory,
+      });
+    });
+
+    if (!transactions.length && !errors.length) {
+      errors.push("No buy or sell transactions found in this file");
+    }
+
+    const warnings = skippedCount
+      ? [
+          `Skipped ${skippedCount} non-trade row(s) such as deposits, dividends or fees.`,
+        ]
+      : undefined;
+
+    // Oldest first so positions build up chronologically
+    transactions.sort((a, b) => a.date.localeCompare(b.date));
+
+    return {
+      success: errors.length === 0,
+      broker: format.id,
+      transactions,
+      warnings,
+      errors: errors.length ? errors : undefined,
+    };
+  } catch (error) {
+    console.error("Unexpected error during transactions CSV parsing:", error);
+    return {
+      success: false,
+      broker: null,
+      transactions: [],
+      errors: [
+        `Failed to parse CSV: ${error instanceof Error ? error.message : "Unknown error"}`,
+      ],
+    };
+  }
+}
@@ -21,5 +21,59 @@ export interface PositionImportResult {
 }
 
 export type ImportActionResult =
-  | { success: true; importedCount: number }
+  | { success: true; importedCount: number; skippedCount?: number }
   | { success: false; error: string };
+
+// How an import row relates to the user's existing positions
+export type PositionImportDiffStatus = "new" | "update" | "unchanged";
+
+export type PositionImportDiffRow = {
+  row: PositionImportRow;
+  status: PositionImportDiffStatus;
+  /** Matched existing position (by symbol, then name) */
+  positionId: string | null;
+  symbolId: string | null;
+  currentQuantity: number | null;
+  currentUnitValue: number | null;
+};
+
+export type PositionImportPreviewResult =
+  | { success: true; diff: PositionImportDiffRow[] }
+  | { success: false; error: string };
+
+// Broker transaction-history exports
+export type BrokerId = "degiro" | "ibkr" | "trading212" | "schwab";
+
+export type TransactionImportRow = {
+  /** Trade date (yyyy-MM-dd) */
+  date: string;
+  type: "buy" | "sell";
+  name: string;
+  category_id: string;
+  currency: string;
+  /** Always positive; the type carries the direction */
+  quantity: number;
+  unit_value: number;
+  symbolLookup: string | null;
+  description: string | null;
+};
+
+export interface TransactionImportResult {
+  success: boolean;
+  broker: BrokerId | null;
+  transactions: TransactionImportRow[];
+  warnings?: string[];
+  errors?: string[];
+}
+
+export type TransactionImportPreviewResult =
+  | { success: true; newCount: number; duplicateCount: number }
+  | { success: false; error: string };
+
+// Regional property price index series
+export interface PropertyIndexImportResult {
+  success: boolean;
+  /** Index levels (yyyy-MM-dd dates, oldest first) */
+  values: Array<{ date: string; value: number }>;
+  errors?: string[];
+}
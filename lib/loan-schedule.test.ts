@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateScheduledPayment,
+  generateLoanSchedule,
+  type LoanTerms,
+} from "./loan-schedule";
+
+const baseTerms: LoanTerms = {
+  principal: 200000,
+  annualInterestRate: 6,
+  termMonths: 360,
+  paymentFrequency: "monthly",
+  startDate: new Date(2024, 0, 1),
+};
+
+describe("calculateScheduledPayment", () => {
+  it("should compute a standard annuity payment", () => {
+    expect(calculateScheduledPayment(200000, 0.005, 360)).toBeCloseTo(
+      1199.1,
+      1,
+    );
+  });
+
+  it("should split principal evenly when interest is zero", () => {
+    expect(calculateScheduledPayment(1200, 0, 12)).toBe(100);
+  });
+});
+
+describe("generateLoanSchedule", () => {
+  it("should amortize the loan to zero over the full term", () => {
+    const schedule = generateLoanSchedule(baseTerms);
+
+    expect(schedule.scheduledPayment).toBe(1199.11);
+    expect(schedule.periods).toHaveLength(360);
+    expect(schedule.periods[0].interest).toBe(1000);
+    expect(schedule.periods.at(-1)?.balance).toBe(0);
+    expect(schedule.payoffDate).toEqual(new Date(2054, 0, 1));
+  });
+
+  it("should pay off earlier with recurring extra payments", () => {
+    const schedule = generateLoanSchedule({
+      ...baseTerms,
+      recurringExtraPayment: 500,
+    });
+
+    expect(schedule.periods.length).toBeLessThan(360);
+    expect(schedule.payoffDate!.getTime()).toBeLessThan(
+      new Date(2054, 0, 1).getTime(),
+    );
+  });
+
+  it("should apply one-off extra payments with the next scheduled payment", () => {
+    const schedule = generateLoanSchedule(
+      { ...baseTerms, annualInterestRate: 0, termMonths: 12, principal: 1200 },
+      { extraPayments: [{ date: new Date(2024, 1, 15), amount: 300 }] },
+    );
+
+    expect(schedule.periods[0].extraPayment).toBe(0);
+    expect(schedule.periods[1].extraPayment).toBe(300);
+    expect(schedule.periods[1].balance).toBe(700);
+    expect(schedule.periods).toHaveLength(9);
+  });
+
+  it("should continue from a manual balance override", () => {
+    const schedule = generateLoanSchedule(
+      { ...baseTerms, annualInterestRate: 0, termMonths: 12, principal: 1200 },
+      { balanceOverrides: [{ date: new Date(2024, 2, 1), amount: 400 }] },
+    );
+
+    // Override dated on the March payment applies after that payment
+    expect(schedule.periods[1].balance).toBe(1000);
+    expect(schedule.periods[2].balance).toBe(300);
+    expect(schedule.periods.at(-1)?.balance).toBe(0);
+    expect(schedule.payoffDate).toEqual(new Date(2024, 6, 1));
+  });
+
+  it("should report no payoff when payments never cover interest", () => {
+    const schedule = generateLoanSchedule(
+      { ...baseTerms, annualInterestRate: 12, termMonths: 12, principal: 100 },
+      { balanceOverrides: [{ date: new Date(2024, 0, 15), amount: 1000000 }] },
+    );
+
+    expect(schedule.payoffDate).toBeNull();
+  });
+});
@@ -0,0 +1,227 @@
+import { addMonths, addWeeks, addYears } from "date-fns";
+
+import type { Loan } from "@/types/global.types";
+
+type LoanPaymentFrequency = Loan["payment_frequency"];
+
+export type LoanTerms = {
+  principal: number;
+  /** Nominal annual interest rate in percent (e.g. 4.5 for 4.5%). */
+  annualInterestRate: number;
+  termMonths: number;
+  paymentFrequency: LoanPaymentFrequency;
+  startDate: Date;
+  /** Added to every scheduled payment, applied fully to principal. */
+  recurringExtraPayment?: number;
+};
+
+export type LoanScheduleEvent = {
+  date: Date;
+  amount: number;
+};
+
+export type LoanScheduleOptions = {
+  /** One-off extra principal payments, applied with the next scheduled payment. */
+  extraPayments?: LoanScheduleEvent[];
+  /**
+   * Known balances (e.g. manual update records). The schedule continues from
+   * the overridden balance with the same scheduled payment.
+   */
+  balanceOverrides?: LoanScheduleEvent[];
+};
+
+export type LoanSchedulePeriod = {
+  date: Date;
+  payment: number;
+  interest: number;
+  principal: number;
+  extraPayment: number;
+  balance: number;
+};
+
+export type LoanSchedule = {
+  scheduledPayment: number;
+  periods: LoanSchedulePeriod[];
+  totalInterest: number;
+  /** Date of the final payment, or null if the loan never amortizes. */
+  payoffDate: Date | null;
+};
+
+export const PERIODS_PER_YEAR: Record<LoanPaymentFrequency, number> = {
+  weekly: 52,
+  biweekly: 26,
+  monthly: 12,
+  quarterly: 4,
+  annually: 1,
+};
+
+// Safety cap on generated periods (overrides can lengthen the schedule)
+const MAX_SCHEDULE_YEARS = 100;
+
+const roundToCents = (value: number) => Math.round(value * 100) / 100;
+
+// Lenders round the level payment up so the final payment absorbs the remainder
+const roundUpToCents = (value: number) => Math.ceil(value * 100 - 1e-9) / 100;
+
+/**
+ * Date of the n-th payment after the start date.
+ * Always computed from the start date so month-end dates don't drift.
+ */
+export function getPaymentDate(
+  startDate: Date,
+  frequency: LoanPaymentFrequency,
+  periodIndex: number,
+) {
+  switch (frequency) {
+    case "weekly":
+      return addWeeks(startDate, periodIndex);
+    case "biweekly":
+      return addWeeks(startDate, periodIndex * 2);
+    case "monthly":
+      return addMonths(startDate, periodIndex);
+    case "quarterly":
+      return addMonths(startDate, periodIndex * 3);
+    case "annually":
+      return addYears(startDate, periodIndex);
+  }
+}
+
+/**
+ * Level payment that amortizes the principal over the given number of periods.
+ */
+export function calculateScheduledPayment(
+  principal: number,
+  periodRate: number,
+  periodCount: number,
+) {
+  if (periodCount <= 0) return principal;
+  if (periodRate === 0) return principal / periodCount;
+  return (
+    (principal * periodRate) / (1 - Math.pow(1 + periodRate, -periodCount))
+  );
+}
+
+/**
+ * Generate an amortization schedule for a loan.
+ * Events dated on a payment date are applied after that payment.
+ */
+export function generateLoanSchedule(
+  terms: LoanTerms,
+  options: LoanScheduleOptions = {},
+): LoanSchedule {
+  const periodsPerYear = PERIODS_PER_YEAR[terms.paymentFrequency];
+  const periodRate = terms.annualInterestRate / 100 / periodsPerYear;
+  const periodCount = Math.max(
+    1,
+    Math.ceil((terms.termMonths / 12) * periodsPerYear),
+  );
+  const scheduledPayment = roundUpToCents(
+    calculateScheduledPayment(terms.principal, periodRate, periodCount),
+  );
+  const recurringExtra = Math.max(0, terms.recurringExtraPayment ?? 0);
+
+  // Sort events once and consume them with a pointer
+  const byDate = (a: LoanScheduleEvent, b: LoanScheduleEvent) =>
+    a.date.getTime() - b.date.getTime();
+  const extraPayments = [...(options.extraPayments ?? [])].sort(byDate);
+  const overrides = [...(options.balanceOverrides ?? [])].sort(byDate);
+  let extraIdx = 0;
+  let overrideIdx = 0;
+
+  const maxPeriods = MAX_SCHEDULE_YEARS * periodsPerYear;
+  const periods: LoanSchedulePeriod[] = [];
+  let balance = roundToCents(terms.principal);
+  let totalInterest = 0;
+  let payoffDate: Date | null = null;
+
+  for (let periodIndex = 1; periodIndex <= maxPeriods; periodIndex += 1) {
+    const date = getPaymentDate(
+      terms.startDate,
+      terms.paymentFrequency,
+      periodIndex,
+    );
+    const dateMs = date.getTime();
+
+    // Apply known balances dated before this payment
+    while (
+      overrideIdx < overrides.length &&
+      overrides[overrideIdx].date.getTime() < dateMs
+    ) {
+      balance = roundToCents(Math.max(0, overrides[overrideIdx].amount));
+      if (balance <= 0) payoffDate = overrides[overrideIdx].date;
+      overrideIdx += 1;
+    }
+
+    // Collect one-off extras dated before this payment
+    let pendingExtra = recurringExtra;
+    while (
+      extraIdx < extraPayments.length &&
+      extraPayments[extraIdx].date.getTime() < dateMs
+    ) {
+      pendingExtra += Math.max(0, extraPayments[extraIdx].amount);
+      extraIdx += 1;
+    }
+
+    if (balance <= 0) {
+      // Paid off by an override; keep going only if a later override reopens it
+      if (overrideIdx >= overrides.length) break;
+      continue;
+    }
+
+    const interest = roundToCents(balance * periodRate);
+    const payment = roundToCents(
+      Math.min(scheduledPayment, balance + interest),
+    );
+    const principal = roundToCents(payment - interest);
+    balance = roundToCents(balance - principal);
+
+    const extraPayment = roundToCents(Math.min(pendingExtra, balance));
+    balance = roundToCents(balance - extraPayment);
+
+    totalInterest += interest;
+    periods.push({
+      date,
+      payment,
+      interest,
+      principal,
+      extraPayment,
+      balance,
+    });
+
+    if (balance <= 0) {
+      payoffDate = date;
+      if (overrideIdx >= overrides.length) break;
+    }
+  }
+
+  return {
+    scheduledPayment,
+    periods,
+    totalInterest: roundToCents(totalInterest),
+    payoffDate: balance <= 0 ? payoffDate : null,
+  };
+}
+
+/**
+ * Map a loan row into schedule terms.
+ */
+export function toLoanTerms(
+  loan: Pick<
+    Loan,
+    | "principal"
+    | "annual_interest_rate"
+    | "term_months"
+    | "payment_frequency"
+    | "start_date"
+    | "recurring_extra_payment"
+  >,
+): LoanTerms {
+  return {
+    principal: Number(loan.principal),
+    annualInterestRate: Number(loan.annual_interest_rate),
+    termMonths: Number(loan.term_months),
+    paymentFrequency: loan.payment_frequency,
+    startDate: new Date(`${loan.start_date}T00:00:00`),
+    recurringExtraPayment: Number(loan.recurring_extra_payment ?? 0),
+  };
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { matchLots, type LotEvent } from "./lot-matching";
+
+const events: LotEvent[] = [
+  {
+    id: "buy-1",
+    type: "buy",
+    date: "2024-01-01",
+    quantity: 10,
+    unitValue: 100,
+  },
+  {
+    id: "buy-2",
+    type: "buy",
+    date: "2024-02-01",
+    quantity: 10,
+    unitValue: 200,
+  },
+  {
+    id: "sell-1",
+    type: "sell",
+    date: "2024-03-01",
+    quantity: 15,
+    unitValue: 300,
+  },
+];
+
+describe("matchLots", () => {
+  it("should consume the oldest lots first with FIFO", () => {
+    const { sales, openLots } = matchLots(events, "fifo");
+
+    expect(sales[0].costBasis).toBe(2000);
+    expect(sales[0].realizedGain).toBe(2500);
+    expect(openLots).toEqual([
+      { id: "buy-2", date: "2024-02-01", quantity: 5, costBasisPerUnit: 200 },
+    ]);
+  });
+
+  it("should consume the newest lots first with LIFO", () => {
+    const { sales, openLots } = matchLots(events, "lifo");
+
+    expect(sales[0].costBasis).toBe(2500);
+    expect(openLots[0]).toMatchObject({ id: "buy-1", quantity: 5 });
+  });
+
+  it("should use the pooled average with average cost", () => {
+    const { sales, openLots } = matchLots(events, "average_cost");
+
+    expect(sales[0].costBasis).toBe(2250);
+    const remainingCost = openLots.reduce(
+      (sum, lot) => sum + lot.quantity * lot.costBasisPerUnit,
+      0,
+    );
+    expect(remainingCost).toBeCloseTo(750);
+  });
+
+  it("should honour lot selections and fall back to FIFO", () => {
+    const { sales } = matchLots(
+      events,
+      "specific_lot",
+      new Map([["sell-1", [{ lotId: "buy-2", quantity: 8 }]]]),
+    );
+
+    // 8 from buy-2, remaining 7 from buy-1
+    expect(sales[0].costBasis).toBe(8 * 200 + 7 * 100);
+  });
+
+  it("should reset lots on update records", () => {
+    const { sales } = matchLots(
+      [
+        {
+          id: null,
+          type: "opening",
+          date: "2023-12-01",
+          quantity: 5,
+          unitValue: 50,
+        },
+        ...events.slice(0, 2),
+        {
+          id: "update-1",
+          type: "update",
+          date: "2024-02-15",
+          quantity: 20,
+          unitValue: 250,
+          costBasisPerUnit: 120,
+        },
+        events[2],
+      ],
+      "fifo",
+    );
+
+    expect(sales[0].costBasis).toBe(15 * 120);
+    expect(sales[0].matchedQuantity).toBe(15);
+  });
+
+  it("should report unmatched quantity when selling more than held", () => {
+    const { sales } = matchLots(
+      [events[0], { ...events[2], quantity: 12 }],
+      "fifo",
+    );
+
+    expect(sales[0].matchedQuantity).toBe(10);
+    expect(sales[0].costBasis).toBe(1000);
+  });
+
+  it("should only realize proceeds of the matched quantity on an oversell", () => {
+    const { sales, openLots } = matchLots(
+      [events[0], { ...events[2], quantity: 12 }],
+      "fifo",
+    );
+
+    expect(sales[0].quantity).toBe(12);
+    expect(sales[0].proceeds).toBe(10 * 300);
+    expect(sales[0].realizedGain).toBe(10 * 300 - 1000);
+    expect(openLots).toEqual([]);
+  });
+});
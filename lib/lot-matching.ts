@@ -0,0 +1,179 @@
+import type { Profile } from "@/types/global.types";
+
+export type CostBasisMethod = Profile["cost_basis_method"];
+
+/**
+ * A holding change in chronological order.
+ * - opening: initial balance of the position (id is null)
+ * - buy: opens a new lot
+ * - sell: closes quantity from open lots
+ * - update: resets holdings to a single lot at the given cost basis
+ */
+export type LotEvent = {
+  id: string | null;
+  type: "opening" | "buy" | "sell" | "update";
+  date: string;
+  quantity: number;
+  unitValue: number;
+  /** Cost basis per unit for opening/update events (falls back to unitValue). */
+  costBasisPerUnit?: number | null;
+};
+
+/** Quantity taken from a specific lot (lotId null = opening balance). */
+export type LotSelectionInput = {
+  lotId: string | null;
+  quantity: number;
+};
+
+export type OpenLot = {
+  id: string | null;
+  date: string;
+  quantity: number;
+  costBasisPerUnit: number;
+};
+
+export type RealizedSale = {
+  recordId: string;
+  date: string;
+  quantity: number;
+  /** Quantity covered by open lots; the rest had nothing to match against. */
+  matchedQuantity: number;
+  /** Proceeds of the matched quantity, so they line up with the cost basis. */
+  proceeds: number;
+  costBasis: number;
+  realizedGain: number;
+};
+
+// Ignore floating point dust when lots are drained
+const EPSILON = 1e-9;
+
+/**
+ * Match sell events to open lots under the given cost basis method.
+ * Specific lot sales use their selections first and fall back to FIFO for
+ * any quantity left unallocated.
+ */
+export function matchLots(
+  events: LotEvent[],
+  method: CostBasisMethod,
+  selectionsBySellId: Map<string, LotSelectionInput[]> = new Map(),
+): { sales: RealizedSale[]; openLots: OpenLot[] } {
+  let lots: OpenLot[] = [];
+  const sales: RealizedSale[] = [];
+
+  const takeFromLot = (lot: OpenLot, quantity: number) => {
+    const taken = Math.min(lot.quantity, quantity);
+    lot.quantity -= taken;
+    return { taken, cost: taken * lot.costBasisPerUnit };
+  };
+
+  const takeInOrder = (orderedLots: OpenLot[], quantity: number) => {
+    let remaining = quantity;
+    let cost = 0;
+    for (const lot of orderedLots) {
+      if (remaining <= EPSILON) break;
+      const result = takeFromLot(lot, remaining);
+      remaining -= result.taken;
+      cost += result.cost;
+    }
+    return { taken: quantity - remaining, cost };
+  };
+
+  for (const event of events) {
+    const quantity = Math.max(0, Number(event.quantity));
+    const unitValue = Number(event.unitValue);
+
+    if (event.type === "opening" || event.type === "update") {
+      lots =
+        quantity > 0
+          ? [
+              {
+                id: event.id,
+                date: event.date,
+                quantity,
+                costBasisPerUnit: Number(event.costBasisPerUnit ?? unitValue),
+              },
+            ]
+          : [];
+      continue;
+    }
+
+    if (event.type === "buy") {
+      if (quantity > 0) {
+        lots.push({
+          id: event.id,
+          date: event.date,
+          quantity,
+          costBasisPerUnit: unitValue,
+        });
+      }
+      continue;
+    }
+
+    // Sell
+    let matchedQuantity = 0;
+    let costBasis = 0;
+
+    if (method === "average_cost") {
+      const totalQuantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+      const totalCost = lots.reduce(
+        (sum, lot) => sum + lot.quantity * lot.costBasisPerUnit,
+        0,
+      );
+      matchedQuantity = Math.min(quantity, totalQuantity);
+      costBasis =
+        totalQuantity > 0 ? (totalCost / totalQuantity) * matchedQuantity : 0;
+
+      // Shrink every lot proportionally so the average stays unchanged
+      const factor =
+        totalQuantity > 0
+          ? (totalQuantity - matchedQuantity) / totalQuantity
+          : 0;
+      lots.forEach((lot) => {
+        lot.quantity *= factor;
+      });
+    } else if (method === "lifo") {
+      const result = takeInOrder([...lots].reverse(), quantity);
+      matchedQuantity = result.taken;
+      costBasis = result.cost;
+    } else {
+      let remaining = quantity;
+
+      if (method === "specific_lot" && event.id) {
+        for (const selection of selectionsBySellId.get(event.id) ?? []) {
+          if (remaining <= EPSILON) break;
+          const lot = lots.find((item) => item.id === selection.lotId);
+          if (!lot) continue;
+          const result = takeFromLot(
+            lot,
+            Math.min(Math.max(0, selection.quantity), remaining),
+          );
+          remaining -= result.taken;
+          matchedQuantity += result.taken;
+          costBasis += result.cost;
+        }
+      }
+
+      const result = takeInOrder(lots, remaining);
+      matchedQuantity += result.taken;
+      costBasis += result.cost;
+    }
+
+    lots = lots.filter((lot) => lot.quantity > EPSILON);
+
+    if (!event.id) continue;
+
+    // An oversold remainder has no cost basis, so it realizes nothing
+    const proceeds = matchedQuantity * unitValue;
+    sales.push({
+      recordId: event.id,
+      date: event.date,
+      quantity,
+      matchedQuantity,
+      proceeds,
+      costBasis,
+      realizedGain: proceeds - costBasis,
+    });
+  }
+
+  return { sales, openLots: lots };
+}
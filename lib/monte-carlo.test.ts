@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+
+import { MAX_SIMULATION_YEARS, runMonteCarlo } from "./monte-carlo";
+
+import type { SimulationInput } from "./monte-carlo";
+
+const input: SimulationInput = {
+  assets: [
+    {
+      key: "equity",
+      name: "Equities",
+      value: 600000,
+      expectedReturn: 0.07,
+      volatility: 0.16,
+    },
+    {
+      key: "fixed_income",
+      name: "Fixed Income",
+      value: 400000,
+      expectedReturn: 0.04,
+      volatility: 0.06,
+    },
+  ],
+  years: 30,
+  yearsToRetirement: 0,
+  annualContribution: 0,
+  withdrawalRate: 0.04,
+  inflation: 0.025,
+  correlation: 0.5,
+  paths: 500,
+  seed: 7,
+};
+
+describe("runMonteCarlo", () => {
+  it("is deterministic for a seed", () => {
+    const first = runMonteCarlo(input);
+    const second = runMonteCarlo(input);
+    const other = runMonteCarlo({ ...input, seed: 8 });
+
+    expect(second).toEqual(first);
+    expect(other.years[30].p50).not.toBe(first.years[30].p50);
+  });
+
+  it("returns ordered percentile bands and a success probability", () => {
+    const result = runMonteCarlo(input);
+
+    expect(result.years).toHaveLength(31);
+    expect(result.years[0]).toMatchObject({ p10: 1000000, p90: 1000000 });
+    result.years.forEach((year) => {
+      expect(year.p10).toBeLessThanOrEqual(year.p50);
+      expect(year.p50).toBeLessThanOrEqual(year.p90);
+    });
+    expect(result.medianWithdrawal).toBe(40000);
+    expect(result.successProbability).toBeGreaterThan(0.5);
+    expect(result.successProbability).toBeLessThanOrEqual(1);
+  });
+
+  it("fails every path when the money runs out", () => {
+    const result = runMonteCarlo({
+      ...input,
+      assets: [
+        {
+          key: "cash",
+          name: "Cash",
+          value: 100000,
+          expectedReturn: 0.025,
+          volatility: 0,
+        },
+      ],
+      annualWithdrawal: 10000,
+    });
+
+    // 10 years of withdrawals with no real return
+    expect(result.successProbability).toBe(0);
+    expect(result.years[10].p90).toBe(0);
+  });
+
+  it("simulates at most a lifetime", () => {
+    const result = runMonteCarlo({ ...input, years: 1e6, paths: 10 });
+
+    expect(result.years).toHaveLength(MAX_SIMULATION_YEARS + 1);
+  });
+});
@@ -0,0 +1,264 @@
+/** An asset class in the simulated portfolio (rates are nominal, annual). */
+export type SimulationAsset = {
+  key: string;
+  name: string;
+  value: number;
+  /** Expected annual return as a fraction (0.07 = 7%). */
+  expectedReturn: number;
+  /** Annual standard deviation of returns as a fraction. */
+  volatility: number;
+};
+
+export type SimulationInput = {
+  assets: SimulationAsset[];
+  /** Number of years to simulate. */
+  years: number;
+  /** Years until withdrawals start (0 = already retired). */
+  yearsToRetirement: number;
+  /** Added at the end of each year before retirement, in today's money. */
+  annualContribution: number;
+  /**
+   * Share of the portfolio withdrawn in the first retirement year, then kept
+   * constant in today's money. Ignored when annualWithdrawal is set.
+   */
+  withdrawalRate: number;
+  /** Fixed yearly withdrawal in today's money. */
+  annualWithdrawal?: number | null;
+  /** Expected annual inflation as a fraction. */
+  inflation: number;
+  /** Pairwise correlation between asset class returns (0 to 1). */
+  correlation: number;
+  paths: number;
+  seed: number;
+};
+
+export type SimulationYear = {
+  year: number;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+};
+
+export type SimulationResult = {
+  /** Percentile bands per year in today's money (year 0 = now). */
+  years: SimulationYear[];
+  /** Share of paths that never run out of money. */
+  successProbability: number;
+  /** Median portfolio value when withdrawals start. */
+  medianAtRetirement: number;
+  /** Median first-year withdrawal in today's money. */
+  medianWithdrawal: number;
+};
+
+/** Retirement plan in ages, turned into a simulation by toSimulationInput. */
+export type RetirementAssumptions = {
+  currentAge: number;
+  retirementAge: number;
+  /** Age the money has to last until. */
+  lifeExpectancy: number;
+  annualContribution: number;
+  withdrawalRate: number;
+  annualWithdrawal: number | null;
+  inflation: number;
+  correlation: number;
+  paths: number;
+  seed: number;
+};
+
+export const DEFAULT_SIMULATION_PATHS = 2000;
+export const DEFAULT_SIMULATION_SEED = 42;
+
+// A lifetime; also bounds the memory a simulation takes (years × paths)
+export const MAX_SIMULATION_YEARS = 100;
+
+/**
+ * Long-run class averages used when the user gives no return or volatility
+ * for a category (nominal, annual).
+ */
+export const DEFAULT_CATEGORY_ASSUMPTIONS: Record<
+  string,
+  { expectedReturn: number; volatility: number }
+> = {
+  cash: { expectedReturn: 0.03, volatility: 0.01 },
+  equity: { expectedReturn: 0.07, volatility: 0.16 },
+  fixed_income: { expectedReturn: 0.04, volatility: 0.06 },
+  real_estate: { expectedReturn: 0.05, volatility: 0.12 },
+  commodities: { expectedReturn: 0.04, volatility: 0.18 },
+  cryptocurrency: { expectedReturn: 0.1, volatility: 0.7 },
+  domain: { expectedReturn: 0.02, volatility: 0.3 },
+  other: { expectedReturn: 0.05, volatility: 0.15 },
+};
+
+export const DEFAULT_SIMULATION_ASSUMPTIONS = {
+  inflation: 0.025,
+  withdrawalRate: 0.04,
+  correlation: 0.5,
+  lifeExpectancy: 95,
+};
+
+/**
+ * Deterministic pseudo-random numbers in [0, 1) (mulberry32), so the same
+ * seed always gives the same paths.
+ */
+export function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal draw (Box-Muller)
+function createNormal(random: () => number) {
+  return () => {
+    const u = 1 - random();
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  };
+}
+
+// Value at a percentile of an ascending array (linear interpolation)
+function percentile(sorted: Float64Array, p: number) {
+  if (!sorted.length) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/**
+ * Run a yearly Monte Carlo simulation of a portfolio through accumulation
+ * and retirement.
+ *
+ * Everything is simulated in today's money: returns are deflated by
+ * inflation and contributions and withdrawals stay constant in real terms.
+ * The portfolio is rebalanced to its current mix every year. Asset class
+ * returns share one market factor, which sets their pairwise correlation.
+ * A path succeeds when it still has money left at the end.
+ */
+export function runMonteCarlo(input: SimulationInput): SimulationResult {
+  const years = Math.min(
+    MAX_SIMULATION_YEARS,
+    Math.max(0, Math.round(input.years)),
+  );
+  const paths = Math.max(1, Math.round(input.paths));
+  const yearsToRetirement = Math.max(0, Math.round(input.yearsToRetirement));
+  const correlation = Math.min(1, Math.max(0, input.correlation));
+
+  const startValue = input.assets.reduce((sum, a) => sum + a.value, 0);
+  const weights = input.assets.map((asset) =>
+    startValue > 0 ? asset.value / startValue : 1 / input.assets.length,
+  );
+
+  const normal = createNormal(createRandom(input.seed));
+  const marketLoading = Math.sqrt(correlation);
+  const ownLoading = Math.sqrt(1 - correlation);
+
+  // values[year * paths + path]
+  const values = new Float64Array((years + 1) * paths);
+  const atRetirement = new Float64Array(paths);
+  const withdrawals = new Float64Array(paths);
+  let successes = 0;
+
+  for (let path = 0; path < paths; path++) {
+    let value = startValue;
+    let withdrawal = input.annualWithdrawal ?? null;
+    let depleted = false;
+    values[path] = value;
+
+    if (yearsToRetirement === 0) {
+      atRetirement[path] = value;
+      withdrawal ??= value * input.withdrawalRate;
+      withdrawals[path] = withdrawal;
+    }
+
+    for (let year = 1; year <= years; year++) {
+      if (!depleted) {
+        // Portfolio return for the year
+        const market = normal();
+        let nominalReturn = 0;
+        input.assets.forEach((asset, i) => {
+          const shock = marketLoading * market + ownLoading * normal();
+          nominalReturn +=
+            weights[i] *
+            Math.max(-1, asset.expectedReturn + asset.volatility * shock);
+        });
+        const realReturn = (1 + nominalReturn) / (1 + input.inflation) - 1;
+
+        value *= 1 + realReturn;
+        if (year <= yearsToRetirement) {
+          value += input.annualContribution;
+        } else {
+          value -= withdrawal ?? 0;
+        }
+
+        if (value <= 0) {
+          value = 0;
+          depleted = true;
+        }
+      }
+
+      if (year === yearsToRetirement) {
+        atRetirement[path] = value;
+        withdrawal ??= value * input.withdrawalRate;
+        withdrawals[path] = withdrawal;
+      }
+
+      values[year * paths + path] = value;
+    }
+
+    if (!depleted) successes++;
+  }
+
+  const bands: SimulationYear[] = [];
+  for (let year = 0; year <= years; year++) {
+    const sorted = values.slice(year * paths, (year + 1) * paths).sort();
+    bands.push({
+      year,
+      p10: percentile(sorted, 0.1),
+      p25: percentile(sorted, 0.25),
+      p50: percentile(sorted, 0.5),
+      p75: percentile(sorted, 0.75),
+      p90: percentile(sorted, 0.9),
+    });
+  }
+
+  return {
+    years: bands,
+    successProbability: successes / paths,
+    medianAtRetirement:
+      yearsToRetirement <= years ? percentile(atRetirement.sort(), 0.5) : 0,
+    medianWithdrawal:
+      yearsToRetirement <= years ? percentile(withdrawals.sort(), 0.5) : 0,
+  };
+}
+
+/**
+ * Simulate from today until the life expectancy, with withdrawals starting at
+ * the retirement age.
+ */
+export function toSimulationInput(
+  assets: SimulationAsset[],
+  assumptions: RetirementAssumptions,
+): SimulationInput {
+  return {
+    assets,
+    years: Math.max(0, assumptions.lifeExpectancy - assumptions.currentAge),
+    yearsToRetirement: Math.max(
+      0,
+      assumptions.retirementAge - assumptions.currentAge,
+    ),
+    annualContribution: assumptions.annualContribution,
+    withdrawalRate: assumptions.withdrawalRate,
+    annualWithdrawal: assumptions.annualWithdrawal,
+    inflation: assumptions.inflation,
+    correlation: assumptions.correlation,
+    paths: assumptions.paths,
+    seed: assumptions.seed,
+  };
+}
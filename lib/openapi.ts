@@ -0,0 +1,181 @@
+import { z } from "zod";
+
+import {
+  apiErrorSchema,
+  createPortfolioRecordSchema,
+  portfolioRecordsQuerySchema,
+  positionsQuerySchema,
+  snapshotsQuerySchema,
+  valuationQuerySchema,
+} from "@/lib/api-schemas";
+import {
+  API_RATE_LIMIT_REQUESTS,
+  API_RATE_LIMIT_WINDOW_SECONDS,
+} from "@/lib/api-tokens";
+
+import type { ApiTokenScope } from "@/types/global.types";
+
+export const API_VERSION = "v1";
+
+type JsonSchema = Record<string, unknown>;
+
+type Operation = {
+  method: "get" | "post";
+  path: string;
+  summary: string;
+  scope: ApiTokenScope;
+  query?: z.ZodObject;
+  body?: z.ZodType;
+  pathParams?: string[];
+  /** Status code of a successful response */
+  status?: number;
+};
+
+const OPERATIONS: Operation[] = [
+  {
+    method: "get",
+    path: "/positions",
+    summary: "List positions with their current value",
+    scope: "read",
+    query: positionsQuerySchema,
+  },
+  {
+    method: "get",
+    path: "/positions/{id}/snapshots",
+    summary: "List the value history of a position",
+    scope: "read",
+    query: snapshotsQuerySchema,
+    pathParams: ["id"],
+  },
+  {
+    method: "get",
+    path: "/portfolio-records",
+    summary: "List portfolio records, newest first",
+    scope: "read",
+    query: portfolioRecordsQuerySchema,
+  },
+  {
+    method: "post",
+    path: "/portfolio-records",
+    summary: "Create a portfolio record",
+    scope: "read_write",
+    body: createPortfolioRecordSchema,
+    status: 201,
+  },
+  {
+    method: "get",
+    path: "/net-worth",
+    summary: "Net worth at a date",
+    scope: "read",
+    query: valuationQuerySchema,
+  },
+  {
+    method: "get",
+    path: "/allocation",
+    summary: "Asset allocation by category at a date",
+    scope: "read",
+    query: valuationQuerySchema,
+  },
+];
+
+// Request shapes; OpenAPI 3.1 uses the same JSON Schema dialect
+function toJsonSchema(schema: z.ZodType): JsonSchema {
+  const jsonSchema: JsonSchema = z.toJSONSchema(schema, { io: "input" });
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+function toQueryParameters(schema: z.ZodObject) {
+  const { properties = {}, required = [] } = toJsonSchema(schema) as {
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+  };
+  return Object.entries(properties).map(([name, propertySchema]) => ({
+    name,
+    in: "query",
+    required: required.includes(name),
+    schema: propertySchema,
+  }));
+}
+
+const errorResponse = (description: string) => ({
+  description,
+  content: {
+    "application/json": {
+      schema: { $ref: "#/components/schemas/Error" },
+    },
+  },
+});
+
+function toOperation(operation: Operation) {
+  const parameters = [
+    ...(operation.pathParams ?? []).map((name) => ({
+      name,
+      in: "path",
+      required: true,
+      schema: { type: "string", format: "uuid" },
+    })),
+    ...(operation.query ? toQueryParameters(operation.query) : []),
+  ];
+
+  return {
+    summary: operation.summary,
+    description: `Requires a token with the \`${operation.scope}\` scope.`,
+    ...(parameters.length && { parameters }),
+    ...(operation.body && {
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": { schema: toJsonSchema(operation.body) },
+        },
+      },
+    }),
+    responses: {
+      [operation.status ?? 200]: {
+        description: "Success",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              properties: { data: {} },
+              required: ["data"],
+            },
+          },
+        },
+      },
+      400: errorResponse("Invalid parameters or body"),
+      401: errorResponse("Missing, invalid, expired or revoked token"),
+      403: errorResponse("Token scope doesn't allow this request"),
+      429: errorResponse("Rate limit exceeded"),
+    },
+  };
+}
+
+/**
+ * OpenAPI document of the REST API, generated from the request schemas.
+ */
+export function buildOpenApiDocument(origin: string) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  OPERATIONS.forEach((operation) => {
+    paths[operation.path] ??= {};
+    paths[operation.path][operation.method] = toOperation(operation);
+  });
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Foliofox API",
+      version: API_VERSION,
+      description: `Authenticate with a personal access token. Each token can make ${API_RATE_LIMIT_REQUESTS} requests per ${API_RATE_LIMIT_WINDOW_SECONDS} seconds.`,
+    },
+    servers: [{ url: `${origin}/api/${API_VERSION}` }],
+    security: [{ personalAccessToken: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        personalAccessToken: { type: "http", scheme: "bearer" },
+      },
+      schemas: { Error: toJsonSchema(apiErrorSchema) },
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import { z } from "zod";
+
+import { requiredNumberWithConstraints } from "@/lib/zod-helpers";
+
+import { CASH_RECORD_TYPES } from "@/types/enums";
+
+// Shared by the record forms and the REST API
+
+export const recordDateSchema = z.date({ error: "A date is required." });
+
+export const recordDescriptionSchema = z
+  .string()
+  .max(256, {
+    error: "Description must not exceed 256 characters.",
+  })
+  .optional();
+
+/** Buys and sells. */
+export const tradeRecordSchema = z.object({
+  date: recordDateSchema,
+  quantity: requiredNumberWithConstraints("Quantity is required.", {
+    gt: { value: 0, error: "Quantity must be greater than 0." },
+  }),
+  unit_value: requiredNumberWithConstraints("Unit value is required.", {
+    gt: { value: 0, error: "Value must be greater than 0." },
+  }),
+  description: recordDescriptionSchema,
+});
+
+/** Manual updates of a position's quantity and value. */
+export const updateRecordSchema = z.object({
+  date: recordDateSchema,
+  quantity: requiredNumberWithConstraints("Quantity is required.", {
+    gte: { value: 0, error: "Quantity must be 0 or greater." },
+  }),
+  unit_value: requiredNumberWithConstraints("Unit value is required.", {
+    gte: { value: 0, error: "Value must be 0 or greater." },
+  }),
+  cost_basis_per_unit: z
+    .string()
+    .optional()
+    .refine(
+      (value) =>
+        value === undefined ||
+        value.trim() === "" ||
+        !Number.isNaN(Number(value)),
+      { error: "Cost basis per unit must be a number" },
+    )
+    .refine(
+      (value) =>
+        value === undefined || value.trim() === "" || Number(value) > 0,
+      { error: "Cost basis per unit must be greater than 0" },
+    ),
+  description: recordDescriptionSchema,
+});
+
+/** Cash ledger transactions; cash is held at a unit value of 1. */
+export const cashRecordSchema = z.object({
+  type: z.enum(CASH_RECORD_TYPES, {
+    error: "A transaction type is required.",
+  }),
+  date: recordDateSchema,
+  amount: requiredNumberWithConstraints("Amount is required.", {
+    gt: { value: 0, error: "Amount must be greater than 0." },
+  }),
+  description: recordDescriptionSchema,
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+
+import { getPropertyValuesOnDates } from "./property-valuation";
+
+describe("getPropertyValuesOnDates", () => {
+  it("interpolates between appraisals and holds the last one", () => {
+    const values = getPropertyValuesOnDates(
+      [
+        { date: "2024-01-11", value: 110000 },
+        { date: "2024-01-01", value: 100000 },
+      ],
+      ["2023-12-31", "2024-01-06", "2024-01-11", "2024-02-01"],
+    );
+
+    expect(values.has("2023-12-31")).toBe(false);
+    expect(values.get("2024-01-06")).toBe(105000);
+    expect(values.get("2024-01-11")).toBe(110000);
+    expect(values.get("2024-02-01")).toBe(110000);
+  });
+
+  it("follows the regional index between and after appraisals", () => {
+    const values = getPropertyValuesOnDates(
+      [
+        { date: "2024-01-01", value: 100000 },
+        { date: "2024-03-01", value: 120000 },
+      ],
+      ["2024-01-01", "2024-02-01", "2024-03-01", "2024-04-15"],
+      [
+        { date: "2024-01-01", value: 100 },
+        { date: "2024-02-01", value: 110 },
+        { date: "2024-03-01", value: 110 },
+        { date: "2024-04-01", value: 121 },
+      ],
+    );
+
+    expect(values.get("2024-01-01")).toBe(100000);
+    // 31 of 60 days between 110000 (carried by the index) and 120000
+    expect(values.get("2024-02-01")).toBeCloseTo(115166.67, 2);
+    expect(values.get("2024-03-01")).toBe(120000);
+    expect(values.get("2024-04-15")).toBeCloseTo(132000, 6);
+  });
+});
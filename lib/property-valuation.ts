@@ -0,0 +1,102 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+
+export type PropertyAppraisal = { date: string; value: number };
+export type PropertyIndexPoint = { date: string; value: number };
+
+/**
+ * Lookup key of a property's value on a date (yyyy-MM-dd).
+ */
+export function getPropertyValuationKey(propertyId: string, dateKey: string) {
+  return `${propertyId}|${dateKey}`;
+}
+
+// Level of the index on a date: the latest point on or before it (null if none)
+function getIndexLevel(sortedIndex: PropertyIndexPoint[], dateKey: string) {
+  let low = 0;
+  let high = sortedIndex.length - 1;
+  let level: number | null = null;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (sortedIndex[mid].date <= dateKey) {
+      level = sortedIndex[mid].value;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return level;
+}
+
+/**
+ * Daily values of a property from its appraisals.
+ *
+ * Between two appraisals the value is interpolated linearly. With a regional
+ * index, each appraisal is first carried to the date by the index change and
+ * the two estimates are blended by the same weights, so the curve follows the
+ * index while still hitting every appraisal. After the last appraisal the
+ * value is held flat, or moved with the index when one is available. Dates
+ * before the first appraisal have no value.
+ *
+ * @param appraisals - Appraised values (yyyy-MM-dd dates, any order)
+ * @param dateKeys - Dates to value (yyyy-MM-dd)
+ * @param index - Optional regional index series (yyyy-MM-dd dates, any order)
+ * @returns Map of date key to value
+ */
+export function getPropertyValuesOnDates(
+  appraisals: PropertyAppraisal[],
+  dateKeys: string[],
+  index: PropertyIndexPoint[] = [],
+) {
+  const sortedAppraisals = [...appraisals].sort((a, b) =>
+    a.date.localeCompare(b.date),
+  );
+  const sortedIndex = [...index].sort((a, b) => a.date.localeCompare(b.date));
+  const values = new Map<string, number>();
+
+  // Appraisal value carried to a date by the index change (null without index)
+  const carry = (appraisal: PropertyAppraisal, dateKey: string) => {
+    const from = getIndexLevel(sortedIndex, appraisal.date);
+    const to = getIndexLevel(sortedIndex, dateKey);
+    if (!from || !to) return null;
+    return appraisal.value * (to / from);
+  };
+
+  let nextIndex = 0;
+
+  for (const dateKey of [...dateKeys].sort()) {
+    while (
+      nextIndex < sortedAppraisals.length &&
+      sortedAppraisals[nextIndex].date <= dateKey
+    ) {
+      nextIndex++;
+    }
+
+    const previous = sortedAppraisals[nextIndex - 1];
+    const next = sortedAppraisals[nextIndex];
+    if (!previous) continue;
+
+    const carriedPrevious = carry(previous, dateKey);
+
+    if (!next) {
+      values.set(dateKey, carriedPrevious ?? previous.value);
+      continue;
+    }
+
+    const weight =
+      differenceInCalendarDays(parseISO(dateKey), parseISO(previous.date)) /
+      differenceInCalendarDays(parseISO(next.date), parseISO(previous.date));
+    const carriedNext = carry(next, dateKey);
+
+    // Fall back to plain interpolation when the index does not cover the span
+    const [fromPrevious, fromNext] =
+      carriedPrevious !== null && carriedNext !== null
+        ? [carriedPrevious, carriedNext]
+        : [previous.value, next.value];
+
+    values.set(dateKey, (1 - weight) * fromPrevious + weight * fromNext);
+  }
+
+  return values;
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  buildEmbedCode,
+  deriveAccessToken,
+  hashPassword,
+  hasValidAccessToken,
+  parseCurrencyParam,
+  parseEmbedTheme,
+  parsePerformanceRange,
+  redactPublicAllocation,
+  redactPublicPositions,
+  verifyPassword,
+} from "./public-portfolio";
+
+import type {
+  PublicPortfolioPosition,
+  PublicPortfolioSettings,
+} from "@/types/global.types";
+
+const settings: PublicPortfolioSettings = {
+  showValues: true,
+  showProfitLoss: true,
+  showIncome: true,
+  hiddenPositionIds: [],
+  hiddenCategoryIds: [],
+};
+
+const position = (
+  id: string,
+  category_id: string,
+  value: number,
+): PublicPortfolioPosition =>
+  ({
+    id,
+    category_id,
+    category_name: category_id,
+    value,
+  }) as PublicPortfolioPosition;
+
+describe("redactPublicPositions", () => {
+  it("replaces values with weights when only percentages are shared", () => {
+    const [first, second] = redactPublicPositions(
+      [
+        { ...position("p1", "equity", 300), current_quantity: 3 },
+        position("p2", "cash", 100),
+      ],
+      { ...settings, showValues: false },
+    );
+
+    expect(first.value).toBe(0.75);
+    expect(first.current_quantity).toBe(0);
+    expect(second.value).toBe(0.25);
+  });
+});
+
+describe("redactPublicAllocation", () => {
+  it("keeps values unless only percentages are shared", () => {
+    const allocation = [
+      { category_id: "equity", name: "Equity", total_value: 30 },
+      { category_id: "cash", name: "Cash", total_value: 10 },
+    ];
+
+    expect(redactPublicAllocation(allocation, settings)).toBe(allocation);
+    expect(
+      redactPublicAllocation(allocation, { ...settings, showValues: false }),
+    ).toEqual([
+      { category_id: "equity", name: "Equity", total_value: 0.75 },
+      { category_id: "cash", name: "Cash", total_value: 0.25 },
+    ]);
+  });
+});
+
+describe("password protection", () => {
+  it("verifies the password against its salted hash", () => {
+    const passwordHash = hashPassword("hunter2");
+
+    expect(hashPassword("hunter2")).not.toBe(passwordHash);
+    expect(verifyPassword("hunter2", passwordHash)).toBe(true);
+    expect(verifyPassword("hunter3", passwordHash)).toBe(false);
+  });
+
+  it("invalidates access tokens when the password changes", () => {
+    const passwordHash = hashPassword("hunter2");
+    const token = deriveAccessToken(passwordHash);
+
+    expect(hasValidAccessToken(passwordHash, token)).toBe(true);
+    expect(hasValidAccessToken(hashPassword("hunter2"), token)).toBe(false);
+    expect(hasValidAccessToken(passwordHash, undefined)).toBe(false);
+  });
+});
+
+describe("embed params", () => {
+  it("ignores unexpected values", () => {
+    expect(parseEmbedTheme("dark")).toBe("dark");
+    expect(parseEmbedTheme("sepia")).toBeUndefined();
+    expect(parsePerformanceRange(["3m", "1y"])).toBe("3m");
+    expect(parsePerformanceRange("5y")).toBe("1y");
+    expect(parseCurrencyParam(" EUR ")).toBe("EUR");
+    expect(parseCurrencyParam("eur")).toBeUndefined();
+  });
+
+  it("builds the iframe snippet for a widget", () => {
+    expect(
+      buildEmbedCode(
+        "https://foliofox.com/portfolio/jane",
+        "allocation",
+        "dark",
+      ),
+    ).toContain(
+      'src="https://foliofox.com/portfolio/jane/embed/allocation?theme=dark"',
+    );
+  });
+});
@@ -1,10 +1,18 @@
-import { addDays, addHours } from "date-fns";
-import { randomInt } from "crypto";
+import { addDays, addHours, subMonths, subYears } from "date-fns";
+import {
+  createHash,
+  randomBytes,
+  randomInt,
+  scryptSync,
+  timingSafeEqual,
+} from "crypto";
 
 import type {
   PublicPortfolio,
   PublicPortfolioMetadata,
   PublicPortfolioExpirationOption,
+  PublicPortfolioPosition,
+  PublicPortfolioSettings,
 } from "@/types/global.types";
 
 export const SLUG_PATTERN = /^[a-z0-9]+$/;
@@ -21,6 +29,23 @@ export const PUBLIC_PORTFOLIO_EXPIRATIONS = [
 
 export const FOREVER_EXPIRATION = "infinity";
 
+export const MIN_PASSWORD_LENGTH = 4;
+export const MAX_PASSWORD_LENGTH = 128;
+
+// Visitors who entered the password get a cookie per public portfolio
+export const ACCESS_COOKIE_PREFIX = "portfolio_access_";
+
+// Iframe widgets under /portfolio/[slug]/embed/
+export const EMBED_WIDGETS = ["allocation", "performance"] as const;
+export const EMBED_THEMES = ["light", "dark"] as const;
+
+export const PERFORMANCE_RANGES = ["1m", "3m", "6m", "1y"] as const;
+export const DEFAULT_PERFORMANCE_RANGE = "1y";
+
+export type EmbedWidget = (typeof EMBED_WIDGETS)[number];
+export type EmbedTheme = (typeof EMBED_THEMES)[number];
+export type PerformanceRange = (typeof PERFORMANCE_RANGES)[number];
+
 const RANDOM_CHARS = "abcdefghijklmnopqrstuvwxyz0123456789";
 
 const EXPIRATION_CALCULATORS: Record<
@@ -67,6 +92,61 @@ export function computeExpiration(
   return handler(new Date()).toISOString();
 }
 
+export function getPerformanceStartDate(
+  range: PerformanceRange,
+  endDate = new Date(),
+) {
+  switch (range) {
+    case "1m":
+      return subMonths(endDate, 1);
+    case "3m":
+      return subMonths(endDate, 3);
+    case "6m":
+      return subMonths(endDate, 6);
+    default:
+      return subYears(endDate, 1);
+  }
+}
+
+// Search params of public pages and widgets; anything unexpected is ignored
+const firstParam = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value[0] : value)?.trim();
+
+export function parseCurrencyParam(value: string | string[] | undefined) {
+  const code = firstParam(value);
+  return code && /^[A-Z]{3}$/.test(code) ? code : undefined;
+}
+
+export function parseEmbedTheme(
+  value: string | string[] | undefined,
+): EmbedTheme | undefined {
+  const theme = firstParam(value);
+  return EMBED_THEMES.find((option) => option === theme);
+}
+
+export function parsePerformanceRange(
+  value: string | string[] | undefined,
+): PerformanceRange {
+  const range = firstParam(value);
+  return (
+    PERFORMANCE_RANGES.find((option) => option === range) ??
+    DEFAULT_PERFORMANCE_RANGE
+  );
+}
+
+/**
+ * Iframe snippet for a widget. Without a theme the widget follows the
+ * visitor's color scheme.
+ */
+export function buildEmbedCode(
+  shareUrl: string,
+  widget: EmbedWidget,
+  theme?: EmbedTheme,
+) {
+  const src = `${shareUrl}/embed/${widget}${theme ? `?theme=${theme}` : ""}`;
+  return `<iframe src="${src}" width="100%" height="360" style="border:0" loading="lazy" title="Portfolio ${widget}"></iframe>`;
+}
+
 export function isPortfolioActive(expiresAt: string | null) {
   if (!expiresAt) return false;
   if (expiresAt === FOREVER_EXPIRATION) return true;
@@ -88,5 +168,107 @@ export function toPublicPortfolioMetadata(
     expiresAt,
     isActive: isPortfolioActive(expiresAt),
     neverExpires,
+    isPasswordProtected: row.password_hash !== null,
+    settings: toPublicPortfolioSettings(row),
   };
 }
+
+export function toPublicPortfolioSettings(
+  row: PublicPortfolio,
+): PublicPortfolioSettings {
+  return {
+    showValues: row.show_values,
+    showProfitLoss: row.show_profit_loss,
+    showIncome: row.show_income,
+    hiddenPositionIds: row.hidden_position_ids,
+    hiddenCategoryIds: row.hidden_category_ids,
+  };
+}
+
+/**
+ * Strip what the settings hide before positions reach the browser. With
+ * values hidden, `value` becomes the position's share of the total.
+ */
+export function redactPublicPositions(
+  positions: PublicPortfolioPosition[],
+  settings: PublicPortfolioSettings,
+): PublicPortfolioPosition[] {
+  if (settings.showValues && settings.showProfitLoss) return positions;
+
+  const totalValue = positions.reduce((sum, { value }) => sum + value, 0);
+
+  return positions.map((position) => ({
+    ...position,
+    ...(!settings.showValues && {
+      value: totalValue === 0 ? 0 : position.value / totalValue,
+      current_quantity: 0,
+      current_unit_value: 0,
+      total_value: 0,
+      cost_basis_per_unit: null,
+      total_cost_basis: 0,
+      profit_loss: 0,
+    }),
+    ...(!settings.showProfitLoss && {
+      cost_basis_per_unit: null,
+      total_cost_basis: 0,
+      profit_loss: 0,
+      profit_loss_percentage: 0,
+    }),
+  }));
+}
+
+/**
+ * With values hidden, allocation values become shares of the total.
+ */
+export function redactPublicAllocation<T extends { total_value: number }>(
+  allocation: T[],
+  settings: PublicPortfolioSettings,
+): T[] {
+  if (settings.showValues) return allocation;
+
+  const totalValue = allocation.reduce(
+    (sum, { total_value }) => sum + total_value,
+    0,
+  );
+
+  return allocation.map((item) => ({
+    ...item,
+    total_value: totalValue === 0 ? 0 : item.total_value / totalValue,
+  }));
+}
+
+export function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const hash = scryptSync(password, salt, 64).toString("hex");
+  return `${salt}:${hash}`;
+}
+
+export function verifyPassword(password: string, passwordHash: string) {
+  const [salt, hash] = passwordHash.split(":");
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = scryptSync(password, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Value of the access cookie for a protected portfolio. Derived from the
+ * password hash, so changing the password signs every visitor out.
+ */
+export function deriveAccessToken(passwordHash: string) {
+  return createHash("sha256")
+    .update(`public-portfolio-access:${passwordHash}`)
+    .digest("base64url");
+}
+
+export function hasValidAccessToken(
+  passwordHash: string,
+  token: string | undefined,
+) {
+  if (!token) return false;
+
+  const expected = Buffer.from(deriveAccessToken(passwordHash));
+  const actual = Buffer.from(token);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+
+import { planRebalance } from "./rebalancing";
+
+import type { RebalancingHolding, RebalancingTarget } from "./rebalancing";
+
+const holdings: RebalancingHolding[] = [
+  {
+    positionId: "vti",
+    name: "VTI",
+    categoryId: "equity",
+    sector: null,
+    value: 8000,
+    unitPrice: 200,
+  },
+  {
+    positionId: "bnd",
+    name: "BND",
+    categoryId: "fixed_income",
+    sector: null,
+    value: 2000,
+    unitPrice: 50,
+  },
+  {
+    positionId: "house",
+    name: "House",
+    categoryId: "real_estate",
+    sector: null,
+    value: 300000,
+    unitPrice: 300000,
+  },
+];
+
+const targets: RebalancingTarget[] = [
+  { key: "equity", name: "Equities", weight: 60, tolerance: null },
+  { key: "fixed_income", name: "Bonds", weight: 40, tolerance: null },
+];
+
+describe("planRebalance", () => {
+  it("only buys with new cash in no-sell mode", () => {
+    const plan = planRebalance(holdings, targets, {
+      scope: "category",
+      cash: 1000,
+      noSell: true,
+    });
+
+    expect(plan.rebalanced).toBe(false);
+    expect(plan.total).toBe(11000);
+    expect(plan.untargetedValue).toBe(300000);
+    expect(plan.trades).toEqual([
+      {
+        positionId: "bnd",
+        name: "BND",
+        key: "fixed_income",
+        side: "buy",
+        amount: 1000,
+        quantity: 20,
+        unitPrice: 50,
+      },
+    ]);
+    expect(plan.groups[0].withinBand).toBe(false);
+  });
+
+  it("trades back to target when a band is breached", () => {
+    const plan = planRebalance(holdings, targets, {
+      scope: "category",
+      cash: 0,
+    });
+
+    expect(plan.rebalanced).toBe(true);
+    expect(plan.trades).toEqual([
+      expect.objectContaining({
+        positionId: "vti",
+        side: "sell",
+        quantity: 10,
+      }),
+      expect.objectContaining({ positionId: "bnd", side: "buy", quantity: 40 }),
+    ]);
+    expect(plan.groups.map((g) => g.finalPct)).toEqual([60, 40]);
+  });
+
+  it("leaves allocations inside their bands alone", () => {
+    const plan = planRebalance(
+      holdings,
+      [
+        { key: "equity", name: "Equities", weight: 75, tolerance: 10 },
+        { key: "fixed_income", name: "Bonds", weight: 25, tolerance: 10 },
+      ],
+      { scope: "category", cash: 0 },
+    );
+
+    expect(plan.rebalanced).toBe(false);
+    expect(plan.trades).toEqual([]);
+  });
+});
@@ -0,0 +1,224 @@
+import type { AllocationTargetScope } from "@/types/global.types";
+
+/** A position valued in the plan currency. */
+export type RebalancingHolding = {
+  positionId: string;
+  name: string;
+  categoryId: string;
+  sector: string | null;
+  value: number;
+  unitPrice: number;
+};
+
+/** Target weight in percent; tolerance in percentage points (null = default). */
+export type RebalancingTarget = {
+  key: string;
+  name: string;
+  weight: number;
+  tolerance: number | null;
+};
+
+export type RebalancingOptions = {
+  scope: AllocationTargetScope;
+  /** New cash to invest (0 to only rebalance). */
+  cash: number;
+  /** Only buy with the new cash, never sell. */
+  noSell?: boolean;
+  /** Band used by targets without their own tolerance. */
+  tolerance?: number;
+};
+
+export type RebalancingGroup = {
+  key: string;
+  name: string;
+  currentValue: number;
+  currentPct: number;
+  targetPct: number;
+  tolerance: number;
+  driftPct: number;
+  withinBand: boolean;
+  /** Positive buys, negative sells. */
+  tradeAmount: number;
+  finalValue: number;
+  finalPct: number;
+};
+
+export type RebalancingTrade = {
+  positionId: string;
+  name: string;
+  key: string;
+  side: "buy" | "sell";
+  amount: number;
+  quantity: number;
+  unitPrice: number;
+};
+
+export type RebalancingPlan = {
+  total: number;
+  cash: number;
+  /** True when a band was breached and holdings are traded back to target. */
+  rebalanced: boolean;
+  groups: RebalancingGroup[];
+  trades: RebalancingTrade[];
+  /** Value of holdings no target applies to (left untouched). */
+  untargetedValue: number;
+  /** Cash meant for targets without a holding to buy. */
+  unallocatedCash: number;
+};
+
+export const DEFAULT_REBALANCING_TOLERANCE = 5;
+
+// Trades smaller than a cent are noise
+const MIN_TRADE_AMOUNT = 0.01;
+
+/**
+ * Key of the target a holding counts towards, or null when it has none
+ * (e.g. a position without a sector).
+ */
+export function getHoldingTargetKey(
+  holding: RebalancingHolding,
+  scope: AllocationTargetScope,
+) {
+  switch (scope) {
+    case "category":
+      return holding.categoryId;
+    case "position":
+      return holding.positionId;
+    case "sector":
+      return holding.sector;
+  }
+}
+
+/**
+ * Plan buy/sell trades that move targeted holdings towards their weights.
+ *
+ * New cash goes to underweight targets first. When any target drifts outside
+ * its tolerance band (and selling is allowed), every target is traded back to
+ * its weight. Weights are normalized, so they don't have to add up to 100.
+ * Holdings without a target are neither traded nor counted in the total.
+ */
+export function planRebalance(
+  holdings: RebalancingHolding[],
+  targets: RebalancingTarget[],
+  options: RebalancingOptions,
+): RebalancingPlan {
+  const cash = Math.max(0, options.cash);
+  const defaultTolerance = options.tolerance ?? DEFAULT_REBALANCING_TOLERANCE;
+
+  const activeTargets = targets.filter((target) => target.weight > 0);
+  const weightTotal = activeTargets.reduce((sum, t) => sum + t.weight, 0);
+
+  // Group holdings by target key
+  const holdingsByKey = new Map<string, RebalancingHolding[]>();
+  let untargetedValue = 0;
+  const targetKeys = new Set(activeTargets.map((target) => target.key));
+
+  holdings.forEach((holding) => {
+    const key = getHoldingTargetKey(holding, options.scope);
+    if (key === null || !targetKeys.has(key)) {
+      untargetedValue += holding.value;
+      return;
+    }
+    const group = holdingsByKey.get(key) ?? [];
+    group.push(holding);
+    holdingsByKey.set(key, group);
+  });
+
+  const invested = activeTargets.reduce(
+    (sum, target) => sum + sumValues(holdingsByKey.get(target.key) ?? []),
+    0,
+  );
+  const total = invested + cash;
+
+  const groups: RebalancingGroup[] = activeTargets.map((target) => {
+    const currentValue = sumValues(holdingsByKey.get(target.key) ?? []);
+    const currentPct = invested > 0 ? (currentValue / invested) * 100 : 0;
+    const targetPct = (target.weight / weightTotal) * 100;
+    const tolerance = target.tolerance ?? defaultTolerance;
+    const driftPct = currentPct - targetPct;
+
+    return {
+      key: target.key,
+      name: target.name,
+      currentValue,
+      currentPct,
+      targetPct,
+      tolerance,
+      driftPct,
+      withinBand: Math.abs(driftPct) <= tolerance,
+      tradeAmount: 0,
+      finalValue: currentValue,
+      finalPct: 0,
+    };
+  });
+
+  const rebalanced =
+    !options.noSell && invested > 0 && groups.some((g) => !g.withinBand);
+
+  // Gap to target after the new cash is in
+  const gaps = groups.map((g) => (total * g.targetPct) / 100 - g.currentValue);
+
+  if (rebalanced) {
+    groups.forEach((g, i) => (g.tradeAmount = gaps[i]));
+  } else {
+    // Split the cash over underweight targets by how far they are behind.
+    // The gaps add up to the cash, so underweight gaps cover at least all of it.
+    const deficitTotal = gaps.reduce((sum, gap) => sum + Math.max(0, gap), 0);
+    groups.forEach((g, i) => {
+      g.tradeAmount =
+        deficitTotal > 0 ? (Math.max(0, gaps[i]) / deficitTotal) * cash : 0;
+    });
+  }
+
+  // Turn target amounts into position trades
+  const trades: RebalancingTrade[] = [];
+  let unallocatedCash = 0;
+
+  groups.forEach((g) => {
+    g.finalValue = g.currentValue + g.tradeAmount;
+    g.finalPct = total > 0 ? (g.finalValue / total) * 100 : 0;
+
+    if (Math.abs(g.tradeAmount) < MIN_TRADE_AMOUNT) return;
+
+    const tradable = (holdingsByKey.get(g.key) ?? []).filter(
+      (holding) => holding.unitPrice > 0,
+    );
+    if (!tradable.length) {
+      if (g.tradeAmount > 0) unallocatedCash += g.tradeAmount;
+      return;
+    }
+
+    // Keep the mix inside the target (equal split when nothing is held yet)
+    const groupValue = sumValues(tradable);
+    tradable.forEach((holding) => {
+      const share =
+        groupValue > 0 ? holding.value / groupValue : 1 / tradable.length;
+      const amount = g.tradeAmount * share;
+      if (Math.abs(amount) < MIN_TRADE_AMOUNT) return;
+
+      trades.push({
+        positionId: holding.positionId,
+        name: holding.name,
+        key: g.key,
+        side: amount > 0 ? "buy" : "sell",
+        amount: Math.abs(amount),
+        quantity: Math.abs(amount) / holding.unitPrice,
+        unitPrice: holding.unitPrice,
+      });
+    });
+  });
+
+  return {
+    total,
+    cash,
+    rebalanced,
+    groups,
+    trades,
+    untargetedValue,
+    unallocatedCash,
+  };
+}
+
+function sumValues(holdings: RebalancingHolding[]) {
+  return holdings.reduce((sum, holding) => sum + holding.value, 0);
+}
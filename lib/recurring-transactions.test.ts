@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  getDueDates,
+  getNextDueDate,
+  getOccurrenceQuantity,
+} from "./recurring-transactions";
+
+const schedule = {
+  frequency: "monthly" as const,
+  start_date: "2025-01-31",
+  end_date: null,
+  last_occurrence_date: null,
+};
+
+describe("getDueDates", () => {
+  it("lists month-end dates without drifting", () => {
+    expect(getDueDates(schedule, new Date(2025, 3, 30))).toEqual([
+      "2025-01-31",
+      "2025-02-28",
+      "2025-03-31",
+      "2025-04-30",
+    ]);
+  });
+
+  it("skips generated dates and stops at the end date", () => {
+    expect(
+      getDueDates(
+        {
+          ...schedule,
+          last_occurrence_date: "2025-02-28",
+          end_date: "2025-04-15",
+        },
+        new Date(2025, 11, 31),
+      ),
+    ).toEqual(["2025-03-31"]);
+  });
+});
+
+describe("getNextDueDate", () => {
+  it("returns the date after the last occurrence or null once ended", () => {
+    expect(
+      getNextDueDate({ ...schedule, last_occurrence_date: "2025-03-31" }),
+    ).toBe("2025-04-30");
+    expect(
+      getNextDueDate({
+        ...schedule,
+        last_occurrence_date: "2025-03-31",
+        end_date: "2025-04-15",
+      }),
+    ).toBeNull();
+  });
+});
+
+describe("getOccurrenceQuantity", () => {
+  it("derives the quantity from a fixed amount", () => {
+    expect(getOccurrenceQuantity({ quantity: null, amount: 500 }, 125)).toBe(4);
+    expect(getOccurrenceQuantity({ quantity: 2, amount: null }, null)).toBe(2);
+    expect(
+      getOccurrenceQuantity({ quantity: null, amount: 500 }, null),
+    ).toBeNull();
+  });
+});
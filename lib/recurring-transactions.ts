@@ -0,0 +1,82 @@
+import { format, parseISO } from "date-fns";
+
+import { getPaymentDate } from "@/lib/loan-schedule";
+
+import type { RecurringTransaction } from "@/types/global.types";
+
+type RecurringSchedule = Pick<
+  RecurringTransaction,
+  "frequency" | "start_date" | "end_date" | "last_occurrence_date"
+>;
+
+// Safety cap on occurrences generated for one schedule in a single run
+const MAX_DUE_DATES = 520;
+
+/**
+ * Due dates of a schedule after its last occurrence, up to and including
+ * the as-of date (or the end date, if earlier).
+ */
+export function getDueDates(
+  schedule: RecurringSchedule,
+  asOfDate: Date = new Date(),
+) {
+  const asOfKey = format(asOfDate, "yyyy-MM-dd");
+  const untilKey =
+    schedule.end_date && schedule.end_date < asOfKey
+      ? schedule.end_date
+      : asOfKey;
+  const startDate = parseISO(schedule.start_date);
+
+  const dueDates: string[] = [];
+  for (let index = 0; dueDates.length < MAX_DUE_DATES; index++) {
+    const dateKey = format(
+      getPaymentDate(startDate, schedule.frequency, index),
+      "yyyy-MM-dd",
+    );
+    if (dateKey > untilKey) break;
+    if (
+      schedule.last_occurrence_date &&
+      dateKey <= schedule.last_occurrence_date
+    ) {
+      continue;
+    }
+    dueDates.push(dateKey);
+  }
+
+  return dueDates;
+}
+
+/**
+ * Next date the schedule falls due after its last occurrence, or null when
+ * it has ended.
+ */
+export function getNextDueDate(schedule: RecurringSchedule) {
+  const startDate = parseISO(schedule.start_date);
+
+  for (let index = 0; ; index++) {
+    const dateKey = format(
+      getPaymentDate(startDate, schedule.frequency, index),
+      "yyyy-MM-dd",
+    );
+    if (schedule.end_date && dateKey > schedule.end_date) return null;
+    if (
+      !schedule.last_occurrence_date ||
+      dateKey > schedule.last_occurrence_date
+    ) {
+      return dateKey;
+    }
+  }
+}
+
+/**
+ * Quantity of one occurrence: the fixed quantity, or the fixed amount at the
+ * unit value. Null when an amount has no price to divide by.
+ */
+export function getOccurrenceQuantity(
+  schedule: Pick<RecurringTransaction, "quantity" | "amount">,
+  unitValue: number | null,
+) {
+  if (schedule.quantity !== null) return schedule.quantity;
+  if (schedule.amount === null || !unitValue) return null;
+  return schedule.amount / unitValue;
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateMoneyWeightedReturn,
+  calculateTimeWeightedReturn,
+  calculateTimeWeightedSeries,
+  calculateXirr,
+} from "./returns";
+
+describe("calculateTimeWeightedReturn", () => {
+  it("should ignore deposits when measuring growth", () => {
+    // 1000 grows 10%, then a 1000 deposit, then everything grows 10%
+    const twr = calculateTimeWeightedReturn(
+      [
+        { date: "2024-01-01", value: 1000 },
+        { date: "2024-02-01", value: 1100 },
+        { date: "2024-03-01", value: 2310 },
+      ],
+      [{ date: "2024-03-01", amount: 1000 }],
+    );
+
+    expect(twr).toBeCloseTo(0.21, 10);
+  });
+
+  it("should start measuring once capital is invested", () => {
+    const twr = calculateTimeWeightedReturn(
+      [
+        { date: "2024-01-01", value: 0 },
+        { date: "2024-01-10", value: 550 },
+        { date: "2024-02-01", value: 605 },
+      ],
+      [{ date: "2024-01-10", amount: 500 }],
+    );
+
+    expect(twr).toBeCloseTo(0.21, 10);
+  });
+
+  it("should return null without invested capital", () => {
+    expect(
+      calculateTimeWeightedReturn(
+        [
+          { date: "2024-01-01", value: 0 },
+          { date: "2024-02-01", value: 0 },
+        ],
+        [],
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("calculateTimeWeightedSeries", () => {
+  it("should track growth without jumping on deposits", () => {
+    const series = calculateTimeWeightedSeries(
+      [
+        { date: "2024-01-01", value: 1000 },
+        { date: "2024-02-01", value: 1100 },
+        { date: "2024-03-01", value: 2310 },
+      ],
+      [{ date: "2024-03-01", amount: 1000 }],
+    );
+
+    expect(series[0]).toBe(1);
+    expect(series[1]).toBeCloseTo(1.1, 10);
+    expect(series[2]).toBeCloseTo(1.21, 10);
+  });
+});
+
+describe("calculateXirr", () => {
+  it("should solve a one-year investment", () => {
+    const rate = calculateXirr([
+      { date: "2023-01-01", amount: -1000 },
+      { date: "2024-01-01", amount: 1100 },
+    ]);
+
+    expect(rate).toBeCloseTo(0.1, 6);
+  });
+
+  it("should return null without a sign change", () => {
+    expect(
+      calculateXirr([
+        { date: "2023-01-01", amount: 1000 },
+        { date: "2024-01-01", amount: 1100 },
+      ]),
+    ).toBeNull();
+  });
+});
+
+describe("calculateMoneyWeightedReturn", () => {
+  it("should weight returns by the capital invested", () => {
+    const mwr = calculateMoneyWeightedReturn({
+      startDate: "2023-01-01",
+      endDate: "2025-01-01",
+      startValue: 1000,
+      endValue: 2100,
+      flows: [{ date: "2024-01-01", amount: 1000 }],
+    });
+
+    // Second deposit earned nothing, so MWR is below the first year's 10%
+    expect(mwr).not.toBeNull();
+    expect(mwr!).toBeGreaterThan(0);
+    expect(mwr!).toBeLessThan(0.1);
+  });
+});
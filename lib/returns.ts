@@ -0,0 +1,210 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+
+/** Portfolio value at the end of a day (YYYY-MM-DD). */
+export type ValuePoint = {
+  date: string;
+  value: number;
+};
+
+/**
+ * External cash flow (YYYY-MM-DD).
+ * Positive amounts add money to the portfolio (buys), negative remove it (sells).
+ */
+export type CashFlow = {
+  date: string;
+  amount: number;
+};
+
+const DAYS_PER_YEAR = 365;
+
+/**
+ * Time-weighted return by chain-linking the sub-periods between valuations.
+ * Flows are assumed to happen at the start of their day, so each sub-period
+ * return is V_t / (V_{t-1} + F_t) - 1. Flows dated between two valuations are
+ * attributed to the next valuation.
+ *
+ * @returns Cumulative return as a fraction (0.1 = 10%), or null if no
+ * sub-period had capital invested
+ */
+export function calculateTimeWeightedReturn(
+  values: ValuePoint[],
+  flows: CashFlow[],
+): number | null {
+  const sortedValues = [...values].sort((a, b) => a.date.localeCompare(b.date));
+  const sortedFlows = [...flows].sort((a, b) => a.date.localeCompare(b.date));
+
+  let growth = 1;
+  let hasPeriod = false;
+  let flowIdx = 0;
+
+  // Flows on or before the first valuation are already in its value
+  while (
+    flowIdx < sortedFlows.length &&
+    sortedFlows[flowIdx].date <= (sortedValues[0]?.date ?? "")
+  ) {
+    flowIdx += 1;
+  }
+
+  for (let i = 1; i < sortedValues.length; i += 1) {
+    const { date, value } = sortedValues[i];
+
+    let periodFlow = 0;
+    while (flowIdx < sortedFlows.length && sortedFlows[flowIdx].date <= date) {
+      periodFlow += sortedFlows[flowIdx].amount;
+      flowIdx += 1;
+    }
+
+    const invested = sortedValues[i - 1].value + periodFlow;
+    if (invested <= 0) continue;
+
+    growth *= value / invested;
+    hasPeriod = true;
+  }
+
+  return hasPeriod ? growth - 1 : null;
+}
+
+/**
+ * Growth of 1 invested at the first valuation, at every valuation, chain-linked
+ * like `calculateTimeWeightedReturn` so cash flows don't move the line.
+ * Sub-periods without capital invested keep the previous level.
+ *
+ * @returns Growth factors aligned with the values sorted by date
+ */
+export function calculateTimeWeightedSeries(
+  values: ValuePoint[],
+  flows: CashFlow[],
+): number[] {
+  const sortedValues = [...values].sort((a, b) => a.date.localeCompare(b.date));
+  const sortedFlows = [...flows].sort((a, b) => a.date.localeCompare(b.date));
+
+  const series: number[] = sortedValues.length ? [1] : [];
+  let growth = 1;
+  let flowIdx = 0;
+
+  while (
+    flowIdx < sortedFlows.length &&
+    sortedFlows[flowIdx].date <= (sortedValues[0]?.date ?? "")
+  ) {
+    flowIdx += 1;
+  }
+
+  for (let i = 1; i < sortedValues.length; i += 1) {
+    const { date, value } = sortedValues[i];
+
+    let periodFlow = 0;
+    while (flowIdx < sortedFlows.length && sortedFlows[flowIdx].date <= date) {
+      periodFlow += sortedFlows[flowIdx].amount;
+      flowIdx += 1;
+    }
+
+    const invested = sortedValues[i - 1].value + periodFlow;
+    if (invested > 0) growth *= value / invested;
+    series.push(growth);
+  }
+
+  return series;
+}
+
+/**
+ * Annualized internal rate of return for irregular cash flows (XIRR).
+ * Amounts are from the investor's perspective: money paid in is negative,
+ * money received (including the final value) is positive.
+ *
+ * @returns Annualized rate as a fraction, or null if it cannot be solved
+ */
+export function calculateXirr(cashFlows: CashFlow[]): number | null {
+  const flows = cashFlows.filter((flow) => flow.amount !== 0);
+  if (flows.length < 2) return null;
+
+  const hasPositive = flows.some((flow) => flow.amount > 0);
+  const hasNegative = flows.some((flow) => flow.amount < 0);
+  if (!hasPositive || !hasNegative) return null;
+
+  const firstDate = parseISO(
+    flows.reduce(
+      (min, flow) => (flow.date < min ? flow.date : min),
+      flows[0].date,
+    ),
+  );
+  const points = flows.map((flow) => ({
+    amount: flow.amount,
+    years:
+      differenceInCalendarDays(parseISO(flow.date), firstDate) / DAYS_PER_YEAR,
+  }));
+
+  const npv = (rate: number) =>
+    points.reduce(
+      (sum, point) => sum + point.amount / Math.pow(1 + rate, point.years),
+      0,
+    );
+  const derivative = (rate: number) =>
+    points.reduce(
+      (sum, point) =>
+        sum -
+        (point.years * point.amount) / Math.pow(1 + rate, point.years + 1),
+      0,
+    );
+
+  // Newton-Raphson from a 10% guess
+  let rate = 0.1;
+  for (let i = 0; i < 100; i += 1) {
+    const value = npv(rate);
+    const slope = derivative(rate);
+    if (!Number.isFinite(value) || !Number.isFinite(slope) || slope === 0) {
+      break;
+    }
+
+    const next = rate - value / slope;
+    if (!Number.isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < 1e-10) return next;
+    rate = next;
+  }
+
+  // Fall back to bisection when Newton does not converge
+  let low = -0.9999;
+  let high = 10;
+  let lowValue = npv(low);
+  if (lowValue * npv(high) > 0) return null;
+
+  for (let i = 0; i < 200; i += 1) {
+    const mid = (low + high) / 2;
+    const midValue = npv(mid);
+    if (Math.abs(midValue) < 1e-9) return mid;
+    if (lowValue * midValue < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      lowValue = midValue;
+    }
+  }
+
+  return (low + high) / 2;
+}
+
+/**
+ * Money-weighted return (XIRR) of a holding over a period: the starting
+ * value is treated as an initial investment and the ending value as a
+ * final withdrawal.
+ */
+export function calculateMoneyWeightedReturn({
+  startDate,
+  endDate,
+  startValue,
+  endValue,
+  flows,
+}: {
+  startDate: string;
+  endDate: string;
+  startValue: number;
+  endValue: number;
+  flows: CashFlow[];
+}): number | null {
+  return calculateXirr([
+    { date: startDate, amount: -startValue },
+    ...flows
+      .filter((flow) => flow.date > startDate && flow.date <= endDate)
+      .map((flow) => ({ date: flow.date, amount: -flow.amount })),
+    { date: endDate, amount: endValue },
+  ]);
+}
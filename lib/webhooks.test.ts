@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  generateWebhookSecret,
+  getNextWebhookAttempt,
+  isAllowedWebhookUrl,
+  MAX_WEBHOOK_ATTEMPTS,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from "./webhooks";
+
+describe("isAllowedWebhookUrl", () => {
+  it("only accepts public HTTPS endpoints", () => {
+    expect(isAllowedWebhookUrl("https://hooks.example.com/foliofox")).toBe(
+      true,
+    );
+    expect(isAllowedWebhookUrl("http://hooks.example.com")).toBe(false);
+    expect(isAllowedWebhookUrl("https://localhost:3000")).toBe(false);
+    expect(isAllowedWebhookUrl("https://192.168.1.10/hook")).toBe(false);
+    expect(isAllowedWebhookUrl("https://[::1]/hook")).toBe(false);
+    expect(isAllowedWebhookUrl("not a url")).toBe(false);
+  });
+});
+
+describe("webhook signatures", () => {
+  const secret = generateWebhookSecret();
+  const body = JSON.stringify({ type: "position.created" });
+
+  it("verifies the signature of the exact body", () => {
+    const header = signWebhookPayload(secret, body, 1748779200);
+
+    expect(header).toMatch(/^t=1748779200,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(secret, body, header)).toBe(true);
+    expect(verifyWebhookSignature(secret, `${body} `, header)).toBe(false);
+    expect(verifyWebhookSignature(generateWebhookSecret(), body, header)).toBe(
+      false,
+    );
+  });
+});
+
+describe("getNextWebhookAttempt", () => {
+  const now = new Date("2025-06-01T12:00:00Z");
+
+  it("backs off between attempts and gives up after the last one", () => {
+    expect(getNextWebhookAttempt(1, now)?.toISOString()).toBe(
+      "2025-06-01T12:01:00.000Z",
+    );
+    expect(getNextWebhookAttempt(2, now)?.toISOString()).toBe(
+      "2025-06-01T12:05:00.000Z",
+    );
+    expect(getNextWebhookAttempt(MAX_WEBHOOK_ATTEMPTS, now)).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+import type { WebhookEvent } from "@/types/global.types";
+
+export const WEBHOOK_SECRET_PREFIX = "whsec_";
+export const WEBHOOK_SIGNATURE_HEADER = "Foliofox-Signature";
+export const MAX_WEBHOOK_URL_LENGTH = 2048;
+export const MAX_WEBHOOK_DESCRIPTION_LENGTH = 256;
+
+// Delay before each retry; a delivery gives up after the last one
+export const WEBHOOK_RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720];
+export const MAX_WEBHOOK_ATTEMPTS = WEBHOOK_RETRY_DELAYS_MINUTES.length + 1;
+
+// Stored response bodies are only for debugging
+export const MAX_RESPONSE_BODY_LENGTH = 1024;
+
+export type WebhookPayload = {
+  id: string;
+  type: WebhookEvent;
+  created_at: string;
+  data: Record<string, unknown>;
+};
+
+export function generateWebhookSecret() {
+  return `${WEBHOOK_SECRET_PREFIX}${randomBytes(24).toString("base64url")}`;
+}
+
+const PRIVATE_HOSTNAME =
+  /^(localhost|.*\.local|.*\.internal|127\.\d+\.\d+\.\d+|10\.\d+\.\d+\.\d+|192\.168\.\d+\.\d+|172\.(1[6-9]|2\d|3[01])\.\d+\.\d+|169\.254\.\d+\.\d+|0\.0\.0\.0|\[.*\])$/i;
+
+/**
+ * Endpoints must be public HTTPS URLs; private hosts are refused so
+ * deliveries can't reach internal services.
+ */
+export function isAllowedWebhookUrl(value: string) {
+  if (value.length > MAX_WEBHOOK_URL_LENGTH) return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" && !PRIVATE_HOSTNAME.test(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Signature header value: `t=<unix seconds>,v1=<hex HMAC-SHA256>` of
+ * `<timestamp>.<body>`, so receivers can reject replayed requests.
+ */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp = Math.floor(Date.now() / 1000),
+) {
+  const signature = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+) {
+  const timestamp = Number(header.match(/(?:^|,)t=(\d+)/)?.[1]);
+  if (!Number.isFinite(timestamp)) return false;
+
+  const expected = Buffer.from(signWebhookPayload(secret, body, timestamp));
+  const received = Buffer.from(header);
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+/**
+ * When to retry a delivery that failed its `attempts`-th attempt, or null
+ * once it runs out of attempts.
+ */
+export function getNextWebhookAttempt(attempts: number, now = new Date()) {
+  const delayMinutes = WEBHOOK_RETRY_DELAYS_MINUTES[attempts - 1];
+  if (delayMinutes === undefined) return null;
+  return new Date(now.getTime() + delayMinutes * 60_000);
+}
@@ -3,6 +3,10 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   cacheComponents: true,
   reactCompiler: true,
+  experimental: {
+    // Account archives are restored through a server action
+    serverActions: { bodySizeLimit: "25mb" },
+  },
   ...(process.env.DOCKER_BUILD === "true" && { output: "standalone" }),
 };
 
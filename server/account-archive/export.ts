@@ -0,0 +1,317 @@
+"use server";
+
+import { getCurrentUser } from "@/server/auth/actions";
+
+import {
+  ACCOUNT_ARCHIVE_FORMAT,
+  ACCOUNT_ARCHIVE_VERSION,
+  type AccountArchive,
+} from "@/lib/account-archive";
+
+import type { PostgrestError } from "@supabase/supabase-js";
+
+// Stays under the API's default row limit
+const PAGE_SIZE = 1000;
+
+async function fetchAllRows<T>(
+  fetchPage: (
+    from: number,
+    to: number,
+  ) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>,
+) {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Export the user's own account as a versioned JSON archive that
+ * `restoreAccountArchive` can rebuild in an empty account, on this or
+ * another instance.
+ */
+export async function exportAccountArchive(): Promise<
+  { success: true; data: string } | { success: false; message: string }
+> {
+  try {
+    const { supabase, user } = await getCurrentUser();
+    const userId = user.id;
+
+    const [
+      profileResult,
+      financialProfileResult,
+      accountsResult,
+      positionsResult,
+      publicPortfolioResult,
+    ] = await Promise.all([
+      supabase
+        .from("profiles")
+        .select(
+          "username, display_currency, cost_basis_method, data_sharing_consent",
+        )
+        .eq("user_id", userId)
+        .single(),
+      supabase
+        .from("financial_profiles")
+        .select(
+          "age_band, income_amount, income_currency, risk_preference, about",
+        )
+        .eq("user_id", userId)
+        .maybeSingle(),
+      supabase
+        .from("accounts")
+        .select(
+          "id, name, currency, institution, tax_wrapper, description, created_at",
+        )
+        .eq("user_id", userId)
+        .order("created_at", { ascending: true }),
+      supabase
+        .from("positions")
+        .select(
+          "id, type, name, currency, category_id, description, symbol_id, domain_id, account_id, wallet_chain, wallet_address, property_id, archived_at, created_at",
+        )
+        .eq("user_id", userId)
+        .order("created_at", { ascending: true }),
+      supabase
+        .from("public_portfolios")
+        .select(
+          "slug, expires_at, password_hash, show_values, show_profit_loss, show_income, hidden_position_ids, hidden_category_ids",
+        )
+        .eq("user_id", userId)
+        .maybeSingle(),
+    ]);
+
+    for (const { error } of [
+      profileResult,
+      financialProfileResult,
+      accountsResult,
+      positionsResult,
+      publicPortfolioResult,
+    ]) {
+      if (error) throw new Error(error.message);
+    }
+
+    if (!profileResult.data) throw new Error("Profile not found");
+
+    const positions = positionsResult.data ?? [];
+
+    const [
+      records,
+      snapshots,
+      lotSelections,
+      properties,
+      propertyIndexValues,
+      loans,
+      recurringTransactions,
+      pendingOccurrences,
+      conversations,
+      messages,
+    ] = await Promise.all([
+      fetchAllRows((from, to) =>
+        supabase
+          .from("portfolio_records")
+          .select(
+            "id, position_id, type, date, quantity, unit_value, description, trade_record_id, import_fingerprint, created_at",
+          )
+          .eq("user_id", userId)
+          .order("id")
+          .range(from, to),
+      ),
+      // Opening snapshots and the cost basis of UPDATE records; the rest
+      // is rebuilt on restore
+      fetchAllRows((from, to) =>
+        supabase
+          .from("position_snapshots")
+          .select(
+            "position_id, portfolio_record_id, date, quantity, unit_value, cost_basis_per_unit",
+          )
+          .eq("user_id", userId)
+          .is("loan_id", null)
+          .order("id")
+          .range(from, to),
+      ),
+      fetchAllRows((from, to) =>
+        supabase
+          .from("lot_selections")
+          .select("portfolio_record_id, lot_record_id, quantity")
+          .eq("user_id", userId)
+          .order("id")
+          .range(from, to),
+      ),
+      fetchAllRows((from, to) =>
+        supabase
+          .from("properties")
+          .select(
+            "id, address, region, created_at, property_appraisals (date, value, description)",
+          )
+          .eq("user_id", userId)
+          .order("id")
+          .range(from, to),
+      ),
+      fetchAllRows((from, to) =>
+        supabase
+          .from("property_index_values")
+          .select("region, date, value")
+          .eq("user_id", userId)
+          .order("region")
+          .order("date")
+          .range(from, to),
+      ),
+      fetchAllRows((from, to) =>
+        supabase
+          .from("loans")
+          .select(
+            "position_id, principal, annual_interest_rate, term_months, payment_frequency, start_date, recurring_extra_payment, created_at, loan_extra_payments (date, amount)",
+          )
+          .eq("user_id", userId)
+          .order("id")
+          .range(from, to),
+      ),
+      fetchAllRows((from, to) =>
+        supabase
+          .from("recurring_transactions")
+          .select(
+            "id, position_id, type, frequency, start_date, end_date, quantity, amount, unit_value, settlement_position_id, description, auto_confirm, is_active, last_occurrence_date, created_at",
+          )
+          .eq("user_id", userId)
+          .order("id")
+          .range(from, to),
+      ),
+      // Confirmed and skipped occurrences live on as records (or not at all)
+      fetchAllRows((from, to) =>
+        supabase
+          .from("recurring_occurrences")
+          .select("recurring_transaction_id, due_date, quantity, unit_value")
+          .eq("user_id", userId)
+          .eq("status", "pending")
+          .order("id")
+          .range(from, to),
+      ),
+      fetchAllRows((from, to) =>
+        supabase
+          .from("conversations")
+          .select("id, title, created_at, updated_at")
+          .eq("user_id", userId)
+          .order("id")
+          .range(from, to),
+      ),
+      fetchAllRows((from, to) =>
+        supabase
+          .from("conversation_messages")
+          .select(
+            "conversation_id, role, content, parts, model, order, usage_tokens, created_at",
+          )
+          .eq("user_id", userId)
+          .order("id")
+          .range(from, to),
+      ),
+    ]);
+
+    // Symbols are shared between users; export the ones positions use
+    const symbolIds = Array.from(
+      new Set(positions.flatMap((p) => (p.symbol_id ? [p.symbol_id] : []))),
+    );
+    const { data: symbols, error: symbolsError } = symbolIds.length
+      ? await supabase
+          .from("symbols")
+          .select(
+            "id, ticker, currency, quote_type, exchange, short_name, long_name, sector, industry, symbol_aliases (type, value, source, is_primary, effective_from, effective_to)",
+          )
+          .in("id", symbolIds)
+      : { data: [], error: null };
+
+    if (symbolsError) throw new Error(symbolsError.message);
+
+    const updateRecordIds = new Set(
+      records
+        .filter((record) => record.type === "update")
+        .map((record) => record.id),
+    );
+    const costBasisByRecordId = new Map(
+      snapshots.flatMap((snapshot) =>
+        snapshot.portfolio_record_id &&
+        updateRecordIds.has(snapshot.portfolio_record_id)
+          ? [[snapshot.portfolio_record_id, snapshot.cost_basis_per_unit]]
+          : [],
+      ),
+    );
+
+    const archive: AccountArchive = {
+      format: ACCOUNT_ARCHIVE_FORMAT,
+      version: ACCOUNT_ARCHIVE_VERSION,
+      exported_at: new Date().toISOString(),
+      profile: profileResult.data,
+      financial_profile: financialProfileResult.data,
+      accounts: accountsResult.data ?? [],
+      symbols: (symbols ?? []).map(({ symbol_aliases, ...symbol }) => ({
+        ...symbol,
+        aliases: symbol_aliases,
+      })),
+      positions,
+      opening_snapshots: snapshots
+        .filter((snapshot) => !snapshot.portfolio_record_id)
+        .map((snapshot) => ({
+          position_id: snapshot.position_id,
+          date: snapshot.date,
+          quantity: snapshot.quantity,
+          unit_value: snapshot.unit_value,
+          cost_basis_per_unit: snapshot.cost_basis_per_unit,
+        })),
+      portfolio_records: records.map((record) => ({
+        ...record,
+        cost_basis_per_unit: costBasisByRecordId.get(record.id) ?? null,
+      })),
+      lot_selections: lotSelections,
+      properties: properties.map(({ property_appraisals, ...property }) => ({
+        ...property,
+        appraisals: property_appraisals,
+      })),
+      property_index_values: propertyIndexValues,
+      loans: loans.map(({ loan_extra_payments, ...loan }) => ({
+        ...loan,
+        extra_payments: loan_extra_payments,
+      })),
+      recurring_transactions: recurringTransactions.map(
+        ({ id, ...schedule }) => ({
+          ...schedule,
+          pending_occurrences: pendingOccurrences
+            .filter((occurrence) => occurrence.recurring_transaction_id === id)
+            .map(({ due_date, quantity, unit_value }) => ({
+              due_date,
+              quantity,
+              unit_value,
+            })),
+        }),
+      ),
+      public_portfolio: publicPortfolioResult.data,
+      conversations: conversations.map((conversation) => ({
+        ...conversation,
+        messages: messages
+          .filter((message) => message.conversation_id === conversation.id)
+          .sort((a, b) => a.order - b.order)
+          .map((message) => ({
+            role: message.role,
+            content: message.content,
+            parts: message.parts,
+            model: message.model,
+            order: message.order,
+            usage_tokens: message.usage_tokens,
+            created_at: message.created_at,
+          })),
+      })),
+    };
+
+    return { success: true, data: JSON.stringify(archive, null, 2) } as const;
+  } catch (error) {
+    console.error("Error exporting account:", error);
+    return {
+      success: false,
+      message:
+        error instanceof Error ? error.message : "Failed to export account",
+    } as const;
+  }
+}
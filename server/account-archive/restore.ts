@@ -0,0 +1,520 @@
+"use server";
+
+import { randomUUID } from "crypto";
+import { revalidatePath } from "next/cache";
+
+import { createServiceClient } from "@/supabase/service";
+
+import { getCurrentUser } from "@/server/auth/actions";
+import { recalculateSnapshotsUntilNextUpdate } from "@/server/position-snapshots/recalculate";
+import { syncLoanSnapshots } from "@/server/loans/schedule";
+import { createSymbol } from "@/server/symbols/create";
+import {
+  addSymbolAliases,
+  resolveSymbolInput,
+} from "@/server/symbols/resolver";
+
+import {
+  getRecalculationDates,
+  parseAccountArchive,
+  type AccountArchive,
+} from "@/lib/account-archive";
+import {
+  buildSlugCandidate,
+  UNIQUE_VIOLATION_CODE,
+} from "@/lib/public-portfolio";
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/types/database.types";
+
+type Client = SupabaseClient<Database>;
+
+// Ids of the rows a restore created, to remove them if it fails
+type RestoredRows = {
+  accountIds: string[];
+  propertyIds: string[];
+  positionIds: string[];
+  conversationIds: string[];
+  publicPortfolio: boolean;
+};
+
+// Rows per insert request
+const INSERT_CHUNK_SIZE = 500;
+
+async function insertInChunks<T>(
+  insert: (rows: T[]) => PromiseLike<{ error: { message: string } | null }>,
+  rows: T[],
+) {
+  for (let start = 0; start < rows.length; start += INSERT_CHUNK_SIZE) {
+    const { error } = await insert(
+      rows.slice(start, start + INSERT_CHUNK_SIZE),
+    );
+    if (error) throw new Error(error.message);
+  }
+}
+
+// New id for every exported id, so restoring never collides with the rows
+// the archive was exported from
+function createIdMap(rows: { id: string }[]) {
+  return new Map(rows.map((row) => [row.id, randomUUID()]));
+}
+
+function mapId(ids: Map<string, string>, id: string): string;
+function mapId(ids: Map<string, string>, id: string | null): string | null;
+function mapId(ids: Map<string, string>, id: string | null) {
+  if (id === null) return null;
+  const mapped = ids.get(id);
+  if (!mapped) throw new Error(`Archive references unknown id ${id}`);
+  return mapped;
+}
+
+/**
+ * Resolve archived symbols by ticker on this instance, creating missing ones
+ * from market data like a position import does, then add the archived
+ * aliases no symbol uses yet. Archived symbol rows are never written:
+ * symbols are shared by every user. Returns exported symbol id → symbol id
+ * on this instance.
+ */
+async function restoreSymbols(symbols: AccountArchive["symbols"]) {
+  const symbolIds = new Map<string, string>();
+
+  for (const { id, ticker, aliases } of symbols) {
+    let resolved = await resolveSymbolInput(ticker);
+    if (!resolved?.symbol?.id) {
+      const creationResult = await createSymbol(ticker);
+      if (!creationResult.success) {
+        throw new Error(
+          `Failed to restore symbol ${ticker}: ${creationResult.message}`,
+        );
+      }
+
+      resolved = await resolveSymbolInput(ticker);
+      if (!resolved?.symbol?.id) {
+        throw new Error(`Unable to resolve symbol ${ticker} after creation`);
+      }
+    }
+
+    // The primary alias stays the one this instance resolved or created
+    await addSymbolAliases(
+      resolved.symbol.id,
+      aliases
+        .filter((alias) => !alias.is_primary)
+        .map(({ type, value, source, effective_from, effective_to }) => ({
+          type,
+          value,
+          source,
+          effective_from,
+          effective_to,
+        })),
+    );
+
+    symbolIds.set(id, resolved.symbol.id);
+  }
+
+  return symbolIds;
+}
+
+async function restoreProperties(
+  supabase: Client,
+  userId: string,
+  archive: AccountArchive,
+  restored: RestoredRows,
+) {
+  const propertyIds = createIdMap(archive.properties);
+  restored.propertyIds.push(...propertyIds.values());
+
+  await insertInChunks(
+    (rows) => supabase.from("properties").insert(rows),
+    archive.properties.map((property) => ({
+      id: mapId(propertyIds, property.id),
+      user_id: userId,
+      address: property.address,
+      region: property.region,
+      created_at: property.created_at,
+    })),
+  );
+  await insertInChunks(
+    (rows) => supabase.from("property_appraisals").insert(rows),
+    archive.properties.flatMap((property) =>
+      property.appraisals.map((appraisal) => ({
+        ...appraisal,
+        user_id: userId,
+        property_id: mapId(propertyIds, property.id),
+      })),
+    ),
+  );
+
+  // Index series may already exist for the account; archived points win
+  await insertInChunks(
+    (rows) =>
+      supabase
+        .from("property_index_values")
+        .upsert(rows, { onConflict: "user_id,region,date" }),
+    archive.property_index_values.map((point) => ({
+      ...point,
+      user_id: userId,
+    })),
+  );
+
+  return propertyIds;
+}
+
+async function restoreLoans(
+  supabase: Client,
+  userId: string,
+  loans: AccountArchive["loans"],
+  positionIds: Map<string, string>,
+) {
+  for (const { extra_payments, ...loan } of loans) {
+    const positionId = mapId(positionIds, loan.position_id);
+
+    const { data: inserted, error } = await supabase
+      .from("loans")
+      .insert({ ...loan, user_id: userId, position_id: positionId })
+      .select("id")
+      .single();
+    if (error || !inserted) {
+      throw new Error(error?.message ?? "Failed to restore a loan");
+    }
+
+    await insertInChunks(
+      (rows) => supabase.from("loan_extra_payments").insert(rows),
+      extra_payments.map((payment) => ({
+        ...payment,
+        user_id: userId,
+        loan_id: inserted.id,
+      })),
+    );
+
+    // Schedule-driven snapshots are generated, not archived
+    const syncResult = await syncLoanSnapshots(positionId);
+    if (!syncResult.success) throw new Error(syncResult.message);
+  }
+}
+
+async function restoreRecurringTransactions(
+  supabase: Client,
+  userId: string,
+  recurringTransactions: AccountArchive["recurring_transactions"],
+  positionIds: Map<string, string>,
+) {
+  const serviceClient = createServiceClient();
+
+  for (const { pending_occurrences, ...schedule } of recurringTransactions) {
+    const { data: inserted, error } = await supabase
+      .from("recurring_transactions")
+      .insert({
+        ...schedule,
+        user_id: userId,
+        position_id: mapId(positionIds, schedule.position_id),
+        settlement_position_id: mapId(
+          positionIds,
+          schedule.settlement_position_id,
+        ),
+      })
+      .select("id")
+      .single();
+    if (error || !inserted) {
+      throw new Error(
+        error?.message ?? "Failed to restore a recurring transaction",
+      );
+    }
+
+    // Users can't insert occurrences, they're generated server-side
+    await insertInChunks(
+      (rows) => serviceClient.from("recurring_occurrences").insert(rows),
+      pending_occurrences.map((occurrence) => ({
+        ...occurrence,
+        user_id: userId,
+        recurring_transaction_id: inserted.id,
+      })),
+    );
+  }
+}
+
+async function restorePublicPortfolio(
+  supabase: Client,
+  userId: string,
+  publicPortfolio: NonNullable<AccountArchive["public_portfolio"]>,
+  positionIds: Map<string, string>,
+) {
+  const { slug, hidden_position_ids, ...settings } = publicPortfolio;
+
+  // Keep a link the account already shares
+  const { data: existing, error: existingError } = await supabase
+    .from("public_portfolios")
+    .select("id")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (existingError) throw new Error(existingError.message);
+  if (existing) return false;
+
+  // The slug may be taken on this instance
+  for (let attempt = 0; attempt < 6; attempt += 1) {
+    const { error } = await supabase.from("public_portfolios").insert({
+      ...settings,
+      user_id: userId,
+      slug: buildSlugCandidate(slug, attempt),
+      hidden_position_ids: hidden_position_ids.flatMap((id) => {
+        const mapped = positionIds.get(id);
+        return mapped ? [mapped] : [];
+      }),
+    });
+
+    if (!error) return true;
+    if (error.code !== UNIQUE_VIOLATION_CODE) throw new Error(error.message);
+  }
+
+  throw new Error("Unable to restore the public portfolio link");
+}
+
+async function restoreArchive(
+  supabase: Client,
+  userId: string,
+  archive: AccountArchive,
+  restored: RestoredRows,
+) {
+  // 1) Profile settings (the username stays as is)
+  const { display_currency, cost_basis_method, data_sharing_consent } =
+    archive.profile;
+  const { error: profileError } = await supabase
+    .from("profiles")
+    .update({ display_currency, cost_basis_method, data_sharing_consent })
+    .eq("user_id", userId);
+  if (profileError) throw new Error(profileError.message);
+
+  if (archive.financial_profile) {
+    const { error } = await supabase
+      .from("financial_profiles")
+      .upsert(
+        { ...archive.financial_profile, user_id: userId },
+        { onConflict: "user_id" },
+      );
+    if (error) throw new Error(error.message);
+  }
+
+  // 2) Accounts, symbols, properties and positions
+  const accountIds = createIdMap(archive.accounts);
+  restored.accountIds.push(...accountIds.values());
+  await insertInChunks(
+    (rows) => supabase.from("accounts").insert(rows),
+    archive.accounts.map((account) => ({
+      ...account,
+      id: mapId(accountIds, account.id),
+      user_id: userId,
+    })),
+  );
+
+  const symbolIds = await restoreSymbols(archive.symbols);
+  const propertyIds = await restoreProperties(
+    supabase,
+    userId,
+    archive,
+    restored,
+  );
+
+  const positionIds = createIdMap(archive.positions);
+  restored.positionIds.push(...positionIds.values());
+  await insertInChunks(
+    (rows) => supabase.from("positions").insert(rows),
+    archive.positions.map((position) => ({
+      ...position,
+      id: mapId(positionIds, position.id),
+      user_id: userId,
+      symbol_id: mapId(symbolIds, position.symbol_id),
+      account_id: mapId(accountIds, position.account_id),
+      property_id: mapId(propertyIds, position.property_id),
+    })),
+  );
+
+  // 3) Opening snapshots, then records (trades before their settlements)
+  await insertInChunks(
+    (rows) => supabase.from("position_snapshots").insert(rows),
+    archive.opening_snapshots.map((snapshot) => ({
+      ...snapshot,
+      user_id: userId,
+      position_id: mapId(positionIds, snapshot.position_id),
+    })),
+  );
+
+  const recordIds = createIdMap(archive.portfolio_records);
+  const records = archive.portfolio_records.map((record) => ({
+    id: mapId(recordIds, record.id),
+    user_id: userId,
+    position_id: mapId(positionIds, record.position_id),
+    type: record.type,
+    date: record.date,
+    quantity: record.quantity,
+    unit_value: record.unit_value,
+    description: record.description,
+    trade_record_id: mapId(recordIds, record.trade_record_id),
+    import_fingerprint: record.import_fingerprint,
+    created_at: record.created_at,
+  }));
+  await insertInChunks(
+    (rows) => supabase.from("portfolio_records").insert(rows),
+    [
+      ...records.filter((record) => !record.trade_record_id),
+      ...records.filter((record) => record.trade_record_id),
+    ],
+  );
+
+  await insertInChunks(
+    (rows) => supabase.from("lot_selections").insert(rows),
+    archive.lot_selections.map((selection) => ({
+      ...selection,
+      user_id: userId,
+      portfolio_record_id: mapId(recordIds, selection.portfolio_record_id),
+      lot_record_id: mapId(recordIds, selection.lot_record_id),
+    })),
+  );
+
+  // 4) Rebuild snapshots (and realized gains) from the records
+  for (const [exportedPositionId, positionId] of positionIds) {
+    const positionRecords = archive.portfolio_records.filter(
+      (record) => record.position_id === exportedPositionId,
+    );
+    const customCostBasisByRecordId = Object.fromEntries(
+      positionRecords
+        .filter((record) => record.type === "update")
+        .map((record) => [
+          mapId(recordIds, record.id),
+          record.cost_basis_per_unit,
+        ]),
+    );
+
+    for (const date of getRecalculationDates(positionRecords)) {
+      const result = await recalculateSnapshotsUntilNextUpdate({
+        positionId,
+        fromDate: new Date(date),
+        customCostBasisByRecordId,
+      });
+      if (!result.success) {
+        throw new Error("Failed to rebuild the position history");
+      }
+    }
+  }
+
+  // 5) Loans (regenerating their balance history) and recurring schedules
+  await restoreLoans(supabase, userId, archive.loans, positionIds);
+  await restoreRecurringTransactions(
+    supabase,
+    userId,
+    archive.recurring_transactions,
+    positionIds,
+  );
+
+  // 6) Public portfolio settings and AI conversations
+  if (archive.public_portfolio) {
+    restored.publicPortfolio = await restorePublicPortfolio(
+      supabase,
+      userId,
+      archive.public_portfolio,
+      positionIds,
+    );
+  }
+
+  const conversationIds = createIdMap(archive.conversations);
+  restored.conversationIds.push(...conversationIds.values());
+  await insertInChunks(
+    (rows) => supabase.from("conversations").insert(rows),
+    archive.conversations.map((conversation) => ({
+      id: mapId(conversationIds, conversation.id),
+      user_id: userId,
+      title: conversation.title,
+      created_at: conversation.created_at,
+      updated_at: conversation.updated_at,
+    })),
+  );
+  await insertInChunks(
+    (rows) => supabase.from("conversation_messages").insert(rows),
+    archive.conversations.flatMap((conversation) =>
+      conversation.messages.map((message) => ({
+        ...message,
+        user_id: userId,
+        conversation_id: mapId(conversationIds, conversation.id),
+      })),
+    ),
+  );
+}
+
+/**
+ * Restore an archive from `exportAccountArchive` into the user's own
+ * account, which must not have positions yet. Rows get new ids; position
+ * snapshots are rebuilt from the records and loan schedules. A failed
+ * restore removes what it added, except profile settings, symbol aliases
+ * and property index series.
+ */
+export async function restoreAccountArchive(content: string) {
+  const { supabase, user } = await getCurrentUser();
+
+  const parsed = parseAccountArchive(content);
+  if (!parsed.ok) {
+    return {
+      success: false,
+      code: "INVALID_ARCHIVE",
+      message: parsed.message,
+    } as const;
+  }
+
+  const { count, error: countError } = await supabase
+    .from("positions")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", user.id);
+
+  if (countError) {
+    return {
+      success: false,
+      code: countError.code,
+      message: countError.message,
+    } as const;
+  }
+  if (count) {
+    return {
+      success: false,
+      code: "ACCOUNT_NOT_EMPTY",
+      message:
+        "Archives can only be restored into an account without positions",
+    } as const;
+  }
+
+  const { archive } = parsed;
+  const restored: RestoredRows = {
+    accountIds: [],
+    propertyIds: [],
+    positionIds: [],
+    conversationIds: [],
+    publicPortfolio: false,
+  };
+
+  try {
+    await restoreArchive(supabase, user.id, archive, restored);
+  } catch (error) {
+    // Positions take their records, snapshots, loans and recurring
+    // schedules with them; properties their appraisals
+    await supabase.from("positions").delete().in("id", restored.positionIds);
+    await supabase.from("properties").delete().in("id", restored.propertyIds);
+    await supabase.from("accounts").delete().in("id", restored.accountIds);
+    await supabase
+      .from("conversations")
+      .delete()
+      .in("id", restored.conversationIds);
+    if (restored.publicPortfolio) {
+      await supabase.from("public_portfolios").delete().eq("user_id", user.id);
+    }
+
+    return {
+      success: false,
+      code: "RESTORE_FAILED",
+      message: error instanceof Error ? error.message : "Failed to restore",
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return {
+    success: true,
+    positionCount: archive.positions.length,
+    recordCount: archive.portfolio_records.length,
+    conversationCount: archive.conversations.length,
+  } as const;
+}
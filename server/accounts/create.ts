@@ -0,0 +1,49 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { VIEW_ONLY_MESSAGE } from "@/server/portfolio-members/utils";
+import { parseAccountFormData } from "@/server/accounts/utils";
+
+/**
+ * Create an account.
+ */
+export async function createAccount(formData: FormData) {
+  const { supabase, ownerId, access } = await getActivePortfolio();
+
+  if (access === "viewer") {
+    return {
+      success: false,
+      code: "READ_ONLY",
+      message: VIEW_ONLY_MESSAGE,
+    } as const;
+  }
+
+  const parsed = parseAccountFormData(formData);
+  if (!parsed.ok) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      message: parsed.message,
+    } as const;
+  }
+
+  const { error } = await supabase
+    .from("accounts")
+    .insert({ user_id: ownerId, ...parsed.values });
+
+  if (error) {
+    return {
+      success: false,
+      code: error.code,
+      message:
+        error.code === "23505"
+          ? `An account named "${parsed.values.name}" already exists.`
+          : error.message,
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
@@ -0,0 +1,38 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { VIEW_ONLY_MESSAGE } from "@/server/portfolio-members/utils";
+
+/**
+ * Delete an account. Its positions are kept and become unassigned.
+ */
+export async function deleteAccount(accountId: string) {
+  const { supabase, ownerId, access } = await getActivePortfolio();
+
+  if (access === "viewer") {
+    return {
+      success: false,
+      code: "READ_ONLY",
+      message: VIEW_ONLY_MESSAGE,
+    } as const;
+  }
+
+  const { error } = await supabase
+    .from("accounts")
+    .delete()
+    .eq("id", accountId)
+    .eq("user_id", ownerId);
+
+  if (error) {
+    return {
+      success: false,
+      code: error.code,
+      message: error.message,
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
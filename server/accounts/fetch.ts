@@ -0,0 +1,41 @@
+"use server";
+
+import { cache } from "react";
+import { cookies } from "next/headers";
+
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { ACCOUNT_FILTER_COOKIE } from "@/server/accounts/utils";
+
+/**
+ * Fetch the accounts of the portfolio being viewed, alphabetically.
+ */
+export const fetchAccounts = cache(async () => {
+  const { supabase, ownerId } = await getActivePortfolio();
+
+  const { data: accounts, error } = await supabase
+    .from("accounts")
+    .select("*")
+    .eq("user_id", ownerId)
+    .order("name", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch accounts: ${error.message}`);
+  }
+
+  return accounts;
+});
+
+/**
+ * The account the dashboard is filtered by, or null for the consolidated
+ * view. Stale selections (e.g. a deleted account) fall back to null.
+ */
+export const fetchSelectedAccountId = cache(async () => {
+  const cookieStore = await cookies();
+  const accountId = cookieStore.get(ACCOUNT_FILTER_COOKIE)?.value;
+  if (!accountId) return null;
+
+  const accounts = await fetchAccounts();
+  return accounts.some((account) => account.id === accountId)
+    ? accountId
+    : null;
+});
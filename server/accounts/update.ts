@@ -0,0 +1,77 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { cookies } from "next/headers";
+
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { VIEW_ONLY_MESSAGE } from "@/server/portfolio-members/utils";
+import {
+  ACCOUNT_FILTER_COOKIE,
+  parseAccountFormData,
+} from "@/server/accounts/utils";
+
+/**
+ * Update an account's name and metadata.
+ */
+export async function updateAccount(formData: FormData, accountId: string) {
+  const { supabase, ownerId, access } = await getActivePortfolio();
+
+  if (access === "viewer") {
+    return {
+      success: false,
+      code: "READ_ONLY",
+      message: VIEW_ONLY_MESSAGE,
+    } as const;
+  }
+
+  const parsed = parseAccountFormData(formData);
+  if (!parsed.ok) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      message: parsed.message,
+    } as const;
+  }
+
+  const { data: account, error } = await supabase
+    .from("accounts")
+    .update(parsed.values)
+    .eq("id", accountId)
+    .eq("user_id", ownerId)
+    .select("id")
+    .maybeSingle();
+
+  if (error || !account) {
+    return {
+      success: false,
+      code: error?.code ?? "NOT_FOUND",
+      message:
+        error?.code === "23505"
+          ? `An account named "${parsed.values.name}" already exists.`
+          : (error?.message ?? "Account not found"),
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
+
+/**
+ * Filter the dashboard by an account, or pass null for all accounts.
+ */
+export async function setSelectedAccount(accountId: string | null) {
+  const cookieStore = await cookies();
+
+  if (accountId) {
+    cookieStore.set(ACCOUNT_FILTER_COOKIE, accountId, {
+      path: "/",
+      sameSite: "lax",
+      maxAge: 60 * 60 * 24 * 365,
+    });
+  } else {
+    cookieStore.delete(ACCOUNT_FILTER_COOKIE);
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
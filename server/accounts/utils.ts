@@ -0,0 +1,61 @@
+import { ACCOUNT_TAX_WRAPPERS } from "@/types/enums";
+
+import type { Account, AccountTaxWrapper } from "@/types/global.types";
+
+export type AccountFormValues = Pick<
+  Account,
+  "name" | "institution" | "tax_wrapper" | "currency" | "description"
+>;
+
+// Cookie holding the account the dashboard is filtered by (unset = all)
+export const ACCOUNT_FILTER_COOKIE = "account_filter";
+
+function isTaxWrapper(value: string): value is AccountTaxWrapper {
+  return (ACCOUNT_TAX_WRAPPERS as readonly string[]).includes(value);
+}
+
+/**
+ * Parse and validate account fields from FormData.
+ */
+export function parseAccountFormData(
+  formData: FormData,
+): { ok: true; values: AccountFormValues } | { ok: false; message: string } {
+  const name = String(formData.get("name") ?? "").trim();
+  const institution = String(formData.get("institution") ?? "").trim();
+  const taxWrapper = String(formData.get("tax_wrapper") ?? "taxable");
+  const currency = String(formData.get("currency") ?? "").toUpperCase();
+  const description = String(formData.get("description") ?? "").trim();
+
+  if (name.length < 1 || name.length > 64) {
+    return { ok: false, message: "Name must be between 1 and 64 characters" };
+  }
+  if (institution.length > 64) {
+    return {
+      ok: false,
+      message: "Institution must not exceed 64 characters",
+    };
+  }
+  if (!isTaxWrapper(taxWrapper)) {
+    return { ok: false, message: "Unknown tax wrapper" };
+  }
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    return { ok: false, message: "A valid currency is required" };
+  }
+  if (description.length > 256) {
+    return {
+      ok: false,
+      message: "Description must not exceed 256 characters",
+    };
+  }
+
+  return {
+    ok: true,
+    values: {
+      name,
+      institution: institution || null,
+      tax_wrapper: taxWrapper,
+      currency,
+      description: description || null,
+    },
+  };
+}
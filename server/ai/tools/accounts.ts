@@ -0,0 +1,58 @@
+"use server";
+
+import { fetchProfile } from "@/server/profile/actions";
+import { fetchAccounts } from "@/server/accounts/fetch";
+import { calculateAccountBreakdown } from "@/server/analysis/account-breakdown";
+
+interface GetAccountsParams {
+  baseCurrency: string | null;
+}
+
+/**
+ * List the user's accounts with their metadata, current net worth and
+ * number of positions. IDs can be passed as `accountId` to other tools.
+ */
+export async function getAccounts(params: GetAccountsParams) {
+  try {
+    const baseCurrency =
+      params.baseCurrency ?? (await fetchProfile()).profile.display_currency;
+
+    const [accounts, breakdown] = await Promise.all([
+      fetchAccounts(),
+      calculateAccountBreakdown(baseCurrency),
+    ]);
+
+    const byAccount = new Map(
+      breakdown.map((entry) => [entry.accountId, entry]),
+    );
+    const unassigned = byAccount.get(null);
+
+    return {
+      total: accounts.length,
+      baseCurrency,
+      accounts: accounts.map((account) => ({
+        id: account.id,
+        name: account.name,
+        institution: account.institution,
+        taxWrapper: account.tax_wrapper,
+        currency: account.currency,
+        description: account.description,
+        netWorth: byAccount.get(account.id)?.netWorth ?? 0,
+        positionsCount: byAccount.get(account.id)?.positionsCount ?? 0,
+      })),
+      // Positions that only count towards the consolidated view
+      unassigned: {
+        netWorth: unassigned?.netWorth ?? 0,
+        positionsCount: unassigned?.positionsCount ?? 0,
+      },
+      message: accounts.length
+        ? undefined
+        : "No accounts set up. All positions are in the consolidated portfolio.",
+    };
+  } catch (error) {
+    console.error("Error fetching accounts:", error);
+    throw new Error(
+      `Failed to fetch accounts: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+}
@@ -6,9 +6,13 @@ import { fetchProfile } from "@/server/profile/actions";
 import { fetchPositions } from "@/server/positions/fetch";
 import { fetchExchangeRates } from "@/server/exchange-rates/fetch";
 import { resolveSymbolsBatch } from "@/server/symbols/resolver";
+import {
+  calculateReturns,
+  type ReturnsSummary,
+} from "@/server/analysis/returns";
 
 import { calculateProfitLoss } from "@/lib/profit-loss";
-import { convertCurrency } from "@/lib/currency-conversion";
+import { convertCurrency, mergeRateIssues } from "@/lib/currency-conversion";
 import { clampDateRange } from "@/server/ai/tools/helpers/time-range";
 
 interface GetAssetsPerformanceParams {
@@ -16,6 +20,7 @@ interface GetAssetsPerformanceParams {
   positionIds: string[] | null;
   startDate: string | null;
   endDate: string | null;
+  accountId: string | null;
 }
 
 interface AssetPerformanceData {
@@ -52,6 +57,7 @@ interface AssetPerformanceData {
     valueChangeAbs: number;
     valueChangePct: number;
   };
+  returns: AssetReturns;
   unrealized: {
     totalCostBasis: number;
     profitLoss: number;
@@ -59,9 +65,27 @@ interface AssetPerformanceData {
   };
 }
 
+interface AssetReturns {
+  netCashFlows: number;
+  investmentGain: number;
+  timeWeightedReturnPct: number | null;
+  moneyWeightedReturnAnnualizedPct: number | null;
+}
+
+function toAssetReturns(summary?: ReturnsSummary): AssetReturns {
+  const toPct = (value?: number | null) => (value != null ? value * 100 : null);
+
+  return {
+    netCashFlows: summary?.netCashFlows ?? 0,
+    investmentGain: summary?.investmentGain ?? 0,
+    timeWeightedReturnPct: toPct(summary?.timeWeightedReturn),
+    moneyWeightedReturnAnnualizedPct: toPct(summary?.moneyWeightedReturn),
+  };
+}
+
 /**
  * Analyze asset(s) performance over a period
- * Returns price return, value change, and unrealized P/L data
+ * Returns price return, value change, TWR/MWR returns, and unrealized P/L data
  */
 export async function getAssetsPerformance(params: GetAssetsPerformanceParams) {
   try {
@@ -83,11 +107,13 @@ export async function getAssetsPerformance(params: GetAssetsPerformanceParams) {
         includeArchived: true,
         includeSnapshots: true,
         asOfDate: endDate,
+        accountId: params.accountId,
       }),
       fetchPositions({
         positionType: "asset",
         includeArchived: true,
         asOfDate: startDate,
+        accountId: params.accountId,
       }),
     ]);
 
@@ -130,6 +156,7 @@ export async function getAssetsPerformance(params: GetAssetsPerformanceParams) {
         period: { startDate: startDateKey, endDate: endDateKey, baseCurrency },
         assets: [],
         aggregated: null,
+        rateIssues: [],
       };
     }
 
@@ -156,15 +183,18 @@ export async function getAssetsPerformance(params: GetAssetsPerformanceParams) {
       date: endDate,
     }));
 
-    // Fetch both in parallel
-    const [startFx, endFx] = await Promise.all([
-      fetchExchangeRates(startExchangeRequests),
-      fetchExchangeRates(endExchangeRequests),
+    // Fetch FX (start and end dates in one map) and cash-flow adjusted
+    // returns in parallel
+    const [exchangeRatesMap, returns] = await Promise.all([
+      fetchExchangeRates([...startExchangeRequests, ...endExchangeRequests]),
+      calculateReturns({
+        targetCurrency: baseCurrency,
+        startDate,
+        endDate,
+        positionIds: targetPositions.map((p) => p.id),
+      }),
     ]);
 
-    // Merge the maps
-    const exchangeRatesMap = new Map<string, number>([...startFx, ...endFx]);
-
     // Build quick lookup for start snapshot by position id
     const startById = new Map(startPositions.map((p) => [p.id, p]));
 
@@ -289,6 +319,7 @@ export async function getAssetsPerformance(params: GetAssetsPerformanceParams) {
           valueChangeAbs: valueChangeAbs,
           valueChangePct,
         },
+        returns: toAssetReturns(returns.positions[position.id]),
         unrealized,
       });
     }
@@ -315,6 +346,8 @@ export async function getAssetsPerformance(params: GetAssetsPerformanceParams) {
                 totalStartValue > 0
                   ? (totalValueChange / totalStartValue) * 100
                   : 0,
+              // Returns excluding buys/sells across the selected assets
+              returns: toAssetReturns(returns.portfolio),
               // Winners and losers by both metrics
               bestByPct: performanceData.reduce((best, a) =>
                 a.performance.valueChangePct > best.performance.valueChangePct
@@ -358,6 +391,11 @@ export async function getAssetsPerformance(params: GetAssetsPerformanceParams) {
         (a, b) => b.performance.valueChangePct - a.performance.valueChangePct,
       ),
       aggregated,
+      // Stale or missing exchange rates the values were converted with
+      rateIssues: mergeRateIssues(
+        exchangeRatesMap.rateIssues,
+        returns.rateIssues,
+      ),
     };
   } catch (error) {
     console.error("Error analyzing assets performance:", error);
@@ -0,0 +1,83 @@
+"use server";
+
+import { parseISO } from "date-fns";
+
+import { fetchBenchmarkComparison } from "@/server/analysis/benchmark";
+import { clampDateRange } from "@/server/ai/tools/helpers/time-range";
+
+interface CompareToBenchmarkParams {
+  symbols: string[];
+  baseCurrency: string | null;
+  positionIds: string[] | null;
+  accountId: string | null;
+  startDate: string | null;
+  endDate: string | null;
+}
+
+const toPct = (value: number | null) => (value !== null ? value * 100 : null);
+
+/**
+ * Compare cash-flow adjusted asset performance with benchmark symbols.
+ * Returns the same tracking difference and beta shown on the charts.
+ */
+export async function compareToBenchmark(params: CompareToBenchmarkParams) {
+  try {
+    const { startDate, endDate } = clampDateRange({
+      startDate: params.startDate,
+      endDate: params.endDate,
+    });
+
+    const comparison = await fetchBenchmarkComparison({
+      symbols: params.symbols,
+      targetCurrency: params.baseCurrency ?? undefined,
+      startDate: parseISO(startDate),
+      endDate: parseISO(endDate),
+      positionIds: params.positionIds ?? undefined,
+      accountId: params.accountId,
+    });
+
+    if (!comparison.dates.length) {
+      return {
+        summary: "No invested assets in this period to compare",
+        period: { startDate, endDate, baseCurrency: comparison.currency },
+        benchmarks: [],
+        unresolved: comparison.unresolved,
+      };
+    }
+
+    const lastIndex = comparison.dates.length - 1;
+
+    return {
+      summary: `Portfolio vs ${comparison.benchmarks.map((b) => b.ticker).join(", ") || "no benchmarks"}`,
+      period: {
+        // Starts on the first day with capital invested
+        startDate: comparison.dates[0],
+        endDate: comparison.dates[lastIndex],
+        baseCurrency: comparison.currency,
+        points: comparison.dates.length,
+      },
+      portfolio: {
+        startValue: comparison.startValue,
+        endValueExcludingFlows: comparison.portfolio[lastIndex],
+        timeWeightedReturnPct: toPct(comparison.portfolioReturn),
+      },
+      benchmarks: comparison.benchmarks.map((benchmark) => ({
+        symbolId: benchmark.symbolId,
+        ticker: benchmark.ticker,
+        name: benchmark.name,
+        // What the start value would be worth in the benchmark
+        endValue: benchmark.values[lastIndex],
+        returnPct: toPct(benchmark.benchmarkReturn),
+        trackingDifferencePct: toPct(benchmark.trackingDifference),
+        beta: benchmark.beta,
+      })),
+      unresolved: comparison.unresolved,
+      rateIssues: comparison.rateIssues,
+    };
+  } catch (error) {
+    console.error("Error comparing to benchmark:", error);
+    throw new Error(
+      `Failed to compare to benchmark: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+}
@@ -6,7 +6,10 @@ import { fetchProfile } from "@/server/profile/actions";
 import { fetchPositions } from "@/server/positions/fetch";
 import { fetchExchangeRates } from "@/server/exchange-rates/fetch";
 
-import { convertCurrency } from "@/lib/currency-conversion";
+import {
+  convertCurrency,
+  type ConversionIssue,
+} from "@/lib/currency-conversion";
 
 interface GetCurrencyExposureParams {
   baseCurrency: string | null;
@@ -29,6 +32,8 @@ interface CurrencyExposureResult {
     valueBase: number;
   };
   currencies: CurrencyExposureItem[];
+  /** Stale or missing exchange rates the values were converted with */
+  rateIssues: ConversionIssue[];
 }
 
 /**
@@ -59,6 +64,7 @@ export async function getCurrencyExposure(
         date: dateKey,
         totals: { valueBase: 0 },
         currencies: [],
+        rateIssues: [],
       };
     }
 
@@ -133,6 +139,7 @@ export async function getCurrencyExposure(
       date: dateKey,
       totals: { valueBase: totalBase },
       currencies,
+      rateIssues: exchangeRates.rateIssues,
     };
   } catch (error) {
     console.error("Error calculating currency exposure:", error);
@@ -0,0 +1,41 @@
+"use server";
+
+import { calculateGoalProgress } from "@/server/analysis/goal-progress";
+
+/**
+ * List the user's goals with progress and a projection to each deadline.
+ */
+export async function getGoals() {
+  try {
+    const progress = await calculateGoalProgress();
+
+    const goals = progress.map(({ goal, ...projection }) => ({
+      id: goal.id,
+      name: goal.name,
+      currency: goal.currency,
+      targetAmount: goal.target_amount,
+      deadline: goal.deadline,
+      tracks:
+        goal.position_ids.length || goal.category_ids.length
+          ? {
+              positionIds: goal.position_ids,
+              categoryIds: goal.category_ids,
+            }
+          : "net_worth",
+      ...projection,
+    }));
+
+    return {
+      total: goals.length,
+      goals,
+      message: goals.length
+        ? undefined
+        : "No goals set. The user can add them in the Goals widget on the dashboard.",
+    };
+  } catch (error) {
+    console.error("Error calculating goal progress:", error);
+    throw new Error(
+      `Failed to calculate goal progress: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+}
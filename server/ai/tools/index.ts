@@ -1,16 +1,24 @@
 import { tool } from "ai";
 import { z } from "zod";
 
+import { ALLOCATION_TARGET_SCOPES } from "@/types/enums";
+
 import { getPortfolioOverview } from "./portfolio-overview";
+import { getAccounts } from "./accounts";
 import { getPositions } from "./positions";
 import { getPortfolioRecords } from "./portfolio-records";
+import { getRealizedGains } from "./realized-gains";
 import { getPositionSnapshots } from "./position-snapshots";
 import { getNetWorthHistory } from "./net-worth-history";
 import { getNetWorthChange } from "./net-worth-change";
 import { getProjectedIncome } from "./projected-income";
 import { getAssetsPerformance } from "./assets-performance";
+import { compareToBenchmark } from "./benchmark";
 import { getTopMovers } from "./top-movers";
 import { getAllocationDrift } from "./allocation-drift";
+import { getRebalancingPlan } from "./rebalancing-plan";
+import { getGoals } from "./goals";
+import { getRetirementSimulation } from "./retirement-simulation";
 import { getCurrencyExposure } from "./currency-exposure";
 import { getDividendYield } from "./dividend-yield";
 import { getHistoricalQuotes } from "./historical-quotes";
@@ -20,7 +28,7 @@ import { getNews } from "./news";
 export const aiTools = {
   getPortfolioOverview: tool({
     description:
-      "Get a comprehensive portfolio overview including the user's financial profile, net worth, asset allocation, and all positions at any given date. Returns: summary, financial profile, net worth value, positions count, asset categories with percentages, and detailed position information with values converted to base currency. Use this for both current and historical portfolio snapshots - for deeper analysis also use the other specialized tools.",
+      "Get a comprehensive portfolio overview including the user's financial profile, net worth, asset allocation, and all positions at any given date. Returns: summary, financial profile, net worth value (assets minus liabilities) with asset and liability totals, positions count, asset categories with percentages, and detailed position information with values converted to base currency. Use this for both current and historical portfolio snapshots - for deeper analysis also use the other specialized tools.",
     inputSchema: z.object({
       baseCurrency: z
         .string()
@@ -34,21 +42,47 @@ export const aiTools = {
         .describe(
           "Date for historical analysis in YYYY-MM-DD format (e.g., 2024-07-22). Leave empty to use the current date.",
         ),
+      accountId: z
+        .string()
+        .nullable()
+        .describe(
+          "Limit to one account (ID from getAccounts). Leave empty for all accounts.",
+        ),
     }),
     execute: async (args) => {
       return getPortfolioOverview(args);
     },
   }),
 
+  getAccounts: tool({
+    description:
+      "List the user's accounts (e.g. brokerage, pension, joint) with institution, tax wrapper, currency, current net worth and positions count, plus positions not assigned to any account. Use the returned IDs as accountId in other tools to analyze a single account.",
+    inputSchema: z.object({
+      baseCurrency: z
+        .string()
+        .nullable()
+        .describe(
+          "Currency code for net worth (e.g., USD, EUR). Leave empty to use the user's preferred currency.",
+        ),
+    }),
+    execute: async (args) => getAccounts(args),
+  }),
+
   getPositions: tool({
     description:
-      "Get raw positions in original currencies (no FX conversion). Optionally filter by position IDs. Uses market prices as-of the given date (defaults to today) for market-backed positions (e.g., securities, domains, etc.).",
+      "Get raw positions in original currencies (no FX conversion), each marked as an asset or a liability. Optionally filter by position IDs. Uses market prices as-of the given date (defaults to today) for market-backed positions (e.g., securities, domains, etc.).",
     inputSchema: z.object({
       positionIds: z.array(z.string()).nullable(),
       date: z
         .string()
         .nullable()
         .describe("YYYY-MM-DD format (optional, defaults to today)"),
+      accountId: z
+        .string()
+        .nullable()
+        .describe(
+          "Limit to one account (ID from getAccounts). Leave empty for all accounts.",
+        ),
     }),
     execute: async (args) => getPositions(args),
   }),
@@ -70,6 +104,23 @@ export const aiTools = {
     },
   }),
 
+  getRealizedGains: tool({
+    description:
+      "Get realized gains from sell records, matched to purchase lots with the user's cost basis method (FIFO, LIFO, average cost or specific lot). Returns: per-sale proceeds, cost basis and realized gain in the position currency, plus totals per currency. Use this for tax reporting and year-end summaries.",
+    inputSchema: z.object({
+      year: z
+        .number()
+        .nullable()
+        .describe(
+          "Calendar year to report (e.g., 2024). Overrides startDate/endDate.",
+        ),
+      startDate: z.string().nullable().describe("YYYY-MM-DD format (optional)"),
+      endDate: z.string().nullable().describe("YYYY-MM-DD format (optional)"),
+      positionId: z.string().nullable(),
+    }),
+    execute: async (args) => getRealizedGains(args),
+  }),
+
   getPositionSnapshots: tool({
     description:
       "Get historical snapshots (quantity and unit value) for a specific position. Returns: snapshot list with date, quantity, unit value, total value, and currency. Useful for analyzing position performance over time.",
@@ -101,6 +152,12 @@ export const aiTools = {
         .describe(
           "Number of days to look back (default: 180 days = ~6 months)",
         ),
+      accountId: z
+        .string()
+        .nullable()
+        .describe(
+          "Limit to one account (ID from getAccounts). Leave empty for all accounts.",
+        ),
     }),
     execute: async (args) => {
       return getNetWorthHistory(args);
@@ -109,7 +166,7 @@ export const aiTools = {
 
   getNetWorthChange: tool({
     description:
-      "Get net worth change over a specified period to analyze portfolio performance. Returns: current vs previous values, absolute change amount, percentage change, and direction (positive/negative). Shows portfolio growth rate and momentum.",
+      "Get net worth change over a specified period to analyze portfolio performance. Returns: current vs previous values, absolute change amount, percentage change, direction (positive/negative), and returns excluding buys/sells (investment gain, time-weighted return, annualized money-weighted return). Shows portfolio growth rate and momentum.",
     inputSchema: z.object({
       baseCurrency: z
         .string()
@@ -123,6 +180,12 @@ export const aiTools = {
         .describe(
           "Number of days to compare back (default: 180 days ≈ 6 months)",
         ),
+      accountId: z
+        .string()
+        .nullable()
+        .describe(
+          "Limit to one account (ID from getAccounts). Leave empty for all accounts.",
+        ),
     }),
     execute: async (args) => {
       return getNetWorthChange(args);
@@ -145,6 +208,12 @@ export const aiTools = {
         .describe(
           "Number of months to project ahead (default: 12 months = 1 year)",
         ),
+      accountId: z
+        .string()
+        .nullable()
+        .describe(
+          "Limit to one account (ID from getAccounts). Leave empty for all accounts.",
+        ),
     }),
     execute: async (args) => {
       return getProjectedIncome(args);
@@ -153,7 +222,7 @@ export const aiTools = {
 
   getAssetsPerformance: tool({
     description:
-      "Analyze asset(s) performance over a period. Returns price return (market move), value change (includes flows), and current unrealized P/L vs cost basis. Can analyze single asset, multiple assets, or entire portfolio.",
+      "Analyze asset(s) performance over a period. Returns price return (market move), value change (includes flows), returns excluding flows (time-weighted return, annualized money-weighted return/XIRR, investment gain), and current unrealized P/L vs cost basis. Can analyze single asset, multiple assets, or entire portfolio.",
     inputSchema: z.object({
       baseCurrency: z
         .string()
@@ -175,10 +244,55 @@ export const aiTools = {
         .string()
         .nullable()
         .describe("YYYY-MM-DD format (optional, defaults to today)"),
+      accountId: z
+        .string()
+        .nullable()
+        .describe(
+          "Limit to one account (ID from getAccounts). Leave empty for all accounts.",
+        ),
     }),
     execute: async (args) => getAssetsPerformance(args),
   }),
 
+  compareToBenchmark: tool({
+    description:
+      "Compare asset performance against up to 3 benchmark symbols (e.g., VWCE.DE, SPY) over a period. Portfolio returns exclude cash flows (time-weighted), benchmarks are converted to the base currency and rebased to the portfolio's starting value. Returns portfolio and benchmark returns, tracking difference (portfolio minus benchmark) and beta.",
+    inputSchema: z.object({
+      symbols: z
+        .array(z.string())
+        .describe(
+          "Benchmark tickers (e.g., SPY, VWCE.DE). Validate unfamiliar ones via searchSymbols.",
+        ),
+      baseCurrency: z
+        .string()
+        .nullable()
+        .describe(
+          "Currency code for analysis (e.g., USD, EUR, GBP, etc.). Leave empty to use the user's preferred currency.",
+        ),
+      positionIds: z
+        .array(z.string())
+        .nullable()
+        .describe(
+          "Specific position IDs to compare (assets only). If omitted, compares all assets.",
+        ),
+      startDate: z
+        .string()
+        .nullable()
+        .describe("YYYY-MM-DD format (optional, defaults to 1 year ago)"),
+      endDate: z
+        .string()
+        .nullable()
+        .describe("YYYY-MM-DD format (optional, defaults to today)"),
+      accountId: z
+        .string()
+        .nullable()
+        .describe(
+          "Limit to one account (ID from getAccounts). Leave empty for all accounts.",
+        ),
+    }),
+    execute: async (args) => compareToBenchmark(args),
+  }),
+
   getTopMovers: tool({
     description:
       "Find top gainers and losers over a period. Returns ranked lists by percentage (market move) and absolute change (includes flows).",
@@ -213,6 +327,151 @@ export const aiTools = {
     execute: async (args) => getAllocationDrift(args),
   }),
 
+  getRebalancingPlan: tool({
+    description:
+      "Plan trades that bring the portfolio back to the user's target allocation, optionally investing new cash. Returns: current vs target percentage per target with drift and tolerance band, buy/sell amount and quantity per position, the resulting allocation, plus untargeted value and cash left for targets without holdings. Returns hasTargets: false when the user has no targets for the scope.",
+    inputSchema: z.object({
+      baseCurrency: z
+        .string()
+        .nullable()
+        .describe(
+          "Currency code for analysis (e.g., USD, EUR, GBP, etc.). Leave empty to use the user's preferred currency.",
+        ),
+      scope: z
+        .enum(ALLOCATION_TARGET_SCOPES)
+        .nullable()
+        .describe(
+          "Which targets to use: category, position or sector. Leave empty for category.",
+        ),
+      cash: z
+        .number()
+        .nullable()
+        .describe(
+          "New cash to invest, in the base currency. Leave empty to only rebalance existing holdings.",
+        ),
+      noSell: z
+        .boolean()
+        .nullable()
+        .describe("Only buy with new cash, never sell (default: false)"),
+      tolerance: z
+        .number()
+        .nullable()
+        .describe(
+          "Drift in percentage points tolerated before selling, for targets without their own band (default: 5)",
+        ),
+    }),
+    execute: async (args) => getRebalancingPlan(args),
+  }),
+
+  getGoals: tool({
+    description:
+      "Get the user's goals (e.g., FI number, house deposit, emergency fund) with progress and projections. Returns per goal: target amount, currency, deadline, what it tracks (linked positions/categories or net worth), current value, progress, monthly contribution and expected annual return used (from the goal or the last 12 months), projected value at the deadline, required monthly contribution, projected date the target is reached, and status (achieved, on_track, off_track, overdue).",
+    inputSchema: z.object({}),
+    execute: async () => getGoals(),
+  }),
+
+  getRetirementSimulation: tool({
+    description:
+      'Run a seeded Monte Carlo simulation of the current portfolio (allocation by category) through accumulation and retirement, e.g. to answer "can I retire at 55?". Ages default to the financial profile (midpoint of the age band), contributions to net cash flows over the last 12 months and per-category return/volatility to labeled class averages. Returns: assumptions used, per-category return and volatility, success probability (share of paths where the money lasts until life expectancy), median portfolio at retirement, median first-year withdrawal, and p10/p25/p50/p75/p90 portfolio values by age. All values are in today\'s money.',
+    inputSchema: z
+      .object({
+        baseCurrency: z
+          .string()
+          .nullable()
+          .describe(
+            "Currency code for analysis (e.g., USD, EUR, GBP, etc.). Leave empty to use the user's preferred currency.",
+          ),
+        currentAge: z
+          .number()
+          .int()
+          .min(18)
+          .max(100)
+          .nullable()
+          .describe(
+            "Current age. Leave empty to use the financial profile's age band.",
+          ),
+        retirementAge: z
+          .number()
+          .int()
+          .min(18)
+          .max(100)
+          .nullable()
+          .describe("Age withdrawals start (default: 65)"),
+        lifeExpectancy: z
+          .number()
+          .int()
+          .min(19)
+          .max(120)
+          .nullable()
+          .describe("Age the money has to last until (default: 95)"),
+        annualContribution: z
+          .number()
+          .nullable()
+          .describe(
+            "Yearly contribution until retirement in today's money. Leave empty to use the last 12 months.",
+          ),
+        withdrawalRate: z
+          .number()
+          .nullable()
+          .describe(
+            "Percentage of the portfolio withdrawn in the first retirement year, then kept constant in today's money (default: 4)",
+          ),
+        annualWithdrawal: z
+          .number()
+          .nullable()
+          .describe(
+            "Fixed yearly spending in retirement in today's money. Overrides withdrawalRate.",
+          ),
+        inflation: z
+          .number()
+          .nullable()
+          .describe("Expected yearly inflation in percent (default: 2.5)"),
+        categoryAssumptions: z
+          .array(
+            z.object({
+              categoryId: z
+                .string()
+                .describe("Position category id (e.g., equity, cash)"),
+              expectedReturn: z
+                .number()
+                .nullable()
+                .describe("Expected nominal yearly return in percent"),
+              volatility: z
+                .number()
+                .nullable()
+                .describe("Yearly volatility in percent"),
+            }),
+          )
+          .nullable()
+          .describe(
+            "Overrides for per-category return and volatility, e.g. from the user's historical returns.",
+          ),
+        seed: z
+          .number()
+          .nullable()
+          .describe(
+            "Random seed. Leave empty so repeated runs give the same result.",
+          ),
+      })
+      .refine(
+        ({ currentAge, retirementAge, lifeExpectancy }) =>
+          (currentAge === null ||
+            retirementAge === null ||
+            currentAge <= retirementAge) &&
+          (retirementAge === null ||
+            lifeExpectancy === null ||
+            retirementAge < lifeExpectancy) &&
+          (currentAge === null ||
+            lifeExpectancy === null ||
+            currentAge < lifeExpectancy),
+        {
+          error:
+            "Ages must satisfy currentAge <= retirementAge < lifeExpectancy",
+        },
+      ),
+    execute: async (args) => getRetirementSimulation(args),
+  }),
+
   getCurrencyExposure: tool({
     description:
       "Calculate portfolio currency exposure by original currency as-of a date. Returns per-currency local value, base-currency value, percentage weight, FX rate used, and positions count.",
@@ -6,6 +6,7 @@ import { clampDaysBack } from "@/server/ai/tools/helpers/time-range";
 interface GetNetWorthChangeParams {
   baseCurrency: string | null;
   daysBack: number | null;
+  accountId: string | null;
 }
 
 export async function getNetWorthChange(params: GetNetWorthChangeParams) {
@@ -15,11 +16,13 @@ export async function getNetWorthChange(params: GetNetWorthChangeParams) {
   const change = await fetchNetWorthChange({
     targetCurrency: baseCurrency,
     daysBack,
+    accountId: params.accountId,
   });
 
   return {
     baseCurrency,
     daysBack,
+    accountId: params.accountId,
     comparison: {
       current: {
         date: new Date().toISOString().split("T")[0],
@@ -39,5 +42,13 @@ export async function getNetWorthChange(params: GetNetWorthChangeParams) {
       percentage: change.percentageChange,
       direction: change.absoluteChange >= 0 ? "positive" : "negative",
     },
+    // Performance excluding buys/sells (assets only)
+    returns: {
+      investmentGain: change.investmentGain,
+      timeWeightedReturnPct: change.timeWeightedReturn,
+      moneyWeightedReturnAnnualizedPct: change.moneyWeightedReturn,
+    },
+    // Stale or missing exchange rates the values were converted with
+    rateIssues: change.rateIssues,
   };
 }
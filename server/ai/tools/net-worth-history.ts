@@ -6,15 +6,17 @@ import { clampDaysBack } from "@/server/ai/tools/helpers/time-range";
 interface GetNetWorthHistoryParams {
   baseCurrency: string | null;
   daysBack: number | null;
+  accountId: string | null;
 }
 
 export async function getNetWorthHistory(params: GetNetWorthHistoryParams) {
   const baseCurrency = params.baseCurrency ?? undefined;
   const daysBack = clampDaysBack({ requested: params.daysBack });
 
-  const history = await fetchNetWorthHistory({
+  const { history, rateIssues } = await fetchNetWorthHistory({
     targetCurrency: baseCurrency,
     daysBack,
+    accountId: params.accountId,
   });
 
   const items = history.map((item) => ({
@@ -27,10 +29,13 @@ export async function getNetWorthHistory(params: GetNetWorthHistoryParams) {
     returned: items.length,
     baseCurrency,
     daysBack,
+    accountId: params.accountId,
     period: {
       start: items[0]?.date ?? null,
       end: items[items.length - 1]?.date ?? null,
     },
     items,
+    // Stale or missing exchange rates the values were converted with
+    rateIssues,
   };
 }
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from "vitest";
+
+import { getPortfolioOverview } from "./portfolio-overview";
+
+vi.mock("@/server/profile/actions", () => ({
+  fetchProfile: vi.fn(async () => ({ profile: { display_currency: "USD" } })),
+}));
+
+vi.mock("@/server/financial-profiles/actions", () => ({
+  fetchFinancialProfile: vi.fn(async () => null),
+}));
+
+vi.mock("@/server/symbols/resolver", () => ({
+  resolveSymbolsBatch: vi.fn(async () => ({ byInput: new Map() })),
+}));
+
+vi.mock("@/server/exchange-rates/fetch", async () => {
+  const { ExchangeRateMap } = await import("@/lib/currency-conversion");
+  return { fetchExchangeRates: vi.fn(async () => new ExchangeRateMap()) };
+});
+
+vi.mock("@/server/analysis/asset-allocation", () => ({
+  valueAssetAllocation: vi.fn(async () => ({
+    allocation: [{ category_id: "equity", name: "Equity", total_value: 1000 }],
+    rateIssues: [],
+  })),
+}));
+
+vi.mock("@/server/positions/fetch", () => ({
+  fetchPositions: vi.fn(async () => [
+    {
+      id: "stocks",
+      name: "Stocks",
+      type: "asset",
+      category_id: "equity",
+      category_name: "Equity",
+      account_id: null,
+      symbol_id: null,
+      currency: "USD",
+      current_quantity: 10,
+      current_unit_value: 100,
+      total_value: 1000,
+      is_archived: false,
+    },
+    {
+      id: "mortgage",
+      name: "Mortgage",
+      type: "liability",
+      category_id: "mortgage",
+      category_name: "Mortgage",
+      account_id: null,
+      symbol_id: null,
+      currency: "USD",
+      current_quantity: 1,
+      current_unit_value: 400,
+      total_value: 400,
+      is_archived: false,
+    },
+  ]),
+}));
+
+describe("getPortfolioOverview", () => {
+  it("subtracts liabilities from net worth", async () => {
+    const overview = await getPortfolioOverview({
+      baseCurrency: null,
+      date: "2024-06-28",
+      accountId: null,
+    });
+
+    expect(overview.netWorth).toBe(600);
+    expect(overview.totalAssets).toBe(1000);
+    expect(overview.totalLiabilities).toBe(400);
+    expect(overview.categories).toEqual([
+      { name: "Equity", id: "equity", value: 1000, percentage: 100 },
+    ]);
+    expect(
+      overview.positions.map(({ id, type, value }) => ({ id, type, value })),
+    ).toEqual([
+      { id: "stocks", type: "asset", value: 1000 },
+      { id: "mortgage", type: "liability", value: 400 },
+    ]);
+  });
+});
@@ -5,8 +5,8 @@ import { fetchFinancialProfile } from "@/server/financial-profiles/actions";
 import { fetchPositions } from "@/server/positions/fetch";
 import { fetchExchangeRates } from "@/server/exchange-rates/fetch";
 import { resolveSymbolsBatch } from "@/server/symbols/resolver";
-import { calculateAssetAllocation } from "@/server/analysis/asset-allocation";
-import { convertCurrency } from "@/lib/currency-conversion";
+import { valueAssetAllocation } from "@/server/analysis/asset-allocation";
+import { convertCurrency, mergeRateIssues } from "@/lib/currency-conversion";
 
 /**
  * Get portfolio overview for AI analysis
@@ -17,6 +17,7 @@ import { convertCurrency } from "@/lib/currency-conversion";
 export async function getPortfolioOverview(params: {
   baseCurrency: string | null;
   date: string | null;
+  accountId: string | null;
 }) {
   try {
     // Get user's profile to use their preferred currency
@@ -33,6 +34,7 @@ export async function getPortfolioOverview(params: {
     const positions = await fetchPositions({
       includeArchived: true,
       asOfDate: asOfDate,
+      accountId: params.accountId,
     });
 
     // If no positions, return empty state
@@ -40,10 +42,13 @@ export async function getPortfolioOverview(params: {
       return {
         summary: "No positions found in portfolio",
         netWorth: 0,
+        totalAssets: 0,
+        totalLiabilities: 0,
         currency: baseCurrency,
         positionsCount: 0,
         categories: [],
         positions: [],
+        rateIssues: [],
         lastUpdated: new Date().toISOString(),
       };
 
@@ -108,11 +113,13 @@ export async function getPortfolioOverview(params: {
         return {
           id: position.id,
           name: position.name,
+          type: position.type,
           symbol: position.symbol_id
             ? (symbolIdToTicker.get(position.symbol_id) ?? null)
             : null,
           category: position.category_name!,
           categoryId: position.category_id,
+          accountId: position.account_id,
           quantity,
           unitValue: unitValueBase,
           value: totalValueBase,
@@ -129,9 +136,11 @@ export async function getPortfolioOverview(params: {
       .sort((a, b) => (b!.value as number) - (a!.value as number)) as Array<{
       id: string;
       name: string;
+      type: "asset" | "liability";
       symbol: string | null;
       category: string;
       categoryId: string;
+      accountId: string | null;
       quantity: number;
       unitValue: number;
       value: number;
@@ -140,17 +149,31 @@ export async function getPortfolioOverview(params: {
       original: { currency: string; unitValue: number; value: number };
     }>;
 
-    // Compute net worth from computed positions (avoid duplicate heavy calls)
-    const netWorth = positionsBase.reduce((sum, h) => sum + h.value, 0);
+    // Compute net worth from computed positions (avoid duplicate heavy calls),
+    // subtracting liabilities like calculateNetWorth does
+    const totalAssets = positionsBase
+      .filter((position) => position.type === "asset")
+      .reduce((sum, position) => sum + position.value, 0);
+    const totalLiabilities = positionsBase
+      .filter((position) => position.type === "liability")
+      .reduce((sum, position) => sum + position.value, 0);
+    const netWorth = totalAssets - totalLiabilities;
 
     // Compute allocation via centralized analysis util to mirror previous logic
-    const allocation = await calculateAssetAllocation(baseCurrency, asOfDate);
+    const { allocation, rateIssues: allocationRateIssues } =
+      await valueAssetAllocation(
+        baseCurrency,
+        asOfDate,
+        undefined,
+        params.accountId,
+      );
     const categories = allocation
       .map((a) => ({
         name: a.name,
         id: a.category_id,
         value: a.total_value,
-        percentage: netWorth ? (a.total_value / netWorth) * 100 : 0,
+        // Allocation only covers assets
+        percentage: totalAssets ? (a.total_value / totalAssets) * 100 : 0,
       }))
       .sort((a, b) => b.value - a.value);
 
@@ -158,11 +181,18 @@ export async function getPortfolioOverview(params: {
       summary: `Portfolio contains ${positionsBase.length} positions across ${categories.length} categories`,
       financialProfile,
       netWorth,
+      totalAssets,
+      totalLiabilities,
       currency: baseCurrency,
       positionsCount: positionsBase.length,
       categoriesCount: categories.length,
       categories,
       positions: positionsBase,
+      // Stale or missing exchange rates the values were converted with
+      rateIssues: mergeRateIssues(
+        exchangeRates.rateIssues,
+        allocationRateIssues,
+      ),
       lastUpdated: new Date().toISOString(),
     };
   } catch (error) {
@@ -6,6 +6,7 @@ import { resolveSymbolsBatch } from "@/server/symbols/resolver";
 interface GetPositionsParams {
   positionIds: string[] | null;
   date: string | null; // YYYY-MM-DD (optional). Defaults to today.
+  accountId: string | null;
 }
 
 /**
@@ -19,6 +20,7 @@ export async function getPositions(params: GetPositionsParams) {
   const all = await fetchPositions({
     includeArchived: true,
     asOfDate,
+    accountId: params.accountId,
   });
 
   const ids = params.positionIds ? new Set(params.positionIds) : undefined;
@@ -48,8 +50,10 @@ export async function getPositions(params: GetPositionsParams) {
   const items = filtered.map((p) => ({
     id: p.id as string,
     name: p.name as string,
+    type: p.type,
     category_id: p.category_id as string,
     category: p.category_name as string,
+    account_id: p.account_id,
     symbol: p.symbol_id ? (symbolIdToTicker.get(p.symbol_id) ?? null) : null,
     currency: p.currency as string,
     description: p.description as string | null,
@@ -65,6 +69,7 @@ export async function getPositions(params: GetPositionsParams) {
     total: filtered.length,
     returned: items.length,
     positionIds: params.positionIds,
+    accountId: params.accountId,
     date: asOfDate.toISOString().split("T")[0],
     items,
   };
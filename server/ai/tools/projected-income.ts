@@ -6,6 +6,7 @@ import { fetchProfile } from "@/server/profile/actions";
 interface GetProjectedIncomeParams {
   baseCurrency: string | null;
   monthsAhead: number | null;
+  accountId: string | null;
 }
 
 export async function getProjectedIncome(params: GetProjectedIncomeParams) {
@@ -13,7 +14,12 @@ export async function getProjectedIncome(params: GetProjectedIncomeParams) {
     params.baseCurrency ?? (await fetchProfile()).profile.display_currency;
   const monthsAhead = Math.min(Math.max(params.monthsAhead ?? 12, 1), 24);
 
-  const result = await calculateProjectedIncome(baseCurrency, monthsAhead);
+  const result = await calculateProjectedIncome(
+    baseCurrency,
+    monthsAhead,
+    undefined,
+    params.accountId,
+  );
 
   if (!result.success) {
     return {
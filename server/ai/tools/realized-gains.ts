@@ -0,0 +1,85 @@
+"use server";
+
+import { parseISO, isValid } from "date-fns";
+
+import { fetchRealizedGains } from "@/server/realized-gains/fetch";
+import { fetchProfile } from "@/server/profile/actions";
+
+interface GetRealizedGainsParams {
+  year: number | null;
+  startDate: string | null;
+  endDate: string | null;
+  positionId: string | null;
+}
+
+export async function getRealizedGains(params: GetRealizedGainsParams) {
+  // A calendar year takes precedence over an explicit range
+  const parseDate = (value: string | null) => {
+    if (!value) return undefined;
+    const parsed = parseISO(value);
+    return isValid(parsed) ? parsed : undefined;
+  };
+
+  const startDate = params.year
+    ? new Date(Date.UTC(params.year, 0, 1))
+    : parseDate(params.startDate);
+  const endDate = params.year
+    ? new Date(Date.UTC(params.year, 11, 31))
+    : parseDate(params.endDate);
+
+  const [gains, { profile }] = await Promise.all([
+    fetchRealizedGains({
+      positionId: params.positionId ?? undefined,
+      startDate,
+      endDate,
+    }),
+    fetchProfile(),
+  ]);
+
+  const items = gains.map((gain) => ({
+    recordId: gain.portfolio_record_id,
+    date: gain.date, // YYYY-MM-DD
+    position: {
+      id: gain.position_id,
+      name: gain.positions?.name ?? "",
+    },
+    currency: gain.positions?.currency ?? null,
+    quantity: Number(gain.quantity),
+    proceeds: Number(gain.proceeds),
+    costBasis: Number(gain.cost_basis),
+    realizedGain: Number(gain.realized_gain),
+    method: gain.method,
+  }));
+
+  // Totals per currency (no FX conversion, as reported to tax authorities)
+  const totalsByCurrency = new Map<
+    string,
+    { proceeds: number; costBasis: number; realizedGain: number }
+  >();
+  items.forEach((item) => {
+    const key = item.currency ?? "UNKNOWN";
+    const totals = totalsByCurrency.get(key) ?? {
+      proceeds: 0,
+      costBasis: 0,
+      realizedGain: 0,
+    };
+    totals.proceeds += item.proceeds;
+    totals.costBasis += item.costBasis;
+    totals.realizedGain += item.realizedGain;
+    totalsByCurrency.set(key, totals);
+  });
+
+  return {
+    costBasisMethod: profile.cost_basis_method,
+    range: {
+      start: startDate?.toISOString().split("T")[0] ?? null,
+      end: endDate?.toISOString().split("T")[0] ?? null,
+    },
+    positionId: params.positionId,
+    totals: Array.from(totalsByCurrency.entries()).map(
+      ([currency, totals]) => ({ currency, ...totals }),
+    ),
+    total: items.length,
+    items,
+  };
+}
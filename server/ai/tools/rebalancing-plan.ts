@@ -0,0 +1,49 @@
+"use server";
+
+import { fetchProfile } from "@/server/profile/actions";
+import { calculateRebalancingPlan } from "@/server/analysis/rebalancing";
+
+import type { AllocationTargetScope } from "@/types/global.types";
+
+interface GetRebalancingPlanParams {
+  baseCurrency: string | null;
+  scope: AllocationTargetScope | null;
+  cash: number | null;
+  noSell: boolean | null;
+  tolerance: number | null; // percentage points
+}
+
+/**
+ * Plan buy/sell quantities that bring the portfolio back to the user's
+ * target weights, optionally investing new cash.
+ */
+export async function getRebalancingPlan(params: GetRebalancingPlanParams) {
+  try {
+    const baseCurrency =
+      params.baseCurrency ?? (await fetchProfile()).profile.display_currency;
+    const scope = params.scope ?? "category";
+
+    const plan = await calculateRebalancingPlan(baseCurrency, {
+      scope,
+      cash: params.cash ?? 0,
+      noSell: params.noSell ?? false,
+      tolerance: params.tolerance ?? undefined,
+    });
+
+    if (!plan.groups.length) {
+      return {
+        baseCurrency,
+        scope,
+        hasTargets: false,
+        message: `No ${scope} targets set. The user can add them in the Rebalancing widget on the dashboard.`,
+      };
+    }
+
+    return { baseCurrency, scope, hasTargets: true, ...plan };
+  } catch (error) {
+    console.error("Error calculating rebalancing plan:", error);
+    throw new Error(
+      `Failed to calculate rebalancing plan: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+}
@@ -0,0 +1,93 @@
+"use server";
+
+import { fetchProfile } from "@/server/profile/actions";
+import { runRetirementSimulation } from "@/server/analysis/simulation";
+
+interface GetRetirementSimulationParams {
+  baseCurrency: string | null;
+  currentAge: number | null;
+  retirementAge: number | null;
+  lifeExpectancy: number | null;
+  annualContribution: number | null;
+  withdrawalRate: number | null; // percentage
+  annualWithdrawal: number | null;
+  inflation: number | null; // percentage
+  categoryAssumptions: Array<{
+    categoryId: string;
+    expectedReturn: number | null; // percentage
+    volatility: number | null; // percentage
+  }> | null;
+  seed: number | null;
+}
+
+// Bands are reported every few years to keep the answer small
+const BAND_STEP_YEARS = 5;
+
+const toFraction = (value: number | null) =>
+  value === null ? null : value / 100;
+
+/**
+ * Simulate the current portfolio through retirement with seeded Monte Carlo
+ * paths and report the chance the money lasts.
+ */
+export async function getRetirementSimulation(
+  params: GetRetirementSimulationParams,
+) {
+  try {
+    const baseCurrency =
+      params.baseCurrency ?? (await fetchProfile()).profile.display_currency;
+
+    const simulation = await runRetirementSimulation(baseCurrency, {
+      currentAge: params.currentAge,
+      retirementAge: params.retirementAge,
+      lifeExpectancy: params.lifeExpectancy,
+      annualContribution: params.annualContribution,
+      withdrawalRate: toFraction(params.withdrawalRate),
+      annualWithdrawal: params.annualWithdrawal,
+      inflation: toFraction(params.inflation),
+      seed: params.seed,
+      categoryAssumptions: Object.fromEntries(
+        (params.categoryAssumptions ?? []).map((category) => [
+          category.categoryId,
+          {
+            expectedReturn: toFraction(category.expectedReturn),
+            volatility: toFraction(category.volatility),
+          },
+        ]),
+      ),
+    });
+
+    const { assumptions, result } = simulation;
+    const yearsToRetirement = Math.max(
+      0,
+      assumptions.retirementAge - assumptions.currentAge,
+    );
+
+    return {
+      baseCurrency,
+      valuesIn: "today's money (inflation-adjusted)",
+      ageAssumed: simulation.ageAssumed,
+      assumptions,
+      assets: simulation.assets,
+      successProbability: result.successProbability,
+      medianAtRetirement: result.medianAtRetirement,
+      medianFirstYearWithdrawal: result.medianWithdrawal,
+      bands: result.years
+        .filter(
+          (year, i) =>
+            year.year % BAND_STEP_YEARS === 0 ||
+            year.year === yearsToRetirement ||
+            i === result.years.length - 1,
+        )
+        .map((year) => ({ age: assumptions.currentAge + year.year, ...year })),
+      message: simulation.assets.length
+        ? undefined
+        : "The portfolio has no assets to simulate.",
+    };
+  } catch (error) {
+    console.error("Error running retirement simulation:", error);
+    throw new Error(
+      `Failed to run retirement simulation: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+}
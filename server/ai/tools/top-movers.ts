@@ -15,6 +15,7 @@ export async function getTopMovers(params: GetTopMoversParams) {
   const perf = await getAssetsPerformance({
     baseCurrency: params.baseCurrency,
     positionIds: null, // Not filtering by specific positions
+    accountId: null,
     startDate: params.startDate,
     endDate: params.endDate,
   });
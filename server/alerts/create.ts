@@ -0,0 +1,37 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getCurrentUser } from "@/server/auth/actions";
+import { parseAlertRuleFormData } from "@/server/alerts/utils";
+
+/**
+ * Create an alert rule. It is first evaluated by the next alerts run.
+ */
+export async function createAlertRule(formData: FormData) {
+  const { supabase, user } = await getCurrentUser();
+
+  const parsed = parseAlertRuleFormData(formData);
+  if (!parsed.ok) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      message: parsed.message,
+    } as const;
+  }
+
+  const { error } = await supabase
+    .from("alert_rules")
+    .insert({ user_id: user.id, ...parsed.values });
+
+  if (error) {
+    return {
+      success: false,
+      code: error.code,
+      message: error.message,
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
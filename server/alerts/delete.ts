@@ -0,0 +1,29 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getCurrentUser } from "@/server/auth/actions";
+
+/**
+ * Delete an alert rule. Its past notifications stay in the inbox.
+ */
+export async function deleteAlertRule(alertRuleId: string) {
+  const { supabase, user } = await getCurrentUser();
+
+  const { error } = await supabase
+    .from("alert_rules")
+    .delete()
+    .eq("id", alertRuleId)
+    .eq("user_id", user.id);
+
+  if (error) {
+    return {
+      success: false,
+      code: error.code,
+      message: error.message,
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
@@ -0,0 +1,324 @@
+import { format, startOfDay, subDays } from "date-fns";
+
+import { createServiceClient } from "@/supabase/service";
+
+import { fetchPositions } from "@/server/positions/fetch";
+import { fetchQuotes } from "@/server/quotes/fetch";
+import { fetchExchangeRates } from "@/server/exchange-rates/fetch";
+import { calculateNetWorth } from "@/server/analysis/net-worth";
+import { sendNotification } from "@/server/notifications/send";
+
+import {
+  evaluateAllocationDrift,
+  evaluateDailyMove,
+  evaluateExDividend,
+  evaluateNetWorthCross,
+  evaluatePriceCross,
+  shouldNotify,
+} from "@/lib/alerts";
+import { convertCurrency } from "@/lib/currency-conversion";
+import { planRebalance } from "@/lib/rebalancing";
+
+import { ALLOCATION_TARGET_SCOPES } from "@/types/enums";
+import type { AlertTrigger } from "@/lib/alerts";
+import type { RebalancingHolding } from "@/lib/rebalancing";
+import type { PositionsQueryContext } from "@/server/positions/fetch";
+import type { AlertRule } from "@/types/global.types";
+
+type ServiceClient = ReturnType<typeof createServiceClient>;
+
+/**
+ * Lazily loaded data shared by all rules of one user, so five price rules
+ * don't fetch positions five times.
+ */
+function createUserDataLoader(
+  supabase: ServiceClient,
+  userId: string,
+  asOfDate: Date,
+) {
+  const context: PositionsQueryContext = { supabaseClient: supabase, userId };
+  const memo = new Map<string, Promise<unknown>>();
+
+  function once<T>(key: string, load: () => Promise<T>) {
+    if (!memo.has(key)) memo.set(key, load());
+    return memo.get(key) as Promise<T>;
+  }
+
+  const positions = (date: Date) =>
+    once(`positions|${format(date, "yyyy-MM-dd")}`, () =>
+      fetchPositions({ asOfDate: date }, context),
+    );
+
+  const symbols = (symbolIds: string[]) =>
+    once(`symbols|${[...symbolIds].sort().join(",")}`, async () => {
+      const bySymbolId = new Map<
+        string,
+        { ticker: string; currency: string; sector: string | null }
+      >();
+      if (!symbolIds.length) return bySymbolId;
+
+      const { data, error } = await supabase
+        .from("symbols")
+        .select("id, ticker, currency, sector")
+        .in("id", symbolIds);
+
+      if (error) throw new Error(`Failed to fetch symbols: ${error.message}`);
+
+      data.forEach(({ id, ...symbol }) => bySymbolId.set(id, symbol));
+      return bySymbolId;
+    });
+
+  const allocationGroups = () =>
+    once("allocation", async () => {
+      const { data: profile, error: profileError } = await supabase
+        .from("profiles")
+        .select("display_currency")
+        .eq("user_id", userId)
+        .single();
+
+      if (profileError) {
+        throw new Error(`Failed to fetch profile: ${profileError.message}`);
+      }
+
+      const { data: targets, error: targetsError } = await supabase
+        .from("allocation_targets")
+        .select("*")
+        .eq("user_id", userId);
+
+      if (targetsError) {
+        throw new Error(
+          `Failed to fetch allocation targets: ${targetsError.message}`,
+        );
+      }
+      if (!targets.length) return [];
+
+      const held = (await positions(asOfDate)).filter(
+        (position) =>
+          position.type === "asset" && position.current_quantity > 0,
+      );
+
+      // Value holdings in one currency
+      const currency = profile.display_currency;
+      const exchangeRates = await fetchExchangeRates(
+        Array.from(new Set([currency, ...held.map((p) => p.currency)])).map(
+          (c) => ({ currency: c, date: asOfDate }),
+        ),
+      );
+
+      const symbolsById = await symbols(
+        Array.from(
+          new Set(held.flatMap((p) => (p.symbol_id ? [p.symbol_id] : []))),
+        ),
+      );
+
+      const holdings: RebalancingHolding[] = held.map((position) => ({
+        positionId: position.id,
+        name: position.name,
+        categoryId: position.category_id,
+        sector: position.symbol_id
+          ? (symbolsById.get(position.symbol_id)?.sector ?? null)
+          : null,
+        value: convertCurrency(
+          position.total_value,
+          position.currency,
+          currency,
+          exchangeRates,
+          asOfDate,
+        ),
+        unitPrice: 0,
+      }));
+
+      // Target names for the message: category, position or sector
+      const nameByKey = new Map<string, string>();
+      held.forEach((position) => {
+        nameByKey.set(position.id, position.name);
+        nameByKey.set(
+          position.category_id,
+          position.category_name ?? position.category_id,
+        );
+      });
+
+      return ALLOCATION_TARGET_SCOPES.flatMap((scope) => {
+        const scopeTargets = targets
+          .filter((target) => target.scope === scope)
+          .map((target) => ({
+            key: target.target_key,
+            name: nameByKey.get(target.target_key) ?? target.target_key,
+            weight: target.weight,
+            tolerance: target.tolerance,
+          }));
+
+        if (!scopeTargets.length) return [];
+        return planRebalance(holdings, scopeTargets, { scope, cash: 0 }).groups;
+      });
+    });
+
+  return { supabase, context, positions, symbols, allocationGroups };
+}
+
+type UserDataLoader = ReturnType<typeof createUserDataLoader>;
+
+/**
+ * Check one rule against the loaded data.
+ * Returns the trigger when its condition holds, plus where it should link.
+ */
+async function evaluateRule(
+  rule: AlertRule,
+  loader: UserDataLoader,
+  asOfDate: Date,
+): Promise<{ trigger: AlertTrigger | null; link: string | null }> {
+  const dateKey = format(asOfDate, "yyyy-MM-dd");
+
+  switch (rule.type) {
+    case "price_cross": {
+      const symbolId = rule.symbol_id!;
+      const [quotes, symbolsById] = await Promise.all([
+        fetchQuotes([{ symbolLookup: symbolId, date: new Date(dateKey) }]),
+        loader.symbols([symbolId]),
+      ]);
+      const price = quotes.get(`${symbolId}|${dateKey}`);
+      const symbol = symbolsById.get(symbolId);
+      if (price === undefined || !symbol) return { trigger: null, link: null };
+
+      return {
+        trigger: evaluatePriceCross(rule, { ...symbol, price }),
+        link: "/dashboard/alerts",
+      };
+    }
+
+    case "daily_move": {
+      const [today, yesterday] = await Promise.all([
+        loader.positions(asOfDate),
+        loader.positions(subDays(asOfDate, 1)),
+      ]);
+      const current = today.find((p) => p.id === rule.position_id);
+      const previous = yesterday.find((p) => p.id === rule.position_id);
+      if (!current || !previous) return { trigger: null, link: null };
+
+      return {
+        trigger: evaluateDailyMove(rule, {
+          positionName: current.name,
+          previousUnitValue: previous.current_unit_value,
+          currentUnitValue: current.current_unit_value,
+          currency: current.currency,
+          date: dateKey,
+        }),
+        link: `/dashboard/assets/${current.id}`,
+      };
+    }
+
+    case "net_worth_cross": {
+      const netWorth = await calculateNetWorth(
+        rule.currency!,
+        asOfDate,
+        loader.context,
+      );
+
+      return {
+        trigger: evaluateNetWorthCross(rule, netWorth),
+        link: "/dashboard",
+      };
+    }
+
+    case "allocation_drift":
+      return {
+        trigger: evaluateAllocationDrift(rule, await loader.allocationGroups()),
+        link: "/dashboard",
+      };
+
+    case "ex_dividend": {
+      // No symbol = everything currently held
+      const symbolIds = rule.symbol_id
+        ? [rule.symbol_id]
+        : Array.from(
+            new Set(
+              (await loader.positions(asOfDate)).flatMap((p) =>
+                p.symbol_id && p.current_quantity > 0 ? [p.symbol_id] : [],
+              ),
+            ),
+          );
+      if (!symbolIds.length) return { trigger: null, link: null };
+
+      const [{ data: dividends, error }, symbolsById] = await Promise.all([
+        loader.supabase
+          .from("dividends")
+          .select("symbol_id, ex_dividend_date")
+          .in("symbol_id", symbolIds)
+          .gte("ex_dividend_date", dateKey),
+        loader.symbols(symbolIds),
+      ]);
+
+      if (error) throw new Error(`Failed to fetch dividends: ${error.message}`);
+
+      return {
+        trigger: evaluateExDividend(
+          rule,
+          dividends.map((dividend) => ({
+            ticker:
+              symbolsById.get(dividend.symbol_id)?.ticker ?? dividend.symbol_id,
+            exDividendDate: dividend.ex_dividend_date!,
+          })),
+          asOfDate,
+        ),
+        link: "/dashboard/alerts",
+      };
+    }
+  }
+}
+
+/**
+ * Evaluate a user's active alert rules. Rules whose condition holds for a new
+ * event land in the notification inbox (and go out by email when enabled);
+ * rules whose condition cleared are re-armed.
+ */
+export async function evaluateUserAlerts(
+  userId: string,
+  rules: AlertRule[],
+  asOfDate: Date = startOfDay(new Date()),
+) {
+  const supabase = createServiceClient();
+  const loader = createUserDataLoader(supabase, userId, asOfDate);
+
+  let triggered = 0;
+  let failed = 0;
+
+  for (const rule of rules) {
+    try {
+      const { trigger, link } = await evaluateRule(rule, loader, asOfDate);
+
+      if (shouldNotify(rule.last_trigger_key, trigger)) {
+        const result = await sendNotification({
+          userId,
+          alertRuleId: rule.id,
+          title: trigger.title,
+          body: trigger.body,
+          link,
+          email: rule.email_enabled,
+        });
+        if (!result.success) throw new Error(result.message);
+
+        await supabase
+          .from("alert_rules")
+          .update({
+            last_trigger_key: trigger.key,
+            last_triggered_at: new Date().toISOString(),
+          })
+          .eq("id", rule.id);
+
+        triggered += 1;
+      } else if (!trigger && rule.last_trigger_key !== null) {
+        // Condition cleared: notify again next time it holds
+        await supabase
+          .from("alert_rules")
+          .update({ last_trigger_key: null })
+          .eq("id", rule.id);
+      }
+    } catch (error) {
+      // Quote lookups throw for unresolvable symbols
+      console.error(`Alert rule ${rule.id} failed:`, error);
+      failed += 1;
+    }
+  }
+
+  return { evaluated: rules.length - failed, triggered, failed };
+}
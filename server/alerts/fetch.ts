@@ -0,0 +1,52 @@
+"use server";
+
+import { cache } from "react";
+
+import { createServiceClient } from "@/supabase/service";
+
+import { getCurrentUser } from "@/server/auth/actions";
+
+/**
+ * Fetch the user's alert rules, oldest first, with the watched symbol and
+ * position names.
+ */
+export const fetchAlertRules = cache(async () => {
+  const { supabase, user } = await getCurrentUser();
+
+  const { data, error } = await supabase
+    .from("alert_rules")
+    .select(
+      "*, symbols(ticker, currency), positions!alert_rules_position_id_fkey(name)",
+    )
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch alert rules: ${error.message}`);
+  }
+
+  return data.map(({ symbols: symbol, positions: position, ...rule }) => ({
+    ...rule,
+    symbol,
+    position,
+  }));
+});
+
+/**
+ * Fetch all active alert rules across users.
+ * Used by the cron job that evaluates alerts.
+ */
+export async function fetchActiveAlertRules() {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from("alert_rules")
+    .select("*")
+    .eq("is_active", true);
+
+  if (error) {
+    throw new Error(`Failed to fetch alert rules: ${error.message}`);
+  }
+
+  return data || [];
+}
@@ -0,0 +1,71 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getCurrentUser } from "@/server/auth/actions";
+import { parseAlertRuleFormData } from "@/server/alerts/utils";
+
+/**
+ * Update an alert rule. The edited rule notifies again if its new condition
+ * already holds.
+ */
+export async function updateAlertRule(formData: FormData, alertRuleId: string) {
+  const { supabase, user } = await getCurrentUser();
+
+  const parsed = parseAlertRuleFormData(formData);
+  if (!parsed.ok) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      message: parsed.message,
+    } as const;
+  }
+
+  const { data: rule, error } = await supabase
+    .from("alert_rules")
+    .update({ ...parsed.values, last_trigger_key: null })
+    .eq("id", alertRuleId)
+    .eq("user_id", user.id)
+    .select("id")
+    .maybeSingle();
+
+  if (error || !rule) {
+    return {
+      success: false,
+      code: error?.code ?? "NOT_FOUND",
+      message: error?.message ?? "Alert rule not found",
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
+
+/**
+ * Pause or resume an alert rule.
+ */
+export async function setAlertRuleActive(
+  alertRuleId: string,
+  isActive: boolean,
+) {
+  const { supabase, user } = await getCurrentUser();
+
+  const { data: rule, error } = await supabase
+    .from("alert_rules")
+    .update({ is_active: isActive })
+    .eq("id", alertRuleId)
+    .eq("user_id", user.id)
+    .select("id")
+    .maybeSingle();
+
+  if (error || !rule) {
+    return {
+      success: false,
+      code: error?.code ?? "NOT_FOUND",
+      message: error?.message ?? "Alert rule not found",
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
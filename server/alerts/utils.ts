@@ -0,0 +1,128 @@
+import { ALERT_DIRECTIONS, ALERT_RULE_TYPES } from "@/types/enums";
+
+import type { AlertRule } from "@/types/global.types";
+
+export type AlertRuleFormValues = Pick<
+  AlertRule,
+  | "type"
+  | "symbol_id"
+  | "position_id"
+  | "direction"
+  | "threshold"
+  | "currency"
+  | "days_before"
+  | "email_enabled"
+>;
+
+function parseOptionalNumber(raw: FormDataEntryValue | null) {
+  if (raw === null || String(raw).trim() === "") return null;
+  return Number(raw);
+}
+
+function parseOptionalString(raw: FormDataEntryValue | null) {
+  const value = raw === null ? "" : String(raw).trim();
+  return value === "" ? null : value;
+}
+
+/**
+ * Parse and validate alert rule fields from FormData.
+ * Fields the rule type doesn't use are cleared.
+ */
+export function parseAlertRuleFormData(
+  formData: FormData,
+): { ok: true; values: AlertRuleFormValues } | { ok: false; message: string } {
+  const type = String(formData.get("type") ?? "");
+  const symbolId = parseOptionalString(formData.get("symbol_id"));
+  const positionId = parseOptionalString(formData.get("position_id"));
+  const direction = parseOptionalString(formData.get("direction"));
+  const threshold = parseOptionalNumber(formData.get("threshold"));
+  const currency = parseOptionalString(formData.get("currency"));
+  const daysBefore = parseOptionalNumber(formData.get("days_before"));
+
+  if (!(ALERT_RULE_TYPES as readonly string[]).includes(type)) {
+    return { ok: false, message: "Invalid alert type" };
+  }
+
+  const values: AlertRuleFormValues = {
+    type: type as AlertRuleFormValues["type"],
+    symbol_id: null,
+    position_id: null,
+    direction: null,
+    threshold: null,
+    currency: null,
+    days_before: null,
+    email_enabled: formData.get("email_enabled") === "true",
+  };
+
+  const isValidThreshold =
+    threshold !== null && Number.isFinite(threshold) && threshold > 0;
+  const isValidDirection =
+    direction !== null &&
+    (ALERT_DIRECTIONS as readonly string[]).includes(direction);
+
+  switch (values.type) {
+    case "price_cross":
+      if (!symbolId) return { ok: false, message: "A symbol is required" };
+      if (!isValidDirection) return { ok: false, message: "Invalid direction" };
+      if (!isValidThreshold) {
+        return { ok: false, message: "Price must be greater than 0" };
+      }
+      return {
+        ok: true,
+        values: { ...values, symbol_id: symbolId, direction, threshold },
+      };
+
+    case "daily_move":
+      if (!positionId) return { ok: false, message: "A position is required" };
+      if (!isValidThreshold || threshold > 100) {
+        return { ok: false, message: "Move must be between 0 and 100%" };
+      }
+      return {
+        ok: true,
+        values: { ...values, position_id: positionId, threshold },
+      };
+
+    case "net_worth_cross":
+      if (!isValidDirection) return { ok: false, message: "Invalid direction" };
+      if (!isValidThreshold) {
+        return { ok: false, message: "Net worth must be greater than 0" };
+      }
+      if (!currency || !/^[A-Z]{3}$/.test(currency.toUpperCase())) {
+        return { ok: false, message: "A valid currency is required" };
+      }
+      return {
+        ok: true,
+        values: {
+          ...values,
+          direction,
+          threshold,
+          currency: currency.toUpperCase(),
+        },
+      };
+
+    case "allocation_drift":
+      // No threshold = each target's own tolerance
+      if (threshold !== null && (!isValidThreshold || threshold > 100)) {
+        return {
+          ok: false,
+          message: "Tolerance must be between 0 and 100 points",
+        };
+      }
+      return { ok: true, values: { ...values, threshold } };
+
+    case "ex_dividend":
+      if (
+        daysBefore === null ||
+        !Number.isInteger(daysBefore) ||
+        daysBefore < 0 ||
+        daysBefore > 60
+      ) {
+        return { ok: false, message: "Days ahead must be between 0 and 60" };
+      }
+      // No symbol = every held symbol
+      return {
+        ok: true,
+        values: { ...values, symbol_id: symbolId, days_before: daysBefore },
+      };
+  }
+}
@@ -0,0 +1,24 @@
+"use server";
+
+import { cache } from "react";
+
+import { getCurrentUser } from "@/server/auth/actions";
+
+/**
+ * Fetch the user's allocation targets, largest weight first.
+ */
+export const fetchAllocationTargets = cache(async () => {
+  const { supabase, user } = await getCurrentUser();
+
+  const { data: targets, error } = await supabase
+    .from("allocation_targets")
+    .select("*")
+    .eq("user_id", user.id)
+    .order("weight", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch allocation targets: ${error.message}`);
+  }
+
+  return targets;
+});
@@ -0,0 +1,133 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getCurrentUser } from "@/server/auth/actions";
+
+import { ALLOCATION_TARGET_SCOPES } from "@/types/enums";
+import type { AllocationTargetScope } from "@/types/global.types";
+
+type AllocationTargetInput = {
+  target_key: string;
+  weight: number;
+  tolerance: number | null;
+};
+
+// Allow for rounding in user-entered weights
+const WEIGHT_TOTAL_TOLERANCE = 0.01;
+
+/**
+ * Replace the user's targets for one scope. An empty list clears the scope;
+ * otherwise weights must add up to 100%.
+ */
+export async function updateAllocationTargets(
+  scope: AllocationTargetScope,
+  targets: AllocationTargetInput[],
+) {
+  const { supabase, user } = await getCurrentUser();
+
+  if (!ALLOCATION_TARGET_SCOPES.includes(scope)) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      message: "Unknown allocation target scope",
+    } as const;
+  }
+
+  const keys = new Set(targets.map((target) => target.target_key));
+  if (keys.size !== targets.length || keys.has("")) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      message: "Each target must be set and may only appear once",
+    } as const;
+  }
+
+  const invalid = targets.some(
+    (target) =>
+      !Number.isFinite(target.weight) ||
+      target.weight <= 0 ||
+      target.weight > 100 ||
+      (target.tolerance !== null &&
+        (!Number.isFinite(target.tolerance) ||
+          target.tolerance < 0 ||
+          target.tolerance > 100)),
+  );
+  if (invalid) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      message: "Weights and tolerances must be between 0 and 100",
+    } as const;
+  }
+
+  const weightTotal = targets.reduce((sum, target) => sum + target.weight, 0);
+  if (targets.length && Math.abs(weightTotal - 100) > WEIGHT_TOTAL_TOLERANCE) {
+    return {
+      success: false,
+      code: "INVALID_WEIGHTS",
+      message: "Target weights must add up to 100%",
+    } as const;
+  }
+
+  // Upsert the new targets first, then drop the ones no longer listed
+  if (targets.length) {
+    const { error: upsertError } = await supabase
+      .from("allocation_targets")
+      .upsert(
+        targets.map((target) => ({
+          user_id: user.id,
+          scope,
+          target_key: target.target_key,
+          weight: target.weight,
+          tolerance: target.tolerance,
+        })),
+        { onConflict: "user_id,scope,target_key" },
+      );
+
+    if (upsertError) {
+      return {
+        success: false,
+        code: upsertError.code,
+        message: upsertError.message,
+      } as const;
+    }
+  }
+
+  const { data: existing, error: fetchError } = await supabase
+    .from("allocation_targets")
+    .select("id, target_key")
+    .eq("user_id", user.id)
+    .eq("scope", scope);
+
+  if (fetchError) {
+    return {
+      success: false,
+      code: fetchError.code,
+      message: fetchError.message,
+    } as const;
+  }
+
+  const staleIds = (existing ?? [])
+    .filter((row) => !keys.has(row.target_key))
+    .map((row) => row.id);
+
+  if (staleIds.length) {
+    const { error: deleteError } = await supabase
+      .from("allocation_targets")
+      .delete()
+      .in("id", staleIds)
+      .eq("user_id", user.id);
+
+    if (deleteError) {
+      return {
+        success: false,
+        code: deleteError.code,
+        message: deleteError.message,
+      } as const;
+    }
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
@@ -0,0 +1,65 @@
+"use server";
+
+import { cache } from "react";
+import { startOfDay } from "date-fns";
+
+import { fetchPositions } from "@/server/positions/fetch";
+import { fetchExchangeRates } from "@/server/exchange-rates/fetch";
+
+import { convertCurrency } from "@/lib/currency-conversion";
+
+export interface AccountBreakdown {
+  /** null for positions without an account */
+  accountId: string | null;
+  netWorth: number;
+  positionsCount: number;
+}
+
+const getDefaultAsOfDate = cache(() => startOfDay(new Date()));
+
+/**
+ * Net worth and number of active positions per account, in the target
+ * currency. Positions without an account are grouped under `null`.
+ */
+export const calculateAccountBreakdown = cache(
+  async (targetCurrency: string): Promise<AccountBreakdown[]> => {
+    const asOfDate = getDefaultAsOfDate();
+
+    const positions = await fetchPositions({ asOfDate });
+    if (!positions.length) return [];
+
+    const uniqueCurrencies = new Set<string>([targetCurrency]);
+    positions.forEach((position) => uniqueCurrencies.add(position.currency));
+
+    const exchangeRates = await fetchExchangeRates(
+      Array.from(uniqueCurrencies).map((currency) => ({
+        currency,
+        date: asOfDate,
+      })),
+    );
+
+    // Sum converted values per account (assets add, liabilities subtract)
+    const byAccount = new Map<string | null, AccountBreakdown>();
+    positions.forEach((position) => {
+      const accountId = position.account_id;
+      const entry = byAccount.get(accountId) ?? {
+        accountId,
+        netWorth: 0,
+        positionsCount: 0,
+      };
+
+      const value = convertCurrency(
+        position.total_value,
+        position.currency,
+        targetCurrency,
+        exchangeRates,
+        asOfDate,
+      );
+      entry.netWorth += position.type === "liability" ? -value : value;
+      entry.positionsCount += 1;
+      byAccount.set(accountId, entry);
+    });
+
+    return Array.from(byAccount.values());
+  },
+);
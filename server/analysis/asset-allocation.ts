@@ -5,20 +5,25 @@ import { cache } from "react";
 import { fetchPositions } from "@/server/positions/fetch";
 import { fetchExchangeRates } from "@/server/exchange-rates/fetch";
 
-import { convertCurrency } from "@/lib/currency-conversion";
+import {
+  convertCurrency,
+  type ConversionIssue,
+} from "@/lib/currency-conversion";
 import type { PositionsQueryContext } from "@/server/positions/fetch";
 
 const getDefaultAsOfDate = cache(() => new Date());
 
 /**
- * Calculate asset allocation by category at a specific date.
+ * Calculate asset allocation by category at a specific date, optionally
+ * for a single account, with the exchange rates that were stale or missing.
  * Uses bulk market data fetching for optimal performance.
  */
-export const calculateAssetAllocation = cache(
+export const valueAssetAllocation = cache(
   async (
     targetCurrency: string,
     date?: Date,
     context?: PositionsQueryContext,
+    accountId?: string | null,
   ) => {
     const asOfDate = date ?? getDefaultAsOfDate();
     // 1. Fetch positions valued as-of date (no snapshots histories needed)
@@ -27,12 +32,13 @@ export const calculateAssetAllocation = cache(
         positionType: "asset",
         includeArchived: true,
         asOfDate,
+        accountId,
       },
       context,
     );
 
     if (!positions?.length) {
-      return [];
+      return { allocation: [], rateIssues: [] as ConversionIssue[] };
     }
 
     // 2. Fetch FX rates for conversion
@@ -91,6 +97,30 @@ export const calculateAssetAllocation = cache(
       }))
       .sort((a, b) => b.total_value - a.total_value);
 
-    return assetAllocation;
+    return {
+      allocation: assetAllocation,
+      rateIssues: exchangeRates.rateIssues,
+    };
+  },
+);
+
+/**
+ * Asset allocation by category at a specific date (see
+ * `valueAssetAllocation`).
+ */
+export const calculateAssetAllocation = cache(
+  async (
+    targetCurrency: string,
+    date?: Date,
+    context?: PositionsQueryContext,
+    accountId?: string | null,
+  ) => {
+    const { allocation } = await valueAssetAllocation(
+      targetCurrency,
+      date,
+      context,
+      accountId,
+    );
+    return allocation;
   },
 );
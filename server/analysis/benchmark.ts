@@ -0,0 +1,259 @@
+"use server";
+
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+
+import { fetchProfile } from "@/server/profile/actions";
+import { fetchQuotes } from "@/server/quotes/fetch";
+import { fetchExchangeRates } from "@/server/exchange-rates/fetch";
+import { fetchPositionValueHistory } from "@/server/analysis/position-values";
+import { fetchExternalCashFlows } from "@/server/analysis/returns";
+import { resolveSymbolInput } from "@/server/symbols/resolver";
+import { createSymbol } from "@/server/symbols/create";
+
+import { convertCurrency, mergeRateIssues } from "@/lib/currency-conversion";
+import {
+  compareToBenchmarkSeries,
+  MAX_BENCHMARKS,
+  rebaseSeries,
+} from "@/lib/benchmark";
+import { calculateTimeWeightedSeries } from "@/lib/returns";
+
+import type { BenchmarkStats } from "@/lib/benchmark";
+import type { ConversionIssue } from "@/lib/currency-conversion";
+import type { PositionsQueryContext } from "@/server/positions/fetch";
+import type { Symbol } from "@/types/global.types";
+
+export interface BenchmarkSeries extends BenchmarkStats {
+  symbolId: string;
+  ticker: string;
+  name: string | null;
+  /** Prices in the target currency, rebased to the portfolio start value. */
+  values: (number | null)[];
+}
+
+export interface BenchmarkComparison {
+  currency: string;
+  /** YYYY-MM-DD, from the first day with capital invested. */
+  dates: string[];
+  /** Portfolio value on the first date, where every line starts. */
+  startValue: number;
+  /** Portfolio growth without cash flows, rebased to the start value. */
+  portfolio: number[];
+  /** Cumulative time-weighted return as a fraction. */
+  portfolioReturn: number | null;
+  benchmarks: BenchmarkSeries[];
+  /** Inputs that could not be resolved to a symbol or priced. */
+  unresolved: string[];
+  /** Exchange rates the portfolio and benchmark lines used that were stale or missing. */
+  rateIssues: ConversionIssue[];
+}
+
+interface FetchBenchmarkComparisonParams {
+  /** Tickers or symbol IDs, e.g. ["VWCE.DE", "SPY"] */
+  symbols: string[];
+  targetCurrency?: string;
+  startDate: Date;
+  endDate?: Date;
+  positionIds?: string[];
+  accountId?: string | null;
+  /** Another portfolio than the one being viewed, e.g. a public one */
+  context?: PositionsQueryContext;
+}
+
+// Long ranges are thinned out to keep charts and quote lookups small
+const MAX_POINTS = 200;
+
+// Existing symbols first, otherwise add it from the market data provider
+async function resolveBenchmarkSymbol(input: string): Promise<Symbol | null> {
+  const resolved = await resolveSymbolInput(input);
+  if (resolved) return resolved.symbol;
+
+  const created = await createSymbol(input.trim().toUpperCase());
+  return created.success && created.data ? created.data : null;
+}
+
+/**
+ * Compare asset performance with benchmark symbols over a date range.
+ *
+ * The portfolio line is time-weighted (deposits, withdrawals, buys and sells
+ * don't move it) and every benchmark is converted to the target currency and
+ * rebased to the portfolio's starting value, so the lines are comparable.
+ * Restrict to some positions with `positionIds` (e.g. a single asset) or to
+ * an account with `accountId`.
+ */
+export async function fetchBenchmarkComparison({
+  symbols,
+  targetCurrency,
+  startDate,
+  endDate = new Date(),
+  positionIds,
+  accountId,
+  context,
+}: FetchBenchmarkComparisonParams): Promise<BenchmarkComparison> {
+  if (!targetCurrency) {
+    const { profile } = await fetchProfile();
+    targetCurrency = profile.display_currency;
+  }
+
+  // 1) Date grid, thinned for long ranges (the end date is always included)
+  const totalDays = Math.max(0, differenceInCalendarDays(endDate, startDate));
+  const step = Math.max(1, Math.ceil((totalDays + 1) / MAX_POINTS));
+  const gridKeys = new Set<string>();
+  for (let day = 0; day <= totalDays; day += step) {
+    gridKeys.add(format(addDays(startDate, day), "yyyy-MM-dd"));
+  }
+  gridKeys.add(format(endDate, "yyyy-MM-dd"));
+
+  // 2) Value positions on the grid and every flow date
+  const { flowsByPosition, rateIssues: flowRateIssues } =
+    await fetchExternalCashFlows({
+      targetCurrency,
+      startDate,
+      endDate,
+      positionIds,
+      accountId,
+      context,
+    });
+  const flows = Array.from(flowsByPosition.values()).flat();
+
+  const valuationKeys = Array.from(
+    new Set([...gridKeys, ...flows.map((flow) => flow.date)]),
+  ).sort();
+
+  const {
+    positions,
+    valuesByPosition,
+    rateIssues: valueRateIssues,
+  } = await fetchPositionValueHistory({
+    targetCurrency,
+    dates: valuationKeys.map((dateKey) => parseISO(dateKey)),
+    positionIds,
+    positionType: "asset",
+    accountId,
+    context,
+  });
+
+  const values = valuationKeys.map((date, index) => ({
+    date,
+    value: positions.reduce(
+      (sum, position) =>
+        sum + (valuesByPosition.get(position.id)?.[index] ?? 0),
+      0,
+    ),
+  }));
+
+  // 3) Cash-flow adjusted growth, from the first day with capital invested
+  const growth = calculateTimeWeightedSeries(values, flows);
+  const firstInvested = values.findIndex(
+    (point) => point.value > 0 && gridKeys.has(point.date),
+  );
+
+  const emptyComparison: BenchmarkComparison = {
+    currency: targetCurrency,
+    dates: [],
+    startValue: 0,
+    portfolio: [],
+    portfolioReturn: null,
+    benchmarks: [],
+    unresolved: [],
+    rateIssues: mergeRateIssues(flowRateIssues, valueRateIssues),
+  };
+  if (firstInvested < 0) return emptyComparison;
+
+  const gridIndexes = valuationKeys.flatMap((date, index) =>
+    index >= firstInvested && gridKeys.has(date) ? [index] : [],
+  );
+  const dates = gridIndexes.map((index) => valuationKeys[index]);
+  const startValue = values[firstInvested].value;
+  const portfolio = gridIndexes.map(
+    (index) => (growth[index] / growth[firstInvested]) * startValue,
+  );
+
+  // 4) Resolve benchmarks (deduplicated, capped)
+  const inputs = Array.from(
+    new Set(symbols.map((symbol) => symbol.trim()).filter(Boolean)),
+  ).slice(0, MAX_BENCHMARKS);
+
+  const unresolved: string[] = [];
+  const resolved = await Promise.all(
+    inputs.map(async (input) => {
+      try {
+        return { input, symbol: await resolveBenchmarkSymbol(input) };
+      } catch {
+        return { input, symbol: null };
+      }
+    }),
+  );
+
+  // 5) Price benchmarks on the grid in the target currency
+  const exchangeRates = await fetchExchangeRates(
+    Array.from(
+      new Set([
+        targetCurrency,
+        ...resolved.flatMap(({ symbol }) => (symbol ? [symbol.currency] : [])),
+      ]),
+    ).flatMap((currency) =>
+      dates.map((date) => ({ currency, date: parseISO(date) })),
+    ),
+  );
+
+  const benchmarks: BenchmarkSeries[] = [];
+  for (const { input, symbol } of resolved) {
+    if (!symbol) {
+      unresolved.push(input);
+      continue;
+    }
+
+    let quotes: Map<string, number>;
+    try {
+      quotes = await fetchQuotes(
+        dates.map((date) => ({
+          symbolLookup: symbol.id,
+          date: new Date(date),
+        })),
+      );
+    } catch {
+      unresolved.push(input);
+      continue;
+    }
+
+    const prices = dates.map((date) => {
+      const price = quotes.get(`${symbol.id}|${date}`);
+      return price === undefined
+        ? null
+        : convertCurrency(
+            price,
+            symbol.currency,
+            targetCurrency,
+            exchangeRates,
+            date,
+          );
+    });
+
+    benchmarks.push({
+      symbolId: symbol.id,
+      ticker: symbol.ticker,
+      name: symbol.short_name ?? symbol.long_name,
+      values: rebaseSeries(prices, startValue),
+      ...compareToBenchmarkSeries(portfolio, prices),
+    });
+  }
+
+  return {
+    currency: targetCurrency,
+    dates,
+    startValue,
+    portfolio,
+    portfolioReturn:
+      portfolio.length >= 2
+        ? portfolio[portfolio.length - 1] / startValue - 1
+        : null,
+    benchmarks,
+    unresolved,
+    rateIssues: mergeRateIssues(
+      flowRateIssues,
+      valueRateIssues,
+      exchangeRates.rateIssues,
+    ),
+  };
+}
@@ -0,0 +1,127 @@
+"use server";
+
+import { cache } from "react";
+import { subMonths } from "date-fns";
+
+import { fetchGoals } from "@/server/goals/fetch";
+import { fetchPositions } from "@/server/positions/fetch";
+import { fetchExchangeRates } from "@/server/exchange-rates/fetch";
+import { calculateNetWorth } from "@/server/analysis/net-worth";
+import { calculateReturns } from "@/server/analysis/returns";
+
+import { convertCurrency } from "@/lib/currency-conversion";
+import { projectGoal } from "@/lib/goal-projection";
+
+import type { GoalProjection } from "@/lib/goal-projection";
+import type { Goal } from "@/types/global.types";
+
+export type GoalProgress = GoalProjection & {
+  goal: Goal;
+  currentValue: number;
+  monthlyContribution: number;
+  /** Expected annual return as a fraction. */
+  annualReturn: number;
+  /** Whether the pace comes from the goal settings or recent history. */
+  contributionSource: "goal" | "history";
+  returnSource: "goal" | "history";
+};
+
+// Contribution rate and return are taken from the last 12 months
+const HISTORY_MONTHS = 12;
+
+const getDefaultAsOfDate = cache(() => new Date());
+
+/**
+ * Value each goal today and project it to its deadline. Goals without linked
+ * positions or categories track net worth.
+ */
+export const calculateGoalProgress = cache(
+  async (): Promise<GoalProgress[]> => {
+    const goals = await fetchGoals();
+    if (!goals.length) return [];
+
+    const asOfDate = getDefaultAsOfDate();
+    const historyStart = subMonths(asOfDate, HISTORY_MONTHS);
+
+    const positions = await fetchPositions({
+      positionType: "asset",
+      includeArchived: true,
+      asOfDate,
+    });
+
+    const uniqueCurrencies = new Set<string>();
+    positions.forEach((p) => uniqueCurrencies.add(p.currency));
+    goals.forEach((g) => uniqueCurrencies.add(g.currency));
+
+    const exchangeRates = await fetchExchangeRates(
+      Array.from(uniqueCurrencies).map((currency) => ({
+        currency,
+        date: asOfDate,
+      })),
+    );
+
+    return Promise.all(
+      goals.map(async (goal) => {
+        const isLinked = goal.position_ids.length || goal.category_ids.length;
+
+        const linked = positions.filter(
+          (position) =>
+            goal.position_ids.includes(position.id) ||
+            goal.category_ids.includes(position.category_id),
+        );
+
+        const [currentValue, returns] = await Promise.all([
+          isLinked
+            ? linked.reduce(
+                (sum, position) =>
+                  sum +
+                  convertCurrency(
+                    position.total_value,
+                    position.currency,
+                    goal.currency,
+                    exchangeRates,
+                    asOfDate,
+                  ),
+                0,
+              )
+            : calculateNetWorth(goal.currency),
+          // Linked goals without any position have no history
+          isLinked && !linked.length
+            ? null
+            : calculateReturns({
+                targetCurrency: goal.currency,
+                startDate: historyStart,
+                endDate: asOfDate,
+                positionIds: isLinked ? linked.map((p) => p.id) : undefined,
+              }),
+        ]);
+
+        const monthlyContribution =
+          goal.monthly_contribution ??
+          Math.max(0, (returns?.portfolio.netCashFlows ?? 0) / HISTORY_MONTHS);
+        const annualReturn =
+          goal.expected_return !== null
+            ? goal.expected_return / 100
+            : (returns?.portfolio.moneyWeightedReturn ?? 0);
+
+        return {
+          goal,
+          currentValue,
+          monthlyContribution,
+          annualReturn,
+          contributionSource:
+            goal.monthly_contribution !== null ? "goal" : "history",
+          returnSource: goal.expected_return !== null ? "goal" : "history",
+          ...projectGoal({
+            currentValue,
+            targetAmount: goal.target_amount,
+            deadline: goal.deadline,
+            monthlyContribution,
+            annualReturn,
+            asOfDate,
+          }),
+        } satisfies GoalProgress;
+      }),
+    );
+  },
+);
@@ -0,0 +1,63 @@
+"use server";
+
+import { cache } from "react";
+
+import { getCurrentUser } from "@/server/auth/actions";
+import { fetchProfile } from "@/server/profile/actions";
+import { fetchSharedPortfolios } from "@/server/portfolio-members/fetch";
+import { calculateNetWorth } from "@/server/analysis/net-worth";
+
+import type { HouseholdProfile, PortfolioAccess } from "@/types/global.types";
+
+export interface HouseholdMemberNetWorth {
+  owner: HouseholdProfile;
+  access: PortfolioAccess;
+  netWorth: number;
+}
+
+export interface HouseholdNetWorth {
+  total: number;
+  members: HouseholdMemberNetWorth[];
+}
+
+/**
+ * Combined net worth of the user's own portfolio and every portfolio shared
+ * with them, in the target currency. Ignores the account filter.
+ */
+export const calculateHouseholdNetWorth = cache(
+  async (targetCurrency: string): Promise<HouseholdNetWorth> => {
+    const { supabase, user } = await getCurrentUser();
+    const [{ profile }, sharedPortfolios] = await Promise.all([
+      fetchProfile(),
+      fetchSharedPortfolios(),
+    ]);
+
+    const portfolios: Omit<HouseholdMemberNetWorth, "netWorth">[] = [
+      {
+        owner: {
+          user_id: user.id,
+          username: profile.username,
+          avatar_url: profile.avatar_url,
+        },
+        access: "owner",
+      },
+      ...sharedPortfolios.map(({ owner, role }) => ({ owner, access: role })),
+    ];
+
+    // RLS lets the user's client read every portfolio shared with them
+    const members = await Promise.all(
+      portfolios.map(async (portfolio) => ({
+        ...portfolio,
+        netWorth: await calculateNetWorth(targetCurrency, undefined, {
+          supabaseClient: supabase,
+          userId: portfolio.owner.user_id,
+        }),
+      })),
+    );
+
+    return {
+      total: members.reduce((sum, member) => sum + member.netWorth, 0),
+      members,
+    };
+  },
+);
@@ -1,25 +1,42 @@
 "use server";
 
 import { fetchProfile } from "@/server/profile/actions";
-import { calculateNetWorth } from "@/server/analysis/net-worth";
+import { valueNetWorth } from "@/server/analysis/net-worth";
+import { calculateReturns } from "@/server/analysis/returns";
+
+import {
+  mergeRateIssues,
+  type ConversionIssue,
+} from "@/lib/currency-conversion";
 
 export interface NetWorthChangeData {
   currentValue: number;
   previousValue: number;
   absoluteChange: number;
   percentageChange: number;
+  /** Portfolio gain excluding deposits and withdrawals (buys/sells). */
+  investmentGain: number;
+  /** Cumulative time-weighted return in percent (null if nothing invested). */
+  timeWeightedReturn: number | null;
+  /** Annualized money-weighted return (XIRR) in percent. */
+  moneyWeightedReturn: number | null;
+  /** Exchange rates the figures used that were stale or missing. */
+  rateIssues: ConversionIssue[];
 }
 
 interface FetchNetWorthChangeParams {
   targetCurrency?: string;
   daysBack?: number;
+  /** Limit to one account (null/undefined = consolidated) */
+  accountId?: string | null;
 }
 
 // Fetch net worth change between current date and a past comparison window
 export async function fetchNetWorthChange({
   targetCurrency,
   daysBack = 180,
-}: FetchNetWorthChangeParams) {
+  accountId,
+}: FetchNetWorthChangeParams): Promise<NetWorthChangeData> {
   // Get user's preferred currency if not specified
   if (!targetCurrency) {
     const { profile } = await fetchProfile();
@@ -32,21 +49,39 @@ export async function fetchNetWorthChange({
   const totalDaysBack = Math.max(1, Math.trunc(daysBack));
   comparisonDate.setDate(today.getDate() - totalDaysBack);
 
-  // Calculate net worth at both dates in parallel
-  const [currentValue, previousValue] = await Promise.all([
-    calculateNetWorth(targetCurrency), // Current (defaults to today)
-    calculateNetWorth(targetCurrency, comparisonDate), // Historical
+  // Calculate net worth at both dates and returns over the window in parallel
+  const [current, previous, returns] = await Promise.all([
+    // Current (defaults to today)
+    valueNetWorth(targetCurrency, undefined, undefined, accountId),
+    // Historical
+    valueNetWorth(targetCurrency, comparisonDate, undefined, accountId),
+    calculateReturns({ targetCurrency, startDate: comparisonDate, accountId }),
   ]);
+  const currentValue = current.netWorth;
+  const previousValue = previous.netWorth;
 
   // Calculate changes
   const absoluteChange = currentValue - previousValue;
   const percentageChange =
-    previousValue !== 0 ? (absoluteChange / previousValue) * 100 : 0;
+    previousValue !== 0 ? (absoluteChange / Math.abs(previousValue)) * 100 : 0;
+
+  const { timeWeightedReturn, moneyWeightedReturn, investmentGain } =
+    returns.portfolio;
 
   return {
     currentValue,
     previousValue,
     absoluteChange,
     percentageChange,
+    investmentGain,
+    timeWeightedReturn:
+      timeWeightedReturn != null ? timeWeightedReturn * 100 : null,
+    moneyWeightedReturn:
+      moneyWeightedReturn != null ? moneyWeightedReturn * 100 : null,
+    rateIssues: mergeRateIssues(
+      current.rateIssues,
+      previous.rateIssues,
+      returns.rateIssues,
+    ),
   };
 }
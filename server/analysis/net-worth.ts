@@ -6,21 +6,28 @@ import { startOfDay } from "date-fns";
 import { fetchPositions } from "@/server/positions/fetch";
 import { fetchExchangeRates } from "@/server/exchange-rates/fetch";
 
-import { convertCurrency } from "@/lib/currency-conversion";
+import {
+  convertCurrency,
+  type ConversionIssue,
+} from "@/lib/currency-conversion";
 import type { PositionsQueryContext } from "@/server/positions/fetch";
 
 const getDefaultAsOfDate = cache(() => startOfDay(new Date()));
 
 /**
- * Calculate total net worth in specified target currency at a specific date.
+ * Calculate total net worth in specified target currency at a specific date,
+ * with the exchange rates that were stale or missing.
+ * Liabilities are subtracted from the total. Pass an account ID to limit it
+ * to that account's positions.
  * Uses bulk API calls for optimal performance.
  */
-export const calculateNetWorth = cache(
+export const valueNetWorth = cache(
   async (
     targetCurrency: string,
     date?: Date,
     context?: PositionsQueryContext,
-  ) => {
+    accountId?: string | null,
+  ): Promise<{ netWorth: number; rateIssues: ConversionIssue[] }> => {
     const asOfDate = date ?? getDefaultAsOfDate();
 
     // 1. Fetch positions valued as-of the date
@@ -28,11 +35,12 @@ export const calculateNetWorth = cache(
       {
         includeArchived: true,
         asOfDate,
+        accountId,
       },
       context,
     );
 
-    if (!positions?.length) return 0;
+    if (!positions?.length) return { netWorth: 0, rateIssues: [] };
 
     // 2. Fetch FX rates for conversion
     const uniqueCurrencies = new Set<string>();
@@ -46,7 +54,7 @@ export const calculateNetWorth = cache(
 
     const exchangeRates = await fetchExchangeRates(exchangeRequests);
 
-    // 3. Sum converted values
+    // 3. Sum converted values (assets add, liabilities subtract)
     let netWorth = 0;
     positions.forEach((position) => {
       const localValue = position.total_value;
@@ -57,9 +65,31 @@ export const calculateNetWorth = cache(
         exchangeRates,
         asOfDate,
       );
-      netWorth += convertedValue;
+      netWorth +=
+        position.type === "liability" ? -convertedValue : convertedValue;
     });
 
+    return { netWorth, rateIssues: exchangeRates.rateIssues };
+  },
+);
+
+/**
+ * Total net worth in the target currency at a specific date (see
+ * `valueNetWorth`).
+ */
+export const calculateNetWorth = cache(
+  async (
+    targetCurrency: string,
+    date?: Date,
+    context?: PositionsQueryContext,
+    accountId?: string | null,
+  ) => {
+    const { netWorth } = await valueNetWorth(
+      targetCurrency,
+      date,
+      context,
+      accountId,
+    );
     return netWorth;
   },
 );
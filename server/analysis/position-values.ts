@@ -0,0 +1,299 @@
+"use server";
+
+import { format } from "date-fns";
+
+import {
+  resolvePositionsContext,
+  toFilterList,
+} from "@/server/positions/context";
+import { fetchExchangeRates } from "@/server/exchange-rates/fetch";
+import {
+  fetchMarketDataRange,
+  toMarketDataPositions,
+} from "@/server/market-data/fetch";
+import {
+  convertCurrency,
+  type ConversionIssue,
+} from "@/lib/currency-conversion";
+
+import type { PositionsQueryContext } from "@/server/positions/fetch";
+import type { Position } from "@/types/global.types";
+
+export interface PositionValueHistory {
+  positions: Pick<Position, "id" | "type" | "currency">[];
+  /** Values in the target currency, aligned with the requested dates. */
+  valuesByPosition: Map<string, number[]>;
+  /** Exchange rates the values used that were stale or missing. */
+  rateIssues: ConversionIssue[];
+}
+
+interface FetchPositionValueHistoryParams {
+  targetCurrency: string;
+  /** Valuation dates in ascending order (need not be consecutive). */
+  dates: Date[];
+  positionIds?: string[];
+  positionType?: Position["type"];
+  accountId?: string | null;
+  /** Another portfolio than the one being viewed, e.g. a public one */
+  context?: PositionsQueryContext;
+}
+
+/**
+ * Value each position on the given dates in the target currency.
+ * Uses the latest snapshot on or before each date, priced with market data
+ * where available (falls back to the snapshot unit value).
+ * Includes archived positions; liabilities are returned as positive values.
+ */
+export async function fetchPositionValueHistory({
+  targetCurrency,
+  dates,
+  positionIds,
+  positionType,
+  accountId,
+  context,
+}: FetchPositionValueHistoryParams): Promise<PositionValueHistory> {
+  const {
+    supabase,
+    userId: ownerId,
+    hiddenPositionIds,
+    hiddenCategoryIds,
+  } = await resolvePositionsContext(context);
+
+  const zeroValues = () => dates.map(() => 0);
+
+  // 1) Fetch positions once (include archived by not filtering archived_at)
+  let positionsQuery = supabase
+    .from("positions")
+    .select(
+      "id, type, currency, symbol_id, domain_id, wallet_chain, wallet_address, property_id, user_id",
+    )
+    .eq("user_id", ownerId);
+
+  if (positionIds) positionsQuery = positionsQuery.in("id", positionIds);
+  if (positionType) positionsQuery = positionsQuery.eq("type", positionType);
+  if (accountId) positionsQuery = positionsQuery.eq("account_id", accountId);
+  if (hiddenPositionIds?.length) {
+    positionsQuery = positionsQuery.not(
+      "id",
+      "in",
+      toFilterList(hiddenPositionIds),
+    );
+  }
+  if (hiddenCategoryIds?.length) {
+    positionsQuery = positionsQuery.not(
+      "category_id",
+      "in",
+      toFilterList(hiddenCategoryIds),
+    );
+  }
+
+  const { data: positions, error: positionsError } = await positionsQuery;
+
+  if (positionsError) throw new Error(positionsError.message);
+
+  const valuesByPosition = new Map<string, number[]>();
+  (positions ?? []).forEach((position) => {
+    valuesByPosition.set(position.id, zeroValues());
+  });
+
+  const result: PositionValueHistory = {
+    positions: (positions ?? []).map(({ id, type, currency }) => ({
+      id,
+      type,
+      currency,
+    })),
+    valuesByPosition,
+    rateIssues: [],
+  };
+
+  if (!positions?.length || !dates.length) return result;
+
+  // 2) Fetch all snapshots up to the last date once
+  const { data: snapshots, error: snapshotsError } = await supabase
+    .from("position_snapshots")
+    .select("position_id, date, quantity, unit_value, created_at")
+    .eq("user_id", ownerId)
+    .in(
+      "position_id",
+      positions.map((p) => p.id),
+    )
+    .lte("date", format(dates[dates.length - 1], "yyyy-MM-dd"))
+    .order("position_id")
+    .order("date", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (snapshotsError) {
+    throw new Error(snapshotsError.message);
+  }
+
+  if (!snapshots || !snapshots.length) return result;
+
+  const snapshotsByPosition = new Map<
+    string,
+    { date: string; quantity: number; unit_value: number }[]
+  >();
+  snapshots.forEach((s) => {
+    const arr = snapshotsByPosition.get(s.position_id) || [];
+    arr.push({ date: s.date, quantity: s.quantity, unit_value: s.unit_value });
+    snapshotsByPosition.set(s.position_id, arr);
+  });
+
+  const earliestSnapshotDate = snapshots.reduce<string | null>((min, snap) => {
+    if (!snap.date) return min;
+    if (!min || snap.date < min) return snap.date;
+    return min;
+  }, null);
+
+  // Dates before the first snapshot stay at zero
+  let firstActiveIndex = 0;
+  if (earliestSnapshotDate) {
+    firstActiveIndex = dates.findIndex(
+      (date) => format(date, "yyyy-MM-dd") >= earliestSnapshotDate,
+    );
+    if (firstActiveIndex === -1) return result;
+  }
+
+  const processingDates = dates.slice(firstActiveIndex);
+
+  // 3) Determine which positions need market data on which dates
+  const pointerPrepass = new Map<string, number>();
+  const eligibleDateIndices = new Set<number>();
+  const eligibleDateKeysByPosition = new Map<string, Set<string>>();
+
+  for (let dateIdx = 0; dateIdx < processingDates.length; dateIdx += 1) {
+    const date = processingDates[dateIdx];
+    const dateKey = format(date, "yyyy-MM-dd");
+
+    for (const position of positions) {
+      const snaps = snapshotsByPosition.get(position.id);
+      if (!snaps?.length) continue;
+
+      let idx = pointerPrepass.get(position.id) ?? 0;
+      while (idx + 1 < snaps.length && snaps[idx + 1].date <= dateKey) {
+        idx += 1;
+      }
+      pointerPrepass.set(position.id, idx);
+
+      const snapshot = snaps[idx];
+      if (!snapshot || snapshot.date > dateKey) continue;
+
+      const quantity = snapshot.quantity ?? 0;
+      if (quantity <= 0) continue;
+
+      if (
+        !position.symbol_id &&
+        !position.domain_id &&
+        !position.wallet_address &&
+        !position.property_id
+      ) {
+        continue;
+      }
+
+      eligibleDateIndices.add(dateIdx);
+      let allowedDates = eligibleDateKeysByPosition.get(position.id);
+      if (!allowedDates) {
+        allowedDates = new Set<string>();
+        eligibleDateKeysByPosition.set(position.id, allowedDates);
+      }
+      allowedDates.add(dateKey);
+    }
+  }
+
+  const marketDateIndices = Array.from(eligibleDateIndices).sort(
+    (a, b) => a - b,
+  );
+  const marketDataDates = marketDateIndices.map((idx) => processingDates[idx]);
+
+  const marketEligiblePositions = positions.filter((position) => {
+    if (
+      !position.symbol_id &&
+      !position.domain_id &&
+      !position.wallet_address &&
+      !position.property_id
+    ) {
+      return false;
+    }
+    const allowedDates = eligibleDateKeysByPosition.get(position.id);
+    return Boolean(allowedDates && allowedDates.size > 0);
+  });
+
+  const marketPositionsMinimal = await toMarketDataPositions(
+    marketEligiblePositions,
+  );
+
+  const eligibleDatesForHandlers = new Map<string, Set<string>>();
+  marketEligiblePositions.forEach((position) => {
+    const allowed = eligibleDateKeysByPosition.get(position.id);
+    if (allowed?.size) {
+      eligibleDatesForHandlers.set(position.id, allowed);
+    }
+  });
+
+  let marketPricesByPositionDate = new Map<string, number>();
+  if (marketPositionsMinimal.length && marketDataDates.length) {
+    marketPricesByPositionDate = await fetchMarketDataRange(
+      marketPositionsMinimal,
+      marketDataDates,
+      { upsert: true, eligibleDates: eligibleDatesForHandlers },
+    );
+  }
+
+  // 4) FX for all currencies and dates (dedup requests)
+  const currencies = new Set<string>([targetCurrency]);
+  positions.forEach((p) => currencies.add(p.currency));
+
+  const fxRequests: { currency: string; date: Date }[] = [];
+  const fxDedup = new Set<string>();
+  for (const currency of currencies) {
+    for (const date of processingDates) {
+      const dateKey = format(date, "yyyy-MM-dd");
+      const dedupKey = `${currency}|${dateKey}`;
+      if (fxDedup.has(dedupKey)) continue;
+      fxDedup.add(dedupKey);
+      fxRequests.push({ currency, date });
+    }
+  }
+
+  const fxMap = await fetchExchangeRates(fxRequests);
+
+  // 5) Compute values using two-pointer per position to find latest snapshot <= date
+  const indexByPosition = new Map<string, number>();
+
+  processingDates.forEach((date, offset) => {
+    const dateKey = format(date, "yyyy-MM-dd");
+
+    for (const position of positions) {
+      const snaps = snapshotsByPosition.get(position.id);
+      if (!snaps?.length) continue;
+
+      let idx = indexByPosition.get(position.id) ?? 0;
+      while (idx + 1 < snaps.length && snaps[idx + 1].date <= dateKey) {
+        idx += 1;
+      }
+      indexByPosition.set(position.id, idx);
+
+      const snapshot = snaps[idx];
+      if (!snapshot || snapshot.date > dateKey) continue;
+
+      const marketKey = `${position.id}|${dateKey}`;
+      const marketUnit = marketPricesByPositionDate.get(marketKey);
+      const unitValue =
+        marketUnit !== undefined ? marketUnit : (snapshot.unit_value ?? 0);
+
+      const quantity = snapshot.quantity ?? 0;
+      const localValue = quantity * unitValue;
+
+      valuesByPosition.get(position.id)![firstActiveIndex + offset] =
+        convertCurrency(
+          localValue,
+          position.currency,
+          targetCurrency,
+          fxMap,
+          dateKey,
+        );
+    }
+  });
+
+  result.rateIssues = fxMap.rateIssues;
+  return result;
+}
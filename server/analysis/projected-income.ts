@@ -25,19 +25,21 @@ export interface ProjectedIncomeResult {
 }
 
 /**
- * Calculate projected monthly income for user's portfolio
+ * Calculate projected monthly income for user's portfolio (or one account)
  */
 export const calculateProjectedIncome = cache(
   async (
     targetCurrency: string,
     monthsAhead: number = 12,
     context?: PositionsQueryContext,
+    accountId?: string | null,
   ) => {
     try {
       const positions = await fetchPositions(
         {
           positionType: "asset",
           includeArchived: true,
+          accountId,
         },
         context,
       );
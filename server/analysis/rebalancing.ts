@@ -0,0 +1,153 @@
+"use server";
+
+import { cache } from "react";
+
+import { getCurrentUser } from "@/server/auth/actions";
+import { fetchPositions } from "@/server/positions/fetch";
+import { fetchExchangeRates } from "@/server/exchange-rates/fetch";
+import { fetchPositionCategories } from "@/server/position-categories/fetch";
+import { fetchAllocationTargets } from "@/server/allocation-targets/fetch";
+
+import { convertCurrency } from "@/lib/currency-conversion";
+import { planRebalance } from "@/lib/rebalancing";
+
+import { ALLOCATION_TARGET_SCOPES } from "@/types/enums";
+import type {
+  RebalancingHolding,
+  RebalancingOptions,
+  RebalancingTarget,
+} from "@/lib/rebalancing";
+import type { AllocationTargetScope } from "@/types/global.types";
+
+export type AllocationTargetChoice = { key: string; name: string };
+
+export type RebalancingData = {
+  holdings: RebalancingHolding[];
+  targets: Record<AllocationTargetScope, RebalancingTarget[]>;
+  /** Keys a target can be set on, per scope. */
+  choices: Record<AllocationTargetScope, AllocationTargetChoice[]>;
+};
+
+const getDefaultAsOfDate = cache(() => new Date());
+
+/**
+ * Load current holdings (in the target currency) and the user's allocation
+ * targets, everything the rebalancing engine needs. Targets are portfolio-wide,
+ * holdings can be limited to one account.
+ */
+export const fetchRebalancingData = cache(
+  async (
+    targetCurrency: string,
+    accountId?: string | null,
+  ): Promise<RebalancingData> => {
+    const asOfDate = getDefaultAsOfDate();
+
+    const [positions, categories, targetRows] = await Promise.all([
+      fetchPositions({ positionType: "asset", asOfDate, accountId }),
+      fetchPositionCategories("asset"),
+      fetchAllocationTargets(),
+    ]);
+
+    const held = positions.filter((position) => position.current_quantity > 0);
+
+    // FX rates for conversion
+    const uniqueCurrencies = new Set<string>([targetCurrency]);
+    held.forEach((position) => uniqueCurrencies.add(position.currency));
+
+    const exchangeRates = await fetchExchangeRates(
+      Array.from(uniqueCurrencies).map((currency) => ({
+        currency,
+        date: asOfDate,
+      })),
+    );
+
+    // Sectors come from the symbol profile
+    const symbolIds = Array.from(
+      new Set(held.flatMap((p) => (p.symbol_id ? [p.symbol_id] : []))),
+    );
+    const sectorBySymbolId = new Map<string, string>();
+
+    if (symbolIds.length) {
+      const { supabase } = await getCurrentUser();
+      const { data: symbols, error } = await supabase
+        .from("symbols")
+        .select("id, sector")
+        .in("id", symbolIds);
+
+      if (error) {
+        throw new Error(`Failed to fetch symbol sectors: ${error.message}`);
+      }
+
+      symbols?.forEach((symbol) => {
+        if (symbol.sector) sectorBySymbolId.set(symbol.id, symbol.sector);
+      });
+    }
+
+    const toTarget = (amount: number, currency: string) =>
+      convertCurrency(
+        amount,
+        currency,
+        targetCurrency,
+        exchangeRates,
+        asOfDate,
+      );
+
+    const holdings: RebalancingHolding[] = held.map((position) => ({
+      positionId: position.id,
+      name: position.name,
+      categoryId: position.category_id,
+      sector: position.symbol_id
+        ? (sectorBySymbolId.get(position.symbol_id) ?? null)
+        : null,
+      value: toTarget(position.total_value, position.currency),
+      unitPrice: toTarget(position.current_unit_value, position.currency),
+    }));
+
+    const sectors = Array.from(
+      new Set(holdings.flatMap((h) => (h.sector ? [h.sector] : []))),
+    ).sort();
+
+    const choices: RebalancingData["choices"] = {
+      category: categories.map((category) => ({
+        key: category.id,
+        name: category.name,
+      })),
+      position: holdings.map((holding) => ({
+        key: holding.positionId,
+        name: holding.name,
+      })),
+      sector: sectors.map((sector) => ({ key: sector, name: sector })),
+    };
+
+    const targets = Object.fromEntries(
+      ALLOCATION_TARGET_SCOPES.map((scope) => [
+        scope,
+        targetRows
+          .filter((row) => row.scope === scope)
+          .map((row) => ({
+            key: row.target_key,
+            // Positions that are sold out or deleted keep their raw key
+            name:
+              choices[scope].find((choice) => choice.key === row.target_key)
+                ?.name ?? row.target_key,
+            weight: row.weight,
+            tolerance: row.tolerance,
+          })),
+      ]),
+    ) as RebalancingData["targets"];
+
+    return { holdings, targets, choices };
+  },
+);
+
+/**
+ * Plan the trades that bring holdings back to the user's targets for a scope.
+ */
+export async function calculateRebalancingPlan(
+  targetCurrency: string,
+  options: RebalancingOptions,
+) {
+  const { holdings, targets } = await fetchRebalancingData(targetCurrency);
+
+  return planRebalance(holdings, targets[options.scope], options);
+}
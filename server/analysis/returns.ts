@@ -0,0 +1,311 @@
+"use server";
+
+import { format, parseISO } from "date-fns";
+
+import {
+  resolvePositionsContext,
+  toFilterList,
+} from "@/server/positions/context";
+import { fetchProfile } from "@/server/profile/actions";
+import { fetchExchangeRates } from "@/server/exchange-rates/fetch";
+import { fetchPositionValueHistory } from "@/server/analysis/position-values";
+
+import {
+  convertCurrency,
+  mergeRateIssues,
+  type ConversionIssue,
+} from "@/lib/currency-conversion";
+import {
+  calculateMoneyWeightedReturn,
+  calculateTimeWeightedReturn,
+  type CashFlow,
+  type ValuePoint,
+} from "@/lib/returns";
+
+import type { PositionsQueryContext } from "@/server/positions/fetch";
+
+export interface ReturnsSummary {
+  startDate: string;
+  endDate: string;
+  startValue: number;
+  endValue: number;
+  /** Buys minus sells, deposits minus withdrawals (and opening balances). */
+  netCashFlows: number;
+  /** Value change not explained by cash flows. */
+  investmentGain: number;
+  /** Cumulative time-weighted return as a fraction (null if nothing invested). */
+  timeWeightedReturn: number | null;
+  /** Annualized money-weighted return (XIRR) as a fraction. */
+  moneyWeightedReturn: number | null;
+}
+
+interface CalculateReturnsParams {
+  targetCurrency?: string;
+  startDate: Date;
+  endDate?: Date;
+  positionIds?: string[];
+  accountId?: string | null;
+}
+
+function summarize(
+  startDate: string,
+  endDate: string,
+  values: ValuePoint[],
+  flows: CashFlow[],
+): ReturnsSummary {
+  const startValue = values[0]?.value ?? 0;
+  const endValue = values[values.length - 1]?.value ?? 0;
+  const netCashFlows = flows.reduce((sum, flow) => sum + flow.amount, 0);
+
+  return {
+    startDate,
+    endDate,
+    startValue,
+    endValue,
+    netCashFlows,
+    investmentGain: endValue - startValue - netCashFlows,
+    timeWeightedReturn: calculateTimeWeightedReturn(values, flows),
+    moneyWeightedReturn: calculateMoneyWeightedReturn({
+      startDate,
+      endDate,
+      startValue,
+      endValue,
+      flows,
+    }),
+  };
+}
+
+/**
+ * External cash flows of asset positions within (start, end], converted to
+ * the target currency on their dates and grouped by position.
+ *
+ * Buy and sell records are external cash flows, as are cash deposits,
+ * withdrawals and trade settlements, and the opening balance of a position
+ * created within the range. Interest, dividends and fees count as returns.
+ * Also returns the exchange rates the conversions used that were stale or
+ * missing.
+ */
+export async function fetchExternalCashFlows({
+  targetCurrency,
+  startDate,
+  endDate,
+  positionIds,
+  accountId,
+  context,
+}: {
+  targetCurrency: string;
+  startDate: Date;
+  endDate: Date;
+  positionIds?: string[];
+  accountId?: string | null;
+  context?: PositionsQueryContext;
+}): Promise<{
+  flowsByPosition: Map<string, CashFlow[]>;
+  rateIssues: ConversionIssue[];
+}> {
+  const startKey = format(startDate, "yyyy-MM-dd");
+  const endKey = format(endDate, "yyyy-MM-dd");
+
+  const {
+    supabase,
+    userId: ownerId,
+    hiddenPositionIds,
+    hiddenCategoryIds,
+  } = await resolvePositionsContext(context);
+
+  // 1) Flow records and opening balances within (start, end]
+  const recordsQuery = supabase
+    .from("portfolio_records")
+    .select(
+      "position_id, type, date, quantity, unit_value, positions!inner (type, currency)",
+    )
+    .eq("user_id", ownerId)
+    .eq("positions.type", "asset")
+    .in("type", ["buy", "sell", "deposit", "withdrawal", "settlement"])
+    .gt("date", startKey)
+    .lte("date", endKey);
+
+  const openingQuery = supabase
+    .from("position_snapshots")
+    .select(
+      "position_id, date, quantity, unit_value, positions!inner (type, currency)",
+    )
+    .eq("user_id", ownerId)
+    .eq("positions.type", "asset")
+    .is("portfolio_record_id", null)
+    .is("loan_id", null)
+    .gt("date", startKey)
+    .lte("date", endKey);
+
+  if (positionIds) {
+    recordsQuery.in("position_id", positionIds);
+    openingQuery.in("position_id", positionIds);
+  }
+  if (accountId) {
+    recordsQuery.eq("positions.account_id", accountId);
+    openingQuery.eq("positions.account_id", accountId);
+  }
+  if (hiddenPositionIds?.length) {
+    recordsQuery.not("position_id", "in", toFilterList(hiddenPositionIds));
+    openingQuery.not("position_id", "in", toFilterList(hiddenPositionIds));
+  }
+  if (hiddenCategoryIds?.length) {
+    const categories = toFilterList(hiddenCategoryIds);
+    recordsQuery.not("positions.category_id", "in", categories);
+    openingQuery.not("positions.category_id", "in", categories);
+  }
+
+  const [recordsResult, openingResult] = await Promise.all([
+    recordsQuery,
+    openingQuery,
+  ]);
+
+  if (recordsResult.error) {
+    throw new Error(
+      `Failed to fetch portfolio records: ${recordsResult.error.message}`,
+    );
+  }
+  if (openingResult.error) {
+    throw new Error(
+      `Failed to fetch opening snapshots: ${openingResult.error.message}`,
+    );
+  }
+
+  const rawFlows = [
+    ...(recordsResult.data ?? []).map((record) => ({
+      positionId: record.position_id,
+      date: record.date,
+      currency: record.positions.currency,
+      // Settlements are signed already and offset their trade in the portfolio
+      amount:
+        (record.type === "sell" || record.type === "withdrawal" ? -1 : 1) *
+        Number(record.quantity) *
+        Number(record.unit_value),
+    })),
+    ...(openingResult.data ?? []).map((snapshot) => ({
+      positionId: snapshot.position_id,
+      date: snapshot.date,
+      currency: snapshot.positions.currency,
+      amount: Number(snapshot.quantity) * Number(snapshot.unit_value),
+    })),
+  ];
+
+  // 2) Convert flows to the target currency on their dates
+  const fxRequests = new Map<string, { currency: string; date: Date }>();
+  rawFlows.forEach((flow) => {
+    [flow.currency, targetCurrency].forEach((currency) => {
+      fxRequests.set(`${currency}|${flow.date}`, {
+        currency,
+        date: parseISO(flow.date),
+      });
+    });
+  });
+  const fxMap = await fetchExchangeRates(Array.from(fxRequests.values()));
+
+  const flowsByPosition = new Map<string, CashFlow[]>();
+  rawFlows.forEach((flow) => {
+    const list = flowsByPosition.get(flow.positionId) ?? [];
+    list.push({
+      date: flow.date,
+      amount: convertCurrency(
+        flow.amount,
+        flow.currency,
+        targetCurrency,
+        fxMap,
+        flow.date,
+      ),
+    });
+    flowsByPosition.set(flow.positionId, list);
+  });
+
+  return { flowsByPosition, rateIssues: fxMap.rateIssues };
+}
+
+/**
+ * Calculate time-weighted and money-weighted returns over a date range,
+ * per asset position and for the portfolio as a whole.
+ *
+ * Cash flows come from `fetchExternalCashFlows`. Positions are only valued
+ * on the start date, the end date and each flow date. Liabilities are excluded.
+ */
+export async function calculateReturns({
+  targetCurrency,
+  startDate,
+  endDate = new Date(),
+  positionIds,
+  accountId,
+}: CalculateReturnsParams): Promise<{
+  portfolio: ReturnsSummary;
+  positions: Record<string, ReturnsSummary>;
+  /** Exchange rates the values and flows used that were stale or missing. */
+  rateIssues: ConversionIssue[];
+}> {
+  if (!targetCurrency) {
+    const { profile } = await fetchProfile();
+    targetCurrency = profile.display_currency;
+  }
+
+  const startKey = format(startDate, "yyyy-MM-dd");
+  const endKey = format(endDate, "yyyy-MM-dd");
+
+  // 1) External cash flows within (start, end] in the target currency
+  const { flowsByPosition, rateIssues: flowRateIssues } =
+    await fetchExternalCashFlows({
+      targetCurrency,
+      startDate,
+      endDate,
+      positionIds,
+      accountId,
+    });
+  const flowDates = Array.from(flowsByPosition.values()).flatMap((flows) =>
+    flows.map((flow) => flow.date),
+  );
+
+  // 2) Value positions on the start date, each flow date and the end date
+  const dateKeys = Array.from(new Set([startKey, ...flowDates, endKey])).sort();
+  const dates = dateKeys.map((dateKey) => parseISO(dateKey));
+
+  const {
+    positions,
+    valuesByPosition,
+    rateIssues: valueRateIssues,
+  } = await fetchPositionValueHistory({
+    targetCurrency,
+    dates,
+    positionIds,
+    positionType: "asset",
+    accountId,
+  });
+
+  // 3) Summaries per position and for the portfolio
+  const toValuePoints = (values: number[]) =>
+    dateKeys.map((date, index) => ({ date, value: values[index] ?? 0 }));
+
+  const portfolioValues = dateKeys.map(() => 0);
+  const positionSummaries: Record<string, ReturnsSummary> = {};
+
+  positions.forEach((position) => {
+    const values = valuesByPosition.get(position.id) ?? [];
+    values.forEach((value, index) => {
+      portfolioValues[index] += value;
+    });
+
+    positionSummaries[position.id] = summarize(
+      startKey,
+      endKey,
+      toValuePoints(values),
+      flowsByPosition.get(position.id) ?? [],
+    );
+  });
+
+  return {
+    portfolio: summarize(
+      startKey,
+      endKey,
+      toValuePoints(portfolioValues),
+      Array.from(flowsByPosition.values()).flat(),
+    ),
+    positions: positionSummaries,
+    rateIssues: mergeRateIssues(flowRateIssues, valueRateIssues),
+  };
+}
@@ -0,0 +1,149 @@
+"use server";
+
+import { cache } from "react";
+import { subYears } from "date-fns";
+
+import { fetchFinancialProfile } from "@/server/financial-profiles/actions";
+import { calculateAssetAllocation } from "@/server/analysis/asset-allocation";
+import { calculateReturns } from "@/server/analysis/returns";
+
+import {
+  DEFAULT_CATEGORY_ASSUMPTIONS,
+  DEFAULT_SIMULATION_ASSUMPTIONS,
+  DEFAULT_SIMULATION_PATHS,
+  DEFAULT_SIMULATION_SEED,
+  runMonteCarlo,
+  toSimulationInput,
+} from "@/lib/monte-carlo";
+
+import type {
+  RetirementAssumptions,
+  SimulationAsset,
+  SimulationResult,
+} from "@/lib/monte-carlo";
+
+export type SimulationDefaults = {
+  currency: string;
+  /** Current allocation by category with default return and volatility. */
+  assets: SimulationAsset[];
+  assumptions: RetirementAssumptions;
+  /** Whether the age is a guess because the financial profile has none. */
+  ageAssumed: boolean;
+};
+
+export type RetirementSimulationParams = Partial<
+  Record<keyof RetirementAssumptions, number | null>
+> & {
+  /** Per category id overrides, as fractions. */
+  categoryAssumptions?: Record<
+    string,
+    { expectedReturn?: number | null; volatility?: number | null }
+  > | null;
+};
+
+export type RetirementSimulation = SimulationDefaults & {
+  result: SimulationResult;
+};
+
+const DEFAULT_RETIREMENT_AGE = 65;
+const DEFAULT_CURRENT_AGE = 40;
+
+const getDefaultAsOfDate = cache(() => new Date());
+
+// Middle of an age band ("35-44" -> 40, "65+" -> 67)
+function getAgeFromBand(ageBand: string) {
+  const [from, to] = ageBand.split("-").map((part) => parseInt(part, 10));
+  return Number.isFinite(to) ? Math.round((from + to) / 2) : from + 2;
+}
+
+/**
+ * Starting point for a retirement simulation: the current allocation, the
+ * age from the financial profile and the contribution rate over the last
+ * 12 months.
+ */
+export const fetchSimulationDefaults = cache(
+  async (targetCurrency: string): Promise<SimulationDefaults> => {
+    const asOfDate = getDefaultAsOfDate();
+
+    const [allocation, financialProfile, returns] = await Promise.all([
+      calculateAssetAllocation(targetCurrency, asOfDate),
+      fetchFinancialProfile(),
+      calculateReturns({
+        targetCurrency,
+        startDate: subYears(asOfDate, 1),
+        endDate: asOfDate,
+      }),
+    ]);
+
+    const assets = allocation
+      .filter((category) => category.total_value > 0)
+      .map((category) => {
+        const defaults =
+          DEFAULT_CATEGORY_ASSUMPTIONS[category.category_id] ??
+          DEFAULT_CATEGORY_ASSUMPTIONS.other;
+        return {
+          key: category.category_id,
+          name: category.name,
+          value: category.total_value,
+          ...defaults,
+        };
+      });
+
+    const ageBand = financialProfile?.age_band ?? null;
+    const currentAge = ageBand ? getAgeFromBand(ageBand) : DEFAULT_CURRENT_AGE;
+
+    return {
+      currency: targetCurrency,
+      assets,
+      assumptions: {
+        currentAge,
+        retirementAge: Math.max(DEFAULT_RETIREMENT_AGE, currentAge),
+        lifeExpectancy: DEFAULT_SIMULATION_ASSUMPTIONS.lifeExpectancy,
+        annualContribution: Math.max(0, returns.portfolio.netCashFlows),
+        withdrawalRate: DEFAULT_SIMULATION_ASSUMPTIONS.withdrawalRate,
+        annualWithdrawal: null,
+        inflation: DEFAULT_SIMULATION_ASSUMPTIONS.inflation,
+        correlation: DEFAULT_SIMULATION_ASSUMPTIONS.correlation,
+        paths: DEFAULT_SIMULATION_PATHS,
+        seed: DEFAULT_SIMULATION_SEED,
+      },
+      ageAssumed: !ageBand,
+    };
+  },
+);
+
+/**
+ * Run a Monte Carlo retirement simulation of the current portfolio. Anything
+ * not given falls back to the defaults from fetchSimulationDefaults.
+ */
+export async function runRetirementSimulation(
+  targetCurrency: string,
+  params: RetirementSimulationParams = {},
+): Promise<RetirementSimulation> {
+  const defaults = await fetchSimulationDefaults(targetCurrency);
+
+  const assumptions = { ...defaults.assumptions };
+  (Object.keys(assumptions) as (keyof RetirementAssumptions)[]).forEach(
+    (key) => {
+      const value = params[key];
+      if (value !== null && value !== undefined) assumptions[key] = value;
+    },
+  );
+
+  const assets = defaults.assets.map((asset) => {
+    const override = params.categoryAssumptions?.[asset.key];
+    return {
+      ...asset,
+      expectedReturn: override?.expectedReturn ?? asset.expectedReturn,
+      volatility: override?.volatility ?? asset.volatility,
+    };
+  });
+
+  return {
+    ...defaults,
+    assets,
+    assumptions,
+    ageAssumed: defaults.ageAssumed && (params.currentAge ?? null) === null,
+    result: runMonteCarlo(toSimulationInput(assets, assumptions)),
+  };
+}
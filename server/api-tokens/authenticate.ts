@@ -0,0 +1,191 @@
+import { NextResponse, after } from "next/server";
+import type { z } from "zod";
+
+import { createServiceClient } from "@/supabase/service";
+
+import {
+  API_RATE_LIMIT_REQUESTS,
+  getRateLimitWindow,
+  hasApiScope,
+  hashApiToken,
+  isApiTokenActive,
+  parseBearerToken,
+} from "@/lib/api-tokens";
+
+import type { PositionsQueryContext } from "@/server/positions/fetch";
+import type { ApiTokenScope } from "@/types/global.types";
+
+export type ApiRequestAuth = {
+  tokenId: string;
+  userId: string;
+  /** Display currency of the token owner */
+  currency: string;
+  /** Token requests have no session, so queries use the service client */
+  context: Required<Pick<PositionsQueryContext, "supabaseClient" | "userId">>;
+};
+
+export function apiError(status: number, code: string, message: string) {
+  return NextResponse.json({ error: { code, message } }, { status });
+}
+
+/**
+ * Check the bearer token, its scope and rate limit. Every authenticated
+ * request counts towards the limit, including rejected ones.
+ */
+async function authenticateApiRequest(
+  request: Request,
+  scope: ApiTokenScope,
+): Promise<
+  | { success: true; auth: ApiRequestAuth; headers: Record<string, string> }
+  | { success: false; response: NextResponse }
+> {
+  const token = parseBearerToken(request.headers.get("authorization"));
+  if (!token) {
+    return {
+      success: false,
+      response: apiError(
+        401,
+        "UNAUTHORIZED",
+        "Pass a personal access token as `Authorization: Bearer <token>`",
+      ),
+    };
+  }
+
+  const supabase = createServiceClient();
+
+  const { data: apiToken, error } = await supabase
+    .from("api_tokens")
+    .select(
+      "id, user_id, scope, expires_at, revoked_at, profiles (display_currency)",
+    )
+    .eq("token_hash", hashApiToken(token))
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+
+  if (!apiToken || !apiToken.profiles || !isApiTokenActive(apiToken)) {
+    return {
+      success: false,
+      response: apiError(
+        401,
+        "INVALID_TOKEN",
+        "Token is invalid, expired or revoked",
+      ),
+    };
+  }
+
+  const { windowStart, resetAt } = getRateLimitWindow();
+  const { data: requests, error: rateLimitError } = await supabase.rpc(
+    "consume_api_rate_limit",
+    {
+      api_token_id: apiToken.id,
+      current_window_start: windowStart.toISOString(),
+    },
+  );
+
+  if (rateLimitError) throw new Error(rateLimitError.message);
+
+  const headers = {
+    "X-RateLimit-Limit": String(API_RATE_LIMIT_REQUESTS),
+    "X-RateLimit-Remaining": String(
+      Math.max(0, API_RATE_LIMIT_REQUESTS - requests),
+    ),
+    "X-RateLimit-Reset": String(Math.ceil(resetAt.getTime() / 1000)),
+  };
+
+  if (requests > API_RATE_LIMIT_REQUESTS) {
+    const response = apiError(429, "RATE_LIMITED", "Rate limit exceeded");
+    Object.entries(headers).forEach(([name, value]) =>
+      response.headers.set(name, value),
+    );
+    response.headers.set(
+      "Retry-After",
+      String(Math.ceil((resetAt.getTime() - Date.now()) / 1000)),
+    );
+    return { success: false, response };
+  }
+
+  if (!hasApiScope(apiToken.scope, scope)) {
+    return {
+      success: false,
+      response: apiError(
+        403,
+        "INSUFFICIENT_SCOPE",
+        "This request needs a read-write token",
+      ),
+    };
+  }
+
+  // Don't hold up the response for bookkeeping
+  after(async () => {
+    await supabase
+      .from("api_tokens")
+      .update({ last_used_at: new Date().toISOString() })
+      .eq("id", apiToken.id);
+  });
+
+  return {
+    success: true,
+    auth: {
+      tokenId: apiToken.id,
+      userId: apiToken.user_id,
+      currency: apiToken.profiles.display_currency,
+      context: { supabaseClient: supabase, userId: apiToken.user_id },
+    },
+    headers,
+  };
+}
+
+/**
+ * Route handler for the REST API: authenticates the token, adds rate limit
+ * headers and turns unexpected errors into JSON.
+ */
+export function withApiAuth<TRouteContext>(
+  scope: ApiTokenScope,
+  handler: (
+    request: Request,
+    auth: ApiRequestAuth,
+    routeContext: TRouteContext,
+  ) => Promise<Response>,
+) {
+  return async (request: Request, routeContext: TRouteContext) => {
+    try {
+      const result = await authenticateApiRequest(request, scope);
+      if (!result.success) return result.response;
+
+      const response = await handler(request, result.auth, routeContext);
+      Object.entries(result.headers).forEach(([name, value]) =>
+        response.headers.set(name, value),
+      );
+      return response;
+    } catch (error) {
+      console.error("API request failed:", error);
+      return apiError(500, "INTERNAL_ERROR", "Something went wrong");
+    }
+  };
+}
+
+/**
+ * Validate query parameters or a body, or a 400 response naming the first
+ * issue.
+ */
+export function parseApiInput<T extends z.ZodType>(
+  schema: T,
+  input: unknown,
+):
+  | { success: true; data: z.output<T> }
+  | { success: false; response: NextResponse } {
+  const parsed = schema.safeParse(input);
+  if (parsed.success) return { success: true, data: parsed.data };
+
+  const [issue] = parsed.error.issues;
+  const field = issue.path.join(".");
+  return {
+    success: false,
+    response: apiError(
+      400,
+      "INVALID_INPUT",
+      field ? `${field}: ${issue.message}` : issue.message,
+    ),
+  };
+}
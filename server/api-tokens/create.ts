@@ -0,0 +1,48 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getCurrentUser } from "@/server/auth/actions";
+import { parseApiTokenFormData } from "@/server/api-tokens/utils";
+
+import { computeApiTokenExpiration, generateApiToken } from "@/lib/api-tokens";
+
+/**
+ * Create a personal access token for the own portfolio. The token is
+ * returned once; only its hash is stored.
+ */
+export async function createApiToken(formData: FormData) {
+  const { supabase, user } = await getCurrentUser();
+
+  const parsed = parseApiTokenFormData(formData);
+  if (!parsed.ok) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      message: parsed.message,
+    } as const;
+  }
+
+  const { name, scope, expiration } = parsed.values;
+  const { token, tokenHash, tokenPrefix } = generateApiToken();
+
+  const { error } = await supabase.from("api_tokens").insert({
+    user_id: user.id,
+    name,
+    scope,
+    token_hash: tokenHash,
+    token_prefix: tokenPrefix,
+    expires_at: computeApiTokenExpiration(expiration),
+  });
+
+  if (error) {
+    return {
+      success: false,
+      code: error.code,
+      message: error.message,
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true, token } as const;
+}
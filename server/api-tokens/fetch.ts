@@ -0,0 +1,28 @@
+"use server";
+
+import { cache } from "react";
+
+import { getCurrentUser } from "@/server/auth/actions";
+
+import type { ApiToken } from "@/types/global.types";
+
+/**
+ * Fetch the user's personal access tokens, newest first.
+ */
+export const fetchApiTokens = cache(async (): Promise<ApiToken[]> => {
+  const { supabase, user } = await getCurrentUser();
+
+  const { data, error } = await supabase
+    .from("api_tokens")
+    .select(
+      "id, user_id, name, token_prefix, scope, expires_at, last_used_at, revoked_at, created_at",
+    )
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch API tokens: ${error.message}`);
+  }
+
+  return data;
+});
@@ -0,0 +1,31 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getCurrentUser } from "@/server/auth/actions";
+
+/**
+ * Revoke a personal access token. Revoked tokens are kept so they can
+ * still be told apart in the list.
+ */
+export async function revokeApiToken(apiTokenId: string) {
+  const { supabase, user } = await getCurrentUser();
+
+  const { error } = await supabase
+    .from("api_tokens")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", apiTokenId)
+    .eq("user_id", user.id)
+    .is("revoked_at", null);
+
+  if (error) {
+    return {
+      success: false,
+      code: error.code,
+      message: error.message,
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
@@ -0,0 +1,50 @@
+import {
+  API_TOKEN_EXPIRATIONS,
+  MAX_API_TOKEN_NAME_LENGTH,
+  type ApiTokenExpiration,
+} from "@/lib/api-tokens";
+
+import { API_TOKEN_SCOPES } from "@/types/enums";
+
+import type { ApiTokenScope } from "@/types/global.types";
+
+function isApiTokenScope(value: string): value is ApiTokenScope {
+  return (API_TOKEN_SCOPES as readonly string[]).includes(value);
+}
+
+function isApiTokenExpiration(value: string): value is ApiTokenExpiration {
+  return (API_TOKEN_EXPIRATIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Parse and validate a new personal access token from FormData.
+ */
+export function parseApiTokenFormData(formData: FormData):
+  | {
+      ok: true;
+      values: {
+        name: string;
+        scope: ApiTokenScope;
+        expiration: ApiTokenExpiration;
+      };
+    }
+  | { ok: false; message: string } {
+  const name = String(formData.get("name") ?? "").trim();
+  const scope = String(formData.get("scope") ?? "read");
+  const expiration = String(formData.get("expiration") ?? "90d");
+
+  if (!name || name.length > MAX_API_TOKEN_NAME_LENGTH) {
+    return {
+      ok: false,
+      message: `Name must be between 1 and ${MAX_API_TOKEN_NAME_LENGTH} characters`,
+    };
+  }
+  if (!isApiTokenScope(scope)) {
+    return { ok: false, message: "Unknown scope" };
+  }
+  if (!isApiTokenExpiration(expiration)) {
+    return { ok: false, message: "Unknown expiration" };
+  }
+
+  return { ok: true, values: { name, scope, expiration } };
+}
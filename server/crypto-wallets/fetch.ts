@@ -0,0 +1,221 @@
+"use server";
+
+import { createServiceClient } from "@/supabase/service";
+import { fetchQuotes } from "@/server/quotes/fetch";
+import { fetchExchangeRates } from "@/server/exchange-rates/fetch";
+import { resolveSymbolInput } from "@/server/symbols/resolver";
+import { formatUtcDateKey } from "@/server/quotes/utils";
+import { getChainDataProvider } from "./providers";
+
+import {
+  WALLET_CHAINS,
+  getWalletKey,
+  getWalletValuationKey,
+} from "@/lib/crypto-wallets";
+import { convertCurrency } from "@/lib/currency-conversion";
+
+import type { WalletChain } from "@/lib/crypto-wallets";
+
+export type WalletValuationRequest = {
+  chain: WalletChain;
+  address: string;
+  currency: string;
+  date: Date;
+};
+
+/**
+ * Fetch native-asset balances of wallets at many dates, reading the
+ * wallet_balances cache first and the chain data provider for the rest.
+ *
+ * @returns Map where key is "chain:address|date" and value is the balance
+ */
+async function fetchWalletBalances(
+  requests: Array<{ chain: WalletChain; address: string; dateKey: string }>,
+  upsert: boolean,
+) {
+  const results = new Map<string, number>();
+  const supabase = createServiceClient();
+
+  // 1. Check database cache
+  const addresses = [...new Set(requests.map((r) => r.address))];
+  const dateKeys = [...new Set(requests.map((r) => r.dateKey))];
+
+  const { data: cachedBalances } = await supabase
+    .from("wallet_balances")
+    .select("chain, address, date, balance")
+    .in("address", addresses)
+    .in("date", dateKeys);
+
+  cachedBalances?.forEach((row) => {
+    results.set(
+      `${getWalletKey(row.chain, row.address)}|${row.date}`,
+      row.balance,
+    );
+  });
+
+  // 2. Ask the provider for missing dates, one call per wallet
+  const missingByWallet = new Map<
+    string,
+    { chain: WalletChain; address: string; dateKeys: string[] }
+  >();
+  requests.forEach(({ chain, address, dateKey }) => {
+    const walletKey = getWalletKey(chain, address);
+    if (results.has(`${walletKey}|${dateKey}`)) return;
+
+    const entry = missingByWallet.get(walletKey) ?? {
+      chain,
+      address,
+      dateKeys: [],
+    };
+    if (!entry.dateKeys.includes(dateKey)) entry.dateKeys.push(dateKey);
+    missingByWallet.set(walletKey, entry);
+  });
+
+  const fetched: Array<{
+    chain: string;
+    address: string;
+    date: string;
+    balance: number;
+  }> = [];
+
+  for (const { chain, address, dateKeys } of missingByWallet.values()) {
+    const provider = getChainDataProvider(chain);
+    if (!provider) continue;
+
+    try {
+      const balances = await provider.fetchBalances(chain, address, dateKeys);
+      balances.forEach((balance, date) => {
+        results.set(`${getWalletKey(chain, address)}|${date}`, balance);
+        fetched.push({ chain, address, date, balance });
+      });
+    } catch (error) {
+      console.error(
+        `Failed to fetch ${chain} balances for ${address} (${provider.id}):`,
+        error,
+      );
+    }
+  }
+
+  // 3. Store new balances in database only if upsert is enabled
+  if (upsert && fetched.length > 0) {
+    const { error: upsertError } = await supabase
+      .from("wallet_balances")
+      .upsert(fetched, { onConflict: "chain,address,date" });
+
+    if (upsertError) {
+      console.error("Failed to bulk upsert wallet balances:", upsertError);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Fetch wallet values for different wallets, currencies and dates in bulk:
+ * the native-asset balance times its market price, converted into the
+ * requested currency.
+ *
+ * @param requests - Array of {chain, address, currency, date} to value
+ * @param upsert - Whether to cache results in database (defaults to true)
+ * @returns Map keyed by `getWalletValuationKey` with the wallet value
+ */
+export async function fetchWalletValuations(
+  requests: WalletValuationRequest[],
+  upsert: boolean = true,
+) {
+  const results = new Map<string, number>();
+  if (!requests.length) return results;
+
+  const balances = await fetchWalletBalances(
+    requests.map(({ chain, address, date }) => ({
+      chain,
+      address,
+      dateKey: formatUtcDateKey(date),
+    })),
+    upsert,
+  );
+
+  // Resolve each chain's native asset to its market symbol
+  const chains = [...new Set(requests.map((r) => r.chain))];
+  const nativeSymbols = new Map<
+    WalletChain,
+    { id: string; currency: string }
+  >();
+  for (const chain of chains) {
+    const resolved = await resolveSymbolInput(
+      WALLET_CHAINS[chain].nativeSymbol,
+    );
+    if (resolved?.symbol?.id) {
+      nativeSymbols.set(chain, {
+        id: resolved.symbol.id,
+        currency: resolved.symbol.currency,
+      });
+    }
+  }
+
+  const pricedRequests = requests.filter((r) => nativeSymbols.has(r.chain));
+  if (!pricedRequests.length) return results;
+
+  const [prices, fxMap] = await Promise.all([
+    fetchQuotes(
+      pricedRequests.map(({ chain, date }) => ({
+        symbolLookup: nativeSymbols.get(chain)!.id,
+        date,
+      })),
+      upsert,
+    ),
+    fetchExchangeRates(
+      pricedRequests.flatMap(({ chain, currency, date }) => [
+        { currency: nativeSymbols.get(chain)!.currency, date },
+        { currency, date },
+      ]),
+    ),
+  ]);
+
+  pricedRequests.forEach(({ chain, address, currency, date }) => {
+    const dateKey = formatUtcDateKey(date);
+    const balance = balances.get(`${getWalletKey(chain, address)}|${dateKey}`);
+    const nativeSymbol = nativeSymbols.get(chain)!;
+    const price = prices.get(`${nativeSymbol.id}|${dateKey}`);
+    if (balance === undefined || price === undefined) return;
+
+    results.set(
+      getWalletValuationKey(chain, address, currency, dateKey),
+      convertCurrency(
+        balance * price,
+        nativeSymbol.currency,
+        currency,
+        fxMap,
+        date,
+      ),
+    );
+  });
+
+  return results;
+}
+
+/**
+ * Fetch the value of a single wallet in a currency on a date.
+ *
+ * @param wallet - Chain and address of the wallet
+ * @param options - Optional configuration
+ * @returns The wallet value (0 when it cannot be determined)
+ */
+export async function fetchSingleWalletValuation(
+  wallet: { chain: WalletChain; address: string; currency: string },
+  options: {
+    date?: Date;
+    upsert?: boolean;
+  } = {},
+): Promise<number> {
+  const { date = new Date(), upsert = true } = options;
+
+  const valuations = await fetchWalletValuations([{ ...wallet, date }], upsert);
+  const key = getWalletValuationKey(
+    wallet.chain,
+    wallet.address,
+    wallet.currency,
+    formatUtcDateKey(date),
+  );
+  return valuations.get(key) || 0;
+}
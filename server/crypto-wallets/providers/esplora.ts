@@ -0,0 +1,83 @@
+import { formatUtcDateKey } from "@/server/quotes/utils";
+
+import { getBalancesOnDates } from "@/lib/crypto-wallets";
+
+import type { ChainDataProvider } from "./types";
+
+// Esplora API (Blockstream by default; any self-hosted instance works)
+const ESPLORA_API =
+  process.env.ESPLORA_API_URL ?? "https://blockstream.info/api";
+const SATOSHIS_PER_BTC = 100_000_000;
+// Confirmed transactions are paged 25 at a time; cap very active addresses
+const MAX_PAGES = 40;
+
+interface EsploraOutput {
+  scriptpubkey_address?: string;
+  value: number;
+}
+
+interface EsploraTransaction {
+  txid: string;
+  status: { confirmed: boolean; block_time?: number };
+  vin: Array<{ prevout: EsploraOutput | null }>;
+  vout: EsploraOutput[];
+}
+
+async function fetchConfirmedTransactions(address: string) {
+  const transactions: EsploraTransaction[] = [];
+  let lastSeenTxid: string | null = null;
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const url: string = lastSeenTxid
+      ? `${ESPLORA_API}/address/${address}/txs/chain/${lastSeenTxid}`
+      : `${ESPLORA_API}/address/${address}/txs/chain`;
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const batch: EsploraTransaction[] = await response.json();
+    transactions.push(...batch);
+
+    if (batch.length < 25) break;
+    lastSeenTxid = batch[batch.length - 1].txid;
+  }
+
+  return transactions;
+}
+
+/**
+ * Bitcoin balances rebuilt from an address's confirmed transaction history.
+ */
+export const esploraProvider: ChainDataProvider = {
+  id: "esplora",
+  chains: ["bitcoin"],
+
+  async fetchBalances(_chain, address, dateKeys) {
+    const transactions = await fetchConfirmedTransactions(address);
+
+    // Net effect of each transaction on the address
+    const changes = transactions.flatMap((transaction) => {
+      if (!transaction.status.block_time) return [];
+
+      const received = transaction.vout
+        .filter((output) => output.scriptpubkey_address === address)
+        .reduce((sum, output) => sum + output.value, 0);
+      const spent = transaction.vin
+        .filter((input) => input.prevout?.scriptpubkey_address === address)
+        .reduce((sum, input) => sum + (input.prevout?.value ?? 0), 0);
+
+      return [
+        {
+          date: formatUtcDateKey(
+            new Date(transaction.status.block_time * 1000),
+          ),
+          amount: (received - spent) / SATOSHIS_PER_BTC,
+        },
+      ];
+    });
+
+    return getBalancesOnDates(changes, dateKeys);
+  },
+};
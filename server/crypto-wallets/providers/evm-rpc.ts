@@ -0,0 +1,51 @@
+import { formatUtcDateKey } from "@/server/quotes/utils";
+
+import type { ChainDataProvider } from "./types";
+
+const WEI_PER_ETHER = BigInt(10) ** BigInt(18);
+const MICRO = BigInt(1_000_000);
+
+/**
+ * Ethereum balances from a JSON-RPC node (ETHEREUM_RPC_URL).
+ * Only the latest balance is available, so it answers today's date; past
+ * dates build up from the cached daily balances.
+ */
+export const evmRpcProvider: ChainDataProvider = {
+  id: "evm-rpc",
+  chains: ["ethereum"],
+
+  async fetchBalances(_chain, address, dateKeys) {
+    const balances = new Map<string, number>();
+    const rpcUrl = process.env.ETHEREUM_RPC_URL;
+    const todayKey = formatUtcDateKey(new Date());
+
+    if (!rpcUrl || !dateKeys.includes(todayKey)) return balances;
+
+    const response = await fetch(rpcUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "eth_getBalance",
+        params: [address, "latest"],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const { result, error } = await response.json();
+    if (error || typeof result !== "string") {
+      throw new Error(error?.message ?? "Invalid eth_getBalance response");
+    }
+
+    // Keep 6 decimals of precision when converting from wei
+    const wei = BigInt(result);
+    const microEther = (wei * MICRO) / WEI_PER_ETHER;
+    balances.set(todayKey, Number(microEther) / 1_000_000);
+
+    return balances;
+  },
+};
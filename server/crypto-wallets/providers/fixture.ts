@@ -0,0 +1,29 @@
+import { getBalancesOnDates, getWalletKey } from "@/lib/crypto-wallets";
+
+import type { WalletChain } from "@/lib/crypto-wallets";
+import type { ChainDataProvider } from "./types";
+
+export type ChainDataFixtures = Record<
+  string,
+  Array<{ date: string; amount: number }>
+>;
+
+/**
+ * Local provider answering from dated balance changes keyed by
+ * `chain:address`. Used in tests and offline development.
+ */
+export function createFixtureChainDataProvider(
+  fixtures: ChainDataFixtures,
+  chains: readonly WalletChain[] = ["bitcoin", "ethereum"],
+): ChainDataProvider {
+  return {
+    id: "fixture",
+    chains,
+
+    async fetchBalances(chain, address, dateKeys) {
+      const changes = fixtures[getWalletKey(chain, address)];
+      if (!changes) return new Map();
+      return getBalancesOnDates(changes, dateKeys);
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import { esploraProvider } from "./esplora";
+import { evmRpcProvider } from "./evm-rpc";
+
+import { isOfflineMode } from "@/server/offline/mode";
+
+import type { WalletChain } from "@/lib/crypto-wallets";
+import type { ChainDataProvider } from "./types";
+
+// Registry of live chain data providers
+const CHAIN_DATA_PROVIDERS: ChainDataProvider[] = [
+  esploraProvider,
+  evmRpcProvider,
+];
+
+// Replaces every live provider when set (tests, local fixtures)
+let overrideProvider: ChainDataProvider | null = null;
+
+export function setChainDataProvider(provider: ChainDataProvider | null) {
+  overrideProvider = provider;
+}
+
+/**
+ * Provider that reads balances for a chain, or null if none supports it.
+ * Live providers need the network, so offline mode only has stored balances.
+ */
+export function getChainDataProvider(chain: WalletChain) {
+  if (!overrideProvider && isOfflineMode()) return null;
+
+  const providers = overrideProvider
+    ? [overrideProvider]
+    : CHAIN_DATA_PROVIDERS;
+  return providers.find((provider) => provider.chains.includes(chain)) ?? null;
+}
+
+export type { ChainDataProvider } from "./types";
+export { createFixtureChainDataProvider } from "./fixture";
@@ -0,0 +1,25 @@
+import type { WalletChain } from "@/lib/crypto-wallets";
+
+/**
+ * Source of on-chain wallet balances. Providers are swappable so the wallet
+ * handler can run against a live chain API or local fixtures.
+ */
+export interface ChainDataProvider {
+  /** Provider name used in logs */
+  id: string;
+
+  /** Chains this provider can read */
+  chains: readonly WalletChain[];
+
+  /**
+   * Native-asset balance of an address at the end of each requested date.
+   * Dates the provider cannot answer are left out of the map.
+   *
+   * @param dateKeys - Dates as yyyy-MM-dd (UTC)
+   */
+  fetchBalances(
+    chain: WalletChain,
+    address: string,
+    dateKeys: string[],
+  ): Promise<Map<string, number>>;
+}
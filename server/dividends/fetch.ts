@@ -5,6 +5,8 @@ import { format, subYears, subDays } from "date-fns";
 import { yahooFinance } from "@/server/yahoo-finance/client";
 import { createServiceClient } from "@/supabase/service";
 import { resolveSymbolsBatch } from "@/server/symbols/resolver";
+import { isOfflineMode } from "@/server/offline/mode";
+import { readLocalDividends, type LocalDividend } from "./local-file";
 
 import type { Dividend, DividendEvent } from "@/types/global.types";
 
@@ -21,13 +23,16 @@ export async function fetchDividends(
   // Early return if no requests
   if (!requests.length) return new Map();
 
-  // 1) Batch resolve all symbol identifiers to canonical UUIDs and Yahoo tickers
+  const offline = isOfflineMode();
+
+  // 1) Batch resolve all symbol identifiers to canonical UUIDs and Yahoo
+  // tickers (or the tickers used in local files in offline mode)
   const uniqueInputs = requests
     .map((r) => r.symbolId.trim())
     .filter((symbolId) => symbolId.length > 0);
 
   const { byInput, byCanonicalId } = await resolveSymbolsBatch(uniqueInputs, {
-    provider: "yahoo",
+    provider: offline ? "csv" : "yahoo",
     providerType: "ticker",
     onError: "throw",
   });
@@ -115,8 +120,33 @@ export async function fetchDividends(
   );
 
   if (missingCanonicalIds.length > 0) {
+    // Offline mode reads DIVIDENDS_CSV_PATH instead of Yahoo Finance
+    const localDividends = offline ? await readLocalDividends() : null;
+    const symbolCurrencies = new Map<string, string>();
+    if (localDividends) {
+      const { data } = await supabase
+        .from("symbols")
+        .select("id, currency")
+        .in("id", missingCanonicalIds);
+      data?.forEach(({ id, currency }) => symbolCurrencies.set(id, currency));
+    }
+
     // 3) Fetch missing dividend data from Yahoo Finance (bulk per canonical symbol)
     const fetchPromises = missingCanonicalIds.map(async (symbolId) => {
+      if (offline) {
+        const ticker = byCanonicalId.get(symbolId)?.providerAlias;
+        if (!localDividends || !ticker) {
+          return { symbolId, events: [], summary: null as Dividend | null };
+        }
+
+        return buildLocalDividendResult(
+          symbolId,
+          localDividends.get(ticker.toUpperCase()) ?? [],
+          symbolCurrencies.get(symbolId) ?? "USD",
+          summariesBySymbol.get(symbolId),
+        );
+      }
+
       const resolution = byCanonicalId.get(symbolId);
       const yahooTicker = resolution?.providerAlias;
       if (!yahooTicker) {
@@ -298,6 +328,56 @@ export async function fetchDividends(
   return finalResults;
 }
 
+/**
+ * Dividend events and summary of a symbol from local dividend files. Files
+ * only list past payments, so there is no forward dividend or yield.
+ */
+function buildLocalDividendResult(
+  symbolId: string,
+  dividends: LocalDividend[],
+  symbolCurrency: string,
+  existingSummary: Dividend | undefined,
+) {
+  const now = new Date().toISOString();
+  const events: DividendEvent[] = dividends.map((dividend) => ({
+    id: crypto.randomUUID(),
+    symbol_id: symbolId,
+    event_date: dividend.dateKey,
+    gross_amount: dividend.amount,
+    currency: dividend.currency ?? symbolCurrency,
+    source: "csv",
+    created_at: now,
+  }));
+
+  // Keep payer data found earlier when the files don't list the symbol
+  if (!events.length && existingSummary?.pays_dividends) {
+    return { symbolId, events, summary: null as Dividend | null };
+  }
+
+  const yearAgo = format(subYears(new Date(), 1), "yyyy-MM-dd");
+  const trailingTtm = events
+    .filter((event) => event.event_date > yearAgo)
+    .reduce((sum, event) => sum + event.gross_amount, 0);
+
+  const summary: Dividend = {
+    symbol_id: symbolId,
+    forward_annual_dividend: null,
+    trailing_ttm_dividend: trailingTtm || null,
+    dividend_yield: null,
+    ex_dividend_date: null,
+    last_dividend_date: events.at(-1)?.event_date ?? null,
+    inferred_frequency: events.length
+      ? detectDividendFrequency([...events])
+      : null,
+    pays_dividends: events.length > 0,
+    dividends_checked_at: now,
+    created_at: now,
+    updated_at: now,
+  };
+
+  return { symbolId, events, summary };
+}
+
 /**
  * Detect dividend frequency from historical events
  */
@@ -0,0 +1,71 @@
+import { readLocalDataFiles } from "@/server/offline/files";
+
+import { parseCSVRows } from "@/lib/import/parser/csv-reader";
+import { parseDateStrict } from "@/lib/import/parser/date-parser";
+import { parseNumberStrict } from "@/lib/import/parser/number-parser";
+
+export type LocalDividend = {
+  dateKey: string;
+  amount: number;
+  currency: string | null;
+};
+
+const SYMBOL_HEADER = /^(symbol|ticker)$/i;
+const DATE_HEADER = /^(date|ex[ _-]?date|event[ _-]?date)$/i;
+const AMOUNT_HEADER = /^(amount|dividend|gross[ _-]?amount)$/i;
+const CURRENCY_HEADER = /^currency$/i;
+
+/**
+ * Parse dividend files with symbol, date, amount and optional currency
+ * columns into dividends keyed by upper-cased symbol. A later file wins when
+ * two give a dividend for the same symbol and day.
+ */
+export function parseDividendFiles(contents: string[]) {
+  const bySymbol = new Map<string, Map<string, LocalDividend>>();
+
+  contents.forEach((content) => {
+    const [headers = [], ...rows] = parseCSVRows(content);
+
+    const symbolColumn = headers.findIndex((h) => SYMBOL_HEADER.test(h));
+    const dateColumn = headers.findIndex((h) => DATE_HEADER.test(h));
+    const amountColumn = headers.findIndex((h) => AMOUNT_HEADER.test(h));
+    const currencyColumn = headers.findIndex((h) => CURRENCY_HEADER.test(h));
+    if (symbolColumn < 0 || dateColumn < 0 || amountColumn < 0) return;
+
+    rows.forEach((cells) => {
+      const symbol = cells[symbolColumn]?.trim().toUpperCase();
+      const dateKey = parseDateStrict(cells[dateColumn] ?? "");
+      const amount = parseNumberStrict(cells[amountColumn] ?? "");
+      if (!symbol || !dateKey || !Number.isFinite(amount) || amount <= 0) {
+        return;
+      }
+
+      const currency = cells[currencyColumn]?.trim().toUpperCase() || null;
+      const dividends = bySymbol.get(symbol) ?? new Map();
+      dividends.set(dateKey, { dateKey, amount, currency });
+      bySymbol.set(symbol, dividends);
+    });
+  });
+
+  return new Map(
+    Array.from(bySymbol, ([symbol, dividends]) => [
+      symbol,
+      Array.from(dividends.values()).sort((a, b) =>
+        a.dateKey.localeCompare(b.dateKey),
+      ),
+    ]),
+  );
+}
+
+/**
+ * Dividends from DIVIDENDS_CSV_PATH, a dividend file or a folder of them.
+ * Null when it's unset.
+ */
+export async function readLocalDividends() {
+  const contents = await readLocalDataFiles(process.env.DIVIDENDS_CSV_PATH, [
+    ".csv",
+    ".tsv",
+    ".txt",
+  ]);
+  return contents ? parseDividendFiles(contents) : null;
+}
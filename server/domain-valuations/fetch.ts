@@ -3,6 +3,7 @@
 import { format } from "date-fns";
 
 import { createServiceClient } from "@/supabase/service";
+import { isOfflineMode } from "@/server/offline/mode";
 
 // Replicate API configuration
 const REPLICATE_API = "https://api.replicate.com/v1/predictions";
@@ -62,6 +63,30 @@ export async function fetchDomainValuations(
     ({ cacheKey }) => !results.has(cacheKey),
   );
 
+  // Offline mode can't reach Replicate, so reuse the latest stored valuation
+  if (isOfflineMode() && missingRequests.length > 0) {
+    const latestDate = missingRequests
+      .map(({ dateString }) => dateString)
+      .sort()
+      .at(-1)!;
+
+    const { data: storedValuations } = await supabase
+      .from("domain_valuations")
+      .select("id, date, price")
+      .in("id", [...new Set(missingRequests.map(({ domain }) => domain))])
+      .lte("date", latestDate)
+      .order("date", { ascending: false });
+
+    missingRequests.forEach(({ domain, dateString, cacheKey }) => {
+      const stored = storedValuations?.find(
+        (valuation) => valuation.id === domain && valuation.date <= dateString,
+      );
+      if (stored) results.set(cacheKey, stored.price);
+    });
+
+    return results;
+  }
+
   // 2. Fetch missing valuations from API in batches
   if (missingRequests.length > 0) {
     // Group domains by date for batching
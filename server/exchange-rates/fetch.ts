@@ -1,14 +1,143 @@
 "use server";
 
-import { format } from "date-fns";
+import { format, parseISO, subDays } from "date-fns";
 
 import { createServiceClient } from "@/supabase/service";
 
-// Exchange rate API
-const FRANKFURTER_API = "https://api.frankfurter.app";
+import { getExchangeRateProviders } from "./providers";
+
+import { ExchangeRateMap, toUsdRates } from "@/lib/currency-conversion";
+
+// How far back a last known rate is carried forward when no provider has one
+const CARRY_FORWARD_DAYS = 31;
+const PAGE_SIZE = 1000;
+
+type Client = ReturnType<typeof createServiceClient>;
+
+type FetchedRate = {
+  currency: string;
+  dateString: string;
+  rate: number;
+  rateDate: string;
+  source: string;
+  cacheable: boolean;
+};
+
+/**
+ * Rates of one day from the providers, in priority order. Each provider only
+ * receives the currencies still missing.
+ */
+async function fetchProviderRates(dateString: string, currencies: string[]) {
+  const fetched: FetchedRate[] = [];
+  let pending = currencies;
+
+  for (const provider of getExchangeRateProviders()) {
+    if (!pending.length) break;
+
+    let quote;
+    try {
+      quote = await provider.fetchRates(dateString, pending);
+    } catch (error) {
+      console.warn(
+        `Failed to fetch ${provider.id} exchange rates for ${dateString}:`,
+        error,
+      );
+      continue;
+    }
+    if (!quote) continue;
+
+    const usdRates = toUsdRates(quote.base, quote.rates, pending);
+    Object.entries(usdRates).forEach(([currency, rate]) =>
+      fetched.push({
+        currency,
+        dateString,
+        rate,
+        rateDate: quote.rateDate,
+        source: provider.id,
+        // Local files can get newer rates later, so rates carried forward
+        // from them aren't cached
+        cacheable:
+          Boolean(provider.requiresNetwork) || quote.rateDate === dateString,
+      }),
+    );
+    pending = pending.filter((currency) => !(currency in usdRates));
+  }
+
+  return fetched;
+}
+
+/**
+ * Last stored rate before each day, for what no provider could quote
+ * (outages, or offline mode without local rates).
+ */
+async function fetchLastKnownRates(
+  supabase: Client,
+  requests: Array<{ currency: string; dateString: string }>,
+) {
+  const lastKnown: FetchedRate[] = [];
+  const currencies = [...new Set(requests.map((r) => r.currency))];
+  const dateStrings = requests.map((r) => r.dateString).sort();
+  const start = format(
+    subDays(parseISO(dateStrings[0]), CARRY_FORWARD_DAYS),
+    "yyyy-MM-dd",
+  );
+  const end = dateStrings[dateStrings.length - 1];
+
+  for (const currency of currencies) {
+    const rows: Array<{
+      date: string;
+      rate: number;
+      rate_date: string | null;
+    }> = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("exchange_rates")
+        .select("date, rate, rate_date")
+        .eq("base_currency", "USD")
+        .eq("target_currency", currency)
+        .gte("date", start)
+        .lt("date", end)
+        .order("date")
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        console.error("[fetchExchangeRates] last known rate error:", error);
+        break;
+      }
+      rows.push(...data);
+      if (data.length < PAGE_SIZE) break;
+    }
+
+    requests
+      .filter((request) => request.currency === currency)
+      .forEach(({ dateString }) => {
+        const windowStart = format(
+          subDays(parseISO(dateString), CARRY_FORWARD_DAYS),
+          "yyyy-MM-dd",
+        );
+        const row = rows.findLast(
+          (row) => row.date < dateString && row.date >= windowStart,
+        );
+        if (!row) return;
+
+        lastKnown.push({
+          currency,
+          dateString,
+          rate: row.rate,
+          rateDate: row.rate_date ?? row.date,
+          source: "last-known",
+          cacheable: false,
+        });
+      });
+  }
+
+  return lastKnown;
+}
 
 /**
  * Fetch multiple exchange rates for different currencies and dates in bulk.
+ * Days without published rates reuse the last ones, and the map keeps the
+ * day each rate is from.
  *
  * @param requests - Array of {currency, date} pairs to fetch
  * @returns Map where key is "currency|date" and value is the rate
@@ -16,16 +145,16 @@ const FRANKFURTER_API = "https://api.frankfurter.app";
 export async function fetchExchangeRates(
   requests: Array<{ currency: string; date: Date }>,
 ) {
-  // Early return if no requests
-  if (!requests.length) return new Map();
+  const results = new ExchangeRateMap();
 
-  const results = new Map<string, number>();
+  // Early return if no requests
+  if (!requests.length) return results;
 
   // Handle USD requests immediately (rate = 1)
   const nonUsdRequests = requests.filter((req) => {
-    const cacheKey = `${req.currency}|${format(req.date, "yyyy-MM-dd")}`;
+    const dateString = format(req.date, "yyyy-MM-dd");
     if (req.currency === "USD") {
-      results.set(cacheKey, 1);
+      results.setRate("USD", dateString, 1, dateString);
       return false;
     }
     return true;
@@ -72,7 +201,7 @@ export async function fetchExchangeRates(
 
       const { data, error } = await supabase
         .from("exchange_rates")
-        .select("target_currency, date, rate")
+        .select("target_currency, date, rate, rate_date")
         .eq("base_currency", "USD")
         .in("target_currency", currencyChunk)
         .in("date", dateChunk);
@@ -83,8 +212,12 @@ export async function fetchExchangeRates(
       }
 
       data?.forEach((rate) => {
-        const cacheKey = `${rate.target_currency}|${rate.date}`;
-        results.set(cacheKey, rate.rate);
+        results.setRate(
+          rate.target_currency,
+          rate.date,
+          rate.rate,
+          rate.rate_date ?? rate.date,
+        );
       });
     }
   }
@@ -94,61 +227,38 @@ export async function fetchExchangeRates(
     ({ cacheKey }) => !results.has(cacheKey),
   );
 
-  // 3. Fetch missing rates using frankfurter api in parallel
+  // 3. Fetch missing rates from the exchange rate providers, per date in
+  // parallel
   if (missingRequests.length > 0) {
-    // Group by unique dates for frankfurter api calls
-    const uniqueDates = [...new Set(missingRequests.map((r) => r.dateString))];
-
-    // Create parallel promises for each date
-    const fetchPromises = uniqueDates.map(async (dateString) => {
-      try {
-        const missingCurrenciesForDate = missingRequests
-          .filter((req) => req.dateString === dateString)
-          .map((req) => req.currency);
-
-        const response = await fetch(
-          `${FRANKFURTER_API}/${dateString}?base=USD&symbols=${missingCurrenciesForDate.join(",")}`,
-        );
-        const data = await response.json();
-
-        if (!data.rates) {
-          throw new Error(`No rates data found for ${dateString}`);
-        }
-
-        // Return the data for this date
-        return {
-          dateString,
-          rates: data.rates,
-          success: true,
-        };
-      } catch (error) {
-        console.warn(
-          `Failed to fetch exchange rates for ${dateString}:`,
-          error,
-        );
-        return { dateString, success: false };
-      }
+    const currenciesByDate = new Map<string, string[]>();
+    missingRequests.forEach(({ currency, dateString }) => {
+      const currencies = currenciesByDate.get(dateString) ?? [];
+      if (!currencies.includes(currency)) currencies.push(currency);
+      currenciesByDate.set(dateString, currencies);
     });
 
-    // Wait for all fetches to complete
-    const fetchResults = await Promise.all(fetchPromises);
-
-    // Filter successful fetches and prepare for bulk insert
-    const successfulFetches = fetchResults.filter((result) => result.success);
-
-    if (successfulFetches.length > 0) {
-      // Prepare all rows for bulk insert
-      const allRows = successfulFetches.flatMap(({ dateString, rates }) =>
-        Object.entries(rates).map(([currency, rate]) => ({
-          base_currency: "USD",
-          target_currency: currency,
-          rate: Number(rate),
-          date: dateString,
-        })),
-      );
+    const fetchedRates = (
+      await Promise.all(
+        Array.from(currenciesByDate, ([dateString, currencies]) =>
+          fetchProviderRates(dateString, currencies),
+        ),
+      )
+    ).flat();
+
+    const rows = fetchedRates
+      .filter(({ cacheable }) => cacheable)
+      .map(({ currency, dateString, rate, rateDate, source }) => ({
+        base_currency: "USD",
+        target_currency: currency,
+        rate,
+        date: dateString,
+        rate_date: rateDate,
+        source,
+      }));
 
+    if (rows.length > 0) {
       // Sort by PK components to avoid lock-order deadlocks
-      allRows.sort((a, b) => {
+      rows.sort((a, b) => {
         if (a.target_currency === b.target_currency) {
           return a.date.localeCompare(b.date);
         }
@@ -158,17 +268,27 @@ export async function fetchExchangeRates(
       // Single bulk insert into database
       const { error: insertError } = await supabase
         .from("exchange_rates")
-        .upsert(allRows, { onConflict: "base_currency,target_currency,date" });
+        .upsert(rows, { onConflict: "base_currency,target_currency,date" });
 
       if (insertError) {
         console.error("Failed to bulk insert exchange rates:", insertError);
       }
+    }
 
-      // Add to results directly (no re-querying database!)
-      allRows.forEach(({ target_currency, date, rate }) => {
-        const cacheKey = `${target_currency}|${date}`;
-        results.set(cacheKey, rate);
-      });
+    // Add to results directly (no re-querying database!)
+    fetchedRates.forEach(({ currency, dateString, rate, rateDate }) =>
+      results.setRate(currency, dateString, rate, rateDate),
+    );
+
+    // 4. Carry forward the last known rate for anything still missing
+    const stillMissing = missingRequests.filter(
+      ({ cacheKey }) => !results.has(cacheKey),
+    );
+    if (stillMissing.length > 0) {
+      const lastKnown = await fetchLastKnownRates(supabase, stillMissing);
+      lastKnown.forEach(({ currency, dateString, rate, rateDate }) =>
+        results.setRate(currency, dateString, rate, rateDate),
+      );
     }
   }
 
@@ -0,0 +1,32 @@
+"use server";
+
+import { startOfDay } from "date-fns";
+
+import { fetchPositions } from "@/server/positions/fetch";
+import { fetchExchangeRates } from "./fetch";
+
+import { convertCurrency } from "@/lib/currency-conversion";
+
+/**
+ * Currencies of the active portfolio that convert to the target currency
+ * with a stale rate today, or with no rate at all.
+ */
+export async function fetchExchangeRateIssues(targetCurrency: string) {
+  const date = startOfDay(new Date());
+  const positions = await fetchPositions();
+
+  const currencies = [...new Set(positions.map((p) => p.currency))].filter(
+    (currency) => currency !== targetCurrency,
+  );
+  if (!currencies.length) return [];
+
+  const exchangeRates = await fetchExchangeRates(
+    [...currencies, targetCurrency].map((currency) => ({ currency, date })),
+  );
+
+  currencies.forEach((currency) =>
+    convertCurrency(1, currency, targetCurrency, exchangeRates, date),
+  );
+
+  return exchangeRates.rateIssues;
+}
@@ -0,0 +1,45 @@
+import { readLocalDataFiles } from "@/server/offline/files";
+
+import { getEcbRates, parseEcbRates, type EcbRates } from "@/lib/ecb-rates";
+
+import type { ExchangeRateProvider } from "./types";
+
+// Re-parse only when the files change
+let cachedContent: string | null = null;
+let cachedRates: EcbRates = new Map();
+
+/**
+ * ECB reference rates from EXCHANGE_RATES_XML_PATH, a rate file or a folder
+ * of them. Null when it's unset.
+ */
+export async function readEcbRatesFile() {
+  const contents = await readLocalDataFiles(
+    process.env.EXCHANGE_RATES_XML_PATH,
+    [".xml"],
+  );
+  if (!contents) return null;
+
+  const key = contents.join("\0");
+  if (key !== cachedContent) {
+    cachedRates = new Map();
+    contents.forEach((xml) => parseEcbRates(xml, cachedRates));
+    cachedContent = key;
+  }
+
+  return cachedRates;
+}
+
+// Local ECB rate files, for offline use or currencies other providers miss
+export const ecbFileProvider: ExchangeRateProvider = {
+  id: "ecb-file",
+  priority: 20,
+  requiresNetwork: false,
+
+  async fetchRates(dateKey) {
+    const ecbRates = await readEcbRatesFile();
+    if (!ecbRates) return null;
+
+    const published = getEcbRates(ecbRates, dateKey);
+    return published ? { base: "EUR", ...published } : null;
+  },
+};
@@ -0,0 +1,30 @@
+import type { ExchangeRateProvider } from "./types";
+
+// Exchange rate API
+const FRANKFURTER_API = "https://api.frankfurter.app";
+
+export const frankfurterProvider: ExchangeRateProvider = {
+  id: "frankfurter",
+  priority: 10,
+  requiresNetwork: true,
+
+  async fetchRates(dateKey, currencies) {
+    const symbols = currencies.filter((currency) => currency !== "USD");
+    const response = await fetch(
+      `${FRANKFURTER_API}/${dateKey}?base=USD&symbols=${symbols.join(",")}`,
+    );
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    if (!data.rates) throw new Error(`No rates data found for ${dateKey}`);
+
+    // Frankfurter answers with the last working day's rates
+    return {
+      base: "USD",
+      rateDate: typeof data.date === "string" ? data.date : dateKey,
+      rates: data.rates,
+    };
+  },
+};
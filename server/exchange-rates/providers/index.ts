@@ -0,0 +1,54 @@
+import { frankfurterProvider } from "./frankfurter";
+import { ecbFileProvider } from "./ecb-file";
+
+import { isOfflineMode } from "@/server/offline/mode";
+
+import type { ExchangeRateProvider } from "./types";
+
+// Registry of exchange rate providers
+const EXCHANGE_RATE_PROVIDERS: ExchangeRateProvider[] = [
+  frankfurterProvider,
+  ecbFileProvider,
+];
+
+// Replaces the registry when set (tests, local fixtures)
+let overrideProviders: ExchangeRateProvider[] | null = null;
+
+export function setExchangeRateProviders(
+  providers: ExchangeRateProvider[] | null,
+) {
+  overrideProviders = providers;
+}
+
+/**
+ * Providers in the order they are tried. EXCHANGE_RATE_PROVIDERS (e.g.
+ * "ecb-file,frankfurter") picks and orders providers by id; otherwise all
+ * run by priority. Offline mode leaves out providers that need the network.
+ */
+export function getExchangeRateProviders() {
+  return selectExchangeRateProviders().filter(
+    (provider) => !(provider.requiresNetwork && isOfflineMode()),
+  );
+}
+
+function selectExchangeRateProviders() {
+  if (overrideProviders) {
+    return [...overrideProviders].sort((a, b) => a.priority - b.priority);
+  }
+
+  const configured = process.env.EXCHANGE_RATE_PROVIDERS?.split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  if (configured?.length) {
+    return configured.flatMap((id) => {
+      const provider = EXCHANGE_RATE_PROVIDERS.find((p) => p.id === id);
+      return provider ? [provider] : [];
+    });
+  }
+
+  return [...EXCHANGE_RATE_PROVIDERS].sort((a, b) => a.priority - b.priority);
+}
+
+export type { ExchangeRateProvider, ExchangeRateQuote } from "./types";
+export { readEcbRatesFile } from "./ecb-file";
@@ -0,0 +1,36 @@
+/**
+ * Rates of one day against a base currency.
+ */
+export interface ExchangeRateQuote {
+  /** Currency the rates are quoted against */
+  base: string;
+  /** Day the rates were published (yyyy-MM-dd), on or before the day asked for */
+  rateDate: string;
+  /** Units of each currency per unit of base. Must include USD unless it's the base */
+  rates: Record<string, number>;
+}
+
+/**
+ * Source of exchange rates. Providers are tried in priority order and each
+ * one only receives the currencies the previous ones could not quote.
+ * Rates are triangulated through USD, so any base works.
+ */
+export interface ExchangeRateProvider {
+  /** Provider name used in logs, `exchange_rates.source` and EXCHANGE_RATE_PROVIDERS */
+  id: string;
+
+  /** Lower runs first */
+  priority: number;
+
+  /** Skipped in offline mode */
+  requiresNetwork?: boolean;
+
+  /**
+   * Rates on a day, or the last ones published before it (weekends and
+   * holidays). Null when the provider has nothing for the day.
+   */
+  fetchRates(
+    dateKey: string,
+    currencies: string[],
+  ): Promise<ExchangeRateQuote | null>;
+}
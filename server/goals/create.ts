@@ -0,0 +1,37 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getCurrentUser } from "@/server/auth/actions";
+import { parseGoalFormData } from "@/server/goals/utils";
+
+/**
+ * Create a goal.
+ */
+export async function createGoal(formData: FormData) {
+  const { supabase, user } = await getCurrentUser();
+
+  const parsed = parseGoalFormData(formData);
+  if (!parsed.ok) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      message: parsed.message,
+    } as const;
+  }
+
+  const { error } = await supabase
+    .from("goals")
+    .insert({ user_id: user.id, ...parsed.values });
+
+  if (error) {
+    return {
+      success: false,
+      code: error.code,
+      message: error.message,
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
@@ -0,0 +1,24 @@
+"use server";
+
+import { cache } from "react";
+
+import { getCurrentUser } from "@/server/auth/actions";
+
+/**
+ * Fetch the user's goals, nearest deadline first.
+ */
+export const fetchGoals = cache(async () => {
+  const { supabase, user } = await getCurrentUser();
+
+  const { data: goals, error } = await supabase
+    .from("goals")
+    .select("*")
+    .eq("user_id", user.id)
+    .order("deadline", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch goals: ${error.message}`);
+  }
+
+  return goals;
+});
@@ -0,0 +1,41 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getCurrentUser } from "@/server/auth/actions";
+import { parseGoalFormData } from "@/server/goals/utils";
+
+/**
+ * Update a goal's target, deadline, links and projection overrides.
+ */
+export async function updateGoal(formData: FormData, goalId: string) {
+  const { supabase, user } = await getCurrentUser();
+
+  const parsed = parseGoalFormData(formData);
+  if (!parsed.ok) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      message: parsed.message,
+    } as const;
+  }
+
+  const { data: goal, error } = await supabase
+    .from("goals")
+    .update(parsed.values)
+    .eq("id", goalId)
+    .eq("user_id", user.id)
+    .select("id")
+    .maybeSingle();
+
+  if (error || !goal) {
+    return {
+      success: false,
+      code: error?.code ?? "NOT_FOUND",
+      message: error?.message ?? "Goal not found",
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
@@ -0,0 +1,96 @@
+import type { Goal } from "@/types/global.types";
+
+export type GoalFormValues = Pick<
+  Goal,
+  | "name"
+  | "target_amount"
+  | "currency"
+  | "deadline"
+  | "position_ids"
+  | "category_ids"
+  | "expected_return"
+  | "monthly_contribution"
+>;
+
+// Parse a JSON array of ids; null when the field is malformed
+function parseIdList(raw: FormDataEntryValue | null) {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(String(raw)) as unknown;
+    if (!Array.isArray(parsed)) return null;
+    return Array.from(new Set(parsed.map(String).filter(Boolean)));
+  } catch {
+    return null;
+  }
+}
+
+function parseOptionalNumber(raw: FormDataEntryValue | null) {
+  if (raw === null || String(raw).trim() === "") return null;
+  return Number(raw);
+}
+
+/**
+ * Parse and validate goal fields from FormData.
+ * `position_ids` and `category_ids` are JSON arrays of ids.
+ */
+export function parseGoalFormData(
+  formData: FormData,
+): { ok: true; values: GoalFormValues } | { ok: false; message: string } {
+  const name = String(formData.get("name") ?? "").trim();
+  const targetAmount = Number(formData.get("target_amount"));
+  const currency = String(formData.get("currency") ?? "").toUpperCase();
+  const deadline = (formData.get("deadline") as string) || "";
+  const positionIds = parseIdList(formData.get("position_ids"));
+  const categoryIds = parseIdList(formData.get("category_ids"));
+  const expectedReturn = parseOptionalNumber(formData.get("expected_return"));
+  const monthlyContribution = parseOptionalNumber(
+    formData.get("monthly_contribution"),
+  );
+
+  if (name.length < 1 || name.length > 64) {
+    return { ok: false, message: "Name must be between 1 and 64 characters" };
+  }
+  if (!Number.isFinite(targetAmount) || targetAmount <= 0) {
+    return { ok: false, message: "Target amount must be greater than 0" };
+  }
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    return { ok: false, message: "A valid currency is required" };
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(deadline)) {
+    return { ok: false, message: "Deadline is required" };
+  }
+  if (!positionIds || !categoryIds) {
+    return { ok: false, message: "Invalid linked positions or categories" };
+  }
+  if (
+    expectedReturn !== null &&
+    (!Number.isFinite(expectedReturn) ||
+      expectedReturn < -100 ||
+      expectedReturn > 100)
+  ) {
+    return {
+      ok: false,
+      message: "Expected return must be between -100 and 100",
+    };
+  }
+  if (
+    monthlyContribution !== null &&
+    (!Number.isFinite(monthlyContribution) || monthlyContribution < 0)
+  ) {
+    return { ok: false, message: "Monthly contribution must be 0 or greater" };
+  }
+
+  return {
+    ok: true,
+    values: {
+      name,
+      target_amount: targetAmount,
+      currency,
+      deadline,
+      position_ids: positionIds,
+      category_ids: categoryIds,
+      expected_return: expectedReturn,
+      monthly_contribution: monthlyContribution,
+    },
+  };
+}
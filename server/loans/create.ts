@@ -0,0 +1,108 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { VIEW_ONLY_MESSAGE } from "@/server/portfolio-members/utils";
+import { syncLoanSnapshots } from "@/server/loans/schedule";
+import { parseLoanFormData } from "@/server/loans/utils";
+
+/**
+ * Attach a loan model to a liability position and generate its balance history.
+ */
+export async function createLoan(formData: FormData) {
+  const { supabase, ownerId, access } = await getActivePortfolio();
+
+  if (access === "viewer") {
+    return {
+      success: false,
+      code: "READ_ONLY",
+      message: VIEW_ONLY_MESSAGE,
+    } as const;
+  }
+
+  const positionId = (formData.get("position_id") as string) || "";
+  const parsed = parseLoanFormData(formData);
+
+  if (!positionId) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      message: "Missing required field: position_id",
+    } as const;
+  }
+
+  if (!parsed.ok) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      message: parsed.message,
+    } as const;
+  }
+
+  // Only liabilities can carry a loan schedule
+  const { data: position, error: positionError } = await supabase
+    .from("positions")
+    .select("id, type")
+    .eq("id", positionId)
+    .eq("user_id", ownerId)
+    .maybeSingle();
+
+  if (positionError || !position) {
+    return {
+      success: false,
+      code: positionError?.code ?? "NOT_FOUND",
+      message: positionError?.message ?? "Position not found",
+    } as const;
+  }
+
+  if (position.type !== "liability") {
+    return {
+      success: false,
+      code: "INVALID_POSITION_TYPE",
+      message: "Loan schedules can only be added to liabilities",
+    } as const;
+  }
+
+  const { extra_payments, ...loanValues } = parsed.values;
+
+  const { data: loan, error: insertError } = await supabase
+    .from("loans")
+    .insert({ user_id: ownerId, position_id: positionId, ...loanValues })
+    .select("id")
+    .single();
+
+  if (insertError || !loan) {
+    return {
+      success: false,
+      code: insertError?.code ?? "UNKNOWN",
+      message: insertError?.message ?? "Failed to create loan",
+    } as const;
+  }
+
+  if (extra_payments.length) {
+    const { error: extrasError } = await supabase
+      .from("loan_extra_payments")
+      .insert(
+        extra_payments.map((payment) => ({
+          user_id: ownerId,
+          loan_id: loan.id,
+          ...payment,
+        })),
+      );
+
+    if (extrasError) {
+      return {
+        success: false,
+        code: extrasError.code,
+        message: extrasError.message,
+      } as const;
+    }
+  }
+
+  const syncResult = await syncLoanSnapshots(positionId);
+  if (!syncResult.success) return syncResult;
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
@@ -0,0 +1,39 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { VIEW_ONLY_MESSAGE } from "@/server/portfolio-members/utils";
+
+/**
+ * Remove a loan model. Generated snapshots and extra payments cascade;
+ * manual snapshots and portfolio records are kept.
+ */
+export async function deleteLoan(loanId: string) {
+  const { supabase, ownerId, access } = await getActivePortfolio();
+
+  if (access === "viewer") {
+    return {
+      success: false,
+      code: "READ_ONLY",
+      message: VIEW_ONLY_MESSAGE,
+    } as const;
+  }
+
+  const { error } = await supabase
+    .from("loans")
+    .delete()
+    .eq("id", loanId)
+    .eq("user_id", ownerId);
+
+  if (error) {
+    return {
+      success: false,
+      code: error.code,
+      message: error.message,
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
@@ -0,0 +1,49 @@
+"use server";
+
+import { cache } from "react";
+
+import { createServiceClient } from "@/supabase/service";
+
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { buildLoanSchedule } from "@/server/loans/schedule";
+
+/**
+ * Fetch the loan model of a liability position with its projected schedule.
+ * Returns null when the position has no loan.
+ */
+export const fetchLoan = cache(async (positionId: string) => {
+  const { supabase, ownerId } = await getActivePortfolio();
+
+  const { data: loan, error } = await supabase
+    .from("loans")
+    .select("*")
+    .eq("position_id", positionId)
+    .eq("user_id", ownerId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch loan: ${error.message}`);
+  }
+
+  if (!loan) return null;
+
+  const { schedule, extraPayments } = await buildLoanSchedule(supabase, loan);
+
+  return { loan, extraPayments, schedule };
+});
+
+/**
+ * Fetch the position IDs of all loan-backed liabilities.
+ * Used by the cron job that keeps schedule snapshots up to date.
+ */
+export async function fetchLoanPositionIds() {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase.from("loans").select("position_id");
+
+  if (error) {
+    throw new Error(`Failed to fetch loans: ${error.message}`);
+  }
+
+  return data?.map((loan) => loan.position_id) || [];
+}
@@ -0,0 +1,144 @@
+import { format, startOfDay } from "date-fns";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { createServiceClient } from "@/supabase/service";
+
+import { generateLoanSchedule, toLoanTerms } from "@/lib/loan-schedule";
+
+import type { Database } from "@/types/database.types";
+import type { Loan, LoanExtraPayment } from "@/types/global.types";
+
+const parseDateKey = (dateKey: string) => new Date(`${dateKey}T00:00:00`);
+
+/**
+ * Build the amortization schedule for a loan.
+ * Manual snapshots (initial balance and portfolio records) act as balance
+ * overrides so the schedule continues from the last known balance.
+ */
+export async function buildLoanSchedule(
+  supabase: SupabaseClient<Database>,
+  loan: Loan,
+) {
+  const [extraPaymentsResult, manualSnapshotsResult] = await Promise.all([
+    supabase
+      .from("loan_extra_payments")
+      .select("*")
+      .eq("loan_id", loan.id)
+      .order("date", { ascending: true }),
+    supabase
+      .from("position_snapshots")
+      .select("date, quantity, unit_value, created_at")
+      .eq("position_id", loan.position_id)
+      .is("loan_id", null)
+      .order("date", { ascending: true })
+      .order("created_at", { ascending: true }),
+  ]);
+
+  if (extraPaymentsResult.error) {
+    throw new Error(
+      `Failed to fetch loan extra payments: ${extraPaymentsResult.error.message}`,
+    );
+  }
+  if (manualSnapshotsResult.error) {
+    throw new Error(
+      `Failed to fetch manual snapshots: ${manualSnapshotsResult.error.message}`,
+    );
+  }
+
+  const extraPayments: LoanExtraPayment[] = extraPaymentsResult.data ?? [];
+  const manualSnapshots = manualSnapshotsResult.data ?? [];
+
+  const schedule = generateLoanSchedule(toLoanTerms(loan), {
+    extraPayments: extraPayments.map((payment) => ({
+      date: parseDateKey(payment.date),
+      amount: Number(payment.amount),
+    })),
+    balanceOverrides: manualSnapshots.map((snapshot) => ({
+      date: parseDateKey(snapshot.date),
+      amount: Number(snapshot.quantity) * Number(snapshot.unit_value),
+    })),
+  });
+
+  const manualDates = new Set(manualSnapshots.map((s) => s.date));
+
+  return { schedule, extraPayments, manualDates };
+}
+
+/**
+ * Regenerate the schedule-driven balance history of a loan-backed position.
+ * Writes one snapshot per past payment date (plus the start date), skipping
+ * dates that already carry a manual snapshot so manual values win.
+ */
+export async function syncLoanSnapshots(positionId: string, asOfDate?: Date) {
+  const supabase = createServiceClient();
+
+  const { data: loan, error: loanError } = await supabase
+    .from("loans")
+    .select("*")
+    .eq("position_id", positionId)
+    .maybeSingle();
+
+  if (loanError) {
+    return {
+      success: false,
+      code: loanError.code ?? "LOAN_FETCH_FAILED",
+      message: loanError.message ?? "Failed to fetch loan",
+    } as const;
+  }
+
+  // Positions without a loan model keep their manual history only
+  if (!loan) return { success: true } as const;
+
+  const { schedule, manualDates } = await buildLoanSchedule(supabase, loan);
+
+  const cutoffKey = format(startOfDay(asOfDate ?? new Date()), "yyyy-MM-dd");
+  const points = [
+    { dateKey: loan.start_date, balance: Number(loan.principal) },
+    ...schedule.periods.map((period) => ({
+      dateKey: format(period.date, "yyyy-MM-dd"),
+      balance: period.balance,
+    })),
+  ].filter(
+    (point) => point.dateKey <= cutoffKey && !manualDates.has(point.dateKey),
+  );
+
+  // Replace previously generated snapshots
+  const { error: deleteError } = await supabase
+    .from("position_snapshots")
+    .delete()
+    .eq("loan_id", loan.id);
+
+  if (deleteError) {
+    return {
+      success: false,
+      code: deleteError.code ?? "SNAPSHOT_DELETE_FAILED",
+      message: deleteError.message ?? "Failed to clear loan snapshots",
+    } as const;
+  }
+
+  if (!points.length) return { success: true } as const;
+
+  const { error: insertError } = await supabase
+    .from("position_snapshots")
+    .insert(
+      points.map((point) => ({
+        user_id: loan.user_id,
+        position_id: positionId,
+        loan_id: loan.id,
+        date: point.dateKey,
+        quantity: 1,
+        unit_value: point.balance,
+        cost_basis_per_unit: point.balance,
+      })),
+    );
+
+  if (insertError) {
+    return {
+      success: false,
+      code: insertError.code ?? "SNAPSHOT_INSERT_FAILED",
+      message: insertError.message ?? "Failed to insert loan snapshots",
+    } as const;
+  }
+
+  return { success: true } as const;
+}
@@ -0,0 +1,91 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { VIEW_ONLY_MESSAGE } from "@/server/portfolio-members/utils";
+import { syncLoanSnapshots } from "@/server/loans/schedule";
+import { parseLoanFormData } from "@/server/loans/utils";
+
+/**
+ * Update a loan model, replace its one-off extra payments and regenerate
+ * the schedule-driven balance history.
+ */
+export async function updateLoan(formData: FormData, loanId: string) {
+  const { supabase, ownerId, access } = await getActivePortfolio();
+
+  if (access === "viewer") {
+    return {
+      success: false,
+      code: "READ_ONLY",
+      message: VIEW_ONLY_MESSAGE,
+    } as const;
+  }
+
+  const parsed = parseLoanFormData(formData);
+  if (!parsed.ok) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      message: parsed.message,
+    } as const;
+  }
+
+  const { extra_payments, ...loanValues } = parsed.values;
+
+  const { data: loan, error: updateError } = await supabase
+    .from("loans")
+    .update(loanValues)
+    .eq("id", loanId)
+    .eq("user_id", ownerId)
+    .select("id, position_id")
+    .single();
+
+  if (updateError || !loan) {
+    return {
+      success: false,
+      code: updateError?.code ?? "NOT_FOUND",
+      message: updateError?.message ?? "Loan not found",
+    } as const;
+  }
+
+  // Replace one-off extra payments
+  const { error: deleteError } = await supabase
+    .from("loan_extra_payments")
+    .delete()
+    .eq("loan_id", loan.id);
+
+  if (deleteError) {
+    return {
+      success: false,
+      code: deleteError.code,
+      message: deleteError.message,
+    } as const;
+  }
+
+  if (extra_payments.length) {
+    const { error: extrasError } = await supabase
+      .from("loan_extra_payments")
+      .insert(
+        extra_payments.map((payment) => ({
+          user_id: ownerId,
+          loan_id: loan.id,
+          ...payment,
+        })),
+      );
+
+    if (extrasError) {
+      return {
+        success: false,
+        code: extrasError.code,
+        message: extrasError.message,
+      } as const;
+    }
+  }
+
+  const syncResult = await syncLoanSnapshots(loan.position_id);
+  if (!syncResult.success) return syncResult;
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
@@ -0,0 +1,96 @@
+import type { Loan } from "@/types/global.types";
+import { LOAN_PAYMENT_FREQUENCIES } from "@/types/enums";
+
+export type LoanFormValues = Pick<
+  Loan,
+  | "principal"
+  | "annual_interest_rate"
+  | "term_months"
+  | "payment_frequency"
+  | "start_date"
+  | "recurring_extra_payment"
+> & {
+  extra_payments: { date: string; amount: number }[];
+};
+
+/**
+ * Parse and validate loan fields from FormData.
+ * `extra_payments` is a JSON array of `{ date, amount }`.
+ */
+export function parseLoanFormData(
+  formData: FormData,
+): { ok: true; values: LoanFormValues } | { ok: false; message: string } {
+  const principal = Number(formData.get("principal"));
+  const annualInterestRate = Number(formData.get("annual_interest_rate") ?? 0);
+  const termMonths = Number(formData.get("term_months"));
+  const paymentFrequency = (formData.get("payment_frequency") ||
+    "monthly") as Loan["payment_frequency"];
+  const startDate = (formData.get("start_date") as string) || "";
+  const recurringExtraPayment = Number(
+    formData.get("recurring_extra_payment") || 0,
+  );
+
+  if (!Number.isFinite(principal) || principal <= 0) {
+    return { ok: false, message: "Principal must be greater than 0" };
+  }
+  if (
+    !Number.isFinite(annualInterestRate) ||
+    annualInterestRate < 0 ||
+    annualInterestRate > 100
+  ) {
+    return { ok: false, message: "Interest rate must be between 0 and 100" };
+  }
+  if (!Number.isInteger(termMonths) || termMonths <= 0 || termMonths > 600) {
+    return { ok: false, message: "Term must be between 1 and 600 months" };
+  }
+  if (!LOAN_PAYMENT_FREQUENCIES.includes(paymentFrequency)) {
+    return { ok: false, message: "Invalid payment frequency" };
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate)) {
+    return { ok: false, message: "Start date is required" };
+  }
+  if (!Number.isFinite(recurringExtraPayment) || recurringExtraPayment < 0) {
+    return { ok: false, message: "Extra payment must be 0 or greater" };
+  }
+
+  let extraPayments: LoanFormValues["extra_payments"] = [];
+  const extraPaymentsRaw = formData.get("extra_payments");
+  if (extraPaymentsRaw) {
+    try {
+      const parsed = JSON.parse(String(extraPaymentsRaw)) as unknown;
+      if (!Array.isArray(parsed)) throw new Error();
+      extraPayments = parsed.map((item) => ({
+        date: String(item?.date ?? ""),
+        amount: Number(item?.amount),
+      }));
+    } catch {
+      return { ok: false, message: "Invalid extra payments" };
+    }
+
+    const invalid = extraPayments.find(
+      (payment) =>
+        !/^\d{4}-\d{2}-\d{2}$/.test(payment.date) ||
+        !Number.isFinite(payment.amount) ||
+        payment.amount <= 0,
+    );
+    if (invalid) {
+      return {
+        ok: false,
+        message: "Extra payments need a date and an amount greater than 0",
+      };
+    }
+  }
+
+  return {
+    ok: true,
+    values: {
+      principal,
+      annual_interest_rate: annualInterestRate,
+      term_months: termMonths,
+      payment_frequency: paymentFrequency,
+      start_date: startDate,
+      recurring_extra_payment: recurringExtraPayment,
+      extra_payments: extraPayments,
+    },
+  };
+}
@@ -204,11 +204,18 @@ export async function fetchMarketDataRange(
 
 /**
  * Adapt full positions to the minimal MarketDataPosition shape expected by the hub.
- * Keeps source-specific knowledge centralized here (symbol_id, domain_id, etc.).
+ * Keeps source-specific knowledge centralized here (symbol_id, domain_id,
+ * wallet_chain/wallet_address, property_id, etc.).
  */
 export async function toMarketDataPositions(
   positions: Array<
-    Pick<TransformedPosition, "id" | "currency" | "symbol_id" | "domain_id">
+    Pick<TransformedPosition, "id" | "currency" | "symbol_id" | "domain_id"> &
+      Partial<
+        Pick<
+          TransformedPosition,
+          "wallet_chain" | "wallet_address" | "property_id"
+        >
+      >
   >,
 ): Promise<MarketDataPosition[]> {
   return positions.map((p) => ({
@@ -216,5 +223,8 @@ export async function toMarketDataPositions(
     currency: p.currency,
     symbol_id: p.symbol_id ?? null,
     domain_id: p.domain_id ?? null,
+    wallet_chain: p.wallet_chain ?? null,
+    wallet_address: p.wallet_address ?? null,
+    property_id: p.property_id ?? null,
   }));
 }
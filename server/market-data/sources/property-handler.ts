@@ -0,0 +1,75 @@
+import { fetchPropertyValuations } from "@/server/properties/fetch";
+import { formatUtcDateKey } from "@/server/quotes/utils";
+
+import { getPropertyValuationKey } from "@/lib/property-valuation";
+
+import type {
+  MarketDataHandler,
+  MarketDataPosition,
+  PropertyRequest,
+} from "./types";
+
+export const propertyHandler: MarketDataHandler = {
+  source: "property",
+
+  async fetchForPositions(positions: MarketDataPosition[], date: Date) {
+    // Collect requests for property positions
+    const requests: PropertyRequest[] = [];
+    for (const p of positions) {
+      if (p.property_id) {
+        requests.push({ propertyId: p.property_id, date });
+      }
+    }
+
+    // Value properties if we have any requests
+    if (requests.length === 0) return new Map();
+
+    try {
+      return await fetchPropertyValuations(requests);
+    } catch {
+      return new Map();
+    }
+  },
+
+  async fetchForPositionsRange(
+    positions: MarketDataPosition[],
+    dates: Date[],
+    options?: { upsert?: boolean; eligibleDates?: Map<string, Set<string>> },
+  ) {
+    const requests: PropertyRequest[] = [];
+    const dedup = new Set<string>();
+
+    for (const date of dates) {
+      const dateKey = formatUtcDateKey(date);
+
+      for (const position of positions) {
+        if (!position.property_id) continue;
+
+        const allowedDates = options?.eligibleDates?.get(position.id ?? "");
+        if (allowedDates && !allowedDates.has(dateKey)) continue;
+
+        const dedupKey = getPropertyValuationKey(position.property_id, dateKey);
+        if (dedup.has(dedupKey)) continue;
+        dedup.add(dedupKey);
+
+        requests.push({ propertyId: position.property_id, date });
+      }
+    }
+
+    if (requests.length === 0) return new Map();
+
+    try {
+      return await fetchPropertyValuations(requests);
+    } catch {
+      return new Map();
+    }
+  },
+
+  getKey(position: MarketDataPosition, date: Date) {
+    if (!position.property_id) return null;
+    return getPropertyValuationKey(
+      position.property_id,
+      formatUtcDateKey(date),
+    );
+  },
+};
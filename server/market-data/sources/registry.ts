@@ -1,5 +1,7 @@
 import { symbolHandler } from "./symbol-handler";
 import { domainHandler } from "./domain-handler";
+import { walletHandler } from "./wallet-handler";
+import { propertyHandler } from "./property-handler";
 
 import type { MarketDataHandler } from "./types";
 
@@ -7,4 +9,6 @@ import type { MarketDataHandler } from "./types";
 export const MARKET_DATA_HANDLERS: MarketDataHandler[] = [
   symbolHandler,
   domainHandler,
+  walletHandler,
+  propertyHandler,
 ];
@@ -1,4 +1,5 @@
 import type { TransformedPosition } from "@/types/global.types";
+import type { WalletChain } from "@/lib/crypto-wallets";
 
 /**
  * Interface for a pluggable market data handler.
@@ -8,7 +9,16 @@ import type { TransformedPosition } from "@/types/global.types";
  * - Key generation for price lookups
  */
 export type MarketDataPosition = Pick<TransformedPosition, "id" | "currency"> &
-  Partial<Pick<TransformedPosition, "symbol_id" | "domain_id">>;
+  Partial<
+    Pick<
+      TransformedPosition,
+      | "symbol_id"
+      | "domain_id"
+      | "wallet_chain"
+      | "wallet_address"
+      | "property_id"
+    >
+  >;
 
 export interface MarketDataHandler {
   /**
@@ -46,3 +56,10 @@ export interface MarketDataHandler {
 // Concrete request payloads (kept for internal handler use)
 export type SymbolRequest = { symbolLookup: string; date: Date };
 export type DomainRequest = { domain: string; date: Date };
+export type PropertyRequest = { propertyId: string; date: Date };
+export type WalletRequest = {
+  chain: WalletChain;
+  address: string;
+  currency: string;
+  date: Date;
+};
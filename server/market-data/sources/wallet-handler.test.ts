@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+import { fetchMarketDataRange } from "@/server/market-data/fetch";
+import {
+  createFixtureChainDataProvider,
+  setChainDataProvider,
+} from "@/server/crypto-wallets/providers";
+import { walletHandler } from "./wallet-handler";
+
+const ADDRESS = "bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq";
+
+// Empty balance cache
+vi.mock("@/supabase/service", () => {
+  const query = {
+    select: () => query,
+    in: () => query,
+    upsert: async () => ({ error: null }),
+    then: (resolve: (value: unknown) => void) => resolve({ data: [] }),
+  };
+  return { createServiceClient: () => ({ from: () => query }) };
+});
+
+vi.mock("@/server/symbols/resolver", () => ({
+  resolveSymbolInput: vi.fn(async () => ({
+    symbol: { id: "btc", currency: "USD" },
+  })),
+}));
+
+// BTC at 40k, then 50k
+vi.mock("@/server/quotes/fetch", () => ({
+  fetchQuotes: vi.fn(
+    async (requests: Array<{ symbolLookup: string; date: Date }>) =>
+      new Map(
+        requests.map(({ symbolLookup, date }) => {
+          const dateKey = date.toISOString().slice(0, 10);
+          return [
+            `${symbolLookup}|${dateKey}`,
+            dateKey < "2024-02-01" ? 40_000 : 50_000,
+          ];
+        }),
+      ),
+  ),
+}));
+
+vi.mock("@/server/exchange-rates/fetch", () => ({
+  fetchExchangeRates: vi.fn(
+    async (requests: Array<{ currency: string; date: Date }>) =>
+      new Map(
+        requests.map(({ currency, date }) => [
+          `${currency}|${date.toISOString().slice(0, 10)}`,
+          currency === "EUR" ? 0.5 : 1,
+        ]),
+      ),
+  ),
+}));
+
+describe("walletHandler", () => {
+  afterEach(() => {
+    setChainDataProvider(null);
+  });
+
+  it("only handles positions with a chain and address", () => {
+    const date = new Date("2024-01-15");
+
+    expect(
+      walletHandler.getKey({ id: "1", currency: "USD", symbol_id: "x" }, date),
+    ).toBeNull();
+    expect(
+      walletHandler.getKey(
+        {
+          id: "1",
+          currency: "USD",
+          wallet_chain: "bitcoin",
+          wallet_address: ADDRESS,
+        },
+        date,
+      ),
+    ).toBe(`bitcoin:${ADDRESS}:USD|2024-01-15`);
+  });
+
+  it("values wallet history through fetchMarketDataRange", async () => {
+    setChainDataProvider(
+      createFixtureChainDataProvider({
+        [`bitcoin:${ADDRESS}`]: [
+          { date: "2024-01-10", amount: 0.5 },
+          { date: "2024-02-05", amount: 0.25 },
+        ],
+      }),
+    );
+
+    const prices = await fetchMarketDataRange(
+      [
+        {
+          id: "wallet",
+          currency: "EUR",
+          wallet_chain: "bitcoin",
+          wallet_address: ADDRESS,
+        },
+      ],
+      [new Date("2024-01-05"), new Date("2024-01-15"), new Date("2024-02-10")],
+      { upsert: false },
+    );
+
+    expect(prices.get("wallet|2024-01-05")).toBe(0);
+    expect(prices.get("wallet|2024-01-15")).toBe(10_000);
+    expect(prices.get("wallet|2024-02-10")).toBe(18_750);
+  });
+});
@@ -0,0 +1,97 @@
+import { fetchWalletValuations } from "@/server/crypto-wallets/fetch";
+import { formatUtcDateKey } from "@/server/quotes/utils";
+
+import { getWalletValuationKey, isWalletChain } from "@/lib/crypto-wallets";
+
+import type {
+  MarketDataHandler,
+  MarketDataPosition,
+  WalletRequest,
+} from "./types";
+
+// Wallet request for a position on a date (null if not a wallet position)
+function toWalletRequest(
+  position: MarketDataPosition,
+  date: Date,
+): WalletRequest | null {
+  const { wallet_chain, wallet_address, currency } = position;
+  if (!wallet_address || !isWalletChain(wallet_chain)) return null;
+  return { chain: wallet_chain, address: wallet_address, currency, date };
+}
+
+export const walletHandler: MarketDataHandler = {
+  source: "wallet",
+
+  async fetchForPositions(
+    positions: MarketDataPosition[],
+    date: Date,
+    options?: { upsert?: boolean },
+  ) {
+    // Collect requests for wallet positions
+    const requests: WalletRequest[] = [];
+    for (const p of positions) {
+      const request = toWalletRequest(p, date);
+      if (request) requests.push(request);
+    }
+
+    // Fetch valuations if we have any requests
+    if (requests.length === 0) return new Map();
+
+    try {
+      return await fetchWalletValuations(requests, options?.upsert ?? true);
+    } catch {
+      return new Map();
+    }
+  },
+
+  async fetchForPositionsRange(
+    positions: MarketDataPosition[],
+    dates: Date[],
+    options?: { upsert?: boolean; eligibleDates?: Map<string, Set<string>> },
+  ) {
+    const requests: WalletRequest[] = [];
+    const dedup = new Set<string>();
+
+    for (const date of dates) {
+      const dateKey = formatUtcDateKey(date);
+
+      for (const position of positions) {
+        const request = toWalletRequest(position, date);
+        if (!request) continue;
+
+        const allowedDates = options?.eligibleDates?.get(position.id ?? "");
+        if (allowedDates && !allowedDates.has(dateKey)) continue;
+
+        const dedupKey = getWalletValuationKey(
+          request.chain,
+          request.address,
+          request.currency,
+          dateKey,
+        );
+        if (dedup.has(dedupKey)) continue;
+        dedup.add(dedupKey);
+
+        requests.push(request);
+      }
+    }
+
+    if (requests.length === 0) return new Map();
+
+    try {
+      return await fetchWalletValuations(requests, options?.upsert ?? true);
+    } catch {
+      return new Map();
+    }
+  },
+
+  getKey(position: MarketDataPosition, date: Date) {
+    const request = toWalletRequest(position, date);
+    if (!request) return null;
+    return getWalletValuationKey(
+      request.chain,
+      request.address,
+      request.currency,
+      formatUtcDateKey(date),
+    );
+  },
+};
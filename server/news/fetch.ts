@@ -1,6 +1,7 @@
 "use server";
 
 import { yahooFinance } from "@/server/yahoo-finance/client";
+import { isOfflineMode } from "@/server/offline/mode";
 import { createServiceClient } from "@/supabase/service";
 import { fetchPositions } from "@/server/positions/fetch";
 import {
@@ -40,6 +41,10 @@ export async function fetchNewsForSymbols(
       return { success: true, data: [] };
     }
 
+    if (isOfflineMode()) {
+      return { success: false, message: "News isn't available offline." };
+    }
+
     // 1) Batch resolve all symbol identifiers to canonical UUIDs and Yahoo tickers
     const uniqueInputs = [
       ...new Set(
@@ -0,0 +1,14 @@
+import type { EmailTransport } from "./types";
+
+/**
+ * Logs emails instead of sending them. Default when no SMTP server is set up.
+ */
+export const consoleEmailTransport: EmailTransport = {
+  id: "console",
+
+  async send(message) {
+    console.log(
+      `[email] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`,
+    );
+  },
+};
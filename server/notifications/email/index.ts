@@ -0,0 +1,39 @@
+import { consoleEmailTransport } from "./console";
+import { smtpEmailTransport } from "./smtp";
+
+import type { EmailTransport } from "./types";
+
+// Registry of email transports
+const EMAIL_TRANSPORTS: EmailTransport[] = [
+  consoleEmailTransport,
+  smtpEmailTransport,
+];
+
+// Replaces the configured transport when set (tests, local fixtures)
+let overrideTransport: EmailTransport | null = null;
+
+export function setEmailTransport(transport: EmailTransport | null) {
+  overrideTransport = transport;
+}
+
+/**
+ * Transport used for notification emails. EMAIL_TRANSPORT (e.g. "smtp")
+ * picks one by id; otherwise SMTP when SMTP_HOST is set, else the console.
+ */
+export function getEmailTransport() {
+  if (overrideTransport) return overrideTransport;
+
+  const configured =
+    process.env.EMAIL_TRANSPORT?.trim() ||
+    (process.env.SMTP_HOST ? "smtp" : "console");
+
+  const transport = EMAIL_TRANSPORTS.find((t) => t.id === configured);
+  if (!transport) {
+    throw new Error(`Unknown email transport: ${configured}`);
+  }
+
+  return transport;
+}
+
+export type { EmailMessage, EmailTransport } from "./types";
+export { createSmtpTransport } from "./smtp";
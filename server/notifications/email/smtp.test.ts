@@ -0,0 +1,97 @@
+import { createServer } from "net";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { createSmtpTransport, formatSmtpMessage } from "./smtp";
+
+import type { AddressInfo, Server } from "net";
+
+/** Bare-bones SMTP catcher that records what it receives. */
+function startCatcher() {
+  const received: string[] = [];
+
+  const server = createServer((socket) => {
+    let inData = false;
+    let buffer = "";
+
+    socket.write("220 catcher ready\r\n");
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+
+      let index: number;
+      while ((index = buffer.indexOf("\r\n")) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        received.push(line);
+
+        if (inData) {
+          if (line === ".") {
+            inData = false;
+            socket.write("250 queued\r\n");
+          }
+        } else if (line.startsWith("EHLO")) {
+          socket.write("250-catcher\r\n250 8BITMIME\r\n");
+        } else if (line === "DATA") {
+          inData = true;
+          socket.write("354 go ahead\r\n");
+        } else if (line === "QUIT") {
+          socket.end("221 bye\r\n");
+        } else {
+          socket.write("250 ok\r\n");
+        }
+      }
+    });
+  });
+
+  return new Promise<{ server: Server; port: number; received: string[] }>(
+    (resolve) => {
+      server.listen(0, "127.0.0.1", () => {
+        const { port } = server.address() as AddressInfo;
+        resolve({ server, port, received });
+      });
+    },
+  );
+}
+
+describe("createSmtpTransport", () => {
+  let server: Server | null = null;
+
+  afterEach(() => {
+    server?.close();
+    server = null;
+  });
+
+  it("delivers a message to a local SMTP catcher", async () => {
+    const catcher = await startCatcher();
+    server = catcher.server;
+
+    const transport = createSmtpTransport({
+      host: "127.0.0.1",
+      port: catcher.port,
+      secure: false,
+      from: "Foliofox <alerts@example.com>",
+    });
+
+    await transport.send({
+      to: "user@example.com",
+      subject: "AAPL is above 200.00 USD",
+      text: "AAPL trades at 201.00 USD.\n.hidden dot",
+    });
+
+    expect(catcher.received).toContain("MAIL FROM:<alerts@example.com>");
+    expect(catcher.received).toContain("RCPT TO:<user@example.com>");
+    expect(catcher.received).toContain("Subject: AAPL is above 200.00 USD");
+    expect(catcher.received).toContain("..hidden dot");
+    expect(catcher.received[catcher.received.length - 1]).toBe("QUIT");
+  });
+});
+
+describe("formatSmtpMessage", () => {
+  it("encodes non-ASCII subjects", () => {
+    const message = formatSmtpMessage(
+      { to: "user@example.com", subject: "Net worth above 1 000 €", text: "" },
+      "alerts@example.com",
+    );
+
+    expect(message).toContain("Subject: =?UTF-8?B?");
+  });
+});
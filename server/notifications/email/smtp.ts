@@ -0,0 +1,173 @@
+import { connect as connectTcp } from "net";
+import { connect as connectTls } from "tls";
+import { hostname } from "os";
+
+import type { Socket } from "net";
+import type { EmailMessage, EmailTransport } from "./types";
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  /** Implicit TLS (usually port 465). Plain connections don't upgrade. */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  /** Sender, either `address` or `Name <address>` */
+  from: string;
+};
+
+const SMTP_TIMEOUT_MS = 30_000;
+
+/** Read SMTP settings from SMTP_* and EMAIL_FROM. */
+export function getSmtpConfig(): SmtpConfig {
+  const host = process.env.SMTP_HOST;
+  if (!host) throw new Error("SMTP_HOST is not set");
+
+  const secure = process.env.SMTP_SECURE === "true";
+
+  return {
+    host,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    from: process.env.EMAIL_FROM || "Foliofox <notifications@localhost>",
+  };
+}
+
+/**
+ * Wait for the next complete (possibly multi-line) reply from the server.
+ */
+function readReply(socket: Socket) {
+  return new Promise<{ code: number; message: string }>((resolve, reject) => {
+    let buffer = "";
+
+    const cleanup = () => {
+      socket.off("data", onData);
+      socket.off("error", onError);
+      socket.off("close", onClose);
+    };
+    const onData = (chunk: Buffer) => {
+      buffer += chunk.toString("utf8");
+      if (!buffer.endsWith("\r\n")) return;
+
+      // Continuation lines look like "250-...", the last one "250 ..."
+      const lines = buffer.trimEnd().split("\r\n");
+      const last = lines[lines.length - 1];
+      if (!/^\d{3}( |$)/.test(last)) return;
+
+      cleanup();
+      resolve({ code: Number(last.slice(0, 3)), message: lines.join("\n") });
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error("SMTP connection closed unexpectedly"));
+    };
+
+    socket.on("data", onData);
+    socket.on("error", onError);
+    socket.on("close", onClose);
+  });
+}
+
+async function command(
+  socket: Socket,
+  line: string | null,
+  expectedCodes: number[],
+) {
+  const reply = readReply(socket);
+  if (line !== null) socket.write(`${line}\r\n`);
+
+  const { code, message } = await reply;
+  if (!expectedCodes.includes(code)) {
+    // Only name the verb, AUTH lines carry credentials
+    const verb = line?.split(" ")[0] ?? "connect";
+    throw new Error(`SMTP ${verb} failed: ${message}`);
+  }
+}
+
+function extractAddress(mailbox: string) {
+  return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+}
+
+function encodeHeader(value: string) {
+  // Non-ASCII headers need RFC 2047 encoding
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+/**
+ * Build the message with headers, CRLF line endings and dot-stuffing.
+ */
+export function formatSmtpMessage(message: EmailMessage, from: string) {
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit",
+  ];
+
+  const body = message.text
+    .split(/\r?\n/)
+    .map((line) => (line.startsWith(".") ? `.${line}` : line));
+
+  return [...headers, "", ...body].join("\r\n");
+}
+
+/**
+ * Minimal SMTP client over a raw socket: one connection per message.
+ * Works with local catchers like Mailpit or MailHog (no auth, plain TCP).
+ */
+export function createSmtpTransport(
+  config: SmtpConfig | (() => SmtpConfig),
+): EmailTransport {
+  return {
+    id: "smtp",
+
+    async send(message) {
+      const { host, port, secure, user, password, from } =
+        typeof config === "function" ? config() : config;
+
+      const socket: Socket = secure
+        ? connectTls({ host, port, servername: host })
+        : connectTcp({ host, port });
+      socket.setTimeout(SMTP_TIMEOUT_MS, () =>
+        socket.destroy(new Error("SMTP connection timed out")),
+      );
+
+      try {
+        await command(socket, null, [220]);
+        await command(socket, `EHLO ${hostname()}`, [250]);
+
+        if (user && password) {
+          const credentials = Buffer.from(`\0${user}\0${password}`).toString(
+            "base64",
+          );
+          await command(socket, `AUTH PLAIN ${credentials}`, [235]);
+        }
+
+        await command(socket, `MAIL FROM:<${extractAddress(from)}>`, [250]);
+        await command(socket, `RCPT TO:<${message.to}>`, [250, 251]);
+        await command(socket, "DATA", [354]);
+        await command(
+          socket,
+          `${formatSmtpMessage(message, from)}\r\n.`,
+          [250],
+        );
+        await command(socket, "QUIT", [221]);
+      } finally {
+        socket.destroy();
+      }
+    },
+  };
+}
+
+export const smtpEmailTransport = createSmtpTransport(getSmtpConfig);
@@ -0,0 +1,17 @@
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  /** Plain text body */
+  text: string;
+}
+
+/**
+ * Delivers notification emails. Transports are picked with EMAIL_TRANSPORT,
+ * so a local SMTP catcher (e.g. Mailpit) can stand in for a real server.
+ */
+export interface EmailTransport {
+  /** Transport name used in logs and in EMAIL_TRANSPORT */
+  id: string;
+
+  send(message: EmailMessage): Promise<void>;
+}
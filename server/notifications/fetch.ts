@@ -0,0 +1,36 @@
+"use server";
+
+import { cache } from "react";
+
+import { getCurrentUser } from "@/server/auth/actions";
+
+const INBOX_SIZE = 20;
+
+/**
+ * Fetch the latest notifications in the user's inbox, newest first, and how
+ * many are unread overall.
+ */
+export const fetchNotifications = cache(async () => {
+  const { supabase, user } = await getCurrentUser();
+
+  const [latest, unread] = await Promise.all([
+    supabase
+      .from("notifications")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false })
+      .limit(INBOX_SIZE),
+    supabase
+      .from("notifications")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", user.id)
+      .is("read_at", null),
+  ]);
+
+  const error = latest.error ?? unread.error;
+  if (error) {
+    throw new Error(`Failed to fetch notifications: ${error.message}`);
+  }
+
+  return { notifications: latest.data ?? [], unreadCount: unread.count ?? 0 };
+});
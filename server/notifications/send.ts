@@ -0,0 +1,79 @@
+import { createServiceClient } from "@/supabase/service";
+
+import { getEmailTransport } from "@/server/notifications/email";
+
+type NotificationInput = {
+  userId: string;
+  alertRuleId?: string | null;
+  title: string;
+  body: string;
+  /** App path the notification points to */
+  link?: string | null;
+  /** Also send it to the user's account email */
+  email?: boolean;
+};
+
+/**
+ * Add a notification to a user's inbox and optionally email it. A failed
+ * email is logged, the notification stays in the inbox either way.
+ */
+export async function sendNotification(input: NotificationInput) {
+  const supabase = createServiceClient();
+
+  const { data: notification, error } = await supabase
+    .from("notifications")
+    .insert({
+      user_id: input.userId,
+      alert_rule_id: input.alertRuleId ?? null,
+      title: input.title,
+      body: input.body,
+      link: input.link ?? null,
+    })
+    .select("id")
+    .single();
+
+  if (error || !notification) {
+    return {
+      success: false,
+      code: error?.code ?? "UNKNOWN",
+      message: error?.message ?? "Failed to create notification",
+    } as const;
+  }
+
+  if (!input.email) return { success: true, emailed: false } as const;
+
+  try {
+    const { data, error: userError } = await supabase.auth.admin.getUserById(
+      input.userId,
+    );
+    const address = data?.user?.email;
+    if (userError || !address) {
+      throw new Error(userError?.message ?? "User has no email address");
+    }
+
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL;
+    const text =
+      input.link && siteUrl
+        ? `${input.body}\n\n${new URL(input.link, siteUrl).toString()}`
+        : input.body;
+
+    await getEmailTransport().send({
+      to: address,
+      subject: input.title,
+      text,
+    });
+
+    await supabase
+      .from("notifications")
+      .update({ emailed_at: new Date().toISOString() })
+      .eq("id", notification.id);
+
+    return { success: true, emailed: true } as const;
+  } catch (emailError) {
+    console.error(
+      `Failed to email notification ${notification.id}:`,
+      emailError,
+    );
+    return { success: true, emailed: false } as const;
+  }
+}
@@ -0,0 +1,33 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getCurrentUser } from "@/server/auth/actions";
+
+/**
+ * Mark one notification as read, or every unread one when no ID is given.
+ */
+export async function markNotificationsRead(notificationId?: string) {
+  const { supabase, user } = await getCurrentUser();
+
+  let query = supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .eq("user_id", user.id)
+    .is("read_at", null);
+
+  if (notificationId) query = query.eq("id", notificationId);
+
+  const { error } = await query;
+
+  if (error) {
+    return {
+      success: false,
+      code: error.code,
+      message: error.message,
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
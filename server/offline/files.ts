@@ -0,0 +1,34 @@
+import { readdir, readFile, stat } from "fs/promises";
+import { join } from "path";
+
+/**
+ * Read a local data file, or every file with one of the extensions in a
+ * folder, sorted by name so later files win where they overlap.
+ *
+ * @returns File contents, or null when the path is unset or can't be read
+ */
+export async function readLocalDataFiles(
+  path: string | undefined,
+  extensions: string[],
+) {
+  if (!path) return null;
+
+  try {
+    if (!(await stat(path)).isDirectory()) {
+      return [await readFile(path, "utf8")];
+    }
+
+    const names = (await readdir(path))
+      .filter((name) =>
+        extensions.some((extension) => name.toLowerCase().endsWith(extension)),
+      )
+      .sort();
+
+    return await Promise.all(
+      names.map((name) => readFile(join(path, name), "utf8")),
+    );
+  } catch (error) {
+    console.warn(`Failed to read local data from ${path}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Whether OFFLINE_MODE is on: market data is read from local files and
+ * features that need internet access are turned off.
+ */
+export function isOfflineMode() {
+  return process.env.OFFLINE_MODE === "true";
+}
@@ -0,0 +1,81 @@
+"use server";
+
+import { differenceInCalendarDays, parseISO } from "date-fns";
+
+import { fetchPositions } from "@/server/positions/fetch";
+import { resolveSymbolsBatch } from "@/server/symbols/resolver";
+import { readConfiguredPriceHistories } from "@/server/quotes/providers";
+import { readEcbRatesFile } from "@/server/exchange-rates/providers";
+import { isOfflineMode } from "./mode";
+
+export interface OfflineDataStatus {
+  /** Latest day with a price in the local price files */
+  pricesDate: string | null;
+  /** Latest day in the ECB rate files */
+  exchangeRatesDate: string | null;
+  /** Held symbols without a recent local price */
+  staleTickers: string[];
+  exchangeRatesStale: boolean;
+}
+
+// Markets close on weekends and holidays, so local data is only flagged as
+// stale after a few days without updates
+const STALE_AFTER_DAYS = 4;
+
+function isStale(dateKey: string | null, today: Date) {
+  return (
+    !dateKey ||
+    differenceInCalendarDays(today, parseISO(dateKey)) > STALE_AFTER_DAYS
+  );
+}
+
+/**
+ * How current the local market data files are, or null outside offline mode.
+ */
+export async function fetchOfflineDataStatus(): Promise<OfflineDataStatus | null> {
+  if (!isOfflineMode()) return null;
+
+  const [priceHistories, ecbRates, positions] = await Promise.all([
+    readConfiguredPriceHistories(),
+    readEcbRatesFile(),
+    fetchPositions({ positionType: "asset" }),
+  ]);
+
+  const symbolIds = [
+    ...new Set(positions.flatMap((p) => (p.symbol_id ? [p.symbol_id] : []))),
+  ];
+  const { byCanonicalId } = await resolveSymbolsBatch(symbolIds, {
+    provider: "csv",
+    providerType: "ticker",
+    onError: "skip",
+  });
+
+  const today = new Date();
+  const staleTickers = Array.from(byCanonicalId.values())
+    .filter(({ providerAlias }) =>
+      isStale(
+        priceHistories?.get(providerAlias.toUpperCase())?.at(-1)?.dateKey ??
+          null,
+        today,
+      ),
+    )
+    .map(({ displayTicker, providerAlias }) => displayTicker ?? providerAlias)
+    .sort();
+
+  const pricesDate =
+    Array.from(priceHistories?.values() ?? [])
+      .map((history) => history.at(-1)?.dateKey ?? "")
+      .sort()
+      .at(-1) || null;
+  const exchangeRatesDate =
+    Array.from(ecbRates?.keys() ?? [])
+      .sort()
+      .at(-1) ?? null;
+
+  return {
+    pricesDate,
+    exchangeRatesDate,
+    staleTickers,
+    exchangeRatesStale: isStale(exchangeRatesDate, today),
+  };
+}
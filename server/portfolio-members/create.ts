@@ -0,0 +1,76 @@
+"use server";
+
+import { randomBytes } from "crypto";
+import { revalidatePath } from "next/cache";
+
+import { getCurrentUser } from "@/server/auth/actions";
+import { fetchProfile } from "@/server/profile/actions";
+import { resolveSiteUrl } from "@/server/public-portfolios/fetch";
+import { getEmailTransport } from "@/server/notifications/email";
+import {
+  buildInvitationUrl,
+  parseInvitationFormData,
+} from "@/server/portfolio-members/utils";
+
+/**
+ * Invite another Foliofox user to the own portfolio as viewer or editor.
+ * The invite link is emailed and also returned so it can be shared directly.
+ */
+export async function invitePortfolioMember(formData: FormData) {
+  const { supabase, user } = await getCurrentUser();
+
+  const parsed = parseInvitationFormData(formData);
+  if (!parsed.ok) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      message: parsed.message,
+    } as const;
+  }
+
+  const { email, role } = parsed.values;
+  if (email === user.email?.toLowerCase()) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      message: "You can't invite yourself.",
+    } as const;
+  }
+
+  // URL-safe and unguessable, the link is the only proof of the invite
+  const token = randomBytes(24).toString("base64url");
+
+  const { error } = await supabase
+    .from("portfolio_members")
+    .insert({ owner_id: user.id, email, role, token });
+
+  if (error) {
+    return {
+      success: false,
+      code: error.code,
+      message:
+        error.code === "23505"
+          ? `${email} has already been invited.`
+          : error.message,
+    } as const;
+  }
+
+  const inviteUrl = buildInvitationUrl(await resolveSiteUrl(), token);
+
+  // A failed email is logged, the invite link still works
+  try {
+    const { profile } = await fetchProfile();
+    const inviter = profile.username ?? "A Foliofox user";
+
+    await getEmailTransport().send({
+      to: email,
+      subject: `${inviter} invited you to their Foliofox portfolio`,
+      text: `${inviter} invited you to their portfolio as ${role === "editor" ? "an editor" : "a viewer"}.\n\nAccept the invitation here:\n${inviteUrl}`,
+    });
+  } catch (emailError) {
+    console.error(`Failed to email invitation to ${email}:`, emailError);
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true, inviteUrl } as const;
+}
@@ -0,0 +1,30 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getCurrentUser } from "@/server/auth/actions";
+
+/**
+ * Remove a member from the own portfolio (or revoke a pending invite), or
+ * leave a portfolio shared with the user.
+ */
+export async function deletePortfolioMember(portfolioMemberId: string) {
+  const { supabase, user } = await getCurrentUser();
+
+  const { error } = await supabase
+    .from("portfolio_members")
+    .delete()
+    .eq("id", portfolioMemberId)
+    .or(`owner_id.eq.${user.id},member_id.eq.${user.id}`);
+
+  if (error) {
+    return {
+      success: false,
+      code: error.code,
+      message: error.message,
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
@@ -0,0 +1,121 @@
+"use server";
+
+import { cache } from "react";
+import { cookies } from "next/headers";
+
+import { getCurrentUser } from "@/server/auth/actions";
+import { createServiceClient } from "@/supabase/service";
+import { ACTIVE_PORTFOLIO_COOKIE } from "@/server/portfolio-members/utils";
+
+import type {
+  PortfolioAccess,
+  PortfolioMemberWithProfile,
+  SharedPortfolio,
+} from "@/types/global.types";
+
+/**
+ * Fetch everyone invited to the user's own portfolio, oldest first.
+ * Pending invitations have no member profile yet.
+ */
+export const fetchPortfolioMembers = cache(
+  async (): Promise<PortfolioMemberWithProfile[]> => {
+    const { supabase, user } = await getCurrentUser();
+
+    const { data, error } = await supabase
+      .from("portfolio_members")
+      .select(
+        "*, member:profiles!portfolio_members_member_id_fkey (user_id, username, avatar_url)",
+      )
+      .eq("owner_id", user.id)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch portfolio members: ${error.message}`);
+    }
+
+    return data;
+  },
+);
+
+/**
+ * Fetch the portfolios other users shared with the current user.
+ */
+export const fetchSharedPortfolios = cache(
+  async (): Promise<SharedPortfolio[]> => {
+    const { supabase, user } = await getCurrentUser();
+
+    const { data, error } = await supabase
+      .from("portfolio_members")
+      .select(
+        "id, role, owner:profiles!portfolio_members_owner_id_fkey (user_id, username, avatar_url)",
+      )
+      .eq("member_id", user.id)
+      .not("accepted_at", "is", null)
+      .order("accepted_at", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch shared portfolios: ${error.message}`);
+    }
+
+    return data.flatMap(({ id, role, owner }) =>
+      owner ? [{ id, owner, role }] : [],
+    );
+  },
+);
+
+/**
+ * The portfolio being viewed: the user's own, or one shared with them that
+ * was picked in the sidebar switcher. Portfolio data is read and written for
+ * `ownerId`; RLS checks the grant, `access` lets actions fail early.
+ */
+export const getActivePortfolio = cache(async () => {
+  const { supabase, user } = await getCurrentUser();
+
+  const cookieStore = await cookies();
+  const ownerId = cookieStore.get(ACTIVE_PORTFOLIO_COOKIE)?.value;
+
+  // Stale selections (e.g. a revoked invite) fall back to the own portfolio
+  if (ownerId && ownerId !== user.id) {
+    const shared = await fetchSharedPortfolios();
+    const match = shared.find(
+      (portfolio) => portfolio.owner.user_id === ownerId,
+    );
+    if (match) {
+      return {
+        supabase,
+        user,
+        ownerId,
+        access: match.role as PortfolioAccess,
+      };
+    }
+  }
+
+  return {
+    supabase,
+    user,
+    ownerId: user.id,
+    access: "owner" as PortfolioAccess,
+  };
+});
+
+/**
+ * Look up an invitation by its token, for the accept page. Uses the service
+ * client since the invitee has no access to the row before accepting.
+ */
+export const fetchInvitation = cache(async (token: string) => {
+  if (!token) return null;
+
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from("portfolio_members")
+    .select(
+      "id, email, role, member_id, accepted_at, created_at, owner:profiles!portfolio_members_owner_id_fkey (user_id, username, avatar_url)",
+    )
+    .eq("token", token)
+    .maybeSingle();
+
+  if (error || !data?.owner) return null;
+
+  return { ...data, owner: data.owner };
+});
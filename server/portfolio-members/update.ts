@@ -0,0 +1,119 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { cookies } from "next/headers";
+
+import { getCurrentUser } from "@/server/auth/actions";
+import { createServiceClient } from "@/supabase/service";
+import { fetchInvitation } from "@/server/portfolio-members/fetch";
+import {
+  ACTIVE_PORTFOLIO_COOKIE,
+  getInvitationAcceptError,
+  isPortfolioMemberRole,
+} from "@/server/portfolio-members/utils";
+
+import type { PortfolioMemberRole } from "@/types/global.types";
+
+/**
+ * Change what a member can do in the own portfolio.
+ */
+export async function updatePortfolioMemberRole(
+  portfolioMemberId: string,
+  role: PortfolioMemberRole,
+) {
+  const { supabase, user } = await getCurrentUser();
+
+  if (!isPortfolioMemberRole(role)) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      message: "Unknown role",
+    } as const;
+  }
+
+  const { data, error } = await supabase
+    .from("portfolio_members")
+    .update({ role })
+    .eq("id", portfolioMemberId)
+    .eq("owner_id", user.id)
+    .select("id")
+    .maybeSingle();
+
+  if (error || !data) {
+    return {
+      success: false,
+      code: error?.code ?? "NOT_FOUND",
+      message: error?.message ?? "Member not found",
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
+
+/**
+ * Switch the dashboard to a portfolio shared with the user, or pass null
+ * for the own portfolio.
+ */
+export async function setActivePortfolio(ownerId: string | null) {
+  const cookieStore = await cookies();
+
+  if (ownerId) {
+    cookieStore.set(ACTIVE_PORTFOLIO_COOKIE, ownerId, {
+      path: "/",
+      sameSite: "lax",
+      maxAge: 60 * 60 * 24 * 365,
+    });
+  } else {
+    cookieStore.delete(ACTIVE_PORTFOLIO_COOKIE);
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
+
+/**
+ * Accept an invitation as the signed-in user and switch to that portfolio.
+ * The invitation must have been sent to the user's email address and not
+ * have expired.
+ */
+export async function acceptInvitation(token: string) {
+  const { user } = await getCurrentUser();
+
+  const invitation = await fetchInvitation(token);
+  if (!invitation) {
+    return {
+      success: false,
+      code: "INVALID_INVITATION",
+      message: "This invitation doesn't exist or was revoked.",
+    } as const;
+  }
+
+  const acceptError = getInvitationAcceptError(invitation, user);
+  if (acceptError) {
+    return { success: false, ...acceptError } as const;
+  }
+
+  if (!invitation.accepted_at) {
+    // The invitee can't see the row yet, so the grant is written for them
+    const supabase = createServiceClient();
+
+    const { error } = await supabase
+      .from("portfolio_members")
+      .update({ member_id: user.id, accepted_at: new Date().toISOString() })
+      .eq("id", invitation.id)
+      .is("accepted_at", null);
+
+    if (error) {
+      return {
+        success: false,
+        code: error.code,
+        message: error.message,
+      } as const;
+    }
+  }
+
+  await setActivePortfolio(invitation.owner.user_id);
+
+  return { success: true } as const;
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+
+import { getInvitationAcceptError, parseInvitationFormData } from "./utils";
+
+const formData = (values: Record<string, string>) => {
+  const data = new FormData();
+  Object.entries(values).forEach(([key, value]) => data.append(key, value));
+  return data;
+};
+
+describe("parseInvitationFormData", () => {
+  it("normalizes the email and defaults to viewer", () => {
+    expect(
+      parseInvitationFormData(formData({ email: "  Partner@Example.com " })),
+    ).toEqual({
+      ok: true,
+      values: { email: "partner@example.com", role: "viewer" },
+    });
+  });
+
+  it("accepts editors", () => {
+    expect(
+      parseInvitationFormData(
+        formData({ email: "partner@example.com", role: "editor" }),
+      ),
+    ).toEqual({
+      ok: true,
+      values: { email: "partner@example.com", role: "editor" },
+    });
+  });
+
+  it("rejects invalid emails and unknown roles", () => {
+    expect(parseInvitationFormData(formData({ email: "partner" }))).toEqual({
+      ok: false,
+      message: "A valid email address is required",
+    });
+    expect(
+      parseInvitationFormData(
+        formData({ email: "partner@example.com", role: "owner" }),
+      ),
+    ).toEqual({ ok: false, message: "Unknown role" });
+  });
+});
+
+describe("getInvitationAcceptError", () => {
+  const now = new Date("2025-12-20T12:00:00Z");
+  const invitation = {
+    email: "partner@example.com",
+    member_id: null,
+    accepted_at: null,
+    created_at: "2025-12-10T12:00:00Z",
+    owner: { user_id: "owner" },
+  };
+  const partner = { id: "partner", email: "Partner@example.com" };
+
+  it("accepts a pending invitation sent to the user's email", () => {
+    expect(getInvitationAcceptError(invitation, partner, now)).toBeNull();
+  });
+
+  it("rejects invitations to the own portfolio", () => {
+    expect(
+      getInvitationAcceptError(
+        invitation,
+        { id: "owner", email: "partner@example.com" },
+        now,
+      )?.code,
+    ).toBe("INVALID_INVITATION");
+  });
+
+  it("rejects users with a different email", () => {
+    expect(
+      getInvitationAcceptError(
+        invitation,
+        { id: "someone", email: "someone@example.com" },
+        now,
+      )?.code,
+    ).toBe("EMAIL_MISMATCH");
+  });
+
+  it("rejects invitations accepted by someone else", () => {
+    const accepted = {
+      ...invitation,
+      member_id: "other",
+      accepted_at: "2025-12-11T12:00:00Z",
+    };
+
+    expect(getInvitationAcceptError(accepted, partner, now)?.code).toBe(
+      "INVALID_INVITATION",
+    );
+    expect(
+      getInvitationAcceptError(
+        { ...accepted, member_id: "partner" },
+        partner,
+        now,
+      ),
+    ).toBeNull();
+  });
+
+  it("rejects pending invitations after 14 days", () => {
+    const sent = { ...invitation, created_at: "2025-12-06T12:00:00Z" };
+
+    expect(getInvitationAcceptError(sent, partner, now)?.code).toBe(
+      "INVITATION_EXPIRED",
+    );
+    expect(
+      getInvitationAcceptError(
+        { ...sent, member_id: "partner", accepted_at: "2025-12-07T12:00:00Z" },
+        partner,
+        now,
+      ),
+    ).toBeNull();
+  });
+});
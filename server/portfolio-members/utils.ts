@@ -0,0 +1,96 @@
+import { addDays } from "date-fns";
+
+import { PORTFOLIO_MEMBER_ROLES } from "@/types/enums";
+
+import type { PortfolioMemberRole } from "@/types/global.types";
+
+// Cookie holding the owner of the portfolio being viewed (unset = own)
+export const ACTIVE_PORTFOLIO_COOKIE = "active_portfolio";
+
+export const VIEW_ONLY_MESSAGE = "You have view-only access to this portfolio";
+
+// Pending invitations can be accepted for this many days after they're sent
+export const INVITATION_EXPIRY_DAYS = 14;
+
+export function isPortfolioMemberRole(
+  value: string,
+): value is PortfolioMemberRole {
+  return (PORTFOLIO_MEMBER_ROLES as readonly string[]).includes(value);
+}
+
+export function buildInvitationUrl(siteUrl: string, token: string) {
+  return `${siteUrl}/auth/invite/${token}`;
+}
+
+/**
+ * Parse and validate an invitation from FormData.
+ */
+export function parseInvitationFormData(
+  formData: FormData,
+):
+  | { ok: true; values: { email: string; role: PortfolioMemberRole } }
+  | { ok: false; message: string } {
+  const email = String(formData.get("email") ?? "")
+    .trim()
+    .toLowerCase();
+  const role = String(formData.get("role") ?? "viewer");
+
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return { ok: false, message: "A valid email address is required" };
+  }
+  if (!isPortfolioMemberRole(role)) {
+    return { ok: false, message: "Unknown role" };
+  }
+
+  return { ok: true, values: { email, role } };
+}
+
+/**
+ * Check whether a user can accept an invitation. The member who accepted it
+ * can open the link again, so accepted invitations don't expire.
+ *
+ * @returns null when the invitation can be accepted, otherwise the reason
+ */
+export function getInvitationAcceptError(
+  invitation: {
+    email: string;
+    member_id: string | null;
+    accepted_at: string | null;
+    created_at: string;
+    owner: { user_id: string };
+  },
+  user: { id: string; email?: string },
+  now = new Date(),
+): { code: string; message: string } | null {
+  if (invitation.owner.user_id === user.id) {
+    return {
+      code: "INVALID_INVITATION",
+      message: "You can't accept an invitation to your own portfolio.",
+    };
+  }
+
+  if (invitation.email !== user.email?.toLowerCase()) {
+    return {
+      code: "EMAIL_MISMATCH",
+      message: `This invitation was sent to ${invitation.email}. Log in with that email to accept it.`,
+    };
+  }
+
+  if (invitation.accepted_at) {
+    return invitation.member_id === user.id
+      ? null
+      : {
+          code: "INVALID_INVITATION",
+          message: "This invitation has already been accepted.",
+        };
+  }
+
+  if (addDays(new Date(invitation.created_at), INVITATION_EXPIRY_DAYS) <= now) {
+    return {
+      code: "INVITATION_EXPIRED",
+      message: "This invitation has expired. Ask for a new link.",
+    };
+  }
+
+  return null;
+}
@@ -2,20 +2,60 @@
 
 import { revalidatePath } from "next/cache";
 
-import { getCurrentUser } from "@/server/auth/actions";
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { resolvePositionsContext } from "@/server/positions/context";
+import { VIEW_ONLY_MESSAGE } from "@/server/portfolio-members/utils";
 import { recalculateSnapshotsUntilNextUpdate } from "@/server/position-snapshots/recalculate";
+import { parseLotSelections } from "@/server/realized-gains/utils";
+import {
+  fetchSettlementPosition,
+  syncTradeSettlement,
+} from "@/server/portfolio-records/settlement";
+import { emitWebhookEvent } from "@/server/webhooks/emit";
 
+import { isCashPosition } from "@/lib/cash-ledger";
+
+import type { PositionsQueryContext } from "@/server/positions/fetch";
 import type { PortfolioRecord } from "@/types/global.types";
 
-import { PORTFOLIO_RECORD_TYPES } from "@/types/enums";
+import { CASH_RECORD_TYPES, PORTFOLIO_RECORD_TYPES } from "@/types/enums";
 
 /**
  * Create a new portfolio record for a position.
  * After insertion, recalculate position snapshots starting at the record date
  * until (but excluding) the next UPDATE record.
+ * Buys and sells can settle against a cash position (settlement_position_id).
+ * API requests pass their token owner as context; the token scope is
+ * checked before.
  */
-export async function createPortfolioRecord(formData: FormData) {
-  const { supabase, user } = await getCurrentUser();
+export async function createPortfolioRecord(
+  formData: FormData,
+  context?: PositionsQueryContext,
+) {
+  const { supabase, ownerId, access } = context
+    ? await resolvePositionsContext(context).then(({ supabase, userId }) => ({
+        supabase,
+        ownerId: userId,
+        access: "owner" as const,
+      }))
+    : await getActivePortfolio();
+
+  if (access === "viewer") {
+    return {
+      success: false,
+      code: "READ_ONLY",
+      message: VIEW_ONLY_MESSAGE,
+    } as const;
+  }
+
+  // Settlements are generated from trades, never entered directly
+  if (formData.get("type") === "settlement") {
+    return {
+      success: false,
+      code: "INVALID_RECORD_TYPE",
+      message: "Settlement records are created from buys and sells",
+    } as const;
+  }
 
   // Extract portfolio record data
   const portfolioRecordData: Pick<
@@ -30,6 +70,56 @@ export async function createPortfolioRecord(formData: FormData) {
     description: (formData.get("description") as string) || null,
   };
 
+  // Context clients may bypass RLS, so check the position is the owner's
+  const { data: position } = await supabase
+    .from("positions")
+    .select("id, category_id, symbol_id, domain_id")
+    .eq("id", portfolioRecordData.position_id)
+    .eq("user_id", ownerId)
+    .maybeSingle();
+
+  if (!position) {
+    return {
+      success: false,
+      code: "POSITION_NOT_FOUND",
+      message: "Position not found",
+    } as const;
+  }
+
+  // Deposits, withdrawals, etc. only move cash ledger balances
+  if (
+    (CASH_RECORD_TYPES as readonly string[]).includes(
+      portfolioRecordData.type,
+    ) &&
+    !isCashPosition(position)
+  ) {
+    return {
+      success: false,
+      code: "INVALID_RECORD_TYPE",
+      message: `${portfolioRecordData.type} records can only be added to cash positions`,
+    } as const;
+  }
+
+  // Check the settlement target before anything is written
+  const settlementPositionId =
+    (formData.get("settlement_position_id") as string) || null;
+  if (
+    settlementPositionId &&
+    (portfolioRecordData.type === "buy" || portfolioRecordData.type === "sell")
+  ) {
+    const settlementPositionResult = await fetchSettlementPosition(
+      ownerId,
+      settlementPositionId,
+    );
+    if (!settlementPositionResult.success) {
+      return {
+        success: false,
+        code: settlementPositionResult.code,
+        message: settlementPositionResult.message,
+      } as const;
+    }
+  }
+
   // Extract custom cost basis if provided (for UPDATE records)
   const customCostBasis = formData.get("cost_basis_per_unit");
   const costBasisPerUnit =
@@ -40,8 +130,8 @@ export async function createPortfolioRecord(formData: FormData) {
   // Insert portfolio record
   const { data: inserted, error: insertError } = await supabase
     .from("portfolio_records")
-    .insert({ user_id: user.id, ...portfolioRecordData })
-    .select("id, position_id, date")
+    .insert({ user_id: ownerId, ...portfolioRecordData })
+    .select("id, position_id, type, date, quantity, unit_value, description")
     .single();
 
   if (!inserted || insertError) {
@@ -52,6 +142,28 @@ export async function createPortfolioRecord(formData: FormData) {
     } as const;
   }
 
+  // Store specific lot selections before realized gains are matched
+  const lotSelections = parseLotSelections(formData);
+  if (portfolioRecordData.type === "sell" && lotSelections?.length) {
+    const { error: selectionError } = await supabase
+      .from("lot_selections")
+      .insert(
+        lotSelections.map((selection) => ({
+          user_id: ownerId,
+          portfolio_record_id: inserted.id,
+          ...selection,
+        })),
+      );
+
+    if (selectionError) {
+      return {
+        success: false,
+        code: selectionError.code,
+        message: selectionError.message,
+      } as const;
+    }
+  }
+
   const customCostBasisMap =
     portfolioRecordData.type === "update" && costBasisPerUnit !== null
       ? { [inserted.id]: costBasisPerUnit }
@@ -72,6 +184,24 @@ export async function createPortfolioRecord(formData: FormData) {
     } as const;
   }
 
+  // Move the cash balance for trades settled against a cash position
+  if (settlementPositionId) {
+    const settlementResult = await syncTradeSettlement(
+      inserted.id,
+      settlementPositionId,
+    );
+
+    if (!settlementResult.success) {
+      return {
+        success: false,
+        code: settlementResult.code,
+        message: settlementResult.message,
+      } as const;
+    }
+  }
+
+  emitWebhookEvent(ownerId, "portfolio_record.created", inserted);
+
   revalidatePath("/dashboard", "layout");
   return { success: true } as const;
 }
@@ -2,19 +2,28 @@
 
 import { revalidatePath } from "next/cache";
 
-import { createClient } from "@/supabase/server";
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { VIEW_ONLY_MESSAGE } from "@/server/portfolio-members/utils";
 import { recalculateSnapshotsUntilNextUpdate } from "@/server/position-snapshots/recalculate";
+import { removeTradeSettlement } from "@/server/portfolio-records/settlement";
+import { emitWebhookEvent } from "@/server/webhooks/emit";
 
 // Delete a single portfolio record and recalculate snapshots
 export async function deletePortfolioRecord(portfolioRecordId: string) {
-  const supabase = await createClient();
+  const { supabase, ownerId, access } = await getActivePortfolio();
 
-  // First, get the record to know the position_id and date
+  if (access === "viewer") {
+    return { success: false, code: "READ_ONLY", message: VIEW_ONLY_MESSAGE };
+  }
+
+  // First, get the record to know the position_id and date. Scoped to the
+  // owner since the settlement and snapshots are rebuilt with the service client
   const { data: record, error: fetchError } = await supabase
     .from("portfolio_records")
-    .select("position_id, date")
+    .select("position_id, user_id, date, type")
     .eq("id", portfolioRecordId)
-    .single();
+    .eq("user_id", ownerId)
+    .maybeSingle();
 
   if (fetchError || !record) {
     return {
@@ -24,6 +33,25 @@ export async function deletePortfolioRecord(portfolioRecordId: string) {
     };
   }
 
+  // Settlements go away with their trade
+  if (record.type === "settlement") {
+    return {
+      success: false,
+      code: "SETTLEMENT_READ_ONLY",
+      message: "Delete the buy or sell to remove its settlement",
+    };
+  }
+
+  // Give the settled cash back before the trade (and its settlement) is deleted
+  const settlementResult = await removeTradeSettlement(portfolioRecordId);
+  if (!settlementResult.success) {
+    return {
+      success: false,
+      code: settlementResult.code,
+      message: settlementResult.message,
+    };
+  }
+
   // Recalculate snapshots from the record date forward (excluding this record)
   const recalculateResult = await recalculateSnapshotsUntilNextUpdate({
     positionId: record.position_id,
@@ -43,12 +71,20 @@ export async function deletePortfolioRecord(portfolioRecordId: string) {
   const { error } = await supabase
     .from("portfolio_records")
     .delete()
-    .eq("id", portfolioRecordId);
+    .eq("id", portfolioRecordId)
+    .eq("user_id", ownerId);
 
   if (error) {
     return { success: false, code: error.code, message: error.message };
   }
 
+  emitWebhookEvent(record.user_id, "portfolio_record.deleted", {
+    id: portfolioRecordId,
+    position_id: record.position_id,
+    type: record.type,
+    date: record.date,
+  });
+
   revalidatePath("/dashboard", "layout");
   return { success: true };
 }
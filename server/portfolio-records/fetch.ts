@@ -2,7 +2,9 @@
 
 import { cache } from "react";
 
-import { getCurrentUser } from "@/server/auth/actions";
+import { resolvePositionsContext } from "@/server/positions/context";
+
+import type { PositionsQueryContext } from "@/server/positions/fetch";
 
 interface FetchPortfolioRecordsOptions {
   positionId?: string;
@@ -15,10 +17,13 @@ interface FetchPortfolioRecordsOptions {
 
 /**
  * Fetch portfolio records with optional filtering.
- * Always scopes to the current user. Optionally filters by position, dates, and archived positions.
+ * Always scopes to the portfolio being viewed (or the context owner). Optionally filters by position, dates, and archived positions.
  */
 export const fetchPortfolioRecords = cache(
-  async (options: FetchPortfolioRecordsOptions = {}) => {
+  async (
+    options: FetchPortfolioRecordsOptions = {},
+    context?: PositionsQueryContext,
+  ) => {
     const {
       positionId,
       includeArchived = true,
@@ -31,7 +36,7 @@ export const fetchPortfolioRecords = cache(
     const currentPage = Math.max(1, page);
     const currentPageSize = Math.max(1, pageSize);
 
-    const { supabase, user } = await getCurrentUser();
+    const { supabase, userId } = await resolvePositionsContext(context);
 
     const from = (currentPage - 1) * currentPageSize;
     const to = from + currentPageSize - 1;
@@ -53,11 +58,15 @@ export const fetchPortfolioRecords = cache(
         cost_basis_per_unit,
         date,
         created_at
+      ),
+      realized_gains (
+        realized_gain,
+        cost_basis
       )
     `,
         { count: "exact" },
       )
-      .eq("user_id", user.id);
+      .eq("user_id", userId);
 
     if (positionId) query.eq("position_id", positionId);
     if (startDate) query.gte("date", startDate.toISOString().slice(0, 10));
@@ -0,0 +1,398 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { VIEW_ONLY_MESSAGE } from "@/server/portfolio-members/utils";
+import { resolveSymbolInput } from "@/server/symbols/resolver";
+import { recalculateSnapshotsUntilNextUpdate } from "@/server/position-snapshots/recalculate";
+import { createPosition } from "@/server/positions/create";
+import { emitWebhookEvent } from "@/server/webhooks/emit";
+
+import { parseTransactionsCSV } from "@/lib/import/sources/transactions";
+import { getTransactionFingerprints } from "@/lib/import/fingerprint";
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/types/database.types";
+import type {
+  ImportActionResult,
+  TransactionImportPreviewResult,
+  TransactionImportRow,
+} from "@/lib/import/types";
+
+type ImportTransaction = TransactionImportRow & { fingerprint: string };
+
+// Trades of one instrument, with the position they go to (null = new).
+// symbolId is null for symbols this instance doesn't know yet.
+type ImportGroup = {
+  transactions: ImportTransaction[];
+  symbolId: string | null;
+  position: { id: string; currency: string } | null;
+};
+
+// Keep duplicate-check request URLs short
+const FINGERPRINT_CHUNK_SIZE = 100;
+
+// Fingerprints of trades the user already imported
+async function fetchImportedFingerprints(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  fingerprints: string[],
+) {
+  const imported = new Set<string>();
+
+  for (let i = 0; i < fingerprints.length; i += FINGERPRINT_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from("portfolio_records")
+      .select("import_fingerprint")
+      .eq("user_id", userId)
+      .in(
+        "import_fingerprint",
+        fingerprints.slice(i, i + FINGERPRINT_CHUNK_SIZE),
+      );
+
+    if (error) throw new Error(`Failed duplicate check: ${error.message}`);
+
+    data.forEach((record) => {
+      if (record.import_fingerprint) imported.add(record.import_fingerprint);
+    });
+  }
+
+  return imported;
+}
+
+// Parse an export and split its trades into new ones and earlier imports
+async function parseNewTransactions(csvContent: string) {
+  const parsed = await parseTransactionsCSV(csvContent);
+  if (!parsed.success || !parsed.broker) {
+    return {
+      success: false,
+      error: (parsed.errors ?? ["Failed to parse CSV"]).join("\n"),
+    } as const;
+  }
+
+  const { supabase, ownerId, access } = await getActivePortfolio();
+  const fingerprints = getTransactionFingerprints(
+    parsed.broker,
+    parsed.transactions,
+  );
+  const imported = await fetchImportedFingerprints(
+    supabase,
+    ownerId,
+    fingerprints,
+  );
+
+  const transactions = parsed.transactions
+    .map((transaction, index) => ({
+      ...transaction,
+      fingerprint: fingerprints[index],
+    }))
+    .filter((transaction) => !imported.has(transaction.fingerprint));
+
+  return {
+    success: true,
+    supabase,
+    ownerId,
+    access,
+    transactions,
+    duplicateCount: parsed.transactions.length - transactions.length,
+  } as const;
+}
+
+/**
+ * Rebuild snapshots for newly inserted records. A recalculation stops at the
+ * next UPDATE record, so restart it for trades beyond each boundary.
+ */
+async function recalculateImportedDates(
+  positionId: string,
+  dates: string[],
+  updateDates: string[],
+) {
+  let coveredUntil: string | null = null; // exclusive
+  let coversRest = false;
+
+  for (const date of [...new Set(dates)].sort()) {
+    if (coversRest || (coveredUntil && date < coveredUntil)) continue;
+
+    const result = await recalculateSnapshotsUntilNextUpdate({
+      positionId,
+      fromDate: new Date(date),
+    });
+    if (!result.success) return result;
+
+    const nextUpdate = updateDates.find((updateDate) => updateDate > date);
+    if (nextUpdate) coveredUntil = nextUpdate;
+    else coversRest = true;
+  }
+
+  return { success: true } as const;
+}
+
+/**
+ * Count the trades of an export that would be imported, and those skipped
+ * because an earlier import already recorded them.
+ */
+export async function previewTransactionsImport(
+  csvContent: string,
+): Promise<TransactionImportPreviewResult> {
+  try {
+    const result = await parseNewTransactions(csvContent);
+    if (!result.success) return result;
+
+    return {
+      success: true,
+      newCount: result.transactions.length,
+      duplicateCount: result.duplicateCount,
+    };
+  } catch (err) {
+    return {
+      success: false,
+      error:
+        err instanceof Error ? err.message : "Failed to preview transactions",
+    };
+  }
+}
+
+/**
+ * Match each instrument's trades to an active position of the portfolio (by
+ * symbol, then by name) and check they can be imported, before anything is
+ * written. Symbols are looked up but not created.
+ */
+async function planImportGroups(
+  supabase: SupabaseClient<Database>,
+  ownerId: string,
+  transactions: ImportTransaction[],
+): Promise<ImportGroup[]> {
+  const groups = new Map<string, ImportTransaction[]>();
+  transactions.forEach((transaction) => {
+    const key = transaction.symbolLookup ?? transaction.name;
+    groups.set(key, [...(groups.get(key) ?? []), transaction]);
+  });
+
+  const { data: positions, error } = await supabase
+    .from("positions")
+    .select("id, name, type, currency, symbol_id")
+    .eq("user_id", ownerId)
+    .is("archived_at", null);
+
+  if (error) throw new Error(`Failed to load positions: ${error.message}`);
+
+  const plans: ImportGroup[] = [];
+  for (const groupTransactions of groups.values()) {
+    const [first] = groupTransactions;
+
+    // Only resolve here; unknown symbols are created with their position
+    const symbolId = first.symbolLookup
+      ? ((await resolveSymbolInput(first.symbolLookup))?.symbol?.id ?? null)
+      : null;
+
+    const match =
+      (symbolId &&
+        positions.find(
+          (position) =>
+            position.type === "asset" && position.symbol_id === symbolId,
+        )) ||
+      positions.find((position) => position.name === first.name);
+
+    // Names are unique across types
+    if (match && match.type !== "asset") {
+      throw new Error(
+        `Cannot import "${first.name}": the name is already used by one of your liabilities.`,
+      );
+    }
+
+    // Instruments without a position that share a name go to one new position
+    const pending = match
+      ? undefined
+      : plans.find(
+          (plan) => !plan.position && plan.transactions[0].name === first.name,
+        );
+
+    const currency =
+      match?.currency ?? pending?.transactions[0].currency ?? first.currency;
+    const mismatch = groupTransactions.find(
+      (transaction) => transaction.currency !== currency,
+    );
+    if (mismatch) {
+      throw new Error(
+        `Cannot import "${first.name}": trades in ${mismatch.currency} don't match the position currency ${currency}.`,
+      );
+    }
+
+    if (pending) {
+      pending.transactions.push(...groupTransactions);
+      continue;
+    }
+
+    plans.push({
+      transactions: groupTransactions,
+      symbolId,
+      position: match ? { id: match.id, currency: match.currency } : null,
+    });
+  }
+
+  return plans;
+}
+
+// Remove positions an import created before it failed
+async function removeCreatedPositions(
+  supabase: SupabaseClient<Database>,
+  ownerId: string,
+  positionIds: string[],
+) {
+  if (!positionIds.length) return;
+
+  const { error } = await supabase
+    .from("positions")
+    .delete()
+    .eq("user_id", ownerId)
+    .in("id", positionIds);
+
+  if (error) {
+    console.error("Failed to remove positions of a failed import:", error);
+  }
+}
+
+/**
+ * Import a broker transaction history as dated buy/sell records.
+ * Trades are grouped by symbol (or name) and attached to a matching active
+ * position, or to a new position (in the account being viewed) that opens
+ * empty at the first trade, so its quantity and cost basis come entirely
+ * from the imported history.
+ * Every group is checked before anything is written, and all records are
+ * inserted at once; positions created for a failed import are removed.
+ * Missing symbols are created with their positions and kept, like those of
+ * a manually added position.
+ * Trades recorded by an earlier import are skipped.
+ */
+export async function importTransactionsFromCSV(
+  csvContent: string,
+): Promise<ImportActionResult> {
+  try {
+    // 1) Parse the export and drop previously imported trades
+    const parsed = await parseNewTransactions(csvContent);
+    if (!parsed.success) return parsed;
+
+    const { supabase, ownerId, access, duplicateCount } = parsed;
+    if (access === "viewer") {
+      return { success: false, error: VIEW_ONLY_MESSAGE };
+    }
+
+    // 2) Group trades per instrument and match them to positions
+    const groups = await planImportGroups(
+      supabase,
+      ownerId,
+      parsed.transactions,
+    );
+
+    // 3) Create the missing positions (and symbols), empty from the first
+    // trade
+    const createdPositionIds: string[] = [];
+    for (const group of groups) {
+      if (group.position) continue;
+
+      const [first] = group.transactions;
+      const formData = new FormData();
+      formData.append("name", first.name);
+      formData.append("currency", first.currency);
+      formData.append("category_id", first.category_id);
+      formData.append("type", "asset");
+      // createPosition creates symbols this instance doesn't know yet
+      const symbolLookup = group.symbolId ?? first.symbolLookup;
+      if (symbolLookup) formData.append("symbolLookup", symbolLookup);
+      formData.append("quantity", "0");
+      formData.append("unit_value", String(first.unit_value));
+      formData.append(
+        "date",
+        group.transactions.map((transaction) => transaction.date).sort()[0],
+      );
+
+      const result = await createPosition(formData);
+      if (!result.success) {
+        await removeCreatedPositions(supabase, ownerId, createdPositionIds);
+        return {
+          success: false,
+          error: `Failed to create "${first.name}": ${result.message}`,
+        };
+      }
+
+      createdPositionIds.push(result.data.id);
+      group.position = { id: result.data.id, currency: first.currency };
+    }
+
+    // 4) Insert all records at once
+    const { error: insertError } = await supabase
+      .from("portfolio_records")
+      .insert(
+        groups.flatMap(({ transactions, position }) =>
+          transactions.map((transaction) => ({
+            user_id: ownerId,
+            position_id: position!.id,
+            type: transaction.type,
+            date: transaction.date,
+            quantity: transaction.quantity,
+            unit_value: transaction.unit_value,
+            description: transaction.description,
+            import_fingerprint: transaction.fingerprint,
+          })),
+        ),
+      );
+
+    if (insertError) {
+      await removeCreatedPositions(supabase, ownerId, createdPositionIds);
+      return {
+        success: false,
+        error: `Failed to import records: ${insertError.message}`,
+      };
+    }
+
+    // 5) Rebuild snapshots from the earliest trade of each position. The
+    // records are kept if this fails: a new import skips them, so report
+    // which histories still need a rebuild
+    const failedNames: string[] = [];
+    for (const { transactions, position } of groups) {
+      const { data: updateRecords } = await supabase
+        .from("portfolio_records")
+        .select("date")
+        .eq("position_id", position!.id)
+        .eq("type", "update")
+        .order("date", { ascending: true });
+
+      const recalculationResult = await recalculateImportedDates(
+        position!.id,
+        transactions.map((transaction) => transaction.date),
+        (updateRecords ?? []).map((record) => record.date),
+      );
+
+      if (!recalculationResult.success) failedNames.push(transactions[0].name);
+    }
+
+    const importedCount = groups.reduce(
+      (count, group) => count + group.transactions.length,
+      0,
+    );
+
+    emitWebhookEvent(ownerId, "import.completed", {
+      kind: "transactions",
+      imported_count: importedCount,
+      skipped_count: duplicateCount,
+    });
+
+    revalidatePath("/dashboard", "layout");
+
+    if (failedNames.length) {
+      return {
+        success: false,
+        error: `Imported ${importedCount} trades, but failed to rebuild the history of ${failedNames.map((name) => `"${name}"`).join(", ")}. Edit one of their records to retry.`,
+      };
+    }
+
+    return { success: true, importedCount, skippedCount: duplicateCount };
+  } catch (err) {
+    return {
+      success: false,
+      error:
+        err instanceof Error ? err.message : "Failed to import transactions",
+    };
+  }
+}
@@ -0,0 +1,231 @@
+import { parseISO } from "date-fns";
+
+import { createServiceClient } from "@/supabase/service";
+import { fetchExchangeRates } from "@/server/exchange-rates/fetch";
+import { recalculateSnapshotsUntilNextUpdate } from "@/server/position-snapshots/recalculate";
+
+import { isCashPosition, getSettlementQuantity } from "@/lib/cash-ledger";
+import { convertCurrency } from "@/lib/currency-conversion";
+
+/**
+ * Look up a cash position trades of `userId` can settle against.
+ */
+export async function fetchSettlementPosition(
+  userId: string,
+  positionId: string,
+) {
+  const supabase = createServiceClient();
+
+  const { data: cashPosition, error } = await supabase
+    .from("positions")
+    .select("id, user_id, currency, category_id, symbol_id, domain_id")
+    .eq("id", positionId)
+    .maybeSingle();
+
+  if (
+    error ||
+    !cashPosition ||
+    cashPosition.user_id !== userId ||
+    !isCashPosition(cashPosition)
+  ) {
+    return {
+      success: false,
+      code: error?.code ?? "INVALID_CASH_POSITION",
+      message:
+        error?.message ??
+        "Trades can only settle against one of your cash positions",
+    } as const;
+  }
+
+  return { success: true, data: cashPosition } as const;
+}
+
+/**
+ * Remove the settlement of a trade record (if any) and rebuild the
+ * cash position's balance without it.
+ */
+export async function removeTradeSettlement(tradeRecordId: string) {
+  const supabase = createServiceClient();
+
+  const { data: settlement, error } = await supabase
+    .from("portfolio_records")
+    .select("id, position_id, date")
+    .eq("trade_record_id", tradeRecordId)
+    .maybeSingle();
+
+  if (error) {
+    return {
+      success: false,
+      code: error.code,
+      message: error.message,
+    } as const;
+  }
+
+  if (!settlement) return { success: true } as const;
+
+  const recalculationResult = await recalculateSnapshotsUntilNextUpdate({
+    positionId: settlement.position_id,
+    fromDate: new Date(settlement.date),
+    excludePortfolioRecordId: settlement.id,
+  });
+  if (!recalculationResult.success) return recalculationResult;
+
+  const { error: deleteError } = await supabase
+    .from("portfolio_records")
+    .delete()
+    .eq("id", settlement.id);
+
+  if (deleteError) {
+    return {
+      success: false,
+      code: deleteError.code,
+      message: deleteError.message,
+    } as const;
+  }
+
+  return { success: true } as const;
+}
+
+/**
+ * Create, move or refresh the settlement record of a buy/sell on a cash
+ * position, converting the trade amount into the cash currency at the
+ * trade date.
+ *
+ * @param cashPositionId - Cash position to settle against; null removes the
+ * settlement, undefined keeps the current cash position (if any)
+ */
+export async function syncTradeSettlement(
+  tradeRecordId: string,
+  cashPositionId?: string | null,
+) {
+  const supabase = createServiceClient();
+
+  const [tradeResult, existingResult] = await Promise.all([
+    supabase
+      .from("portfolio_records")
+      .select(
+        "id, user_id, type, date, quantity, unit_value, positions (name, currency)",
+      )
+      .eq("id", tradeRecordId)
+      .single(),
+    supabase
+      .from("portfolio_records")
+      .select("id, position_id, date")
+      .eq("trade_record_id", tradeRecordId)
+      .maybeSingle(),
+  ]);
+
+  if (tradeResult.error || !tradeResult.data) {
+    return {
+      success: false,
+      code: tradeResult.error?.code ?? "PORTFOLIO_RECORD_NOT_FOUND",
+      message: tradeResult.error?.message ?? "Portfolio record not found",
+    } as const;
+  }
+  if (existingResult.error) {
+    return {
+      success: false,
+      code: existingResult.error.code,
+      message: existingResult.error.message,
+    } as const;
+  }
+
+  const trade = tradeResult.data;
+  const existing = existingResult.data;
+  const targetPositionId =
+    cashPositionId === undefined ? existing?.position_id : cashPositionId;
+
+  // Only buys and sells settle; anything else drops its settlement
+  if (!targetPositionId || (trade.type !== "buy" && trade.type !== "sell")) {
+    return existing
+      ? removeTradeSettlement(tradeRecordId)
+      : ({ success: true } as const);
+  }
+
+  const cashPositionResult = await fetchSettlementPosition(
+    trade.user_id,
+    targetPositionId,
+  );
+  if (!cashPositionResult.success) return cashPositionResult;
+  const cashPosition = cashPositionResult.data;
+
+  // Settle in the cash position's currency
+  const tradeCurrency = trade.positions.currency;
+  let quantity = getSettlementQuantity(trade);
+  if (tradeCurrency !== cashPosition.currency) {
+    const tradeDate = parseISO(trade.date);
+    const fxMap = await fetchExchangeRates([
+      { currency: tradeCurrency, date: tradeDate },
+      { currency: cashPosition.currency, date: tradeDate },
+    ]);
+    quantity = convertCurrency(
+      quantity,
+      tradeCurrency,
+      cashPosition.currency,
+      fxMap,
+      trade.date,
+    );
+  }
+
+  const settlementData = {
+    position_id: cashPosition.id,
+    date: trade.date,
+    quantity,
+    unit_value: 1,
+    description: `${trade.type === "buy" ? "Bought" : "Sold"} ${trade.quantity} ${trade.positions.name}`,
+  };
+
+  let fromDate = trade.date;
+
+  if (existing) {
+    const { error: updateError } = await supabase
+      .from("portfolio_records")
+      .update(settlementData)
+      .eq("id", existing.id);
+
+    if (updateError) {
+      return {
+        success: false,
+        code: updateError.code,
+        message: updateError.message,
+      } as const;
+    }
+
+    if (existing.position_id !== cashPosition.id) {
+      // Moved to another cash position: rebuild the old balance without it
+      const previousResult = await recalculateSnapshotsUntilNextUpdate({
+        positionId: existing.position_id,
+        fromDate: new Date(existing.date),
+        excludePortfolioRecordId: existing.id,
+      });
+      if (!previousResult.success) return previousResult;
+    } else if (existing.date < fromDate) {
+      fromDate = existing.date;
+    }
+  } else {
+    const { error: insertError } = await supabase
+      .from("portfolio_records")
+      .insert({
+        user_id: trade.user_id,
+        type: "settlement",
+        trade_record_id: trade.id,
+        ...settlementData,
+      });
+
+    if (insertError) {
+      return {
+        success: false,
+        code: insertError.code,
+        message: insertError.message,
+      } as const;
+    }
+  }
+
+  const recalculationResult = await recalculateSnapshotsUntilNextUpdate({
+    positionId: cashPosition.id,
+    fromDate: new Date(fromDate),
+  });
+  if (!recalculationResult.success) return recalculationResult;
+
+  return { success: true } as const;
+}
@@ -2,18 +2,32 @@
 
 import { revalidatePath } from "next/cache";
 
-import { createClient } from "@/supabase/server";
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { VIEW_ONLY_MESSAGE } from "@/server/portfolio-members/utils";
 import { recalculateSnapshotsUntilNextUpdate } from "@/server/position-snapshots/recalculate";
+import { parseLotSelections } from "@/server/realized-gains/utils";
+import { syncTradeSettlement } from "@/server/portfolio-records/settlement";
+import { emitWebhookEvent } from "@/server/webhooks/emit";
+
+import { isCashPosition } from "@/lib/cash-ledger";
 
 import type { PortfolioRecord } from "@/types/global.types";
-import { PORTFOLIO_RECORD_TYPES } from "@/types/enums";
+import { CASH_RECORD_TYPES, PORTFOLIO_RECORD_TYPES } from "@/types/enums";
 
 // Update a single portfolio record and recalculate snapshots for the affected window
 export async function updatePortfolioRecord(
   formData: FormData,
   portfolioRecordId: string,
 ) {
-  const supabase = await createClient();
+  const { supabase, ownerId, access } = await getActivePortfolio();
+
+  if (access === "viewer") {
+    return {
+      success: false,
+      code: "READ_ONLY",
+      message: VIEW_ONLY_MESSAGE,
+    } as const;
+  }
 
   // Extract incoming data
   const updateData: Pick<
@@ -34,12 +48,16 @@ export async function updatePortfolioRecord(
       ? Number(customCostBasisRaw)
       : null;
 
-  // Fetch current record to get position_id and original date
+  // Fetch current record to get position_id and original date. Scoped to
+  // the owner since settlements and snapshots are rebuilt with the service client
   const { data: current, error: fetchError } = await supabase
     .from("portfolio_records")
-    .select("position_id, date")
+    .select(
+      "position_id, date, user_id, type, positions (category_id, symbol_id, domain_id)",
+    )
     .eq("id", portfolioRecordId)
-    .single();
+    .eq("user_id", ownerId)
+    .maybeSingle();
 
   if (fetchError || !current) {
     return {
@@ -49,11 +67,33 @@ export async function updatePortfolioRecord(
     } as const;
   }
 
+  // Settlements follow their trade; edit the buy/sell instead
+  if (current.type === "settlement" || updateData.type === "settlement") {
+    return {
+      success: false,
+      code: "SETTLEMENT_READ_ONLY",
+      message: "Settlement records are updated through their buy or sell",
+    } as const;
+  }
+
+  // Deposits, withdrawals, etc. only move cash ledger balances
+  if (
+    (CASH_RECORD_TYPES as readonly string[]).includes(updateData.type) &&
+    !isCashPosition(current.positions)
+  ) {
+    return {
+      success: false,
+      code: "INVALID_RECORD_TYPE",
+      message: `${updateData.type} records can only be added to cash positions`,
+    } as const;
+  }
+
   // Update portfolio record
   const { error } = await supabase
     .from("portfolio_records")
     .update(updateData)
-    .eq("id", portfolioRecordId);
+    .eq("id", portfolioRecordId)
+    .eq("user_id", ownerId);
 
   if (error) {
     return {
@@ -63,6 +103,43 @@ export async function updatePortfolioRecord(
     } as const;
   }
 
+  // Replace lot selections when provided (or when the record is no longer a sell)
+  const lotSelections = parseLotSelections(formData);
+  if (lotSelections || updateData.type !== "sell") {
+    const { error: clearError } = await supabase
+      .from("lot_selections")
+      .delete()
+      .eq("portfolio_record_id", portfolioRecordId);
+
+    if (clearError) {
+      return {
+        success: false,
+        code: clearError.code,
+        message: clearError.message,
+      } as const;
+    }
+  }
+
+  if (updateData.type === "sell" && lotSelections?.length) {
+    const { error: selectionError } = await supabase
+      .from("lot_selections")
+      .insert(
+        lotSelections.map((selection) => ({
+          user_id: current.user_id,
+          portfolio_record_id: portfolioRecordId,
+          ...selection,
+        })),
+      );
+
+    if (selectionError) {
+      return {
+        success: false,
+        code: selectionError.code,
+        message: selectionError.message,
+      } as const;
+    }
+  }
+
   // Determine earliest affected date
   const originalDate = new Date(current.date);
   const newDate = new Date(updateData.date);
@@ -88,6 +165,28 @@ export async function updatePortfolioRecord(
     } as const;
   }
 
+  // Keep the settlement in step (an empty settlement_position_id removes it)
+  const settlementResult = await syncTradeSettlement(
+    portfolioRecordId,
+    formData.has("settlement_position_id")
+      ? (formData.get("settlement_position_id") as string) || null
+      : undefined,
+  );
+
+  if (!settlementResult.success) {
+    return {
+      success: false,
+      code: settlementResult.code,
+      message: settlementResult.message,
+    } as const;
+  }
+
+  emitWebhookEvent(current.user_id, "portfolio_record.updated", {
+    id: portfolioRecordId,
+    position_id: current.position_id,
+    ...updateData,
+  });
+
   revalidatePath("/dashboard", "layout");
   return { success: true } as const;
 }
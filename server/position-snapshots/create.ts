@@ -3,7 +3,7 @@
 import { revalidatePath } from "next/cache";
 import { format } from "date-fns";
 
-import { getCurrentUser } from "@/server/auth/actions";
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
 
 import type { TablesInsert } from "@/types/database.types";
 
@@ -16,17 +16,17 @@ type CreatePositionSnapshotParams = Omit<
 
 /**
  * Create a position snapshot.
- * Enforces user ownership and normalizes date; optional portfolio_record_id.
+ * Belongs to the portfolio being viewed; normalizes date; optional portfolio_record_id.
  */
 export async function createPositionSnapshot(
   params: CreatePositionSnapshotParams,
 ) {
-  const { supabase, user } = await getCurrentUser();
+  const { supabase, ownerId } = await getActivePortfolio();
 
   const normalizedDate = format(new Date(params.date), "yyyy-MM-dd");
 
   const { error } = await supabase.from("position_snapshots").insert({
-    user_id: user.id,
+    user_id: ownerId,
     position_id: params.position_id,
     date: normalizedDate,
     quantity: params.quantity,
@@ -2,8 +2,9 @@
 
 import { cache } from "react";
 
-import { getCurrentUser } from "@/server/auth/actions";
+import { resolvePositionsContext } from "@/server/positions/context";
 
+import type { PositionsQueryContext } from "@/server/positions/fetch";
 import type { TransformedPositionSnapshot } from "@/types/global.types";
 
 interface FetchPositionSnapshotsParams {
@@ -16,12 +17,16 @@ interface FetchPositionSnapshotsParams {
  * Fetch snapshots for a specific position with optional date range filters
  *
  * @param options - Optional filtering options
+ * @param context - Owner and client override (defaults to the portfolio being viewed)
  * @returns An array of transformed records
  */
 export const fetchPositionSnapshots = cache(
-  async function fetchPositionSnapshots(options: FetchPositionSnapshotsParams) {
+  async function fetchPositionSnapshots(
+    options: FetchPositionSnapshotsParams,
+    context?: PositionsQueryContext,
+  ) {
     const { positionId, startDate, endDate } = options;
-    const { supabase, user } = await getCurrentUser();
+    const { supabase, userId } = await resolvePositionsContext(context);
 
     const query = supabase
       .from("position_snapshots")
@@ -34,7 +39,7 @@ export const fetchPositionSnapshots = cache(
     `,
       )
       .eq("position_id", positionId)
-      .eq("user_id", user.id);
+      .eq("user_id", userId);
 
     // Add inclusivedate range filters if provided
     if (startDate) query.gte("date", startDate.toISOString().slice(0, 10));
@@ -3,6 +3,13 @@
 import { format } from "date-fns";
 
 import { createServiceClient } from "@/supabase/service";
+import { syncLoanSnapshots } from "@/server/loans/schedule";
+import { syncRealizedGains } from "@/server/realized-gains/lots";
+
+import {
+  applyCashBalanceChange,
+  getCashBalanceChange,
+} from "@/lib/cash-ledger";
 
 import type { PortfolioRecord } from "@/types/global.types";
 
@@ -16,10 +23,24 @@ interface RecalculateOptions {
 /**
  * Recalculate position snapshots from a starting date until the next UPDATE record (exclusive).
  * Uses stored unit_value from portfolio records, no market data fetching.
+ * Realized gains are then re-matched, and loan-backed positions re-sync their
+ * schedule around the new manual values.
  */
 export async function recalculateSnapshotsUntilNextUpdate(
   options: RecalculateOptions,
 ) {
+  const result = await recalculateRecordSnapshots(options);
+  if (!result.success) return result;
+
+  const gainsResult = await syncRealizedGains(options.positionId, {
+    excludePortfolioRecordId: options.excludePortfolioRecordId,
+  });
+  if (!gainsResult.success) return gainsResult;
+
+  return syncLoanSnapshots(options.positionId);
+}
+
+async function recalculateRecordSnapshots(options: RecalculateOptions) {
   const {
     positionId,
     fromDate,
@@ -81,12 +102,14 @@ export async function recalculateSnapshotsUntilNextUpdate(
     .filter((id): id is string => Boolean(id));
 
   // Get the base snapshot (latest before fromDate) - this is our reset point
+  // Loan schedule snapshots are regenerated afterwards, so skip them here
   let { data: baseSnapshot } = await supabase
     .from("position_snapshots")
     .select(
-      "quantity, cost_basis_per_unit, date, created_at, portfolio_record_id",
+      "quantity, unit_value, cost_basis_per_unit, date, created_at, portfolio_record_id",
     )
     .eq("position_id", positionId)
+    .is("loan_id", null)
     .lte("date", format(fromDate, "yyyy-MM-dd"))
     .order("date", { ascending: false })
     .order("created_at", { ascending: false })
@@ -100,9 +123,10 @@ export async function recalculateSnapshotsUntilNextUpdate(
     const { data: previousSnapshot } = await supabase
       .from("position_snapshots")
       .select(
-        "quantity, cost_basis_per_unit, date, created_at, portfolio_record_id",
+        "quantity, unit_value, cost_basis_per_unit, date, created_at, portfolio_record_id",
       )
       .eq("position_id", positionId)
+      .is("loan_id", null)
       .lte("date", baseSnapshot.date as string)
       .lt("created_at", baseSnapshot.created_at as string)
       .order("date", { ascending: false })
@@ -203,12 +227,26 @@ export async function recalculateSnapshotsUntilNextUpdate(
   }
 
   let runningQuantity = Number(baseSnapshot?.quantity ?? 0);
+  let runningUnitValue = Number(baseSnapshot?.unit_value ?? 1);
   let runningCostBasis = Number(baseSnapshot?.cost_basis_per_unit ?? 0);
 
   const applyRecord = (recordItem: PortfolioRecord) => {
     const quantity = Number(recordItem.quantity);
     const unitValue = Number(recordItem.unit_value);
 
+    // Cash ledger records move the balance; cash keeps its unit cost basis
+    const cashChange = getCashBalanceChange(recordItem);
+    if (cashChange !== null) {
+      runningQuantity = applyCashBalanceChange(
+        runningQuantity,
+        runningUnitValue,
+        cashChange,
+      );
+      // Legacy balances (quantity 1 × amount) now count in units of 1
+      if (!runningCostBasis || runningUnitValue !== 1) runningCostBasis = 1;
+      return;
+    }
+
     if (recordItem.type === "buy") {
       if (runningQuantity > 0) {
         const totalCost =
@@ -240,6 +278,7 @@ export async function recalculateSnapshotsUntilNextUpdate(
 
   for (const record of windowRecords) {
     applyRecord(record);
+    runningUnitValue = Number(record.unit_value);
 
     const recordDate = record.date as string;
 
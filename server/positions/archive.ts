@@ -1,16 +1,41 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
-import { getCurrentUser } from "@/server/auth/actions";
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { VIEW_ONLY_MESSAGE } from "@/server/portfolio-members/utils";
+import { emitWebhookEvent } from "@/server/webhooks/emit";
+
+type ArchivedPosition = {
+  id: string;
+  user_id: string;
+  name: string;
+  archived_at: string | null;
+};
+
+function emitPositionsArchived(positions: ArchivedPosition[]) {
+  positions.forEach(({ user_id, ...position }) =>
+    emitWebhookEvent(user_id, "position.archived", position),
+  );
+}
 
 // Single position archiving
 export async function archivePosition(positionId: string) {
-  const { supabase } = await getCurrentUser();
+  const { supabase, ownerId, access } = await getActivePortfolio();
+
+  if (access === "viewer") {
+    return {
+      success: false,
+      code: "READ_ONLY",
+      message: VIEW_ONLY_MESSAGE,
+    } as const;
+  }
 
-  const { error } = await supabase
+  const { data, error } = await supabase
     .from("positions")
     .update({ archived_at: new Date().toISOString() })
-    .eq("id", positionId);
+    .eq("id", positionId)
+    .eq("user_id", ownerId)
+    .select("id, user_id, name, archived_at");
 
   if (error)
     return {
@@ -19,6 +44,8 @@ export async function archivePosition(positionId: string) {
       message: error.message,
     } as const;
 
+  emitPositionsArchived(data);
+
   revalidatePath("/dashboard/assets", "layout");
   return { success: true } as const;
 }
@@ -33,11 +60,22 @@ export async function archivePositions(positionIds: string[]) {
     } as const;
   }
 
-  const { supabase } = await getCurrentUser();
-  const { error } = await supabase
+  const { supabase, ownerId, access } = await getActivePortfolio();
+
+  if (access === "viewer") {
+    return {
+      success: false,
+      code: "READ_ONLY",
+      message: VIEW_ONLY_MESSAGE,
+    } as const;
+  }
+
+  const { data, error } = await supabase
     .from("positions")
     .update({ archived_at: new Date().toISOString() })
-    .in("id", positionIds);
+    .in("id", positionIds)
+    .eq("user_id", ownerId)
+    .select("id, user_id, name, archived_at");
 
   if (error)
     return {
@@ -46,6 +84,8 @@ export async function archivePositions(positionIds: string[]) {
       message: error.message,
     } as const;
 
+  emitPositionsArchived(data);
+
   revalidatePath("/dashboard/assets", "layout");
   return { success: true, count: positionIds.length } as const;
 }
@@ -0,0 +1,33 @@
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+
+import type { PositionsQueryContext } from "@/server/positions/fetch";
+
+/**
+ * Client, portfolio owner and hidden items for position queries. Without
+ * an override this is the portfolio being viewed (own or shared with the
+ * user).
+ */
+export async function resolvePositionsContext(context?: PositionsQueryContext) {
+  if (context) {
+    const { supabaseClient, userId, hiddenPositionIds, hiddenCategoryIds } =
+      context;
+    if (!supabaseClient || !userId) {
+      throw new Error(
+        "fetchPositions override requires both supabaseClient and userId",
+      );
+    }
+    return {
+      supabase: supabaseClient,
+      userId,
+      hiddenPositionIds,
+      hiddenCategoryIds,
+    };
+  }
+
+  const { supabase, ownerId } = await getActivePortfolio();
+  return { supabase, userId: ownerId };
+}
+
+// PostgREST list for `in` filters; quoted since category IDs are text
+export const toFilterList = (values: string[]) =>
+  `(${values.map((value) => `"${value}"`).join(",")})`;
@@ -4,12 +4,24 @@ import { revalidatePath } from "next/cache";
 import { format } from "date-fns";
 
 import { getCurrentUser } from "@/server/auth/actions";
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { VIEW_ONLY_MESSAGE } from "@/server/portfolio-members/utils";
 import { createSymbol } from "@/server/symbols/create";
 import { resolveSymbolInput } from "@/server/symbols/resolver";
 import { createPositionSnapshot } from "@/server/position-snapshots/create";
 import { fetchSingleQuote } from "@/server/quotes/fetch";
+import { fetchAccounts, fetchSelectedAccountId } from "@/server/accounts/fetch";
+import { emitWebhookEvent } from "@/server/webhooks/emit";
+
+import {
+  WALLET_CHAINS,
+  isValidWalletAddress,
+  isWalletChain,
+  normalizeWalletAddress,
+} from "@/lib/crypto-wallets";
 
 import type { Position } from "@/types/global.types";
+import type { WalletChain } from "@/lib/crypto-wallets";
 
 // Check for duplicate position name
 async function checkDuplicatePositionName(
@@ -35,10 +47,19 @@ async function checkDuplicatePositionName(
 
 /**
  * Create a new position (asset/liability), optionally linked to a position source
- * (symbol/domain), and write an initial position snapshot.
+ * (symbol/domain/wallet/property), and write an initial position snapshot.
+ * Without an `account_id` the position goes into the account being viewed.
  */
 export async function createPosition(formData: FormData) {
-  const { supabase, user } = await getCurrentUser();
+  const { supabase, ownerId, access } = await getActivePortfolio();
+
+  if (access === "viewer") {
+    return {
+      success: false,
+      code: "READ_ONLY",
+      message: VIEW_ONLY_MESSAGE,
+    } as const;
+  }
 
   // Required fields
   const name = (formData.get("name") as string) || "";
@@ -63,6 +84,10 @@ export async function createPosition(formData: FormData) {
   ).trim();
   let symbolUuid: string | null = null;
   const domainId = (formData.get("domain_id") as string) || null;
+  const walletChainInput = (formData.get("wallet_chain") as string) || null;
+  const walletAddressInput = (formData.get("wallet_address") as string) || null;
+  const propertyId = (formData.get("property_id") as string) || null;
+  const accountIdInput = (formData.get("account_id") as string) || null;
 
   // Initial snapshot fields
   const quantityRaw = formData.get("quantity");
@@ -82,7 +107,7 @@ export async function createPosition(formData: FormData) {
   const snapshotDate = dateRaw ? new Date(dateRaw) : new Date();
 
   // Duplicate name check (active positions only)
-  const isDuplicate = await checkDuplicatePositionName(name, user.id);
+  const isDuplicate = await checkDuplicatePositionName(name, ownerId);
   if (isDuplicate) {
     return {
       success: false,
@@ -91,6 +116,55 @@ export async function createPosition(formData: FormData) {
     } as const;
   }
 
+  // Accounts must belong to the portfolio
+  const accountId = accountIdInput ?? (await fetchSelectedAccountId());
+  if (
+    accountIdInput &&
+    !(await fetchAccounts()).some((account) => account.id === accountIdInput)
+  ) {
+    return {
+      success: false,
+      code: "INVALID_ACCOUNT",
+      message: "Account not found",
+    } as const;
+  }
+
+  // Wallets need a supported chain and a valid address
+  let walletChain: WalletChain | null = null;
+  let walletAddress: string | null = null;
+  if (walletChainInput || walletAddressInput) {
+    if (
+      !isWalletChain(walletChainInput) ||
+      !walletAddressInput ||
+      !isValidWalletAddress(walletChainInput, walletAddressInput)
+    ) {
+      return {
+        success: false,
+        code: "INVALID_WALLET",
+        message: "Enter a valid address for a supported chain.",
+      } as const;
+    }
+
+    walletChain = walletChainInput;
+    walletAddress = normalizeWalletAddress(walletChain, walletAddressInput);
+
+    // Wallets are priced through the chain's native asset symbol
+    const nativeSymbol = WALLET_CHAINS[walletChain].nativeSymbol;
+    const resolvedNative = await resolveSymbolInput(nativeSymbol);
+    if (!resolvedNative?.symbol?.id) {
+      const creationResult = await createSymbol(nativeSymbol);
+      if (!creationResult.success) {
+        return {
+          success: false,
+          code: creationResult.code ?? "SYMBOL_CREATE_FAILED",
+          message:
+            creationResult.message ??
+            `Unable to create the ${nativeSymbol} symbol used to value the wallet`,
+        } as const;
+      }
+    }
+  }
+
   // Ensure symbol exists if provided
   if (rawSymbolInput) {
     const resolved = await resolveSymbolInput(rawSymbolInput);
@@ -146,7 +220,7 @@ export async function createPosition(formData: FormData) {
   const { data: positionRow, error: positionError } = await supabase
     .from("positions")
     .insert({
-      user_id: user.id,
+      user_id: ownerId,
       type,
       name,
       currency,
@@ -154,6 +228,10 @@ export async function createPosition(formData: FormData) {
       description,
       symbol_id: symbolUuid,
       domain_id: domainId,
+      wallet_chain: walletChain,
+      wallet_address: walletAddress,
+      property_id: propertyId,
+      account_id: accountId,
     })
     .select("id")
     .single();
@@ -177,6 +255,15 @@ export async function createPosition(formData: FormData) {
 
   if (!snapshotResult.success) return snapshotResult;
 
+  emitWebhookEvent(ownerId, "position.created", {
+    id: positionRow.id,
+    type,
+    name,
+    currency,
+    category_id,
+    quantity,
+  });
+
   revalidatePath("/dashboard", "layout");
-  return { success: true } as const;
+  return { success: true, data: { id: positionRow.id } } as const;
 }
@@ -1,16 +1,26 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
-import { getCurrentUser } from "@/server/auth/actions";
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { VIEW_ONLY_MESSAGE } from "@/server/portfolio-members/utils";
 
 // Single position deletion
 export async function deletePosition(positionId: string) {
-  const { supabase } = await getCurrentUser();
+  const { supabase, ownerId, access } = await getActivePortfolio();
+
+  if (access === "viewer") {
+    return {
+      success: false,
+      code: "READ_ONLY",
+      message: VIEW_ONLY_MESSAGE,
+    } as const;
+  }
 
   const { error } = await supabase
     .from("positions")
     .delete()
-    .eq("id", positionId);
+    .eq("id", positionId)
+    .eq("user_id", ownerId);
   if (error)
     return {
       success: false,
@@ -32,11 +42,21 @@ export async function deletePositions(positionIds: string[]) {
     } as const;
   }
 
-  const { supabase } = await getCurrentUser();
+  const { supabase, ownerId, access } = await getActivePortfolio();
+
+  if (access === "viewer") {
+    return {
+      success: false,
+      code: "READ_ONLY",
+      message: VIEW_ONLY_MESSAGE,
+    } as const;
+  }
+
   const { error } = await supabase
     .from("positions")
     .delete()
-    .in("id", positionIds);
+    .in("id", positionIds)
+    .eq("user_id", ownerId);
   if (error)
     return {
       success: false,
@@ -4,7 +4,10 @@ import { cache } from "react";
 import { format } from "date-fns";
 import type { SupabaseClient } from "@supabase/supabase-js";
 
-import { getCurrentUser } from "@/server/auth/actions";
+import {
+  resolvePositionsContext,
+  toFilterList,
+} from "@/server/positions/context";
 import {
   fetchMarketData,
   toMarketDataPositions,
@@ -24,6 +27,8 @@ interface FetchPositionsOptions {
   positionId?: string;
   /** Filter by position type */
   positionType?: "asset" | "liability";
+  /** Only positions in this account (null/undefined = all accounts) */
+  accountId?: string | null;
   /**
    * As-of valuation date. When provided, builds current quantity/unit value
    * from position_snapshots at/before the date; otherwise uses latest.
@@ -36,23 +41,11 @@ interface FetchPositionsOptions {
 export type PositionsQueryContext = {
   supabaseClient?: SupabaseClient<Database>;
   userId?: string;
+  /** Left out of every result, e.g. positions hidden on a public portfolio */
+  hiddenPositionIds?: string[];
+  hiddenCategoryIds?: string[];
 };
 
-async function resolvePositionsContext(context?: PositionsQueryContext) {
-  if (context) {
-    const { supabaseClient, userId } = context;
-    if (!supabaseClient || !userId) {
-      throw new Error(
-        "fetchPositions override requires both supabaseClient and userId",
-      );
-    }
-    return { supabase: supabaseClient, userId };
-  }
-
-  const { supabase, user } = await getCurrentUser();
-  return { supabase, userId: user.id };
-}
-
 /**
  * Fetch positions with optional archived filter and as-of valuation.
  * Returns UI-ready TransformedPosition[] mirroring the legacy API shape.
@@ -83,11 +76,13 @@ async function fetchPositionsImpl(
     includeArchived = false,
     onlyArchived = false,
     positionType,
+    accountId,
     asOfDate = null,
     includeSnapshots = false,
   } = options;
 
-  const { supabase, userId } = await resolvePositionsContext(context);
+  const { supabase, userId, hiddenPositionIds, hiddenCategoryIds } =
+    await resolvePositionsContext(context);
 
   // Load base rows with category
   const baseQuery = supabase
@@ -110,6 +105,17 @@ async function fetchPositionsImpl(
   // Optional type filter
   if (positionType) baseQuery.eq("type", positionType);
 
+  // Optional account filter
+  if (accountId) baseQuery.eq("account_id", accountId);
+
+  // Hidden positions and categories
+  if (hiddenPositionIds?.length) {
+    baseQuery.not("id", "in", toFilterList(hiddenPositionIds));
+  }
+  if (hiddenCategoryIds?.length) {
+    baseQuery.not("category_id", "in", toFilterList(hiddenCategoryIds));
+  }
+
   // Handle archived positions filtering
   if (onlyArchived) baseQuery.not("archived_at", "is", null);
   else if (!includeArchived) baseQuery.is("archived_at", null);
@@ -1,148 +1,348 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
+import { format } from "date-fns";
 
-import { getCurrentUser } from "@/server/auth/actions";
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
 import { createSymbol } from "@/server/symbols/create";
 import { resolveSymbolInput } from "@/server/symbols/resolver";
 import { fetchSingleQuote } from "@/server/quotes/fetch";
 import { createPosition } from "@/server/positions/create";
+import { createPortfolioRecord } from "@/server/portfolio-records/create";
+import { emitWebhookEvent } from "@/server/webhooks/emit";
 
 import { parsePositionsCSV } from "@/lib/import/sources/csv";
 
-import type { ImportActionResult } from "@/lib/import/types";
+import type {
+  ImportActionResult,
+  PositionImportDiffRow,
+  PositionImportPreviewResult,
+  PositionImportRow,
+} from "@/lib/import/types";
 
-export async function importPositionsFromCSV(
+type ImportPositionType = "asset" | "liability";
+
+// Quantities closer than this are considered unchanged
+const QUANTITY_TOLERANCE = 1e-9;
+
+/**
+ * Match import rows to the active positions of the portfolio being viewed (by symbol, then name)
+ * and classify each as new, a quantity update or unchanged.
+ */
+async function buildImportDiff(
+  rows: PositionImportRow[],
+  positionType: ImportPositionType,
+): Promise<PositionImportDiffRow[]> {
+  const { supabase, ownerId } = await getActivePortfolio();
+
+  const { data: positions, error } = await supabase
+    .from("positions")
+    .select("id, name, type, currency, symbol_id")
+    .eq("user_id", ownerId)
+    .is("archived_at", null);
+
+  if (error) throw new Error(`Failed to fetch positions: ${error.message}`);
+
+  const symbolIds = await Promise.all(
+    rows.map(async (row) => {
+      const lookup = row.symbolLookup?.trim();
+      if (!lookup) return null;
+      const resolved = await resolveSymbolInput(lookup);
+      return resolved?.symbol?.id ?? null;
+    }),
+  );
+
+  const matches = rows.map((row, index) => {
+    const symbolId = symbolIds[index];
+    const match =
+      (symbolId &&
+        positions.find(
+          (position) =>
+            position.type === positionType && position.symbol_id === symbolId,
+        )) ||
+      positions.find((position) => position.name === row.name);
+
+    if (!match) return null;
+
+    // Names are unique across types
+    if (match.type !== positionType) {
+      throw new Error(
+        `Cannot import "${row.name}": the name is already used by one of your ${match.type === "asset" ? "assets" : "liabilities"}.`,
+      );
+    }
+    if (match.currency !== row.currency) {
+      throw new Error(
+        `Cannot import "${row.name}": the existing position is held in ${match.currency}, not ${row.currency}.`,
+      );
+    }
+
+    return match;
+  });
+
+  const matchedIds = matches.flatMap((match) => (match ? [match.id] : []));
+  const duplicate = matchedIds.find(
+    (id, index) => matchedIds.indexOf(id) !== index,
+  );
+  if (duplicate) {
+    const name = positions.find((position) => position.id === duplicate)?.name;
+    throw new Error(
+      `Cannot import: several rows match the existing position "${name}".`,
+    );
+  }
+
+  // Latest snapshot per matched position
+  const latestSnapshots = new Map<
+    string,
+    { quantity: number; unit_value: number }
+  >();
+  if (matchedIds.length) {
+    const { data: snapshots, error: snapshotsError } = await supabase
+      .from("position_snapshots")
+      .select("position_id, quantity, unit_value")
+      .in("position_id", matchedIds)
+      .order("date", { ascending: false })
+      .order("created_at", { ascending: false });
+
+    if (snapshotsError) {
+      throw new Error(
+        `Failed to fetch position snapshots: ${snapshotsError.message}`,
+      );
+    }
+
+    snapshots.forEach((snapshot) => {
+      if (!latestSnapshots.has(snapshot.position_id)) {
+        latestSnapshots.set(snapshot.position_id, snapshot);
+      }
+    });
+  }
+
+  return rows.map((row, index) => {
+    const match = matches[index];
+    const snapshot = match ? latestSnapshots.get(match.id) : undefined;
+    const currentQuantity = snapshot?.quantity ?? (match ? 0 : null);
+
+    return {
+      row,
+      status: !match
+        ? "new"
+        : Math.abs(row.quantity - (currentQuantity ?? 0)) <= QUANTITY_TOLERANCE
+          ? "unchanged"
+          : "update",
+      positionId: match?.id ?? null,
+      symbolId: symbolIds[index],
+      currentQuantity,
+      currentUnitValue: snapshot?.unit_value ?? null,
+    };
+  });
+}
+
+// Create a position for a row that matched nothing
+async function createImportedPosition(
+  row: PositionImportRow,
+  positionType: ImportPositionType,
+) {
+  let unitValue = row.unit_value;
+
+  // If symbol present and unit_value missing, try to create symbol and fetch quote
+  let canonicalSymbolId: string | null = null;
+  const rawSymbolInput = row.symbolLookup?.trim() ?? "";
+
+  if (rawSymbolInput !== "") {
+    const resolved = await resolveSymbolInput(rawSymbolInput);
+
+    if (resolved?.symbol?.id) {
+      canonicalSymbolId = resolved.symbol.id;
+    } else {
+      const creationResult = await createSymbol(rawSymbolInput);
+      if (!creationResult.success || !creationResult.data?.id) {
+        return {
+          success: false,
+          error: `Failed to create symbol ${rawSymbolInput}: ${creationResult.message}`,
+        } as const;
+      }
+
+      const postCreateResolved = await resolveSymbolInput(rawSymbolInput);
+      if (!postCreateResolved?.symbol?.id) {
+        return {
+          success: false,
+          error: `Symbol ${rawSymbolInput} was created but could not be resolved to a canonical identifier`,
+        } as const;
+      }
+
+      canonicalSymbolId = postCreateResolved.symbol.id;
+    }
+
+    if (unitValue == null) {
+      try {
+        unitValue = await fetchSingleQuote(canonicalSymbolId ?? rawSymbolInput);
+      } catch {
+        // Keep unitValue as null and let validation handle it
+      }
+    }
+  }
+
+  // For non-symbol imports, unit_value must be present and valid
+  if (
+    rawSymbolInput === "" &&
+    (unitValue == null || !Number.isFinite(unitValue))
+  ) {
+    return {
+      success: false,
+      error: `Missing unit value for "${row.name}". Provide unit_value in CSV or provide a recognizable symbol to fetch price automatically.`,
+    } as const;
+  }
+
+  // Delegate to existing server action (ensures sources hub + snapshot creation)
+  const formData = new FormData();
+  formData.append("type", positionType);
+  formData.append("name", row.name);
+  formData.append("currency", row.currency);
+  formData.append("category_id", row.category_id);
+  formData.append("quantity", String(row.quantity));
+  formData.append("unit_value", unitValue != null ? String(unitValue) : "");
+  formData.append("symbolLookup", canonicalSymbolId ?? rawSymbolInput ?? "");
+  formData.append(
+    "cost_basis_per_unit",
+    row.cost_basis_per_unit != null ? String(row.cost_basis_per_unit) : "",
+  );
+  formData.append("description", row.description ?? "");
+
+  const result = await createPosition(formData);
+  if (!result.success) {
+    return {
+      success: false,
+      error: `Failed to import "${row.name}": ${result.message}`,
+    } as const;
+  }
+
+  return { success: true } as const;
+}
+
+// Record a quantity change on a matched position as an UPDATE record
+async function updateImportedPosition(entry: PositionImportDiffRow) {
+  const { row, positionId, symbolId } = entry;
+
+  // Prefer the file's price, then the market, then the last known value
+  let unitValue = row.unit_value;
+  const rawSymbolInput = row.symbolLookup?.trim() ?? "";
+  if (unitValue == null && rawSymbolInput !== "") {
+    try {
+      unitValue = await fetchSingleQuote(symbolId ?? rawSymbolInput);
+    } catch {
+      // Fall back to the latest snapshot
+    }
+  }
+  unitValue ??= entry.currentUnitValue;
+
+  if (unitValue == null || !Number.isFinite(unitValue)) {
+    return {
+      success: false,
+      error: `Missing unit value for "${row.name}".`,
+    } as const;
+  }
+
+  const formData = new FormData();
+  formData.append("type", "update");
+  formData.append("position_id", positionId!);
+  formData.append("date", format(new Date(), "yyyy-MM-dd"));
+  formData.append("quantity", String(row.quantity));
+  formData.append("unit_value", String(unitValue));
+  if (row.cost_basis_per_unit != null) {
+    formData.append("cost_basis_per_unit", String(row.cost_basis_per_unit));
+  }
+
+  const result = await createPortfolioRecord(formData);
+  if (!result.success) {
+    return {
+      success: false,
+      error: `Failed to update "${row.name}": ${result.message}`,
+    } as const;
+  }
+
+  return { success: true } as const;
+}
+
+/**
+ * Preview what importing a CSV would change: new positions, quantity
+ * updates on existing positions and unchanged rows.
+ */
+export async function previewPositionsImport(
   csvContent: string,
-  positionType: "asset" | "liability" = "asset",
-): Promise<ImportActionResult> {
+  positionType: ImportPositionType = "asset",
+): Promise<PositionImportPreviewResult> {
   try {
-    if (positionType !== "asset") {
+    const parsed = await parsePositionsCSV(csvContent, positionType);
+    if (!parsed.success) {
       return {
         success: false,
-        error: "Only asset imports are supported right now",
+        error: (parsed.errors ?? ["Failed to parse CSV"]).join("\n"),
       };
     }
 
+    return {
+      success: true,
+      diff: await buildImportDiff(parsed.positions, positionType),
+    };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to preview import",
+    };
+  }
+}
+
+/**
+ * Import positions from a CSV, applying the same diff as the preview:
+ * new rows become positions, changed quantities become UPDATE records on
+ * the matched positions and unchanged rows are skipped. Re-importing the
+ * same export is therefore a no-op.
+ */
+export async function importPositionsFromCSV(
+  csvContent: string,
+  positionType: ImportPositionType = "asset",
+): Promise<ImportActionResult> {
+  try {
     // 1) Parse and validate CSV (shared logic)
-    const parsed = await parsePositionsCSV(csvContent);
+    const parsed = await parsePositionsCSV(csvContent, positionType);
     if (!parsed.success) {
       return {
         success: false,
         error: (parsed.errors ?? ["Failed to parse CSV"]).join("\n"),
       };
     }
-    const rows = parsed.positions;
-
-    // 2) Check duplicate names in positions
-    const { supabase, user } = await getCurrentUser();
-    const names = rows.map((p) => p.name);
-    const { data: existing, error: dupErr } = await supabase
-      .from("positions")
-      .select("name")
-      .eq("user_id", user.id)
-      .eq("type", "asset")
-      .is("archived_at", null)
-      .in("name", names);
-
-    if (dupErr) {
-      return {
-        success: false,
-        error: `Failed duplicate check: ${dupErr.message}`,
-      };
-    }
-    if (existing && existing.length > 0) {
-      const list = existing.map((e) => e.name).join(", ");
-      return {
-        success: false,
-        error: `Cannot import: the following position name(s) already exist: ${list}. Please rename them in your CSV and try again.`,
-      };
-    }
 
-    // 3) Import each position
-    for (const row of rows) {
-      let unitValue = row.unit_value;
-
-      // If symbol present and unit_value missing, try to create symbol and fetch quote
-      let canonicalSymbolId: string | null = null;
-      const rawSymbolInput = row.symbolLookup?.trim() ?? "";
-
-      if (rawSymbolInput !== "") {
-        const resolved = await resolveSymbolInput(rawSymbolInput);
-
-        if (resolved?.symbol?.id) {
-          canonicalSymbolId = resolved.symbol.id;
-        } else {
-          const creationResult = await createSymbol(rawSymbolInput);
-          if (!creationResult.success || !creationResult.data?.id) {
-            return {
-              success: false,
-              error: `Failed to create symbol ${rawSymbolInput}: ${creationResult.message}`,
-            };
-          }
-
-          const postCreateResolved = await resolveSymbolInput(rawSymbolInput);
-          if (!postCreateResolved?.symbol?.id) {
-            return {
-              success: false,
-              error: `Symbol ${rawSymbolInput} was created but could not be resolved to a canonical identifier`,
-            };
-          }
-
-          canonicalSymbolId = postCreateResolved.symbol.id;
-        }
-
-        if (unitValue == null) {
-          try {
-            unitValue = await fetchSingleQuote(
-              canonicalSymbolId ?? rawSymbolInput,
-            );
-          } catch {
-            // Keep unitValue as null and let validation handle it
-          }
-        }
-      }
+    // 2) Match rows to existing positions
+    const diff = await buildImportDiff(parsed.positions, positionType);
 
-      // For non-symbol imports, unit_value must be present and valid
-      if (
-        rawSymbolInput === "" &&
-        (unitValue == null || !Number.isFinite(unitValue))
-      ) {
-        return {
-          success: false,
-          error: `Missing unit value for "${row.name}". Provide unit_value in CSV or provide a recognizable symbol to fetch price automatically.`,
-        };
-      }
+    // 3) Apply the diff
+    for (const entry of diff) {
+      if (entry.status === "unchanged") continue;
 
-      // 4) Delegate to existing server action (ensures sources hub + snapshot creation)
-      const formData = new FormData();
-      formData.append("type", "asset");
-      formData.append("name", row.name);
-      formData.append("currency", row.currency);
-      formData.append("category_id", row.category_id);
-      formData.append("quantity", String(row.quantity));
-      formData.append("unit_value", unitValue != null ? String(unitValue) : "");
-      formData.append(
-        "symbolLookup",
-        canonicalSymbolId ?? rawSymbolInput ?? "",
-      );
-      formData.append(
-        "cost_basis_per_unit",
-        row.cost_basis_per_unit != null ? String(row.cost_basis_per_unit) : "",
-      );
-      formData.append("description", row.description ?? "");
-
-      const result = await createPosition(formData);
-      if (!result.success) {
-        return {
-          success: false,
-          error: `Failed to import "${row.name}": ${result.message}`,
-        };
-      }
+      const result =
+        entry.status === "new"
+          ? await createImportedPosition(entry.row, positionType)
+          : await updateImportedPosition(entry);
+      if (!result.success) return result;
     }
 
+    const skippedCount = diff.filter(
+      (entry) => entry.status === "unchanged",
+    ).length;
+
+    const { ownerId } = await getActivePortfolio();
+    emitWebhookEvent(ownerId, "import.completed", {
+      kind: "positions",
+      position_type: positionType,
+      imported_count: diff.length - skippedCount,
+      skipped_count: skippedCount,
+    });
+
     revalidatePath("/dashboard", "layout");
-    return { success: true, importedCount: rows.length };
+    return {
+      success: true,
+      importedCount: diff.length - skippedCount,
+      skippedCount,
+    };
   } catch (err) {
     return {
       success: false,
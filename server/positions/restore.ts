@@ -1,16 +1,26 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
-import { getCurrentUser } from "@/server/auth/actions";
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { VIEW_ONLY_MESSAGE } from "@/server/portfolio-members/utils";
 
 // Single position restoration
 export async function restorePosition(positionId: string) {
-  const { supabase } = await getCurrentUser();
+  const { supabase, ownerId, access } = await getActivePortfolio();
+
+  if (access === "viewer") {
+    return {
+      success: false,
+      code: "READ_ONLY",
+      message: VIEW_ONLY_MESSAGE,
+    } as const;
+  }
 
   const { error } = await supabase
     .from("positions")
     .update({ archived_at: null })
-    .eq("id", positionId);
+    .eq("id", positionId)
+    .eq("user_id", ownerId);
 
   if (error)
     return {
@@ -33,11 +43,21 @@ export async function restorePositions(positionIds: string[]) {
     } as const;
   }
 
-  const { supabase } = await getCurrentUser();
+  const { supabase, ownerId, access } = await getActivePortfolio();
+
+  if (access === "viewer") {
+    return {
+      success: false,
+      code: "READ_ONLY",
+      message: VIEW_ONLY_MESSAGE,
+    } as const;
+  }
+
   const { error } = await supabase
     .from("positions")
     .update({ archived_at: null })
-    .in("id", positionIds);
+    .in("id", positionIds)
+    .eq("user_id", ownerId);
 
   if (error)
     return {
@@ -2,25 +2,49 @@
 
 import { revalidatePath } from "next/cache";
 
-import { createClient } from "@/supabase/server";
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { VIEW_ONLY_MESSAGE } from "@/server/portfolio-members/utils";
+import { fetchAccounts } from "@/server/accounts/fetch";
 
 import type { Position } from "@/types/global.types";
 
 export async function updatePosition(formData: FormData, positionId: string) {
-  const supabase = await createClient();
+  const { supabase, ownerId, access } = await getActivePortfolio();
+
+  if (access === "viewer") {
+    return { success: false, code: "READ_ONLY", message: VIEW_ONLY_MESSAGE };
+  }
 
   // Extract and validate data from formData
-  const updateData: Pick<Position, "name" | "category_id" | "description"> = {
+  const updateData: Pick<Position, "name" | "category_id" | "description"> &
+    Partial<Pick<Position, "account_id">> = {
     name: formData.get("name") as string,
     category_id: formData.get("category_id") as string,
     description: (formData.get("description") as string) || null,
   };
 
+  // Account is optional, an empty value moves the position out of accounts
+  if (formData.has("account_id")) {
+    const accountId = (formData.get("account_id") as string) || null;
+    if (
+      accountId &&
+      !(await fetchAccounts()).some((account) => account.id === accountId)
+    ) {
+      return {
+        success: false,
+        code: "INVALID_ACCOUNT",
+        message: "Account not found",
+      };
+    }
+    updateData.account_id = accountId;
+  }
+
   // Update the position in the database
   const { error } = await supabase
     .from("positions")
     .update(updateData)
-    .eq("id", positionId);
+    .eq("id", positionId)
+    .eq("user_id", ownerId);
 
   // Return errors instead of throwing
   if (error) {
@@ -4,6 +4,7 @@ import { cache } from "react";
 import { revalidatePath } from "next/cache";
 
 import { getCurrentUser, getOptionalUser } from "@/server/auth/actions";
+import { syncUserRealizedGains } from "@/server/realized-gains/lots";
 
 import type { Profile } from "@/types/global.types";
 import { createClient } from "@/supabase/server";
@@ -64,13 +65,25 @@ export async function updateProfile(formData: FormData) {
   const { supabase, user } = await getCurrentUser();
 
   // Data is already validated in the form component
-  const data: Pick<Profile, "username" | "display_currency"> = {
+  const data: Pick<
+    Profile,
+    "username" | "display_currency" | "cost_basis_method"
+  > = {
     username: String(formData.get("username")).trim(),
     display_currency: String(formData.get("display_currency"))
       .trim()
       .toUpperCase(),
+    cost_basis_method: String(
+      formData.get("cost_basis_method") || "fifo",
+    ) as Profile["cost_basis_method"],
   };
 
+  const { data: current } = await supabase
+    .from("profiles")
+    .select("cost_basis_method")
+    .eq("user_id", user.id)
+    .single();
+
   // Update profile
   const { error } = await supabase
     .from("profiles")
@@ -82,6 +95,18 @@ export async function updateProfile(formData: FormData) {
     return { success: false, code: error.code, message: error.message };
   }
 
+  // Re-match past sales under the new cost basis method
+  if (current?.cost_basis_method !== data.cost_basis_method) {
+    const syncResult = await syncUserRealizedGains(user.id);
+    if (!syncResult.success) {
+      return {
+        success: false,
+        code: syncResult.code,
+        message: syncResult.message,
+      };
+    }
+  }
+
   revalidatePath("/dashboard", "layout");
   return { success: true };
 }
@@ -0,0 +1,192 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { VIEW_ONLY_MESSAGE } from "@/server/portfolio-members/utils";
+import { createPosition } from "@/server/positions/create";
+
+// Parse the appraisal fields shared by the property and appraisal forms
+function parseAppraisalFormData(formData: FormData) {
+  const date = (formData.get("date") as string) || "";
+  const value = Number(formData.get("value"));
+  const description = (formData.get("description") as string) || null;
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return {
+      ok: false,
+      message: "A valid appraisal date is required",
+    } as const;
+  }
+
+  if (!Number.isFinite(value) || value < 0) {
+    return {
+      ok: false,
+      message: "Appraisal value must be 0 or greater",
+    } as const;
+  }
+
+  return { ok: true, values: { date, value, description } } as const;
+}
+
+/**
+ * Create a real estate position backed by a property and its first
+ * appraisal. The property market data handler values it from then on.
+ */
+export async function createProperty(formData: FormData) {
+  const { supabase, ownerId, access } = await getActivePortfolio();
+
+  if (access === "viewer") {
+    return {
+      success: false,
+      code: "READ_ONLY",
+      message: VIEW_ONLY_MESSAGE,
+    } as const;
+  }
+
+  const address = (formData.get("address") as string) || null;
+  const parsed = parseAppraisalFormData(formData);
+
+  if (!parsed.ok) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      message: parsed.message,
+    } as const;
+  }
+
+  const { data: property, error: propertyError } = await supabase
+    .from("properties")
+    .insert({ user_id: ownerId, address })
+    .select("id")
+    .single();
+
+  if (propertyError || !property) {
+    return {
+      success: false,
+      code: propertyError?.code ?? "UNKNOWN",
+      message: propertyError?.message ?? "Failed to create property",
+    } as const;
+  }
+
+  // Don't leave an orphaned property behind (appraisals cascade)
+  const removeProperty = () =>
+    supabase
+      .from("properties")
+      .delete()
+      .eq("id", property.id)
+      .eq("user_id", ownerId);
+
+  const { error: appraisalError } = await supabase
+    .from("property_appraisals")
+    .insert({
+      user_id: ownerId,
+      property_id: property.id,
+      date: parsed.values.date,
+      value: parsed.values.value,
+      description: "Initial appraisal",
+    });
+
+  if (appraisalError) {
+    await removeProperty();
+    return {
+      success: false,
+      code: appraisalError.code,
+      message: appraisalError.message,
+    } as const;
+  }
+
+  // The position opens at the first appraisal with the appraised value
+  const positionFormData = new FormData();
+  positionFormData.append("name", (formData.get("name") as string) || "");
+  positionFormData.append(
+    "currency",
+    (formData.get("currency") as string) || "",
+  );
+  positionFormData.append("category_id", "real_estate");
+  positionFormData.append("property_id", property.id);
+  positionFormData.append("quantity", "1");
+  positionFormData.append("unit_value", String(parsed.values.value));
+  positionFormData.append("date", parsed.values.date);
+  if (parsed.values.description) {
+    positionFormData.append("description", parsed.values.description);
+  }
+
+  const positionResult = await createPosition(positionFormData);
+  if (!positionResult.success) {
+    await removeProperty();
+    return positionResult;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
+
+/**
+ * Add an appraisal to a property, replacing any appraisal on the same date.
+ */
+export async function createPropertyAppraisal(formData: FormData) {
+  const { supabase, ownerId, access } = await getActivePortfolio();
+
+  if (access === "viewer") {
+    return {
+      success: false,
+      code: "READ_ONLY",
+      message: VIEW_ONLY_MESSAGE,
+    } as const;
+  }
+
+  const propertyId = (formData.get("property_id") as string) || "";
+  const parsed = parseAppraisalFormData(formData);
+
+  if (!propertyId) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      message: "Missing required field: property_id",
+    } as const;
+  }
+
+  if (!parsed.ok) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      message: parsed.message,
+    } as const;
+  }
+
+  const { data: property, error: propertyError } = await supabase
+    .from("properties")
+    .select("id")
+    .eq("id", propertyId)
+    .eq("user_id", ownerId)
+    .maybeSingle();
+
+  if (propertyError || !property) {
+    return {
+      success: false,
+      code: propertyError?.code ?? "NOT_FOUND",
+      message: propertyError?.message ?? "Property not found",
+    } as const;
+  }
+
+  const { error } = await supabase.from("property_appraisals").upsert(
+    {
+      user_id: ownerId,
+      property_id: property.id,
+      ...parsed.values,
+    },
+    { onConflict: "property_id,date" },
+  );
+
+  if (error) {
+    return {
+      success: false,
+      code: error.code,
+      message: error.message,
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
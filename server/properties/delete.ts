@@ -0,0 +1,76 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { VIEW_ONLY_MESSAGE } from "@/server/portfolio-members/utils";
+
+/**
+ * Remove an appraisal. A property keeps at least one appraisal so it can
+ * still be valued.
+ */
+export async function deletePropertyAppraisal(appraisalId: string) {
+  const { supabase, ownerId, access } = await getActivePortfolio();
+
+  if (access === "viewer") {
+    return {
+      success: false,
+      code: "READ_ONLY",
+      message: VIEW_ONLY_MESSAGE,
+    } as const;
+  }
+
+  const { data: appraisal, error: fetchError } = await supabase
+    .from("property_appraisals")
+    .select("id, property_id")
+    .eq("id", appraisalId)
+    .eq("user_id", ownerId)
+    .maybeSingle();
+
+  if (fetchError || !appraisal) {
+    return {
+      success: false,
+      code: fetchError?.code ?? "NOT_FOUND",
+      message: fetchError?.message ?? "Appraisal not found",
+    } as const;
+  }
+
+  const { count, error: countError } = await supabase
+    .from("property_appraisals")
+    .select("id", { count: "exact", head: true })
+    .eq("property_id", appraisal.property_id)
+    .eq("user_id", ownerId);
+
+  if (countError) {
+    return {
+      success: false,
+      code: countError.code,
+      message: countError.message,
+    } as const;
+  }
+
+  if ((count ?? 0) <= 1) {
+    return {
+      success: false,
+      code: "LAST_APPRAISAL",
+      message: "A property needs at least one appraisal",
+    } as const;
+  }
+
+  const { error } = await supabase
+    .from("property_appraisals")
+    .delete()
+    .eq("id", appraisal.id)
+    .eq("user_id", ownerId);
+
+  if (error) {
+    return {
+      success: false,
+      code: error.code,
+      message: error.message,
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
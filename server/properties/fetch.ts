@@ -0,0 +1,151 @@
+"use server";
+
+import { createServiceClient } from "@/supabase/service";
+
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { formatUtcDateKey } from "@/server/quotes/utils";
+
+import {
+  getPropertyValuationKey,
+  getPropertyValuesOnDates,
+} from "@/lib/property-valuation";
+
+import type { PropertyIndexPoint } from "@/lib/property-valuation";
+
+/**
+ * Fetch the property behind a real estate position with its appraisals
+ * (newest first) and the number of points in its regional index series.
+ * Returns null when the property does not exist.
+ */
+export async function fetchProperty(propertyId: string) {
+  const { supabase, ownerId } = await getActivePortfolio();
+
+  const { data: property, error } = await supabase
+    .from("properties")
+    .select("*, property_appraisals(*)")
+    .eq("id", propertyId)
+    .eq("user_id", ownerId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch property: ${error.message}`);
+  }
+
+  if (!property) return null;
+
+  let indexCount = 0;
+  if (property.region) {
+    const { count, error: indexError } = await supabase
+      .from("property_index_values")
+      .select("date", { count: "exact", head: true })
+      .eq("user_id", ownerId)
+      .eq("region", property.region);
+
+    if (indexError) {
+      throw new Error(`Failed to fetch property index: ${indexError.message}`);
+    }
+
+    indexCount = count ?? 0;
+  }
+
+  const { property_appraisals: appraisals, ...rest } = property;
+  return {
+    property: rest,
+    appraisals: [...appraisals].sort((a, b) => b.date.localeCompare(a.date)),
+    indexCount,
+  };
+}
+
+/**
+ * Value properties on many dates from their appraisals and, when a region is
+ * set, the user's imported index series for that region.
+ *
+ * @param requests - Array of {propertyId, date} pairs to value
+ * @returns Map keyed by `getPropertyValuationKey` with the property value
+ */
+export async function fetchPropertyValuations(
+  requests: Array<{ propertyId: string; date: Date }>,
+) {
+  const results = new Map<string, number>();
+  if (!requests.length) return results;
+
+  const supabase = createServiceClient();
+
+  // Group requested dates per property
+  const dateKeysByProperty = new Map<string, Set<string>>();
+  requests.forEach(({ propertyId, date }) => {
+    const dateKeys = dateKeysByProperty.get(propertyId) ?? new Set<string>();
+    dateKeys.add(formatUtcDateKey(date));
+    dateKeysByProperty.set(propertyId, dateKeys);
+  });
+  const propertyIds = [...dateKeysByProperty.keys()];
+
+  const [propertiesResult, appraisalsResult] = await Promise.all([
+    supabase
+      .from("properties")
+      .select("id, user_id, region")
+      .in("id", propertyIds),
+    supabase
+      .from("property_appraisals")
+      .select("property_id, date, value")
+      .in("property_id", propertyIds),
+  ]);
+
+  if (propertiesResult.error) {
+    throw new Error(
+      `Failed to fetch properties: ${propertiesResult.error.message}`,
+    );
+  }
+  if (appraisalsResult.error) {
+    throw new Error(
+      `Failed to fetch property appraisals: ${appraisalsResult.error.message}`,
+    );
+  }
+
+  const properties = propertiesResult.data ?? [];
+
+  // Regional index series of the owners, keyed by "user_id|region"
+  const indexBySeries = new Map<string, PropertyIndexPoint[]>();
+  const regions = [
+    ...new Set(properties.flatMap((p) => (p.region ? [p.region] : []))),
+  ];
+  if (regions.length) {
+    const { data: indexValues, error: indexError } = await supabase
+      .from("property_index_values")
+      .select("user_id, region, date, value")
+      .in("user_id", [...new Set(properties.map((p) => p.user_id))])
+      .in("region", regions);
+
+    if (indexError) {
+      throw new Error(`Failed to fetch property index: ${indexError.message}`);
+    }
+
+    indexValues?.forEach(({ user_id, region, date, value }) => {
+      const seriesKey = `${user_id}|${region}`;
+      const series = indexBySeries.get(seriesKey) ?? [];
+      series.push({ date, value });
+      indexBySeries.set(seriesKey, series);
+    });
+  }
+
+  properties.forEach((property) => {
+    const appraisals = (appraisalsResult.data ?? []).filter(
+      (appraisal) => appraisal.property_id === property.id,
+    );
+    const index = property.region
+      ? (indexBySeries.get(`${property.user_id}|${property.region}`) ?? [])
+      : [];
+
+    const values = getPropertyValuesOnDates(
+      appraisals,
+      [...(dateKeysByProperty.get(property.id) ?? [])],
+      index,
+    );
+
+    values.forEach((value, dateKey) => {
+      results.set(getPropertyValuationKey(property.id, dateKey), value);
+    });
+  });
+
+  return results;
+}
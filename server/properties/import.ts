@@ -0,0 +1,81 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { VIEW_ONLY_MESSAGE } from "@/server/portfolio-members/utils";
+
+import { parsePropertyIndexCSV } from "@/lib/import/sources/property-index";
+
+import type { ImportActionResult } from "@/lib/import/types";
+
+/**
+ * Import a regional price index series and apply it to a property.
+ * Points on dates already in the series are replaced, so a newer export of
+ * the same series can be imported on top of an older one.
+ */
+export async function importPropertyIndexFromCSV(
+  propertyId: string,
+  region: string,
+  csvContent: string,
+): Promise<ImportActionResult> {
+  try {
+    const { supabase, ownerId, access } = await getActivePortfolio();
+    if (access === "viewer") {
+      return { success: false, error: VIEW_ONLY_MESSAGE };
+    }
+
+    const regionName = region.trim();
+    if (!regionName) {
+      return { success: false, error: "Region is required" };
+    }
+
+    const parsed = parsePropertyIndexCSV(csvContent);
+    if (!parsed.success) {
+      return {
+        success: false,
+        error: parsed.errors?.join(", ") ?? "Failed to parse index file",
+      };
+    }
+
+    const { error: upsertError } = await supabase
+      .from("property_index_values")
+      .upsert(
+        parsed.values.map(({ date, value }) => ({
+          user_id: ownerId,
+          region: regionName,
+          date,
+          value,
+        })),
+        { onConflict: "user_id,region,date" },
+      );
+
+    if (upsertError) {
+      return {
+        success: false,
+        error: `Failed to store index values: ${upsertError.message}`,
+      };
+    }
+
+    const { error: updateError } = await supabase
+      .from("properties")
+      .update({ region: regionName })
+      .eq("id", propertyId)
+      .eq("user_id", ownerId);
+
+    if (updateError) {
+      return {
+        success: false,
+        error: `Failed to apply the index to the property: ${updateError.message}`,
+      };
+    }
+
+    revalidatePath("/dashboard", "layout");
+    return { success: true, importedCount: parsed.values.length };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to import index",
+    };
+  }
+}
@@ -4,19 +4,30 @@ import { cache } from "react";
 import { headers } from "next/headers";
 
 import { getCurrentUser } from "@/server/auth/actions";
+import { fetchProfile } from "@/server/profile/actions";
+import { fetchPositions } from "@/server/positions/fetch";
+import { calculateNetWorth } from "@/server/analysis/net-worth";
+import { calculateAssetAllocation } from "@/server/analysis/asset-allocation";
+import { calculateProjectedIncome } from "@/server/analysis/projected-income";
 import { createServiceClient } from "@/supabase/service";
 
+import { fetchPublicPortfolioPositions } from "./positions";
+
 import {
   isPortfolioActive,
+  redactPublicAllocation,
+  redactPublicPositions,
   sanitizeSlug,
   toPublicPortfolioMetadata,
 } from "@/lib/public-portfolio";
 
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { Database } from "@/types/database.types";
+import type { PositionsQueryContext } from "@/server/positions/fetch";
 import type {
   PublicPortfolio,
   PublicPortfolioMetadata,
+  PublicPortfolioSettings,
   PublicPortfolioWithProfile,
 } from "@/types/global.types";
 
@@ -66,6 +77,62 @@ export async function fetchCurrentPublicPortfolio(): Promise<PublicPortfolioMeta
   return toPublicPortfolioMetadata(record, siteUrl);
 }
 
+/**
+ * What visitors would see with the given settings, computed like the
+ * public page, for the live preview while editing the link.
+ */
+export async function fetchPublicPortfolioPreview(
+  settings: PublicPortfolioSettings,
+) {
+  const { supabase, user } = await getCurrentUser();
+  const { profile } = await fetchProfile();
+
+  const currency = profile.display_currency;
+  const context: PositionsQueryContext = {
+    supabaseClient: supabase,
+    userId: user.id,
+    hiddenPositionIds: settings.hiddenPositionIds,
+    hiddenCategoryIds: settings.hiddenCategoryIds,
+  };
+  const asOfDate = new Date();
+  const showIncome = settings.showIncome && settings.showValues;
+
+  const [netWorth, assetAllocation, projectedIncome, positions] =
+    await Promise.all([
+      calculateNetWorth(currency, asOfDate, context),
+      calculateAssetAllocation(currency, asOfDate, context),
+      showIncome ? calculateProjectedIncome(currency, 12, context) : null,
+      fetchPublicPortfolioPositions(currency, context),
+    ]);
+
+  return {
+    currency,
+    netWorth: settings.showValues ? netWorth : 0,
+    assetAllocation: redactPublicAllocation(assetAllocation, settings),
+    projectedIncome,
+    positions: redactPublicPositions(positions, settings),
+  };
+}
+
+/**
+ * The current user's assets, to pick which ones to hide.
+ */
+export async function fetchShareablePositions() {
+  const { supabase, user } = await getCurrentUser();
+
+  const positions = await fetchPositions(
+    { positionType: "asset" },
+    { supabaseClient: supabase, userId: user.id },
+  );
+
+  return positions.map(({ id, name, category_id, category_name }) => ({
+    id,
+    name,
+    category_id,
+    category_name: category_name ?? category_id,
+  }));
+}
+
 export const fetchPublicPortfolioBySlug = cache(
   async (slug: string): Promise<PublicPortfolioWithProfile | null> => {
     const sanitized = sanitizeSlug(slug);
@@ -96,3 +163,21 @@ export const fetchPublicPortfolioBySlug = cache(
     };
   },
 );
+
+/**
+ * Public portfolio for widgets and link previews, with the reason it can't
+ * be shown. Protected links never show data there, as iframes and crawlers
+ * don't get the access cookie.
+ */
+export async function fetchEmbeddablePortfolio(slug: string) {
+  const resolved = await fetchPublicPortfolioBySlug(slug);
+  if (!resolved) return null;
+
+  const unavailable = !resolved.isActive
+    ? "This shared portfolio link has expired."
+    : resolved.publicPortfolio.password_hash
+      ? "This portfolio is password protected."
+      : null;
+
+  return { ...resolved, unavailable };
+}
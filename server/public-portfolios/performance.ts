@@ -0,0 +1,39 @@
+import { fetchBenchmarkComparison } from "@/server/analysis/benchmark";
+
+import { getPerformanceStartDate } from "@/lib/public-portfolio";
+
+import type { PositionsQueryContext } from "@/server/positions/fetch";
+import type { PerformanceRange } from "@/lib/public-portfolio";
+
+export interface PublicPerformance {
+  /** YYYY-MM-DD, from the first day with capital invested. */
+  dates: string[];
+  /** Cumulative time-weighted return as a fraction, per date. */
+  returns: number[];
+  totalReturn: number | null;
+}
+
+/**
+ * Cash-flow adjusted asset performance of a public portfolio. Only
+ * returns leave the server, so it's safe when values are hidden.
+ */
+export async function fetchPublicPerformance(
+  targetCurrency: string,
+  range: PerformanceRange,
+  context: PositionsQueryContext,
+): Promise<PublicPerformance> {
+  const comparison = await fetchBenchmarkComparison({
+    symbols: [],
+    targetCurrency,
+    startDate: getPerformanceStartDate(range),
+    context,
+  });
+
+  return {
+    dates: comparison.dates,
+    returns: comparison.portfolio.map(
+      (value) => value / comparison.startValue - 1,
+    ),
+    totalReturn: comparison.portfolioReturn,
+  };
+}
@@ -0,0 +1,68 @@
+import { fetchPositions } from "@/server/positions/fetch";
+import { fetchExchangeRates } from "@/server/exchange-rates/fetch";
+import { createServiceClient } from "@/supabase/service";
+
+import { convertCurrency } from "@/lib/currency-conversion";
+import { calculateProfitLoss } from "@/lib/profit-loss";
+
+import type { PositionsQueryContext } from "@/server/positions/fetch";
+import type {
+  PublicPortfolioPosition,
+  PublicPortfolioSettings,
+} from "@/types/global.types";
+
+/**
+ * Query context for the owner's data as visitors see it: read with the
+ * service role, without hidden positions and categories.
+ */
+export function toPublicQueryContext(
+  userId: string,
+  settings: PublicPortfolioSettings,
+): PositionsQueryContext {
+  return {
+    supabaseClient: createServiceClient(),
+    userId,
+    hiddenPositionIds: settings.hiddenPositionIds,
+    hiddenCategoryIds: settings.hiddenCategoryIds,
+  };
+}
+
+/**
+ * Current assets with profit/loss and their value in the target currency,
+ * as listed on a public portfolio. Hidden items are left out through the
+ * query context.
+ */
+export async function fetchPublicPortfolioPositions(
+  targetCurrency: string,
+  context: PositionsQueryContext,
+): Promise<PublicPortfolioPosition[]> {
+  const asOfDate = new Date();
+
+  const { positions, snapshots } = await fetchPositions(
+    {
+      positionType: "asset",
+      asOfDate,
+      includeSnapshots: true,
+    },
+    context,
+  );
+
+  if (!positions.length) return [];
+
+  const exchangeRates = await fetchExchangeRates(
+    Array.from(
+      new Set([targetCurrency, ...positions.map(({ currency }) => currency)]),
+    ).map((currency) => ({ currency, date: asOfDate })),
+  );
+
+  return calculateProfitLoss(positions, snapshots).map((position) => ({
+    ...position,
+    value: convertCurrency(
+      position.total_value,
+      position.currency,
+      targetCurrency,
+      exchangeRates,
+      asOfDate,
+    ),
+  }));
+}
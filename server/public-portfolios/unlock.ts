@@ -0,0 +1,46 @@
+"use server";
+
+import { cookies } from "next/headers";
+
+import {
+  ACCESS_COOKIE_PREFIX,
+  deriveAccessToken,
+  verifyPassword,
+} from "@/lib/public-portfolio";
+
+import { fetchPublicPortfolioBySlug } from "./fetch";
+
+/**
+ * Check the password of a protected public portfolio and remember the
+ * visitor with an access cookie.
+ */
+export async function unlockPublicPortfolio(slug: string, password: string) {
+  const resolved = await fetchPublicPortfolioBySlug(slug);
+  const passwordHash = resolved?.publicPortfolio.password_hash;
+
+  if (!resolved?.isActive || !passwordHash) {
+    return {
+      success: false as const,
+      error: "This portfolio is no longer available.",
+    };
+  }
+
+  if (!verifyPassword(password, passwordHash)) {
+    return { success: false as const, error: "Incorrect password." };
+  }
+
+  const cookieStore = await cookies();
+  cookieStore.set(
+    `${ACCESS_COOKIE_PREFIX}${resolved.publicPortfolio.id}`,
+    deriveAccessToken(passwordHash),
+    {
+      path: "/portfolio",
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      maxAge: 60 * 60 * 24 * 30,
+    },
+  );
+
+  return { success: true as const };
+}
@@ -6,19 +6,32 @@ import { getCurrentUser } from "@/server/auth/actions";
 
 import {
   PUBLIC_PORTFOLIO_EXPIRATIONS,
+  MAX_PASSWORD_LENGTH,
+  MIN_PASSWORD_LENGTH,
   computeExpiration,
+  hashPassword,
   sanitizeSlug,
   toPublicPortfolioMetadata,
   UNIQUE_VIOLATION_CODE,
 } from "@/lib/public-portfolio";
 
-import type { PublicPortfolioExpirationOption } from "@/types/global.types";
+import type {
+  PublicPortfolioExpirationOption,
+  PublicPortfolioSettings,
+} from "@/types/global.types";
 
 import { fetchPublicPortfolio, resolveSiteUrl } from "./fetch";
 
+/**
+ * Update the slug, lifetime and visibility settings of the public link.
+ * `password` sets a new password, null removes it and undefined keeps
+ * the current one.
+ */
 export async function updatePublicPortfolioSettings(
   newSlug: string,
   expirationOption: PublicPortfolioExpirationOption,
+  settings: PublicPortfolioSettings,
+  password?: string | null,
 ) {
   const { supabase, user } = await getCurrentUser();
 
@@ -43,6 +56,17 @@ export async function updatePublicPortfolioSettings(
     };
   }
 
+  if (
+    typeof password === "string" &&
+    (password.length < MIN_PASSWORD_LENGTH ||
+      password.length > MAX_PASSWORD_LENGTH)
+  ) {
+    return {
+      success: false as const,
+      error: `Password must be between ${MIN_PASSWORD_LENGTH} and ${MAX_PASSWORD_LENGTH} characters.`,
+    };
+  }
+
   const existing = await fetchPublicPortfolio(supabase, user.id);
   if (!existing) {
     return {
@@ -51,11 +75,46 @@ export async function updatePublicPortfolioSettings(
     };
   }
 
+  // Only keep hidden items that still exist in the portfolio
+  const [positionsResult, categoriesResult] = await Promise.all([
+    settings.hiddenPositionIds.length
+      ? supabase
+          .from("positions")
+          .select("id")
+          .eq("user_id", user.id)
+          .in("id", settings.hiddenPositionIds)
+      : Promise.resolve({ data: [], error: null }),
+    settings.hiddenCategoryIds.length
+      ? supabase
+          .from("position_categories")
+          .select("id")
+          .in("id", settings.hiddenCategoryIds)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  if (positionsResult.error || categoriesResult.error) {
+    return {
+      success: false as const,
+      error:
+        positionsResult.error?.message ??
+        categoriesResult.error?.message ??
+        "Failed to validate hidden items.",
+    };
+  }
+
   const { data, error } = await supabase
     .from("public_portfolios")
     .update({
       slug: sanitized,
       expires_at: computeExpiration(expirationOption),
+      show_values: settings.showValues,
+      show_profit_loss: settings.showProfitLoss,
+      show_income: settings.showIncome,
+      hidden_position_ids: (positionsResult.data ?? []).map(({ id }) => id),
+      hidden_category_ids: (categoriesResult.data ?? []).map(({ id }) => id),
+      ...(password !== undefined && {
+        password_hash: password === null ? null : hashPassword(password),
+      }),
     })
     .eq("user_id", user.id)
     .select("*")
@@ -0,0 +1,48 @@
+import { subDays, format } from "date-fns";
+
+import { getCurrentUser } from "@/server/auth/actions";
+import { createServiceClient } from "@/supabase/service";
+
+import type { PublicPortfolioViews } from "@/types/global.types";
+
+/**
+ * Count a visit to a public portfolio. Failures are logged and ignored so
+ * they never break the page.
+ */
+export async function recordPublicPortfolioView(publicPortfolioId: string) {
+  const supabase = createServiceClient();
+
+  const { error } = await supabase.rpc("record_public_portfolio_view", {
+    portfolio_id: publicPortfolioId,
+  });
+
+  if (error) {
+    console.error("Failed to record public portfolio view:", error.message);
+  }
+}
+
+/**
+ * View counts of a public portfolio (readable by its owner only).
+ */
+export async function fetchPublicPortfolioViews(
+  publicPortfolioId: string,
+): Promise<PublicPortfolioViews> {
+  const { supabase } = await getCurrentUser();
+
+  const { data, error } = await supabase
+    .from("public_portfolio_views")
+    .select("date, views")
+    .eq("public_portfolio_id", publicPortfolioId);
+
+  if (error) throw new Error(error.message);
+
+  const since = format(subDays(new Date(), 29), "yyyy-MM-dd");
+
+  return (data ?? []).reduce(
+    (totals, { date, views }) => ({
+      total: totals.total + views,
+      last30Days: totals.last30Days + (date >= since ? views : 0),
+    }),
+    { total: 0, last30Days: 0 },
+  );
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+import { fetchQuotes } from "./fetch";
+import { createCsvQuoteProvider, setQuoteProviders } from "./providers";
+
+import type { QuoteProvider } from "./providers";
+
+// Empty quote cache
+vi.mock("@/supabase/service", () => {
+  const query = {
+    select: () => query,
+    in: () => query,
+    upsert: async () => ({ error: null }),
+    then: (resolve: (value: unknown) => void) =>
+      resolve({ data: [], error: null }),
+  };
+  return { createServiceClient: () => ({ from: () => query }) };
+});
+
+vi.mock("@/server/symbols/resolver", () => ({
+  resolveSymbolsBatch: vi.fn(async (inputs: string[]) => ({
+    byInput: new Map(
+      inputs.map((input) => [
+        input,
+        {
+          canonicalId: "aapl-id",
+          providerAlias: "AAPL",
+          displayTicker: "AAPL",
+        },
+      ]),
+    ),
+    byCanonicalId: new Map([
+      ["aapl-id", { providerAlias: "AAPL", displayTicker: "AAPL" }],
+    ]),
+  })),
+}));
+
+const priceFileProvider = createCsvQuoteProvider(
+  async () => `symbol,date,close
+AAPL,2024-01-04,180
+AAPL,2024-01-05,181
+AAPL,2024-01-08,185`,
+);
+
+const requests = ["2024-01-05", "2024-01-06", "2024-01-08"].map((date) => ({
+  symbolLookup: "AAPL",
+  date: new Date(`${date}T00:00:00Z`),
+}));
+
+describe("fetchQuotes", () => {
+  afterEach(() => {
+    setQuoteProviders(null);
+    vi.unstubAllEnvs();
+  });
+
+  it("falls back to the next provider when one fails", async () => {
+    const failing: QuoteProvider = {
+      id: "failing",
+      aliasSource: "failing",
+      priority: 1,
+      fetchHistory: vi.fn(async () => {
+        throw new Error("offline");
+      }),
+    };
+    setQuoteProviders([priceFileProvider, failing]);
+
+    const quotes = await fetchQuotes(requests, false);
+
+    expect(failing.fetchHistory).toHaveBeenCalledOnce();
+    expect(quotes.get("aapl-id|2024-01-05")).toBe(181);
+    // Weekend reuses the previous close
+    expect(quotes.get("aapl-id|2024-01-06")).toBe(181);
+    expect(quotes.get("AAPL|2024-01-08")).toBe(185);
+  });
+
+  it("only asks later providers for days still unpriced", async () => {
+    const partial: QuoteProvider = {
+      id: "partial",
+      aliasSource: "partial",
+      priority: 1,
+      fetchHistory: async () => ({
+        entries: [{ dateKey: "2024-01-08", price: 200 }],
+      }),
+    };
+    setQuoteProviders([partial, priceFileProvider]);
+
+    const quotes = await fetchQuotes(requests, false);
+
+    expect(quotes.get("aapl-id|2024-01-05")).toBe(181);
+    expect(quotes.get("aapl-id|2024-01-06")).toBe(181);
+    expect(quotes.get("aapl-id|2024-01-08")).toBe(200);
+  });
+
+  it("only uses local price files in offline mode", async () => {
+    vi.stubEnv("OFFLINE_MODE", "true");
+    const online: QuoteProvider = {
+      id: "online",
+      aliasSource: "online",
+      priority: 1,
+      requiresNetwork: true,
+      fetchHistory: vi.fn(async () => ({ entries: [] })),
+    };
+    // A folder of price files: later files win on the same day
+    const priceFolder = createCsvQuoteProvider(async () => [
+      "symbol,date,close\nAAPL,2024-01-05,181\nAAPL,2024-01-08,185",
+      "symbol,date,close\nAAPL,2024-01-08,186",
+    ]);
+    setQuoteProviders([online, priceFolder]);
+
+    const quotes = await fetchQuotes(requests, false);
+
+    expect(online.fetchHistory).not.toHaveBeenCalled();
+    expect(quotes.get("aapl-id|2024-01-06")).toBe(181);
+    expect(quotes.get("aapl-id|2024-01-08")).toBe(186);
+  });
+});
@@ -2,17 +2,13 @@
 
 import { addDays, compareAsc, parseISO, subDays } from "date-fns";
 
-import { yahooFinance } from "@/server/yahoo-finance/client";
 import { createServiceClient } from "@/supabase/service";
 import {
   resolveSymbolInput,
   resolveSymbolsBatch,
 } from "@/server/symbols/resolver";
-import {
-  chunkArray,
-  formatUtcDateKey,
-  normalizeChartQuoteEntries,
-} from "./utils";
+import { getQuoteProviders } from "./providers";
+import { chunkArray, formatUtcDateKey } from "./utils";
 
 /**
  * Fetch multiple quotes for different symbols and dates in bulk.
@@ -32,9 +28,7 @@ export async function fetchQuotes(
 
   // 1) Batch resolve all unique symbol identifiers
   const uniqueLookups = [...new Set(requests.map((r) => r.symbolLookup))];
-  const { byInput, byCanonicalId } = await resolveSymbolsBatch(uniqueLookups, {
-    provider: "yahoo",
-    providerType: "ticker",
+  const { byInput } = await resolveSymbolsBatch(uniqueLookups, {
     onError: "throw",
   });
 
@@ -117,14 +111,15 @@ export async function fetchQuotes(
       !results.has(`${canonicalId}|${dateString}`),
   );
 
-  // 2. Fetch missing quotes from Yahoo Finance grouped by symbol
+  // 2. Fetch missing quotes from the quote providers, in priority order.
+  // Each provider only receives the symbols and days still unpriced.
   if (missingRequests.length > 0) {
-    // Group requested calendar days per symbol so we can batch chart calls
-    const requestsBySymbol = new Map<string, Set<string>>();
+    // Group requested calendar days per symbol so we can batch history calls
+    const pendingBySymbol = new Map<string, Set<string>>();
     for (const { canonicalId, dateString } of missingRequests) {
-      const set = requestsBySymbol.get(canonicalId) ?? new Set();
+      const set = pendingBySymbol.get(canonicalId) ?? new Set();
       set.add(dateString);
-      requestsBySymbol.set(canonicalId, set);
+      pendingBySymbol.set(canonicalId, set);
     }
 
     const successfulFetches: Array<{
@@ -134,102 +129,124 @@ export async function fetchQuotes(
       cacheKey: string;
     }> = [];
 
-    for (const [symbolId, dateStringsSet] of requestsBySymbol.entries()) {
-      const dateStringsSorted = Array.from(dateStringsSet).sort((a, b) =>
-        compareAsc(parseISO(a), parseISO(b)),
+    for (const provider of getQuoteProviders()) {
+      if (pendingBySymbol.size === 0) break;
+
+      // Tickers this provider knows the pending symbols by
+      const { byCanonicalId } = await resolveSymbolsBatch(
+        [...pendingBySymbol.keys()],
+        {
+          provider: provider.aliasSource,
+          providerType: "ticker",
+          onError: "skip",
+        },
       );
 
-      if (!dateStringsSorted.length) continue;
-
-      const earliest = parseISO(dateStringsSorted[0]);
-      const latest = parseISO(dateStringsSorted[dateStringsSorted.length - 1]);
+      for (const [symbolId, dateStringsSet] of pendingBySymbol.entries()) {
+        const dateStringsSorted = Array.from(dateStringsSet).sort((a, b) =>
+          compareAsc(parseISO(a), parseISO(b)),
+        );
 
-      // Include a small buffer before the earliest request so we can
-      // reuse the prior trading day's quote if the first calendar day
-      // falls on a weekend or holiday. Yahoo's chart API treats period2
-      // as exclusive, so we add one day after the latest request.
-      const bufferedStart = subDays(earliest, 7);
-      const periodEndExclusive = addDays(latest, 1);
+        if (!dateStringsSorted.length) continue;
 
-      let chartData;
-      const resolution = byCanonicalId.get(symbolId);
-      const ticker = resolution?.providerAlias;
-      if (!ticker) {
-        console.warn(
-          `Skipping quote fetch for symbol ${symbolId}: missing Yahoo ticker alias.`,
+        const earliest = parseISO(dateStringsSorted[0]);
+        const latest = parseISO(
+          dateStringsSorted[dateStringsSorted.length - 1],
         );
-        continue;
-      }
 
-      try {
-        chartData = await yahooFinance.chart(ticker, {
-          period1: bufferedStart,
-          period2: periodEndExclusive,
-          interval: "1d",
-        });
-      } catch (error) {
-        console.warn(
-          `Failed to fetch chart for ${symbolId} (${ticker}):`,
-          error,
-        );
-        chartData = null;
-      }
+        // Include a small buffer before the earliest request so we can
+        // reuse the prior trading day's quote if the first calendar day
+        // falls on a weekend or holiday. The range end is exclusive, so we
+        // add one day after the latest request.
+        const bufferedStart = subDays(earliest, 7);
+        const periodEndExclusive = addDays(latest, 1);
+
+        const ticker = byCanonicalId.get(symbolId)?.providerAlias;
+        if (!ticker) {
+          console.warn(
+            `Skipping ${provider.id} quotes for symbol ${symbolId}: missing ticker alias.`,
+          );
+          continue;
+        }
 
-      // Normalize chart quotes into sortable { dateKey, price } tuples
-      const quoteEntries = normalizeChartQuoteEntries(chartData);
-
-      let pointer = 0;
-      let lastPrice: number | null = null;
-      const requestedSet = new Set(dateStringsSorted);
-
-      // Walk chronologically and reuse the latest available trade price
-      for (const dateString of dateStringsSorted) {
-        while (pointer < quoteEntries.length) {
-          const entry = quoteEntries[pointer];
-          if (entry.dateKey <= dateString) {
-            lastPrice = entry.price;
-            pointer += 1;
-          } else {
-            break;
-          }
+        let history;
+        try {
+          history = await provider.fetchHistory(ticker, {
+            start: bufferedStart,
+            end: periodEndExclusive,
+          });
+        } catch (error) {
+          console.warn(
+            `Failed to fetch ${provider.id} quotes for ${symbolId} (${ticker}):`,
+            error,
+          );
+          continue;
         }
 
-        if (lastPrice == null) continue;
+        const quoteEntries = history.entries;
+        const pricedDates: string[] = [];
+
+        // Local files can get newer prices later, so days carried forward
+        // past their last price aren't cached
+        const cacheUntil = provider.requiresNetwork
+          ? null
+          : (quoteEntries.at(-1)?.dateKey ?? "");
+        const isCacheable = (dateString: string) =>
+          cacheUntil === null || dateString <= cacheUntil;
+
+        let pointer = 0;
+        let lastPrice: number | null = null;
+
+        // Walk chronologically and reuse the latest available trade price
+        for (const dateString of dateStringsSorted) {
+          while (pointer < quoteEntries.length) {
+            const entry = quoteEntries[pointer];
+            if (entry.dateKey <= dateString) {
+              lastPrice = entry.price;
+              pointer += 1;
+            } else {
+              break;
+            }
+          }
 
-        const cacheKey = `${symbolId}|${dateString}`;
-        results.set(cacheKey, lastPrice);
-        successfulFetches.push({
-          symbolId,
-          dateString,
-          price: lastPrice,
-          cacheKey,
-        });
-      }
+          if (lastPrice == null) continue;
+          pricedDates.push(dateString);
+
+          const cacheKey = `${symbolId}|${dateString}`;
+          results.set(cacheKey, lastPrice);
+          if (isCacheable(dateString)) {
+            successfulFetches.push({
+              symbolId,
+              dateString,
+              price: lastPrice,
+              cacheKey,
+            });
+          }
+        }
 
-      // Final safety net: fallback to realtime quote when chart feed is empty
-      if (!successfulFetches.some((entry) => entry.symbolId === symbolId)) {
-        const fallbackPrice = chartData?.meta?.regularMarketPrice;
-        const fallbackTime = chartData?.meta?.regularMarketTime;
-
-        if (
-          fallbackPrice &&
-          fallbackPrice > 0 &&
-          fallbackTime instanceof Date
-        ) {
-          const marketDateKey = formatUtcDateKey(fallbackTime);
-          const fallbackDateKey = requestedSet.has(marketDateKey)
-            ? marketDateKey
+        // Final safety net: fallback to the latest price when history is empty
+        if (!pricedDates.length && history.latest) {
+          const fallbackDateKey = dateStringsSet.has(history.latest.dateKey)
+            ? history.latest.dateKey
             : dateStringsSorted.at(-1)!;
 
+          pricedDates.push(fallbackDateKey);
+
           const cacheKey = `${symbolId}|${fallbackDateKey}`;
-          results.set(cacheKey, fallbackPrice);
-          successfulFetches.push({
-            symbolId,
-            dateString: fallbackDateKey,
-            price: fallbackPrice,
-            cacheKey,
-          });
+          results.set(cacheKey, history.latest.price);
+          if (isCacheable(fallbackDateKey)) {
+            successfulFetches.push({
+              symbolId,
+              dateString: fallbackDateKey,
+              price: history.latest.price,
+              cacheKey,
+            });
+          }
         }
+
+        // Leave only unpriced days for the next provider
+        pricedDates.forEach((dateString) => dateStringsSet.delete(dateString));
+        if (dateStringsSet.size === 0) pendingBySymbol.delete(symbolId);
       }
     }
 
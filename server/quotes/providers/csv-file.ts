@@ -0,0 +1,154 @@
+import { formatUtcDateKey } from "../utils";
+
+import { readLocalDataFiles } from "@/server/offline/files";
+
+import { parseCSVRows } from "@/lib/import/parser/csv-reader";
+import { parseDateStrict } from "@/lib/import/parser/date-parser";
+import { parseNumberStrict } from "@/lib/import/parser/number-parser";
+
+import type { ChartQuoteEntry } from "../utils";
+import type { QuoteProvider } from "./types";
+
+const SYMBOL_HEADER = /^(symbol|ticker)$/i;
+const DATE_HEADER = /^date$/i;
+const PRICE_HEADER = /^(price|close|adj ?close|value)$/i;
+
+/**
+ * Parse a price file with symbol, date and price columns (any order, header
+ * required) into price histories keyed by upper-cased symbol.
+ * Rows that cannot be read are skipped.
+ */
+export function parsePriceFile(content: string) {
+  const histories = new Map<string, ChartQuoteEntry[]>();
+  const [headers = [], ...rows] = parseCSVRows(content);
+
+  const symbolColumn = headers.findIndex((h) => SYMBOL_HEADER.test(h));
+  const dateColumn = headers.findIndex((h) => DATE_HEADER.test(h));
+  const priceColumn = headers.findIndex((h) => PRICE_HEADER.test(h));
+  if (symbolColumn < 0 || dateColumn < 0 || priceColumn < 0) return histories;
+
+  rows.forEach((cells) => {
+    const symbol = cells[symbolColumn]?.trim().toUpperCase();
+    const dateKey = parseDateStrict(cells[dateColumn] ?? "");
+    const price = parseNumberStrict(cells[priceColumn] ?? "");
+    if (!symbol || !dateKey || !Number.isFinite(price) || price <= 0) return;
+
+    const entries = histories.get(symbol) ?? [];
+    entries.push({ dateKey, price });
+    histories.set(symbol, entries);
+  });
+
+  histories.forEach((entries) =>
+    entries.sort((a, b) => a.dateKey.localeCompare(b.dateKey)),
+  );
+
+  return histories;
+}
+
+/**
+ * Merge the price histories of several files. A later file wins when two
+ * give a price for the same symbol and day.
+ */
+function parsePriceFiles(contents: string[]) {
+  if (contents.length === 1) return parsePriceFile(contents[0]);
+
+  const pricesBySymbol = new Map<string, Map<string, number>>();
+  contents.forEach((content) =>
+    parsePriceFile(content).forEach((entries, symbol) => {
+      const prices = pricesBySymbol.get(symbol) ?? new Map<string, number>();
+      entries.forEach(({ dateKey, price }) => prices.set(dateKey, price));
+      pricesBySymbol.set(symbol, prices);
+    }),
+  );
+
+  const histories = new Map<string, ChartQuoteEntry[]>();
+  pricesBySymbol.forEach((prices, symbol) =>
+    histories.set(
+      symbol,
+      Array.from(prices, ([dateKey, price]) => ({ dateKey, price })).sort(
+        (a, b) => a.dateKey.localeCompare(b.dateKey),
+      ),
+    ),
+  );
+
+  return histories;
+}
+
+/**
+ * Price histories from one or more price files, re-parsed only when their
+ * content changes.
+ *
+ * @param read - Returns the file contents, or null when there are none
+ */
+function createPriceFileReader(read: () => Promise<string | string[] | null>) {
+  let cachedContent: string | null = null;
+  let cachedHistories = new Map<string, ChartQuoteEntry[]>();
+
+  return async () => {
+    const content = await read();
+    if (content === null) return null;
+
+    const contents = typeof content === "string" ? [content] : content;
+    const key = contents.join("\0");
+    if (key !== cachedContent) {
+      cachedHistories = parsePriceFiles(contents);
+      cachedContent = key;
+    }
+
+    return cachedHistories;
+  };
+}
+
+function createHistoryQuoteProvider(
+  readHistories: () => Promise<Map<string, ChartQuoteEntry[]> | null>,
+  options: { id?: string; priority?: number },
+): QuoteProvider {
+  return {
+    id: options.id ?? "csv",
+    aliasSource: "csv",
+    priority: options.priority ?? 20,
+    requiresNetwork: false,
+
+    async fetchHistory(alias, { start, end }) {
+      const histories = await readHistories();
+      if (!histories) return { entries: [] };
+
+      const startKey = formatUtcDateKey(start);
+      const endKey = formatUtcDateKey(end);
+      const history = histories.get(alias.toUpperCase()) ?? [];
+      const beforeEnd = history.filter((entry) => entry.dateKey < endKey);
+      const last = beforeEnd.at(-1);
+
+      return {
+        entries: beforeEnd.filter((entry) => entry.dateKey >= startKey),
+        latest: last ? { dateKey: last.dateKey, price: last.price } : null,
+      };
+    },
+  };
+}
+
+/**
+ * Provider answering from local price files, for offline use or instruments
+ * no online source covers. Prices are matched by ticker.
+ *
+ * @param read - Returns the file contents, or null when there are none
+ */
+export function createCsvQuoteProvider(
+  read: () => Promise<string | string[] | null>,
+  options: { id?: string; priority?: number } = {},
+) {
+  return createHistoryQuoteProvider(createPriceFileReader(read), options);
+}
+
+/**
+ * Price histories of QUOTES_CSV_PATH, a price file or a folder of them,
+ * keyed by upper-cased symbol. Null when it's unset.
+ */
+export const readConfiguredPriceHistories = createPriceFileReader(() =>
+  readLocalDataFiles(process.env.QUOTES_CSV_PATH, [".csv", ".tsv", ".txt"]),
+);
+
+export const csvFileQuoteProvider = createHistoryQuoteProvider(
+  readConfiguredPriceHistories,
+  {},
+);
@@ -0,0 +1,56 @@
+import { yahooQuoteProvider } from "./yahoo";
+import { csvFileQuoteProvider } from "./csv-file";
+
+import { isOfflineMode } from "@/server/offline/mode";
+
+import type { QuoteProvider } from "./types";
+
+// Registry of quote providers
+const QUOTE_PROVIDERS: QuoteProvider[] = [
+  yahooQuoteProvider,
+  csvFileQuoteProvider,
+];
+
+// Replaces the registry when set (tests, local fixtures)
+let overrideProviders: QuoteProvider[] | null = null;
+
+export function setQuoteProviders(providers: QuoteProvider[] | null) {
+  overrideProviders = providers;
+}
+
+/**
+ * Providers in the order they are tried. QUOTE_PROVIDERS (e.g. "csv,yahoo")
+ * picks and orders providers by id; otherwise all run by priority.
+ * Offline mode leaves out providers that need the network.
+ */
+export function getQuoteProviders() {
+  return selectQuoteProviders().filter(
+    (provider) => !(provider.requiresNetwork && isOfflineMode()),
+  );
+}
+
+function selectQuoteProviders() {
+  if (overrideProviders) {
+    return [...overrideProviders].sort((a, b) => a.priority - b.priority);
+  }
+
+  const configured = process.env.QUOTE_PROVIDERS?.split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  if (configured?.length) {
+    return configured.flatMap((id) => {
+      const provider = QUOTE_PROVIDERS.find((p) => p.id === id);
+      return provider ? [provider] : [];
+    });
+  }
+
+  return [...QUOTE_PROVIDERS].sort((a, b) => a.priority - b.priority);
+}
+
+export type { QuoteHistory, QuoteProvider } from "./types";
+export {
+  createCsvQuoteProvider,
+  parsePriceFile,
+  readConfiguredPriceHistories,
+} from "./csv-file";
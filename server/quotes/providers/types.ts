@@ -0,0 +1,40 @@
+import type { ChartQuoteEntry } from "../utils";
+
+/**
+ * Daily price history of one instrument over a date range.
+ */
+export interface QuoteHistory {
+  /** Closing prices sorted by date (yyyy-MM-dd, UTC) */
+  entries: ChartQuoteEntry[];
+  /** Latest known price, used when the range has no closes (e.g. new listings) */
+  latest?: { dateKey: string; price: number } | null;
+}
+
+/**
+ * Source of market prices for symbols. Providers are tried in priority order
+ * and each one only receives the symbols and dates the previous ones could
+ * not price.
+ */
+export interface QuoteProvider {
+  /** Provider name used in logs and in QUOTE_PROVIDERS */
+  id: string;
+
+  /** `symbol_aliases.source` whose tickers this provider understands */
+  aliasSource: string;
+
+  /** Lower runs first */
+  priority: number;
+
+  /** Skipped in offline mode */
+  requiresNetwork?: boolean;
+
+  /**
+   * Daily prices of an instrument between start (inclusive) and end (exclusive).
+   *
+   * @param alias - The instrument's ticker for this provider
+   */
+  fetchHistory(
+    alias: string,
+    range: { start: Date; end: Date },
+  ): Promise<QuoteHistory>;
+}
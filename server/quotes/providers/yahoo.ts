@@ -0,0 +1,32 @@
+import { yahooFinance } from "@/server/yahoo-finance/client";
+
+import { formatUtcDateKey, normalizeChartQuoteEntries } from "../utils";
+
+import type { QuoteProvider } from "./types";
+
+export const yahooQuoteProvider: QuoteProvider = {
+  id: "yahoo",
+  aliasSource: "yahoo",
+  priority: 10,
+  requiresNetwork: true,
+
+  async fetchHistory(alias, { start, end }) {
+    // Yahoo's chart API treats period2 as exclusive
+    const chartData = await yahooFinance.chart(alias, {
+      period1: start,
+      period2: end,
+      interval: "1d",
+    });
+
+    const latestPrice = chartData?.meta?.regularMarketPrice;
+    const latestTime = chartData?.meta?.regularMarketTime;
+
+    return {
+      entries: normalizeChartQuoteEntries(chartData),
+      latest:
+        latestPrice && latestPrice > 0 && latestTime instanceof Date
+          ? { dateKey: formatUtcDateKey(latestTime), price: latestPrice }
+          : null,
+    };
+  },
+};
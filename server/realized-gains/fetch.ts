@@ -0,0 +1,92 @@
+"use server";
+
+import { cache } from "react";
+
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { loadLotInputs } from "@/server/realized-gains/lots";
+
+import { matchLots } from "@/lib/lot-matching";
+
+interface FetchRealizedGainsOptions {
+  positionId?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+/**
+ * Fetch realized gains of sell records with optional filtering.
+ * Amounts are in the position currency.
+ */
+export const fetchRealizedGains = cache(
+  async (options: FetchRealizedGainsOptions = {}) => {
+    const { positionId, startDate, endDate } = options;
+
+    const { supabase, ownerId } = await getActivePortfolio();
+
+    const query = supabase
+      .from("realized_gains")
+      .select(
+        `
+      *,
+      positions!inner (
+        id,
+        name,
+        currency
+      )
+    `,
+      )
+      .eq("user_id", ownerId);
+
+    if (positionId) query.eq("position_id", positionId);
+    if (startDate) query.gte("date", startDate.toISOString().slice(0, 10));
+    if (endDate) query.lte("date", endDate.toISOString().slice(0, 10));
+
+    const { data, error } = await query.order("date", { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch realized gains: ${error.message}`);
+    }
+
+    return data ?? [];
+  },
+);
+
+/**
+ * Fetch the lots of a position that are still open on the given date,
+ * matched with the user's cost basis method. Used to pick specific lots.
+ *
+ * @param positionId - The position to inspect
+ * @param date - YYYY-MM-DD; records after this date are ignored
+ * @param excludePortfolioRecordId - Sell record being edited (ignored when matching)
+ */
+export async function fetchOpenLots(
+  positionId: string,
+  date: string,
+  excludePortfolioRecordId?: string,
+) {
+  const { supabase, ownerId } = await getActivePortfolio();
+
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select("cost_basis_method")
+    .eq("user_id", ownerId)
+    .single();
+
+  if (error || !profile) {
+    throw new Error(error?.message || "Profile not found");
+  }
+
+  const { events, selectionsBySellId } = await loadLotInputs(
+    supabase,
+    positionId,
+    { excludePortfolioRecordId },
+  );
+
+  const { openLots } = matchLots(
+    events.filter((event) => event.date <= date),
+    profile.cost_basis_method,
+    selectionsBySellId,
+  );
+
+  return openLots;
+}
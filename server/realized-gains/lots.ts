@@ -0,0 +1,259 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { createServiceClient } from "@/supabase/service";
+
+import {
+  matchLots,
+  type LotEvent,
+  type LotSelectionInput,
+} from "@/lib/lot-matching";
+
+import type { Database } from "@/types/database.types";
+import { TRADE_RECORD_TYPES } from "@/types/enums";
+
+interface LoadLotInputsOptions {
+  excludePortfolioRecordId?: string;
+}
+
+/**
+ * Load the chronological lot events and specific lot selections of a position.
+ * The opening balance is the earliest snapshot not tied to a record;
+ * update records carry the cost basis stored on their snapshot.
+ */
+export async function loadLotInputs(
+  supabase: SupabaseClient<Database>,
+  positionId: string,
+  options: LoadLotInputsOptions = {},
+) {
+  const { excludePortfolioRecordId } = options;
+
+  const [recordsResult, openingResult] = await Promise.all([
+    supabase
+      .from("portfolio_records")
+      .select("*, position_snapshots (cost_basis_per_unit)")
+      .eq("position_id", positionId)
+      .order("date", { ascending: true })
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("position_snapshots")
+      .select("date, quantity, unit_value, cost_basis_per_unit")
+      .eq("position_id", positionId)
+      .is("portfolio_record_id", null)
+      .is("loan_id", null)
+      .order("date", { ascending: true })
+      .order("created_at", { ascending: true })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  if (recordsResult.error) {
+    throw new Error(
+      `Failed to fetch portfolio records: ${recordsResult.error.message}`,
+    );
+  }
+  if (openingResult.error) {
+    throw new Error(
+      `Failed to fetch opening snapshot: ${openingResult.error.message}`,
+    );
+  }
+
+  // Cash ledger records never open or close lots
+  const records = (recordsResult.data ?? []).filter(
+    (record) =>
+      record.id !== excludePortfolioRecordId &&
+      (TRADE_RECORD_TYPES as readonly string[]).includes(record.type),
+  );
+
+  const events: LotEvent[] = records.map((record) => {
+    const snapshot = Array.isArray(record.position_snapshots)
+      ? record.position_snapshots[0]
+      : record.position_snapshots;
+
+    return {
+      id: record.id,
+      type: record.type as (typeof TRADE_RECORD_TYPES)[number],
+      date: record.date,
+      quantity: Number(record.quantity),
+      unitValue: Number(record.unit_value),
+      costBasisPerUnit:
+        record.type === "update"
+          ? (snapshot?.cost_basis_per_unit ?? null)
+          : null,
+    };
+  });
+
+  // Opening balance goes first unless a record predates it
+  const opening = openingResult.data;
+  if (opening && (!events.length || opening.date <= events[0].date)) {
+    events.unshift({
+      id: null,
+      type: "opening",
+      date: opening.date,
+      quantity: Number(opening.quantity),
+      unitValue: Number(opening.unit_value),
+      costBasisPerUnit: opening.cost_basis_per_unit,
+    });
+  }
+
+  const sellIds = records
+    .filter((record) => record.type === "sell")
+    .map((record) => record.id);
+
+  const selectionsBySellId = new Map<string, LotSelectionInput[]>();
+
+  if (sellIds.length) {
+    const { data: selections, error: selectionsError } = await supabase
+      .from("lot_selections")
+      .select("portfolio_record_id, lot_record_id, quantity")
+      .in("portfolio_record_id", sellIds)
+      .order("created_at", { ascending: true });
+
+    if (selectionsError) {
+      throw new Error(
+        `Failed to fetch lot selections: ${selectionsError.message}`,
+      );
+    }
+
+    selections?.forEach((selection) => {
+      const list = selectionsBySellId.get(selection.portfolio_record_id) ?? [];
+      list.push({
+        lotId: selection.lot_record_id,
+        quantity: Number(selection.quantity),
+      });
+      selectionsBySellId.set(selection.portfolio_record_id, list);
+    });
+  }
+
+  return { events, selectionsBySellId };
+}
+
+/**
+ * Regenerate the realized gains of every sell record of a position
+ * using the owner's cost basis method.
+ */
+export async function syncRealizedGains(
+  positionId: string,
+  options: LoadLotInputsOptions = {},
+) {
+  const supabase = createServiceClient();
+
+  const { data: position, error: positionError } = await supabase
+    .from("positions")
+    .select("user_id, type")
+    .eq("id", positionId)
+    .maybeSingle();
+
+  if (positionError || !position) {
+    return {
+      success: false,
+      code: positionError?.code ?? "POSITION_NOT_FOUND",
+      message: positionError?.message ?? "Position not found",
+    } as const;
+  }
+
+  const { error: deleteError } = await supabase
+    .from("realized_gains")
+    .delete()
+    .eq("position_id", positionId);
+
+  if (deleteError) {
+    return {
+      success: false,
+      code: deleteError.code ?? "REALIZED_GAINS_DELETE_FAILED",
+      message: deleteError.message ?? "Failed to clear realized gains",
+    } as const;
+  }
+
+  // Liabilities are not sold, so there is nothing to realize
+  if (position.type === "liability") return { success: true } as const;
+
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("cost_basis_method")
+    .eq("user_id", position.user_id)
+    .single();
+
+  if (profileError || !profile) {
+    return {
+      success: false,
+      code: profileError?.code ?? "PROFILE_NOT_FOUND",
+      message: profileError?.message ?? "Profile not found",
+    } as const;
+  }
+
+  const method = profile.cost_basis_method;
+
+  let sales;
+  try {
+    const { events, selectionsBySellId } = await loadLotInputs(
+      supabase,
+      positionId,
+      options,
+    );
+    sales = matchLots(events, method, selectionsBySellId).sales;
+  } catch (error) {
+    return {
+      success: false,
+      code: "LOT_MATCHING_FAILED",
+      message:
+        error instanceof Error ? error.message : "Failed to match sell lots",
+    } as const;
+  }
+
+  if (!sales.length) return { success: true } as const;
+
+  const { error: insertError } = await supabase.from("realized_gains").insert(
+    sales.map((sale) => ({
+      user_id: position.user_id,
+      position_id: positionId,
+      portfolio_record_id: sale.recordId,
+      date: sale.date,
+      quantity: sale.matchedQuantity,
+      proceeds: sale.proceeds,
+      cost_basis: sale.costBasis,
+      realized_gain: sale.realizedGain,
+      method,
+    })),
+  );
+
+  if (insertError) {
+    return {
+      success: false,
+      code: insertError.code ?? "REALIZED_GAINS_INSERT_FAILED",
+      message: insertError.message ?? "Failed to insert realized gains",
+    } as const;
+  }
+
+  return { success: true } as const;
+}
+
+/**
+ * Regenerate realized gains for all of a user's positions with sales.
+ * Used when the user switches cost basis method.
+ */
+export async function syncUserRealizedGains(userId: string) {
+  const supabase = createServiceClient();
+
+  const { data: sells, error } = await supabase
+    .from("portfolio_records")
+    .select("position_id")
+    .eq("user_id", userId)
+    .eq("type", "sell");
+
+  if (error) {
+    return {
+      success: false,
+      code: error.code,
+      message: error.message,
+    } as const;
+  }
+
+  const positionIds = [...new Set(sells?.map((sell) => sell.position_id))];
+
+  for (const positionId of positionIds) {
+    const result = await syncRealizedGains(positionId);
+    if (!result.success) return result;
+  }
+
+  return { success: true } as const;
+}
@@ -0,0 +1,28 @@
+/**
+ * Parse specific lot selections from FormData.
+ * `lot_selections` is a JSON array of `{ lot_record_id, quantity }`
+ * where a null lot_record_id refers to the opening balance.
+ * Returns null when the field is absent.
+ */
+export function parseLotSelections(formData: FormData) {
+  const raw = formData.get("lot_selections");
+  if (raw == null) return null;
+
+  try {
+    const parsed = JSON.parse(String(raw)) as unknown;
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed
+      .map((item) => ({
+        lot_record_id:
+          typeof item?.lot_record_id === "string" ? item.lot_record_id : null,
+        quantity: Number(item?.quantity),
+      }))
+      .filter(
+        (selection) =>
+          Number.isFinite(selection.quantity) && selection.quantity > 0,
+      );
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,66 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { VIEW_ONLY_MESSAGE } from "@/server/portfolio-members/utils";
+import { parseRecurringTransactionFormData } from "@/server/recurring-transactions/utils";
+import {
+  checkRecurringTransactionTarget,
+  syncRecurringOccurrences,
+} from "@/server/recurring-transactions/schedule";
+
+/**
+ * Create a recurring transaction on a position.
+ * Occurrences already due (start date in the past) are generated right away.
+ */
+export async function createRecurringTransaction(
+  formData: FormData,
+  positionId: string,
+) {
+  const { supabase, ownerId, access } = await getActivePortfolio();
+
+  if (access === "viewer") {
+    return {
+      success: false,
+      code: "READ_ONLY",
+      message: VIEW_ONLY_MESSAGE,
+    } as const;
+  }
+
+  const parsed = parseRecurringTransactionFormData(formData);
+  if (!parsed.ok) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      message: parsed.message,
+    } as const;
+  }
+
+  const targetResult = await checkRecurringTransactionTarget(
+    ownerId,
+    positionId,
+    parsed.values,
+  );
+  if (!targetResult.success) return targetResult;
+
+  const { data: inserted, error } = await supabase
+    .from("recurring_transactions")
+    .insert({ user_id: ownerId, position_id: positionId, ...parsed.values })
+    .select("id")
+    .single();
+
+  if (error || !inserted) {
+    return {
+      success: false,
+      code: error?.code ?? "UNKNOWN",
+      message: error?.message ?? "Failed to create recurring transaction",
+    } as const;
+  }
+
+  const syncResult = await syncRecurringOccurrences(inserted.id);
+  if (!syncResult.success) return syncResult;
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
@@ -0,0 +1,41 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { VIEW_ONLY_MESSAGE } from "@/server/portfolio-members/utils";
+
+/**
+ * Delete a recurring transaction and its pending occurrences.
+ * Records already committed stay in the position history.
+ */
+export async function deleteRecurringTransaction(
+  recurringTransactionId: string,
+) {
+  const { supabase, ownerId, access } = await getActivePortfolio();
+
+  if (access === "viewer") {
+    return {
+      success: false,
+      code: "READ_ONLY",
+      message: VIEW_ONLY_MESSAGE,
+    } as const;
+  }
+
+  const { error } = await supabase
+    .from("recurring_transactions")
+    .delete()
+    .eq("id", recurringTransactionId)
+    .eq("user_id", ownerId);
+
+  if (error) {
+    return {
+      success: false,
+      code: error.code,
+      message: error.message,
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
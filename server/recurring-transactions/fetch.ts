@@ -0,0 +1,74 @@
+"use server";
+
+import { cache } from "react";
+
+import { createServiceClient } from "@/supabase/service";
+
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+
+/**
+ * Fetch the recurring transactions of a position, oldest first.
+ */
+export const fetchRecurringTransactions = cache(async (positionId: string) => {
+  const { supabase, ownerId } = await getActivePortfolio();
+
+  const { data, error } = await supabase
+    .from("recurring_transactions")
+    .select("*")
+    .eq("position_id", positionId)
+    .eq("user_id", ownerId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch recurring transactions: ${error.message}`);
+  }
+
+  return data;
+});
+
+/**
+ * Fetch the portfolio's occurrences waiting for confirmation, earliest first,
+ * with the schedule and position they belong to.
+ */
+export const fetchPendingOccurrences = cache(async () => {
+  const { supabase, ownerId } = await getActivePortfolio();
+
+  const { data, error } = await supabase
+    .from("recurring_occurrences")
+    .select(
+      "*, recurring_transactions!inner(type, description, positions!recurring_transactions_position_id_fkey(id, name, currency))",
+    )
+    .eq("user_id", ownerId)
+    .eq("status", "pending")
+    .order("due_date", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch pending occurrences: ${error.message}`);
+  }
+
+  return data.map(({ recurring_transactions: schedule, ...occurrence }) => ({
+    ...occurrence,
+    type: schedule.type,
+    description: schedule.description,
+    position: schedule.positions,
+  }));
+});
+
+/**
+ * Fetch the IDs of all active recurring transactions.
+ * Used by the cron job that generates due occurrences.
+ */
+export async function fetchActiveRecurringTransactionIds() {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from("recurring_transactions")
+    .select("id")
+    .eq("is_active", true);
+
+  if (error) {
+    throw new Error(`Failed to fetch recurring transactions: ${error.message}`);
+  }
+
+  return data?.map((schedule) => schedule.id) || [];
+}
@@ -0,0 +1,93 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { VIEW_ONLY_MESSAGE } from "@/server/portfolio-members/utils";
+import { commitOccurrence } from "@/server/recurring-transactions/schedule";
+
+// Make sure a pending occurrence belongs to the active portfolio
+async function fetchOwnPendingOccurrence(occurrenceId: string) {
+  const { supabase, ownerId, access } = await getActivePortfolio();
+
+  const { data } = await supabase
+    .from("recurring_occurrences")
+    .select("id")
+    .eq("id", occurrenceId)
+    .eq("user_id", ownerId)
+    .eq("status", "pending")
+    .maybeSingle();
+
+  return { supabase, access, occurrence: data };
+}
+
+/**
+ * Confirm a pending occurrence, committing it as a portfolio record.
+ * The generated quantity and unit value can be corrected first.
+ */
+export async function confirmOccurrence(
+  occurrenceId: string,
+  overrides?: { quantity?: number; unitValue?: number },
+) {
+  const { access, occurrence } = await fetchOwnPendingOccurrence(occurrenceId);
+  if (access === "viewer") {
+    return {
+      success: false,
+      code: "READ_ONLY",
+      message: VIEW_ONLY_MESSAGE,
+    } as const;
+  }
+
+  if (!occurrence) {
+    return {
+      success: false,
+      code: "NOT_FOUND",
+      message: "Pending occurrence not found",
+    } as const;
+  }
+
+  const result = await commitOccurrence(occurrence.id, overrides);
+  if (!result.success) return result;
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
+
+/**
+ * Skip a pending occurrence without creating a record.
+ */
+export async function skipOccurrence(occurrenceId: string) {
+  const { supabase, access, occurrence } =
+    await fetchOwnPendingOccurrence(occurrenceId);
+  if (access === "viewer") {
+    return {
+      success: false,
+      code: "READ_ONLY",
+      message: VIEW_ONLY_MESSAGE,
+    } as const;
+  }
+
+  if (!occurrence) {
+    return {
+      success: false,
+      code: "NOT_FOUND",
+      message: "Pending occurrence not found",
+    } as const;
+  }
+
+  const { error } = await supabase
+    .from("recurring_occurrences")
+    .update({ status: "skipped" })
+    .eq("id", occurrence.id);
+
+  if (error) {
+    return {
+      success: false,
+      code: error.code,
+      message: error.message,
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
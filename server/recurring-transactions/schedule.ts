@@ -0,0 +1,297 @@
+import { createServiceClient } from "@/supabase/service";
+
+import { fetchQuotes } from "@/server/quotes/fetch";
+import { recalculateSnapshotsUntilNextUpdate } from "@/server/position-snapshots/recalculate";
+import { emitWebhookEvent } from "@/server/webhooks/emit";
+import {
+  fetchSettlementPosition,
+  syncTradeSettlement,
+} from "@/server/portfolio-records/settlement";
+
+import { isCashPosition } from "@/lib/cash-ledger";
+import {
+  getDueDates,
+  getOccurrenceQuantity,
+} from "@/lib/recurring-transactions";
+
+import type { RecurringTransactionFormValues } from "@/server/recurring-transactions/utils";
+
+import { CASH_RECORD_TYPES } from "@/types/enums";
+
+/**
+ * Check a schedule against the position it runs on before it's saved, so
+ * its occurrences can be committed: cash record types need a cash position
+ * and trades can only settle against one of the owner's cash positions.
+ */
+export async function checkRecurringTransactionTarget(
+  ownerId: string,
+  positionId: string,
+  values: Pick<
+    RecurringTransactionFormValues,
+    "type" | "settlement_position_id"
+  >,
+) {
+  const supabase = createServiceClient();
+
+  const { data: position } = await supabase
+    .from("positions")
+    .select("id, user_id, category_id, symbol_id, domain_id")
+    .eq("id", positionId)
+    .maybeSingle();
+
+  if (!position || position.user_id !== ownerId) {
+    return {
+      success: false,
+      code: "NOT_FOUND",
+      message: "Position not found",
+    } as const;
+  }
+
+  if (
+    (CASH_RECORD_TYPES as readonly string[]).includes(values.type) &&
+    !isCashPosition(position)
+  ) {
+    return {
+      success: false,
+      code: "INVALID_RECORD_TYPE",
+      message: `${values.type} records can only be added to cash positions`,
+    } as const;
+  }
+
+  if (
+    values.settlement_position_id &&
+    (values.type === "buy" || values.type === "sell")
+  ) {
+    const settlementPositionResult = await fetchSettlementPosition(
+      ownerId,
+      values.settlement_position_id,
+    );
+    if (!settlementPositionResult.success) {
+      return {
+        success: false,
+        code: settlementPositionResult.code,
+        message: settlementPositionResult.message,
+      } as const;
+    }
+  }
+
+  return { success: true } as const;
+}
+
+/**
+ * Generate the occurrences of a recurring transaction that fell due since
+ * its last run. Trades on symbol positions are priced from the quote on the
+ * due date, cash movements at a unit value of 1, anything else at the
+ * schedule's fixed unit value. Auto-confirmed schedules are committed as
+ * portfolio records right away; the rest wait for the user.
+ */
+export async function syncRecurringOccurrences(
+  recurringTransactionId: string,
+  asOfDate?: Date,
+) {
+  const supabase = createServiceClient();
+
+  const { data: schedule, error: scheduleError } = await supabase
+    .from("recurring_transactions")
+    .select("*, positions!recurring_transactions_position_id_fkey(symbol_id)")
+    .eq("id", recurringTransactionId)
+    .maybeSingle();
+
+  if (scheduleError || !schedule) {
+    return {
+      success: false,
+      code: scheduleError?.code ?? "NOT_FOUND",
+      message: scheduleError?.message ?? "Recurring transaction not found",
+    } as const;
+  }
+
+  const dueDates = getDueDates(schedule, asOfDate);
+  if (!schedule.is_active || !dueDates.length) {
+    return { success: true, generated: 0 } as const;
+  }
+
+  // Price every due date
+  const isCash = (CASH_RECORD_TYPES as readonly string[]).includes(
+    schedule.type,
+  );
+  const symbolId = schedule.positions?.symbol_id ?? null;
+  const quotes =
+    !isCash && symbolId
+      ? await fetchQuotes(
+          dueDates.map((date) => ({
+            symbolLookup: symbolId,
+            date: new Date(date),
+          })),
+        )
+      : new Map<string, number>();
+
+  const occurrences = dueDates.map((dueDate) => {
+    let unitValue: number | null;
+    if (isCash) unitValue = 1;
+    else if (symbolId) unitValue = quotes.get(`${symbolId}|${dueDate}`) ?? null;
+    else unitValue = schedule.unit_value;
+
+    return {
+      user_id: schedule.user_id,
+      recurring_transaction_id: schedule.id,
+      due_date: dueDate,
+      quantity: getOccurrenceQuantity(schedule, unitValue),
+      unit_value: unitValue,
+    };
+  });
+
+  const { data: inserted, error: insertError } = await supabase
+    .from("recurring_occurrences")
+    .upsert(occurrences, {
+      onConflict: "recurring_transaction_id,due_date",
+      ignoreDuplicates: true,
+    })
+    .select("id, quantity, unit_value");
+
+  if (insertError) {
+    return {
+      success: false,
+      code: insertError.code,
+      message: insertError.message,
+    } as const;
+  }
+
+  const { error: updateError } = await supabase
+    .from("recurring_transactions")
+    .update({ last_occurrence_date: dueDates[dueDates.length - 1] })
+    .eq("id", schedule.id);
+
+  if (updateError) {
+    return {
+      success: false,
+      code: updateError.code,
+      message: updateError.message,
+    } as const;
+  }
+
+  // Occurrences without a price always wait for the user
+  if (schedule.auto_confirm) {
+    for (const occurrence of inserted ?? []) {
+      if (occurrence.quantity === null || occurrence.unit_value === null) {
+        continue;
+      }
+
+      const result = await commitOccurrence(occurrence.id);
+      if (!result.success) return result;
+    }
+  }
+
+  return { success: true, generated: inserted?.length ?? 0 } as const;
+}
+
+/**
+ * Turn a pending occurrence into a portfolio record on its due date, then
+ * rebuild the position's snapshots and settle trades against the linked
+ * cash position. Emits `portfolio_record.created` like a record entered by
+ * hand.
+ */
+export async function commitOccurrence(
+  occurrenceId: string,
+  overrides?: { quantity?: number; unitValue?: number },
+) {
+  const supabase = createServiceClient();
+
+  const { data: occurrence, error: occurrenceError } = await supabase
+    .from("recurring_occurrences")
+    .select("*, recurring_transactions!inner(*)")
+    .eq("id", occurrenceId)
+    .eq("status", "pending")
+    .maybeSingle();
+
+  if (occurrenceError || !occurrence) {
+    return {
+      success: false,
+      code: occurrenceError?.code ?? "NOT_FOUND",
+      message: occurrenceError?.message ?? "Pending occurrence not found",
+    } as const;
+  }
+
+  const schedule = occurrence.recurring_transactions;
+  const unitValue = overrides?.unitValue ?? occurrence.unit_value;
+  const quantity =
+    overrides?.quantity ??
+    (overrides?.unitValue !== undefined
+      ? getOccurrenceQuantity(schedule, unitValue)
+      : occurrence.quantity);
+
+  if (!quantity || !unitValue || quantity <= 0 || unitValue <= 0) {
+    return {
+      success: false,
+      code: "MISSING_PRICE",
+      message: "A quantity and unit value are required to confirm",
+    } as const;
+  }
+
+  const { data: record, error: recordError } = await supabase
+    .from("portfolio_records")
+    .insert({
+      user_id: occurrence.user_id,
+      position_id: schedule.position_id,
+      type: schedule.type,
+      date: occurrence.due_date,
+      quantity,
+      unit_value: unitValue,
+      description: schedule.description,
+    })
+    .select("id, position_id, type, date, quantity, unit_value, description")
+    .single();
+
+  if (recordError || !record) {
+    return {
+      success: false,
+      code: recordError?.code ?? "UNKNOWN",
+      message: recordError?.message ?? "Failed to create portfolio record",
+    } as const;
+  }
+
+  const { error: updateError } = await supabase
+    .from("recurring_occurrences")
+    .update({
+      status: "confirmed",
+      quantity,
+      unit_value: unitValue,
+      portfolio_record_id: record.id,
+    })
+    .eq("id", occurrence.id);
+
+  if (updateError) {
+    return {
+      success: false,
+      code: updateError.code,
+      message: updateError.message,
+    } as const;
+  }
+
+  const recalculationResult = await recalculateSnapshotsUntilNextUpdate({
+    positionId: schedule.position_id,
+    fromDate: new Date(occurrence.due_date),
+  });
+
+  if (!recalculationResult.success) {
+    return {
+      success: false,
+      code: "RECALCULATION_FAILED",
+      message: "Failed to recalculate snapshots after record creation",
+    } as const;
+  }
+
+  if (
+    schedule.settlement_position_id &&
+    (schedule.type === "buy" || schedule.type === "sell")
+  ) {
+    const settlementResult = await syncTradeSettlement(
+      record.id,
+      schedule.settlement_position_id,
+    );
+    if (!settlementResult.success) return settlementResult;
+  }
+
+  emitWebhookEvent(occurrence.user_id, "portfolio_record.created", record);
+
+  return { success: true } as const;
+}
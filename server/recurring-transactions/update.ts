@@ -0,0 +1,122 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { format, subDays } from "date-fns";
+
+import { getActivePortfolio } from "@/server/portfolio-members/fetch";
+import { VIEW_ONLY_MESSAGE } from "@/server/portfolio-members/utils";
+import { parseRecurringTransactionFormData } from "@/server/recurring-transactions/utils";
+import { checkRecurringTransactionTarget } from "@/server/recurring-transactions/schedule";
+
+/**
+ * Update a recurring transaction. Changes apply to occurrences generated
+ * from now on; pending ones keep their amounts.
+ */
+export async function updateRecurringTransaction(
+  formData: FormData,
+  recurringTransactionId: string,
+) {
+  const { supabase, ownerId, access } = await getActivePortfolio();
+
+  if (access === "viewer") {
+    return {
+      success: false,
+      code: "READ_ONLY",
+      message: VIEW_ONLY_MESSAGE,
+    } as const;
+  }
+
+  const parsed = parseRecurringTransactionFormData(formData);
+  if (!parsed.ok) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      message: parsed.message,
+    } as const;
+  }
+
+  const { data: current } = await supabase
+    .from("recurring_transactions")
+    .select("position_id")
+    .eq("id", recurringTransactionId)
+    .eq("user_id", ownerId)
+    .maybeSingle();
+
+  if (!current) {
+    return {
+      success: false,
+      code: "NOT_FOUND",
+      message: "Recurring transaction not found",
+    } as const;
+  }
+
+  const targetResult = await checkRecurringTransactionTarget(
+    ownerId,
+    current.position_id,
+    parsed.values,
+  );
+  if (!targetResult.success) return targetResult;
+
+  const { data: schedule, error } = await supabase
+    .from("recurring_transactions")
+    .update(parsed.values)
+    .eq("id", recurringTransactionId)
+    .eq("user_id", ownerId)
+    .select("id")
+    .maybeSingle();
+
+  if (error || !schedule) {
+    return {
+      success: false,
+      code: error?.code ?? "NOT_FOUND",
+      message: error?.message ?? "Recurring transaction not found",
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
+
+/**
+ * Pause or resume a recurring transaction. Dates missed while paused are
+ * not generated afterwards.
+ */
+export async function setRecurringTransactionActive(
+  recurringTransactionId: string,
+  isActive: boolean,
+) {
+  const { supabase, ownerId, access } = await getActivePortfolio();
+
+  if (access === "viewer") {
+    return {
+      success: false,
+      code: "READ_ONLY",
+      message: VIEW_ONLY_MESSAGE,
+    } as const;
+  }
+
+  const { data: schedule, error } = await supabase
+    .from("recurring_transactions")
+    .update({
+      is_active: isActive,
+      // Resuming continues from today
+      ...(isActive && {
+        last_occurrence_date: format(subDays(new Date(), 1), "yyyy-MM-dd"),
+      }),
+    })
+    .eq("id", recurringTransactionId)
+    .eq("user_id", ownerId)
+    .select("id")
+    .maybeSingle();
+
+  if (error || !schedule) {
+    return {
+      success: false,
+      code: error?.code ?? "NOT_FOUND",
+      message: error?.message ?? "Recurring transaction not found",
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
@@ -0,0 +1,98 @@
+import { RECURRING_FREQUENCIES, RECURRING_RECORD_TYPES } from "@/types/enums";
+
+import type { RecurringTransaction } from "@/types/global.types";
+
+export type RecurringTransactionFormValues = Pick<
+  RecurringTransaction,
+  | "type"
+  | "frequency"
+  | "start_date"
+  | "end_date"
+  | "quantity"
+  | "amount"
+  | "unit_value"
+  | "settlement_position_id"
+  | "description"
+  | "auto_confirm"
+>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseOptionalNumber(raw: FormDataEntryValue | null) {
+  if (raw === null || String(raw).trim() === "") return null;
+  return Number(raw);
+}
+
+function parseOptionalString(raw: FormDataEntryValue | null) {
+  const value = raw === null ? "" : String(raw).trim();
+  return value === "" ? null : value;
+}
+
+const isPositiveOrNull = (value: number | null) =>
+  value === null || (Number.isFinite(value) && value > 0);
+
+/**
+ * Parse and validate recurring transaction fields from FormData.
+ * Exactly one of `quantity` (fixed units) or `amount` (fixed money) is set.
+ * The position and settlement target are checked by
+ * `checkRecurringTransactionTarget` before the schedule is saved.
+ */
+export function parseRecurringTransactionFormData(
+  formData: FormData,
+):
+  | { ok: true; values: RecurringTransactionFormValues }
+  | { ok: false; message: string } {
+  const type = String(formData.get("type") ?? "");
+  const frequency = String(formData.get("frequency") ?? "");
+  const startDate = String(formData.get("start_date") ?? "");
+  const endDate = parseOptionalString(formData.get("end_date"));
+  const quantity = parseOptionalNumber(formData.get("quantity"));
+  const amount = parseOptionalNumber(formData.get("amount"));
+  const unitValue = parseOptionalNumber(formData.get("unit_value"));
+  const description = parseOptionalString(formData.get("description"));
+
+  if (!(RECURRING_RECORD_TYPES as readonly string[]).includes(type)) {
+    return { ok: false, message: "Invalid record type" };
+  }
+  if (!(RECURRING_FREQUENCIES as readonly string[]).includes(frequency)) {
+    return { ok: false, message: "Invalid frequency" };
+  }
+  if (!DATE_PATTERN.test(startDate)) {
+    return { ok: false, message: "Start date is required" };
+  }
+  if (
+    endDate !== null &&
+    (!DATE_PATTERN.test(endDate) || endDate < startDate)
+  ) {
+    return { ok: false, message: "End date must be after the start date" };
+  }
+  if ((quantity === null) === (amount === null)) {
+    return { ok: false, message: "Set either a quantity or an amount" };
+  }
+  if (!isPositiveOrNull(quantity) || !isPositiveOrNull(amount)) {
+    return { ok: false, message: "Quantity and amount must be greater than 0" };
+  }
+  if (!isPositiveOrNull(unitValue)) {
+    return { ok: false, message: "Unit value must be greater than 0" };
+  }
+
+  return {
+    ok: true,
+    values: {
+      type: type as RecurringTransactionFormValues["type"],
+      frequency: frequency as RecurringTransactionFormValues["frequency"],
+      start_date: startDate,
+      end_date: endDate,
+      quantity,
+      amount,
+      unit_value: unitValue,
+      // Only trades settle against a cash position
+      settlement_position_id:
+        type === "buy" || type === "sell"
+          ? parseOptionalString(formData.get("settlement_position_id"))
+          : null,
+      description,
+      auto_confirm: formData.get("auto_confirm") === "true",
+    },
+  };
+}
@@ -260,6 +260,74 @@ export async function setPrimarySymbolAlias(
   return inserted;
 }
 
+/**
+ * Add secondary aliases to a symbol, e.g. from an account archive. Aliases
+ * whose value is already used by any symbol for the same type and source
+ * are skipped, so existing resolutions never change.
+ *
+ * @returns The number of aliases added
+ */
+export async function addSymbolAliases(
+  symbolId: string,
+  aliases: Pick<
+    SymbolAlias,
+    "type" | "value" | "source" | "effective_from" | "effective_to"
+  >[],
+) {
+  if (!aliases.length) return 0;
+
+  const supabase = await createServiceClient();
+
+  const { data: existing, error: fetchError } = await supabase
+    .from("symbol_aliases")
+    .select("type, value, source")
+    .in(
+      "value",
+      aliases.map((alias) => alias.value),
+    );
+
+  if (fetchError) {
+    throw new Error(
+      `Failed to check existing aliases for symbol "${symbolId}": ${fetchError.message}`,
+    );
+  }
+
+  const aliasKey = ({
+    type,
+    value,
+    source,
+  }: {
+    type: string;
+    value: string;
+    source: string;
+  }) => `${type}|${source}|${value.toUpperCase()}`;
+  const existingKeys = new Set((existing ?? []).map(aliasKey));
+
+  const missing = aliases.filter((alias) => {
+    const key = aliasKey(alias);
+    if (existingKeys.has(key)) return false;
+    existingKeys.add(key);
+    return true;
+  });
+  if (!missing.length) return 0;
+
+  const { error: insertError } = await supabase.from("symbol_aliases").insert(
+    missing.map((alias) => ({
+      ...alias,
+      symbol_id: symbolId,
+      is_primary: false,
+    })),
+  );
+
+  if (insertError) {
+    throw new Error(
+      `Failed to add aliases for symbol "${symbolId}": ${insertError.message}`,
+    );
+  }
+
+  return missing.length;
+}
+
 async function loadPrimarySymbolAlias(
   supabase: SupabaseClient<Database>,
   symbolId: string,
@@ -3,6 +3,8 @@
 import { z } from "zod";
 
 import { yahooFinance } from "@/server/yahoo-finance/client";
+import { isOfflineMode } from "@/server/offline/mode";
+import { createServiceClient } from "@/supabase/service";
 
 import type { SymbolInsert, SymbolSearchResult } from "@/types/global.types";
 
@@ -19,6 +21,16 @@ export async function searchYahooFinanceSymbols(params: SearchParams) {
     // Validate the input parameters
     const validatedParams = searchParamsSchema.parse(params);
 
+    if (isOfflineMode()) {
+      return {
+        success: true,
+        data: await searchKnownSymbols(
+          validatedParams.query,
+          validatedParams.limit,
+        ),
+      };
+    }
+
     // Perform the search using yahoo-finance2
     const searchResults = await yahooFinance.search(validatedParams.query, {
       quotesCount: validatedParams.limit,
@@ -61,6 +73,8 @@ export async function searchYahooFinanceSymbols(params: SearchParams) {
 // Fetch quote summary data for a specific symbol
 export async function fetchYahooFinanceSymbol(symbolId: string) {
   try {
+    if (isOfflineMode()) return await fetchKnownSymbol(symbolId);
+
     const summary = await yahooFinance.quoteSummary(symbolId, {
       modules: ["price", "assetProfile"],
     });
@@ -89,3 +103,49 @@ export async function fetchYahooFinanceSymbol(symbolId: string) {
     };
   }
 }
+
+// Offline mode only knows the symbols already stored on this instance
+async function searchKnownSymbols(query: string, limit: number) {
+  const pattern = `%${query.replace(/[%_,()*]/g, "")}%`;
+  const { data, error } = await createServiceClient()
+    .from("symbols")
+    .select("ticker, short_name, long_name, exchange, quote_type")
+    .or(
+      `ticker.ilike.${pattern},short_name.ilike.${pattern},long_name.ilike.${pattern}`,
+    )
+    .order("ticker")
+    .limit(limit);
+
+  if (error) throw new Error(error.message);
+
+  return (data ?? []).map(
+    (symbol): SymbolSearchResult => ({
+      id: symbol.ticker,
+      nameDisp: symbol.long_name || symbol.short_name || symbol.ticker,
+      exchange: symbol.exchange,
+      typeDisp: symbol.quote_type,
+    }),
+  );
+}
+
+async function fetchKnownSymbol(symbolId: string) {
+  const { data, error } = await createServiceClient()
+    .from("symbols")
+    .select(
+      "ticker, quote_type, short_name, long_name, currency, exchange, sector, industry",
+    )
+    .eq("ticker", symbolId.trim().toUpperCase())
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!data) {
+    return {
+      success: false,
+      message:
+        "Only symbols already stored on this instance are available in offline mode",
+    };
+  }
+
+  const symbol: SymbolInsert = data;
+  return { success: true, data: symbol };
+}
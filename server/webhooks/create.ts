@@ -0,0 +1,44 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getCurrentUser } from "@/server/auth/actions";
+import { parseWebhookEndpointFormData } from "@/server/webhooks/utils";
+
+import { generateWebhookSecret } from "@/lib/webhooks";
+
+/**
+ * Subscribe an HTTPS endpoint to portfolio events. Returns the signing
+ * secret, which the endpoint uses to verify deliveries.
+ */
+export async function createWebhookEndpoint(formData: FormData) {
+  const { supabase, user } = await getCurrentUser();
+
+  const parsed = parseWebhookEndpointFormData(formData);
+  if (!parsed.ok) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      message: parsed.message,
+    } as const;
+  }
+
+  const secret = generateWebhookSecret();
+
+  const { error } = await supabase.from("webhook_endpoints").insert({
+    ...parsed.values,
+    user_id: user.id,
+    secret,
+  });
+
+  if (error) {
+    return {
+      success: false,
+      code: error.code,
+      message: error.message,
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true, secret } as const;
+}
@@ -0,0 +1,29 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getCurrentUser } from "@/server/auth/actions";
+
+/**
+ * Delete a webhook endpoint along with its delivery log.
+ */
+export async function deleteWebhookEndpoint(webhookEndpointId: string) {
+  const { supabase, user } = await getCurrentUser();
+
+  const { error } = await supabase
+    .from("webhook_endpoints")
+    .delete()
+    .eq("id", webhookEndpointId)
+    .eq("user_id", user.id);
+
+  if (error) {
+    return {
+      success: false,
+      code: error.code,
+      message: error.message,
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
@@ -0,0 +1,134 @@
+import { createServiceClient } from "@/supabase/service";
+
+import {
+  getNextWebhookAttempt,
+  MAX_RESPONSE_BODY_LENGTH,
+  signWebhookPayload,
+  WEBHOOK_SIGNATURE_HEADER,
+} from "@/lib/webhooks";
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+// Keeps a delivery from being sent twice while an attempt is in flight
+const DELIVERY_LEASE_MS = 5 * 60_000;
+const DUE_DELIVERIES_BATCH = 100;
+
+/**
+ * Send a pending delivery, then record the outcome: succeeded on a 2xx,
+ * otherwise pending until the next retry or failed after the last one.
+ */
+export async function deliverWebhook(deliveryId: string) {
+  const supabase = createServiceClient();
+  const now = new Date();
+
+  // Claim the delivery so the retry cron doesn't pick it up concurrently
+  const { data: delivery, error } = await supabase
+    .from("webhook_deliveries")
+    .update({
+      next_attempt_at: new Date(
+        now.getTime() + DELIVERY_LEASE_MS,
+      ).toISOString(),
+    })
+    .eq("id", deliveryId)
+    .eq("status", "pending")
+    .lte("next_attempt_at", now.toISOString())
+    .select(
+      "id, event, payload, attempts, webhook_endpoints (url, secret, is_active)",
+    )
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!delivery?.webhook_endpoints) return { success: false } as const;
+
+  const { url, secret, is_active } = delivery.webhook_endpoints;
+  const attempts = delivery.attempts + 1;
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let deliveryError: string | null = null;
+
+  if (!is_active) {
+    deliveryError = "Endpoint is paused";
+  } else {
+    const body = JSON.stringify(delivery.payload);
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "Foliofox-Webhooks/1.0",
+          "Foliofox-Event": delivery.event,
+          "Foliofox-Delivery": delivery.id,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, body),
+        },
+        body,
+        // Redirects could point at hosts the URL check refused
+        redirect: "manual",
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY_LENGTH);
+    } catch (fetchError) {
+      deliveryError =
+        fetchError instanceof Error ? fetchError.message : "Request failed";
+    }
+  }
+
+  const succeeded =
+    responseStatus !== null && responseStatus >= 200 && responseStatus < 300;
+  const nextAttempt =
+    succeeded || !is_active ? null : getNextWebhookAttempt(attempts);
+
+  const { error: updateError } = await supabase
+    .from("webhook_deliveries")
+    .update({
+      status: succeeded ? "succeeded" : nextAttempt ? "pending" : "failed",
+      attempts,
+      last_attempt_at: new Date().toISOString(),
+      next_attempt_at: nextAttempt?.toISOString() ?? null,
+      response_status: responseStatus,
+      response_body: responseBody,
+      error:
+        deliveryError ??
+        (succeeded ? null : `Endpoint responded with ${responseStatus}`),
+    })
+    .eq("id", delivery.id);
+
+  if (updateError) throw new Error(updateError.message);
+
+  return { success: succeeded } as const;
+}
+
+/**
+ * Retry deliveries whose next attempt is due, oldest first.
+ * Used by the cron job that delivers webhooks.
+ */
+export async function deliverDueWebhooks() {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from("webhook_deliveries")
+    .select("id")
+    .eq("status", "pending")
+    .lte("next_attempt_at", new Date().toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(DUE_DELIVERIES_BATCH);
+
+  if (error) {
+    throw new Error(`Failed to fetch due webhook deliveries: ${error.message}`);
+  }
+
+  let succeeded = 0;
+  let failed = 0;
+  for (const { id } of data ?? []) {
+    try {
+      const result = await deliverWebhook(id);
+      if (result.success) succeeded++;
+      else failed++;
+    } catch (deliveryError) {
+      console.error(`Webhook delivery ${id} failed:`, deliveryError);
+      failed++;
+    }
+  }
+
+  return { total: data?.length ?? 0, succeeded, failed };
+}
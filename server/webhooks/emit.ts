@@ -0,0 +1,70 @@
+import { randomUUID } from "crypto";
+import { after } from "next/server";
+
+import { createServiceClient } from "@/supabase/service";
+import { deliverWebhook } from "@/server/webhooks/deliver";
+
+import type { WebhookPayload } from "@/lib/webhooks";
+import type { Json } from "@/types/database.types";
+import type { WebhookEvent } from "@/types/global.types";
+
+async function queueWebhookEvent(
+  userId: string,
+  event: WebhookEvent,
+  data: WebhookPayload["data"],
+) {
+  const supabase = createServiceClient();
+
+  const { data: endpoints, error } = await supabase
+    .from("webhook_endpoints")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("is_active", true)
+    .contains("events", [event]);
+
+  if (error) throw new Error(error.message);
+  if (!endpoints.length) return;
+
+  const payload: WebhookPayload = {
+    id: randomUUID(),
+    type: event,
+    created_at: new Date().toISOString(),
+    data,
+  };
+
+  const { data: deliveries, error: insertError } = await supabase
+    .from("webhook_deliveries")
+    .insert(
+      endpoints.map((endpoint) => ({
+        endpoint_id: endpoint.id,
+        user_id: userId,
+        event,
+        event_id: payload.id,
+        payload: payload as unknown as Json,
+      })),
+    )
+    .select("id");
+
+  if (insertError) throw new Error(insertError.message);
+
+  // First attempt right away; failures are retried by the cron job
+  await Promise.all(deliveries.map(({ id }) => deliverWebhook(id)));
+}
+
+/**
+ * Notify the owner's webhook endpoints subscribed to the event. Runs after
+ * the response is sent and never fails the action that emitted it.
+ */
+export function emitWebhookEvent(
+  userId: string,
+  event: WebhookEvent,
+  data: WebhookPayload["data"],
+) {
+  after(async () => {
+    try {
+      await queueWebhookEvent(userId, event, data);
+    } catch (error) {
+      console.error(`Failed to emit ${event} webhook:`, error);
+    }
+  });
+}
@@ -0,0 +1,52 @@
+"use server";
+
+import { cache } from "react";
+
+import { getCurrentUser } from "@/server/auth/actions";
+
+const RECENT_DELIVERIES_LIMIT = 50;
+
+/**
+ * Fetch the user's webhook endpoints, oldest first.
+ */
+export const fetchWebhookEndpoints = cache(async () => {
+  const { supabase, user } = await getCurrentUser();
+
+  const { data, error } = await supabase
+    .from("webhook_endpoints")
+    .select("*")
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch webhook endpoints: ${error.message}`);
+  }
+
+  return data;
+});
+
+/**
+ * Fetch the latest deliveries across the user's endpoints, newest first,
+ * with the endpoint URL.
+ */
+export const fetchWebhookDeliveries = cache(async () => {
+  const { supabase, user } = await getCurrentUser();
+
+  const { data, error } = await supabase
+    .from("webhook_deliveries")
+    .select(
+      "id, endpoint_id, event, event_id, status, attempts, next_attempt_at, last_attempt_at, response_status, error, created_at, webhook_endpoints(url)",
+    )
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: false })
+    .limit(RECENT_DELIVERIES_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to fetch webhook deliveries: ${error.message}`);
+  }
+
+  return data.map(({ webhook_endpoints: endpoint, ...delivery }) => ({
+    ...delivery,
+    endpoint_url: endpoint?.url ?? null,
+  }));
+});
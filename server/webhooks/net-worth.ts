@@ -0,0 +1,61 @@
+import { format, startOfDay } from "date-fns";
+
+import { createServiceClient } from "@/supabase/service";
+
+import { calculateNetWorth } from "@/server/analysis/net-worth";
+import { emitWebhookEvent } from "@/server/webhooks/emit";
+
+/**
+ * Compute today's net worth in the display currency of every user with an
+ * endpoint subscribed to `net_worth.computed`, and emit the event.
+ * Used by the daily cron job, after quotes and exchange rates are fetched.
+ */
+export async function emitNetWorthWebhooks() {
+  const supabase = createServiceClient();
+  const date = startOfDay(new Date());
+
+  const { data: endpoints, error } = await supabase
+    .from("webhook_endpoints")
+    .select("user_id")
+    .eq("is_active", true)
+    .contains("events", ["net_worth.computed"]);
+
+  if (error) {
+    throw new Error(`Failed to fetch webhook endpoints: ${error.message}`);
+  }
+
+  const userIds = Array.from(new Set(endpoints.map(({ user_id }) => user_id)));
+
+  let emitted = 0;
+  let failed = 0;
+  for (const userId of userIds) {
+    try {
+      const { data: profile, error: profileError } = await supabase
+        .from("profiles")
+        .select("display_currency")
+        .eq("user_id", userId)
+        .single();
+
+      if (profileError) {
+        throw new Error(`Failed to fetch profile: ${profileError.message}`);
+      }
+
+      const netWorth = await calculateNetWorth(profile.display_currency, date, {
+        supabaseClient: supabase,
+        userId,
+      });
+
+      emitWebhookEvent(userId, "net_worth.computed", {
+        date: format(date, "yyyy-MM-dd"),
+        currency: profile.display_currency,
+        net_worth: netWorth,
+      });
+      emitted++;
+    } catch (userError) {
+      console.error(`Net worth webhook for user ${userId} failed:`, userError);
+      failed++;
+    }
+  }
+
+  return { totalUsers: userIds.length, emitted, failed };
+}
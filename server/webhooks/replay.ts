@@ -0,0 +1,51 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { createServiceClient } from "@/supabase/service";
+
+import { getCurrentUser } from "@/server/auth/actions";
+import { deliverWebhook } from "@/server/webhooks/deliver";
+
+/**
+ * Send a past delivery again as a new delivery with the same event and
+ * payload, so receivers can deduplicate on the event id.
+ */
+export async function replayWebhookDelivery(webhookDeliveryId: string) {
+  const { supabase, user } = await getCurrentUser();
+
+  const { data: delivery, error } = await supabase
+    .from("webhook_deliveries")
+    .select("endpoint_id, event, event_id, payload")
+    .eq("id", webhookDeliveryId)
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  if (error || !delivery) {
+    return {
+      success: false,
+      code: error?.code ?? "NOT_FOUND",
+      message: error?.message ?? "Webhook delivery not found",
+    } as const;
+  }
+
+  // Deliveries are only written by the server
+  const { data: replay, error: insertError } = await createServiceClient()
+    .from("webhook_deliveries")
+    .insert({ ...delivery, user_id: user.id })
+    .select("id")
+    .single();
+
+  if (insertError) {
+    return {
+      success: false,
+      code: insertError.code,
+      message: insertError.message,
+    } as const;
+  }
+
+  const { success: delivered } = await deliverWebhook(replay.id);
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true, delivered } as const;
+}
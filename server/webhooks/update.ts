@@ -0,0 +1,74 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getCurrentUser } from "@/server/auth/actions";
+import { parseWebhookEndpointFormData } from "@/server/webhooks/utils";
+
+/**
+ * Update the URL, description and events of a webhook endpoint.
+ */
+export async function updateWebhookEndpoint(
+  formData: FormData,
+  webhookEndpointId: string,
+) {
+  const { supabase, user } = await getCurrentUser();
+
+  const parsed = parseWebhookEndpointFormData(formData);
+  if (!parsed.ok) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      message: parsed.message,
+    } as const;
+  }
+
+  const { data: endpoint, error } = await supabase
+    .from("webhook_endpoints")
+    .update(parsed.values)
+    .eq("id", webhookEndpointId)
+    .eq("user_id", user.id)
+    .select("id")
+    .maybeSingle();
+
+  if (error || !endpoint) {
+    return {
+      success: false,
+      code: error?.code ?? "NOT_FOUND",
+      message: error?.message ?? "Webhook endpoint not found",
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
+
+/**
+ * Pause or resume a webhook endpoint. A paused endpoint gets no new events
+ * and its pending retries fail without being sent.
+ */
+export async function setWebhookEndpointActive(
+  webhookEndpointId: string,
+  isActive: boolean,
+) {
+  const { supabase, user } = await getCurrentUser();
+
+  const { data: endpoint, error } = await supabase
+    .from("webhook_endpoints")
+    .update({ is_active: isActive })
+    .eq("id", webhookEndpointId)
+    .eq("user_id", user.id)
+    .select("id")
+    .maybeSingle();
+
+  if (error || !endpoint) {
+    return {
+      success: false,
+      code: error?.code ?? "NOT_FOUND",
+      message: error?.message ?? "Webhook endpoint not found",
+    } as const;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true } as const;
+}
@@ -0,0 +1,55 @@
+import {
+  isAllowedWebhookUrl,
+  MAX_WEBHOOK_DESCRIPTION_LENGTH,
+} from "@/lib/webhooks";
+
+import { WEBHOOK_EVENTS } from "@/types/enums";
+
+import type { WebhookEvent } from "@/types/global.types";
+
+function isWebhookEvent(value: string): value is WebhookEvent {
+  return (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
+
+/**
+ * Parse and validate a webhook endpoint from FormData.
+ */
+export function parseWebhookEndpointFormData(formData: FormData):
+  | {
+      ok: true;
+      values: {
+        url: string;
+        description: string | null;
+        events: WebhookEvent[];
+      };
+    }
+  | { ok: false; message: string } {
+  const url = String(formData.get("url") ?? "").trim();
+  const description = String(formData.get("description") ?? "").trim();
+  const events = formData.getAll("events").map(String);
+
+  if (!isAllowedWebhookUrl(url)) {
+    return { ok: false, message: "URL must be a public HTTPS address" };
+  }
+  if (description.length > MAX_WEBHOOK_DESCRIPTION_LENGTH) {
+    return {
+      ok: false,
+      message: `Description must not exceed ${MAX_WEBHOOK_DESCRIPTION_LENGTH} characters`,
+    };
+  }
+  if (!events.length) {
+    return { ok: false, message: "Pick at least one event" };
+  }
+  if (!events.every(isWebhookEvent)) {
+    return { ok: false, message: "Unknown event" };
+  }
+
+  return {
+    ok: true,
+    values: {
+      url,
+      description: description || null,
+      events: Array.from(new Set(events)),
+    },
+  };
+}
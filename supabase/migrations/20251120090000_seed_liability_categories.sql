@@ -0,0 +1,9 @@
+BEGIN;
+
+-- Liability categories (display_order continues after asset categories)
+INSERT INTO public.position_categories (id, name, description, display_order, position_type) VALUES ('mortgage', 'Mortgages', 'Home loans, HELOCs, and other property-secured debt', 8, 'liability') ON CONFLICT (id) DO NOTHING;
+INSERT INTO public.position_categories (id, name, description, display_order, position_type) VALUES ('loan', 'Loans', 'Personal, student, auto, and other installment loans', 9, 'liability') ON CONFLICT (id) DO NOTHING;
+INSERT INTO public.position_categories (id, name, description, display_order, position_type) VALUES ('credit_card', 'Credit Cards', 'Outstanding credit card and charge card balances', 10, 'liability') ON CONFLICT (id) DO NOTHING;
+INSERT INTO public.position_categories (id, name, description, display_order, position_type) VALUES ('other_liability', 'Other Liabilities', 'Lines of credit, overdrafts, taxes owed, and other debts', 11, 'liability') ON CONFLICT (id) DO NOTHING;
+
+COMMIT;
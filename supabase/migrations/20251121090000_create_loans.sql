@@ -0,0 +1,148 @@
+BEGIN;
+
+-- Enums
+CREATE TYPE public.loan_payment_frequency AS ENUM (
+  'weekly',
+  'biweekly',
+  'monthly',
+  'quarterly',
+  'annually'
+);
+
+-- Loan model attached to a liability position
+CREATE TABLE IF NOT EXISTS public.loans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  position_id uuid NOT NULL UNIQUE,
+  principal numeric NOT NULL,
+  annual_interest_rate numeric NOT NULL DEFAULT 0,
+  term_months integer NOT NULL,
+  payment_frequency public.loan_payment_frequency NOT NULL DEFAULT 'monthly',
+  start_date date NOT NULL,
+  recurring_extra_payment numeric NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT loans_principal_positive CHECK (principal > 0),
+  CONSTRAINT loans_annual_interest_rate_range CHECK (annual_interest_rate >= 0 AND annual_interest_rate <= 100),
+  CONSTRAINT loans_term_months_range CHECK (term_months > 0 AND term_months <= 600),
+  CONSTRAINT loans_recurring_extra_payment_non_negative CHECK (recurring_extra_payment >= 0)
+);
+
+-- One-off extra principal payments
+CREATE TABLE IF NOT EXISTS public.loan_extra_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  loan_id uuid NOT NULL,
+  date date NOT NULL,
+  amount numeric NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT loan_extra_payments_amount_positive CHECK (amount > 0)
+);
+
+CREATE INDEX IF NOT EXISTS loan_extra_payments_loan_id_date_idx
+  ON public.loan_extra_payments (loan_id, date);
+
+-- Snapshots generated from a loan schedule (NULL for record/manual snapshots)
+ALTER TABLE public.position_snapshots
+  ADD COLUMN IF NOT EXISTS loan_id uuid;
+
+CREATE INDEX IF NOT EXISTS position_snapshots_loan_id_idx
+  ON public.position_snapshots (loan_id)
+  WHERE loan_id IS NOT NULL;
+
+-- FKs
+ALTER TABLE public.loans
+  ADD CONSTRAINT loans_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.loans
+  ADD CONSTRAINT loans_position_id_fkey
+  FOREIGN KEY (position_id) REFERENCES public.positions(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.loan_extra_payments
+  ADD CONSTRAINT loan_extra_payments_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.loan_extra_payments
+  ADD CONSTRAINT loan_extra_payments_loan_id_fkey
+  FOREIGN KEY (loan_id) REFERENCES public.loans(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.position_snapshots
+  ADD CONSTRAINT position_snapshots_loan_id_fkey
+  FOREIGN KEY (loan_id) REFERENCES public.loans(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+-- Updated-at trigger
+CREATE OR REPLACE TRIGGER loans_handle_updated_at
+  BEFORE UPDATE ON public.loans
+  FOR EACH ROW
+  EXECUTE FUNCTION storage.update_updated_at_column();
+
+-- RLS
+ALTER TABLE public.loans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.loan_extra_payments ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can select own loans"
+    ON public.loans
+    FOR SELECT TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can insert own loans"
+    ON public.loans
+    FOR INSERT TO authenticated
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can update own loans"
+    ON public.loans
+    FOR UPDATE TO authenticated
+    USING ((SELECT auth.uid()) = user_id)
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can delete own loans"
+    ON public.loans
+    FOR DELETE TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can select own loan extra payments"
+    ON public.loan_extra_payments
+    FOR SELECT TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can insert own loan extra payments"
+    ON public.loan_extra_payments
+    FOR INSERT TO authenticated
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can delete own loan extra payments"
+    ON public.loan_extra_payments
+    FOR DELETE TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+COMMIT;
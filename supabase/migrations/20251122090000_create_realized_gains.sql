@@ -0,0 +1,116 @@
+BEGIN;
+
+-- Enums
+CREATE TYPE public.cost_basis_method AS ENUM (
+  'fifo',
+  'lifo',
+  'average_cost',
+  'specific_lot'
+);
+
+-- Per-user lot matching method
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS cost_basis_method public.cost_basis_method NOT NULL DEFAULT 'fifo';
+
+-- Realized gain of each sell record (regenerated whenever records change)
+CREATE TABLE IF NOT EXISTS public.realized_gains (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  position_id uuid NOT NULL,
+  portfolio_record_id uuid NOT NULL UNIQUE,
+  date date NOT NULL,
+  quantity numeric NOT NULL,
+  proceeds numeric NOT NULL,
+  cost_basis numeric NOT NULL,
+  realized_gain numeric NOT NULL,
+  method public.cost_basis_method NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS realized_gains_user_id_date_idx
+  ON public.realized_gains (user_id, date);
+
+CREATE INDEX IF NOT EXISTS realized_gains_position_id_idx
+  ON public.realized_gains (position_id);
+
+-- Lots chosen for a sell record under the specific lot method.
+-- lot_record_id is the buy/update record that opened the lot (NULL = opening balance)
+CREATE TABLE IF NOT EXISTS public.lot_selections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  portfolio_record_id uuid NOT NULL,
+  lot_record_id uuid,
+  quantity numeric NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT lot_selections_quantity_positive CHECK (quantity > 0)
+);
+
+CREATE INDEX IF NOT EXISTS lot_selections_portfolio_record_id_idx
+  ON public.lot_selections (portfolio_record_id);
+
+-- FKs
+ALTER TABLE public.realized_gains
+  ADD CONSTRAINT realized_gains_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.realized_gains
+  ADD CONSTRAINT realized_gains_position_id_fkey
+  FOREIGN KEY (position_id) REFERENCES public.positions(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.realized_gains
+  ADD CONSTRAINT realized_gains_portfolio_record_id_fkey
+  FOREIGN KEY (portfolio_record_id) REFERENCES public.portfolio_records(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.lot_selections
+  ADD CONSTRAINT lot_selections_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.lot_selections
+  ADD CONSTRAINT lot_selections_portfolio_record_id_fkey
+  FOREIGN KEY (portfolio_record_id) REFERENCES public.portfolio_records(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.lot_selections
+  ADD CONSTRAINT lot_selections_lot_record_id_fkey
+  FOREIGN KEY (lot_record_id) REFERENCES public.portfolio_records(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+-- RLS (realized gains are written by the server only)
+ALTER TABLE public.realized_gains ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lot_selections ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can select own realized gains"
+    ON public.realized_gains
+    FOR SELECT TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can select own lot selections"
+    ON public.lot_selections
+    FOR SELECT TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can insert own lot selections"
+    ON public.lot_selections
+    FOR INSERT TO authenticated
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can delete own lot selections"
+    ON public.lot_selections
+    FOR DELETE TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+COMMIT;
@@ -0,0 +1,24 @@
+BEGIN;
+
+-- Cash ledger record kinds (quantity = amount, unit_value = 1)
+ALTER TYPE public.portfolio_record_type ADD VALUE IF NOT EXISTS 'deposit';
+ALTER TYPE public.portfolio_record_type ADD VALUE IF NOT EXISTS 'withdrawal';
+ALTER TYPE public.portfolio_record_type ADD VALUE IF NOT EXISTS 'interest';
+ALTER TYPE public.portfolio_record_type ADD VALUE IF NOT EXISTS 'fee';
+ALTER TYPE public.portfolio_record_type ADD VALUE IF NOT EXISTS 'dividend';
+ALTER TYPE public.portfolio_record_type ADD VALUE IF NOT EXISTS 'settlement';
+
+-- Settlement records point at the buy/sell they settle on a cash position.
+-- Their quantity is signed: negative for buys (cash out), positive for sells
+ALTER TABLE public.portfolio_records
+  ADD COLUMN IF NOT EXISTS trade_record_id uuid;
+
+ALTER TABLE public.portfolio_records
+  ADD CONSTRAINT portfolio_records_trade_record_id_fkey
+  FOREIGN KEY (trade_record_id) REFERENCES public.portfolio_records(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS portfolio_records_trade_record_id_key
+  ON public.portfolio_records (trade_record_id)
+  WHERE trade_record_id IS NOT NULL;
+
+COMMIT;
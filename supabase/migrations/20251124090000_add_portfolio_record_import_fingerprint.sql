@@ -0,0 +1,12 @@
+BEGIN;
+
+-- Fingerprint of the broker trade a record was imported from, so
+-- re-importing an overlapping export skips trades seen before
+ALTER TABLE public.portfolio_records
+  ADD COLUMN IF NOT EXISTS import_fingerprint text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS portfolio_records_user_id_import_fingerprint_key
+  ON public.portfolio_records (user_id, import_fingerprint)
+  WHERE import_fingerprint IS NOT NULL;
+
+COMMIT;
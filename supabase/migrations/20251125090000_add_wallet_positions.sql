@@ -0,0 +1,29 @@
+BEGIN;
+
+-- Crypto wallets tracked by on-chain address (valued by the wallet market data handler)
+ALTER TABLE public.positions
+  ADD COLUMN IF NOT EXISTS wallet_chain text,
+  ADD COLUMN IF NOT EXISTS wallet_address text;
+
+ALTER TABLE public.positions
+  ADD CONSTRAINT positions_wallet_chain_address_check
+  CHECK ((wallet_chain IS NULL) = (wallet_address IS NULL));
+
+CREATE INDEX IF NOT EXISTS positions_wallet_address_idx
+  ON public.positions (wallet_chain, wallet_address)
+  WHERE wallet_address IS NOT NULL;
+
+-- Cached native-asset balance of an address at the end of a date
+CREATE TABLE IF NOT EXISTS public.wallet_balances (
+  chain text NOT NULL,
+  address text NOT NULL,
+  date date NOT NULL,
+  balance numeric NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (chain, address, date)
+);
+
+-- RLS (balances are read and written by the server only)
+ALTER TABLE public.wallet_balances ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
@@ -0,0 +1,183 @@
+BEGIN;
+
+-- Property metadata for real estate positions (valued by the property market data handler)
+CREATE TABLE IF NOT EXISTS public.properties (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  address text,
+  region text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Appraised value of a property on a date, in the position currency
+CREATE TABLE IF NOT EXISTS public.property_appraisals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  property_id uuid NOT NULL,
+  date date NOT NULL,
+  value numeric NOT NULL,
+  description text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT property_appraisals_value_non_negative CHECK (value >= 0),
+  CONSTRAINT property_appraisals_property_id_date_key UNIQUE (property_id, date)
+);
+
+-- Regional price index series imported from CSV
+CREATE TABLE IF NOT EXISTS public.property_index_values (
+  user_id uuid NOT NULL,
+  region text NOT NULL,
+  date date NOT NULL,
+  value numeric NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, region, date),
+  CONSTRAINT property_index_values_value_positive CHECK (value > 0)
+);
+
+ALTER TABLE public.positions
+  ADD COLUMN IF NOT EXISTS property_id uuid UNIQUE;
+
+-- FKs
+ALTER TABLE public.properties
+  ADD CONSTRAINT properties_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.property_appraisals
+  ADD CONSTRAINT property_appraisals_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.property_appraisals
+  ADD CONSTRAINT property_appraisals_property_id_fkey
+  FOREIGN KEY (property_id) REFERENCES public.properties(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.property_index_values
+  ADD CONSTRAINT property_index_values_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.positions
+  ADD CONSTRAINT positions_property_id_fkey
+  FOREIGN KEY (property_id) REFERENCES public.properties(id) ON UPDATE CASCADE ON DELETE SET NULL;
+
+-- Updated-at trigger
+CREATE OR REPLACE TRIGGER properties_handle_updated_at
+  BEFORE UPDATE ON public.properties
+  FOR EACH ROW
+  EXECUTE FUNCTION storage.update_updated_at_column();
+
+-- RLS
+ALTER TABLE public.properties ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.property_appraisals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.property_index_values ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can select own properties"
+    ON public.properties
+    FOR SELECT TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can insert own properties"
+    ON public.properties
+    FOR INSERT TO authenticated
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can update own properties"
+    ON public.properties
+    FOR UPDATE TO authenticated
+    USING ((SELECT auth.uid()) = user_id)
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can delete own properties"
+    ON public.properties
+    FOR DELETE TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can select own property appraisals"
+    ON public.property_appraisals
+    FOR SELECT TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can insert own property appraisals"
+    ON public.property_appraisals
+    FOR INSERT TO authenticated
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can update own property appraisals"
+    ON public.property_appraisals
+    FOR UPDATE TO authenticated
+    USING ((SELECT auth.uid()) = user_id)
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can delete own property appraisals"
+    ON public.property_appraisals
+    FOR DELETE TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can select own property index values"
+    ON public.property_index_values
+    FOR SELECT TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can insert own property index values"
+    ON public.property_index_values
+    FOR INSERT TO authenticated
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can update own property index values"
+    ON public.property_index_values
+    FOR UPDATE TO authenticated
+    USING ((SELECT auth.uid()) = user_id)
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can delete own property index values"
+    ON public.property_index_values
+    FOR DELETE TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+COMMIT;
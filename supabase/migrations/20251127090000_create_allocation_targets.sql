@@ -0,0 +1,76 @@
+BEGIN;
+
+CREATE TYPE public.allocation_target_scope AS ENUM (
+  'category',
+  'position',
+  'sector'
+);
+
+-- Target weights used by the rebalancing plan. A target key is a category id,
+-- a position id or a sector name depending on the scope.
+CREATE TABLE IF NOT EXISTS public.allocation_targets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  scope public.allocation_target_scope NOT NULL,
+  target_key text NOT NULL,
+  weight numeric NOT NULL,
+  tolerance numeric,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT allocation_targets_weight_range CHECK (weight > 0 AND weight <= 100),
+  CONSTRAINT allocation_targets_tolerance_range CHECK (tolerance >= 0 AND tolerance <= 100),
+  CONSTRAINT allocation_targets_user_id_scope_target_key_key UNIQUE (user_id, scope, target_key)
+);
+
+-- FKs
+ALTER TABLE public.allocation_targets
+  ADD CONSTRAINT allocation_targets_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+-- Updated-at trigger
+CREATE OR REPLACE TRIGGER allocation_targets_handle_updated_at
+  BEFORE UPDATE ON public.allocation_targets
+  FOR EACH ROW
+  EXECUTE FUNCTION storage.update_updated_at_column();
+
+-- RLS
+ALTER TABLE public.allocation_targets ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can select own allocation targets"
+    ON public.allocation_targets
+    FOR SELECT TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can insert own allocation targets"
+    ON public.allocation_targets
+    FOR INSERT TO authenticated
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can update own allocation targets"
+    ON public.allocation_targets
+    FOR UPDATE TO authenticated
+    USING ((SELECT auth.uid()) = user_id)
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can delete own allocation targets"
+    ON public.allocation_targets
+    FOR DELETE TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+COMMIT;
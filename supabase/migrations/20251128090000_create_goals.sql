@@ -0,0 +1,79 @@
+BEGIN;
+
+-- Savings and net worth goals. A goal tracks the linked positions and
+-- categories, or the whole net worth when nothing is linked.
+CREATE TABLE IF NOT EXISTS public.goals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  name text NOT NULL,
+  target_amount numeric NOT NULL,
+  currency text NOT NULL,
+  deadline date NOT NULL,
+  position_ids uuid[] NOT NULL DEFAULT '{}',
+  category_ids text[] NOT NULL DEFAULT '{}',
+  -- Projection overrides (null = derived from history)
+  expected_return numeric,
+  monthly_contribution numeric,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT goals_target_amount_positive CHECK (target_amount > 0),
+  CONSTRAINT goals_expected_return_range CHECK (expected_return >= -100 AND expected_return <= 100),
+  CONSTRAINT goals_monthly_contribution_non_negative CHECK (monthly_contribution >= 0)
+);
+
+-- FKs
+ALTER TABLE public.goals
+  ADD CONSTRAINT goals_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.goals
+  ADD CONSTRAINT goals_currency_fkey
+  FOREIGN KEY (currency) REFERENCES public.currencies(alphabetic_code) ON UPDATE CASCADE;
+
+-- Updated-at trigger
+CREATE OR REPLACE TRIGGER goals_handle_updated_at
+  BEFORE UPDATE ON public.goals
+  FOR EACH ROW
+  EXECUTE FUNCTION storage.update_updated_at_column();
+
+-- RLS
+ALTER TABLE public.goals ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can select own goals"
+    ON public.goals
+    FOR SELECT TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can insert own goals"
+    ON public.goals
+    FOR INSERT TO authenticated
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can update own goals"
+    ON public.goals
+    FOR UPDATE TO authenticated
+    USING ((SELECT auth.uid()) = user_id)
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can delete own goals"
+    ON public.goals
+    FOR DELETE TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+COMMIT;
@@ -0,0 +1,163 @@
+BEGIN;
+
+-- Enums
+CREATE TYPE public.recurring_frequency AS ENUM (
+  'weekly',
+  'biweekly',
+  'monthly',
+  'quarterly',
+  'annually'
+);
+
+CREATE TYPE public.recurring_occurrence_status AS ENUM (
+  'pending',
+  'confirmed',
+  'skipped'
+);
+
+-- Recurring schedule of portfolio records on a position.
+-- Either a fixed quantity or a fixed amount (quantity derived from the price).
+CREATE TABLE IF NOT EXISTS public.recurring_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  position_id uuid NOT NULL,
+  type public.portfolio_record_type NOT NULL,
+  frequency public.recurring_frequency NOT NULL DEFAULT 'monthly',
+  start_date date NOT NULL,
+  end_date date,
+  quantity numeric,
+  amount numeric,
+  unit_value numeric,
+  settlement_position_id uuid,
+  description text,
+  auto_confirm boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  last_occurrence_date date,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT recurring_transactions_type_check CHECK (type IN ('buy', 'sell', 'deposit', 'withdrawal', 'fee', 'interest')),
+  CONSTRAINT recurring_transactions_size_check CHECK ((quantity IS NULL) <> (amount IS NULL)),
+  CONSTRAINT recurring_transactions_quantity_positive CHECK (quantity IS NULL OR quantity > 0),
+  CONSTRAINT recurring_transactions_amount_positive CHECK (amount IS NULL OR amount > 0),
+  CONSTRAINT recurring_transactions_unit_value_positive CHECK (unit_value IS NULL OR unit_value > 0),
+  CONSTRAINT recurring_transactions_dates_check CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS recurring_transactions_position_id_idx
+  ON public.recurring_transactions (position_id);
+
+-- Generated occurrences, waiting for confirmation until they become records
+CREATE TABLE IF NOT EXISTS public.recurring_occurrences (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  recurring_transaction_id uuid NOT NULL,
+  due_date date NOT NULL,
+  quantity numeric,
+  unit_value numeric,
+  status public.recurring_occurrence_status NOT NULL DEFAULT 'pending',
+  portfolio_record_id uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT recurring_occurrences_transaction_due_date_key UNIQUE (recurring_transaction_id, due_date)
+);
+
+CREATE INDEX IF NOT EXISTS recurring_occurrences_user_id_status_idx
+  ON public.recurring_occurrences (user_id, status);
+
+-- FKs
+ALTER TABLE public.recurring_transactions
+  ADD CONSTRAINT recurring_transactions_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.recurring_transactions
+  ADD CONSTRAINT recurring_transactions_position_id_fkey
+  FOREIGN KEY (position_id) REFERENCES public.positions(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.recurring_transactions
+  ADD CONSTRAINT recurring_transactions_settlement_position_id_fkey
+  FOREIGN KEY (settlement_position_id) REFERENCES public.positions(id) ON UPDATE CASCADE ON DELETE SET NULL;
+
+ALTER TABLE public.recurring_occurrences
+  ADD CONSTRAINT recurring_occurrences_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.recurring_occurrences
+  ADD CONSTRAINT recurring_occurrences_recurring_transaction_id_fkey
+  FOREIGN KEY (recurring_transaction_id) REFERENCES public.recurring_transactions(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.recurring_occurrences
+  ADD CONSTRAINT recurring_occurrences_portfolio_record_id_fkey
+  FOREIGN KEY (portfolio_record_id) REFERENCES public.portfolio_records(id) ON UPDATE CASCADE ON DELETE SET NULL;
+
+-- Updated-at triggers
+CREATE OR REPLACE TRIGGER recurring_transactions_handle_updated_at
+  BEFORE UPDATE ON public.recurring_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION storage.update_updated_at_column();
+
+CREATE OR REPLACE TRIGGER recurring_occurrences_handle_updated_at
+  BEFORE UPDATE ON public.recurring_occurrences
+  FOR EACH ROW
+  EXECUTE FUNCTION storage.update_updated_at_column();
+
+-- RLS
+ALTER TABLE public.recurring_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_occurrences ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can select own recurring transactions"
+    ON public.recurring_transactions
+    FOR SELECT TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can insert own recurring transactions"
+    ON public.recurring_transactions
+    FOR INSERT TO authenticated
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can update own recurring transactions"
+    ON public.recurring_transactions
+    FOR UPDATE TO authenticated
+    USING ((SELECT auth.uid()) = user_id)
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can delete own recurring transactions"
+    ON public.recurring_transactions
+    FOR DELETE TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can select own recurring occurrences"
+    ON public.recurring_occurrences
+    FOR SELECT TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can update own recurring occurrences"
+    ON public.recurring_occurrences
+    FOR UPDATE TO authenticated
+    USING ((SELECT auth.uid()) = user_id)
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+COMMIT;
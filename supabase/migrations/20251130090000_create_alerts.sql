@@ -0,0 +1,174 @@
+BEGIN;
+
+-- Enums
+CREATE TYPE public.alert_rule_type AS ENUM (
+  'price_cross',
+  'daily_move',
+  'net_worth_cross',
+  'allocation_drift',
+  'ex_dividend'
+);
+
+-- User-defined alert rules, evaluated daily after quotes are fetched.
+-- last_trigger_key remembers the condition that fired last, so a rule only
+-- notifies again once the condition cleared or a new event came up.
+CREATE TABLE IF NOT EXISTS public.alert_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  type public.alert_rule_type NOT NULL,
+  -- price_cross and ex_dividend (null = every held symbol)
+  symbol_id uuid,
+  -- daily_move
+  position_id uuid,
+  -- price_cross and net_worth_cross
+  direction text,
+  -- Price, net worth, move in percent or drift in percentage points
+  threshold numeric,
+  -- net_worth_cross
+  currency text,
+  -- ex_dividend: how many days ahead to warn
+  days_before integer,
+  email_enabled boolean NOT NULL DEFAULT true,
+  is_active boolean NOT NULL DEFAULT true,
+  last_trigger_key text,
+  last_triggered_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT alert_rules_direction_check CHECK (direction IN ('above', 'below')),
+  CONSTRAINT alert_rules_threshold_positive CHECK (threshold > 0),
+  CONSTRAINT alert_rules_days_before_range CHECK (days_before >= 0 AND days_before <= 60),
+  CONSTRAINT alert_rules_price_cross_fields CHECK (
+    type <> 'price_cross' OR (symbol_id IS NOT NULL AND direction IS NOT NULL AND threshold IS NOT NULL)
+  ),
+  CONSTRAINT alert_rules_daily_move_fields CHECK (
+    type <> 'daily_move' OR (position_id IS NOT NULL AND threshold IS NOT NULL)
+  ),
+  CONSTRAINT alert_rules_net_worth_cross_fields CHECK (
+    type <> 'net_worth_cross' OR (direction IS NOT NULL AND threshold IS NOT NULL AND currency IS NOT NULL)
+  ),
+  CONSTRAINT alert_rules_ex_dividend_fields CHECK (
+    type <> 'ex_dividend' OR days_before IS NOT NULL
+  )
+);
+
+CREATE INDEX IF NOT EXISTS alert_rules_user_id_idx
+  ON public.alert_rules (user_id);
+
+-- FKs
+ALTER TABLE public.alert_rules
+  ADD CONSTRAINT alert_rules_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.alert_rules
+  ADD CONSTRAINT alert_rules_symbol_id_fkey
+  FOREIGN KEY (symbol_id) REFERENCES public.symbols(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.alert_rules
+  ADD CONSTRAINT alert_rules_position_id_fkey
+  FOREIGN KEY (position_id) REFERENCES public.positions(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.alert_rules
+  ADD CONSTRAINT alert_rules_currency_fkey
+  FOREIGN KEY (currency) REFERENCES public.currencies(alphabetic_code) ON UPDATE CASCADE;
+
+-- Updated-at trigger
+CREATE OR REPLACE TRIGGER alert_rules_handle_updated_at
+  BEFORE UPDATE ON public.alert_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION storage.update_updated_at_column();
+
+-- In-app notification inbox. Rows are written by the alerts cron job with
+-- the service role; users only read and mark them.
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  alert_rule_id uuid,
+  title text NOT NULL,
+  body text NOT NULL,
+  link text,
+  read_at timestamptz,
+  emailed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_id_created_at_idx
+  ON public.notifications (user_id, created_at DESC);
+
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_alert_rule_id_fkey
+  FOREIGN KEY (alert_rule_id) REFERENCES public.alert_rules(id) ON UPDATE CASCADE ON DELETE SET NULL;
+
+-- RLS
+ALTER TABLE public.alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can select own alert rules"
+    ON public.alert_rules
+    FOR SELECT TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can insert own alert rules"
+    ON public.alert_rules
+    FOR INSERT TO authenticated
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can update own alert rules"
+    ON public.alert_rules
+    FOR UPDATE TO authenticated
+    USING ((SELECT auth.uid()) = user_id)
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can delete own alert rules"
+    ON public.alert_rules
+    FOR DELETE TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can select own notifications"
+    ON public.notifications
+    FOR SELECT TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can update own notifications"
+    ON public.notifications
+    FOR UPDATE TO authenticated
+    USING ((SELECT auth.uid()) = user_id)
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can delete own notifications"
+    ON public.notifications
+    FOR DELETE TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+COMMIT;
@@ -0,0 +1,93 @@
+BEGIN;
+
+-- Enums
+CREATE TYPE public.account_tax_wrapper AS ENUM (
+  'taxable',
+  'tax_deferred',
+  'tax_free',
+  'pension',
+  'other'
+);
+
+-- Accounts (brokerage, pension, joint, ...) that positions belong to.
+-- Positions without an account only show up in the consolidated view.
+CREATE TABLE IF NOT EXISTS public.accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  name text NOT NULL,
+  institution text,
+  tax_wrapper public.account_tax_wrapper NOT NULL DEFAULT 'taxable',
+  currency text NOT NULL,
+  description text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT accounts_name_length CHECK (char_length(name) BETWEEN 1 AND 64),
+  CONSTRAINT accounts_user_id_name_key UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.positions
+  ADD COLUMN IF NOT EXISTS account_id uuid;
+
+CREATE INDEX IF NOT EXISTS positions_account_id_idx
+  ON public.positions (account_id);
+
+-- FKs
+ALTER TABLE public.accounts
+  ADD CONSTRAINT accounts_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.accounts
+  ADD CONSTRAINT accounts_currency_fkey
+  FOREIGN KEY (currency) REFERENCES public.currencies(alphabetic_code) ON UPDATE CASCADE;
+
+ALTER TABLE public.positions
+  ADD CONSTRAINT positions_account_id_fkey
+  FOREIGN KEY (account_id) REFERENCES public.accounts(id) ON UPDATE CASCADE ON DELETE SET NULL;
+
+-- Updated-at trigger
+CREATE OR REPLACE TRIGGER accounts_handle_updated_at
+  BEFORE UPDATE ON public.accounts
+  FOR EACH ROW
+  EXECUTE FUNCTION storage.update_updated_at_column();
+
+-- RLS
+ALTER TABLE public.accounts ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can select own accounts"
+    ON public.accounts
+    FOR SELECT TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can insert own accounts"
+    ON public.accounts
+    FOR INSERT TO authenticated
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can update own accounts"
+    ON public.accounts
+    FOR UPDATE TO authenticated
+    USING ((SELECT auth.uid()) = user_id)
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can delete own accounts"
+    ON public.accounts
+    FOR DELETE TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+COMMIT;
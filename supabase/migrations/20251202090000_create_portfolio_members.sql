@@ -0,0 +1,205 @@
+BEGIN;
+
+-- Enums
+CREATE TYPE public.portfolio_member_role AS ENUM ('viewer', 'editor');
+
+-- Household sharing: another Foliofox user invited to a portfolio.
+-- Invites are addressed to an email and claimed through their token;
+-- member_id is set once the invitee accepts.
+CREATE TABLE IF NOT EXISTS public.portfolio_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid NOT NULL,
+  member_id uuid,
+  email text NOT NULL,
+  role public.portfolio_member_role NOT NULL DEFAULT 'viewer',
+  token text NOT NULL,
+  accepted_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT portfolio_members_email_lowercase CHECK (email = lower(email)),
+  CONSTRAINT portfolio_members_not_self CHECK (member_id IS DISTINCT FROM owner_id),
+  CONSTRAINT portfolio_members_token_key UNIQUE (token),
+  CONSTRAINT portfolio_members_owner_id_email_key UNIQUE (owner_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS portfolio_members_member_id_idx
+  ON public.portfolio_members (member_id);
+
+-- FKs
+ALTER TABLE public.portfolio_members
+  ADD CONSTRAINT portfolio_members_owner_id_fkey
+  FOREIGN KEY (owner_id) REFERENCES public.profiles(user_id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.portfolio_members
+  ADD CONSTRAINT portfolio_members_member_id_fkey
+  FOREIGN KEY (member_id) REFERENCES public.profiles(user_id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+-- Updated-at trigger
+CREATE OR REPLACE TRIGGER portfolio_members_handle_updated_at
+  BEFORE UPDATE ON public.portfolio_members
+  FOR EACH ROW
+  EXECUTE FUNCTION storage.update_updated_at_column();
+
+-- Whether the current user may read (or, with require_editor, write) the
+-- portfolio of `owner`. Security definer so policies on portfolio tables
+-- can check grants without exposing portfolio_members rows.
+CREATE OR REPLACE FUNCTION public.has_portfolio_access(
+  owner uuid,
+  require_editor boolean DEFAULT false
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT owner = (SELECT auth.uid())
+    OR EXISTS (
+      SELECT 1
+      FROM public.portfolio_members
+      WHERE public.portfolio_members.owner_id = owner
+        AND public.portfolio_members.member_id = (SELECT auth.uid())
+        AND public.portfolio_members.accepted_at IS NOT NULL
+        AND (NOT require_editor OR public.portfolio_members.role = 'editor')
+    );
+$$;
+
+-- RLS
+ALTER TABLE public.portfolio_members ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  CREATE POLICY "Owners can select portfolio members"
+    ON public.portfolio_members
+    FOR SELECT TO authenticated
+    USING ((SELECT auth.uid()) = owner_id OR (SELECT auth.uid()) = member_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Owners can insert portfolio members"
+    ON public.portfolio_members
+    FOR INSERT TO authenticated
+    WITH CHECK ((SELECT auth.uid()) = owner_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Owners can update portfolio members"
+    ON public.portfolio_members
+    FOR UPDATE TO authenticated
+    USING ((SELECT auth.uid()) = owner_id)
+    WITH CHECK ((SELECT auth.uid()) = owner_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Members can leave a portfolio on their own
+DO $$
+BEGIN
+  CREATE POLICY "Owners and members can delete portfolio members"
+    ON public.portfolio_members
+    FOR DELETE TO authenticated
+    USING ((SELECT auth.uid()) = owner_id OR (SELECT auth.uid()) = member_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Household members see each other's username and avatar
+DO $$
+BEGIN
+  CREATE POLICY "Household members can view profiles"
+    ON public.profiles
+    FOR SELECT TO authenticated
+    USING (
+      public.has_portfolio_access(user_id)
+      OR EXISTS (
+        SELECT 1
+        FROM public.portfolio_members
+        WHERE public.portfolio_members.owner_id = (SELECT auth.uid())
+          AND public.portfolio_members.member_id = public.profiles.user_id
+      )
+    );
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Shared portfolio data: viewers read, editors also write.
+-- Policies are permissive, so these add to the existing owner policies.
+DO $$
+DECLARE
+  portfolio_table text;
+BEGIN
+  FOREACH portfolio_table IN ARRAY ARRAY[
+    'accounts',
+    'positions',
+    'position_snapshots',
+    'portfolio_records',
+    'realized_gains',
+    'lot_selections',
+    'loans',
+    'properties',
+    'property_appraisals',
+    'property_index_values'
+  ]
+  LOOP
+    BEGIN
+      EXECUTE format(
+        'CREATE POLICY "Household members can select %1$s" ON public.%1$I
+          FOR SELECT TO authenticated
+          USING (public.has_portfolio_access(user_id))',
+        portfolio_table
+      );
+    EXCEPTION WHEN duplicate_object THEN NULL;
+    END;
+  END LOOP;
+
+  FOREACH portfolio_table IN ARRAY ARRAY[
+    'accounts',
+    'positions',
+    'position_snapshots',
+    'portfolio_records',
+    'lot_selections'
+  ]
+  LOOP
+    BEGIN
+      EXECUTE format(
+        'CREATE POLICY "Household editors can insert %1$s" ON public.%1$I
+          FOR INSERT TO authenticated
+          WITH CHECK (public.has_portfolio_access(user_id, true))',
+        portfolio_table
+      );
+    EXCEPTION WHEN duplicate_object THEN NULL;
+    END;
+
+    BEGIN
+      EXECUTE format(
+        'CREATE POLICY "Household editors can delete %1$s" ON public.%1$I
+          FOR DELETE TO authenticated
+          USING (public.has_portfolio_access(user_id, true))',
+        portfolio_table
+      );
+    EXCEPTION WHEN duplicate_object THEN NULL;
+    END;
+  END LOOP;
+
+  FOREACH portfolio_table IN ARRAY ARRAY[
+    'accounts',
+    'positions',
+    'position_snapshots',
+    'portfolio_records'
+  ]
+  LOOP
+    BEGIN
+      EXECUTE format(
+        'CREATE POLICY "Household editors can update %1$s" ON public.%1$I
+          FOR UPDATE TO authenticated
+          USING (public.has_portfolio_access(user_id, true))
+          WITH CHECK (public.has_portfolio_access(user_id, true))',
+        portfolio_table
+      );
+    EXCEPTION WHEN duplicate_object THEN NULL;
+    END;
+  END LOOP;
+END $$;
+
+COMMIT;
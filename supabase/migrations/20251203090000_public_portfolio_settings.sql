@@ -0,0 +1,64 @@
+BEGIN;
+
+-- Per-share visibility settings. Hidden positions and categories are left
+-- out of every figure on the public page, not just the assets table.
+ALTER TABLE public.public_portfolios
+  ADD COLUMN IF NOT EXISTS show_values boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS show_profit_loss boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS show_income boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS hidden_position_ids uuid[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS hidden_category_ids text[] NOT NULL DEFAULT '{}',
+  -- scrypt hash ("salt:hash", hex); null when the link isn't protected
+  ADD COLUMN IF NOT EXISTS password_hash text;
+
+-- Daily view counts per public portfolio
+CREATE TABLE IF NOT EXISTS public.public_portfolio_views (
+  public_portfolio_id uuid NOT NULL,
+  date date NOT NULL DEFAULT current_date,
+  views integer NOT NULL DEFAULT 0,
+  CONSTRAINT public_portfolio_views_pkey PRIMARY KEY (public_portfolio_id, date),
+  CONSTRAINT public_portfolio_views_views_check CHECK (views >= 0)
+);
+
+-- FKs
+ALTER TABLE public.public_portfolio_views
+  ADD CONSTRAINT public_portfolio_views_public_portfolio_id_fkey
+  FOREIGN KEY (public_portfolio_id) REFERENCES public.public_portfolios(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+-- Count a visit. Visitors are anonymous, so the public page calls this
+-- with the service role.
+CREATE OR REPLACE FUNCTION public.record_public_portfolio_view(portfolio_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  INSERT INTO public.public_portfolio_views (public_portfolio_id, date, views)
+  VALUES (portfolio_id, current_date, 1)
+  ON CONFLICT (public_portfolio_id, date)
+  DO UPDATE SET views = public.public_portfolio_views.views + 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_public_portfolio_view(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_public_portfolio_view(uuid) TO service_role;
+
+-- RLS
+ALTER TABLE public.public_portfolio_views ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can select own public portfolio views"
+    ON public.public_portfolio_views
+    FOR SELECT TO authenticated
+    USING (
+      EXISTS (
+        SELECT 1
+        FROM public.public_portfolios
+        WHERE public.public_portfolios.id = public_portfolio_id
+          AND public.public_portfolios.user_id = (SELECT auth.uid())
+      )
+    );
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+COMMIT;
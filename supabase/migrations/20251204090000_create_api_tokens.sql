@@ -0,0 +1,106 @@
+BEGIN;
+
+-- Enums
+CREATE TYPE public.api_token_scope AS ENUM (
+  'read',
+  'read_write'
+);
+
+-- Personal access tokens for the REST API. Only the SHA-256 of the token
+-- is stored; the prefix identifies it in the UI.
+CREATE TABLE IF NOT EXISTS public.api_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  name text NOT NULL,
+  token_hash text NOT NULL,
+  token_prefix text NOT NULL,
+  scope public.api_token_scope NOT NULL DEFAULT 'read',
+  expires_at timestamptz,
+  last_used_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT api_tokens_name_length CHECK (char_length(name) BETWEEN 1 AND 64),
+  CONSTRAINT api_tokens_token_hash_key UNIQUE (token_hash)
+);
+
+CREATE INDEX IF NOT EXISTS api_tokens_user_id_idx
+  ON public.api_tokens (user_id);
+
+-- Requests per token and fixed rate-limit window
+CREATE TABLE IF NOT EXISTS public.api_rate_limits (
+  token_id uuid NOT NULL,
+  window_start timestamptz NOT NULL,
+  requests integer NOT NULL DEFAULT 0,
+  CONSTRAINT api_rate_limits_pkey PRIMARY KEY (token_id, window_start),
+  CONSTRAINT api_rate_limits_requests_check CHECK (requests >= 0)
+);
+
+-- FKs
+ALTER TABLE public.api_tokens
+  ADD CONSTRAINT api_tokens_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.api_rate_limits
+  ADD CONSTRAINT api_rate_limits_token_id_fkey
+  FOREIGN KEY (token_id) REFERENCES public.api_tokens(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+-- Count a request and return the total for the window. API requests carry
+-- no session, so routes call this with the service role.
+CREATE OR REPLACE FUNCTION public.consume_api_rate_limit(
+  api_token_id uuid,
+  current_window_start timestamptz
+)
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  -- Earlier windows are no longer needed
+  DELETE FROM public.api_rate_limits
+  WHERE token_id = api_token_id
+    AND window_start < current_window_start;
+
+  INSERT INTO public.api_rate_limits (token_id, window_start, requests)
+  VALUES (api_token_id, current_window_start, 1)
+  ON CONFLICT (token_id, window_start)
+  DO UPDATE SET requests = public.api_rate_limits.requests + 1
+  RETURNING requests;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_api_rate_limit(uuid, timestamptz) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_api_rate_limit(uuid, timestamptz) TO service_role;
+
+-- RLS
+ALTER TABLE public.api_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.api_rate_limits ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can select own api tokens"
+    ON public.api_tokens
+    FOR SELECT TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can insert own api tokens"
+    ON public.api_tokens
+    FOR INSERT TO authenticated
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Updates only revoke; tokens can't be edited otherwise from the app
+DO $$
+BEGIN
+  CREATE POLICY "Users can update own api tokens"
+    ON public.api_tokens
+    FOR UPDATE TO authenticated
+    USING ((SELECT auth.uid()) = user_id)
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+COMMIT;
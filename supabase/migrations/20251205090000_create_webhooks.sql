@@ -0,0 +1,136 @@
+BEGIN;
+
+-- Enums
+CREATE TYPE public.webhook_event AS ENUM (
+  'position.created',
+  'position.archived',
+  'portfolio_record.created',
+  'portfolio_record.updated',
+  'portfolio_record.deleted',
+  'net_worth.computed',
+  'import.completed'
+);
+
+CREATE TYPE public.webhook_delivery_status AS ENUM (
+  'pending',
+  'succeeded',
+  'failed'
+);
+
+-- HTTPS endpoints subscribed to portfolio events. The secret signs every
+-- delivery (HMAC-SHA256), so it's stored as is.
+CREATE TABLE IF NOT EXISTS public.webhook_endpoints (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  url text NOT NULL,
+  description text,
+  events public.webhook_event[] NOT NULL,
+  secret text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT webhook_endpoints_url_https CHECK (url LIKE 'https://%'),
+  CONSTRAINT webhook_endpoints_events_not_empty CHECK (cardinality(events) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS webhook_endpoints_user_id_idx
+  ON public.webhook_endpoints (user_id);
+
+-- One row per event and endpoint; retried with backoff until it succeeds
+-- or runs out of attempts
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  event public.webhook_event NOT NULL,
+  -- Shared by the deliveries of one event (and its replays)
+  event_id uuid NOT NULL,
+  payload jsonb NOT NULL,
+  status public.webhook_delivery_status NOT NULL DEFAULT 'pending',
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz DEFAULT now(),
+  last_attempt_at timestamptz,
+  response_status integer,
+  response_body text,
+  error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT webhook_deliveries_attempts_check CHECK (attempts >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_due_idx
+  ON public.webhook_deliveries (next_attempt_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_user_id_created_at_idx
+  ON public.webhook_deliveries (user_id, created_at DESC);
+
+-- FKs
+ALTER TABLE public.webhook_endpoints
+  ADD CONSTRAINT webhook_endpoints_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.webhook_deliveries
+  ADD CONSTRAINT webhook_deliveries_endpoint_id_fkey
+  FOREIGN KEY (endpoint_id) REFERENCES public.webhook_endpoints(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.webhook_deliveries
+  ADD CONSTRAINT webhook_deliveries_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+-- Updated-at trigger
+CREATE OR REPLACE TRIGGER webhook_endpoints_handle_updated_at
+  BEFORE UPDATE ON public.webhook_endpoints
+  FOR EACH ROW
+  EXECUTE FUNCTION storage.update_updated_at_column();
+
+-- RLS. Deliveries are written by the server with the service role.
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can select own webhook endpoints"
+    ON public.webhook_endpoints
+    FOR SELECT TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can insert own webhook endpoints"
+    ON public.webhook_endpoints
+    FOR INSERT TO authenticated
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can update own webhook endpoints"
+    ON public.webhook_endpoints
+    FOR UPDATE TO authenticated
+    USING ((SELECT auth.uid()) = user_id)
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can delete own webhook endpoints"
+    ON public.webhook_endpoints
+    FOR DELETE TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE POLICY "Users can select own webhook deliveries"
+    ON public.webhook_deliveries
+    FOR SELECT TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+COMMIT;
@@ -0,0 +1,10 @@
+BEGIN;
+
+-- Day each stored rate was published and the provider it came from. Rates
+-- for weekends and holidays reuse the last published ones, so rate_date can
+-- be earlier than date; it's null for rates stored before it was tracked.
+ALTER TABLE public.exchange_rates
+  ADD COLUMN IF NOT EXISTS rate_date date,
+  ADD COLUMN IF NOT EXISTS source text;
+
+COMMIT;
@@ -0,0 +1,80 @@
+BEGIN;
+
+-- Extend household sharing to loan, property and recurring transaction data:
+-- viewers read, editors also write, like the other portfolio tables.
+DO $$
+DECLARE
+  portfolio_table text;
+BEGIN
+  FOREACH portfolio_table IN ARRAY ARRAY[
+    'loan_extra_payments',
+    'recurring_transactions',
+    'recurring_occurrences'
+  ]
+  LOOP
+    BEGIN
+      EXECUTE format(
+        'CREATE POLICY "Household members can select %1$s" ON public.%1$I
+          FOR SELECT TO authenticated
+          USING (public.has_portfolio_access(user_id))',
+        portfolio_table
+      );
+    EXCEPTION WHEN duplicate_object THEN NULL;
+    END;
+  END LOOP;
+
+  -- Occurrences are generated by the server, members only confirm or skip
+  FOREACH portfolio_table IN ARRAY ARRAY[
+    'loans',
+    'loan_extra_payments',
+    'properties',
+    'property_appraisals',
+    'property_index_values',
+    'recurring_transactions'
+  ]
+  LOOP
+    BEGIN
+      EXECUTE format(
+        'CREATE POLICY "Household editors can insert %1$s" ON public.%1$I
+          FOR INSERT TO authenticated
+          WITH CHECK (public.has_portfolio_access(user_id, true))',
+        portfolio_table
+      );
+    EXCEPTION WHEN duplicate_object THEN NULL;
+    END;
+
+    BEGIN
+      EXECUTE format(
+        'CREATE POLICY "Household editors can delete %1$s" ON public.%1$I
+          FOR DELETE TO authenticated
+          USING (public.has_portfolio_access(user_id, true))',
+        portfolio_table
+      );
+    EXCEPTION WHEN duplicate_object THEN NULL;
+    END;
+  END LOOP;
+
+  -- Extra payments are replaced, never updated
+  FOREACH portfolio_table IN ARRAY ARRAY[
+    'loans',
+    'properties',
+    'property_appraisals',
+    'property_index_values',
+    'recurring_transactions',
+    'recurring_occurrences'
+  ]
+  LOOP
+    BEGIN
+      EXECUTE format(
+        'CREATE POLICY "Household editors can update %1$s" ON public.%1$I
+          FOR UPDATE TO authenticated
+          USING (public.has_portfolio_access(user_id, true))
+          WITH CHECK (public.has_portfolio_access(user_id, true))',
+        portfolio_table
+      );
+    EXCEPTION WHEN duplicate_object THEN NULL;
+    END;
+  END LOOP;
+END $$;
+
+COMMIT;
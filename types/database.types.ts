@@ -39,6 +39,254 @@ export type Database = {
   }
   public: {
     Tables: {
+      accounts: {
+        Row: {
+          created_at: string
+          currency: string
+          description: string | null
+          id: string
+          institution: string | null
+          name: string
+          tax_wrapper: Database["public"]["Enums"]["account_tax_wrapper"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          currency: string
+          description?: string | null
+          id?: string
+          institution?: string | null
+          name: string
+          tax_wrapper?: Database["public"]["Enums"]["account_tax_wrapper"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          currency?: string
+          description?: string | null
+          id?: string
+          institution?: string | null
+          name?: string
+          tax_wrapper?: Database["public"]["Enums"]["account_tax_wrapper"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "accounts_currency_fkey"
+            columns: ["currency"]
+            isOneToOne: false
+            referencedRelation: "currencies"
+            referencedColumns: ["alphabetic_code"]
+          },
+          {
+            foreignKeyName: "accounts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      alert_rules: {
+        Row: {
+          created_at: string
+          currency: string | null
+          days_before: number | null
+          direction: string | null
+          email_enabled: boolean
+          id: string
+          is_active: boolean
+          last_trigger_key: string | null
+          last_triggered_at: string | null
+          position_id: string | null
+          symbol_id: string | null
+          threshold: number | null
+          type: Database["public"]["Enums"]["alert_rule_type"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          currency?: string | null
+          days_before?: number | null
+          direction?: string | null
+          email_enabled?: boolean
+          id?: string
+          is_active?: boolean
+          last_trigger_key?: string | null
+          last_triggered_at?: string | null
+          position_id?: string | null
+          symbol_id?: string | null
+          threshold?: number | null
+          type: Database["public"]["Enums"]["alert_rule_type"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          currency?: string | null
+          days_before?: number | null
+          direction?: string | null
+          email_enabled?: boolean
+          id?: string
+          is_active?: boolean
+          last_trigger_key?: string | null
+          last_triggered_at?: string | null
+          position_id?: string | null
+          symbol_id?: string | null
+          threshold?: number | null
+          type?: Database["public"]["Enums"]["alert_rule_type"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_rules_currency_fkey"
+            columns: ["currency"]
+            isOneToOne: false
+            referencedRelation: "currencies"
+            referencedColumns: ["alphabetic_code"]
+          },
+          {
+            foreignKeyName: "alert_rules_position_id_fkey"
+            columns: ["position_id"]
+            isOneToOne: false
+            referencedRelation: "positions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_rules_symbol_id_fkey"
+            columns: ["symbol_id"]
+            isOneToOne: false
+            referencedRelation: "symbols"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_rules_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      allocation_targets: {
+        Row: {
+          created_at: string
+          id: string
+          scope: Database["public"]["Enums"]["allocation_target_scope"]
+          target_key: string
+          tolerance: number | null
+          updated_at: string
+          user_id: string
+          weight: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          scope: Database["public"]["Enums"]["allocation_target_scope"]
+          target_key: string
+          tolerance?: number | null
+          updated_at?: string
+          user_id: string
+          weight: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          scope?: Database["public"]["Enums"]["allocation_target_scope"]
+          target_key?: string
+          tolerance?: number | null
+          updated_at?: string
+          user_id?: string
+          weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "allocation_targets_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      api_rate_limits: {
+        Row: {
+          requests: number
+          token_id: string
+          window_start: string
+        }
+        Insert: {
+          requests?: number
+          token_id: string
+          window_start: string
+        }
+        Update: {
+          requests?: number
+          token_id?: string
+          window_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_rate_limits_token_id_fkey"
+            columns: ["token_id"]
+            isOneToOne: false
+            referencedRelation: "api_tokens"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      api_tokens: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          last_used_at: string | null
+          name: string
+          revoked_at: string | null
+          scope: Database["public"]["Enums"]["api_token_scope"]
+          token_hash: string
+          token_prefix: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          last_used_at?: string | null
+          name: string
+          revoked_at?: string | null
+          scope?: Database["public"]["Enums"]["api_token_scope"]
+          token_hash: string
+          token_prefix: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          last_used_at?: string | null
+          name?: string
+          revoked_at?: string | null
+          scope?: Database["public"]["Enums"]["api_token_scope"]
+          token_hash?: string
+          token_prefix?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_tokens_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       conversation_messages: {
         Row: {
           content: string
@@ -254,6 +502,8 @@ export type Database = {
           date: string
           id: string
           rate: number
+          rate_date: string | null
+          source: string | null
           target_currency: string
         }
         Insert: {
@@ -262,6 +512,8 @@ export type Database = {
           date?: string
           id?: string
           rate: number
+          rate_date?: string | null
+          source?: string | null
           target_currency: string
         }
         Update: {
@@ -270,6 +522,8 @@ export type Database = {
           date?: string
           id?: string
           rate?: number
+          rate_date?: string | null
+          source?: string | null
           target_currency?: string
         }
         Relationships: [
@@ -371,160 +625,900 @@ export type Database = {
           },
         ]
       }
-      news: {
+      goals: {
         Row: {
+          category_ids: string[]
           created_at: string
+          currency: string
+          deadline: string
+          expected_return: number | null
           id: string
-          link: string
-          published_at: string
-          publisher: string
-          related_symbol_ids: string[] | null
-          title: string
+          monthly_contribution: number | null
+          name: string
+          position_ids: string[]
+          target_amount: number
           updated_at: string
-          yahoo_uuid: string
+          user_id: string
         }
         Insert: {
+          category_ids?: string[]
           created_at?: string
+          currency: string
+          deadline: string
+          expected_return?: number | null
           id?: string
-          link: string
-          published_at: string
-          publisher: string
-          related_symbol_ids?: string[] | null
-          title: string
+          monthly_contribution?: number | null
+          name: string
+          position_ids?: string[]
+          target_amount: number
           updated_at?: string
-          yahoo_uuid: string
+          user_id: string
         }
         Update: {
+          category_ids?: string[]
           created_at?: string
+          currency?: string
+          deadline?: string
+          expected_return?: number | null
           id?: string
-          link?: string
-          published_at?: string
-          publisher?: string
-          related_symbol_ids?: string[] | null
-          title?: string
+          monthly_contribution?: number | null
+          name?: string
+          position_ids?: string[]
+          target_amount?: number
           updated_at?: string
-          yahoo_uuid?: string
+          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "goals_currency_fkey"
+            columns: ["currency"]
+            isOneToOne: false
+            referencedRelation: "currencies"
+            referencedColumns: ["alphabetic_code"]
+          },
+          {
+            foreignKeyName: "goals_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
       }
-      portfolio_records: {
+      loan_extra_payments: {
         Row: {
+          amount: number
           created_at: string
           date: string
-          description: string | null
           id: string
-          position_id: string
-          quantity: number
-          type: Database["public"]["Enums"]["portfolio_record_type"]
-          unit_value: number
-          updated_at: string
+          loan_id: string
           user_id: string
         }
         Insert: {
+          amount: number
           created_at?: string
-          date?: string
-          description?: string | null
+          date: string
           id?: string
-          position_id: string
-          quantity: number
-          type: Database["public"]["Enums"]["portfolio_record_type"]
-          unit_value: number
-          updated_at?: string
+          loan_id: string
           user_id: string
         }
         Update: {
+          amount?: number
           created_at?: string
           date?: string
-          description?: string | null
           id?: string
-          position_id?: string
-          quantity?: number
-          type?: Database["public"]["Enums"]["portfolio_record_type"]
-          unit_value?: number
-          updated_at?: string
+          loan_id?: string
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "portfolio_records_position_id_fkey"
-            columns: ["position_id"]
+            foreignKeyName: "loan_extra_payments_loan_id_fkey"
+            columns: ["loan_id"]
             isOneToOne: false
-            referencedRelation: "positions"
+            referencedRelation: "loans"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "loan_extra_payments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
         ]
       }
-      position_categories: {
+      loans: {
         Row: {
-          description: string | null
-          display_order: number
+          annual_interest_rate: number
+          created_at: string
           id: string
-          name: string
-          position_type: Database["public"]["Enums"]["position_type"]
+          payment_frequency: Database["public"]["Enums"]["loan_payment_frequency"]
+          position_id: string
+          principal: number
+          recurring_extra_payment: number
+          start_date: string
+          term_months: number
+          updated_at: string
+          user_id: string
         }
         Insert: {
-          description?: string | null
-          display_order: number
-          id: string
-          name: string
-          position_type: Database["public"]["Enums"]["position_type"]
+          annual_interest_rate?: number
+          created_at?: string
+          id?: string
+          payment_frequency?: Database["public"]["Enums"]["loan_payment_frequency"]
+          position_id: string
+          principal: number
+          recurring_extra_payment?: number
+          start_date: string
+          term_months: number
+          updated_at?: string
+          user_id: string
         }
         Update: {
-          description?: string | null
-          display_order?: number
+          annual_interest_rate?: number
+          created_at?: string
           id?: string
-          name?: string
+          payment_frequency?: Database["public"]["Enums"]["loan_payment_frequency"]
+          position_id?: string
+          principal?: number
+          recurring_extra_payment?: number
+          start_date?: string
+          term_months?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loans_position_id_fkey"
+            columns: ["position_id"]
+            isOneToOne: true
+            referencedRelation: "positions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      lot_selections: {
+        Row: {
+          created_at: string
+          id: string
+          lot_record_id: string | null
+          portfolio_record_id: string
+          quantity: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          lot_record_id?: string | null
+          portfolio_record_id: string
+          quantity: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          lot_record_id?: string | null
+          portfolio_record_id?: string
+          quantity?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lot_selections_lot_record_id_fkey"
+            columns: ["lot_record_id"]
+            isOneToOne: false
+            referencedRelation: "portfolio_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lot_selections_portfolio_record_id_fkey"
+            columns: ["portfolio_record_id"]
+            isOneToOne: false
+            referencedRelation: "portfolio_records"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      news: {
+        Row: {
+          created_at: string
+          id: string
+          link: string
+          published_at: string
+          publisher: string
+          related_symbol_ids: string[] | null
+          title: string
+          updated_at: string
+          yahoo_uuid: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          link: string
+          published_at: string
+          publisher: string
+          related_symbol_ids?: string[] | null
+          title: string
+          updated_at?: string
+          yahoo_uuid: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          link?: string
+          published_at?: string
+          publisher?: string
+          related_symbol_ids?: string[] | null
+          title?: string
+          updated_at?: string
+          yahoo_uuid?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          alert_rule_id: string | null
+          body: string
+          created_at: string
+          emailed_at: string | null
+          id: string
+          link: string | null
+          read_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          alert_rule_id?: string | null
+          body: string
+          created_at?: string
+          emailed_at?: string | null
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          alert_rule_id?: string | null
+          body?: string
+          created_at?: string
+          emailed_at?: string | null
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_alert_rule_id_fkey"
+            columns: ["alert_rule_id"]
+            isOneToOne: false
+            referencedRelation: "alert_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      portfolio_members: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          email: string
+          id: string
+          member_id: string | null
+          owner_id: string
+          role: Database["public"]["Enums"]["portfolio_member_role"]
+          token: string
+          updated_at: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          email: string
+          id?: string
+          member_id?: string | null
+          owner_id: string
+          role?: Database["public"]["Enums"]["portfolio_member_role"]
+          token: string
+          updated_at?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          email?: string
+          id?: string
+          member_id?: string | null
+          owner_id?: string
+          role?: Database["public"]["Enums"]["portfolio_member_role"]
+          token?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "portfolio_members_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "portfolio_members_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      portfolio_records: {
+        Row: {
+          created_at: string
+          date: string
+          description: string | null
+          id: string
+          import_fingerprint: string | null
+          position_id: string
+          quantity: number
+          trade_record_id: string | null
+          type: Database["public"]["Enums"]["portfolio_record_type"]
+          unit_value: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          date?: string
+          description?: string | null
+          id?: string
+          import_fingerprint?: string | null
+          position_id: string
+          quantity: number
+          trade_record_id?: string | null
+          type: Database["public"]["Enums"]["portfolio_record_type"]
+          unit_value: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          description?: string | null
+          id?: string
+          import_fingerprint?: string | null
+          position_id?: string
+          quantity?: number
+          trade_record_id?: string | null
+          type?: Database["public"]["Enums"]["portfolio_record_type"]
+          unit_value?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "portfolio_records_position_id_fkey"
+            columns: ["position_id"]
+            isOneToOne: false
+            referencedRelation: "positions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "portfolio_records_trade_record_id_fkey"
+            columns: ["trade_record_id"]
+            isOneToOne: false
+            referencedRelation: "portfolio_records"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      position_categories: {
+        Row: {
+          description: string | null
+          display_order: number
+          id: string
+          name: string
+          position_type: Database["public"]["Enums"]["position_type"]
+        }
+        Insert: {
+          description?: string | null
+          display_order: number
+          id: string
+          name: string
+          position_type: Database["public"]["Enums"]["position_type"]
+        }
+        Update: {
+          description?: string | null
+          display_order?: number
+          id?: string
+          name?: string
           position_type?: Database["public"]["Enums"]["position_type"]
         }
-        Relationships: []
+        Relationships: []
+      }
+      position_snapshots: {
+        Row: {
+          cost_basis_per_unit: number | null
+          created_at: string
+          date: string
+          id: string
+          loan_id: string | null
+          portfolio_record_id: string | null
+          position_id: string
+          quantity: number
+          unit_value: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          cost_basis_per_unit?: number | null
+          created_at?: string
+          date: string
+          id?: string
+          loan_id?: string | null
+          portfolio_record_id?: string | null
+          position_id: string
+          quantity: number
+          unit_value: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          cost_basis_per_unit?: number | null
+          created_at?: string
+          date?: string
+          id?: string
+          loan_id?: string | null
+          portfolio_record_id?: string | null
+          position_id?: string
+          quantity?: number
+          unit_value?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "position_snapshots_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "loans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "position_snapshots_portfolio_record_id_fkey"
+            columns: ["portfolio_record_id"]
+            isOneToOne: true
+            referencedRelation: "portfolio_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "position_snapshots_position_id_fkey"
+            columns: ["position_id"]
+            isOneToOne: false
+            referencedRelation: "positions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      positions: {
+        Row: {
+          account_id: string | null
+          archived_at: string | null
+          category_id: string
+          created_at: string
+          currency: string
+          description: string | null
+          domain_id: string | null
+          id: string
+          name: string
+          property_id: string | null
+          symbol_id: string | null
+          type: Database["public"]["Enums"]["position_type"]
+          updated_at: string
+          user_id: string
+          wallet_address: string | null
+          wallet_chain: string | null
+        }
+        Insert: {
+          account_id?: string | null
+          archived_at?: string | null
+          category_id?: string
+          created_at?: string
+          currency: string
+          description?: string | null
+          domain_id?: string | null
+          id?: string
+          name: string
+          property_id?: string | null
+          symbol_id?: string | null
+          type: Database["public"]["Enums"]["position_type"]
+          updated_at?: string
+          user_id: string
+          wallet_address?: string | null
+          wallet_chain?: string | null
+        }
+        Update: {
+          account_id?: string | null
+          archived_at?: string | null
+          category_id?: string
+          created_at?: string
+          currency?: string
+          description?: string | null
+          domain_id?: string | null
+          id?: string
+          name?: string
+          property_id?: string | null
+          symbol_id?: string | null
+          type?: Database["public"]["Enums"]["position_type"]
+          updated_at?: string
+          user_id?: string
+          wallet_address?: string | null
+          wallet_chain?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "positions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "positions_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "position_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "positions_currency_fkey"
+            columns: ["currency"]
+            isOneToOne: false
+            referencedRelation: "currencies"
+            referencedColumns: ["alphabetic_code"]
+          },
+          {
+            foreignKeyName: "positions_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: true
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "positions_symbol_id_fkey"
+            columns: ["symbol_id"]
+            isOneToOne: false
+            referencedRelation: "symbols"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          cost_basis_method: Database["public"]["Enums"]["cost_basis_method"]
+          created_at: string
+          data_sharing_consent: boolean
+          display_currency: string
+          updated_at: string
+          user_id: string
+          username: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          cost_basis_method?: Database["public"]["Enums"]["cost_basis_method"]
+          created_at?: string
+          data_sharing_consent?: boolean
+          display_currency?: string
+          updated_at?: string
+          user_id: string
+          username: string
+        }
+        Update: {
+          avatar_url?: string | null
+          cost_basis_method?: Database["public"]["Enums"]["cost_basis_method"]
+          created_at?: string
+          data_sharing_consent?: boolean
+          display_currency?: string
+          updated_at?: string
+          user_id?: string
+          username?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_display_currency_fkey"
+            columns: ["display_currency"]
+            isOneToOne: false
+            referencedRelation: "currencies"
+            referencedColumns: ["alphabetic_code"]
+          },
+        ]
+      }
+      properties: {
+        Row: {
+          address: string | null
+          created_at: string
+          id: string
+          region: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string
+          id?: string
+          region?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          address?: string | null
+          created_at?: string
+          id?: string
+          region?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "properties_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      property_appraisals: {
+        Row: {
+          created_at: string
+          date: string
+          description: string | null
+          id: string
+          property_id: string
+          user_id: string
+          value: number
+        }
+        Insert: {
+          created_at?: string
+          date: string
+          description?: string | null
+          id?: string
+          property_id: string
+          user_id: string
+          value: number
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          description?: string | null
+          id?: string
+          property_id?: string
+          user_id?: string
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "property_appraisals_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "property_appraisals_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      property_index_values: {
+        Row: {
+          created_at: string
+          date: string
+          region: string
+          user_id: string
+          value: number
+        }
+        Insert: {
+          created_at?: string
+          date: string
+          region: string
+          user_id: string
+          value: number
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          region?: string
+          user_id?: string
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "property_index_values_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      public_portfolio_views: {
+        Row: {
+          date: string
+          public_portfolio_id: string
+          views: number
+        }
+        Insert: {
+          date?: string
+          public_portfolio_id: string
+          views?: number
+        }
+        Update: {
+          date?: string
+          public_portfolio_id?: string
+          views?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "public_portfolio_views_public_portfolio_id_fkey"
+            columns: ["public_portfolio_id"]
+            isOneToOne: false
+            referencedRelation: "public_portfolios"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      public_portfolios: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          hidden_category_ids: string[]
+          hidden_position_ids: string[]
+          id: string
+          password_hash: string | null
+          show_income: boolean
+          show_profit_loss: boolean
+          show_values: boolean
+          slug: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          hidden_category_ids?: string[]
+          hidden_position_ids?: string[]
+          id?: string
+          password_hash?: string | null
+          show_income?: boolean
+          show_profit_loss?: boolean
+          show_values?: boolean
+          slug: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          hidden_category_ids?: string[]
+          hidden_position_ids?: string[]
+          id?: string
+          password_hash?: string | null
+          show_income?: boolean
+          show_profit_loss?: boolean
+          show_values?: boolean
+          slug?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "public_portfolios_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      quotes: {
+        Row: {
+          created_at: string
+          date: string
+          id: string
+          price: number
+          symbol_id: string
+        }
+        Insert: {
+          created_at?: string
+          date: string
+          id?: string
+          price: number
+          symbol_id: string
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          id?: string
+          price?: number
+          symbol_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "symbol_prices_symbol_id_fkey"
+            columns: ["symbol_id"]
+            isOneToOne: false
+            referencedRelation: "symbols"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      position_snapshots: {
+      realized_gains: {
         Row: {
-          cost_basis_per_unit: number | null
+          cost_basis: number
           created_at: string
           date: string
           id: string
-          portfolio_record_id: string | null
+          method: Database["public"]["Enums"]["cost_basis_method"]
+          portfolio_record_id: string
           position_id: string
+          proceeds: number
           quantity: number
-          unit_value: number
-          updated_at: string
+          realized_gain: number
           user_id: string
         }
         Insert: {
-          cost_basis_per_unit?: number | null
+          cost_basis: number
           created_at?: string
           date: string
           id?: string
-          portfolio_record_id?: string | null
+          method: Database["public"]["Enums"]["cost_basis_method"]
+          portfolio_record_id: string
           position_id: string
+          proceeds: number
           quantity: number
-          unit_value: number
-          updated_at?: string
+          realized_gain: number
           user_id: string
         }
         Update: {
-          cost_basis_per_unit?: number | null
+          cost_basis?: number
           created_at?: string
           date?: string
           id?: string
-          portfolio_record_id?: string | null
+          method?: Database["public"]["Enums"]["cost_basis_method"]
+          portfolio_record_id?: string
           position_id?: string
+          proceeds?: number
           quantity?: number
-          unit_value?: number
-          updated_at?: string
+          realized_gain?: number
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "position_snapshots_portfolio_record_id_fkey"
+            foreignKeyName: "realized_gains_portfolio_record_id_fkey"
             columns: ["portfolio_record_id"]
             isOneToOne: true
             referencedRelation: "portfolio_records"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "position_snapshots_position_id_fkey"
+            foreignKeyName: "realized_gains_position_id_fkey"
             columns: ["position_id"]
             isOneToOne: false
             referencedRelation: "positions"
@@ -532,176 +1526,147 @@ export type Database = {
           },
         ]
       }
-      positions: {
+      recurring_occurrences: {
         Row: {
-          archived_at: string | null
-          category_id: string
           created_at: string
-          currency: string
-          description: string | null
-          domain_id: string | null
+          due_date: string
           id: string
-          name: string
-          symbol_id: string | null
-          type: Database["public"]["Enums"]["position_type"]
+          portfolio_record_id: string | null
+          quantity: number | null
+          recurring_transaction_id: string
+          status: Database["public"]["Enums"]["recurring_occurrence_status"]
+          unit_value: number | null
           updated_at: string
           user_id: string
         }
         Insert: {
-          archived_at?: string | null
-          category_id?: string
           created_at?: string
-          currency: string
-          description?: string | null
-          domain_id?: string | null
+          due_date: string
           id?: string
-          name: string
-          symbol_id?: string | null
-          type: Database["public"]["Enums"]["position_type"]
+          portfolio_record_id?: string | null
+          quantity?: number | null
+          recurring_transaction_id: string
+          status?: Database["public"]["Enums"]["recurring_occurrence_status"]
+          unit_value?: number | null
           updated_at?: string
           user_id: string
         }
         Update: {
-          archived_at?: string | null
-          category_id?: string
           created_at?: string
-          currency?: string
-          description?: string | null
-          domain_id?: string | null
+          due_date?: string
           id?: string
-          name?: string
-          symbol_id?: string | null
-          type?: Database["public"]["Enums"]["position_type"]
+          portfolio_record_id?: string | null
+          quantity?: number | null
+          recurring_transaction_id?: string
+          status?: Database["public"]["Enums"]["recurring_occurrence_status"]
+          unit_value?: number | null
           updated_at?: string
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "positions_category_id_fkey"
-            columns: ["category_id"]
+            foreignKeyName: "recurring_occurrences_portfolio_record_id_fkey"
+            columns: ["portfolio_record_id"]
             isOneToOne: false
-            referencedRelation: "position_categories"
+            referencedRelation: "portfolio_records"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "positions_currency_fkey"
-            columns: ["currency"]
-            isOneToOne: false
-            referencedRelation: "currencies"
-            referencedColumns: ["alphabetic_code"]
-          },
-          {
-            foreignKeyName: "positions_symbol_id_fkey"
-            columns: ["symbol_id"]
+            foreignKeyName: "recurring_occurrences_recurring_transaction_id_fkey"
+            columns: ["recurring_transaction_id"]
             isOneToOne: false
-            referencedRelation: "symbols"
+            referencedRelation: "recurring_transactions"
             referencedColumns: ["id"]
           },
-        ]
-      }
-      profiles: {
-        Row: {
-          avatar_url: string | null
-          created_at: string
-          data_sharing_consent: boolean
-          display_currency: string
-          updated_at: string
-          user_id: string
-          username: string
-        }
-        Insert: {
-          avatar_url?: string | null
-          created_at?: string
-          data_sharing_consent?: boolean
-          display_currency?: string
-          updated_at?: string
-          user_id: string
-          username: string
-        }
-        Update: {
-          avatar_url?: string | null
-          created_at?: string
-          data_sharing_consent?: boolean
-          display_currency?: string
-          updated_at?: string
-          user_id?: string
-          username?: string
-        }
-        Relationships: [
           {
-            foreignKeyName: "profiles_display_currency_fkey"
-            columns: ["display_currency"]
+            foreignKeyName: "recurring_occurrences_user_id_fkey"
+            columns: ["user_id"]
             isOneToOne: false
-            referencedRelation: "currencies"
-            referencedColumns: ["alphabetic_code"]
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
           },
         ]
       }
-      public_portfolios: {
+      recurring_transactions: {
         Row: {
+          amount: number | null
+          auto_confirm: boolean
           created_at: string
-          expires_at: string | null
+          description: string | null
+          end_date: string | null
+          frequency: Database["public"]["Enums"]["recurring_frequency"]
           id: string
-          slug: string
+          is_active: boolean
+          last_occurrence_date: string | null
+          position_id: string
+          quantity: number | null
+          settlement_position_id: string | null
+          start_date: string
+          type: Database["public"]["Enums"]["portfolio_record_type"]
+          unit_value: number | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          amount?: number | null
+          auto_confirm?: boolean
           created_at?: string
-          expires_at?: string | null
+          description?: string | null
+          end_date?: string | null
+          frequency?: Database["public"]["Enums"]["recurring_frequency"]
           id?: string
-          slug: string
+          is_active?: boolean
+          last_occurrence_date?: string | null
+          position_id: string
+          quantity?: number | null
+          settlement_position_id?: string | null
+          start_date: string
+          type: Database["public"]["Enums"]["portfolio_record_type"]
+          unit_value?: number | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          amount?: number | null
+          auto_confirm?: boolean
           created_at?: string
-          expires_at?: string | null
+          description?: string | null
+          end_date?: string | null
+          frequency?: Database["public"]["Enums"]["recurring_frequency"]
           id?: string
-          slug?: string
+          is_active?: boolean
+          last_occurrence_date?: string | null
+          position_id?: string
+          quantity?: number | null
+          settlement_position_id?: string | null
+          start_date?: string
+          type?: Database["public"]["Enums"]["portfolio_record_type"]
+          unit_value?: number | null
           updated_at?: string
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "public_portfolios_user_id_fkey"
-            columns: ["user_id"]
-            isOneToOne: true
-            referencedRelation: "profiles"
-            referencedColumns: ["user_id"]
+            foreignKeyName: "recurring_transactions_position_id_fkey"
+            columns: ["position_id"]
+            isOneToOne: false
+            referencedRelation: "positions"
+            referencedColumns: ["id"]
           },
-        ]
-      }
-      quotes: {
-        Row: {
-          created_at: string
-          date: string
-          id: string
-          price: number
-          symbol_id: string
-        }
-        Insert: {
-          created_at?: string
-          date: string
-          id?: string
-          price: number
-          symbol_id: string
-        }
-        Update: {
-          created_at?: string
-          date?: string
-          id?: string
-          price?: number
-          symbol_id?: string
-        }
-        Relationships: [
           {
-            foreignKeyName: "symbol_prices_symbol_id_fkey"
-            columns: ["symbol_id"]
+            foreignKeyName: "recurring_transactions_settlement_position_id_fkey"
+            columns: ["settlement_position_id"]
             isOneToOne: false
-            referencedRelation: "symbols"
+            referencedRelation: "positions"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "recurring_transactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
         ]
       }
       symbol_aliases: {
@@ -801,25 +1766,218 @@ export type Database = {
           },
         ]
       }
+      wallet_balances: {
+        Row: {
+          address: string
+          balance: number
+          chain: string
+          created_at: string
+          date: string
+        }
+        Insert: {
+          address: string
+          balance: number
+          chain: string
+          created_at?: string
+          date: string
+        }
+        Update: {
+          address?: string
+          balance?: number
+          chain?: string
+          created_at?: string
+          date?: string
+        }
+        Relationships: []
+      }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          endpoint_id: string
+          error: string | null
+          event: Database["public"]["Enums"]["webhook_event"]
+          event_id: string
+          id: string
+          last_attempt_at: string | null
+          next_attempt_at: string | null
+          payload: Json
+          response_body: string | null
+          response_status: number | null
+          status: Database["public"]["Enums"]["webhook_delivery_status"]
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          endpoint_id: string
+          error?: string | null
+          event: Database["public"]["Enums"]["webhook_event"]
+          event_id: string
+          id?: string
+          last_attempt_at?: string | null
+          next_attempt_at?: string | null
+          payload: Json
+          response_body?: string | null
+          response_status?: number | null
+          status?: Database["public"]["Enums"]["webhook_delivery_status"]
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          endpoint_id?: string
+          error?: string | null
+          event?: Database["public"]["Enums"]["webhook_event"]
+          event_id?: string
+          id?: string
+          last_attempt_at?: string | null
+          next_attempt_at?: string | null
+          payload?: Json
+          response_body?: string | null
+          response_status?: number | null
+          status?: Database["public"]["Enums"]["webhook_delivery_status"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_endpoints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      webhook_endpoints: {
+        Row: {
+          created_at: string
+          description: string | null
+          events: Database["public"]["Enums"]["webhook_event"][]
+          id: string
+          is_active: boolean
+          secret: string
+          updated_at: string
+          url: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          events: Database["public"]["Enums"]["webhook_event"][]
+          id?: string
+          is_active?: boolean
+          secret: string
+          updated_at?: string
+          url: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          events?: Database["public"]["Enums"]["webhook_event"][]
+          id?: string
+          is_active?: boolean
+          secret?: string
+          updated_at?: string
+          url?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_endpoints_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
       check_username_available: { Args: { name: string }; Returns: boolean }
+      consume_api_rate_limit: {
+        Args: { api_token_id: string; current_window_start: string }
+        Returns: number
+      }
+      has_portfolio_access: {
+        Args: { owner: string; require_editor?: boolean }
+        Returns: boolean
+      }
+      record_public_portfolio_view: {
+        Args: { portfolio_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
+      account_tax_wrapper:
+        | "taxable"
+        | "tax_deferred"
+        | "tax_free"
+        | "pension"
+        | "other"
       age_band: "18-24" | "25-34" | "35-44" | "45-54" | "55-64" | "65+"
+      alert_rule_type:
+        | "price_cross"
+        | "daily_move"
+        | "net_worth_cross"
+        | "allocation_drift"
+        | "ex_dividend"
+      allocation_target_scope: "category" | "position" | "sector"
+      api_token_scope: "read" | "read_write"
       conversation_role: "system" | "user" | "assistant" | "tool"
+      cost_basis_method: "fifo" | "lifo" | "average_cost" | "specific_lot"
       feedback_type: "issue" | "idea" | "other"
-      portfolio_record_type: "buy" | "sell" | "update"
+      loan_payment_frequency:
+        | "weekly"
+        | "biweekly"
+        | "monthly"
+        | "quarterly"
+        | "annually"
+      portfolio_member_role: "viewer" | "editor"
+      portfolio_record_type:
+        | "buy"
+        | "sell"
+        | "update"
+        | "deposit"
+        | "withdrawal"
+        | "interest"
+        | "fee"
+        | "dividend"
+        | "settlement"
       position_type: "asset" | "liability"
+      recurring_frequency:
+        | "weekly"
+        | "biweekly"
+        | "monthly"
+        | "quarterly"
+        | "annually"
+      recurring_occurrence_status: "pending" | "confirmed" | "skipped"
       risk_preference:
         | "very_conservative"
         | "conservative"
         | "moderate"
         | "aggressive"
         | "very_aggressive"
+      webhook_delivery_status: "pending" | "succeeded" | "failed"
+      webhook_event:
+        | "position.created"
+        | "position.archived"
+        | "portfolio_record.created"
+        | "portfolio_record.updated"
+        | "portfolio_record.deleted"
+        | "net_worth.computed"
+        | "import.completed"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -950,11 +2108,54 @@ export const Constants = {
   },
   public: {
     Enums: {
+      account_tax_wrapper: [
+        "taxable",
+        "tax_deferred",
+        "tax_free",
+        "pension",
+        "other",
+      ],
       age_band: ["18-24", "25-34", "35-44", "45-54", "55-64", "65+"],
+      alert_rule_type: [
+        "price_cross",
+        "daily_move",
+        "net_worth_cross",
+        "allocation_drift",
+        "ex_dividend",
+      ],
+      allocation_target_scope: ["category", "position", "sector"],
+      api_token_scope: ["read", "read_write"],
       conversation_role: ["system", "user", "assistant", "tool"],
+      cost_basis_method: ["fifo", "lifo", "average_cost", "specific_lot"],
       feedback_type: ["issue", "idea", "other"],
-      portfolio_record_type: ["buy", "sell", "update"],
+      loan_payment_frequency: [
+        "weekly",
+        "biweekly",
+        "monthly",
+        "quarterly",
+        "annually",
+      ],
+      portfolio_member_role: ["viewer", "editor"],
+      portfolio_record_type: [
+        "buy",
+        "sell",
+        "update",
+        "deposit",
+        "withdrawal",
+        "interest",
+        "fee",
+        "dividend",
+        "settlement",
+      ],
       position_type: ["asset", "liability"],
+      recurring_frequency: [
+        "weekly",
+        "biweekly",
+        "monthly",
+        "quarterly",
+        "annually",
+      ],
+      recurring_occurrence_status: ["pending", "confirmed", "skipped"],
       risk_preference: [
         "very_conservative",
         "conservative",
@@ -962,6 +2163,16 @@ export const Constants = {
         "aggressive",
         "very_aggressive",
       ],
+      webhook_delivery_status: ["pending", "succeeded", "failed"],
+      webhook_event: [
+        "position.created",
+        "position.archived",
+        "portfolio_record.created",
+        "portfolio_record.updated",
+        "portfolio_record.deleted",
+        "net_worth.computed",
+        "import.completed",
+      ],
     },
   },
 } as const
@@ -7,11 +7,67 @@ import { Constants } from "@/types/database.types";
 export const PORTFOLIO_RECORD_TYPES =
   Constants.public.Enums.portfolio_record_type;
 
-// Position types (assets now; liabilities reserved for future)
+// Record types entered on securities/valued positions
+export const TRADE_RECORD_TYPES = ["buy", "sell", "update"] as const;
+
+// Record types entered on cash ledger positions (settlements are generated)
+export const CASH_RECORD_TYPES = [
+  "deposit",
+  "withdrawal",
+  "interest",
+  "fee",
+  "dividend",
+] as const;
+
+// Position types
 export const POSITION_TYPES = Constants.public.Enums.position_type;
 
+// Account tax wrappers (brokerage, retirement, tax-free savings, ...)
+export const ACCOUNT_TAX_WRAPPERS = Constants.public.Enums.account_tax_wrapper;
+
+// Household member roles (viewer read-only, editor can change data)
+export const PORTFOLIO_MEMBER_ROLES =
+  Constants.public.Enums.portfolio_member_role;
+
+// AI conversation message roles
+export const CONVERSATION_ROLES = Constants.public.Enums.conversation_role;
+
 // Risk preference types
 export const RISK_PREFERENCES = Constants.public.Enums.risk_preference;
 
 // Age band types
 export const AGE_BANDS = Constants.public.Enums.age_band;
+
+// Loan payment frequencies
+export const LOAN_PAYMENT_FREQUENCIES =
+  Constants.public.Enums.loan_payment_frequency;
+
+// Cost basis (lot matching) methods
+export const COST_BASIS_METHODS = Constants.public.Enums.cost_basis_method;
+
+// Allocation target scopes (what a target weight applies to)
+export const ALLOCATION_TARGET_SCOPES =
+  Constants.public.Enums.allocation_target_scope;
+
+// Recurring transaction frequencies and the record types they can generate
+export const RECURRING_FREQUENCIES = Constants.public.Enums.recurring_frequency;
+
+export const RECURRING_RECORD_TYPES = [
+  "buy",
+  "sell",
+  "deposit",
+  "withdrawal",
+  "fee",
+  "interest",
+] as const;
+
+// Alert rule types (what a rule watches)
+export const ALERT_RULE_TYPES = Constants.public.Enums.alert_rule_type;
+
+export const ALERT_DIRECTIONS = ["above", "below"] as const;
+
+// API token scopes (read-write includes read)
+export const API_TOKEN_SCOPES = Constants.public.Enums.api_token_scope;
+
+// Events webhook endpoints can subscribe to
+export const WEBHOOK_EVENTS = Constants.public.Enums.webhook_event;
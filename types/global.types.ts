@@ -6,6 +6,11 @@ export type Profile = Tables<"profiles">;
 // Currency
 export type Currency = Pick<Tables<"currencies">, "alphabetic_code" | "name">;
 
+// Accounts
+export type Account = Tables<"accounts">;
+
+export type AccountTaxWrapper = Account["tax_wrapper"];
+
 // Positions
 export type Position = Tables<"positions">;
 
@@ -45,6 +50,10 @@ export type PortfolioRecordWithPosition = PortfolioRecord & {
         >
       >
     | null;
+  realized_gains?:
+    | Pick<Tables<"realized_gains">, "realized_gain" | "cost_basis">
+    | Array<Pick<Tables<"realized_gains">, "realized_gain" | "cost_basis">>
+    | null;
 };
 
 export type PortfolioRecordsPage = {
@@ -57,6 +66,11 @@ export type PortfolioRecordsPage = {
   hasPreviousPage: boolean;
 };
 
+// Realized Gains
+export type RealizedGain = Tables<"realized_gains">;
+
+export type LotSelection = Tables<"lot_selections">;
+
 // Position Snapshots
 export type PositionSnapshot = Tables<"position_snapshots">;
 
@@ -65,6 +79,31 @@ export type TransformedPositionSnapshot = PositionSnapshot & {
   currency: string;
 };
 
+// Loans
+export type Loan = Tables<"loans">;
+
+export type LoanExtraPayment = Tables<"loan_extra_payments">;
+
+// Allocation Targets
+export type AllocationTarget = Tables<"allocation_targets">;
+
+export type AllocationTargetScope = AllocationTarget["scope"];
+
+// Goals
+export type Goal = Tables<"goals">;
+
+// Recurring Transactions
+export type RecurringTransaction = Tables<"recurring_transactions">;
+
+export type RecurringOccurrence = Tables<"recurring_occurrences">;
+
+// Alerts
+export type AlertRule = Tables<"alert_rules">;
+
+export type AlertRuleType = AlertRule["type"];
+
+export type Notification = Tables<"notifications">;
+
 // Position Categories
 export type PositionCategory = Tables<"position_categories">;
 
@@ -114,6 +153,28 @@ export type PublicPortfolioMetadata = {
   expiresAt: string | null;
   isActive: boolean;
   neverExpires: boolean;
+  isPasswordProtected: boolean;
+  settings: PublicPortfolioSettings;
+};
+
+// What visitors of a public portfolio can see
+export type PublicPortfolioSettings = {
+  /** Off = percentages only */
+  showValues: boolean;
+  showProfitLoss: boolean;
+  showIncome: boolean;
+  hiddenPositionIds: string[];
+  hiddenCategoryIds: string[];
+};
+
+export type PublicPortfolioViews = {
+  total: number;
+  last30Days: number;
+};
+
+/** Asset shown on a public portfolio, valued in the page currency. */
+export type PublicPortfolioPosition = PositionWithProfitLoss & {
+  value: number;
 };
 
 export type PublicPortfolioWithProfile = {
@@ -127,5 +188,46 @@ export type PublicPortfolioWithProfile = {
 
 export type PublicPortfolioExpirationOption = "24h" | "7d" | "30d" | "never";
 
+// Household sharing
+export type PortfolioMember = Tables<"portfolio_members">;
+
+export type PortfolioMemberRole = PortfolioMember["role"];
+
+/** Access the current user has to the portfolio being viewed. */
+export type PortfolioAccess = "owner" | PortfolioMemberRole;
+
+export type HouseholdProfile = Pick<
+  Tables<"profiles">,
+  "user_id" | "username" | "avatar_url"
+>;
+
+export type PortfolioMemberWithProfile = PortfolioMember & {
+  /** Null until the invitation is accepted */
+  member: HouseholdProfile | null;
+};
+
+/** A portfolio another user shared with the current user. */
+export type SharedPortfolio = {
+  /** Portfolio member ID of the grant */
+  id: string;
+  owner: HouseholdProfile;
+  role: PortfolioMemberRole;
+};
+
+// API access
+/** Personal access token, without its hash. */
+export type ApiToken = Omit<Tables<"api_tokens">, "token_hash">;
+
+export type ApiTokenScope = ApiToken["scope"];
+
+// Webhooks
+export type WebhookEndpoint = Tables<"webhook_endpoints">;
+
+export type WebhookEvent = WebhookEndpoint["events"][number];
+
+export type WebhookDelivery = Tables<"webhook_deliveries">;
+
+export type WebhookDeliveryStatus = WebhookDelivery["status"];
+
 // Financial Profile
 export type FinancialProfile = Tables<"financial_profiles">;